@@ -14,6 +14,8 @@ import OrderError from "@/pages/OrderError";
 import Leaderboard from "@/pages/Leaderboard";
 import TVDisplay from "@/pages/TVDisplay";
 import AppWaitlist from "@/pages/AppWaitlist";
+import GiftCertificates from "@/pages/GiftCertificates";
+import GiftCertificatePrint from "@/pages/GiftCertificatePrint";
 import { useDesignMode } from "@/hooks/use-design-mode";
 import { AuthProvider } from "@/hooks/use-auth";
 import { FirstOrderPromo } from "@/components/FirstOrderPromo";
@@ -22,6 +24,7 @@ function Router() {
   return (
     <Switch>
       <Route path="/" component={Home} />
+      <Route path="/product/:slug" component={Home} />
       <Route path="/admin" component={Admin} />
       <Route path="/admin/leaderboard" component={Leaderboard} />
       <Route path="/tv-display" component={TVDisplay} />
@@ -32,6 +35,8 @@ function Router() {
       <Route path="/order/success" component={OrderSuccess} />
       <Route path="/order/error" component={OrderError} />
       <Route path="/app-waitlist" component={AppWaitlist} />
+      <Route path="/gift-certificates" component={GiftCertificates} />
+      <Route path="/gift-certificate/:code" component={GiftCertificatePrint} />
       <Route component={NotFound} />
     </Switch>
   );
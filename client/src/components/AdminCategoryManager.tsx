@@ -0,0 +1,248 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { FolderTree, Pencil, Trash2, X, Percent } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import { buildCategoryTree, flattenCategoryTree, getCategoryDescendantIds } from "@shared/categories";
+import type { Category, InsertCategory } from "@shared/schema";
+import { sortVolumeDiscountTiers } from "@shared/volumeDiscounts";
+import VolumeDiscountTiersEditor from "@/components/VolumeDiscountTiersEditor";
+
+interface AdminCategoryManagerProps {
+  adminFetch: (url: string, options?: RequestInit) => Promise<any>;
+}
+
+const EMPTY_FORM: InsertCategory = { name: "", slug: "", parentId: null, sortOrder: 0, volumeDiscountTiers: null };
+
+export default function AdminCategoryManager({ adminFetch }: AdminCategoryManagerProps) {
+  const { toast } = useToast();
+  const [editingCategory, setEditingCategory] = useState<Category | null>(null);
+  const [formData, setFormData] = useState<InsertCategory>(EMPTY_FORM);
+
+  const { data: categories = [], isLoading } = useQuery<Category[]>({
+    queryKey: ["/api/categories"],
+  });
+  const rows = flattenCategoryTree(buildCategoryTree(categories));
+
+  // A category can't be moved under itself or its own subcategories
+  const blockedParentIds = editingCategory ? getCategoryDescendantIds(categories, editingCategory.id) : new Set<number>();
+  const parentOptions = rows.filter(({ category }) => !blockedParentIds.has(category.id));
+
+  const onSuccess = (message: string) => {
+    queryClient.invalidateQueries({ queryKey: ["/api/categories"] });
+    resetForm();
+    toast({ title: "Успех", description: message });
+  };
+  const onError = (error: Error) => {
+    toast({ title: "Ошибка", description: error.message, variant: "destructive" });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: InsertCategory) => {
+      return adminFetch(editingCategory ? `/api/admin/categories/${editingCategory.id}` : "/api/admin/categories", {
+        method: editingCategory ? "PUT" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(data),
+      });
+    },
+    onSuccess: () => onSuccess(editingCategory ? "Категория обновлена" : "Категория создана"),
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => adminFetch(`/api/admin/categories/${id}`, { method: "DELETE" }),
+    onSuccess: () => {
+      // Products of the deleted category lose their placement
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/products"] });
+      onSuccess("Категория удалена");
+    },
+    onError,
+  });
+
+  const resetForm = () => {
+    setFormData(EMPTY_FORM);
+    setEditingCategory(null);
+  };
+
+  const handleEdit = (category: Category) => {
+    setEditingCategory(category);
+    setFormData({
+      name: category.name,
+      slug: category.slug,
+      parentId: category.parentId,
+      sortOrder: category.sortOrder,
+      volumeDiscountTiers: category.volumeDiscountTiers,
+    });
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (formData.name.trim().length < 2) {
+      toast({ title: "Ошибка", description: "Введите название категории", variant: "destructive" });
+      return;
+    }
+    saveMutation.mutate({
+      ...formData,
+      volumeDiscountTiers: formData.volumeDiscountTiers ? sortVolumeDiscountTiers(formData.volumeDiscountTiers) : null,
+    });
+  };
+
+  if (isLoading) {
+    return <Card className="p-8 text-center">Загрузка...</Card>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card className="p-6">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-lg font-semibold font-serif">
+              {editingCategory ? "Редактировать категорию" : "Добавить категорию"}
+            </h3>
+            {editingCategory && (
+              <Button type="button" variant="ghost" size="sm" onClick={resetForm} data-testid="button-cancel-category-edit">
+                <X className="h-4 w-4 mr-1" />
+                Отмена
+              </Button>
+            )}
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="category-name">Название</Label>
+              <Input
+                id="category-name"
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                placeholder="Шу Пуэр"
+                data-testid="input-category-name"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="category-slug">Адрес</Label>
+              <Input
+                id="category-slug"
+                value={formData.slug}
+                onChange={(e) => setFormData({ ...formData, slug: e.target.value.toLowerCase() })}
+                placeholder="Из названия"
+                className="font-mono"
+                data-testid="input-category-slug"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Родительская категория</Label>
+              <Select
+                value={formData.parentId ? String(formData.parentId) : "none"}
+                onValueChange={(value) => setFormData({ ...formData, parentId: value === "none" ? null : parseInt(value) })}
+              >
+                <SelectTrigger data-testid="select-category-parent">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">Верхний уровень</SelectItem>
+                  {parentOptions.map(({ category, depth }) => (
+                    <SelectItem key={category.id} value={String(category.id)}>
+                      {"— ".repeat(depth)}{category.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="category-sort">Порядок</Label>
+              <Input
+                id="category-sort"
+                type="number"
+                value={formData.sortOrder ?? 0}
+                onChange={(e) => setFormData({ ...formData, sortOrder: parseInt(e.target.value) || 0 })}
+                data-testid="input-category-sort"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Скидка за объём (чай на развес)</Label>
+            <VolumeDiscountTiersEditor
+              value={formData.volumeDiscountTiers ?? null}
+              onChange={(volumeDiscountTiers) => setFormData({ ...formData, volumeDiscountTiers })}
+              inheritLabel="Как у родительской категории или общие из настроек сайта"
+              testIdPrefix="category-volume-discount"
+            />
+          </div>
+
+          <div className="flex justify-end">
+            <Button type="submit" disabled={saveMutation.isPending} data-testid="button-submit-category">
+              {editingCategory ? "Сохранить" : "Добавить"}
+            </Button>
+          </div>
+        </form>
+      </Card>
+
+      <Card className="p-6">
+        <h3 className="text-lg font-semibold font-serif mb-4">Дерево категорий ({categories.length})</h3>
+        <div className="space-y-1">
+          {rows.map(({ category, depth }) => (
+            <div
+              key={category.id}
+              className="flex items-center justify-between gap-2 rounded-md px-2 py-1 hover-elevate"
+              style={{ paddingLeft: `${depth * 1.5 + 0.5}rem` }}
+              data-testid={`row-category-${category.id}`}
+            >
+              <div className="flex items-center gap-2 min-w-0">
+                <FolderTree className="h-4 w-4 text-muted-foreground shrink-0" />
+                <span className="font-medium truncate">{category.name}</span>
+                <code className="text-xs px-1 bg-muted rounded">{category.slug}</code>
+                {category.volumeDiscountTiers && (
+                  <span className="flex items-center gap-1 text-xs text-muted-foreground" data-testid={`text-category-volume-discount-${category.id}`}>
+                    <Percent className="h-3 w-3" />
+                    {category.volumeDiscountTiers.length > 0
+                      ? sortVolumeDiscountTiers(category.volumeDiscountTiers).map(tier => `${tier.minQuantity} г −${tier.percent}%`).join(", ")
+                      : "без скидки"}
+                  </span>
+                )}
+              </div>
+              <div className="flex gap-1">
+                <Button variant="ghost" size="icon" onClick={() => handleEdit(category)} data-testid={`button-edit-category-${category.id}`}>
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => {
+                    if (confirm(`Удалить категорию "${category.name}"? Товары останутся без раздела.`)) {
+                      deleteMutation.mutate(category.id);
+                    }
+                  }}
+                  disabled={deleteMutation.isPending || category.children.length > 0}
+                  data-testid={`button-delete-category-${category.id}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {categories.length === 0 && (
+          <div className="text-center py-8 text-muted-foreground">
+            Нет категорий. Добавьте первую выше.
+          </div>
+        )}
+      </Card>
+    </div>
+  );
+}
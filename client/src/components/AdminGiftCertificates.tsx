@@ -0,0 +1,305 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Ban, ExternalLink, Send } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import { getGiftCertificateState } from "@shared/giftCertificates";
+import type { GiftCertificate } from "@shared/schema";
+
+interface AdminGiftCertificatesProps {
+  adminFetch: (url: string, options?: RequestInit) => Promise<any>;
+}
+
+interface IssueFormState {
+  amount: string;
+  recipientName: string;
+  recipientPhone: string;
+  recipientEmail: string;
+  message: string;
+  expiresAt: string; // yyyy-mm-dd, empty = default validity
+}
+
+const EMPTY_FORM: IssueFormState = {
+  amount: "",
+  recipientName: "",
+  recipientPhone: "",
+  recipientEmail: "",
+  message: "",
+  expiresAt: "",
+};
+
+function formatDate(iso: string): string {
+  return new Date(iso).toLocaleDateString("ru-RU", { day: "numeric", month: "short", year: "numeric" });
+}
+
+export default function AdminGiftCertificates({ adminFetch }: AdminGiftCertificatesProps) {
+  const { toast } = useToast();
+  const [formData, setFormData] = useState<IssueFormState>(EMPTY_FORM);
+
+  const { data: certificates = [], isLoading } = useQuery<GiftCertificate[]>({
+    queryKey: ["/api/admin/gift-certificates"],
+    queryFn: () => adminFetch("/api/admin/gift-certificates"),
+  });
+
+  const issueMutation = useMutation({
+    mutationFn: async (data: IssueFormState) => {
+      return adminFetch("/api/admin/gift-certificates", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          amount: Number(data.amount),
+          recipientName: data.recipientName.trim() || null,
+          recipientPhone: data.recipientPhone,
+          recipientEmail: data.recipientEmail,
+          message: data.message.trim() || null,
+          // End of the chosen day in the admin's time zone
+          expiresAt: data.expiresAt ? new Date(`${data.expiresAt}T23:59:59`).toISOString() : null,
+        }),
+      });
+    },
+    onSuccess: (certificate: GiftCertificate) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/gift-certificates"] });
+      toast({ title: "Успех", description: `Сертификат ${certificate.code} выпущен` });
+      setFormData(EMPTY_FORM);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Ошибка", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async (id: number) => adminFetch(`/api/admin/gift-certificates/${id}/cancel`, { method: "POST" }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/gift-certificates"] });
+      toast({ title: "Успех", description: "Сертификат аннулирован" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Ошибка", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const resendMutation = useMutation({
+    mutationFn: async (id: number) => adminFetch(`/api/admin/gift-certificates/${id}/resend`, { method: "POST" }),
+    onSuccess: () => {
+      toast({ title: "Успех", description: "Сертификат отправлен повторно" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Ошибка", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!(Number(formData.amount) > 0)) {
+      toast({ title: "Ошибка", description: "Укажите номинал сертификата", variant: "destructive" });
+      return;
+    }
+    issueMutation.mutate(formData);
+  };
+
+  const getStatus = (certificate: GiftCertificate) => {
+    switch (getGiftCertificateState(certificate)) {
+      case "pending":
+        return <Badge variant="outline">Ждёт оплаты</Badge>;
+      case "active":
+        return <Badge className="bg-green-600 text-white border-0">Действует</Badge>;
+      case "redeemed":
+        return <Badge variant="secondary">Активирован</Badge>;
+      case "expired":
+        return <Badge variant="outline">Истёк</Badge>;
+      case "cancelled":
+        return <Badge variant="destructive">Аннулирован</Badge>;
+    }
+  };
+
+  if (isLoading) {
+    return <Card className="p-8 text-center">Загрузка...</Card>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card className="p-6">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <h3 className="text-lg font-semibold font-serif mb-4">Выпустить сертификат</h3>
+
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="certificate-amount">Номинал, ₽</Label>
+              <Input
+                id="certificate-amount"
+                type="number"
+                min="100"
+                value={formData.amount}
+                onChange={(e) => setFormData({ ...formData, amount: e.target.value })}
+                data-testid="input-certificate-amount"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="certificate-recipient-name">Получатель</Label>
+              <Input
+                id="certificate-recipient-name"
+                value={formData.recipientName}
+                onChange={(e) => setFormData({ ...formData, recipientName: e.target.value })}
+                data-testid="input-certificate-recipient-name"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="certificate-recipient-phone">Телефон</Label>
+              <Input
+                id="certificate-recipient-phone"
+                type="tel"
+                value={formData.recipientPhone}
+                onChange={(e) => setFormData({ ...formData, recipientPhone: e.target.value })}
+                data-testid="input-certificate-recipient-phone"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="certificate-recipient-email">Email</Label>
+              <Input
+                id="certificate-recipient-email"
+                type="email"
+                value={formData.recipientEmail}
+                onChange={(e) => setFormData({ ...formData, recipientEmail: e.target.value })}
+                data-testid="input-certificate-recipient-email"
+              />
+            </div>
+            <div className="space-y-2 md:col-span-3">
+              <Label htmlFor="certificate-message">Пожелание</Label>
+              <Input
+                id="certificate-message"
+                maxLength={300}
+                value={formData.message}
+                onChange={(e) => setFormData({ ...formData, message: e.target.value })}
+                placeholder="Спасибо, что вы с нами!"
+                data-testid="input-certificate-message"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="certificate-expires-at">Действует до</Label>
+              <Input
+                id="certificate-expires-at"
+                type="date"
+                value={formData.expiresAt}
+                onChange={(e) => setFormData({ ...formData, expiresAt: e.target.value })}
+                data-testid="input-certificate-expires-at"
+              />
+            </div>
+          </div>
+
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <p className="text-sm text-muted-foreground">
+              Если указаны телефон или email, код отправится получателю сразу.
+            </p>
+            <Button type="submit" disabled={issueMutation.isPending} data-testid="button-issue-certificate">
+              Выпустить
+            </Button>
+          </div>
+        </form>
+      </Card>
+
+      <Card className="p-6">
+        <h3 className="text-lg font-semibold font-serif mb-4">Сертификаты ({certificates.length})</h3>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Код</TableHead>
+              <TableHead>Номинал</TableHead>
+              <TableHead>Покупатель / получатель</TableHead>
+              <TableHead>Сроки</TableHead>
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {certificates.map(certificate => {
+              const state = getGiftCertificateState(certificate);
+              return (
+                <TableRow key={certificate.id} data-testid={`row-certificate-${certificate.id}`}>
+                  <TableCell>
+                    <div className="flex items-center gap-2">
+                      <span className="font-mono font-semibold">{certificate.code}</span>
+                      {getStatus(certificate)}
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {certificate.source === "manual" ? "Выпущен вручную" : "Куплен на сайте"}
+                    </p>
+                  </TableCell>
+                  <TableCell>{(certificate.amount / 100).toLocaleString("ru-RU")} ₽</TableCell>
+                  <TableCell className="text-xs text-muted-foreground max-w-xs">
+                    {certificate.buyerName && <p>От: {certificate.buyerName}, {certificate.buyerPhone}</p>}
+                    {(certificate.recipientName || certificate.recipientPhone || certificate.recipientEmail) && (
+                      <p>
+                        Кому: {[certificate.recipientName, certificate.recipientPhone, certificate.recipientEmail].filter(Boolean).join(", ")}
+                      </p>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-xs text-muted-foreground whitespace-nowrap">
+                    <p>выпущен {formatDate(certificate.createdAt)}</p>
+                    {certificate.redeemedAt
+                      ? <p>активирован {formatDate(certificate.redeemedAt)}</p>
+                      : <p>до {formatDate(certificate.expiresAt)}</p>}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex justify-end gap-1">
+                      {state !== "pending" && (
+                        <Button variant="ghost" size="icon" asChild data-testid={`button-open-certificate-${certificate.id}`}>
+                          <a href={`/gift-certificate/${certificate.code}`} target="_blank" rel="noopener noreferrer">
+                            <ExternalLink className="h-4 w-4" />
+                          </a>
+                        </Button>
+                      )}
+                      {state === "active" && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => resendMutation.mutate(certificate.id)}
+                          disabled={resendMutation.isPending}
+                          data-testid={`button-resend-certificate-${certificate.id}`}
+                        >
+                          <Send className="h-4 w-4" />
+                        </Button>
+                      )}
+                      {(certificate.status === "pending" || certificate.status === "active") && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => {
+                            if (confirm(`Аннулировать сертификат ${certificate.code}?`)) {
+                              cancelMutation.mutate(certificate.id);
+                            }
+                          }}
+                          disabled={cancelMutation.isPending}
+                          data-testid={`button-cancel-certificate-${certificate.id}`}
+                        >
+                          <Ban className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+
+        {certificates.length === 0 && (
+          <div className="text-center py-8 text-muted-foreground">
+            Сертификатов пока нет.
+          </div>
+        )}
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,386 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import type { ProductWithVariants, ProductVariant, StockMovement, StockAdjustment } from "@shared/schema";
+import { sortVariants, isLowStock } from "@shared/variants";
+import { AlertTriangle, PackagePlus } from "lucide-react";
+
+interface AdminInventoryProps {
+  adminFetch: (url: string, options?: RequestInit) => Promise<any>;
+}
+
+type StockMovementRow = StockMovement & { productName: string; variantName: string | null };
+
+// What the adjustment dialog is changing: product stock (variant = null) or packs of one variant
+type AdjustTarget = { product: ProductWithVariants; variant: ProductVariant | null };
+
+const REASON_LABELS: Record<string, string> = {
+  order_paid: "Оплата заказа",
+  order_cancelled: "Отмена заказа",
+  manual: "Корректировка",
+  restock: "Поступление",
+};
+
+function formatProductStock(product: ProductWithVariants): string {
+  if (product.stock === null) return "—";
+  const isPiece = product.pricingUnit === "piece" || product.category === "teaware";
+  return `${product.stock} ${isPiece ? "шт" : "г"}`;
+}
+
+export default function AdminInventory({ adminFetch }: AdminInventoryProps) {
+  const { toast } = useToast();
+  const [adjustTarget, setAdjustTarget] = useState<AdjustTarget | null>(null);
+  const [delta, setDelta] = useState("");
+  const [reason, setReason] = useState<StockAdjustment["reason"]>("restock");
+  const [comment, setComment] = useState("");
+  const [historyProductId, setHistoryProductId] = useState<string>("all");
+
+  const { data: products = [], isLoading: productsLoading } = useQuery<ProductWithVariants[]>({
+    queryKey: ["/api/admin/products"],
+    queryFn: () => adminFetch("/api/admin/products"),
+  });
+
+  const movementsUrl = historyProductId === "all"
+    ? "/api/admin/stock-movements"
+    : `/api/admin/stock-movements?productId=${historyProductId}`;
+  const { data: movements = [], isLoading: movementsLoading } = useQuery<StockMovementRow[]>({
+    queryKey: ["/api/admin/stock-movements", historyProductId],
+    queryFn: () => adminFetch(movementsUrl),
+  });
+
+  const adjustMutation = useMutation({
+    mutationFn: async ({ productId, data }: { productId: number; data: StockAdjustment }) => {
+      return adminFetch(`/api/admin/products/${productId}/stock`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(data),
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/products"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/stock-movements"] });
+      closeAdjustDialog();
+      toast({
+        title: "Остаток обновлён",
+        description: "Изменение записано в историю движения",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Ошибка",
+        description: error.message || "Не удалось изменить остаток",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openAdjustDialog = (product: ProductWithVariants, variant: ProductVariant | null) => {
+    setAdjustTarget({ product, variant });
+    setDelta("");
+    setReason("restock");
+    setComment("");
+  };
+
+  const closeAdjustDialog = () => {
+    setAdjustTarget(null);
+  };
+
+  const handleAdjustSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!adjustTarget) return;
+    const value = parseInt(delta, 10);
+    if (!value) {
+      toast({
+        title: "Ошибка",
+        description: "Укажите, на сколько изменить остаток",
+        variant: "destructive",
+      });
+      return;
+    }
+    adjustMutation.mutate({
+      productId: adjustTarget.product.id,
+      data: {
+        variantId: adjustTarget.variant?.id,
+        delta: value,
+        reason,
+        comment: comment.trim() || undefined,
+      },
+    });
+  };
+
+  const trackedProducts = products.filter(p => p.stock !== null || p.variants.some(v => v.stock !== null));
+  const lowStockCount = trackedProducts.filter(p => isLowStock(p, p.variants)).length;
+
+  return (
+    <div className="space-y-8">
+      <div>
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h2 className="font-serif text-2xl font-semibold">Склад</h2>
+            <p className="text-muted-foreground mt-2">
+              Остатки списываются при оплате заказа и возвращаются при отмене. Задать остаток можно в карточке товара.
+            </p>
+          </div>
+          {lowStockCount > 0 && (
+            <Badge variant="destructive" data-testid="badge-low-stock-count">
+              <AlertTriangle className="w-3 h-3 mr-1" />
+              Заканчивается: {lowStockCount}
+            </Badge>
+          )}
+        </div>
+
+        {productsLoading ? (
+          <Card className="p-8 text-center">
+            <p className="text-muted-foreground">Загрузка остатков...</p>
+          </Card>
+        ) : trackedProducts.length === 0 ? (
+          <Card className="p-8 text-center">
+            <p className="text-muted-foreground" data-testid="text-no-tracked-products">
+              Ни у одного товара не указан остаток
+            </p>
+          </Card>
+        ) : (
+          <Card>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b">
+                    <th className="text-left p-3 font-medium text-muted-foreground">Товар</th>
+                    <th className="text-left p-3 font-medium text-muted-foreground">Остаток</th>
+                    <th className="text-left p-3 font-medium text-muted-foreground">Варианты (упаковок)</th>
+                    <th className="text-left p-3 font-medium text-muted-foreground">Порог</th>
+                    <th className="p-3"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {trackedProducts.map((product) => {
+                    const lowStock = isLowStock(product, product.variants);
+                    return (
+                      <tr
+                        key={product.id}
+                        className={`border-b last:border-0 ${lowStock ? "bg-destructive/5" : ""}`}
+                        data-testid={`row-stock-${product.id}`}
+                      >
+                        <td className="p-3">
+                          <div className="font-medium">{product.name}</div>
+                          {product.outOfStock && (
+                            <span className="text-xs text-destructive">Нет в наличии</span>
+                          )}
+                        </td>
+                        <td className="p-3 whitespace-nowrap">
+                          {product.stock !== null ? (
+                            <button
+                              type="button"
+                              className="underline decoration-dotted"
+                              onClick={() => openAdjustDialog(product, null)}
+                              data-testid={`button-adjust-product-stock-${product.id}`}
+                            >
+                              {formatProductStock(product)}
+                            </button>
+                          ) : "—"}
+                        </td>
+                        <td className="p-3">
+                          <div className="flex flex-wrap gap-1">
+                            {sortVariants(product.variants).map(variant => (
+                              <Badge
+                                key={variant.id}
+                                variant={variant.stock !== null && product.lowStockThreshold !== null && variant.stock <= product.lowStockThreshold ? "destructive" : "secondary"}
+                                className={variant.stock !== null ? "cursor-pointer" : ""}
+                                onClick={() => variant.stock !== null && openAdjustDialog(product, variant)}
+                                data-testid={`badge-variant-stock-${variant.id}`}
+                              >
+                                {variant.name}: {variant.stock ?? "из общего"}
+                              </Badge>
+                            ))}
+                          </div>
+                        </td>
+                        <td className="p-3 text-muted-foreground">{product.lowStockThreshold ?? "—"}</td>
+                        <td className="p-3 text-right">
+                          <Button
+                            variant="outline"
+                            size="icon"
+                            onClick={() => openAdjustDialog(product, product.stock !== null ? null : product.variants.find(v => v.stock !== null) || null)}
+                            data-testid={`button-adjust-stock-${product.id}`}
+                            aria-label="Изменить остаток"
+                          >
+                            <PackagePlus className="w-4 h-4" />
+                          </Button>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </Card>
+        )}
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between mb-4 gap-4">
+          <h3 className="font-serif text-xl font-semibold">История движения</h3>
+          <Select value={historyProductId} onValueChange={setHistoryProductId}>
+            <SelectTrigger className="w-64" data-testid="select-stock-history-product">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Все товары</SelectItem>
+              {trackedProducts.map(product => (
+                <SelectItem key={product.id} value={String(product.id)}>{product.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {movementsLoading ? (
+          <Card className="p-8 text-center">
+            <p className="text-muted-foreground">Загрузка истории...</p>
+          </Card>
+        ) : movements.length === 0 ? (
+          <Card className="p-8 text-center">
+            <p className="text-muted-foreground">Движений пока нет</p>
+          </Card>
+        ) : (
+          <Card>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b">
+                    <th className="text-left p-3 font-medium text-muted-foreground">Дата</th>
+                    <th className="text-left p-3 font-medium text-muted-foreground">Товар</th>
+                    <th className="text-left p-3 font-medium text-muted-foreground">Изменение</th>
+                    <th className="text-left p-3 font-medium text-muted-foreground">Остаток</th>
+                    <th className="text-left p-3 font-medium text-muted-foreground">Причина</th>
+                    <th className="text-left p-3 font-medium text-muted-foreground">Комментарий</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {movements.map((movement) => (
+                    <tr key={movement.id} className="border-b last:border-0" data-testid={`row-stock-movement-${movement.id}`}>
+                      <td className="p-3 text-muted-foreground whitespace-nowrap">
+                        {new Date(movement.createdAt).toLocaleString("ru-RU")}
+                      </td>
+                      <td className="p-3">
+                        {movement.productName}
+                        {movement.variantName && <span className="text-muted-foreground"> · {movement.variantName}</span>}
+                      </td>
+                      <td className={`p-3 font-medium ${movement.delta > 0 ? "text-green-600" : "text-destructive"}`}>
+                        {movement.delta > 0 ? `+${movement.delta}` : movement.delta}
+                      </td>
+                      <td className="p-3">{movement.balanceAfter}</td>
+                      <td className="p-3">
+                        {REASON_LABELS[movement.reason] || movement.reason}
+                        {movement.orderId && <span className="text-muted-foreground"> #{movement.orderId}</span>}
+                      </td>
+                      <td className="p-3 text-muted-foreground">{movement.comment || "—"}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </Card>
+        )}
+      </div>
+
+      <Dialog open={!!adjustTarget} onOpenChange={(open) => !open && closeAdjustDialog()}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Изменить остаток</DialogTitle>
+            <DialogDescription>
+              {adjustTarget?.product.name}
+              {adjustTarget?.variant
+                ? ` · ${adjustTarget.variant.name}, сейчас ${adjustTarget.variant.stock} упак.`
+                : adjustTarget ? `, сейчас ${formatProductStock(adjustTarget.product)}` : ""}
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleAdjustSubmit} className="space-y-4">
+            {adjustTarget && adjustTarget.product.variants.some(v => v.stock !== null) && (
+              <div className="space-y-2">
+                <Label>Что изменить</Label>
+                <Select
+                  value={adjustTarget.variant ? String(adjustTarget.variant.id) : "product"}
+                  onValueChange={(value) => setAdjustTarget({
+                    product: adjustTarget.product,
+                    variant: adjustTarget.product.variants.find(v => String(v.id) === value) || null,
+                  })}
+                >
+                  <SelectTrigger data-testid="select-adjust-target">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {adjustTarget.product.stock !== null && (
+                      <SelectItem value="product">Общий остаток товара</SelectItem>
+                    )}
+                    {sortVariants(adjustTarget.product.variants)
+                      .filter(v => v.stock !== null)
+                      .map(v => (
+                        <SelectItem key={v.id} value={String(v.id)}>{v.name}</SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="stock-delta">Изменение</Label>
+              <Input
+                id="stock-delta"
+                type="number"
+                placeholder="Например, 500 или -25"
+                value={delta}
+                onChange={(e) => setDelta(e.target.value)}
+                data-testid="input-stock-delta"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Причина</Label>
+              <Select value={reason} onValueChange={(value) => setReason(value as StockAdjustment["reason"])}>
+                <SelectTrigger data-testid="select-stock-reason">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="restock">{REASON_LABELS.restock}</SelectItem>
+                  <SelectItem value="manual">{REASON_LABELS.manual}</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="stock-comment">Комментарий</Label>
+              <Input
+                id="stock-comment"
+                placeholder="Поставка, пересорт, брак..."
+                value={comment}
+                onChange={(e) => setComment(e.target.value)}
+                maxLength={500}
+                data-testid="input-stock-comment"
+              />
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={closeAdjustDialog}>
+                Отмена
+              </Button>
+              <Button type="submit" disabled={adjustMutation.isPending} data-testid="button-submit-stock-adjustment">
+                Сохранить
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
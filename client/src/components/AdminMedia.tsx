@@ -37,7 +37,14 @@ export default function AdminMedia({ adminPassword }: AdminMediaProps) {
   });
 
   const { data: products = [] } = useQuery<Product[]>({
-    queryKey: ["/api/products"],
+    queryKey: ["/api/admin/products"],
+    queryFn: async () => {
+      const response = await fetch("/api/admin/products", {
+        headers: { "X-Admin-Password": adminPassword },
+      });
+      if (!response.ok) throw new Error("Failed to fetch products");
+      return response.json();
+    },
   });
 
   const createMediaMutation = useMutation({
@@ -10,13 +10,14 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { Package, User, Mail, Phone, MapPin, MessageSquare, AlertTriangle } from "lucide-react";
+import { Package, User, Mail, Phone, MapPin, MessageSquare, AlertTriangle, Printer } from "lucide-react";
 import { queryClient } from "@/lib/queryClient";
 import { format } from "date-fns";
 import { ru } from "date-fns/locale";
 import { getApiUrl } from "@/lib/api-config";
 import { useToast } from "@/hooks/use-toast";
-import type { DbOrder } from "@shared/schema";
+import { printPackingSlip } from "@/lib/packing-slip";
+import type { DbOrder, Product } from "@shared/schema";
 
 interface AdminOrderManagementProps {
   adminPassword: string;
@@ -44,6 +45,18 @@ export default function AdminOrderManagement({ adminPassword }: AdminOrderManage
 
   const limit = 10;
 
+  // Brewing cards on packing slips come from the catalog
+  const { data: products = [] } = useQuery<Product[]>({
+    queryKey: ['/api/admin/products'],
+    queryFn: async () => {
+      const response = await fetch('/api/admin/products', {
+        headers: { 'X-Admin-Password': adminPassword },
+      });
+      if (!response.ok) throw new Error('Failed to fetch products');
+      return response.json();
+    },
+  });
+
   // Get orders query with pagination
   const { data: ordersData, isLoading, isFetching } = useQuery({
     queryKey: ['/api/admin/orders', statusFilter, offset],
@@ -201,21 +214,32 @@ export default function AdminOrderManagement({ adminPassword }: AdminOrderManage
                             {format(orderDate, 'd MMMM yyyy, HH:mm', { locale: ru })}
                           </p>
                         </div>
-                        <Select
-                          value={order.status}
-                          onValueChange={(newStatus) => handleStatusChange(order.id, newStatus)}
-                          disabled={updateStatusMutation.isPending}
-                        >
-                          <SelectTrigger className="w-[160px]" data-testid={`select-status-${order.id}`}>
-                            <SelectValue />
-                          </SelectTrigger>
-                          <SelectContent>
-                            <SelectItem value="pending">Не оплачен</SelectItem>
-                            <SelectItem value="paid">Оплачен</SelectItem>
-                            <SelectItem value="cancelled">Отменён</SelectItem>
-                            <SelectItem value="completed">Завершён</SelectItem>
-                          </SelectContent>
-                        </Select>
+                        <div className="flex items-center gap-2">
+                          <Button
+                            variant="outline"
+                            size="icon"
+                            onClick={() => printPackingSlip(order, products)}
+                            title="Упаковочный лист"
+                            data-testid={`button-packing-slip-${order.id}`}
+                          >
+                            <Printer className="h-4 w-4" />
+                          </Button>
+                          <Select
+                            value={order.status}
+                            onValueChange={(newStatus) => handleStatusChange(order.id, newStatus)}
+                            disabled={updateStatusMutation.isPending}
+                          >
+                            <SelectTrigger className="w-[160px]" data-testid={`select-status-${order.id}`}>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="pending">Не оплачен</SelectItem>
+                              <SelectItem value="paid">Оплачен</SelectItem>
+                              <SelectItem value="cancelled">Отменён</SelectItem>
+                              <SelectItem value="completed">Завершён</SelectItem>
+                            </SelectContent>
+                          </Select>
+                        </div>
                       </div>
                     </CardHeader>
                     <CardContent className="space-y-4">
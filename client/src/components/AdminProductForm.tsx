@@ -1,4 +1,4 @@
-import { useForm } from "react-hook-form";
+import { useForm, useFieldArray } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { Button } from "@/components/ui/button";
@@ -30,13 +30,41 @@ import { queryClient } from "@/lib/queryClient";
 import { Badge } from "@/components/ui/badge";
 import { useTeaTypes } from "@/hooks/use-tea-types";
 import { useToast } from "@/hooks/use-toast";
-import type { Media } from "@shared/schema";
+import { PRODUCT_STATUSES, volumeDiscountTiersSchema, type Category, type Media, type ProductWithVariants } from "@shared/schema";
+import { slugify, SLUG_PATTERN } from "@shared/slug";
+import { BREW_VESSELS, BREW_VESSEL_VALUES, type BrewVessel } from "@shared/brewing";
+import { PRESSING_FORMS, PRESSING_FORM_VALUES, type PressingForm, type ProductFacets } from "@shared/provenance";
+import { sortVariants } from "@shared/variants";
+import { PRODUCT_STATUS_LABELS } from "@shared/publishing";
+import { buildCategoryTree, flattenCategoryTree } from "@shared/categories";
+import { sortVolumeDiscountTiers } from "@shared/volumeDiscounts";
+import { format } from "date-fns";
+import AdminProductPrices from "@/components/AdminProductPrices";
+import VolumeDiscountTiersEditor from "@/components/VolumeDiscountTiersEditor";
+
+const variantSchema = z.object({
+  id: z.number().int().positive().optional(),
+  name: z.string().min(1, "Укажите название варианта"),
+  sku: z.string().optional().nullable(),
+  weight: z.number().int().positive("Вес должен быть больше 0").nullable(),
+  price: z.number().positive("Цена должна быть больше 0"),
+  stock: z.number().int().min(0, "Остаток не может быть отрицательным").nullable(),
+  isDefault: z.boolean(),
+});
+
+const bundleItemSchema = z.object({
+  productId: z.number().int().positive("Выберите товар"),
+  variantId: z.number().int().positive().nullable(),
+  quantity: z.number().int().positive("Больше 0"),
+});
 
 const productSchema = z.object({
   name: z.string().min(2, "Название должно содержать минимум 2 символа"),
+  slug: z.string().regex(SLUG_PATTERN, "Только латиница, цифры и дефисы").or(z.literal("")),
   category: z.enum(["tea", "teaware"], {
     errorMap: () => ({ message: "Выберите категорию: чай или посуда" })
   }),
+  categoryId: z.number().int().positive().nullable(),
   pricingUnit: z.enum(["gram", "piece"], {
     errorMap: () => ({ message: "Выберите единицу измерения: граммы или штуки" })
   }),
@@ -45,22 +73,31 @@ const productSchema = z.object({
   images: z.array(z.string().min(1)).min(1, "Добавьте хотя бы одно изображение"),
   teaType: z.string().min(1, "Выберите тип"),
   effects: z.array(z.string()).min(0, "Укажите эффекты или оставьте пустым"),
-  availableQuantities: z.array(z.string().regex(/^\d+$/, "Количество должно быть числом")).min(1, "Добавьте хотя бы одно доступное количество"),
-  defaultQuantity: z.string().regex(/^\d+$/, "Количество должно быть числом").optional().nullable(),
-  fixedQuantityOnly: z.boolean(),
-  fixedQuantity: z.number().int().positive().optional().nullable(),
+  variants: z.array(variantSchema).min(1, "Добавьте хотя бы один вариант").max(20, "Не больше 20 вариантов"),
+  stock: z.number().int().min(0, "Остаток не может быть отрицательным").nullable(),
+  lowStockThreshold: z.number().int().min(0, "Порог не может быть отрицательным").nullable(),
   outOfStock: z.boolean(),
+  status: z.enum(PRODUCT_STATUSES),
+  // datetime-local value in the admin's time zone; converted to UTC on submit
+  publishAt: z.string(),
   cardType: z.enum(["classic", "media"], {
     errorMap: () => ({ message: "Выберите тип карточки" })
   }),
-}).refine((data) => {
-  if (data.fixedQuantityOnly && !data.fixedQuantity) {
-    return false;
-  }
-  return true;
-}, {
-  message: "Укажите фиксированное количество, если включен режим фиксированного количества",
-  path: ["fixedQuantity"],
+  brewTemperature: z.number().int().min(50, "От 50 до 100 °C").max(100, "От 50 до 100 °C").nullable(),
+  brewGramsPer100ml: z.number().positive("Должно быть больше 0").max(30, "Слишком много").nullable(),
+  brewSteeps: z.number().int().min(1, "Минимум 1").max(50, "Не больше 50").nullable(),
+  brewSteepTimes: z.string().max(200, "Не длиннее 200 символов"),
+  brewVessel: z.enum(BREW_VESSEL_VALUES).nullable(),
+  harvestYear: z.number().int().min(1950, "Не раньше 1950").max(new Date().getFullYear(), "Год не может быть в будущем").nullable(),
+  region: z.string().max(100, "Не длиннее 100 символов"),
+  factory: z.string().max(100, "Не длиннее 100 символов"),
+  pressingForm: z.enum(PRESSING_FORM_VALUES).nullable(),
+  volumeDiscountTiers: volumeDiscountTiersSchema.nullable(),
+  isBundle: z.boolean(),
+  bundleItems: z.array(bundleItemSchema).max(20, "Не больше 20 товаров"),
+}).refine(data => !data.isBundle || data.bundleItems.length > 0, {
+  message: "Добавьте хотя бы один товар в набор",
+  path: ["bundleItems"],
 });
 
 type ProductFormValues = z.infer<typeof productSchema>;
@@ -68,7 +105,7 @@ type ProductFormValues = z.infer<typeof productSchema>;
 interface AdminProductFormProps {
   onSubmit: (data: ProductFormValues) => void;
   onCancel: () => void;
-  defaultValues?: Partial<ProductFormValues>;
+  defaultValues?: Partial<Omit<ProductFormValues, "publishAt">> & { publishAt?: string | null };
   isSubmitting?: boolean;
   productId?: number;
   adminPassword?: string;
@@ -89,8 +126,6 @@ export default function AdminProductForm({
   const [newType, setNewType] = useState("");
   const [showNewEffectInput, setShowNewEffectInput] = useState(false);
   const [newEffect, setNewEffect] = useState("");
-  const [showNewQuantityInput, setShowNewQuantityInput] = useState(false);
-  const [newQuantity, setNewQuantity] = useState("");
   const [mediaFile, setMediaFile] = useState<File | null>(null);
   const [mediaThumbnail, setMediaThumbnail] = useState<File | null>(null);
   const [mediaType, setMediaType] = useState<"video" | "image">("video");
@@ -243,22 +278,120 @@ export default function AdminProductForm({
     resolver: zodResolver(productSchema),
     defaultValues: {
       name: defaultValues?.name || "",
+      slug: defaultValues?.slug || "",
       category: (defaultValues as any)?.category || "tea",
+      categoryId: defaultValues?.categoryId ?? null,
       pricingUnit: (defaultValues as any)?.pricingUnit || "gram",
       pricePerGram: defaultValues?.pricePerGram || 0,
       description: defaultValues?.description || "",
       images: defaultValues?.images || [],
       teaType: defaultValues?.teaType || "",
       effects: defaultValues?.effects || [],
-      availableQuantities: defaultValues?.availableQuantities || ["25", "50", "100"],
-      defaultQuantity: (defaultValues as any)?.defaultQuantity || null,
-      fixedQuantityOnly: defaultValues?.fixedQuantityOnly || false,
-      fixedQuantity: defaultValues?.fixedQuantity || null,
+      variants: defaultValues?.variants?.length
+        ? defaultValues.variants
+        : [{ name: "100 г", sku: "", weight: 100, price: 0, stock: null, isDefault: true }],
+      stock: defaultValues?.stock ?? null,
+      lowStockThreshold: defaultValues?.lowStockThreshold ?? null,
       outOfStock: (defaultValues as any)?.outOfStock || false,
+      status: defaultValues?.status || "published",
+      publishAt: defaultValues?.publishAt ? format(new Date(defaultValues.publishAt), "yyyy-MM-dd'T'HH:mm") : "",
       cardType: (defaultValues as any)?.cardType || "classic",
+      brewTemperature: defaultValues?.brewTemperature ?? null,
+      brewGramsPer100ml: defaultValues?.brewGramsPer100ml ?? null,
+      brewSteeps: defaultValues?.brewSteeps ?? null,
+      brewSteepTimes: defaultValues?.brewSteepTimes || "",
+      brewVessel: defaultValues?.brewVessel ?? null,
+      harvestYear: defaultValues?.harvestYear ?? null,
+      region: defaultValues?.region || "",
+      factory: defaultValues?.factory || "",
+      pressingForm: defaultValues?.pressingForm ?? null,
+      volumeDiscountTiers: defaultValues?.volumeDiscountTiers ?? null,
+      isBundle: defaultValues?.isBundle ?? false,
+      bundleItems: defaultValues?.bundleItems || [],
     },
   });
 
+  const { fields: variantFields, append: appendVariant, remove: removeVariant } = useFieldArray({
+    control: form.control,
+    name: "variants",
+  });
+
+  const { fields: bundleFields, append: appendBundleItem, remove: removeBundleItem } = useFieldArray({
+    control: form.control,
+    name: "bundleItems",
+  });
+  const isBundle = form.watch("isBundle");
+
+  // Existing regions and factories as suggestions, so facet values don't split on spelling
+  const { data: facets } = useQuery<ProductFacets>({
+    queryKey: ['/api/facets'],
+  });
+  const status = form.watch("status");
+
+  const { data: categories = [] } = useQuery<Category[]>({
+    queryKey: ['/api/categories'],
+  });
+  const categoryOptions = flattenCategoryTree(buildCategoryTree(categories));
+
+  const handleSubmit = (values: ProductFormValues) => {
+    onSubmit({
+      ...values,
+      publishAt: values.status === "published" && values.publishAt ? new Date(values.publishAt).toISOString() : "",
+      volumeDiscountTiers: values.volumeDiscountTiers ? sortVolumeDiscountTiers(values.volumeDiscountTiers) : null,
+    });
+  };
+
+  // Products that can go into a bundle: everything except bundles and the product itself
+  const { data: catalog = [] } = useQuery<ProductWithVariants[]>({
+    queryKey: ['/api/admin/products'],
+    queryFn: async () => {
+      const response = await fetch('/api/admin/products', {
+        headers: { 'X-Admin-Password': adminPassword },
+      });
+      if (!response.ok) throw new Error('Failed to fetch products');
+      return response.json();
+    },
+    enabled: isBundle,
+  });
+  const bundleCandidates = catalog.filter(p => !p.isBundle && p.id !== productId);
+
+  // Bundles are sold by the piece: packs have no weight and stock comes from the contents
+  const toggleBundle = (checked: boolean) => {
+    form.setValue("isBundle", checked);
+    if (checked) {
+      form.setValue("pricingUnit", "piece");
+      form.setValue("stock", null);
+      form.getValues("variants").forEach((_, i) => {
+        form.setValue(`variants.${i}.weight`, null);
+        form.setValue(`variants.${i}.stock`, null);
+      });
+    }
+  };
+
+  const selectBundleProduct = (index: number, id: number) => {
+    const product = bundleCandidates.find(p => p.id === id);
+    const variant = product ? sortVariants(product.variants)[0] : undefined;
+    form.setValue(`bundleItems.${index}.productId`, id);
+    form.setValue(`bundleItems.${index}.variantId`, variant?.id ?? null);
+    form.setValue(`bundleItems.${index}.quantity`, variant ? variant.weight || 1 : 1);
+  };
+
+  const selectBundleVariant = (index: number, value: string) => {
+    const product = bundleCandidates.find(p => p.id === form.getValues(`bundleItems.${index}.productId`));
+    const variant = product?.variants.find(v => String(v.id) === value);
+    form.setValue(`bundleItems.${index}.variantId`, variant?.id ?? null);
+    if (variant) {
+      form.setValue(`bundleItems.${index}.quantity`, variant.weight || 1);
+    }
+  };
+
+  // Only one variant can be the default one
+  const setDefaultVariant = (index: number) => {
+    form.getValues("variants").forEach((_, i) => {
+      form.setValue(`variants.${i}.isDefault`, i === index);
+    });
+  };
+
   const toggleEffect = (effectId: string) => {
     const currentEffects = form.getValues("effects");
     if (currentEffects.includes(effectId)) {
@@ -316,7 +449,7 @@ export default function AdminProductForm({
 
   return (
     <Form {...form}>
-      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+      <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-6">
         <FormField
           control={form.control}
           name="name"
@@ -331,12 +464,34 @@ export default function AdminProductForm({
           )}
         />
 
+        <FormField
+          control={form.control}
+          name="slug"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Адрес страницы</FormLabel>
+              <FormControl>
+                <Input
+                  placeholder={slugify(form.watch("name") || "")}
+                  {...field}
+                  onChange={(e) => field.onChange(e.target.value.toLowerCase())}
+                  data-testid="input-product-slug"
+                />
+              </FormControl>
+              <FormDescription>
+                /product/{field.value || slugify(form.watch("name") || "")}. Оставьте пустым — адрес создастся из названия. После публикации лучше не менять: старые ссылки перестанут работать.
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
         <FormField
           control={form.control}
           name="category"
           render={({ field }) => (
             <FormItem>
-              <FormLabel>Категория</FormLabel>
+              <FormLabel>Вид товара</FormLabel>
               <Select onValueChange={field.onChange} value={field.value} data-testid="select-category">
                 <FormControl>
                   <SelectTrigger>
@@ -348,6 +503,9 @@ export default function AdminProductForm({
                   <SelectItem value="teaware">Чайная посуда</SelectItem>
                 </SelectContent>
               </Select>
+              <FormDescription>
+                Определяет единицы, заваривание и характеристики
+              </FormDescription>
               <FormMessage />
             </FormItem>
           )}
@@ -355,31 +513,87 @@ export default function AdminProductForm({
 
         <FormField
           control={form.control}
-          name="pricingUnit"
+          name="categoryId"
           render={({ field }) => (
             <FormItem>
-              <FormLabel>Единица измерения</FormLabel>
-              <Select onValueChange={field.onChange} value={field.value} data-testid="select-pricing-unit">
+              <FormLabel>Раздел каталога</FormLabel>
+              <Select
+                onValueChange={(value) => field.onChange(value === "none" ? null : parseInt(value))}
+                value={field.value ? String(field.value) : "none"}
+              >
                 <FormControl>
-                  <SelectTrigger>
-                    <SelectValue placeholder="Выберите единицу" />
+                  <SelectTrigger data-testid="select-category-id">
+                    <SelectValue />
                   </SelectTrigger>
                 </FormControl>
                 <SelectContent>
-                  <SelectItem value="gram">Граммы (чай россыпью)</SelectItem>
-                  <SelectItem value="piece">Штуки (блин, посуда)</SelectItem>
+                  <SelectItem value="none">Не выбран</SelectItem>
+                  {categoryOptions.map(({ category, depth }) => (
+                    <SelectItem key={category.id} value={String(category.id)} data-testid={`option-category-${category.id}`}>
+                      {"— ".repeat(depth)}{category.name}
+                    </SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
               <FormDescription>
-                {field.value === "piece" 
-                  ? "Товар будет продаваться поштучно" 
-                  : "Товар будет продаваться по весу в граммах"}
+                Без раздела товар попадает в корневую категорию своего вида
               </FormDescription>
               <FormMessage />
             </FormItem>
           )}
         />
 
+        <FormField
+          control={form.control}
+          name="isBundle"
+          render={({ field }) => (
+            <FormItem className="flex flex-row items-start space-x-3 space-y-0 rounded-md border p-4">
+              <FormControl>
+                <Checkbox
+                  checked={field.value}
+                  onCheckedChange={(checked) => toggleBundle(checked === true)}
+                  data-testid="checkbox-is-bundle"
+                />
+              </FormControl>
+              <div className="space-y-1 leading-none">
+                <FormLabel>Набор</FormLabel>
+                <FormDescription>
+                  Набор из других товаров, например «3 пуэра на пробу». Продаётся поштучно по цене варианта, наличие считается по составу.
+                </FormDescription>
+              </div>
+            </FormItem>
+          )}
+        />
+
+        {!isBundle && (
+          <FormField
+            control={form.control}
+            name="pricingUnit"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Единица измерения</FormLabel>
+                <Select onValueChange={field.onChange} value={field.value} data-testid="select-pricing-unit">
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Выберите единицу" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    <SelectItem value="gram">Граммы (чай россыпью)</SelectItem>
+                    <SelectItem value="piece">Штуки (блин, посуда)</SelectItem>
+                  </SelectContent>
+                </Select>
+                <FormDescription>
+                  {field.value === "piece" 
+                    ? "Товар будет продаваться поштучно" 
+                    : "Товар будет продаваться по весу в граммах"}
+                </FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        )}
+
         <FormField
           control={form.control}
           name="pricePerGram"
@@ -388,6 +602,9 @@ export default function AdminProductForm({
               <FormLabel>
                 {form.watch("pricingUnit") === "piece" ? "Цена за штуку (₽)" : "Цена за грамм (₽/г)"}
               </FormLabel>
+              <FormDescription className="text-sm text-muted-foreground">
+                Базовая цена: используется для своего веса и в старых версиях приложения. Цены фасовок задаются в вариантах ниже.
+              </FormDescription>
               <FormControl>
                 <Input 
                   type="number" 
@@ -598,199 +815,362 @@ export default function AdminProductForm({
           )}
         />
 
-        <FormField
-          control={form.control}
-          name="availableQuantities"
-          render={() => (
-            <FormItem>
-              <FormLabel>Доступные количества (г)</FormLabel>
-              <FormDescription className="text-sm text-muted-foreground">
-                Укажите доступные количества для заказа (например: 25, 50, 100, 357 грамм)
-              </FormDescription>
-              
-              {/* Selected quantities badges */}
-              {form.watch("availableQuantities").length > 0 && (
-                <div className="flex flex-wrap gap-2 mt-2">
-                  {form.watch("availableQuantities").sort((a, b) => parseInt(a) - parseInt(b)).map((qty) => (
-                    <Badge 
-                      key={qty} 
-                      variant="secondary"
-                      className="cursor-pointer"
-                      onClick={() => {
-                        const current = form.getValues("availableQuantities");
-                        form.setValue("availableQuantities", current.filter(q => q !== qty));
-                      }}
-                      data-testid={`badge-quantity-${qty}`}
-                    >
-                      {qty}г
-                      <X className="h-3 w-3 ml-1" />
-                    </Badge>
-                  ))}
-                </div>
-              )}
-
-              {/* Add new quantity */}
-              {showNewQuantityInput ? (
-                <div className="flex gap-2 mt-2">
-                  <Input
-                    type="number"
-                    value={newQuantity}
-                    onChange={(e) => setNewQuantity(e.target.value)}
-                    placeholder="Введите количество в граммах (например: 357)"
-                    data-testid="input-new-quantity"
-                  />
-                  <Button
-                    type="button"
-                    onClick={() => {
-                      if (newQuantity.trim() && /^\d+$/.test(newQuantity)) {
-                        const currentQuantities = form.getValues("availableQuantities");
-                        if (!currentQuantities.includes(newQuantity.trim())) {
-                          form.setValue("availableQuantities", [...currentQuantities, newQuantity.trim()]);
-                        }
-                        setNewQuantity("");
-                        setShowNewQuantityInput(false);
-                      }
-                    }}
-                    data-testid="button-save-new-quantity"
-                  >
-                    Добавить
-                  </Button>
-                  <Button
-                    type="button"
-                    variant="outline"
-                    onClick={() => {
-                      setShowNewQuantityInput(false);
-                      setNewQuantity("");
-                    }}
-                    data-testid="button-cancel-new-quantity"
-                  >
-                    Отмена
-                  </Button>
+        {isBundle && (
+          <FormField
+            control={form.control}
+            name="bundleItems"
+            render={() => (
+              <FormItem>
+                <FormLabel>Состав набора</FormLabel>
+                <FormDescription className="text-sm text-muted-foreground">
+                  При оплате заказа остатки списываются с этих товаров. Количество — в граммах или штуках на один набор.
+                </FormDescription>
+                <div className="space-y-2 mt-2">
+                  {bundleFields.map((bundleField, index) => {
+                    const selectedProduct = bundleCandidates.find(p => p.id === form.watch(`bundleItems.${index}.productId`));
+                    const componentVariants = selectedProduct ? sortVariants(selectedProduct.variants) : [];
+                    const isPiece = selectedProduct ? selectedProduct.pricingUnit === "piece" || selectedProduct.category === "teaware" : false;
+                    return (
+                      <div key={bundleField.id} className="flex items-end gap-2" data-testid={`bundle-item-row-${index}`}>
+                        <div className="flex-1 min-w-0 space-y-1">
+                          <Label className="text-xs">Товар</Label>
+                          <Select
+                            value={selectedProduct ? String(selectedProduct.id) : ""}
+                            onValueChange={(value) => selectBundleProduct(index, parseInt(value, 10))}
+                          >
+                            <SelectTrigger data-testid={`select-bundle-product-${index}`}>
+                              <SelectValue placeholder="Выберите товар" />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {bundleCandidates.map(p => (
+                                <SelectItem key={p.id} value={String(p.id)}>{p.name}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                        <div className="w-36 space-y-1">
+                          <Label className="text-xs">Фасовка</Label>
+                          <Select
+                            value={String(form.watch(`bundleItems.${index}.variantId`) ?? "none")}
+                            onValueChange={(value) => selectBundleVariant(index, value)}
+                            disabled={!selectedProduct}
+                          >
+                            <SelectTrigger data-testid={`select-bundle-variant-${index}`}>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="none">Из общего остатка</SelectItem>
+                              {componentVariants.map(v => (
+                                <SelectItem key={v.id} value={String(v.id)}>{v.name}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                        <div className="w-24 space-y-1">
+                          <Label className="text-xs">{isPiece ? "Штук" : "Грамм"}</Label>
+                          <Input
+                            type="number"
+                            value={form.watch(`bundleItems.${index}.quantity`) || ""}
+                            onChange={(e) => form.setValue(`bundleItems.${index}.quantity`, parseInt(e.target.value, 10) || 0)}
+                            data-testid={`input-bundle-quantity-${index}`}
+                          />
+                        </div>
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => removeBundleItem(index)}
+                          data-testid={`button-remove-bundle-item-${index}`}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    );
+                  })}
                 </div>
-              ) : (
                 <Button
                   type="button"
                   variant="outline"
                   size="sm"
-                  onClick={() => setShowNewQuantityInput(true)}
                   className="mt-2"
-                  data-testid="button-add-new-quantity"
+                  onClick={() => appendBundleItem({ productId: 0, variantId: null, quantity: 1 })}
+                  data-testid="button-add-bundle-item"
                 >
                   <Plus className="h-4 w-4 mr-1" />
-                  Добавить количество
+                  Добавить товар
                 </Button>
-              )}
-
-              <FormMessage />
-            </FormItem>
-          )}
-        />
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        )}
 
         <FormField
           control={form.control}
-          name="defaultQuantity"
-          render={({ field }) => (
+          name="variants"
+          render={() => (
             <FormItem>
-              <FormLabel>Количество по умолчанию</FormLabel>
+              <FormLabel>Варианты (фасовки)</FormLabel>
               <FormDescription className="text-sm text-muted-foreground">
-                Выберите количество, которое будет выбрано по умолчанию при открытии карточки товара
+                Каждый вариант продаётся по своей цене: например, 25 г, 100 г, блин 357 г. Для штучных товаров оставьте вес пустым. Пустой остаток — без учёта.
               </FormDescription>
-              <Select
-                onValueChange={(value) => field.onChange(value === "none" ? null : value)}
-                value={field.value || "none"}
+              <div className="space-y-3 mt-2">
+                {variantFields.map((variantField, index) => (
+                  <Card key={variantField.id} className="p-3 space-y-3" data-testid={`variant-row-${index}`}>
+                    <div className="grid grid-cols-2 md:grid-cols-5 gap-2">
+                      <FormField
+                        control={form.control}
+                        name={`variants.${index}.name`}
+                        render={({ field }) => (
+                          <FormItem className="col-span-2 md:col-span-1">
+                            <FormLabel className="text-xs">Название</FormLabel>
+                            <FormControl>
+                              <Input placeholder="100 г" {...field} data-testid={`input-variant-name-${index}`} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={form.control}
+                        name={`variants.${index}.weight`}
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel className="text-xs">Вес (г)</FormLabel>
+                            <FormControl>
+                              <Input
+                                type="number"
+                                placeholder="—"
+                                value={field.value ?? ""}
+                                onChange={(e) => field.onChange(e.target.value ? parseInt(e.target.value, 10) : null)}
+                                data-testid={`input-variant-weight-${index}`}
+                              />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={form.control}
+                        name={`variants.${index}.price`}
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel className="text-xs">Цена (₽)</FormLabel>
+                            <FormControl>
+                              <Input
+                                type="number"
+                                step="0.01"
+                                value={field.value || ""}
+                                onChange={(e) => field.onChange(e.target.value ? parseFloat(e.target.value) : 0)}
+                                data-testid={`input-variant-price-${index}`}
+                              />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={form.control}
+                        name={`variants.${index}.sku`}
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel className="text-xs">Артикул</FormLabel>
+                            <FormControl>
+                              <Input {...field} value={field.value ?? ""} data-testid={`input-variant-sku-${index}`} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={form.control}
+                        name={`variants.${index}.stock`}
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel className="text-xs">Остаток</FormLabel>
+                            <FormControl>
+                              <Input
+                                type="number"
+                                placeholder="∞"
+                                value={field.value ?? ""}
+                                onChange={(e) => field.onChange(e.target.value ? parseInt(e.target.value, 10) : null)}
+                                data-testid={`input-variant-stock-${index}`}
+                              />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    </div>
+                    <div className="flex items-center justify-between">
+                      <Label className="flex items-center gap-2 text-sm font-normal cursor-pointer">
+                        <Checkbox
+                          checked={form.watch(`variants.${index}.isDefault`)}
+                          onCheckedChange={() => setDefaultVariant(index)}
+                          data-testid={`checkbox-variant-default-${index}`}
+                        />
+                        Выбран по умолчанию
+                      </Label>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        disabled={variantFields.length === 1}
+                        onClick={() => removeVariant(index)}
+                        data-testid={`button-remove-variant-${index}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </Card>
+                ))}
+              </div>
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                className="mt-2"
+                onClick={() => appendVariant({ name: "", sku: "", weight: null, price: 0, stock: null, isDefault: false })}
+                data-testid="button-add-variant"
               >
-                <FormControl>
-                  <SelectTrigger data-testid="select-default-quantity">
-                    <SelectValue placeholder="Первое из списка" />
-                  </SelectTrigger>
-                </FormControl>
-                <SelectContent>
-                  <SelectItem value="none">Первое из списка</SelectItem>
-                  {form.watch("availableQuantities").sort((a, b) => parseInt(a) - parseInt(b)).map((qty) => (
-                    <SelectItem key={qty} value={qty}>
-                      {qty}{form.watch("pricingUnit") === "piece" ? " шт" : "г"}
-                    </SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
+                <Plus className="h-4 w-4 mr-1" />
+                Добавить вариант
+              </Button>
               <FormMessage />
             </FormItem>
           )}
         />
 
-        <FormField
-          control={form.control}
-          name="fixedQuantityOnly"
-          render={({ field }) => (
-            <FormItem className="flex flex-row items-start space-x-3 space-y-0 rounded-md border p-4">
-              <FormControl>
-                <Checkbox
-                  checked={field.value}
-                  onCheckedChange={field.onChange}
-                  data-testid="checkbox-fixed-quantity-only"
-                />
-              </FormControl>
-              <div className="space-y-1 leading-none">
-                <FormLabel>
-                  Продаётся только в фиксированном количестве
-                </FormLabel>
-                <FormDescription>
-                  Включите эту опцию, если чай продаётся только в одном количестве (например, только блинами по 357г)
-                </FormDescription>
-              </div>
-            </FormItem>
-          )}
-        />
+        {productId && (
+          <AdminProductPrices
+            productId={productId}
+            adminPassword={adminPassword}
+            variants={form.watch("variants")}
+          />
+        )}
+
+        {!isBundle && (
+          <div className="grid grid-cols-2 gap-4">
+            <FormField
+              control={form.control}
+              name="stock"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Остаток (г / шт)</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="number"
+                      placeholder="Не отслеживается"
+                      value={field.value ?? ""}
+                      onChange={(e) => field.onChange(e.target.value ? parseInt(e.target.value, 10) : null)}
+                      data-testid="input-product-stock"
+                    />
+                  </FormControl>
+                  <FormDescription>
+                    Общий запас для вариантов без своего остатка
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="lowStockThreshold"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Порог низкого остатка</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="number"
+                      placeholder="Без уведомления"
+                      value={field.value ?? ""}
+                      onChange={(e) => field.onChange(e.target.value ? parseInt(e.target.value, 10) : null)}
+                      data-testid="input-low-stock-threshold"
+                    />
+                  </FormControl>
+                  <FormDescription>
+                    Товар подсвечивается на складе, когда остаток не выше порога
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+        )}
 
-        {form.watch("fixedQuantityOnly") && (
+        {!isBundle && (
           <FormField
             control={form.control}
-            name="fixedQuantity"
+            name="outOfStock"
             render={({ field }) => (
-              <FormItem>
-                <FormLabel>Фиксированное количество (г)</FormLabel>
-                <FormDescription className="text-sm text-muted-foreground">
-                  Укажите количество в граммах (например, 357 для блина пуэра)
-                </FormDescription>
+              <FormItem className="flex flex-row items-start space-x-3 space-y-0 rounded-md border p-4">
                 <FormControl>
-                  <Input
-                    type="number"
-                    placeholder="357"
-                    {...field}
-                    value={field.value || ""}
-                    onChange={(e) => field.onChange(e.target.value ? parseInt(e.target.value, 10) : null)}
-                    data-testid="input-fixed-quantity"
+                  <Checkbox
+                    checked={field.value}
+                    onCheckedChange={field.onChange}
+                    data-testid="checkbox-out-of-stock"
                   />
                 </FormControl>
-                <FormMessage />
+                <div className="space-y-1 leading-none">
+                  <FormLabel>
+                    Товар закончился
+                  </FormLabel>
+                  <FormDescription>
+                    Включите эту опцию, если товара нет в наличии. Он будет виден на сайте, но его нельзя будет добавить в корзину. Для товаров с остатком отметка ставится и снимается автоматически.
+                  </FormDescription>
+                </div>
               </FormItem>
             )}
           />
         )}
 
-        <FormField
-          control={form.control}
-          name="outOfStock"
-          render={({ field }) => (
-            <FormItem className="flex flex-row items-start space-x-3 space-y-0 rounded-md border p-4">
-              <FormControl>
-                <Checkbox
-                  checked={field.value}
-                  onCheckedChange={field.onChange}
-                  data-testid="checkbox-out-of-stock"
-                />
-              </FormControl>
-              <div className="space-y-1 leading-none">
-                <FormLabel>
-                  Товар закончился
-                </FormLabel>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="status"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Статус</FormLabel>
+                <Select onValueChange={field.onChange} value={field.value}>
+                  <FormControl>
+                    <SelectTrigger data-testid="select-product-status">
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {PRODUCT_STATUSES.map(status => (
+                      <SelectItem key={status} value={status} data-testid={`select-product-status-${status}`}>
+                        {PRODUCT_STATUS_LABELS[status]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
                 <FormDescription>
-                  Включите эту опцию, если товара нет в наличии. Он будет виден на сайте, но его нельзя будет добавить в корзину.
+                  Черновики и архив видны только в админке.
                 </FormDescription>
-              </div>
-            </FormItem>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          {status === "published" && (
+            <FormField
+              control={form.control}
+              name="publishAt"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Опубликовать с</FormLabel>
+                  <FormControl>
+                    <Input type="datetime-local" {...field} data-testid="input-product-publish-at" />
+                  </FormControl>
+                  <FormDescription>
+                    Оставьте пустым, чтобы товар появился сразу.
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
           )}
-        />
+        </div>
 
         <FormField
           control={form.control}
@@ -953,6 +1333,232 @@ export default function AdminProductForm({
           )}
         />
 
+        {form.watch("category") === "tea" && (
+          <div className="border rounded-lg p-4 space-y-4">
+            <div>
+              <Label>Заваривание</Label>
+              <p className="text-sm text-muted-foreground mt-1">
+                Карточка заваривания на странице товара, в боте и на упаковочном листе. Пустые поля не показываются.
+              </p>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="brewVessel"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-xs">Посуда</FormLabel>
+                    <Select
+                      value={field.value ?? "none"}
+                      onValueChange={(value) => field.onChange(value === "none" ? null : value as BrewVessel)}
+                    >
+                      <FormControl>
+                        <SelectTrigger data-testid="select-brew-vessel">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="none">Не указана</SelectItem>
+                        {BREW_VESSEL_VALUES.map(vessel => (
+                          <SelectItem key={vessel} value={vessel}>{BREW_VESSELS[vessel]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="brewTemperature"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-xs">Температура воды (°C)</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        placeholder="95"
+                        value={field.value ?? ""}
+                        onChange={(e) => field.onChange(e.target.value ? parseInt(e.target.value, 10) : null)}
+                        data-testid="input-brew-temperature"
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="brewGramsPer100ml"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-xs">Грамм на 100 мл</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        step="0.5"
+                        placeholder="7"
+                        value={field.value ?? ""}
+                        onChange={(e) => field.onChange(e.target.value ? parseFloat(e.target.value) : null)}
+                        data-testid="input-brew-grams"
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="brewSteeps"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-xs">Количество проливов</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        placeholder="8"
+                        value={field.value ?? ""}
+                        onChange={(e) => field.onChange(e.target.value ? parseInt(e.target.value, 10) : null)}
+                        data-testid="input-brew-steeps"
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <FormField
+              control={form.control}
+              name="brewSteepTimes"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-xs">Время проливов</FormLabel>
+                  <FormControl>
+                    <Input
+                      placeholder="10, 15, 20 с, далее +5 с"
+                      {...field}
+                      data-testid="input-brew-steep-times"
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+        )}
+
+        {form.watch("category") === "tea" && (
+          <FormField
+            control={form.control}
+            name="volumeDiscountTiers"
+            render={({ field }) => (
+              <FormItem className="border rounded-lg p-4 space-y-2">
+                <FormLabel>Скидка за объём</FormLabel>
+                <p className="text-sm text-muted-foreground">
+                  Для своего количества граммов; фасовки продаются по своей цене.
+                </p>
+                <VolumeDiscountTiersEditor
+                  value={field.value}
+                  onChange={field.onChange}
+                  inheritLabel="Как у категории или общие из настроек сайта"
+                  testIdPrefix="product-volume-discount"
+                />
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        )}
+
+        {form.watch("category") === "tea" && (
+          <div className="border rounded-lg p-4 space-y-4">
+            <div>
+              <Label>Происхождение</Label>
+              <p className="text-sm text-muted-foreground mt-1">
+                По этим полям покупатели фильтруют каталог; они же уходят параметрами в YML-фид.
+              </p>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="harvestYear"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-xs">Год сбора</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        placeholder="2018"
+                        value={field.value ?? ""}
+                        onChange={(e) => field.onChange(e.target.value ? parseInt(e.target.value, 10) : null)}
+                        data-testid="input-harvest-year"
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="pressingForm"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-xs">Прессовка</FormLabel>
+                    <Select
+                      value={field.value ?? "none"}
+                      onValueChange={(value) => field.onChange(value === "none" ? null : value as PressingForm)}
+                    >
+                      <FormControl>
+                        <SelectTrigger data-testid="select-pressing-form">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="none">Не указана</SelectItem>
+                        {PRESSING_FORM_VALUES.map(pressing => (
+                          <SelectItem key={pressing} value={pressing}>{PRESSING_FORMS[pressing]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="region"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-xs">Регион</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Мэнхай" list="provenance-regions" {...field} data-testid="input-region" />
+                    </FormControl>
+                    <datalist id="provenance-regions">
+                      {facets?.region.map(option => <option key={option.value} value={option.value} />)}
+                    </datalist>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="factory"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-xs">Фабрика</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Мэнхай Чаань" list="provenance-factories" {...field} data-testid="input-factory" />
+                    </FormControl>
+                    <datalist id="provenance-factories">
+                      {facets?.factory.map(option => <option key={option.value} value={option.value} />)}
+                    </datalist>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+          </div>
+        )}
+
         <FormField
           control={form.control}
           name="images"
@@ -0,0 +1,208 @@
+import { useRef, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import { FileSpreadsheet, Download, Upload } from "lucide-react";
+import type { ProductImportAction, ProductImportResult } from "@shared/schema";
+
+interface AdminProductImportProps {
+  adminFetch: (url: string, options?: RequestInit) => Promise<any>;
+  adminPassword: string;
+}
+
+const ACTION_LABELS: Record<ProductImportAction, string> = {
+  create: "Новый",
+  update: "Изменится",
+  skip: "Пропуск",
+};
+
+const ACTION_VARIANTS: Record<ProductImportAction, "default" | "secondary" | "outline"> = {
+  create: "default",
+  update: "secondary",
+  skip: "outline",
+};
+
+export default function AdminProductImport({ adminFetch, adminPassword }: AdminProductImportProps) {
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [file, setFile] = useState<File | null>(null);
+  const [preview, setPreview] = useState<ProductImportResult | null>(null);
+
+  const handleExport = async (format: "xlsx" | "csv") => {
+    try {
+      const response = await fetch(`/api/admin/products/export?format=${format}`, {
+        headers: { "X-Admin-Password": adminPassword },
+      });
+      if (!response.ok) {
+        toast({ title: "Ошибка", description: "Не удалось экспортировать товары", variant: "destructive" });
+        return;
+      }
+      const blob = await response.blob();
+      const url = window.URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `products_${new Date().toISOString().split('T')[0]}.${format}`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      window.URL.revokeObjectURL(url);
+    } catch (error) {
+      toast({ title: "Ошибка", description: "Не удалось экспортировать товары", variant: "destructive" });
+    }
+  };
+
+  const importMutation = useMutation({
+    mutationFn: async ({ file, dryRun }: { file: File; dryRun: boolean }): Promise<ProductImportResult> => {
+      const data = new FormData();
+      data.append("file", file);
+      data.append("dryRun", String(dryRun));
+      return adminFetch("/api/admin/products/import", { method: "POST", body: data });
+    },
+    onSuccess: (result) => {
+      if (!result.applied) {
+        setPreview(result);
+        return;
+      }
+      queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/products"] });
+      setPreview(null);
+      setFile(null);
+      toast({
+        title: "Импорт завершён",
+        description: `Создано: ${result.summary.create}, обновлено: ${result.summary.update}, пропущено: ${result.summary.skip}`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Ошибка", description: error.message || "Не удалось импортировать файл", variant: "destructive" });
+    },
+  });
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0];
+    e.target.value = "";
+    if (!selected) return;
+    setFile(selected);
+    importMutation.mutate({ file: selected, dryRun: true });
+  };
+
+  const handleClose = () => {
+    setPreview(null);
+    setFile(null);
+  };
+
+  const pendingChanges = preview ? preview.summary.create + preview.summary.update : 0;
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" data-testid="button-products-spreadsheet" aria-label="Импорт и экспорт товаров">
+            <FileSpreadsheet className="w-4 h-4" />
+            <span className="hidden sm:inline ml-2">Excel / CSV</span>
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuItem onClick={() => handleExport("xlsx")} data-testid="menu-item-export-xlsx">
+            <Download className="w-4 h-4 mr-2" />
+            Скачать XLSX
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={() => handleExport("csv")} data-testid="menu-item-export-csv">
+            <Download className="w-4 h-4 mr-2" />
+            Скачать CSV
+          </DropdownMenuItem>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem
+            onClick={() => fileInputRef.current?.click()}
+            disabled={importMutation.isPending}
+            data-testid="menu-item-import-products"
+          >
+            <Upload className="w-4 h-4 mr-2" />
+            {importMutation.isPending ? "Проверка файла..." : "Загрузить файл"}
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".xlsx,.xls,.csv"
+        className="hidden"
+        onChange={handleFileChange}
+        data-testid="input-import-products"
+      />
+
+      <Dialog open={!!preview} onOpenChange={(open) => !open && handleClose()}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle className="font-serif text-2xl">Импорт товаров</DialogTitle>
+            <DialogDescription>
+              Проверьте изменения перед применением. Строки с ошибками будут пропущены, остатки не меняются.
+            </DialogDescription>
+          </DialogHeader>
+
+          {preview && (
+            <div className="space-y-4">
+              <div className="flex flex-wrap gap-2 text-sm" data-testid="text-import-summary">
+                <Badge>Новых: {preview.summary.create}</Badge>
+                <Badge variant="secondary">Изменится: {preview.summary.update}</Badge>
+                <Badge variant="outline">Пропуск: {preview.summary.skip}</Badge>
+                {preview.summary.errors > 0 && (
+                  <Badge variant="destructive">С ошибками: {preview.summary.errors}</Badge>
+                )}
+              </div>
+
+              <div className="divide-y rounded-md border">
+                {preview.rows.map(row => (
+                  <div key={row.row} className="p-3 space-y-1 text-sm" data-testid={`import-row-${row.row}`}>
+                    <div className="flex items-center gap-2">
+                      <span className="text-muted-foreground w-10 shrink-0">#{row.row}</span>
+                      <span className="font-medium truncate">{row.name || "Без названия"}</span>
+                      <Badge variant={row.errors.length > 0 ? "destructive" : ACTION_VARIANTS[row.action]} className="ml-auto shrink-0">
+                        {row.errors.length > 0 ? "Ошибка" : ACTION_LABELS[row.action]}
+                      </Badge>
+                    </div>
+                    {row.changes.length > 0 && (
+                      <p className="text-muted-foreground pl-12">Изменения: {row.changes.join(", ")}</p>
+                    )}
+                    {row.errors.map((error, index) => (
+                      <p key={index} className="text-destructive pl-12">{error}</p>
+                    ))}
+                  </div>
+                ))}
+              </div>
+
+              <div className="flex gap-4">
+                <Button variant="outline" className="flex-1" onClick={handleClose} data-testid="button-cancel-import">
+                  Отмена
+                </Button>
+                <Button
+                  className="flex-1"
+                  onClick={() => file && importMutation.mutate({ file, dryRun: false })}
+                  disabled={!file || pendingChanges === 0 || importMutation.isPending}
+                  data-testid="button-apply-import"
+                >
+                  {importMutation.isPending ? "Применение..." : `Применить (${pendingChanges})`}
+                </Button>
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
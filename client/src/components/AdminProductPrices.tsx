@@ -0,0 +1,246 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import { format } from "date-fns";
+import { ru } from "date-fns/locale";
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from "recharts";
+import { CalendarClock, History, X } from "lucide-react";
+import type { PriceHistoryEntry, ScheduledPriceChange } from "@shared/schema";
+
+interface AdminProductPricesProps {
+  productId: number;
+  adminPassword: string;
+  variants: Array<{ id?: number; name: string }>;
+}
+
+const BASE_PRICE_KEY = "base";
+const BASE_PRICE_LABEL = "Базовая цена";
+const SERIES_COLORS = ["#8B4513", "#059669", "#2563EB", "#D97706", "#7C3AED", "#DB2777"];
+
+function seriesKey(variantId: number | null): string {
+  return variantId ? `v${variantId}` : BASE_PRICE_KEY;
+}
+
+function formatDateTime(value: string): string {
+  return format(new Date(value), "dd MMM yyyy, HH:mm", { locale: ru });
+}
+
+/**
+ * One chart row per change; every series carries its latest known price forward, so lines render as steps
+ */
+function buildChartData(history: PriceHistoryEntry[]) {
+  const current: Record<string, number> = {};
+  return history.map(entry => {
+    current[seriesKey(entry.variantId)] = entry.newPrice;
+    return { time: new Date(entry.createdAt).getTime(), ...current };
+  });
+}
+
+export default function AdminProductPrices({ productId, adminPassword, variants }: AdminProductPricesProps) {
+  const { toast } = useToast();
+  const [target, setTarget] = useState<string>(BASE_PRICE_KEY);
+  const [price, setPrice] = useState("");
+  const [effectiveAt, setEffectiveAt] = useState("");
+
+  const adminFetch = async (url: string, options: RequestInit = {}) => {
+    const response = await fetch(url, {
+      ...options,
+      headers: { ...options.headers, "X-Admin-Password": adminPassword },
+    });
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || `HTTP ${response.status}`);
+    }
+    return response.json();
+  };
+
+  const { data: history = [] } = useQuery<PriceHistoryEntry[]>({
+    queryKey: ["/api/admin/products", productId, "price-history"],
+    queryFn: () => adminFetch(`/api/admin/products/${productId}/price-history`),
+  });
+
+  const { data: scheduled = [] } = useQuery<ScheduledPriceChange[]>({
+    queryKey: ["/api/admin/products", productId, "scheduled-prices"],
+    queryFn: () => adminFetch(`/api/admin/products/${productId}/scheduled-prices`),
+  });
+
+  const savedVariants = variants.filter((v): v is { id: number; name: string } => !!v.id);
+  const seriesLabels: Record<string, string> = { [BASE_PRICE_KEY]: BASE_PRICE_LABEL };
+  for (const entry of history) {
+    if (entry.variantId) seriesLabels[seriesKey(entry.variantId)] = entry.variantName || `Фасовка #${entry.variantId}`;
+  }
+  for (const variant of savedVariants) {
+    seriesLabels[seriesKey(variant.id)] = variant.name;
+  }
+  const chartSeries = Array.from(new Set(history.map(entry => seriesKey(entry.variantId))));
+  const chartData = buildChartData(history);
+
+  const scheduleMutation = useMutation({
+    mutationFn: async () => {
+      return adminFetch(`/api/admin/products/${productId}/scheduled-prices`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          variantId: target === BASE_PRICE_KEY ? null : Number(target),
+          price: Number(price),
+          // datetime-local is the admin's local time; the server stores UTC
+          effectiveAt: new Date(effectiveAt).toISOString(),
+        }),
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/products", productId, "scheduled-prices"] });
+      setPrice("");
+      setEffectiveAt("");
+      toast({ title: "Успешно", description: "Изменение цены запланировано" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Ошибка", description: error.message || "Не удалось запланировать цену", variant: "destructive" });
+    },
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async (id: number) => {
+      return adminFetch(`/api/admin/scheduled-prices/${id}`, { method: "DELETE" });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/products", productId, "scheduled-prices"] });
+      toast({ title: "Запланированное изменение отменено" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Ошибка", description: error.message || "Не удалось отменить изменение", variant: "destructive" });
+    },
+  });
+
+  const handleSchedule = () => {
+    if (!(Number(price) > 0) || !effectiveAt) {
+      toast({ title: "Укажите цену и дату", variant: "destructive" });
+      return;
+    }
+    if (new Date(effectiveAt).getTime() <= Date.now()) {
+      toast({ title: "Дата должна быть в будущем", variant: "destructive" });
+      return;
+    }
+    scheduleMutation.mutate();
+  };
+
+  return (
+    <div className="border rounded-lg p-4 space-y-4" data-testid="section-product-prices">
+      <div className="flex items-center gap-2">
+        <History className="w-5 h-5 text-muted-foreground" />
+        <h4 className="font-medium">История цен</h4>
+      </div>
+
+      {chartData.length === 0 ? (
+        <p className="text-sm text-muted-foreground">Цена ещё не менялась</p>
+      ) : (
+        <ResponsiveContainer width="100%" height={220}>
+          <LineChart data={chartData}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis
+              dataKey="time"
+              type="number"
+              scale="time"
+              domain={["dataMin", "dataMax"]}
+              tick={{ fontSize: 12 }}
+              tickFormatter={(value) => new Date(value).toLocaleDateString('ru-RU', { day: '2-digit', month: '2-digit' })}
+            />
+            <YAxis tick={{ fontSize: 12 }} width={50} />
+            <Tooltip
+              labelFormatter={(value) => new Date(value).toLocaleString('ru-RU')}
+              formatter={(value: number, name: string) => [`${value}₽`, seriesLabels[name] || name]}
+            />
+            <Legend formatter={(value) => seriesLabels[value] || value} />
+            {chartSeries.map((key, index) => (
+              <Line
+                key={key}
+                type="stepAfter"
+                dataKey={key}
+                stroke={SERIES_COLORS[index % SERIES_COLORS.length]}
+                strokeWidth={2}
+                dot={{ r: 3 }}
+                connectNulls
+              />
+            ))}
+          </LineChart>
+        </ResponsiveContainer>
+      )}
+
+      <div className="space-y-3 border-t pt-3">
+        <div className="flex items-center gap-2">
+          <CalendarClock className="w-4 h-4 text-muted-foreground" />
+          <Label>Запланировать изменение цены</Label>
+        </div>
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+          <Select value={target} onValueChange={setTarget}>
+            <SelectTrigger data-testid="select-scheduled-price-target">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={BASE_PRICE_KEY}>{BASE_PRICE_LABEL}</SelectItem>
+              {savedVariants.map(variant => (
+                <SelectItem key={variant.id} value={String(variant.id)}>{variant.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            type="number"
+            min="0"
+            step="0.01"
+            placeholder="Новая цена, ₽"
+            value={price}
+            onChange={(e) => setPrice(e.target.value)}
+            data-testid="input-scheduled-price"
+          />
+          <Input
+            type="datetime-local"
+            value={effectiveAt}
+            onChange={(e) => setEffectiveAt(e.target.value)}
+            data-testid="input-scheduled-price-date"
+          />
+        </div>
+        <Button
+          type="button"
+          size="sm"
+          onClick={handleSchedule}
+          disabled={scheduleMutation.isPending}
+          data-testid="button-schedule-price"
+        >
+          {scheduleMutation.isPending ? "Сохранение..." : "Запланировать"}
+        </Button>
+
+        {scheduled.length > 0 && (
+          <div className="space-y-2">
+            {scheduled.map(change => (
+              <div
+                key={change.id}
+                className="flex items-center justify-between gap-2 text-sm rounded-md bg-muted/50 px-3 py-2"
+                data-testid={`scheduled-price-${change.id}`}
+              >
+                <span>
+                  {seriesLabels[seriesKey(change.variantId)] || BASE_PRICE_LABEL}: <b>{change.price}₽</b> с {formatDateTime(change.effectiveAt)}
+                </span>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6"
+                  onClick={() => cancelMutation.mutate(change.id)}
+                  disabled={cancelMutation.isPending}
+                  data-testid={`button-cancel-scheduled-price-${change.id}`}
+                >
+                  <X className="w-3 h-3" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,464 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Pencil, Trash2, X } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import { buildCategoryTree, flattenCategoryTree } from "@shared/categories";
+import type { Category, ProductWithVariants, PromoCode, PromoCodeStats, PromoDiscountType } from "@shared/schema";
+
+interface AdminPromoCodesProps {
+  adminFetch: (url: string, options?: RequestInit) => Promise<any>;
+}
+
+type PromoCodeRow = PromoCode & Omit<PromoCodeStats, "promoCodeId">;
+
+// Inputs keep strings so fields can be cleared; converted on submit
+interface PromoCodeFormState {
+  code: string;
+  description: string;
+  discountType: PromoDiscountType;
+  discountValue: string;
+  minOrderTotal: string;
+  maxUses: string;
+  maxUsesPerCustomer: string;
+  startsAt: string;
+  endsAt: string;
+  productIds: number[];
+  categoryIds: number[];
+  stackWithLoyalty: boolean;
+  isActive: boolean;
+}
+
+const EMPTY_FORM: PromoCodeFormState = {
+  code: "",
+  description: "",
+  discountType: "percent",
+  discountValue: "",
+  minOrderTotal: "",
+  maxUses: "",
+  maxUsesPerCustomer: "1",
+  startsAt: "",
+  endsAt: "",
+  productIds: [],
+  categoryIds: [],
+  stackWithLoyalty: false,
+  isActive: true,
+};
+
+// ISO timestamp -> value for <input type="datetime-local"> in the admin's time zone
+function toLocalInput(iso: string | null): string {
+  if (!iso) return "";
+  const date = new Date(iso);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+}
+
+function formatRubles(value: number): string {
+  return `${Math.round(value).toLocaleString("ru-RU")} ₽`;
+}
+
+function toggleId(ids: number[], id: number): number[] {
+  return ids.includes(id) ? ids.filter(existing => existing !== id) : [...ids, id];
+}
+
+export default function AdminPromoCodes({ adminFetch }: AdminPromoCodesProps) {
+  const { toast } = useToast();
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [formData, setFormData] = useState<PromoCodeFormState>(EMPTY_FORM);
+
+  const { data: promoCodes = [], isLoading } = useQuery<PromoCodeRow[]>({
+    queryKey: ["/api/admin/promo-codes"],
+    queryFn: () => adminFetch("/api/admin/promo-codes"),
+  });
+  const { data: categories = [] } = useQuery<Category[]>({
+    queryKey: ["/api/categories"],
+  });
+  const { data: products = [] } = useQuery<ProductWithVariants[]>({
+    queryKey: ["/api/admin/products"],
+    queryFn: () => adminFetch("/api/admin/products"),
+  });
+  const categoryRows = flattenCategoryTree(buildCategoryTree(categories));
+
+  const resetForm = () => {
+    setFormData(EMPTY_FORM);
+    setEditingId(null);
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: PromoCodeFormState) => {
+      const optionalNumber = (value: string) => (value.trim() ? Number(value) : null);
+      return adminFetch(editingId ? `/api/admin/promo-codes/${editingId}` : "/api/admin/promo-codes", {
+        method: editingId ? "PUT" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          code: data.code,
+          description: data.description.trim() || null,
+          discountType: data.discountType,
+          discountValue: Number(data.discountValue),
+          minOrderTotal: Number(data.minOrderTotal) || 0,
+          maxUses: optionalNumber(data.maxUses),
+          maxUsesPerCustomer: optionalNumber(data.maxUsesPerCustomer),
+          startsAt: data.startsAt ? new Date(data.startsAt).toISOString() : null,
+          endsAt: data.endsAt ? new Date(data.endsAt).toISOString() : null,
+          productIds: data.productIds,
+          categoryIds: data.categoryIds,
+          stackWithLoyalty: data.stackWithLoyalty,
+          isActive: data.isActive,
+        }),
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/promo-codes"] });
+      toast({ title: "Успех", description: editingId ? "Промокод обновлён" : "Промокод создан" });
+      resetForm();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Ошибка", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => adminFetch(`/api/admin/promo-codes/${id}`, { method: "DELETE" }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/promo-codes"] });
+      toast({ title: "Успех", description: "Промокод удалён" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Ошибка", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const handleEdit = (promo: PromoCodeRow) => {
+    setEditingId(promo.id);
+    setFormData({
+      code: promo.code,
+      description: promo.description || "",
+      discountType: promo.discountType as PromoDiscountType,
+      discountValue: String(promo.discountValue),
+      minOrderTotal: promo.minOrderTotal ? String(promo.minOrderTotal) : "",
+      maxUses: promo.maxUses !== null ? String(promo.maxUses) : "",
+      maxUsesPerCustomer: promo.maxUsesPerCustomer !== null ? String(promo.maxUsesPerCustomer) : "",
+      startsAt: toLocalInput(promo.startsAt),
+      endsAt: toLocalInput(promo.endsAt),
+      productIds: promo.productIds,
+      categoryIds: promo.categoryIds,
+      stackWithLoyalty: promo.stackWithLoyalty,
+      isActive: promo.isActive,
+    });
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!formData.code.trim() || !(Number(formData.discountValue) > 0)) {
+      toast({ title: "Ошибка", description: "Укажите код и размер скидки", variant: "destructive" });
+      return;
+    }
+    saveMutation.mutate(formData);
+  };
+
+  const describeDiscount = (promo: PromoCode) =>
+    promo.discountType === "percent" ? `${promo.discountValue}%` : formatRubles(promo.discountValue);
+
+  const describeScope = (promo: PromoCode) => {
+    if (promo.productIds.length === 0 && promo.categoryIds.length === 0) return "Весь заказ";
+    const names = [
+      ...promo.categoryIds.map(id => categories.find(c => c.id === id)?.name ?? `#${id}`),
+      ...promo.productIds.map(id => products.find(p => p.id === id)?.name ?? `#${id}`),
+    ];
+    return names.join(", ");
+  };
+
+  const totals = promoCodes.reduce(
+    (sum, promo) => ({ orders: sum.orders + promo.orderCount, discount: sum.discount + promo.discountTotal, revenue: sum.revenue + promo.revenue }),
+    { orders: 0, discount: 0, revenue: 0 }
+  );
+
+  if (isLoading) {
+    return <Card className="p-8 text-center">Загрузка...</Card>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card className="p-6">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-lg font-semibold font-serif">
+              {editingId ? "Редактировать промокод" : "Новый промокод"}
+            </h3>
+            {editingId && (
+              <Button type="button" variant="ghost" size="sm" onClick={resetForm} data-testid="button-cancel-promo-edit">
+                <X className="h-4 w-4 mr-1" />
+                Отмена
+              </Button>
+            )}
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="promo-code">Код</Label>
+              <Input
+                id="promo-code"
+                value={formData.code}
+                onChange={(e) => setFormData({ ...formData, code: e.target.value.toUpperCase() })}
+                placeholder="SPRING10"
+                className="font-mono"
+                data-testid="input-promo-code"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Тип скидки</Label>
+              <Select
+                value={formData.discountType}
+                onValueChange={(value) => setFormData({ ...formData, discountType: value as PromoDiscountType })}
+              >
+                <SelectTrigger data-testid="select-promo-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="percent">Процент</SelectItem>
+                  <SelectItem value="fixed">Сумма, ₽</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="promo-value">{formData.discountType === "percent" ? "Скидка, %" : "Скидка, ₽"}</Label>
+              <Input
+                id="promo-value"
+                type="number"
+                min="0"
+                value={formData.discountValue}
+                onChange={(e) => setFormData({ ...formData, discountValue: e.target.value })}
+                data-testid="input-promo-value"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="promo-min-total">Заказ от, ₽</Label>
+              <Input
+                id="promo-min-total"
+                type="number"
+                min="0"
+                value={formData.minOrderTotal}
+                onChange={(e) => setFormData({ ...formData, minOrderTotal: e.target.value })}
+                placeholder="Без ограничения"
+                data-testid="input-promo-min-total"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="promo-max-uses">Всего использований</Label>
+              <Input
+                id="promo-max-uses"
+                type="number"
+                min="1"
+                value={formData.maxUses}
+                onChange={(e) => setFormData({ ...formData, maxUses: e.target.value })}
+                placeholder="Без ограничения"
+                data-testid="input-promo-max-uses"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="promo-max-uses-customer">На одного покупателя</Label>
+              <Input
+                id="promo-max-uses-customer"
+                type="number"
+                min="1"
+                value={formData.maxUsesPerCustomer}
+                onChange={(e) => setFormData({ ...formData, maxUsesPerCustomer: e.target.value })}
+                placeholder="Без ограничения"
+                data-testid="input-promo-max-uses-customer"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="promo-starts-at">Действует с</Label>
+              <Input
+                id="promo-starts-at"
+                type="datetime-local"
+                value={formData.startsAt}
+                onChange={(e) => setFormData({ ...formData, startsAt: e.target.value })}
+                data-testid="input-promo-starts-at"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="promo-ends-at">Действует до</Label>
+              <Input
+                id="promo-ends-at"
+                type="datetime-local"
+                value={formData.endsAt}
+                onChange={(e) => setFormData({ ...formData, endsAt: e.target.value })}
+                data-testid="input-promo-ends-at"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="promo-description">Описание для покупателя</Label>
+            <Input
+              id="promo-description"
+              value={formData.description}
+              onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+              placeholder="Весенняя скидка 10% на шэн пуэры"
+              data-testid="input-promo-description"
+            />
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Категории (пусто — весь заказ)</Label>
+              <div className="max-h-48 overflow-y-auto rounded-md border p-2 space-y-1">
+                {categoryRows.map(({ category, depth }) => (
+                  <label key={category.id} className="flex items-center gap-2 text-sm" style={{ paddingLeft: `${depth}rem` }}>
+                    <Checkbox
+                      checked={formData.categoryIds.includes(category.id)}
+                      onCheckedChange={() => setFormData({ ...formData, categoryIds: toggleId(formData.categoryIds, category.id) })}
+                      data-testid={`checkbox-promo-category-${category.id}`}
+                    />
+                    {category.name}
+                  </label>
+                ))}
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Товары</Label>
+              <div className="max-h-48 overflow-y-auto rounded-md border p-2 space-y-1">
+                {products.map(product => (
+                  <label key={product.id} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={formData.productIds.includes(product.id)}
+                      onCheckedChange={() => setFormData({ ...formData, productIds: toggleId(formData.productIds, product.id) })}
+                      data-testid={`checkbox-promo-product-${product.id}`}
+                    />
+                    {product.name}
+                  </label>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <div className="flex flex-wrap gap-6">
+              <label className="flex items-center gap-2 text-sm">
+                <Switch
+                  checked={formData.stackWithLoyalty}
+                  onCheckedChange={(checked) => setFormData({ ...formData, stackWithLoyalty: checked })}
+                  data-testid="switch-promo-stack"
+                />
+                Суммируется со скидкой лояльности
+              </label>
+              <label className="flex items-center gap-2 text-sm">
+                <Switch
+                  checked={formData.isActive}
+                  onCheckedChange={(checked) => setFormData({ ...formData, isActive: checked })}
+                  data-testid="switch-promo-active"
+                />
+                Активен
+              </label>
+            </div>
+            <Button type="submit" disabled={saveMutation.isPending} data-testid="button-submit-promo">
+              {editingId ? "Сохранить" : "Создать"}
+            </Button>
+          </div>
+        </form>
+      </Card>
+
+      <Card className="p-6">
+        <h3 className="text-lg font-semibold font-serif mb-1">Промокоды ({promoCodes.length})</h3>
+        <p className="text-sm text-muted-foreground mb-4">
+          Оплаченные заказы: {totals.orders}, скидка {formatRubles(totals.discount)}, выручка {formatRubles(totals.revenue)}
+        </p>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Код</TableHead>
+              <TableHead>Скидка</TableHead>
+              <TableHead>Условия</TableHead>
+              <TableHead className="text-right">Заказы</TableHead>
+              <TableHead className="text-right">Скидка, всего</TableHead>
+              <TableHead className="text-right">Выручка</TableHead>
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {promoCodes.map(promo => (
+              <TableRow key={promo.id} data-testid={`row-promo-${promo.id}`}>
+                <TableCell>
+                  <div className="flex items-center gap-2">
+                    <code className="font-mono font-semibold">{promo.code}</code>
+                    {!promo.isActive && <Badge variant="secondary">Выключен</Badge>}
+                  </div>
+                  {promo.description && <p className="text-xs text-muted-foreground">{promo.description}</p>}
+                </TableCell>
+                <TableCell>
+                  {describeDiscount(promo)}
+                  {promo.stackWithLoyalty && <p className="text-xs text-muted-foreground">+ лояльность</p>}
+                </TableCell>
+                <TableCell className="text-xs text-muted-foreground max-w-xs">
+                  <p>{describeScope(promo)}</p>
+                  {promo.minOrderTotal > 0 && <p>Заказ от {formatRubles(promo.minOrderTotal)}</p>}
+                  <p>
+                    Лимит: {promo.maxUses ?? "∞"} всего, {promo.maxUsesPerCustomer ?? "∞"} на покупателя
+                  </p>
+                  {(promo.startsAt || promo.endsAt) && (
+                    <p>
+                      {promo.startsAt && `с ${new Date(promo.startsAt).toLocaleDateString("ru-RU")} `}
+                      {promo.endsAt && `до ${new Date(promo.endsAt).toLocaleDateString("ru-RU")}`}
+                    </p>
+                  )}
+                </TableCell>
+                <TableCell className="text-right">{promo.orderCount}</TableCell>
+                <TableCell className="text-right">{formatRubles(promo.discountTotal)}</TableCell>
+                <TableCell className="text-right">{formatRubles(promo.revenue)}</TableCell>
+                <TableCell>
+                  <div className="flex justify-end gap-1">
+                    <Button variant="ghost" size="icon" onClick={() => handleEdit(promo)} data-testid={`button-edit-promo-${promo.id}`}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => {
+                        if (confirm(`Удалить промокод ${promo.code}? Заказы с ним останутся в истории.`)) {
+                          deleteMutation.mutate(promo.id);
+                        }
+                      }}
+                      disabled={deleteMutation.isPending}
+                      data-testid={`button-delete-promo-${promo.id}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        {promoCodes.length === 0 && (
+          <div className="text-center py-8 text-muted-foreground">
+            Промокодов пока нет. Создайте первый выше.
+          </div>
+        )}
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,180 @@
+import { useQuery } from "@tanstack/react-query";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import type { AdminReferral } from "@shared/schema";
+
+interface AdminReferralsProps {
+  adminFetch: (url: string, options?: RequestInit) => Promise<any>;
+}
+
+interface ReferrerSummary {
+  referrerId: string;
+  name: string | null;
+  phone: string;
+  invited: number;
+  rewarded: number;
+}
+
+function formatDate(iso: string): string {
+  return new Date(iso).toLocaleDateString("ru-RU", { day: "numeric", month: "short", year: "numeric" });
+}
+
+// Bonus as stored: XP, or kopecks for the wallet
+function formatBonus(referral: AdminReferral, amount: number): string {
+  return referral.rewardType === "wallet"
+    ? `${(amount / 100).toLocaleString("ru-RU")} ₽`
+    : `${amount.toLocaleString("ru-RU")} XP`;
+}
+
+function summarizeReferrers(referrals: AdminReferral[]): ReferrerSummary[] {
+  const byReferrer = new Map<string, ReferrerSummary>();
+  for (const referral of referrals) {
+    const summary = byReferrer.get(referral.referrerId) ?? {
+      referrerId: referral.referrerId,
+      name: referral.referrerName,
+      phone: referral.referrerPhone,
+      invited: 0,
+      rewarded: 0,
+    };
+    summary.invited++;
+    if (referral.status === "rewarded") summary.rewarded++;
+    byReferrer.set(referral.referrerId, summary);
+  }
+  return Array.from(byReferrer.values()).sort((a, b) => b.rewarded - a.rewarded || b.invited - a.invited);
+}
+
+export default function AdminReferrals({ adminFetch }: AdminReferralsProps) {
+  const { data: referrals = [], isLoading } = useQuery<AdminReferral[]>({
+    queryKey: ["/api/admin/referrals"],
+    queryFn: () => adminFetch("/api/admin/referrals"),
+  });
+
+  if (isLoading) {
+    return <Card className="p-8 text-center">Загрузка...</Card>;
+  }
+
+  const rewarded = referrals.filter(referral => referral.status === "rewarded");
+  const paidXp = rewarded
+    .filter(referral => referral.rewardType === "xp")
+    .reduce((sum, referral) => sum + referral.referrerReward + referral.refereeReward, 0);
+  const paidWallet = rewarded
+    .filter(referral => referral.rewardType === "wallet")
+    .reduce((sum, referral) => sum + referral.referrerReward + referral.refereeReward, 0);
+  const conversion = referrals.length > 0 ? Math.round(rewarded.length / referrals.length * 100) : 0;
+  const referrers = summarizeReferrers(referrals);
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <Card className="p-4">
+          <p className="text-sm text-muted-foreground">Зарегистрировались</p>
+          <p className="text-2xl font-semibold" data-testid="text-referrals-total">{referrals.length}</p>
+        </Card>
+        <Card className="p-4">
+          <p className="text-sm text-muted-foreground">Сделали заказ</p>
+          <p className="text-2xl font-semibold" data-testid="text-referrals-rewarded">{rewarded.length}</p>
+        </Card>
+        <Card className="p-4">
+          <p className="text-sm text-muted-foreground">Конверсия</p>
+          <p className="text-2xl font-semibold" data-testid="text-referrals-conversion">{conversion}%</p>
+        </Card>
+        <Card className="p-4">
+          <p className="text-sm text-muted-foreground">Выплачено бонусов</p>
+          <p className="text-lg font-semibold" data-testid="text-referrals-paid">
+            {paidXp > 0 && <span className="block">{paidXp.toLocaleString("ru-RU")} XP</span>}
+            {paidWallet > 0 && <span className="block">{(paidWallet / 100).toLocaleString("ru-RU")} ₽</span>}
+            {paidXp === 0 && paidWallet === 0 && "—"}
+          </p>
+        </Card>
+      </div>
+
+      <Card className="p-6">
+        <h3 className="text-lg font-semibold font-serif mb-4">Кто приглашает</h3>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Клиент</TableHead>
+              <TableHead className="text-right">Зарегистрировались</TableHead>
+              <TableHead className="text-right">Сделали заказ</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {referrers.map(referrer => (
+              <TableRow key={referrer.referrerId} data-testid={`row-referrer-${referrer.referrerId}`}>
+                <TableCell>
+                  <p className="font-medium">{referrer.name || "Без имени"}</p>
+                  <p className="text-xs text-muted-foreground">{referrer.phone}</p>
+                </TableCell>
+                <TableCell className="text-right">{referrer.invited}</TableCell>
+                <TableCell className="text-right">{referrer.rewarded}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+        {referrers.length === 0 && (
+          <div className="text-center py-8 text-muted-foreground">
+            По приглашениям пока никто не зарегистрировался.
+          </div>
+        )}
+      </Card>
+
+      {referrals.length > 0 && (
+        <Card className="p-6">
+          <h3 className="text-lg font-semibold font-serif mb-4">Приглашения ({referrals.length})</h3>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Пригласил</TableHead>
+                <TableHead>Приглашённый</TableHead>
+                <TableHead>Статус</TableHead>
+                <TableHead>Бонусы</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {referrals.map(referral => (
+                <TableRow key={referral.id} data-testid={`row-referral-${referral.id}`}>
+                  <TableCell>
+                    <p>{referral.referrerName || "Без имени"}</p>
+                    <p className="text-xs text-muted-foreground">{referral.referrerPhone}</p>
+                  </TableCell>
+                  <TableCell>
+                    <p>{referral.refereeName || "Без имени"}</p>
+                    <p className="text-xs text-muted-foreground">{referral.refereePhone}, с {formatDate(referral.createdAt)}</p>
+                  </TableCell>
+                  <TableCell>
+                    {referral.status === "rewarded" ? (
+                      <>
+                        <Badge className="bg-green-600 text-white border-0">Заказ #{referral.orderId}</Badge>
+                        {referral.rewardedAt && (
+                          <p className="text-xs text-muted-foreground mt-1">{formatDate(referral.rewardedAt)}</p>
+                        )}
+                      </>
+                    ) : (
+                      <Badge variant="outline">Ждёт заказа</Badge>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-xs text-muted-foreground whitespace-nowrap">
+                    {referral.status === "rewarded" ? (
+                      <>
+                        <p>пригласившему {formatBonus(referral, referral.referrerReward)}</p>
+                        <p>приглашённому {formatBonus(referral, referral.refereeReward)}</p>
+                      </>
+                    ) : "—"}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,202 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import { format } from "date-fns";
+import { ru } from "date-fns/locale";
+import type { AdminProductReview, ReviewStatus } from "@shared/schema";
+import { Check, X, Trash2, Star } from "lucide-react";
+
+interface AdminReviewsProps {
+  adminFetch: (url: string, options?: RequestInit) => Promise<any>;
+}
+
+const STATUS_LABELS: Record<ReviewStatus, string> = {
+  pending: "На проверке",
+  approved: "Опубликован",
+  rejected: "Отклонён",
+};
+
+const STATUS_VARIANTS: Record<ReviewStatus, "default" | "secondary" | "destructive"> = {
+  pending: "secondary",
+  approved: "default",
+  rejected: "destructive",
+};
+
+export default function AdminReviews({ adminFetch }: AdminReviewsProps) {
+  const { toast } = useToast();
+  const [statusFilter, setStatusFilter] = useState<string>("pending");
+
+  const reviewsUrl = statusFilter === "all" ? "/api/admin/reviews" : `/api/admin/reviews?status=${statusFilter}`;
+  const { data: reviews = [], isLoading } = useQuery<AdminProductReview[]>({
+    queryKey: ["/api/admin/reviews", statusFilter],
+    queryFn: () => adminFetch(reviewsUrl),
+  });
+
+  const invalidateReviews = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/reviews"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/reviews/summary"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/products"] });
+  };
+
+  const moderateMutation = useMutation({
+    mutationFn: async ({ id, status }: { id: number; status: ReviewStatus }) => {
+      return adminFetch(`/api/admin/reviews/${id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ status }),
+      });
+    },
+    onSuccess: (_data, { status }) => {
+      invalidateReviews();
+      toast({
+        title: "Успешно",
+        description: status === "approved" ? "Отзыв опубликован" : "Отзыв отклонён",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Ошибка",
+        description: error.message || "Не удалось изменить статус отзыва",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      return adminFetch(`/api/admin/reviews/${id}`, { method: "DELETE" });
+    },
+    onSuccess: () => {
+      invalidateReviews();
+      toast({ title: "Успешно", description: "Отзыв удалён" });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Ошибка",
+        description: error.message || "Не удалось удалить отзыв",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleDelete = (id: number) => {
+    if (confirm("Удалить отзыв? Покупатель сможет оставить новый.")) {
+      deleteMutation.mutate(id);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <h2 className="font-serif text-2xl font-semibold">Отзывы</h2>
+          <p className="text-muted-foreground mt-2">
+            Отзывы оставляют покупатели после получения заказа. На сайте видны только опубликованные.
+          </p>
+        </div>
+        <Select value={statusFilter} onValueChange={setStatusFilter}>
+          <SelectTrigger className="w-44" data-testid="select-review-status">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="pending">На проверке</SelectItem>
+            <SelectItem value="approved">Опубликованные</SelectItem>
+            <SelectItem value="rejected">Отклонённые</SelectItem>
+            <SelectItem value="all">Все</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {isLoading ? (
+        <Card className="p-8 text-center">
+          <p className="text-muted-foreground">Загрузка отзывов...</p>
+        </Card>
+      ) : reviews.length === 0 ? (
+        <Card className="p-8 text-center">
+          <p className="text-muted-foreground" data-testid="text-no-reviews">Отзывов нет</p>
+        </Card>
+      ) : (
+        <div className="space-y-4">
+          {reviews.map(review => {
+            const status = review.status as ReviewStatus;
+            return (
+              <Card key={review.id} className="p-4 space-y-3" data-testid={`card-review-${review.id}`}>
+                <div className="flex flex-wrap items-start justify-between gap-2">
+                  <div>
+                    <div className="font-medium">{review.productName}</div>
+                    <div className="text-sm text-muted-foreground">
+                      {review.authorName || "Без имени"} · {review.authorPhone} · заказ #{review.orderId}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Badge variant={STATUS_VARIANTS[status]}>{STATUS_LABELS[status]}</Badge>
+                    <span className="text-xs text-muted-foreground">
+                      {format(new Date(review.createdAt), "dd MMM yyyy, HH:mm", { locale: ru })}
+                    </span>
+                  </div>
+                </div>
+
+                <div className="flex items-center gap-0.5">
+                  {[1, 2, 3, 4, 5].map(star => (
+                    <Star
+                      key={star}
+                      className={`w-4 h-4 ${star <= review.rating ? "fill-amber-400 text-amber-400" : "text-muted-foreground/40"}`}
+                    />
+                  ))}
+                </div>
+                <p className="text-sm whitespace-pre-line">{review.text}</p>
+                {review.photo && (
+                  <a href={review.photo} target="_blank" rel="noopener noreferrer">
+                    <img src={review.photo} alt="Фото из отзыва" className="h-32 w-32 rounded-md object-cover" />
+                  </a>
+                )}
+
+                <div className="flex flex-wrap gap-2">
+                  {status !== "approved" && (
+                    <Button
+                      size="sm"
+                      onClick={() => moderateMutation.mutate({ id: review.id, status: "approved" })}
+                      disabled={moderateMutation.isPending}
+                      data-testid={`button-approve-review-${review.id}`}
+                    >
+                      <Check className="w-4 h-4 mr-1" />
+                      Опубликовать
+                    </Button>
+                  )}
+                  {status !== "rejected" && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => moderateMutation.mutate({ id: review.id, status: "rejected" })}
+                      disabled={moderateMutation.isPending}
+                      data-testid={`button-reject-review-${review.id}`}
+                    >
+                      <X className="w-4 h-4 mr-1" />
+                      Отклонить
+                    </Button>
+                  )}
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => handleDelete(review.id)}
+                    disabled={deleteMutation.isPending}
+                    data-testid={`button-delete-review-${review.id}`}
+                  >
+                    <Trash2 className="w-4 h-4 mr-1" />
+                    Удалить
+                  </Button>
+                </div>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
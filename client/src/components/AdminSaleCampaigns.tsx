@@ -0,0 +1,372 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Pencil, Trash2, X } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useTeaTypes } from "@/hooks/use-tea-types";
+import { queryClient } from "@/lib/queryClient";
+import { isSaleCampaignRunning } from "@shared/sales";
+import type { ProductWithVariants, SaleCampaign } from "@shared/schema";
+
+interface AdminSaleCampaignsProps {
+  adminFetch: (url: string, options?: RequestInit) => Promise<any>;
+}
+
+// Inputs keep strings so fields can be cleared; converted on submit
+interface SaleCampaignFormState {
+  name: string;
+  description: string;
+  discountPercent: string;
+  startsAt: string;
+  endsAt: string;
+  productIds: number[];
+  teaTypes: string[];
+  showBanner: boolean;
+  isActive: boolean;
+}
+
+const EMPTY_FORM: SaleCampaignFormState = {
+  name: "",
+  description: "",
+  discountPercent: "",
+  startsAt: "",
+  endsAt: "",
+  productIds: [],
+  teaTypes: [],
+  showBanner: true,
+  isActive: true,
+};
+
+// ISO timestamp -> value for <input type="datetime-local"> in the admin's time zone
+function toLocalInput(iso: string): string {
+  const date = new Date(iso);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+}
+
+function formatDateTime(iso: string): string {
+  return new Date(iso).toLocaleString("ru-RU", { day: "numeric", month: "short", hour: "2-digit", minute: "2-digit" });
+}
+
+function toggleValue<T>(values: T[], value: T): T[] {
+  return values.includes(value) ? values.filter(existing => existing !== value) : [...values, value];
+}
+
+export default function AdminSaleCampaigns({ adminFetch }: AdminSaleCampaignsProps) {
+  const { toast } = useToast();
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [formData, setFormData] = useState<SaleCampaignFormState>(EMPTY_FORM);
+
+  const { data: campaigns = [], isLoading } = useQuery<SaleCampaign[]>({
+    queryKey: ["/api/admin/sale-campaigns"],
+    queryFn: () => adminFetch("/api/admin/sale-campaigns"),
+  });
+  const { data: products = [] } = useQuery<ProductWithVariants[]>({
+    queryKey: ["/api/admin/products"],
+    queryFn: () => adminFetch("/api/admin/products"),
+  });
+  const { data: teaTypes = [] } = useTeaTypes();
+
+  const resetForm = () => {
+    setFormData(EMPTY_FORM);
+    setEditingId(null);
+  };
+
+  // Storefront prices and banners change with the campaigns
+  const invalidateCampaigns = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/sale-campaigns"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/banners"] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: SaleCampaignFormState) => {
+      return adminFetch(editingId ? `/api/admin/sale-campaigns/${editingId}` : "/api/admin/sale-campaigns", {
+        method: editingId ? "PUT" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name: data.name,
+          description: data.description.trim() || null,
+          discountPercent: Number(data.discountPercent),
+          startsAt: new Date(data.startsAt).toISOString(),
+          endsAt: new Date(data.endsAt).toISOString(),
+          productIds: data.productIds,
+          teaTypes: data.teaTypes,
+          showBanner: data.showBanner,
+          isActive: data.isActive,
+        }),
+      });
+    },
+    onSuccess: () => {
+      invalidateCampaigns();
+      toast({ title: "Успех", description: editingId ? "Акция обновлена" : "Акция создана" });
+      resetForm();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Ошибка", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => adminFetch(`/api/admin/sale-campaigns/${id}`, { method: "DELETE" }),
+    onSuccess: () => {
+      invalidateCampaigns();
+      toast({ title: "Успех", description: "Акция удалена" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Ошибка", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const handleEdit = (campaign: SaleCampaign) => {
+    setEditingId(campaign.id);
+    setFormData({
+      name: campaign.name,
+      description: campaign.description || "",
+      discountPercent: String(campaign.discountPercent),
+      startsAt: toLocalInput(campaign.startsAt),
+      endsAt: toLocalInput(campaign.endsAt),
+      productIds: campaign.productIds,
+      teaTypes: campaign.teaTypes,
+      showBanner: campaign.showBanner,
+      isActive: campaign.isActive,
+    });
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!formData.name.trim() || !(Number(formData.discountPercent) > 0) || !formData.startsAt || !formData.endsAt) {
+      toast({ title: "Ошибка", description: "Укажите название, скидку и сроки акции", variant: "destructive" });
+      return;
+    }
+    saveMutation.mutate(formData);
+  };
+
+  const describeScope = (campaign: SaleCampaign) => {
+    if (campaign.productIds.length === 0 && campaign.teaTypes.length === 0) return "Весь каталог";
+    return [
+      ...campaign.teaTypes,
+      ...campaign.productIds.map(id => products.find(p => p.id === id)?.name ?? `#${id}`),
+    ].join(", ");
+  };
+
+  const getStatus = (campaign: SaleCampaign) => {
+    if (!campaign.isActive) return <Badge variant="secondary">Выключена</Badge>;
+    if (isSaleCampaignRunning(campaign)) return <Badge className="bg-red-600 text-white border-0">Идёт</Badge>;
+    if (new Date(campaign.endsAt) <= new Date()) return <Badge variant="outline">Завершена</Badge>;
+    return <Badge variant="outline">Запланирована</Badge>;
+  };
+
+  if (isLoading) {
+    return <Card className="p-8 text-center">Загрузка...</Card>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card className="p-6">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-lg font-semibold font-serif">
+              {editingId ? "Редактировать акцию" : "Новая акция"}
+            </h3>
+            {editingId && (
+              <Button type="button" variant="ghost" size="sm" onClick={resetForm} data-testid="button-cancel-sale-edit">
+                <X className="h-4 w-4 mr-1" />
+                Отмена
+              </Button>
+            )}
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div className="space-y-2 md:col-span-2">
+              <Label htmlFor="sale-name">Название</Label>
+              <Input
+                id="sale-name"
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                placeholder="Неделя шу пуэра"
+                data-testid="input-sale-name"
+              />
+            </div>
+            <div className="space-y-2 md:col-span-2">
+              <Label htmlFor="sale-percent">Скидка, %</Label>
+              <Input
+                id="sale-percent"
+                type="number"
+                min="1"
+                max="90"
+                value={formData.discountPercent}
+                onChange={(e) => setFormData({ ...formData, discountPercent: e.target.value })}
+                data-testid="input-sale-percent"
+              />
+            </div>
+            <div className="space-y-2 md:col-span-2">
+              <Label htmlFor="sale-starts-at">Начало</Label>
+              <Input
+                id="sale-starts-at"
+                type="datetime-local"
+                value={formData.startsAt}
+                onChange={(e) => setFormData({ ...formData, startsAt: e.target.value })}
+                data-testid="input-sale-starts-at"
+              />
+            </div>
+            <div className="space-y-2 md:col-span-2">
+              <Label htmlFor="sale-ends-at">Окончание</Label>
+              <Input
+                id="sale-ends-at"
+                type="datetime-local"
+                value={formData.endsAt}
+                onChange={(e) => setFormData({ ...formData, endsAt: e.target.value })}
+                data-testid="input-sale-ends-at"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="sale-description">Текст баннера</Label>
+            <Input
+              id="sale-description"
+              value={formData.description}
+              onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+              placeholder="Все шу пуэры со скидкой 15% до воскресенья"
+              data-testid="input-sale-description"
+            />
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Типы чая (пусто вместе с товарами — весь каталог)</Label>
+              <div className="max-h-48 overflow-y-auto rounded-md border p-2 space-y-1">
+                {teaTypes.map(teaType => (
+                  <label key={teaType.id} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={formData.teaTypes.includes(teaType.name)}
+                      onCheckedChange={() => setFormData({ ...formData, teaTypes: toggleValue(formData.teaTypes, teaType.name) })}
+                      data-testid={`checkbox-sale-tea-type-${teaType.id}`}
+                    />
+                    {teaType.name}
+                  </label>
+                ))}
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Товары</Label>
+              <div className="max-h-48 overflow-y-auto rounded-md border p-2 space-y-1">
+                {products.map(product => (
+                  <label key={product.id} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={formData.productIds.includes(product.id)}
+                      onCheckedChange={() => setFormData({ ...formData, productIds: toggleValue(formData.productIds, product.id) })}
+                      data-testid={`checkbox-sale-product-${product.id}`}
+                    />
+                    {product.name}
+                  </label>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <div className="flex flex-wrap gap-6">
+              <label className="flex items-center gap-2 text-sm">
+                <Switch
+                  checked={formData.showBanner}
+                  onCheckedChange={(checked) => setFormData({ ...formData, showBanner: checked })}
+                  data-testid="switch-sale-banner"
+                />
+                Баннер с обратным отсчётом на главной
+              </label>
+              <label className="flex items-center gap-2 text-sm">
+                <Switch
+                  checked={formData.isActive}
+                  onCheckedChange={(checked) => setFormData({ ...formData, isActive: checked })}
+                  data-testid="switch-sale-active"
+                />
+                Активна
+              </label>
+            </div>
+            <Button type="submit" disabled={saveMutation.isPending} data-testid="button-submit-sale">
+              {editingId ? "Сохранить" : "Создать"}
+            </Button>
+          </div>
+        </form>
+      </Card>
+
+      <Card className="p-6">
+        <h3 className="text-lg font-semibold font-serif mb-4">Акции ({campaigns.length})</h3>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Акция</TableHead>
+              <TableHead>Скидка</TableHead>
+              <TableHead>Сроки</TableHead>
+              <TableHead>Товары</TableHead>
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {campaigns.map(campaign => (
+              <TableRow key={campaign.id} data-testid={`row-sale-${campaign.id}`}>
+                <TableCell>
+                  <div className="flex items-center gap-2">
+                    <span className="font-semibold">{campaign.name}</span>
+                    {getStatus(campaign)}
+                  </div>
+                  {campaign.description && <p className="text-xs text-muted-foreground">{campaign.description}</p>}
+                </TableCell>
+                <TableCell>
+                  −{campaign.discountPercent}%
+                  {campaign.showBanner && <p className="text-xs text-muted-foreground">с баннером</p>}
+                </TableCell>
+                <TableCell className="text-xs text-muted-foreground whitespace-nowrap">
+                  <p>с {formatDateTime(campaign.startsAt)}</p>
+                  <p>до {formatDateTime(campaign.endsAt)}</p>
+                </TableCell>
+                <TableCell className="text-xs text-muted-foreground max-w-xs">{describeScope(campaign)}</TableCell>
+                <TableCell>
+                  <div className="flex justify-end gap-1">
+                    <Button variant="ghost" size="icon" onClick={() => handleEdit(campaign)} data-testid={`button-edit-sale-${campaign.id}`}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => {
+                        if (confirm(`Удалить акцию «${campaign.name}»? Цены сразу вернутся к обычным.`)) {
+                          deleteMutation.mutate(campaign.id);
+                        }
+                      }}
+                      disabled={deleteMutation.isPending}
+                      data-testid={`button-delete-sale-${campaign.id}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        {campaigns.length === 0 && (
+          <div className="text-center py-8 text-muted-foreground">
+            Акций пока нет. Создайте первую выше.
+          </div>
+        )}
+      </Card>
+    </div>
+  );
+}
@@ -5,10 +5,17 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
 import { queryClient } from "@/lib/queryClient";
-import type { SiteSettings, UpdateSiteSettings } from "@shared/schema";
-import { Save, Gift, Star, Award, Plus, X } from "lucide-react";
+import type { SiteSettings, UpdateSiteSettings, ReferralRewardType, XpPolicy, LoyaltyLevelInput } from "@shared/schema";
+import { Save, Gift, Star, Award, Percent } from "lucide-react";
+import VolumeDiscountTiersEditor from "@/components/VolumeDiscountTiersEditor";
+import LoyaltyLevelsEditor from "@/components/LoyaltyLevelsEditor";
+import { useLoyaltyLevels } from "@/hooks/use-loyalty-levels";
+import type { LoyaltyLevel } from "@shared/loyalty";
+import { DEFAULT_VOLUME_DISCOUNT_TIERS, sortVolumeDiscountTiers } from "@shared/volumeDiscounts";
 
 interface AdminSiteSettingsProps {
   adminFetch: (url: string, options?: RequestInit) => Promise<any>;
@@ -22,17 +29,17 @@ export default function AdminSiteSettings({ adminFetch }: AdminSiteSettingsProps
     contactTelegram: "",
     deliveryInfo: "",
     firstOrderDiscount: 20,
-    loyaltyLevel2MinXP: 3000,
-    loyaltyLevel2Discount: 5,
-    loyaltyLevel3MinXP: 7000,
-    loyaltyLevel3Discount: 10,
-    loyaltyLevel4MinXP: 15000,
-    loyaltyLevel4Discount: 15,
     xpMultiplier: 1,
-    loyaltyLevel1Perks: ["Доступ к базовому каталогу"],
-    loyaltyLevel2Perks: ["Доступ к базовому каталогу"],
-    loyaltyLevel3Perks: ["Персональный чат с консультациями", "Приглашения на закрытые чайные вечеринки", "Возможность запросить любой чай"],
-    loyaltyLevel4Perks: ["Все привилегии уровня 3", "Приоритетное обслуживание", "Эксклюзивные предложения"],
+    xpRedemptionEnabled: false,
+    xpPerRuble: 10,
+    xpRedemptionMaxPercent: 30,
+    referralRewardType: "xp",
+    referralReferrerReward: 500,
+    referralRefereeReward: 300,
+    xpPolicy: "none",
+    xpPolicyMonths: 12,
+    xpPolicyWarningDays: 14,
+    volumeDiscountTiers: DEFAULT_VOLUME_DISCOUNT_TIERS,
   });
 
   const { data: settings, isLoading } = useQuery<SiteSettings>({
@@ -45,22 +52,27 @@ export default function AdminSiteSettings({ adminFetch }: AdminSiteSettingsProps
         contactTelegram: data.contactTelegram,
         deliveryInfo: data.deliveryInfo,
         firstOrderDiscount: data.firstOrderDiscount ?? 20,
-        loyaltyLevel2MinXP: data.loyaltyLevel2MinXP ?? 3000,
-        loyaltyLevel2Discount: data.loyaltyLevel2Discount ?? 5,
-        loyaltyLevel3MinXP: data.loyaltyLevel3MinXP ?? 7000,
-        loyaltyLevel3Discount: data.loyaltyLevel3Discount ?? 10,
-        loyaltyLevel4MinXP: data.loyaltyLevel4MinXP ?? 15000,
-        loyaltyLevel4Discount: data.loyaltyLevel4Discount ?? 15,
         xpMultiplier: data.xpMultiplier ?? 1,
-        loyaltyLevel1Perks: data.loyaltyLevel1Perks ?? ["Доступ к базовому каталогу"],
-        loyaltyLevel2Perks: data.loyaltyLevel2Perks ?? ["Доступ к базовому каталогу"],
-        loyaltyLevel3Perks: data.loyaltyLevel3Perks ?? ["Персональный чат с консультациями", "Приглашения на закрытые чайные вечеринки", "Возможность запросить любой чай"],
-        loyaltyLevel4Perks: data.loyaltyLevel4Perks ?? ["Все привилегии уровня 3", "Приоритетное обслуживание", "Эксклюзивные предложения"],
+        xpRedemptionEnabled: data.xpRedemptionEnabled ?? false,
+        xpPerRuble: data.xpPerRuble ?? 10,
+        xpRedemptionMaxPercent: data.xpRedemptionMaxPercent ?? 30,
+        referralRewardType: data.referralRewardType ?? "xp",
+        referralReferrerReward: data.referralReferrerReward ?? 500,
+        referralRefereeReward: data.referralRefereeReward ?? 300,
+        xpPolicy: data.xpPolicy ?? "none",
+        xpPolicyMonths: data.xpPolicyMonths ?? 12,
+        xpPolicyWarningDays: data.xpPolicyWarningDays ?? 14,
+        volumeDiscountTiers: data.volumeDiscountTiers ?? DEFAULT_VOLUME_DISCOUNT_TIERS,
       });
       return data;
     },
   });
 
+  // Saved levels until the admin edits them
+  const { data: loyaltyLevels } = useLoyaltyLevels();
+  const [levels, setLevels] = useState<LoyaltyLevelInput[] | null>(null);
+  const editedLevels = levels ?? (loyaltyLevels ?? []).map(({ name, minXP, discount, color, icon, perks }) => ({ name, minXP, discount, color, icon, perks }));
+
   const updateMutation = useMutation({
     mutationFn: async (data: UpdateSiteSettings) => {
       return adminFetch("/api/site-settings", {
@@ -85,43 +97,45 @@ export default function AdminSiteSettings({ adminFetch }: AdminSiteSettingsProps
     },
   });
 
+  const levelsMutation = useMutation({
+    mutationFn: async (data: LoyaltyLevelInput[]): Promise<LoyaltyLevel[]> => {
+      return adminFetch("/api/admin/loyalty-levels", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(data),
+      });
+    },
+    onSuccess: (saved) => {
+      queryClient.setQueryData(["/api/loyalty-levels"], saved);
+      setLevels(null);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Ошибка",
+        description: error.message || "Не удалось сохранить уровни",
+        variant: "destructive",
+      });
+    },
+  });
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     const cleanedData = {
       ...formData,
-      loyaltyLevel1Perks: (formData.loyaltyLevel1Perks || []).filter(p => p.trim() !== ""),
-      loyaltyLevel2Perks: (formData.loyaltyLevel2Perks || []).filter(p => p.trim() !== ""),
-      loyaltyLevel3Perks: (formData.loyaltyLevel3Perks || []).filter(p => p.trim() !== ""),
-      loyaltyLevel4Perks: (formData.loyaltyLevel4Perks || []).filter(p => p.trim() !== ""),
+      volumeDiscountTiers: sortVolumeDiscountTiers(formData.volumeDiscountTiers || []),
     };
     updateMutation.mutate(cleanedData);
   };
 
-  const handleChange = (field: keyof UpdateSiteSettings, value: string | number) => {
-    setFormData((prev) => ({ ...prev, [field]: value }));
+  const handleLoyaltySubmit = (e: React.FormEvent) => {
+    handleSubmit(e);
+    if (levels) {
+      levelsMutation.mutate(levels.map(level => ({ ...level, perks: level.perks.filter(p => p.trim() !== "") })));
+    }
   };
 
-  const handlePerksChange = (field: "loyaltyLevel1Perks" | "loyaltyLevel2Perks" | "loyaltyLevel3Perks" | "loyaltyLevel4Perks", index: number, value: string) => {
-    setFormData((prev) => {
-      const perks = [...(prev[field] || [])];
-      perks[index] = value;
-      return { ...prev, [field]: perks };
-    });
-  };
-
-  const addPerk = (field: "loyaltyLevel1Perks" | "loyaltyLevel2Perks" | "loyaltyLevel3Perks" | "loyaltyLevel4Perks") => {
-    setFormData((prev) => {
-      const perks = [...(prev[field] || []), ""];
-      return { ...prev, [field]: perks };
-    });
-  };
-
-  const removePerk = (field: "loyaltyLevel1Perks" | "loyaltyLevel2Perks" | "loyaltyLevel3Perks" | "loyaltyLevel4Perks", index: number) => {
-    setFormData((prev) => {
-      const perks = [...(prev[field] || [])];
-      perks.splice(index, 1);
-      return { ...prev, [field]: perks };
-    });
+  const handleChange = (field: keyof UpdateSiteSettings, value: string | number) => {
+    setFormData((prev) => ({ ...prev, [field]: value }));
   };
 
   if (isLoading) {
@@ -251,6 +265,33 @@ export default function AdminSiteSettings({ adminFetch }: AdminSiteSettingsProps
         </form>
       </CardContent>
 
+      <CardHeader className="border-t">
+        <CardTitle className="flex items-center gap-2">
+          <Percent className="w-5 h-5" />
+          Скидка за объём
+        </CardTitle>
+        <CardDescription>
+          Для чая на развес (своё количество граммов). Категории и товары могут задать свои ступени; фасовки продаются по своей цене
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <VolumeDiscountTiersEditor
+            value={formData.volumeDiscountTiers ?? []}
+            onChange={(tiers) => setFormData((prev) => ({ ...prev, volumeDiscountTiers: tiers ?? [] }))}
+          />
+
+          <Button
+            type="submit"
+            disabled={updateMutation.isPending}
+            data-testid="button-save-volume-discounts"
+          >
+            <Save className="w-4 h-4 mr-2" />
+            {updateMutation.isPending ? "Сохранение..." : "Сохранить"}
+          </Button>
+        </form>
+      </CardContent>
+
       <CardHeader className="border-t">
         <CardTitle className="flex items-center gap-2">
           <Award className="w-5 h-5" />
@@ -261,7 +302,7 @@ export default function AdminSiteSettings({ adminFetch }: AdminSiteSettingsProps
         </CardDescription>
       </CardHeader>
       <CardContent>
-        <form onSubmit={handleSubmit} className="space-y-6">
+        <form onSubmit={handleLoyaltySubmit} className="space-y-6">
           <div className="space-y-2">
             <Label htmlFor="xpMultiplier">Множитель XP (XP за 1 рубль)</Label>
             <Input
@@ -278,244 +319,165 @@ export default function AdminSiteSettings({ adminFetch }: AdminSiteSettingsProps
             </p>
           </div>
 
-          <div className="border rounded-lg p-4 space-y-4 bg-muted/30">
-            <h4 className="font-medium flex items-center gap-2">
-              <Star className="w-4 h-4 text-gray-400" />
-              Уровень 1: Новичок (0 XP)
-            </h4>
-            <div className="space-y-2">
-              <Label>Дополнительные бонусы</Label>
-              {(formData.loyaltyLevel1Perks || []).map((perk, index) => (
-                <div key={index} className="flex gap-2">
-                  <Input
-                    value={perk}
-                    onChange={(e) => handlePerksChange("loyaltyLevel1Perks", index, e.target.value)}
-                    placeholder="Описание бонуса"
-                    data-testid={`input-level1-perk-${index}`}
-                  />
-                  <Button
-                    type="button"
-                    variant="ghost"
-                    size="icon"
-                    onClick={() => removePerk("loyaltyLevel1Perks", index)}
-                    data-testid={`button-remove-level1-perk-${index}`}
-                  >
-                    <X className="w-4 h-4" />
-                  </Button>
-                </div>
-              ))}
-              <Button
-                type="button"
-                variant="outline"
-                size="sm"
-                onClick={() => addPerk("loyaltyLevel1Perks")}
-                data-testid="button-add-level1-perk"
-              >
-                <Plus className="w-4 h-4 mr-1" />
-                Добавить бонус
-              </Button>
+          <div className="border rounded-lg p-4 space-y-4">
+            <div className="flex items-center justify-between gap-4">
+              <Label htmlFor="xpRedemptionEnabled">Оплата баллами</Label>
+              <Switch
+                id="xpRedemptionEnabled"
+                checked={!!formData.xpRedemptionEnabled}
+                onCheckedChange={(checked) => setFormData((prev) => ({ ...prev, xpRedemptionEnabled: checked }))}
+                data-testid="switch-xp-redemption"
+              />
             </div>
-          </div>
-
-          <div className="border rounded-lg p-4 space-y-4 bg-muted/30">
-            <h4 className="font-medium flex items-center gap-2">
-              <Star className="w-4 h-4 text-green-600" />
-              Уровень 2: Ценитель
-            </h4>
-            <div className="grid grid-cols-2 gap-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               <div className="space-y-2">
-                <Label htmlFor="loyaltyLevel2MinXP">Минимум XP</Label>
+                <Label htmlFor="xpPerRuble">XP за 1 ₽ скидки</Label>
                 <Input
-                  id="loyaltyLevel2MinXP"
+                  id="xpPerRuble"
                   type="number"
-                  min={0}
-                  value={formData.loyaltyLevel2MinXP || 3000}
-                  onChange={(e) => handleChange("loyaltyLevel2MinXP", parseInt(e.target.value) || 0)}
-                  data-testid="input-level2-min-xp"
+                  min={1}
+                  value={formData.xpPerRuble || 10}
+                  onChange={(e) => handleChange("xpPerRuble", parseInt(e.target.value) || 1)}
+                  disabled={!formData.xpRedemptionEnabled}
+                  data-testid="input-xp-per-ruble"
                 />
               </div>
               <div className="space-y-2">
-                <Label htmlFor="loyaltyLevel2Discount">Скидка (%)</Label>
+                <Label htmlFor="xpRedemptionMaxPercent">Не больше, % от заказа</Label>
                 <Input
-                  id="loyaltyLevel2Discount"
+                  id="xpRedemptionMaxPercent"
                   type="number"
-                  min={0}
+                  min={1}
                   max={100}
-                  value={formData.loyaltyLevel2Discount || 5}
-                  onChange={(e) => handleChange("loyaltyLevel2Discount", parseInt(e.target.value) || 0)}
-                  data-testid="input-level2-discount"
+                  value={formData.xpRedemptionMaxPercent || 30}
+                  onChange={(e) => handleChange("xpRedemptionMaxPercent", parseInt(e.target.value) || 1)}
+                  disabled={!formData.xpRedemptionEnabled}
+                  data-testid="input-xp-redemption-max-percent"
                 />
               </div>
             </div>
-            <div className="space-y-2">
-              <Label>Дополнительные бонусы</Label>
-              {(formData.loyaltyLevel2Perks || []).map((perk, index) => (
-                <div key={index} className="flex gap-2">
-                  <Input
-                    value={perk}
-                    onChange={(e) => handlePerksChange("loyaltyLevel2Perks", index, e.target.value)}
-                    placeholder="Описание бонуса"
-                    data-testid={`input-level2-perk-${index}`}
-                  />
-                  <Button
-                    type="button"
-                    variant="ghost"
-                    size="icon"
-                    onClick={() => removePerk("loyaltyLevel2Perks", index)}
-                    data-testid={`button-remove-level2-perk-${index}`}
-                  >
-                    <X className="w-4 h-4" />
-                  </Button>
-                </div>
-              ))}
-              <Button
-                type="button"
-                variant="outline"
-                size="sm"
-                onClick={() => addPerk("loyaltyLevel2Perks")}
-                data-testid="button-add-level2-perk"
-              >
-                <Plus className="w-4 h-4 mr-1" />
-                Добавить бонус
-              </Button>
-            </div>
+            <p className="text-sm text-muted-foreground">
+              Клиенты с подтверждённым телефоном могут списать XP в счёт заказа на сайте и в боте.
+              Списанный XP уменьшается и может понизить уровень; при отмене заказа он возвращается.
+            </p>
           </div>
 
-          <div className="border rounded-lg p-4 space-y-4 bg-muted/30">
-            <h4 className="font-medium flex items-center gap-2">
-              <Star className="w-4 h-4 text-purple-600" />
-              Уровень 3: Чайный мастер
-            </h4>
-            <div className="grid grid-cols-2 gap-4">
+          <div className="border rounded-lg p-4 space-y-4">
+            <Label>Бонус за приглашённого друга</Label>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="referralRewardType">Чем начислять</Label>
+                <Select
+                  value={formData.referralRewardType || "xp"}
+                  onValueChange={(value) => setFormData((prev) => ({ ...prev, referralRewardType: value as ReferralRewardType }))}
+                >
+                  <SelectTrigger id="referralRewardType" data-testid="select-referral-reward-type">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="xp">XP</SelectItem>
+                    <SelectItem value="wallet">Рубли на баланс</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
               <div className="space-y-2">
-                <Label htmlFor="loyaltyLevel3MinXP">Минимум XP</Label>
+                <Label htmlFor="referralReferrerReward">Пригласившему</Label>
                 <Input
-                  id="loyaltyLevel3MinXP"
+                  id="referralReferrerReward"
                   type="number"
                   min={0}
-                  value={formData.loyaltyLevel3MinXP || 7000}
-                  onChange={(e) => handleChange("loyaltyLevel3MinXP", parseInt(e.target.value) || 0)}
-                  data-testid="input-level3-min-xp"
+                  value={formData.referralReferrerReward ?? 500}
+                  onChange={(e) => handleChange("referralReferrerReward", parseInt(e.target.value) || 0)}
+                  data-testid="input-referral-referrer-reward"
                 />
               </div>
               <div className="space-y-2">
-                <Label htmlFor="loyaltyLevel3Discount">Скидка (%)</Label>
+                <Label htmlFor="referralRefereeReward">Приглашённому</Label>
                 <Input
-                  id="loyaltyLevel3Discount"
+                  id="referralRefereeReward"
                   type="number"
                   min={0}
-                  max={100}
-                  value={formData.loyaltyLevel3Discount || 10}
-                  onChange={(e) => handleChange("loyaltyLevel3Discount", parseInt(e.target.value) || 0)}
-                  data-testid="input-level3-discount"
+                  value={formData.referralRefereeReward ?? 300}
+                  onChange={(e) => handleChange("referralRefereeReward", parseInt(e.target.value) || 0)}
+                  data-testid="input-referral-referee-reward"
                 />
               </div>
             </div>
-            <div className="space-y-2">
-              <Label>Дополнительные бонусы</Label>
-              {(formData.loyaltyLevel3Perks || []).map((perk, index) => (
-                <div key={index} className="flex gap-2">
-                  <Input
-                    value={perk}
-                    onChange={(e) => handlePerksChange("loyaltyLevel3Perks", index, e.target.value)}
-                    placeholder="Описание бонуса"
-                    data-testid={`input-level3-perk-${index}`}
-                  />
-                  <Button
-                    type="button"
-                    variant="ghost"
-                    size="icon"
-                    onClick={() => removePerk("loyaltyLevel3Perks", index)}
-                    data-testid={`button-remove-level3-perk-${index}`}
-                  >
-                    <X className="w-4 h-4" />
-                  </Button>
-                </div>
-              ))}
-              <Button
-                type="button"
-                variant="outline"
-                size="sm"
-                onClick={() => addPerk("loyaltyLevel3Perks")}
-                data-testid="button-add-level3-perk"
-              >
-                <Plus className="w-4 h-4 mr-1" />
-                Добавить бонус
-              </Button>
-            </div>
+            <p className="text-sm text-muted-foreground">
+              Начисляется обоим, когда первый заказ приглашённого переходит в статус «Завершён».
+              Для баланса суммы указываются в рублях.
+            </p>
           </div>
 
-          <div className="border rounded-lg p-4 space-y-4 bg-muted/30">
-            <h4 className="font-medium flex items-center gap-2">
-              <Star className="w-4 h-4 text-red-600" />
-              Уровень 4: Чайный Гуру
-            </h4>
-            <div className="grid grid-cols-2 gap-4">
+          <div className="border rounded-lg p-4 space-y-4">
+            <Label>Срок действия XP</Label>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="xpPolicy">Правило</Label>
+                <Select
+                  value={formData.xpPolicy || "none"}
+                  onValueChange={(value) => setFormData((prev) => ({ ...prev, xpPolicy: value as XpPolicy }))}
+                >
+                  <SelectTrigger id="xpPolicy" data-testid="select-xp-policy">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">XP не сгорают</SelectItem>
+                    <SelectItem value="expiration">XP сгорают</SelectItem>
+                    <SelectItem value="rolling">Уровень по XP за период</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
               <div className="space-y-2">
-                <Label htmlFor="loyaltyLevel4MinXP">Минимум XP</Label>
+                <Label htmlFor="xpPolicyMonths">Период (мес.)</Label>
                 <Input
-                  id="loyaltyLevel4MinXP"
+                  id="xpPolicyMonths"
                   type="number"
-                  min={0}
-                  value={formData.loyaltyLevel4MinXP || 15000}
-                  onChange={(e) => handleChange("loyaltyLevel4MinXP", parseInt(e.target.value) || 0)}
-                  data-testid="input-level4-min-xp"
+                  min={1}
+                  max={60}
+                  value={formData.xpPolicyMonths ?? 12}
+                  onChange={(e) => handleChange("xpPolicyMonths", parseInt(e.target.value) || 1)}
+                  disabled={formData.xpPolicy === "none"}
+                  data-testid="input-xp-policy-months"
                 />
               </div>
               <div className="space-y-2">
-                <Label htmlFor="loyaltyLevel4Discount">Скидка (%)</Label>
+                <Label htmlFor="xpPolicyWarningDays">Предупреждать за (дней)</Label>
                 <Input
-                  id="loyaltyLevel4Discount"
+                  id="xpPolicyWarningDays"
                   type="number"
-                  min={0}
-                  max={100}
-                  value={formData.loyaltyLevel4Discount || 15}
-                  onChange={(e) => handleChange("loyaltyLevel4Discount", parseInt(e.target.value) || 0)}
-                  data-testid="input-level4-discount"
+                  min={1}
+                  max={90}
+                  value={formData.xpPolicyWarningDays ?? 14}
+                  onChange={(e) => handleChange("xpPolicyWarningDays", parseInt(e.target.value) || 1)}
+                  disabled={formData.xpPolicy === "none"}
+                  data-testid="input-xp-policy-warning-days"
                 />
               </div>
             </div>
-            <div className="space-y-2">
-              <Label>Дополнительные бонусы</Label>
-              {(formData.loyaltyLevel4Perks || []).map((perk, index) => (
-                <div key={index} className="flex gap-2">
-                  <Input
-                    value={perk}
-                    onChange={(e) => handlePerksChange("loyaltyLevel4Perks", index, e.target.value)}
-                    placeholder="Описание бонуса"
-                    data-testid={`input-level4-perk-${index}`}
-                  />
-                  <Button
-                    type="button"
-                    variant="ghost"
-                    size="icon"
-                    onClick={() => removePerk("loyaltyLevel4Perks", index)}
-                    data-testid={`button-remove-level4-perk-${index}`}
-                  >
-                    <X className="w-4 h-4" />
-                  </Button>
-                </div>
-              ))}
-              <Button
-                type="button"
-                variant="outline"
-                size="sm"
-                onClick={() => addPerk("loyaltyLevel4Perks")}
-                data-testid="button-add-level4-perk"
-              >
-                <Plus className="w-4 h-4 mr-1" />
-                Добавить бонус
-              </Button>
-            </div>
+            <p className="text-sm text-muted-foreground">
+              «XP сгорают» — XP, начисленные раньше периода, списываются с баланса.
+              «Уровень по XP за период» — баланс не трогается, а уровень считается только по XP за последние месяцы.
+              Период отсчитывается с момента включения правила{settings.xpPolicyStartedAt && formData.xpPolicy === settings.xpPolicy ? ` (${new Date(settings.xpPolicyStartedAt).toLocaleDateString("ru-RU")})` : ""}, поэтому накопленное раньше не сгорит сразу.
+              Клиенты получают предупреждение в Telegram или по SMS.
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <h4 className="font-medium flex items-center gap-2">
+              <Star className="w-4 h-4" />
+              Уровни
+            </h4>
+            <LoyaltyLevelsEditor value={editedLevels} onChange={setLevels} />
           </div>
 
           <Button
             type="submit"
-            disabled={updateMutation.isPending}
+            disabled={updateMutation.isPending || levelsMutation.isPending}
             data-testid="button-save-loyalty"
           >
             <Save className="w-4 h-4 mr-2" />
-            {updateMutation.isPending ? "Сохранение..." : "Сохранить"}
+            {updateMutation.isPending || levelsMutation.isPending ? "Сохранение..." : "Сохранить"}
           </Button>
         </form>
       </CardContent>
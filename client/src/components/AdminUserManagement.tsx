@@ -7,7 +7,8 @@ import { Progress } from "@/components/ui/progress";
 import { Badge } from "@/components/ui/badge";
 import { Search, Plus, Minus, Trophy, Copy, Check, Trash2, MessageCircle, RefreshCw, CheckCircle2, XCircle, HelpCircle, UserPlus, X } from "lucide-react";
 import { queryClient, apiRequest } from "@/lib/queryClient";
-import { getLoyaltyProgress, LOYALTY_LEVELS } from "@shared/loyalty";
+import { getLoyaltyProgress, getLevelXp } from "@shared/loyalty";
+import { useLoyaltyLevels } from "@/hooks/use-loyalty-levels";
 import { format } from "date-fns";
 import { ru } from "date-fns/locale";
 import { getApiUrl } from "@/lib/api-config";
@@ -364,7 +365,8 @@ export default function AdminUserManagement({ adminPassword }: AdminUserManageme
     },
   });
 
-  const loyaltyProgress = user ? getLoyaltyProgress(user.xp) : null;
+  const { data: loyaltyLevels = [] } = useLoyaltyLevels();
+  const loyaltyProgress = user ? getLoyaltyProgress(getLevelXp(user), loyaltyLevels) : null;
 
   const handleSelectUser = (selectedUser: UserWithoutPassword) => {
     // Update search phone and trigger auto-refetch
@@ -484,7 +486,7 @@ export default function AdminUserManagement({ adminPassword }: AdminUserManageme
                   <p className="text-sm font-medium">Последние зарегистрированные пользователи:</p>
                   <div className="space-y-1">
                     {recentUsers.map((u) => {
-                      const progress = getLoyaltyProgress(u.xp);
+                      const progress = getLoyaltyProgress(getLevelXp(u), loyaltyLevels);
                       return (
                         <button
                           key={u.id}
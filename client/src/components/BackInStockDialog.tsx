@@ -0,0 +1,133 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { StockSubscriptionChannel, StockSubscriptionInput } from "@shared/schema";
+
+interface BackInStockDialogProps {
+  productId: number;
+  productName: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const CHANNEL_LABELS: Record<StockSubscriptionChannel, string> = {
+  sms: "SMS",
+  email: "Email",
+  telegram: "Telegram",
+};
+
+export default function BackInStockDialog({ productId, productName, open, onOpenChange }: BackInStockDialogProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [channel, setChannel] = useState<StockSubscriptionChannel>("sms");
+  const [phone, setPhone] = useState(user?.phone || "");
+  const [email, setEmail] = useState(user?.email || "");
+
+  // Telegram is offered only when the account is linked to the bot
+  const { data: telegramProfile } = useQuery<{ linked: boolean }>({
+    queryKey: ["/api/telegram/profile"],
+    enabled: open && !!user,
+  });
+  const channels: StockSubscriptionChannel[] = telegramProfile?.linked ? ["sms", "email", "telegram"] : ["sms", "email"];
+
+  const subscribeMutation = useMutation({
+    mutationFn: async () => {
+      const body: StockSubscriptionInput = channel === "telegram"
+        ? { channel }
+        : { channel, contact: channel === "sms" ? phone : email };
+      await apiRequest("POST", `/api/products/${productId}/stock-subscriptions`, body);
+    },
+    onSuccess: () => {
+      onOpenChange(false);
+      toast({
+        title: "Подписка оформлена",
+        description: `Сообщим, когда «${productName}» снова появится в наличии`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Ошибка", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle className="font-serif text-xl">Сообщить о поступлении</DialogTitle>
+          <DialogDescription>
+            «{productName}» сейчас нет в наличии. Напишем, как только он вернётся.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form
+          className="space-y-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            subscribeMutation.mutate();
+          }}
+        >
+          <ToggleGroup
+            type="single"
+            variant="outline"
+            value={channel}
+            onValueChange={(value) => value && setChannel(value as StockSubscriptionChannel)}
+            className="justify-start"
+          >
+            {channels.map(option => (
+              <ToggleGroupItem key={option} value={option} data-testid={`toggle-restock-channel-${option}`}>
+                {CHANNEL_LABELS[option]}
+              </ToggleGroupItem>
+            ))}
+          </ToggleGroup>
+
+          {channel === "sms" && (
+            <div className="space-y-2">
+              <Label htmlFor="restock-phone">Телефон</Label>
+              <Input
+                id="restock-phone"
+                type="tel"
+                placeholder="+7 900 000-00-00"
+                value={phone}
+                onChange={(e) => setPhone(e.target.value)}
+                data-testid="input-restock-phone"
+              />
+            </div>
+          )}
+          {channel === "email" && (
+            <div className="space-y-2">
+              <Label htmlFor="restock-email">Email</Label>
+              <Input
+                id="restock-email"
+                type="email"
+                placeholder="you@example.com"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                data-testid="input-restock-email"
+              />
+            </div>
+          )}
+          {channel === "telegram" && (
+            <p className="text-sm text-muted-foreground">Уведомление придёт в наш Telegram-бот.</p>
+          )}
+
+          <Button type="submit" className="w-full" disabled={subscribeMutation.isPending} data-testid="button-restock-subscribe">
+            {subscribeMutation.isPending ? "Подписываем..." : "Сообщить мне"}
+          </Button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
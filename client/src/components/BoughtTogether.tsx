@@ -0,0 +1,71 @@
+import { useQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useAbTesting } from "@/hooks/use-ab-testing";
+import type { ProductWithVariants } from "@shared/schema";
+import fallbackImage from "@assets/stock_images/puer_tea_leaves_clos_59389e23.jpg";
+
+interface BoughtTogetherProps {
+  productIds: number[];
+  title: string;
+  onProductClick: (id: number) => void;
+  limit?: number;
+  tone?: "light" | "dark"; // The cart drawer is dark
+  className?: string;
+}
+
+/**
+ * Compact row of products bought together with the given ones (bestsellers when there's no data yet)
+ */
+export default function BoughtTogether({ productIds, title, onProductClick, limit = 4, tone = "light", className = "" }: BoughtTogetherProps) {
+  const { getPriceMultiplier } = useAbTesting();
+  const priceMultiplier = getPriceMultiplier();
+  const idsParam = Array.from(new Set(productIds)).sort((a, b) => a - b).join(",");
+
+  const { data: products = [] } = useQuery<ProductWithVariants[]>({
+    queryKey: ["/api/recommendations/bought-together", idsParam, limit],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/recommendations/bought-together?productIds=${idsParam}&limit=${limit}`);
+      return res.json();
+    },
+    enabled: idsParam.length > 0,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  if (products.length === 0) return null;
+
+  const isDark = tone === "dark";
+
+  return (
+    <div className={className} data-testid="block-bought-together">
+      <h3 className={`font-serif text-lg font-semibold mb-3 ${isDark ? "text-white" : ""}`}>{title}</h3>
+      <div className="grid grid-cols-2 gap-3">
+        {products.map(product => {
+          const isPiece = product.pricingUnit === "piece" || product.category === "teaware";
+          const minPrice = product.variants.length > 0 ? Math.min(...product.variants.map(v => v.price)) : null;
+          const priceText = minPrice !== null
+            ? `от ${Math.round(minPrice * priceMultiplier).toLocaleString("ru-RU")} ₽`
+            : `${Math.round(product.pricePerGram * priceMultiplier)} ₽${isPiece ? "" : "/г"}`;
+          return (
+            <button
+              key={product.id}
+              type="button"
+              onClick={() => onProductClick(product.id)}
+              className={`flex items-center gap-3 rounded-md border p-2 text-left hover-elevate ${isDark ? "border-white/10 bg-white/5" : ""}`}
+              data-testid={`button-bought-together-${product.id}`}
+            >
+              <img
+                src={product.images[0] || fallbackImage}
+                alt={product.name}
+                className="h-12 w-12 shrink-0 rounded object-cover"
+              />
+              <div className="min-w-0">
+                <p className={`text-sm font-medium line-clamp-2 ${isDark ? "text-white" : ""}`}>{product.name}</p>
+                <p className={`text-xs ${isDark ? "text-white/60" : "text-muted-foreground"}`}>{priceText}</p>
+              </div>
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
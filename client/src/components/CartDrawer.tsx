@@ -1,7 +1,12 @@
 import { X, Minus, Plus, Trash2, Gift, Star, Crown, Percent } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
-import { getLoyaltyDiscount, getLoyaltyLevel } from "@shared/loyalty";
+import { getLoyaltyLevel, getLevelXp } from "@shared/loyalty";
+import { getAdjustment } from "@shared/pricing";
+import { formatVolumeDiscountHint } from "@shared/volumeDiscounts";
+import { useCartQuote } from "@/hooks/use-cart-quote";
+import { useLoyaltyLevels } from "@/hooks/use-loyalty-levels";
+import BoughtTogether from "@/components/BoughtTogether";
 
 interface CartItem {
   id: number;
@@ -11,6 +16,9 @@ interface CartItem {
   originalPrice: number;
   quantity: number;
   image: string;
+  variantId?: number | null;
+  variantName?: string | null;
+  step?: number; // Pack size for variant lines
 }
 
 interface UserInfo {
@@ -24,9 +32,10 @@ interface CartDrawerProps {
   isOpen: boolean;
   onClose: () => void;
   items: CartItem[];
-  onUpdateQuantity: (id: number, quantity: number) => void;
-  onRemoveItem: (id: number) => void;
+  onUpdateQuantity: (id: number, quantity: number, variantId?: number | null) => void;
+  onRemoveItem: (id: number, variantId?: number | null) => void;
   onCheckout: () => void;
+  onProductClick?: (id: number) => void;
   user?: UserInfo | null;
 }
 
@@ -37,33 +46,22 @@ export default function CartDrawer({
   onUpdateQuantity, 
   onRemoveItem,
   onCheckout,
+  onProductClick,
   user
 }: CartDrawerProps) {
-  const subtotal = items.reduce((sum, item) => sum + item.price * item.quantity, 0);
-  const originalTotal = items.reduce((sum, item) => sum + item.originalPrice * item.quantity, 0);
-  
-  const bulkDiscountAmount = originalTotal - subtotal;
-  
-  let runningTotal = subtotal;
-  
-  const canGetFirstOrderDiscount = user && !user.firstOrderDiscountUsed;
-  const firstOrderDiscountAmount = canGetFirstOrderDiscount ? runningTotal * 0.20 : 0;
-  if (canGetFirstOrderDiscount) {
-    runningTotal = runningTotal - firstOrderDiscountAmount;
-  }
-  
-  const loyaltyDiscount = (user && user.phoneVerified) ? getLoyaltyDiscount(user.xp) : 0;
-  const loyaltyLevel = user ? getLoyaltyLevel(user.xp) : null;
-  const loyaltyDiscountAmount = (runningTotal * loyaltyDiscount) / 100;
-  runningTotal = runningTotal - loyaltyDiscountAmount;
-  
-  const customDiscount = user?.customDiscount || 0;
-  const customDiscountAmount = (runningTotal * customDiscount) / 100;
-  runningTotal = runningTotal - customDiscountAmount;
-  
-  const finalTotal = Math.max(runningTotal, 0);
-  
-  const hasAnyDiscount = bulkDiscountAmount > 0 || firstOrderDiscountAmount > 0 || loyaltyDiscountAmount > 0 || customDiscountAmount > 0;
+  const { data: quote } = useCartQuote(items, { enabled: isOpen });
+  const { data: loyaltyLevels = [] } = useLoyaltyLevels();
+
+  // Local sums only fill in until the first quote arrives
+  const originalTotal = quote?.listTotal ?? items.reduce((sum, item) => sum + item.originalPrice * item.quantity, 0);
+  const bulkDiscountAmount = quote?.bulkDiscount ?? originalTotal - items.reduce((sum, item) => sum + item.price * item.quantity, 0);
+  const firstOrderDiscount = quote ? getAdjustment(quote, "first_order") : undefined;
+  const loyaltyDiscount = quote ? getAdjustment(quote, "loyalty") : undefined;
+  const customDiscount = quote ? getAdjustment(quote, "custom") : undefined;
+  const loyaltyLevel = user ? getLoyaltyLevel(getLevelXp(user), loyaltyLevels) : null;
+  const finalTotal = quote?.total ?? originalTotal - bulkDiscountAmount;
+
+  const hasAnyDiscount = bulkDiscountAmount > 0 || (quote?.adjustments.length ?? 0) > 0;
 
   if (!isOpen) return null;
 
@@ -97,8 +95,13 @@ export default function CartDrawer({
           <>
             <div className="flex-1 overflow-y-auto p-6">
               <div className="space-y-4">
-                {items.map((item) => (
-                  <Card key={item.id} className="p-4 bg-white/5 border-white/10" data-testid={`cart-item-${item.id}`}>
+                {items.map((item, index) => {
+                  // Variant lines step by pack, custom weights by 25g, teaware by piece
+                  const isPiece = item.variantId ? item.step === 1 : item.category === "teaware";
+                  const step = item.step ?? (isPiece ? 1 : 25);
+                  const nextVolumeDiscount = quote?.lines.find(line => line.index === index)?.nextVolumeDiscount;
+                  return (
+                  <Card key={`${item.id}-${item.variantId ?? 0}`} className="p-4 bg-white/5 border-white/10" data-testid={`cart-item-${item.id}`}>
                     <div className="flex gap-4">
                       <img 
                         src={item.image} 
@@ -108,63 +111,47 @@ export default function CartDrawer({
                       />
                       <div className="flex-1 space-y-2">
                         <h3 className="font-semibold text-sm text-white" data-testid={`text-cart-item-name-${item.id}`}>{item.name}</h3>
+                        {item.variantName && (
+                          <p className="text-xs text-white/60" data-testid={`text-cart-item-variant-${item.id}`}>{item.variantName}</p>
+                        )}
                         <div className="flex items-center gap-2" data-testid={`text-cart-item-price-${item.id}`}>
                           {item.originalPrice && item.price < item.originalPrice && (
                             <span className="text-white/50 line-through text-sm">{Math.round(item.originalPrice * item.quantity)} ₽</span>
                           )}
                           <span className="text-white font-semibold">{Math.round(item.price * item.quantity)} ₽</span>
                         </div>
+                        {nextVolumeDiscount && (
+                          <p className="text-xs text-green-400" data-testid={`text-volume-discount-hint-${item.id}`}>
+                            {formatVolumeDiscountHint(nextVolumeDiscount)}
+                          </p>
+                        )}
                         <div className="flex items-center gap-2">
-                          {item.category === "teaware" ? (
-                            <>
-                              <Button
-                                variant="outline"
-                                size="icon"
-                                className="h-8 w-8 border-white/30 text-white hover:bg-white/10 hover:border-white/50"
-                                onClick={() => onUpdateQuantity(item.id, Math.max(0, item.quantity - 1))}
-                                data-testid={`button-decrease-${item.id}`}
-                              >
-                                <Minus className="w-3 h-3" />
-                              </Button>
-                              <span className="w-16 text-center text-sm text-white" data-testid={`text-quantity-${item.id}`}>{item.quantity} шт</span>
-                              <Button
-                                variant="outline"
-                                size="icon"
-                                className="h-8 w-8 border-white/30 text-white hover:bg-white/10 hover:border-white/50"
-                                onClick={() => onUpdateQuantity(item.id, item.quantity + 1)}
-                                data-testid={`button-increase-${item.id}`}
-                              >
-                                <Plus className="w-3 h-3" />
-                              </Button>
-                            </>
-                          ) : (
-                            <>
-                              <Button
-                                variant="outline"
-                                size="icon"
-                                className="h-8 w-8 border-white/30 text-white hover:bg-white/10 hover:border-white/50"
-                                onClick={() => onUpdateQuantity(item.id, Math.max(0, item.quantity - 25))}
-                                data-testid={`button-decrease-${item.id}`}
-                              >
-                                <Minus className="w-3 h-3" />
-                              </Button>
-                              <span className="w-16 text-center text-sm text-white" data-testid={`text-quantity-${item.id}`}>{item.quantity}г</span>
-                              <Button
-                                variant="outline"
-                                size="icon"
-                                className="h-8 w-8 border-white/30 text-white hover:bg-white/10 hover:border-white/50"
-                                onClick={() => onUpdateQuantity(item.id, item.quantity + 25)}
-                                data-testid={`button-increase-${item.id}`}
-                              >
-                                <Plus className="w-3 h-3" />
-                              </Button>
-                            </>
-                          )}
+                          <Button
+                            variant="outline"
+                            size="icon"
+                            className="h-8 w-8 border-white/30 text-white hover:bg-white/10 hover:border-white/50"
+                            onClick={() => onUpdateQuantity(item.id, Math.max(0, item.quantity - step), item.variantId)}
+                            data-testid={`button-decrease-${item.id}`}
+                          >
+                            <Minus className="w-3 h-3" />
+                          </Button>
+                          <span className="w-16 text-center text-sm text-white" data-testid={`text-quantity-${item.id}`}>
+                            {isPiece ? `${item.quantity} шт` : `${item.quantity}г`}
+                          </span>
+                          <Button
+                            variant="outline"
+                            size="icon"
+                            className="h-8 w-8 border-white/30 text-white hover:bg-white/10 hover:border-white/50"
+                            onClick={() => onUpdateQuantity(item.id, item.quantity + step, item.variantId)}
+                            data-testid={`button-increase-${item.id}`}
+                          >
+                            <Plus className="w-3 h-3" />
+                          </Button>
                           <Button
                             variant="ghost"
                             size="icon"
                             className="h-8 w-8 ml-auto text-white/70 hover:text-white hover:bg-white/10"
-                            onClick={() => onRemoveItem(item.id)}
+                            onClick={() => onRemoveItem(item.id, item.variantId)}
                             data-testid={`button-remove-${item.id}`}
                           >
                             <Trash2 className="w-4 h-4" />
@@ -173,8 +160,19 @@ export default function CartDrawer({
                       </div>
                     </div>
                   </Card>
-                ))}
+                  );
+                })}
               </div>
+
+              {onProductClick && (
+                <BoughtTogether
+                  productIds={items.map(item => item.id)}
+                  title="Добавьте к заказу"
+                  onProductClick={onProductClick}
+                  tone="dark"
+                  className="mt-6"
+                />
+              )}
             </div>
 
             <div className="border-t border-white/10 p-6 space-y-3">
@@ -189,39 +187,39 @@ export default function CartDrawer({
                     <div className="flex items-center justify-between text-sm" data-testid="discount-bulk">
                       <span className="text-green-400 flex items-center gap-1.5">
                         <Percent className="w-3.5 h-3.5" />
-                        При покупке от 100 г
+                        Скидка за объём
                       </span>
                       <span className="text-green-400">−{Math.round(bulkDiscountAmount)} ₽</span>
                     </div>
                   )}
                   
-                  {firstOrderDiscountAmount > 0 && (
+                  {firstOrderDiscount && (
                     <div className="flex items-center justify-between text-sm" data-testid="discount-first-order">
                       <span className="text-amber-400 flex items-center gap-1.5">
                         <Gift className="w-3.5 h-3.5" />
-                        Скидка на первый заказ (20%)
+                        Скидка на первый заказ ({firstOrderDiscount.percent}%)
                       </span>
-                      <span className="text-amber-400">−{Math.round(firstOrderDiscountAmount)} ₽</span>
+                      <span className="text-amber-400">−{Math.round(firstOrderDiscount.amount)} ₽</span>
                     </div>
                   )}
                   
-                  {loyaltyDiscountAmount > 0 && loyaltyLevel && (
+                  {loyaltyDiscount && loyaltyLevel && (
                     <div className="flex items-center justify-between text-sm" data-testid="discount-loyalty">
                       <span className="text-purple-400 flex items-center gap-1.5">
                         <Star className="w-3.5 h-3.5" />
-                        {loyaltyLevel.name} ({loyaltyDiscount}%)
+                        {loyaltyLevel.name} ({loyaltyDiscount.percent}%)
                       </span>
-                      <span className="text-purple-400">−{Math.round(loyaltyDiscountAmount)} ₽</span>
+                      <span className="text-purple-400">−{Math.round(loyaltyDiscount.amount)} ₽</span>
                     </div>
                   )}
                   
-                  {customDiscountAmount > 0 && (
+                  {customDiscount && (
                     <div className="flex items-center justify-between text-sm" data-testid="discount-custom">
                       <span className="text-cyan-400 flex items-center gap-1.5">
                         <Crown className="w-3.5 h-3.5" />
-                        Персональная скидка ({customDiscount}%)
+                        Персональная скидка ({customDiscount.percent}%)
                       </span>
-                      <span className="text-cyan-400">−{Math.round(customDiscountAmount)} ₽</span>
+                      <span className="text-cyan-400">−{Math.round(customDiscount.amount)} ₽</span>
                     </div>
                   )}
                 </div>
@@ -1,25 +1,40 @@
-import { useEffect, useRef, useState } from "react";
+import { useEffect, useMemo, useRef, useState } from "react";
 import { Button } from "@/components/ui/button";
+import { buildCategoryTree, flattenCategoryTree, getCategoryPath } from "@shared/categories";
+import type { Category } from "@shared/schema";
 
 interface CategoryNavigationProps {
-  activeCategory: string;
-  onCategoryChange: (category: string) => void;
-  hasTeaware: boolean;
+  categories: Category[];
+  // Categories with at least one product in their subtree; the rest are hidden
+  populatedCategoryIds: Set<number>;
+  activeCategoryId: number | null;
+  onCategoryChange: (categoryId: number | null) => void;
 }
 
 export default function CategoryNavigation({ 
-  activeCategory, 
+  categories: allCategories,
+  populatedCategoryIds,
+  activeCategoryId, 
   onCategoryChange,
-  hasTeaware 
 }: CategoryNavigationProps) {
   const [canScrollLeft, setCanScrollLeft] = useState(false);
   const [canScrollRight, setCanScrollRight] = useState(false);
   const scrollContainerRef = useRef<HTMLDivElement>(null);
 
+  const tree = useMemo(() => buildCategoryTree(allCategories.filter(c => populatedCategoryIds.has(c.id))), [allCategories, populatedCategoryIds]);
+  const activePath = useMemo(() => getCategoryPath(allCategories, activeCategoryId), [allCategories, activeCategoryId]);
+
   const categories = [
-    { id: "all", label: "ВСЕ" },
-    { id: "teaware", label: "ЧАЙНАЯ ПОСУДА", show: hasTeaware },
-  ].filter(cat => cat.show !== false);
+    { id: null, label: "ВСЕ" },
+    ...tree.map(category => ({ id: category.id, label: category.name.toUpperCase() })),
+  ];
+
+  // One row of subcategories per selected level: Чай → Пуэр → Шу
+  const nodesById = new Map(flattenCategoryTree(tree).map(({ category }) => [category.id, category]));
+  const subcategoryRows = activePath
+    .map(category => nodesById.get(category.id)?.children ?? [])
+    .filter(row => row.length > 0);
+  const activeIds = new Set(activePath.map(c => c.id));
 
   const updateScrollButtons = () => {
     const container = scrollContainerRef.current;
@@ -42,7 +57,7 @@ export default function CategoryNavigation({
         window.removeEventListener("resize", updateScrollButtons);
       };
     }
-  }, [hasTeaware]);
+  }, [tree.length]);
 
   const scroll = (direction: "left" | "right") => {
     const container = scrollContainerRef.current;
@@ -75,22 +90,25 @@ export default function CategoryNavigation({
           className="flex gap-2 overflow-x-auto scrollbar-hide scroll-smooth px-8 md:px-0"
           style={{ scrollbarWidth: "none", msOverflowStyle: "none" }}
         >
-          {categories.map((category) => (
+          {categories.map((category) => {
+            const isActive = category.id === null ? activeCategoryId === null : activeIds.has(category.id);
+            return (
             <Button
-              key={category.id}
-              variant={activeCategory === category.id ? "default" : "outline"}
+              key={category.id ?? "all"}
+              variant={isActive ? "default" : "outline"}
               size="sm"
               onClick={() => onCategoryChange(category.id)}
               className={`whitespace-nowrap font-medium ${
-                activeCategory === category.id
+                isActive
                   ? "bg-primary text-primary-foreground"
                   : ""
               }`}
-              data-testid={`button-category-${category.id}`}
+              data-testid={`button-category-${category.id ?? "all"}`}
             >
               {category.label}
             </Button>
-          ))}
+            );
+          })}
         </div>
 
         {canScrollRight && (
@@ -105,6 +123,23 @@ export default function CategoryNavigation({
           </Button>
         )}
       </div>
+
+      {subcategoryRows.map((row, index) => (
+        <div key={index} className="flex flex-wrap gap-2 mt-2 px-8 md:px-0">
+          {row.map(category => (
+            <Button
+              key={category.id}
+              variant={activeIds.has(category.id) ? "secondary" : "ghost"}
+              size="sm"
+              onClick={() => onCategoryChange(activeCategoryId === category.id ? category.parentId : category.id)}
+              className="whitespace-nowrap"
+              data-testid={`button-subcategory-${category.id}`}
+            >
+              {category.name}
+            </Button>
+          ))}
+        </div>
+      ))}
     </div>
   );
 }
@@ -1,8 +1,8 @@
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import { useEffect } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import {
   Form,
@@ -17,12 +17,15 @@ import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Checkbox } from "@/components/ui/checkbox";
-import { getLoyaltyDiscount } from "@shared/loyalty";
+import { Slider } from "@/components/ui/slider";
+import { getAdjustment, type PriceQuote } from "@shared/pricing";
+import { useCartQuote } from "@/hooks/use-cart-quote";
 import { Separator } from "@/components/ui/separator";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Card } from "@/components/ui/card";
-import { AlertCircle, Mail, Phone, MessageCircle, Truck, UserCircle } from "lucide-react";
-import type { SiteSettings, SavedAddress } from "@shared/schema";
+import { AlertCircle, Mail, Phone, MessageCircle, Truck, UserCircle, Ticket, Wallet, Star, X } from "lucide-react";
+import type { SiteSettings, SavedAddress, CartQuoteRequest } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
 import { Link } from "wouter";
 import { useToast } from "@/hooks/use-toast";
 
@@ -35,13 +38,14 @@ const checkoutSchema = z.object({
   saveAddress: z.boolean().optional(),
 });
 
-type CheckoutFormValues = z.infer<typeof checkoutSchema>;
+type CheckoutFormValues = z.infer<typeof checkoutSchema> & { promoCode?: string; useWallet?: boolean; xpPoints?: number };
 
 interface CheckoutFormProps {
   onSubmit: (data: CheckoutFormValues) => void;
   onCancel: () => void;
   isSubmitting?: boolean;
   total: number;
+  items: CartQuoteRequest["items"];
   user?: {
     email: string | null;
     name?: string | null;
@@ -53,23 +57,35 @@ interface CheckoutFormProps {
   } | null;
 }
 
-export default function CheckoutForm({ onSubmit, onCancel, isSubmitting, total, user }: CheckoutFormProps) {
+export default function CheckoutForm({ onSubmit, onCancel, isSubmitting, total, items, user }: CheckoutFormProps) {
   const { toast } = useToast();
-  
-  // First order discount (20% if user hasn't used it yet)
-  const firstOrderDiscount = (user && !user.firstOrderDiscountUsed) ? 20 : 0;
-  const firstOrderDiscountAmount = (total * firstOrderDiscount) / 100;
-  
-  // Loyalty discount (only if user is verified)
-  const loyaltyDiscount = (user && user.phoneVerified) ? getLoyaltyDiscount(user.xp) : 0;
-  const loyaltyDiscountAmount = ((total - firstOrderDiscountAmount) * loyaltyDiscount) / 100;
-  
-  // Custom discount (individual discount from admin)
-  const customDiscount = user?.customDiscount || 0;
-  const customDiscountAmount = ((total - firstOrderDiscountAmount - loyaltyDiscountAmount) * customDiscount) / 100;
-  
-  // Calculate final total (clamp to zero to prevent negative totals)
-  const finalTotal = Math.max(total - firstOrderDiscountAmount - loyaltyDiscountAmount - customDiscountAmount, 0);
+  const [promoInput, setPromoInput] = useState("");
+  const [appliedPromoCode, setAppliedPromoCode] = useState<string | null>(null);
+  const [useWallet, setUseWallet] = useState(false);
+  // The slider position while dragging; the quote is requested only once it's released
+  const [xpPointsDraft, setXpPointsDraft] = useState(0);
+  const [xpPoints, setXpPoints] = useState(0);
+
+  // Totals come from the server's pricing engine, the same one that prices the order
+  const { data: quote } = useCartQuote(items, { promoCode: appliedPromoCode ?? undefined, xpPoints });
+  const subtotal = quote?.subtotal ?? total;
+  const finalTotal = quote?.total ?? total;
+  const promoDiscount = quote ? getAdjustment(quote, "promo") : undefined;
+  const firstOrderDiscount = quote ? getAdjustment(quote, "first_order") : undefined;
+  const loyaltyDiscount = quote ? getAdjustment(quote, "loyalty") : undefined;
+  const customDiscount = quote ? getAdjustment(quote, "custom") : undefined;
+  const xpPointsDiscount = quote ? getAdjustment(quote, "xp_points") : undefined;
+  const xpPointsOffer = quote?.xpPoints ?? null;
+  const hasDiscounts = (quote?.adjustments.length ?? 0) > 0;
+
+  // Wallet balance in kopecks; the server takes up to the order total from it
+  const { data: wallet } = useQuery<{ balance: number }>({
+    queryKey: ['/api/wallet'],
+    enabled: !!user,
+  });
+  const walletBalance = wallet?.balance ?? 0;
+  const walletPart = useWallet ? Math.min(walletBalance / 100, finalTotal) : 0;
+  const cardPart = finalTotal - walletPart;
   
   // Fetch site settings for contact info
   const { data: siteSettings } = useQuery<SiteSettings>({
@@ -114,6 +130,26 @@ export default function CheckoutForm({ onSubmit, onCancel, isSubmitting, total,
     },
   });
 
+  // A trial quote with the code, so a code that doesn't apply is never shown as applied
+  const promoMutation = useMutation({
+    mutationFn: async (code: string) => {
+      const body: CartQuoteRequest = { items, promoCode: code, phone: form.getValues("phone") || undefined };
+      const res = await apiRequest("POST", "/api/cart/quote", body);
+      return res.json() as Promise<PriceQuote>;
+    },
+    onSuccess: (trial) => {
+      if (!trial.promo) {
+        toast({ title: "Промокод не применён", description: trial.promoError ?? undefined, variant: "destructive" });
+        return;
+      }
+      setAppliedPromoCode(trial.promo.code);
+      setPromoInput(trial.promo.code);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Промокод не применён", description: error.message, variant: "destructive" });
+    },
+  });
+
   // Update address field when saved addresses are loaded
   useEffect(() => {
     if (defaultAddress && !form.getValues('address')) {
@@ -123,7 +159,7 @@ export default function CheckoutForm({ onSubmit, onCancel, isSubmitting, total,
 
   return (
     <Form {...form}>
-      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+      <form onSubmit={form.handleSubmit((data) => onSubmit({ ...data, promoCode: appliedPromoCode ?? undefined, useWallet: walletPart > 0, xpPoints: xpPointsDiscount?.xp || undefined }))} className="space-y-6">
         {/* Show warning if user is not verified */}
         {user && !user.phoneVerified && (
           <Alert>
@@ -367,39 +403,157 @@ export default function CheckoutForm({ onSubmit, onCancel, isSubmitting, total,
           </Card>
         )}
 
+        {/* Promo code */}
+        <div className="space-y-2">
+          <label htmlFor="promo-code" className="text-sm font-medium">Промокод</label>
+          <div className="flex gap-2">
+            <Input
+              id="promo-code"
+              value={promoInput}
+              onChange={(e) => setPromoInput(e.target.value.toUpperCase())}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") {
+                  e.preventDefault();
+                  if (promoInput.trim()) promoMutation.mutate(promoInput.trim());
+                }
+              }}
+              placeholder="Если есть"
+              className="font-mono"
+              disabled={!!appliedPromoCode}
+              data-testid="input-promo-code"
+            />
+            {appliedPromoCode ? (
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => {
+                  setAppliedPromoCode(null);
+                  setPromoInput("");
+                }}
+                data-testid="button-remove-promo-code"
+              >
+                <X className="w-4 h-4 mr-1" />
+                Убрать
+              </Button>
+            ) : (
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => promoMutation.mutate(promoInput.trim())}
+                disabled={!promoInput.trim() || promoMutation.isPending}
+                data-testid="button-apply-promo-code"
+              >
+                {promoMutation.isPending ? "Проверка..." : "Применить"}
+              </Button>
+            )}
+          </div>
+          {quote?.promo && (
+            <p className="text-sm text-muted-foreground" data-testid="text-promo-code-info">
+              {quote.promo.description || "Промокод применён"}
+              {!quote.promo.stackWithLoyalty && " · не суммируется со скидкой лояльности"}
+            </p>
+          )}
+          {/* The cart changed after the code was applied */}
+          {appliedPromoCode && quote?.promoError && (
+            <p className="text-sm text-destructive" data-testid="text-promo-code-error">
+              {quote.promoError}
+            </p>
+          )}
+        </div>
+
+        {/* Loyalty XP spent as points */}
+        {xpPointsOffer && (
+          <div className="space-y-3 rounded-md border p-3" data-testid="xp-points">
+            <div className="flex items-center justify-between gap-2 text-sm">
+              <span className="flex items-center gap-2">
+                <Star className="w-4 h-4 text-muted-foreground" />
+                Списать баллы
+              </span>
+              <span className="font-medium" data-testid="text-xp-points-selected">
+                {xpPointsDraft.toLocaleString("ru-RU")} XP = {Math.floor(xpPointsDraft / xpPointsOffer.xpPerRuble).toLocaleString("ru-RU")} ₽
+              </span>
+            </div>
+            <Slider
+              value={[Math.min(xpPointsDraft, xpPointsOffer.maxPoints)]}
+              max={xpPointsOffer.maxPoints}
+              step={xpPointsOffer.xpPerRuble}
+              onValueChange={([value]) => setXpPointsDraft(value)}
+              onValueCommit={([value]) => setXpPoints(value)}
+              data-testid="slider-xp-points"
+            />
+            <p className="text-xs text-muted-foreground">
+              {xpPointsOffer.xpPerRuble} XP = 1 ₽, можно списать до {xpPointsOffer.maxPoints.toLocaleString("ru-RU")} XP. Списанные баллы уменьшают ваш XP.
+            </p>
+          </div>
+        )}
+
+        {/* Wallet balance */}
+        {walletBalance > 0 && (
+          <label className="flex items-center gap-3 rounded-md border p-3 cursor-pointer" data-testid="label-use-wallet">
+            <Checkbox
+              checked={useWallet}
+              onCheckedChange={(checked) => setUseWallet(checked === true)}
+              data-testid="checkbox-use-wallet"
+            />
+            <Wallet className="w-4 h-4 text-muted-foreground" />
+            <span className="text-sm">
+              Оплатить с баланса <span className="text-muted-foreground">(доступно {(walletBalance / 100).toLocaleString("ru-RU")} ₽)</span>
+            </span>
+          </label>
+        )}
+
         {/* Order Summary */}
         <div className="space-y-2 pt-4">
           <Separator />
           <div className="space-y-2 py-3">
             <div className="flex justify-between text-sm">
               <span className="text-muted-foreground">Сумма заказа:</span>
-              <span data-testid="text-order-subtotal">{Math.round(total)} ₽</span>
+              <span data-testid="text-order-subtotal">{Math.round(subtotal)} ₽</span>
             </div>
-            {firstOrderDiscount > 0 && (
+            {promoDiscount && quote?.promo && (
+              <div className="flex justify-between text-sm">
+                <span className="text-primary font-medium flex items-center gap-1">
+                  <Ticket className="w-4 h-4" />
+                  Промокод {quote.promo.code}:
+                </span>
+                <span className="text-primary font-medium" data-testid="text-promo-discount">
+                  -{Math.round(promoDiscount.amount)} ₽
+                </span>
+              </div>
+            )}
+            {firstOrderDiscount && (
               <div className="flex justify-between text-sm">
-                <span className="text-amber-600 font-medium">Скидка на первый заказ (-20%):</span>
+                <span className="text-amber-600 font-medium">Скидка на первый заказ (-{firstOrderDiscount.percent}%):</span>
                 <span className="text-amber-600 font-medium" data-testid="text-first-order-discount">
-                  -{Math.round(firstOrderDiscountAmount)} ₽
+                  -{Math.round(firstOrderDiscount.amount)} ₽
                 </span>
               </div>
             )}
-            {loyaltyDiscount > 0 && (
+            {loyaltyDiscount && (
               <div className="flex justify-between text-sm">
-                <span className="text-muted-foreground">Скидка программы лояльности ({loyaltyDiscount}%):</span>
+                <span className="text-muted-foreground">Скидка программы лояльности ({loyaltyDiscount.percent}%):</span>
                 <span className="text-green-600" data-testid="text-loyalty-discount">
-                  -{Math.round(loyaltyDiscountAmount)} ₽
+                  -{Math.round(loyaltyDiscount.amount)} ₽
                 </span>
               </div>
             )}
-            {customDiscount > 0 && (
+            {customDiscount && (
               <div className="flex justify-between text-sm">
-                <span className="text-purple-600 font-medium">Индивидуальная скидка ({customDiscount}%):</span>
+                <span className="text-purple-600 font-medium">Индивидуальная скидка ({customDiscount.percent}%):</span>
                 <span className="text-purple-600 font-medium" data-testid="text-custom-discount">
-                  -{Math.round(customDiscountAmount)} ₽
+                  -{Math.round(customDiscount.amount)} ₽
                 </span>
               </div>
             )}
-            {(firstOrderDiscount > 0 || loyaltyDiscount > 0 || customDiscount > 0) && (
+            {xpPointsDiscount && (
+              <div className="flex justify-between text-sm">
+                <span className="text-muted-foreground">Баллы ({xpPointsDiscount.xp?.toLocaleString("ru-RU")} XP):</span>
+                <span className="text-green-600" data-testid="text-xp-points-discount">
+                  -{Math.round(xpPointsDiscount.amount)} ₽
+                </span>
+              </div>
+            )}
+            {hasDiscounts && (
               <>
                 <Separator />
                 <div className="flex justify-between font-semibold">
@@ -408,12 +562,24 @@ export default function CheckoutForm({ onSubmit, onCancel, isSubmitting, total,
                 </div>
               </>
             )}
-            {firstOrderDiscount === 0 && loyaltyDiscount === 0 && customDiscount === 0 && (
+            {!hasDiscounts && (
               <div className="flex justify-between font-semibold">
                 <span>Итого:</span>
-                <span data-testid="text-total">{Math.round(total)} ₽</span>
+                <span data-testid="text-total">{Math.round(finalTotal)} ₽</span>
               </div>
             )}
+            {walletPart > 0 && (
+              <>
+                <div className="flex justify-between text-sm">
+                  <span className="text-muted-foreground">С баланса:</span>
+                  <span data-testid="text-wallet-part">-{walletPart.toLocaleString("ru-RU")} ₽</span>
+                </div>
+                <div className="flex justify-between font-semibold">
+                  <span>Картой:</span>
+                  <span data-testid="text-card-part">{Math.round(cardPart)} ₽</span>
+                </div>
+              </>
+            )}
           </div>
           <Separator />
         </div>
@@ -435,7 +601,7 @@ export default function CheckoutForm({ onSubmit, onCancel, isSubmitting, total,
             disabled={isSubmitting}
             data-testid="button-submit-order"
           >
-            {isSubmitting ? "Отправка..." : "Оформить заказ"}
+            {isSubmitting ? "Отправка..." : cardPart <= 0 && walletPart > 0 ? "Оплатить с баланса" : "Оформить заказ"}
           </Button>
         </div>
       </form>
@@ -0,0 +1,32 @@
+import { Heart } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useFavorites } from "@/hooks/use-favorites";
+
+interface FavoriteButtonProps {
+  productId: number;
+  className?: string;
+}
+
+export default function FavoriteButton({ productId, className = "" }: FavoriteButtonProps) {
+  const { isFavorite, toggleFavorite } = useFavorites();
+  const active = isFavorite(productId);
+
+  return (
+    <Button
+      variant="ghost"
+      size="icon"
+      className={className}
+      onClick={(e) => {
+        // Cards open the product on click
+        e.stopPropagation();
+        toggleFavorite(productId);
+      }}
+      aria-pressed={active}
+      aria-label={active ? "Убрать из избранного" : "В избранное"}
+      title={active ? "Убрать из избранного" : "В избранное"}
+      data-testid={`button-favorite-${productId}`}
+    >
+      <Heart className={`w-4 h-4 ${active ? "fill-red-500 text-red-500" : ""}`} />
+    </Button>
+  );
+}
@@ -0,0 +1,21 @@
+import { Fragment } from "react";
+
+interface HighlightedTextProps {
+  text: string; // Search headline with matches wrapped in <mark></mark>
+}
+
+// Renders server search highlights as React nodes, so the rest of the text is never parsed as HTML
+export default function HighlightedText({ text }: HighlightedTextProps) {
+  const parts = text.split(/<mark>|<\/mark>/);
+  return (
+    <>
+      {parts.map((part, index) =>
+        index % 2 === 1 ? (
+          <mark key={index} className="bg-primary/15 text-inherit rounded-sm px-0.5">{part}</mark>
+        ) : (
+          <Fragment key={index}>{part}</Fragment>
+        )
+      )}
+    </>
+  );
+}
@@ -1,5 +1,8 @@
-import { type InfoBanner as InfoBannerType, type BannerButton, type BannerWidthVariant, type BannerHeightVariant } from "@shared/schema";
+import { useEffect, useState } from "react";
+import { type PublicInfoBanner as InfoBannerType, type BannerButton, type BannerWidthVariant, type BannerHeightVariant } from "@shared/schema";
+import { formatSaleCountdown } from "@shared/sales";
 import { Button } from "@/components/ui/button";
+import { queryClient } from "@/lib/queryClient";
 import * as LucideIcons from "lucide-react";
 
 interface InfoBannerProps {
@@ -40,7 +43,32 @@ const getDescriptionClasses = (heightVariant: BannerHeightVariant): string => {
   }
 };
 
+// Ticks every second; when time is up, reloads banners and prices, which drop the finished sale
+function useCountdown(countdownTo: string | null | undefined): string {
+  const [text, setText] = useState(() => (countdownTo ? formatSaleCountdown(countdownTo) : ""));
+
+  useEffect(() => {
+    if (!countdownTo) return;
+    const tick = () => {
+      const next = formatSaleCountdown(countdownTo);
+      setText(next);
+      if (!next) {
+        clearInterval(timer);
+        queryClient.invalidateQueries({ queryKey: ["/api/banners"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+      }
+    };
+    const timer = setInterval(tick, 1000);
+    tick();
+    return () => clearInterval(timer);
+  }, [countdownTo]);
+
+  return text;
+}
+
 export default function InfoBanner({ banner, onButtonClick }: InfoBannerProps) {
+  const countdown = useCountdown(banner.countdownTo);
+
   let buttons: BannerButton[] = [];
   try {
     buttons = banner.buttons ? JSON.parse(banner.buttons) : [];
@@ -95,6 +123,15 @@ export default function InfoBanner({ banner, onButtonClick }: InfoBannerProps) {
         {banner.description}
       </p>
 
+      {countdown && (
+        <p
+          className={`mt-3 font-mono font-semibold tabular-nums ${heightVariant === "compact" ? "text-base" : "text-lg md:text-xl"}`}
+          data-testid={`banner-countdown-${banner.id}`}
+        >
+          До конца акции: {countdown}
+        </p>
+      )}
+
       {buttons.length > 0 && (
         <div className={`flex flex-wrap gap-3 ${heightVariant === "compact" ? "mt-3" : heightVariant === "tall" ? "mt-8" : "mt-6"}`}>
           {buttons.map((btn, index) => (
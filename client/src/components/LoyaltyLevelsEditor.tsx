@@ -0,0 +1,165 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Plus, X, Trash2 } from "lucide-react";
+import type { LoyaltyLevelInput } from "@shared/schema";
+
+interface LoyaltyLevelsEditorProps {
+  value: LoyaltyLevelInput[];
+  onChange: (value: LoyaltyLevelInput[]) => void;
+}
+
+// Levels are saved in any order; customers see them sorted by threshold
+export default function LoyaltyLevelsEditor({ value, onChange }: LoyaltyLevelsEditorProps) {
+  const updateLevel = (index: number, patch: Partial<LoyaltyLevelInput>) => {
+    onChange(value.map((level, i) => (i === index ? { ...level, ...patch } : level)));
+  };
+
+  const updatePerk = (index: number, perkIndex: number, perk: string) => {
+    updateLevel(index, { perks: value[index].perks.map((p, i) => (i === perkIndex ? perk : p)) });
+  };
+
+  const addLevel = () => {
+    const top = value.reduce<LoyaltyLevelInput | null>((max, level) => (!max || level.minXP > max.minXP ? level : max), null);
+    onChange([
+      ...value,
+      {
+        name: "",
+        minXP: top ? top.minXP * 2 || 1000 : 0,
+        discount: top ? Math.min(100, top.discount + 5) : 0,
+        color: "#6B7280",
+        icon: "🏆",
+        perks: [],
+      },
+    ]);
+  };
+
+  return (
+    <div className="space-y-4">
+      {value.map((level, index) => (
+        <div key={index} className="border rounded-lg p-4 space-y-4 bg-muted/30" data-testid={`loyalty-level-${index}`}>
+          <div className="flex items-end gap-2">
+            <div className="space-y-2 w-16">
+              <Label htmlFor={`loyaltyLevelIcon${index}`}>Значок</Label>
+              <Input
+                id={`loyaltyLevelIcon${index}`}
+                value={level.icon}
+                onChange={(e) => updateLevel(index, { icon: e.target.value })}
+                className="text-center"
+                data-testid={`input-loyalty-level-icon-${index}`}
+              />
+            </div>
+            <div className="space-y-2 flex-1">
+              <Label htmlFor={`loyaltyLevelName${index}`}>Название</Label>
+              <Input
+                id={`loyaltyLevelName${index}`}
+                value={level.name}
+                onChange={(e) => updateLevel(index, { name: e.target.value })}
+                placeholder="Например, Ценитель"
+                data-testid={`input-loyalty-level-name-${index}`}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor={`loyaltyLevelColor${index}`}>Цвет</Label>
+              <Input
+                id={`loyaltyLevelColor${index}`}
+                type="color"
+                value={level.color}
+                onChange={(e) => updateLevel(index, { color: e.target.value })}
+                className="w-14 p-1"
+                data-testid={`input-loyalty-level-color-${index}`}
+              />
+            </div>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              onClick={() => onChange(value.filter((_, i) => i !== index))}
+              disabled={value.length <= 1}
+              data-testid={`button-remove-loyalty-level-${index}`}
+            >
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor={`loyaltyLevelMinXP${index}`}>Минимум XP</Label>
+              <Input
+                id={`loyaltyLevelMinXP${index}`}
+                type="number"
+                min={0}
+                value={level.minXP}
+                onChange={(e) => updateLevel(index, { minXP: parseInt(e.target.value) || 0 })}
+                data-testid={`input-loyalty-level-min-xp-${index}`}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor={`loyaltyLevelDiscount${index}`}>Скидка (%)</Label>
+              <Input
+                id={`loyaltyLevelDiscount${index}`}
+                type="number"
+                min={0}
+                max={100}
+                value={level.discount}
+                onChange={(e) => updateLevel(index, { discount: parseInt(e.target.value) || 0 })}
+                data-testid={`input-loyalty-level-discount-${index}`}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Дополнительные бонусы</Label>
+            {level.perks.map((perk, perkIndex) => (
+              <div key={perkIndex} className="flex gap-2">
+                <Input
+                  value={perk}
+                  onChange={(e) => updatePerk(index, perkIndex, e.target.value)}
+                  placeholder="Описание бонуса"
+                  data-testid={`input-loyalty-level-${index}-perk-${perkIndex}`}
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => updateLevel(index, { perks: level.perks.filter((_, i) => i !== perkIndex) })}
+                  data-testid={`button-remove-loyalty-level-${index}-perk-${perkIndex}`}
+                >
+                  <X className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => updateLevel(index, { perks: [...level.perks, ""] })}
+              disabled={level.perks.length >= 10}
+              data-testid={`button-add-loyalty-level-${index}-perk`}
+            >
+              <Plus className="w-4 h-4 mr-1" />
+              Добавить бонус
+            </Button>
+          </div>
+        </div>
+      ))}
+
+      <div className="flex flex-wrap items-center gap-3">
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={addLevel}
+          disabled={value.length >= 10}
+          data-testid="button-add-loyalty-level"
+        >
+          <Plus className="w-4 h-4 mr-1" />
+          Добавить уровень
+        </Button>
+        <p className="text-sm text-muted-foreground">
+          Начальный уровень должен начинаться с 0 XP; скидка уровня указывается отдельно от бонусов.
+        </p>
+      </div>
+    </div>
+  );
+}
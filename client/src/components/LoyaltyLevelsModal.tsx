@@ -1,12 +1,14 @@
 import { useQuery } from "@tanstack/react-query";
 import type { SiteSettings } from "@shared/schema";
+import { getLoyaltyBenefits } from "@shared/loyalty";
+import { useLoyaltyLevels } from "@/hooks/use-loyalty-levels";
 import {
   Dialog,
   DialogContent,
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/dialog";
-import { Trophy, Check, Lock } from "lucide-react";
+import { Check, Lock } from "lucide-react";
 import { Separator } from "@/components/ui/separator";
 
 interface LoyaltyLevelsModalProps {
@@ -21,57 +23,7 @@ export function LoyaltyLevelsModal({ open, onOpenChange, currentXP }: LoyaltyLev
     enabled: open,
   });
 
-  const getLevels = () => {
-    const level2MinXP = settings?.loyaltyLevel2MinXP ?? 3000;
-    const level3MinXP = settings?.loyaltyLevel3MinXP ?? 7000;
-    const level4MinXP = settings?.loyaltyLevel4MinXP ?? 15000;
-    
-    const level2Discount = settings?.loyaltyLevel2Discount ?? 5;
-    const level3Discount = settings?.loyaltyLevel3Discount ?? 10;
-    const level4Discount = settings?.loyaltyLevel4Discount ?? 15;
-    
-    const level1Perks = settings?.loyaltyLevel1Perks ?? ["Доступ к базовому каталогу"];
-    const level2Perks = settings?.loyaltyLevel2Perks ?? ["Доступ к базовому каталогу"];
-    const level3Perks = settings?.loyaltyLevel3Perks ?? ["Персональный чат с консультациями", "Приглашения на закрытые чайные вечеринки", "Возможность запросить любой чай"];
-    const level4Perks = settings?.loyaltyLevel4Perks ?? ["Все привилегии уровня 3", "Приоритетное обслуживание", "Эксклюзивные предложения"];
-
-    return [
-      {
-        level: 1,
-        name: "Новичок",
-        minXP: 0,
-        maxXP: level2MinXP - 1,
-        discount: 0,
-        benefits: level1Perks,
-      },
-      {
-        level: 2,
-        name: "Ценитель",
-        minXP: level2MinXP,
-        maxXP: level3MinXP - 1,
-        discount: level2Discount,
-        benefits: [`Скидка ${level2Discount}% на все покупки`, ...level2Perks],
-      },
-      {
-        level: 3,
-        name: "Чайный мастер",
-        minXP: level3MinXP,
-        maxXP: level4MinXP - 1,
-        discount: level3Discount,
-        benefits: [`Скидка ${level3Discount}% на все покупки`, ...level3Perks],
-      },
-      {
-        level: 4,
-        name: "Чайный Гуру",
-        minXP: level4MinXP,
-        maxXP: null as number | null,
-        discount: level4Discount,
-        benefits: [`Скидка ${level4Discount}% на все покупки`, ...level4Perks],
-      },
-    ];
-  };
-
-  const levels = getLevels();
+  const { data: levels = [] } = useLoyaltyLevels();
   const xpMultiplier = settings?.xpMultiplier ?? 1;
 
   return (
@@ -94,9 +46,12 @@ export function LoyaltyLevelsModal({ open, onOpenChange, currentXP }: LoyaltyLev
                   data-testid={`card-level-${level.level}`}
                 >
                   <div className="flex items-start gap-2 mb-2">
-                    <div className="w-8 h-8 rounded border-2 border-border bg-background flex items-center justify-center flex-shrink-0">
+                    <div
+                      className="w-8 h-8 rounded border-2 border-border bg-background flex items-center justify-center flex-shrink-0"
+                      style={isUnlocked ? { borderColor: level.color } : undefined}
+                    >
                       {isUnlocked ? (
-                        <Trophy className="w-4 h-4" />
+                        <span className="text-base leading-none">{level.icon}</span>
                       ) : (
                         <Lock className="w-4 h-4 text-muted-foreground" />
                       )}
@@ -134,7 +89,7 @@ export function LoyaltyLevelsModal({ open, onOpenChange, currentXP }: LoyaltyLev
                   )}
                   
                   <ul className="space-y-1">
-                    {level.benefits.map((benefit, benefitIndex) => (
+                    {getLoyaltyBenefits(level).map((benefit, benefitIndex) => (
                       <li 
                         key={benefitIndex} 
                         className="flex items-start gap-1.5 text-xs"
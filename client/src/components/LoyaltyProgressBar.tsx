@@ -1,7 +1,8 @@
 import { getLoyaltyProgress } from "@shared/loyalty";
+import { useLoyaltyLevels } from "@/hooks/use-loyalty-levels";
 import { Progress } from "@/components/ui/progress";
 import { Card } from "@/components/ui/card";
-import { Trophy, ChevronRight } from "lucide-react";
+import { ChevronRight } from "lucide-react";
 
 interface LoyaltyProgressBarProps {
   xp: number;
@@ -9,7 +10,11 @@ interface LoyaltyProgressBarProps {
 }
 
 export function LoyaltyProgressBar({ xp, onClick }: LoyaltyProgressBarProps) {
-  const progress = getLoyaltyProgress(xp);
+  const { data: levels } = useLoyaltyLevels();
+
+  if (!levels) return null;
+
+  const progress = getLoyaltyProgress(xp, levels);
   const { currentLevel, nextLevel, progressPercentage, xpToNextLevel } = progress;
 
   return (
@@ -23,7 +28,7 @@ export function LoyaltyProgressBar({ xp, onClick }: LoyaltyProgressBarProps) {
           className="w-10 h-10 rounded flex items-center justify-center flex-shrink-0"
           style={{ backgroundColor: currentLevel.color }}
         >
-          <Trophy className="w-5 h-5 text-white" />
+          <span className="text-xl leading-none" data-testid="text-current-level-icon">{currentLevel.icon}</span>
         </div>
         
         <div className="flex-1 min-w-0">
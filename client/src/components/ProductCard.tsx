@@ -1,20 +1,36 @@
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { ShoppingCart, ChevronLeft, ChevronRight, Minus, Plus } from "lucide-react";
+import { ShoppingCart, ChevronLeft, ChevronRight, Minus, Plus, Star, Bell } from "lucide-react";
 import { getTeaTypeBadgeStyleDynamic } from "@/lib/tea-colors";
 import { useState, useEffect, useMemo } from "react";
 import { useLocation } from "wouter";
 import fallbackImage from "@assets/stock_images/puer_tea_leaves_clos_59389e23.jpg";
 import { useTeaTypes } from "@/hooks/use-tea-types";
 import { useAbTesting } from "@/hooks/use-ab-testing";
+import { useProductRatings } from "@/hooks/use-product-ratings";
+import HighlightedText from "@/components/HighlightedText";
+import BackInStockDialog from "@/components/BackInStockDialog";
+import FavoriteButton from "@/components/FavoriteButton";
+import type { ProductVariant, ProductSearchHighlight, ProductSale } from "@shared/schema";
+import { getVariantUnitPrice, getVariantStep, getDefaultVariant, sortVariants, isVariantInStock, getLegacyUnitPrice } from "@shared/variants";
+import { getVolumeDiscountPercent, type VolumeDiscountTier } from "@shared/volumeDiscounts";
+import { useVolumeDiscounts } from "@/hooks/use-volume-discounts";
+
+// One cart line of this product (variantId is null for legacy custom-weight lines)
+export interface CartLineInfo {
+  variantId: number | null;
+  quantity: number;
+}
 
 interface ProductCardProps {
   id: number;
   name: string;
   category?: string;
+  categoryId?: number | null;
   pricingUnit?: string; // "gram" or "piece"
   pricePerGram: number;
+  volumeDiscountTiers?: VolumeDiscountTier[] | null; // Product's own tiers; null inherits
   description: string;
   image?: string;  // Keep for backwards compatibility
   images?: string[];
@@ -24,12 +40,13 @@ interface ProductCardProps {
   fixedQuantityOnly?: boolean;
   fixedQuantity?: number | null;
   outOfStock?: boolean;
-  isInCart?: boolean;
-  cartQuantity?: number; // Current quantity in cart (grams or pieces)
-  cartPricePerUnit?: number; // Effective price per unit in cart (may include discount)
-  cartOriginalPrice?: number; // Original price per unit (without discount)
-  onAddToCart: (id: number, quantity: number, pricePerUnit: number) => void;
-  onUpdateQuantity?: (id: number, quantity: number) => void;
+  stock?: number | null; // Grams/pieces in stock, null = not tracked
+  highlight?: ProductSearchHighlight; // Matches from the catalog search
+  variants?: ProductVariant[];
+  sale?: ProductSale; // Running sale; prices above are already reduced
+  cartLines?: CartLineInfo[]; // Lines of this product currently in cart
+  onAddToCart: (id: number, quantity: number, pricePerUnit: number, variantId?: number | null) => void;
+  onUpdateQuantity?: (id: number, quantity: number, variantId?: number | null) => void;
   onClick: (id: number) => void;
   onFilterByType?: (type: string) => void;
   onFilterByEffect?: (effect: string) => void;
@@ -39,8 +56,10 @@ export default function ProductCard({
   id, 
   name, 
   category = "tea",
+  categoryId = null,
   pricingUnit = "gram",
   pricePerGram, 
+  volumeDiscountTiers: ownVolumeDiscountTiers = null,
   description, 
   image,
   images,
@@ -50,10 +69,11 @@ export default function ProductCard({
   fixedQuantityOnly = false,
   fixedQuantity = null,
   outOfStock = false,
-  isInCart = false,
-  cartQuantity = 0,
-  cartPricePerUnit,
-  cartOriginalPrice,
+  stock = null,
+  highlight,
+  variants = [],
+  sale,
+  cartLines = [],
   onAddToCart,
   onUpdateQuantity,
   onClick,
@@ -64,7 +84,10 @@ export default function ProductCard({
   const isSoldByPiece = pricingUnit === "piece" || category === "teaware";
   const [currentImageIndex, setCurrentImageIndex] = useState(0);
   const [imageError, setImageError] = useState(false);
+  const [isRestockDialogOpen, setIsRestockDialogOpen] = useState(false);
   const { data: teaTypes } = useTeaTypes();
+  const { data: ratings } = useProductRatings();
+  const rating = ratings?.[id];
   const [, setLocation] = useLocation();
   
   // A/B Testing price multiplier
@@ -86,14 +109,34 @@ export default function ProductCard({
     }
   };
   
+  // Variants (packs) replace the legacy min/max weight toggle when present
+  const sortedVariants = useMemo(() => sortVariants(variants), [variants]);
+  const hasVariants = sortedVariants.length > 0;
+  const [selectedVariantId, setSelectedVariantId] = useState<number | null>(() => getDefaultVariant(variants, stock)?.id ?? null);
+  const selectedVariant = sortedVariants.find(v => v.id === selectedVariantId) || getDefaultVariant(sortedVariants, stock);
+  const selectedVariantInStock = selectedVariant ? isVariantInStock(selectedVariant, stock) : true;
+  const variantUnitPrice = selectedVariant ? getVariantUnitPrice(selectedVariant) * priceMultiplier : 0;
+  const variantPackPrice = selectedVariant ? Math.round(selectedVariant.price * priceMultiplier) : 0;
+  const oldVariantPrice = selectedVariant && sale?.oldVariantPrices[selectedVariant.id];
+  const oldVariantPackPrice = oldVariantPrice ? Math.round(oldVariantPrice * priceMultiplier) : null;
+  const variantStep = selectedVariant ? getVariantStep(selectedVariant) : 1;
+  const variantIsPiece = selectedVariant ? !selectedVariant.weight : isSoldByPiece;
+
+  // Cart line matching the current selection
+  const cartLine = hasVariants
+    ? cartLines.find(line => line.variantId === selectedVariant?.id)
+    : cartLines.find(line => line.variantId === null);
+  const isInCart = !!cartLine;
+  const cartQuantity = cartLine?.quantity || 0;
+
   // Parse available quantities and get min/max for tea products (only for gram-based)
   const parsedQuantities = useMemo(() => {
-    if (isSoldByPiece || fixedQuantityOnly) return [];
+    if (hasVariants || isSoldByPiece || fixedQuantityOnly) return [];
     return availableQuantities
       .map(q => parseInt(q, 10))
       .filter(q => !isNaN(q))
       .sort((a, b) => a - b);
-  }, [availableQuantities, isSoldByPiece, fixedQuantityOnly]);
+  }, [availableQuantities, hasVariants, isSoldByPiece, fixedQuantityOnly]);
   
   const minWeight = parsedQuantities.length > 0 ? parsedQuantities[0] : 100;
   const maxWeight = parsedQuantities.length > 1 ? parsedQuantities[parsedQuantities.length - 1] : minWeight;
@@ -104,10 +147,18 @@ export default function ProductCard({
   
   // Calculate prices (using A/B adjusted price)
   const currentWeight = selectedWeight === 'min' ? minWeight : maxWeight;
+  const getVolumeDiscountTiers = useVolumeDiscounts();
+  const volumeDiscountTiers = isSoldByPiece ? [] : getVolumeDiscountTiers({ category, categoryId, volumeDiscountTiers: ownVolumeDiscountTiers });
   const basePrice = adjustedPricePerGram * currentWeight;
-  const BULK_DISCOUNT = 0.10; // 10% discount for quantities >= 100g (only for gram-based)
-  const showDiscount = !isSoldByPiece && currentWeight >= 100;
-  const discountedPrice = showDiscount ? Math.round(basePrice * (1 - BULK_DISCOUNT)) : basePrice;
+  const volumeDiscountPercent = hasVariants ? 0 : getVolumeDiscountPercent(volumeDiscountTiers, currentWeight);
+  const showDiscount = volumeDiscountPercent > 0;
+  const discountedPrice = showDiscount ? Math.round(basePrice * (1 - volumeDiscountPercent / 100)) : basePrice;
+
+  // Struck-through price: before the sale if one is running, otherwise before the volume discount
+  const oldPricePerGram = sale ? Math.round(sale.oldPricePerGram * priceMultiplier) : null;
+  const struckPrice = oldPricePerGram !== null
+    ? isSoldByPiece ? `${oldPricePerGram} ₽` : hasWeightOptions || fixedQuantityOnly ? `${oldPricePerGram * currentWeight} ₽` : `${oldPricePerGram} ₽/г`
+    : showDiscount ? `${basePrice} ₽` : null;
   
   // Use images array if available, otherwise fallback to single image or default
   const imageList = images && images.length > 0 ? images : (image ? [image] : [fallbackImage]);
@@ -194,12 +245,24 @@ export default function ProductCard({
             <p className="text-muted-foreground text-sm">Нет изображения</p>
           </div>
         )}
+
+        <FavoriteButton
+          productId={id}
+          className="absolute top-2 right-2 h-9 w-9 rounded-full bg-background/80 hover:bg-background/90"
+        />
       </div>
       <div className="p-3 sm:p-4 flex flex-col gap-2 sm:gap-3 flex-grow">
         <div className="space-y-1.5 sm:space-y-2">
           <h3 className="font-serif text-base sm:text-xl font-semibold text-foreground line-clamp-2" data-testid={`text-product-name-${id}`}>
-            {name}
+            {highlight ? <HighlightedText text={highlight.name} /> : name}
           </h3>
+          {rating && (
+            <div className="flex items-center gap-1 text-xs text-muted-foreground" data-testid={`text-product-rating-${id}`}>
+              <Star className="w-3.5 h-3.5 fill-amber-400 text-amber-400" />
+              <span className="font-medium text-foreground">{rating.average.toFixed(1)}</span>
+              <span>({rating.count})</span>
+            </div>
+          )}
           <div className="flex flex-wrap gap-1.5">
             <Badge 
               variant="outline"
@@ -215,6 +278,15 @@ export default function ProductCard({
             >
               {teaType}
             </Badge>
+            {sale && (
+              <Badge
+                className="text-xs px-2 py-0.5 font-semibold bg-red-600 text-white border-0"
+                title={sale.name}
+                data-testid={`badge-sale-${id}`}
+              >
+                −{sale.percent}%
+              </Badge>
+            )}
             {outOfStock && (
               <Badge 
                 variant="outline" 
@@ -243,10 +315,40 @@ export default function ProductCard({
             ))}
           </div>
         </div>
-        <p className="hidden text-muted-foreground text-sm leading-relaxed line-clamp-2" data-testid={`text-product-description-${id}`}>
-          {description}
-        </p>
+        {highlight?.description.includes("<mark>") ? (
+          <p className="text-muted-foreground text-sm leading-relaxed line-clamp-2" data-testid={`text-product-description-${id}`}>
+            <HighlightedText text={highlight.description} />
+          </p>
+        ) : (
+          <p className="hidden text-muted-foreground text-sm leading-relaxed line-clamp-2" data-testid={`text-product-description-${id}`}>
+            {description}
+          </p>
+        )}
         
+        {/* Variant selector */}
+        {hasVariants && sortedVariants.length > 1 && !outOfStock && (
+          <div className="flex flex-wrap items-center gap-1.5 mt-auto" onClick={(e) => e.stopPropagation()}>
+            {sortedVariants.map(variant => {
+              const inStock = isVariantInStock(variant, stock);
+              return (
+                <button
+                  key={variant.id}
+                  type="button"
+                  onClick={() => setSelectedVariantId(variant.id)}
+                  className={`flex-1 py-1.5 px-2 text-sm font-medium rounded-md transition-all whitespace-nowrap ${
+                    selectedVariant?.id === variant.id
+                      ? 'bg-stone-100 text-foreground border border-stone-300'
+                      : 'bg-muted text-muted-foreground hover:bg-muted/80'
+                  } ${inStock ? '' : 'line-through opacity-60'}`}
+                  data-testid={`button-variant-${id}-${variant.id}`}
+                >
+                  {variant.name}
+                </button>
+              );
+            })}
+          </div>
+        )}
+
         {/* Weight toggle for tea products */}
         {hasWeightOptions && !outOfStock && (
           <div className="flex items-center gap-2 mt-auto" onClick={(e) => e.stopPropagation()}>
@@ -283,8 +385,70 @@ export default function ProductCard({
         )}
         
         {/* Price and cart controls */}
-        <div className={`flex items-center gap-2 ${hasWeightOptions ? '' : 'mt-auto'}`}>
-          {!outOfStock ? (
+        <div className={`flex items-center gap-2 ${hasWeightOptions || (hasVariants && sortedVariants.length > 1) ? '' : 'mt-auto'}`}>
+          {!outOfStock && hasVariants && selectedVariant ? (
+            isInCart && onUpdateQuantity ? (
+              /* In-cart controls for the selected variant */
+              <div className="flex items-center gap-1.5 w-full">
+                <div 
+                  className="flex items-center flex-1 btn-gradient rounded-lg"
+                  onClick={(e) => e.stopPropagation()}
+                >
+                  <button
+                    type="button"
+                    className="h-8 w-8 shrink-0 flex items-center justify-center text-white hover:bg-white/10 active:bg-white/20 transition-colors"
+                    onClick={() => onUpdateQuantity(id, Math.max(0, cartQuantity - variantStep), selectedVariant.id)}
+                    data-testid={`button-decrease-${id}`}
+                  >
+                    <Minus className="w-3 h-3" />
+                  </button>
+                  <div className="flex-1 text-center py-1 px-1 min-w-[45px]">
+                    <span className="text-white font-bold text-[11px] whitespace-nowrap" data-testid={`text-product-price-${id}`}>
+                      {Math.round(variantUnitPrice * cartQuantity)}₽
+                    </span>
+                  </div>
+                  <button
+                    type="button"
+                    className="h-8 w-8 shrink-0 flex items-center justify-center text-white hover:bg-white/10 active:bg-white/20 transition-colors disabled:opacity-50"
+                    disabled={!selectedVariantInStock}
+                    onClick={() => onUpdateQuantity(id, cartQuantity + variantStep, selectedVariant.id)}
+                    data-testid={`button-increase-${id}`}
+                  >
+                    <Plus className="w-3 h-3" />
+                  </button>
+                </div>
+                <span className="text-muted-foreground text-xs whitespace-nowrap shrink-0" data-testid={`text-cart-count-${id}`}>
+                  {variantIsPiece ? `x${cartQuantity}` : `${cartQuantity}г`}
+                </span>
+              </div>
+            ) : (
+              <div className="flex items-center justify-between gap-2 w-full">
+                <div className="flex flex-col" data-testid={`text-product-price-${id}`}>
+                  {sortedVariants.length === 1 && selectedVariant.weight && (
+                    <span className="text-xs text-muted-foreground">{selectedVariant.name}</span>
+                  )}
+                  {oldVariantPackPrice !== null && (
+                    <span className="text-xs text-muted-foreground line-through">{oldVariantPackPrice} ₽</span>
+                  )}
+                  <span className={`text-lg sm:text-xl font-semibold transition-colors duration-300 ${selectedVariantInStock ? 'text-foreground group-hover/card:text-primary' : 'text-muted-foreground'}`}>
+                    {variantPackPrice} ₽
+                  </span>
+                </div>
+                <Button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onAddToCart(id, variantStep, variantUnitPrice, selectedVariant.id);
+                  }}
+                  disabled={!selectedVariantInStock}
+                  size="icon"
+                  className="btn-gradient-icon opacity-100 sm:opacity-0 sm:group-hover/card:opacity-100 transition-all duration-300"
+                  data-testid={`button-add-to-cart-${id}`}
+                >
+                  <ShoppingCart className="w-4 h-4" />
+                </Button>
+              </div>
+            )
+          ) : !outOfStock ? (
             isInCart && onUpdateQuantity ? (
               /* In-cart controls: -/price/+ and count */
               <div className="flex flex-col gap-1 w-full">
@@ -299,7 +463,7 @@ export default function ProductCard({
                       onClick={() => {
                         const step = isSoldByPiece ? 1 : currentWeight;
                         const newQty = Math.max(0, cartQuantity - step);
-                        onUpdateQuantity(id, newQty);
+                        onUpdateQuantity(id, newQty, null);
                       }}
                       data-testid={`button-decrease-${id}`}
                     >
@@ -308,8 +472,7 @@ export default function ProductCard({
                     <div className="flex-1 text-center py-1 px-1 min-w-[45px]">
                       <span className="text-white font-bold text-[11px] whitespace-nowrap" data-testid={`text-product-price-${id}`}>
                         {(() => {
-                          const hasDiscount = !isSoldByPiece && cartQuantity >= 100;
-                          const pricePerUnit = hasDiscount ? adjustedPricePerGram * (1 - BULK_DISCOUNT) : adjustedPricePerGram;
+                          const pricePerUnit = getLegacyUnitPrice({ pricePerGram: adjustedPricePerGram, category }, cartQuantity, volumeDiscountTiers);
                           return Math.round(pricePerUnit * cartQuantity);
                         })()}₽
                       </span>
@@ -319,7 +482,7 @@ export default function ProductCard({
                       className="h-8 w-8 shrink-0 flex items-center justify-center text-white hover:bg-white/10 active:bg-white/20 transition-colors"
                       onClick={() => {
                         const step = isSoldByPiece ? 1 : currentWeight;
-                        onUpdateQuantity(id, cartQuantity + step);
+                        onUpdateQuantity(id, cartQuantity + step, null);
                       }}
                       data-testid={`button-increase-${id}`}
                     >
@@ -335,8 +498,8 @@ export default function ProductCard({
               /* Not in cart: show price and add button */
               <div className="flex items-center justify-between gap-2 w-full">
                 <div className="flex flex-col" data-testid={`text-product-price-${id}`}>
-                  {showDiscount && (
-                    <span className="text-xs text-muted-foreground line-through">{basePrice} ₽</span>
+                  {struckPrice && (
+                    <span className="text-xs text-muted-foreground line-through">{struckPrice}</span>
                   )}
                   <span className="text-lg sm:text-xl font-semibold transition-colors duration-300 text-foreground group-hover/card:text-primary">
                     {isSoldByPiece ? `${adjustedPricePerGram} ₽` : (
@@ -352,8 +515,8 @@ export default function ProductCard({
                         ? fixedQuantity 
                         : currentWeight
                     );
-                    const effectivePrice = showDiscount ? adjustedPricePerGram * (1 - BULK_DISCOUNT) : adjustedPricePerGram;
-                    onAddToCart(id, qty, effectivePrice);
+                    const effectivePrice = adjustedPricePerGram * (1 - volumeDiscountPercent / 100);
+                    onAddToCart(id, qty, effectivePrice, null);
                   }}
                   size="icon"
                   className="btn-gradient-icon opacity-100 sm:opacity-0 sm:group-hover/card:opacity-100 transition-all duration-300"
@@ -364,10 +527,27 @@ export default function ProductCard({
               </div>
             )
           ) : (
-            /* Out of stock */
-            <span className="text-lg sm:text-xl font-semibold text-muted-foreground" data-testid={`text-product-price-${id}`}>
-              {isSoldByPiece ? `${adjustedPricePerGram} ₽` : `${adjustedPricePerGram} ₽/г`}
-            </span>
+            /* Out of stock: price and back-in-stock subscription. Dialog clicks bubble through the portal, so stop them here */
+            <div className="flex items-center justify-between gap-2 w-full" onClick={(e) => e.stopPropagation()}>
+              <span className="text-lg sm:text-xl font-semibold text-muted-foreground" data-testid={`text-product-price-${id}`}>
+                {hasVariants && selectedVariant ? `${variantPackPrice} ₽` : isSoldByPiece ? `${adjustedPricePerGram} ₽` : `${adjustedPricePerGram} ₽/г`}
+              </span>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setIsRestockDialogOpen(true)}
+                data-testid={`button-notify-restock-${id}`}
+              >
+                <Bell className="w-4 h-4 sm:mr-1.5" />
+                <span className="hidden sm:inline">Сообщить о поступлении</span>
+              </Button>
+              <BackInStockDialog
+                productId={id}
+                productName={name}
+                open={isRestockDialogOpen}
+                onOpenChange={setIsRestockDialogOpen}
+              />
+            </div>
           )}
         </div>
       </div>
@@ -1,19 +1,32 @@
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
-import { ShoppingCart, Link2, Check } from "lucide-react";
+import { ShoppingCart, Link2, Check, Minus, Plus, Thermometer, Gift, MapPin, Bell } from "lucide-react";
 import { getTeaTypeBadgeStyleDynamic } from "@/lib/tea-colors";
-import { useState } from "react";
+import { useState, useMemo } from "react";
 import { useTeaTypes } from "@/hooks/use-tea-types";
 import { useAbTesting } from "@/hooks/use-ab-testing";
 import { useToast } from "@/hooks/use-toast";
+import ProductReviews from "@/components/ProductReviews";
+import BackInStockDialog from "@/components/BackInStockDialog";
+import BoughtTogether from "@/components/BoughtTogether";
+import FavoriteButton from "@/components/FavoriteButton";
+import type { ProductVariant, BundleComponent, ProductSale } from "@shared/schema";
+import { getVariantUnitPrice, getVariantStep, getDefaultVariant, sortVariants, isVariantInStock, getLegacyUnitPrice } from "@shared/variants";
+import { getVolumeDiscountPercent, getNextVolumeDiscountTier, formatVolumeDiscountHint, type VolumeDiscountTier } from "@shared/volumeDiscounts";
+import { useVolumeDiscounts } from "@/hooks/use-volume-discounts";
+import { getProductPath } from "@shared/slug";
+import { getBrewingLines, type BrewingParams } from "@shared/brewing";
+import { getProvenanceLines, type ProvenanceParams } from "@shared/provenance";
 
-interface ProductDetailProps {
+interface ProductDetailProps extends Partial<BrewingParams>, Partial<ProvenanceParams> {
   id: number;
   name: string;
   category?: string;
+  categoryId?: number | null;
   pricingUnit?: string; // "gram" or "piece"
   pricePerGram: number;
+  volumeDiscountTiers?: VolumeDiscountTier[] | null; // Product's own tiers; null inherits
   description: string;
   image?: string;  // Keep for backwards compatibility
   images?: string[];
@@ -24,16 +37,25 @@ interface ProductDetailProps {
   fixedQuantityOnly?: boolean;
   fixedQuantity?: number | null;
   outOfStock?: boolean;
-  onAddToCart: (id: number, quantity: number, pricePerUnit?: number) => void;
+  stock?: number | null; // Grams/pieces in stock, null = not tracked
+  slug?: string | null; // Product page URL (/product/:slug)
+  variants?: ProductVariant[];
+  sale?: ProductSale; // Running sale; prices above are already reduced
+  initialVariantId?: number | null; // Preselected variant (from ?variant= link)
+  bundleItems?: BundleComponent[]; // Contents when the product is a bundle
+  onAddToCart: (id: number, quantity: number, pricePerUnit?: number, variantId?: number | null) => void;
   onClose: () => void;
+  onProductClick?: (id: number) => void; // Opens another product, e.g. from "С этим чаем покупают"
 }
 
 export default function ProductDetail({
   id,
   name,
   category = "tea",
+  categoryId = null,
   pricingUnit = "gram",
   pricePerGram,
+  volumeDiscountTiers: ownVolumeDiscountTiers = null,
   description,
   image,
   images,
@@ -44,8 +66,24 @@ export default function ProductDetail({
   fixedQuantityOnly = false,
   fixedQuantity = null,
   outOfStock = false,
+  stock = null,
+  slug = null,
+  variants = [],
+  sale,
+  initialVariantId = null,
+  bundleItems = [],
+  brewTemperature = null,
+  brewGramsPer100ml = null,
+  brewSteeps = null,
+  brewSteepTimes = null,
+  brewVessel = null,
+  harvestYear = null,
+  region = null,
+  factory = null,
+  pressingForm = null,
   onAddToCart,
   onClose,
+  onProductClick,
 }: ProductDetailProps) {
   // Product is sold by piece if pricingUnit is "piece" or category is "teaware"
   const isSoldByPiece = pricingUnit === "piece" || category === "teaware";
@@ -57,14 +95,26 @@ export default function ProductDetail({
     return availableQuantities[0] || "100";
   });
   const [customQuantity, setCustomQuantity] = useState<string>("");
+  const sortedVariants = useMemo(() => sortVariants(variants), [variants]);
+  const hasVariants = sortedVariants.length > 0;
+  const [selectedVariantId, setSelectedVariantId] = useState<number | null>(() => {
+    if (initialVariantId && variants.some(v => v.id === initialVariantId)) return initialVariantId;
+    return getDefaultVariant(variants, stock)?.id ?? null;
+  });
+  const [packCount, setPackCount] = useState(1);
+  const selectedVariant = sortedVariants.find(v => v.id === selectedVariantId) || null;
   const { data: teaTypes } = useTeaTypes();
   const { toast } = useToast();
   const [linkCopied, setLinkCopied] = useState(false);
+  const [isRestockDialogOpen, setIsRestockDialogOpen] = useState(false);
+  const brewingLines = getBrewingLines({ brewTemperature, brewGramsPer100ml, brewSteeps, brewSteepTimes, brewVessel });
+  const provenanceLines = getProvenanceLines({ harvestYear, region, factory, pressingForm });
   
   const copyProductLink = async () => {
-    const url = new URL(window.location.href);
-    url.search = '';
-    url.searchParams.set('product', String(id));
+    const url = new URL(getProductPath({ id, slug }), window.location.origin);
+    if (selectedVariant && sortedVariants.length > 1) {
+      url.searchParams.set('variant', String(selectedVariant.id));
+    }
     try {
       await navigator.clipboard.writeText(url.toString());
       setLinkCopied(true);
@@ -79,6 +129,41 @@ export default function ProductDetail({
   const { getPriceMultiplier } = useAbTesting();
   const priceMultiplier = getPriceMultiplier();
   const adjustedPricePerGram = Math.round(pricePerGram * priceMultiplier);
+  const variantPackPrice = selectedVariant ? Math.round(selectedVariant.price * priceMultiplier) : 0;
+  const oldVariantPrice = selectedVariant && sale?.oldVariantPrices[selectedVariant.id];
+  const oldPricePerGram = sale ? Math.round(sale.oldPricePerGram * priceMultiplier) : null;
+  // Custom weight is still allowed for loose tea alongside the packs
+  const allowCustomWeight = !isSoldByPiece && !fixedQuantityOnly;
+  const getVolumeDiscountTiers = useVolumeDiscounts();
+  const volumeDiscountTiers = isSoldByPiece ? [] : getVolumeDiscountTiers({ category, categoryId, volumeDiscountTiers: ownVolumeDiscountTiers });
+
+  // Custom weights are charged at their volume discount tier, the same as in the cart
+  const renderWeightTotal = (qty: number) => {
+    const basePrice = adjustedPricePerGram * qty;
+    const discountedPrice = Math.round(getLegacyUnitPrice({ pricePerGram: adjustedPricePerGram, category }, qty, volumeDiscountTiers) * qty);
+    const percent = getVolumeDiscountPercent(volumeDiscountTiers, qty);
+    const next = getNextVolumeDiscountTier(volumeDiscountTiers, qty);
+    return (
+      <div className="text-right">
+        {percent > 0 && (
+          <span className="text-sm text-muted-foreground line-through mr-2">
+            {basePrice} ₽
+          </span>
+        )}
+        <span className="text-lg font-semibold" data-testid="text-total-price">
+          Итого: {discountedPrice} ₽
+        </span>
+        {percent > 0 && (
+          <span className="text-xs text-green-600 ml-2">-{percent}%</span>
+        )}
+        {next && (
+          <p className="text-xs text-muted-foreground mt-1" data-testid="text-volume-discount-hint">
+            {formatVolumeDiscountHint(next)}
+          </p>
+        )}
+      </div>
+    );
+  };
   
   // Use images array if available, otherwise fallback to single image
   const imageList = images && images.length > 0 ? images : (image ? [image] : []);
@@ -136,14 +221,17 @@ export default function ProductDetail({
               <h2 className="font-serif text-3xl font-bold" data-testid={`text-detail-name-${id}`}>
                 {name}
               </h2>
-              <Button
-                variant="ghost"
-                size="icon"
-                onClick={copyProductLink}
-                data-testid={`button-copy-link-${id}`}
-              >
-                {linkCopied ? <Check className="w-4 h-4 text-green-600" /> : <Link2 className="w-4 h-4" />}
-              </Button>
+              <div className="flex">
+                <FavoriteButton productId={id} />
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={copyProductLink}
+                  data-testid={`button-copy-link-${id}`}
+                >
+                  {linkCopied ? <Check className="w-4 h-4 text-green-600" /> : <Link2 className="w-4 h-4" />}
+                </Button>
+              </div>
             </div>
             <div className="flex flex-wrap gap-2 mb-4">
               <Badge 
@@ -191,20 +279,196 @@ export default function ProductDetail({
             {description}
           </p>
 
+          {bundleItems.length > 0 && (
+            <div className="rounded-lg border p-4" data-testid={`card-bundle-items-${id}`}>
+              <h3 className="flex items-center gap-2 font-medium mb-3">
+                <Gift className="w-4 h-4 text-primary" />
+                В наборе
+              </h3>
+              <ul className="space-y-1.5 text-sm">
+                {bundleItems.map(component => {
+                  const isPiece = component.product.pricingUnit === "piece" || component.product.category === "teaware";
+                  return (
+                    <li key={component.id} className="flex justify-between gap-4" data-testid={`bundle-item-${id}-${component.id}`}>
+                      <a href={getProductPath(component.product)} className="hover:underline">
+                        {component.product.name}
+                        {component.variant && <span className="text-muted-foreground">, {component.variant.name}</span>}
+                      </a>
+                      <span className="text-muted-foreground whitespace-nowrap">
+                        {component.quantity} {isPiece ? "шт" : "г"}
+                      </span>
+                    </li>
+                  );
+                })}
+              </ul>
+            </div>
+          )}
+
+          {provenanceLines.length > 0 && (
+            <div className="rounded-lg border p-4" data-testid={`card-provenance-${id}`}>
+              <h3 className="flex items-center gap-2 font-medium mb-3">
+                <MapPin className="w-4 h-4 text-primary" />
+                Происхождение
+              </h3>
+              <dl className="grid grid-cols-2 gap-x-4 gap-y-2 text-sm">
+                {provenanceLines.map(line => (
+                  <div key={line.label}>
+                    <dt className="text-muted-foreground">{line.label}</dt>
+                    <dd className="font-medium">{line.value}</dd>
+                  </div>
+                ))}
+              </dl>
+            </div>
+          )}
+
+          {brewingLines.length > 0 && (
+            <div className="rounded-lg border bg-muted/40 p-4" data-testid={`card-brewing-${id}`}>
+              <h3 className="flex items-center gap-2 font-medium mb-3">
+                <Thermometer className="w-4 h-4 text-primary" />
+                Как заваривать
+              </h3>
+              <dl className="grid grid-cols-2 gap-x-4 gap-y-2 text-sm">
+                {brewingLines.map(line => (
+                  <div key={line.label}>
+                    <dt className="text-muted-foreground">{line.label}</dt>
+                    <dd className="font-medium">{line.value}</dd>
+                  </div>
+                ))}
+              </dl>
+            </div>
+          )}
+
           <div className="pt-4 space-y-4">
-            <div className="flex items-baseline gap-2">
-              <span className="text-3xl font-bold text-primary" data-testid={`text-detail-price-${id}`}>
-                {isSoldByPiece ? `${adjustedPricePerGram} ₽ / шт` : `${adjustedPricePerGram} ₽/г`}
-              </span>
-              {!isSoldByPiece && (
+            {sale && (
+              <p className="text-sm font-semibold text-red-600" data-testid="text-sale">
+                {sale.name}: −{sale.percent}% до {new Date(sale.endsAt).toLocaleString("ru-RU", { day: "numeric", month: "long", hour: "2-digit", minute: "2-digit" })}
+              </p>
+            )}
+            {hasVariants && selectedVariant && !customQuantity ? (
+              <div className="flex items-baseline gap-2">
+                {oldVariantPrice && (
+                  <span className="text-lg text-muted-foreground line-through">{Math.round(oldVariantPrice * priceMultiplier)} ₽</span>
+                )}
+                <span className="text-3xl font-bold text-primary" data-testid={`text-detail-price-${id}`}>
+                  {variantPackPrice} ₽
+                </span>
                 <span className="text-sm text-muted-foreground">
-                  (100 г = {adjustedPricePerGram * 100} ₽)
+                  {selectedVariant.weight
+                    ? `за ${selectedVariant.name} (${Math.round(getVariantUnitPrice(selectedVariant) * priceMultiplier * 100)} ₽ / 100 г)`
+                    : `за ${selectedVariant.name}`}
                 </span>
-              )}
-            </div>
+              </div>
+            ) : (
+              <div className="flex items-baseline gap-2">
+                {oldPricePerGram !== null && (
+                  <span className="text-lg text-muted-foreground line-through">{oldPricePerGram} ₽</span>
+                )}
+                <span className="text-3xl font-bold text-primary" data-testid={`text-detail-price-${id}`}>
+                  {isSoldByPiece ? `${adjustedPricePerGram} ₽ / шт` : `${adjustedPricePerGram} ₽/г`}
+                </span>
+                {!isSoldByPiece && (
+                  <span className="text-sm text-muted-foreground">
+                    (100 г = {adjustedPricePerGram * 100} ₽)
+                  </span>
+                )}
+              </div>
+            )}
+            {!isSoldByPiece && (allowCustomWeight || !hasVariants) && volumeDiscountTiers.length > 0 && (
+              <p className="text-sm text-green-600" data-testid="text-volume-discount-tiers">
+                Скидка за объём: {volumeDiscountTiers.map(tier => `от ${tier.minQuantity} г −${tier.percent}%`).join(", ")}
+              </p>
+            )}
+
+            {/* Variant (pack) selection */}
+            {hasVariants && !outOfStock && (
+              <div className="space-y-3">
+                <label className="text-sm font-medium">Фасовка</label>
+                <div className="flex flex-wrap gap-2">
+                  {sortedVariants.map((variant) => {
+                    const inStock = isVariantInStock(variant, stock);
+                    return (
+                      <Button
+                        key={variant.id}
+                        type="button"
+                        variant={selectedVariant?.id === variant.id && !customQuantity ? "default" : "outline"}
+                        size="sm"
+                        disabled={!inStock}
+                        onClick={() => {
+                          setSelectedVariantId(variant.id);
+                          setCustomQuantity("");
+                        }}
+                        data-testid={`button-variant-${variant.id}`}
+                      >
+                        {variant.name} · {Math.round(variant.price * priceMultiplier)} ₽
+                        {!inStock && " (нет)"}
+                      </Button>
+                    );
+                  })}
+                </div>
+
+                {/* Number of packs */}
+                {selectedVariant && !customQuantity && (
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="flex items-center gap-2">
+                      <Button
+                        type="button"
+                        variant="outline"
+                        size="icon"
+                        className="h-8 w-8"
+                        onClick={() => setPackCount(Math.max(1, packCount - 1))}
+                        data-testid="button-pack-decrease"
+                      >
+                        <Minus className="w-3 h-3" />
+                      </Button>
+                      <span className="w-10 text-center font-medium" data-testid="text-pack-count">{packCount}</span>
+                      <Button
+                        type="button"
+                        variant="outline"
+                        size="icon"
+                        className="h-8 w-8"
+                        onClick={() => setPackCount(Math.min(99, packCount + 1))}
+                        data-testid="button-pack-increase"
+                      >
+                        <Plus className="w-3 h-3" />
+                      </Button>
+                    </div>
+                    <span className="text-lg font-semibold" data-testid="text-total-price">
+                      Итого: {variantPackPrice * packCount} ₽
+                    </span>
+                  </div>
+                )}
+
+                {/* Custom weight for loose tea */}
+                {allowCustomWeight && (
+                  <>
+                    <div className="flex gap-2 items-end">
+                      <div className="flex-1">
+                        <label className="text-sm text-muted-foreground">Своё количество (г)</label>
+                        <Input
+                          type="number"
+                          min="5"
+                          max="2000"
+                          placeholder="от 5 до 2000"
+                          value={customQuantity}
+                          onChange={(e) => {
+                            const val = e.target.value;
+                            const num = parseInt(val, 10);
+                            if (val === "" || (!isNaN(num) && num >= 5 && num <= 2000)) {
+                              setCustomQuantity(val);
+                            }
+                          }}
+                          data-testid="input-custom-quantity"
+                        />
+                      </div>
+                    </div>
+                    {customQuantity && renderWeightTotal(parseInt(customQuantity, 10))}
+                  </>
+                )}
+              </div>
+            )}
 
             {/* Quantity Selection for piece-based products */}
-            {isSoldByPiece && !outOfStock && (
+            {!hasVariants && isSoldByPiece && !outOfStock && (
               <div className="space-y-3">
                 <label className="text-sm font-medium">Количество</label>
                 
@@ -266,7 +530,7 @@ export default function ProductDetail({
             )}
 
             {/* Quantity Selection - only for gram-based products */}
-            {!isSoldByPiece && (
+            {!hasVariants && !isSoldByPiece && (
               <div className="space-y-3">
                 <label className="text-sm font-medium">Количество</label>
                 
@@ -283,11 +547,7 @@ export default function ProductDetail({
                     </div>
                     
                     {/* Total price */}
-                    <div className="text-right">
-                      <span className="text-lg font-semibold" data-testid="text-total-price">
-                        Итого: {adjustedPricePerGram * fixedQuantity} ₽
-                      </span>
-                    </div>
+                    {renderWeightTotal(fixedQuantity)}
                   </>
                 ) : (
                   <>
@@ -333,29 +593,8 @@ export default function ProductDetail({
                       </div>
                     </div>
 
-                    {/* Total price with discount for manual input 100g+ */}
-                    {(selectedQuantity || customQuantity) && (() => {
-                      const qty = parseInt(customQuantity || selectedQuantity || "0", 10);
-                      const isManualInput = !!customQuantity;
-                      const hasDiscount = isManualInput && qty >= 100;
-                      const basePrice = adjustedPricePerGram * qty;
-                      const discountedPrice = hasDiscount ? Math.round(basePrice * 0.9) : basePrice;
-                      return (
-                        <div className="text-right">
-                          {hasDiscount && (
-                            <span className="text-sm text-muted-foreground line-through mr-2">
-                              {basePrice} ₽
-                            </span>
-                          )}
-                          <span className="text-lg font-semibold" data-testid="text-total-price">
-                            Итого: {discountedPrice} ₽
-                          </span>
-                          {hasDiscount && (
-                            <span className="text-xs text-green-600 ml-2">-10%</span>
-                          )}
-                        </div>
-                      );
-                    })()}
+                    {/* Total price with the volume discount */}
+                    {(selectedQuantity || customQuantity) && renderWeightTotal(parseInt(customQuantity || selectedQuantity || "0", 10))}
                   </>
                 )}
               </div>
@@ -364,21 +603,27 @@ export default function ProductDetail({
             <Button
               onClick={() => {
                 if (outOfStock) return;
-                const quantity = fixedQuantityOnly && fixedQuantity 
+                if (hasVariants && selectedVariant && !customQuantity) {
+                  const quantity = getVariantStep(selectedVariant) * packCount;
+                  onAddToCart(id, quantity, getVariantUnitPrice(selectedVariant) * priceMultiplier, selectedVariant.id);
+                  onClose();
+                  return;
+                }
+                const quantity = fixedQuantityOnly && fixedQuantity && !hasVariants
                   ? fixedQuantity 
                   : parseInt(customQuantity || selectedQuantity || "0", 10);
                 if (quantity > 0) {
                   // Pass the adjusted price to ensure A/B test multiplier is applied
-                  const isManualInput = !!customQuantity && !isSoldByPiece;
-                  const hasDiscount = isManualInput && quantity >= 100;
-                  const effectivePrice = hasDiscount 
-                    ? adjustedPricePerGram * 0.9 
-                    : adjustedPricePerGram;
-                  onAddToCart(id, quantity, effectivePrice);
+                  const effectivePrice = isSoldByPiece
+                    ? adjustedPricePerGram
+                    : getLegacyUnitPrice({ pricePerGram: adjustedPricePerGram, category }, quantity, volumeDiscountTiers);
+                  onAddToCart(id, quantity, effectivePrice, null);
                   onClose();
                 }
               }}
-              disabled={outOfStock || (!fixedQuantityOnly && !selectedQuantity && !customQuantity)}
+              disabled={outOfStock || (hasVariants
+                ? !customQuantity && (!selectedVariant || !isVariantInStock(selectedVariant, stock))
+                : !fixedQuantityOnly && !selectedQuantity && !customQuantity)}
               className="w-full bg-primary text-primary-foreground border border-primary-border"
               size="lg"
               data-testid={`button-detail-add-to-cart-${id}`}
@@ -386,9 +631,39 @@ export default function ProductDetail({
               <ShoppingCart className="w-5 h-5 mr-2" />
               {outOfStock ? "Нет в наличии" : "Добавить в корзину"}
             </Button>
+            {outOfStock && (
+              <>
+                <Button
+                  variant="outline"
+                  className="w-full"
+                  onClick={() => setIsRestockDialogOpen(true)}
+                  data-testid={`button-detail-notify-restock-${id}`}
+                >
+                  <Bell className="w-4 h-4 mr-2" />
+                  Сообщить о поступлении
+                </Button>
+                <BackInStockDialog
+                  productId={id}
+                  productName={name}
+                  open={isRestockDialogOpen}
+                  onOpenChange={setIsRestockDialogOpen}
+                />
+              </>
+            )}
           </div>
         </div>
       </div>
+
+      {onProductClick && (
+        <BoughtTogether
+          productIds={[id]}
+          title={category === "tea" ? "С этим чаем покупают" : "С этим товаром покупают"}
+          onProductClick={onProductClick}
+          className="mt-8"
+        />
+      )}
+
+      <ProductReviews productId={id} />
     </div>
   );
 }
@@ -12,6 +12,7 @@ import {
 } from "@/components/ui/popover";
 import { Checkbox } from "@/components/ui/checkbox";
 import { useTeaTypes } from "@/hooks/use-tea-types";
+import { PROVENANCE_FACETS, type ProductFacets, type ProvenanceFacet, type ProvenanceFilters } from "@shared/provenance";
 
 interface ProductFiltersProps {
   searchTerm: string;
@@ -20,6 +21,8 @@ interface ProductFiltersProps {
   onTypesChange: (types: string[]) => void;
   selectedEffects: string[];
   onEffectsChange: (effects: string[]) => void;
+  provenanceFilters: ProvenanceFilters;
+  onProvenanceChange: (filters: ProvenanceFilters) => void;
   onQuizClick: () => void;
 }
 
@@ -30,6 +33,8 @@ export default function ProductFilters({
   onTypesChange,
   selectedEffects,
   onEffectsChange,
+  provenanceFilters,
+  onProvenanceChange,
   onQuizClick,
 }: ProductFiltersProps) {
   const [isSearchOpen, setIsSearchOpen] = useState(false);
@@ -45,6 +50,11 @@ export default function ProductFilters({
     queryKey: ['/api/tags'],
   });
 
+  // Provenance facets with product counts; facets without values are not shown
+  const { data: facets } = useQuery<ProductFacets>({
+    queryKey: ['/api/facets'],
+  });
+
   useEffect(() => {
     if (isSearchOpen && inputRef.current) {
       inputRef.current.focus();
@@ -67,6 +77,14 @@ export default function ProductFilters({
     }
   };
 
+  const toggleProvenance = (facet: ProvenanceFacet, value: string) => {
+    const selected = provenanceFilters[facet];
+    onProvenanceChange({
+      ...provenanceFilters,
+      [facet]: selected.includes(value) ? selected.filter(v => v !== value) : [...selected, value],
+    });
+  };
+
   // Build tea types array
   const teaTypes = (tags?.types || []).map(type => ({ id: type, label: type }));
 
@@ -280,6 +298,69 @@ export default function ProductFilters({
           </PopoverContent>
         </Popover>
       )}
+
+      {/* Фильтры: происхождение (год, регион, фабрика, прессовка) */}
+      {PROVENANCE_FACETS.filter(({ key }) => (facets?.[key].length ?? 0) > 0).map(({ key, label }) => {
+        const options = facets![key].map(option => ({ id: option.value, label: option.label, count: option.count }));
+        const selected = provenanceFilters[key];
+        return (
+          <Popover
+            key={key}
+            open={openFilter === key}
+            onOpenChange={(open) => setOpenFilter(open ? key : null)}
+          >
+            <PopoverTrigger asChild>
+              <Button
+                variant="outline"
+                size="sm"
+                className="gap-2 justify-between min-w-[120px]"
+                data-testid={`button-filter-${key}`}
+              >
+                <span className="text-sm truncate">{label}</span>
+                {selected.length > 0 && (
+                  <Badge variant="secondary" className="text-xs px-1.5 py-0">{selected.length}</Badge>
+                )}
+                <ChevronDown className={`w-4 h-4 transition-transform ${openFilter === key ? "rotate-180" : ""}`} />
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-64" align="start">
+              <div className="space-y-3">
+                <div className="text-sm font-medium">{label}</div>
+                <div className="text-xs text-muted-foreground mb-2">
+                  {getDisplayText(selected, options)}
+                </div>
+                <div className="space-y-2 max-h-64 overflow-y-auto">
+                  {options.map((option) => (
+                    <label
+                      key={option.id}
+                      className="flex items-center gap-2 cursor-pointer hover-elevate p-1.5 rounded"
+                      data-testid={`checkbox-${key}-${option.id}`}
+                    >
+                      <Checkbox
+                        checked={selected.includes(option.id)}
+                        onCheckedChange={() => toggleProvenance(key, option.id)}
+                      />
+                      <span className="text-sm flex-1">{option.label}</span>
+                      <span className="text-xs text-muted-foreground">{option.count}</span>
+                    </label>
+                  ))}
+                </div>
+                {selected.length > 0 && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => onProvenanceChange({ ...provenanceFilters, [key]: [] })}
+                    className="w-full"
+                    data-testid={`button-clear-${key}`}
+                  >
+                    Очистить
+                  </Button>
+                )}
+              </div>
+            </PopoverContent>
+          </Popover>
+        );
+      })}
     </div>
   );
 }
@@ -0,0 +1,215 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Star, ImagePlus, X } from "lucide-react";
+import { format } from "date-fns";
+import { ru } from "date-fns/locale";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { useProductRatings } from "@/hooks/use-product-ratings";
+import { queryClient } from "@/lib/queryClient";
+import { getApiUrl } from "@/lib/api-config";
+import type { PublicProductReview, ReviewEligibility } from "@shared/schema";
+
+interface ProductReviewsProps {
+  productId: number;
+}
+
+const MAX_PHOTO_SIZE = 5 * 1024 * 1024;
+
+function StarRating({ value, size = "w-4 h-4" }: { value: number; size?: string }) {
+  return (
+    <div className="flex items-center gap-0.5">
+      {[1, 2, 3, 4, 5].map(star => (
+        <Star
+          key={star}
+          className={`${size} ${star <= Math.round(value) ? "fill-amber-400 text-amber-400" : "text-muted-foreground/40"}`}
+        />
+      ))}
+    </div>
+  );
+}
+
+export default function ProductReviews({ productId }: ProductReviewsProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const { data: ratings } = useProductRatings();
+  const summary = ratings?.[productId];
+  const [rating, setRating] = useState(0);
+  const [text, setText] = useState("");
+  const [photo, setPhoto] = useState<File | null>(null);
+
+  const { data: reviews = [], isLoading } = useQuery<PublicProductReview[]>({
+    queryKey: ["/api/products", productId, "reviews"],
+  });
+
+  const { data: eligibility } = useQuery<ReviewEligibility>({
+    queryKey: ["/api/products", productId, "reviews", "eligibility"],
+    enabled: !!user,
+  });
+
+  const submitMutation = useMutation({
+    mutationFn: async (data: FormData) => {
+      const res = await fetch(getApiUrl(`/api/products/${productId}/reviews`), {
+        method: "POST",
+        body: data,
+        credentials: "include",
+      });
+      if (!res.ok) {
+        const errorData = await res.json().catch(() => ({}));
+        throw new Error(errorData.error || "Не удалось отправить отзыв");
+      }
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/products", productId, "reviews", "eligibility"] });
+      setRating(0);
+      setText("");
+      setPhoto(null);
+      toast({
+        title: "Спасибо за отзыв!",
+        description: "Он появится на странице после проверки",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Ошибка",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handlePhotoChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    if (file.size > MAX_PHOTO_SIZE) {
+      toast({
+        title: "Ошибка",
+        description: "Фото не должно быть больше 5MB",
+        variant: "destructive",
+      });
+      return;
+    }
+    setPhoto(file);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!rating) {
+      toast({ title: "Поставьте оценку", variant: "destructive" });
+      return;
+    }
+    const data = new FormData();
+    data.append("rating", String(rating));
+    data.append("text", text);
+    if (photo) {
+      data.append("photo", photo);
+    }
+    submitMutation.mutate(data);
+  };
+
+  const pendingReview = eligibility && !eligibility.canReview && eligibility.review?.status === "pending";
+
+  return (
+    <div className="space-y-4 border-t pt-6" data-testid={`section-reviews-${productId}`}>
+      <div className="flex items-center gap-3">
+        <h3 className="font-serif text-xl font-semibold">Отзывы</h3>
+        {summary && (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground" data-testid={`text-reviews-summary-${productId}`}>
+            <StarRating value={summary.average} />
+            <span className="font-medium text-foreground">{summary.average.toFixed(1)}</span>
+            <span>· {summary.count}</span>
+          </div>
+        )}
+      </div>
+
+      {eligibility?.canReview && (
+        <form onSubmit={handleSubmit} className="space-y-3 rounded-lg bg-muted/50 p-4" data-testid="form-review">
+          <p className="text-sm font-medium">Поделитесь впечатлением о чае</p>
+          <div className="flex items-center gap-1">
+            {[1, 2, 3, 4, 5].map(star => (
+              <button
+                key={star}
+                type="button"
+                onClick={() => setRating(star)}
+                aria-label={`Оценка ${star}`}
+                data-testid={`button-review-star-${star}`}
+              >
+                <Star className={`w-6 h-6 ${star <= rating ? "fill-amber-400 text-amber-400" : "text-muted-foreground/40"}`} />
+              </button>
+            ))}
+          </div>
+          <Textarea
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            placeholder="Вкус, аромат, как заваривали..."
+            rows={4}
+            maxLength={2000}
+            data-testid="input-review-text"
+          />
+          <div className="flex items-center justify-between gap-2">
+            {photo ? (
+              <div className="flex items-center gap-2 text-sm text-muted-foreground min-w-0">
+                <span className="truncate">{photo.name}</span>
+                <Button type="button" variant="ghost" size="icon" onClick={() => setPhoto(null)} data-testid="button-review-remove-photo">
+                  <X className="w-4 h-4" />
+                </Button>
+              </div>
+            ) : (
+              <label className="flex items-center gap-2 text-sm text-muted-foreground cursor-pointer hover:text-foreground">
+                <ImagePlus className="w-4 h-4" />
+                Добавить фото
+                <input type="file" accept="image/*" className="hidden" onChange={handlePhotoChange} data-testid="input-review-photo" />
+              </label>
+            )}
+            <Button type="submit" disabled={submitMutation.isPending} data-testid="button-review-submit">
+              {submitMutation.isPending ? "Отправка..." : "Отправить"}
+            </Button>
+          </div>
+        </form>
+      )}
+
+      {pendingReview && (
+        <p className="text-sm text-muted-foreground" data-testid="text-review-pending">
+          Ваш отзыв на проверке и скоро появится здесь
+        </p>
+      )}
+
+      {isLoading ? (
+        <p className="text-sm text-muted-foreground">Загрузка отзывов...</p>
+      ) : reviews.length === 0 ? (
+        <p className="text-sm text-muted-foreground" data-testid="text-no-reviews">
+          Пока нет отзывов. Отзыв может оставить покупатель, получивший заказ с этим чаем.
+        </p>
+      ) : (
+        <div className="space-y-4">
+          {reviews.map(review => (
+            <div key={review.id} className="space-y-2" data-testid={`review-${review.id}`}>
+              <div className="flex items-center gap-2 text-sm">
+                <span className="font-medium">{review.authorName}</span>
+                <StarRating value={review.rating} size="w-3.5 h-3.5" />
+                <span className="text-muted-foreground">
+                  {format(new Date(review.createdAt), "d MMMM yyyy", { locale: ru })}
+                </span>
+              </div>
+              <p className="text-sm leading-relaxed whitespace-pre-line">{review.text}</p>
+              {review.photo && (
+                <a href={review.photo} target="_blank" rel="noopener noreferrer">
+                  <img
+                    src={review.photo}
+                    alt="Фото из отзыва"
+                    className="h-24 w-24 rounded-md object-cover"
+                    loading="lazy"
+                  />
+                </a>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
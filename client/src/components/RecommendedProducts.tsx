@@ -1,18 +1,21 @@
 import { useQuery } from "@tanstack/react-query";
 import { useEffect, useRef } from "react";
-import { Product } from "@shared/schema";
-import ProductCard from "./ProductCard";
+import { ProductWithVariants } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import ProductCard, { type CartLineInfo } from "./ProductCard";
 import { Sparkles } from "lucide-react";
 
 interface CartItemInfo {
   quantity: number;
   pricePerUnit: number;
   originalPrice: number;
+  lines: CartLineInfo[];
 }
 
 interface RecommendedProductsProps {
-  onAddToCart: (id: number, quantity: number) => void;
-  onUpdateQuantity: (id: number, quantity: number) => void;
+  onAddToCart: (id: number, quantity: number, pricePerUnit?: number, variantId?: number | null) => void;
+  onUpdateQuantity: (id: number, quantity: number, variantId?: number | null) => void;
   onProductClick: (id: number) => void;
   cartItems: Map<number, CartItemInfo>;
   onRecommendationsLoaded?: (productIds: number[]) => void;
@@ -25,8 +28,14 @@ export default function RecommendedProducts({
   cartItems,
   onRecommendationsLoaded
 }: RecommendedProductsProps) {
-  const { data: recommendations, isLoading } = useQuery<Product[]>({
-    queryKey: ["/api/recommendations"],
+  const { user } = useAuth();
+  // Keyed by user so logging in or out swaps bestsellers for personal picks
+  const { data: recommendations, isLoading } = useQuery<ProductWithVariants[]>({
+    queryKey: ["/api/recommendations", user?.id ?? "guest"],
+    queryFn: async () => {
+      const res = await apiRequest("GET", "/api/recommendations");
+      return res.json();
+    },
   });
 
   // Notify parent about loaded recommendation IDs (including empty state)
@@ -57,7 +66,7 @@ export default function RecommendedProducts({
       <div className="flex items-center gap-2 mb-4">
         <Sparkles className="w-6 h-6 text-amber-500" />
         <h2 className="font-serif text-2xl font-semibold" data-testid="heading-recommendations">
-          Рекомендуем вам
+          {user ? "Рекомендуем вам" : "Популярное"}
         </h2>
       </div>
       <div className="grid grid-cols-2 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-3 sm:gap-6">
@@ -67,10 +76,7 @@ export default function RecommendedProducts({
             <div key={product.id} className="h-full">
               <ProductCard
                 {...product}
-                isInCart={!!cartInfo}
-                cartQuantity={cartInfo?.quantity || 0}
-                cartPricePerUnit={cartInfo?.pricePerUnit}
-                cartOriginalPrice={cartInfo?.originalPrice}
+                cartLines={cartInfo?.lines}
                 onAddToCart={onAddToCart}
                 onUpdateQuantity={onUpdateQuantity}
                 onClick={onProductClick}
@@ -0,0 +1,90 @@
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Copy, Users } from "lucide-react";
+import { SiTelegram } from "react-icons/si";
+import { useToast } from "@/hooks/use-toast";
+import { formatReferralReward } from "@shared/referrals";
+import type { ReferralStats } from "@shared/schema";
+
+export function ReferralCard() {
+  const { toast } = useToast();
+
+  const { data: stats } = useQuery<ReferralStats>({
+    queryKey: ['/api/referrals'],
+  });
+
+  const copyLink = async (link: string) => {
+    try {
+      await navigator.clipboard.writeText(link);
+      toast({ title: "Скопировано", description: "Ссылка-приглашение в буфере обмена" });
+    } catch {
+      toast({ title: "Ошибка", description: "Не удалось скопировать", variant: "destructive" });
+    }
+  };
+
+  if (!stats) return null;
+
+  return (
+    <Card data-testid="card-referrals">
+      <CardContent className="pt-6">
+        <div className="flex items-center gap-3 mb-2">
+          <Users className="w-6 h-6 text-primary" />
+          <h3 className="font-serif text-xl font-semibold">Пригласить друга</h3>
+        </div>
+        <p className="text-sm text-muted-foreground mb-4">
+          Когда друг зарегистрируется по вашей ссылке и получит первый заказ, вы получите{" "}
+          {formatReferralReward(stats.rewardType, stats.referrerReward)}, а он —{" "}
+          {formatReferralReward(stats.rewardType, stats.refereeReward)}.
+        </p>
+
+        {stats.code && stats.link ? (
+          <>
+            <div className="flex flex-col sm:flex-row gap-2">
+              <Input value={stats.link} readOnly className="font-mono text-sm" data-testid="input-referral-link" />
+              <Button type="button" onClick={() => copyLink(stats.link!)} data-testid="button-copy-referral-link">
+                <Copy className="w-4 h-4 mr-2" />
+                Копировать
+              </Button>
+            </div>
+            <div className="flex flex-wrap items-center justify-between gap-2 mt-3 text-sm">
+              <span className="text-muted-foreground">
+                Код: <span className="font-mono font-semibold text-foreground" data-testid="text-referral-code">{stats.code}</span>
+              </span>
+              {stats.botLink && (
+                <Button variant="ghost" size="sm" className="px-0" onClick={() => copyLink(stats.botLink!)} data-testid="button-copy-referral-bot-link">
+                  <SiTelegram className="w-4 h-4 mr-2" />
+                  Ссылка на бота
+                </Button>
+              )}
+            </div>
+          </>
+        ) : (
+          <p className="text-sm" data-testid="text-referral-unverified">
+            Подтвердите телефон, чтобы получить ссылку-приглашение.
+          </p>
+        )}
+
+        <div className="grid grid-cols-3 gap-2 mt-4 text-center">
+          <div className="rounded-md bg-muted/50 p-2">
+            <p className="text-2xl font-semibold" data-testid="text-referrals-invited">{stats.invited}</p>
+            <p className="text-xs text-muted-foreground">зарегистрировались</p>
+          </div>
+          <div className="rounded-md bg-muted/50 p-2">
+            <p className="text-2xl font-semibold" data-testid="text-referrals-rewarded">{stats.rewarded}</p>
+            <p className="text-xs text-muted-foreground">сделали заказ</p>
+          </div>
+          <div className="rounded-md bg-muted/50 p-2">
+            <p className="text-lg font-semibold" data-testid="text-referrals-earned">
+              {stats.earnedXp > 0 && <span className="block">{stats.earnedXp.toLocaleString('ru-RU')} XP</span>}
+              {stats.earnedWallet > 0 && <span className="block">{(stats.earnedWallet / 100).toLocaleString('ru-RU')} ₽</span>}
+              {stats.earnedXp === 0 && stats.earnedWallet === 0 && "—"}
+            </p>
+            <p className="text-xs text-muted-foreground">получено</p>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,94 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Plus, X } from "lucide-react";
+import type { VolumeDiscountTier } from "@shared/volumeDiscounts";
+
+interface VolumeDiscountTiersEditorProps {
+  value: VolumeDiscountTier[] | null;
+  onChange: (value: VolumeDiscountTier[] | null) => void;
+  // Set for categories and products: unchecked keeps null, so the tiers come from above
+  inheritLabel?: string;
+  testIdPrefix?: string;
+}
+
+export default function VolumeDiscountTiersEditor({ value, onChange, inheritLabel, testIdPrefix = "volume-discount" }: VolumeDiscountTiersEditorProps) {
+  const isOwn = value !== null;
+  const tiers = value ?? [];
+
+  const updateTier = (index: number, patch: Partial<VolumeDiscountTier>) => {
+    onChange(tiers.map((tier, i) => (i === index ? { ...tier, ...patch } : tier)));
+  };
+
+  return (
+    <div className="space-y-3">
+      {inheritLabel && (
+        <label className="flex items-center gap-2 text-sm cursor-pointer">
+          <Checkbox
+            checked={isOwn}
+            onCheckedChange={(checked) => onChange(checked ? [...tiers] : null)}
+            data-testid={`checkbox-${testIdPrefix}-own`}
+          />
+          Свои скидки за объём
+        </label>
+      )}
+      {inheritLabel && !isOwn ? (
+        <p className="text-sm text-muted-foreground">{inheritLabel}</p>
+      ) : (
+        <>
+          {tiers.map((tier, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <span className="text-sm text-muted-foreground">от</span>
+              <Input
+                type="number"
+                min={1}
+                className="w-24"
+                value={tier.minQuantity || ""}
+                onChange={(e) => updateTier(index, { minQuantity: parseInt(e.target.value, 10) || 0 })}
+                data-testid={`input-${testIdPrefix}-min-${index}`}
+              />
+              <span className="text-sm text-muted-foreground">г — скидка</span>
+              <Input
+                type="number"
+                min={0}
+                max={100}
+                step="0.5"
+                className="w-20"
+                value={tier.percent || ""}
+                onChange={(e) => updateTier(index, { percent: parseFloat(e.target.value) || 0 })}
+                data-testid={`input-${testIdPrefix}-percent-${index}`}
+              />
+              <span className="text-sm text-muted-foreground">%</span>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                onClick={() => onChange(tiers.filter((_, i) => i !== index))}
+                data-testid={`button-${testIdPrefix}-remove-${index}`}
+              >
+                <X className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+          {tiers.length === 0 && (
+            <p className="text-sm text-muted-foreground">Без скидки за объём</p>
+          )}
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => {
+              const last = tiers[tiers.length - 1];
+              onChange([...tiers, { minQuantity: last ? last.minQuantity * 2 : 100, percent: last ? last.percent + 5 : 10 }]);
+            }}
+            disabled={tiers.length >= 10}
+            data-testid={`button-${testIdPrefix}-add`}
+          >
+            <Plus className="w-4 h-4 mr-1" />
+            Добавить ступень
+          </Button>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,92 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Gift, Loader2, Wallet } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { WalletTransaction } from "@shared/schema";
+
+interface WalletResponse {
+  balance: number; // Kopecks
+  transactions: WalletTransaction[];
+}
+
+export function WalletCard() {
+  const { toast } = useToast();
+  const [code, setCode] = useState("");
+
+  const { data: wallet } = useQuery<WalletResponse>({
+    queryKey: ['/api/wallet'],
+  });
+
+  const redeemMutation = useMutation({
+    mutationFn: async (code: string) => {
+      const res = await apiRequest('POST', '/api/gift-certificates/redeem', { code });
+      return await res.json() as { amount: number };
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/wallet'] });
+      setCode("");
+      toast({
+        title: "Сертификат активирован",
+        description: `На баланс зачислено ${(data.amount / 100).toLocaleString('ru-RU')} ₽`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Ошибка",
+        description: error.message || "Не удалось активировать сертификат",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleRedeem = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (code.trim()) {
+      redeemMutation.mutate(code.trim());
+    }
+  };
+
+  return (
+    <Card data-testid="card-wallet">
+      <CardContent className="pt-6">
+        <div className="flex items-center gap-3 mb-4">
+          <Wallet className="w-6 h-6 text-primary" />
+          <h3 className="font-serif text-xl font-semibold">Баланс</h3>
+          <span className="ml-auto text-2xl font-semibold" data-testid="text-wallet-balance">
+            {((wallet?.balance ?? 0) / 100).toLocaleString('ru-RU')} ₽
+          </span>
+        </div>
+
+        <form onSubmit={handleRedeem} className="flex flex-col sm:flex-row gap-2">
+          <Input
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            placeholder="Код подарочного сертификата"
+            className="font-mono uppercase"
+            data-testid="input-gift-certificate-code"
+          />
+          <Button
+            type="submit"
+            disabled={!code.trim() || redeemMutation.isPending}
+            data-testid="button-redeem-gift-certificate"
+          >
+            {redeemMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Активировать
+          </Button>
+        </form>
+
+        <Link href="/gift-certificates">
+          <Button variant="ghost" size="sm" className="mt-3 px-0" data-testid="link-gift-certificates">
+            <Gift className="w-4 h-4 mr-2" />
+            Подарить сертификат
+          </Button>
+        </Link>
+      </CardContent>
+    </Card>
+  );
+}
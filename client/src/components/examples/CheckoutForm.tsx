@@ -6,6 +6,7 @@ export default function CheckoutFormExample() {
       <CheckoutForm
         onSubmit={(data) => console.log('Order submitted:', data)}
         onCancel={() => console.log('Cancelled')}
+        items={[]}
       />
     </div>
   );
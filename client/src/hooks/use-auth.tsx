@@ -8,6 +8,7 @@ import { insertUserSchema, User as SelectUser, InsertUser } from "@shared/schema
 import { getQueryFn, apiRequest, queryClient } from "../lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { migrateGuestCart } from "@/lib/migrateCart";
+import { migrateGuestFavorites } from "@/lib/guestFavorites";
 
 type AuthContextType = {
   user: SelectUser | null;
@@ -40,8 +41,9 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     },
     onSuccess: async (user: SelectUser) => {
       queryClient.setQueryData(["/api/user"], user);
-      // Migrate guest cart to user's cart
+      // Migrate guest cart and favourites to the account
       await migrateGuestCart();
+      await migrateGuestFavorites();
     },
     onError: (error: Error) => {
       toast({
@@ -0,0 +1,34 @@
+import { useQuery, keepPreviousData } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest } from "@/lib/queryClient";
+import type { CartQuoteRequest } from "@shared/schema";
+import type { PriceQuote } from "@shared/pricing";
+
+/**
+ * Cart totals priced by the server with the same engine as the order itself,
+ * so the drawer, the checkout form and the payment always agree
+ */
+export function useCartQuote(
+  items: CartQuoteRequest["items"],
+  { promoCode, phone, xpPoints, enabled = true }: { promoCode?: string; phone?: string; xpPoints?: number; enabled?: boolean } = {}
+) {
+  const { user } = useAuth();
+  const body: CartQuoteRequest = {
+    items: items.map(({ id, variantId, quantity }) => ({ id, variantId: variantId ?? null, quantity })),
+    promoCode: promoCode || undefined,
+    phone: phone || undefined,
+    xpPoints: xpPoints || undefined,
+  };
+
+  return useQuery<PriceQuote>({
+    // Discounts depend on the account, so the user is part of the key
+    queryKey: ["/api/cart/quote", user?.id ?? null, body],
+    queryFn: async () => {
+      const res = await apiRequest("POST", "/api/cart/quote", body);
+      return res.json();
+    },
+    enabled: enabled && items.length > 0,
+    staleTime: 0,
+    placeholderData: keepPreviousData,
+  });
+}
@@ -0,0 +1,60 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { GUEST_FAVORITES_EVENT, readGuestFavorites, writeGuestFavorites } from "@/lib/guestFavorites";
+
+/**
+ * Favourite product ids: from the account when logged in, from localStorage for guests
+ */
+export function useFavorites() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [guestIds, setGuestIds] = useState<number[]>(readGuestFavorites);
+
+  useEffect(() => {
+    const sync = () => setGuestIds(readGuestFavorites());
+    window.addEventListener(GUEST_FAVORITES_EVENT, sync);
+    window.addEventListener("storage", sync);
+    return () => {
+      window.removeEventListener(GUEST_FAVORITES_EVENT, sync);
+      window.removeEventListener("storage", sync);
+    };
+  }, []);
+
+  const { data: accountIds = [] } = useQuery<number[]>({
+    queryKey: ["/api/favorites"],
+    enabled: !!user,
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: async ({ productId, favorite }: { productId: number; favorite: boolean }) => {
+      const res = favorite
+        ? await apiRequest("POST", "/api/favorites", { productId })
+        : await apiRequest("DELETE", `/api/favorites/${productId}`);
+      return res.json() as Promise<number[]>;
+    },
+    onSuccess: (ids) => {
+      queryClient.setQueryData(["/api/favorites"], ids);
+      queryClient.invalidateQueries({ queryKey: ["/api/favorites/products"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Ошибка", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const favoriteIds = user ? accountIds : guestIds;
+  const isFavorite = (productId: number) => favoriteIds.includes(productId);
+
+  const toggleFavorite = (productId: number) => {
+    const favorite = !isFavorite(productId);
+    if (user) {
+      toggleMutation.mutate({ productId, favorite });
+    } else {
+      writeGuestFavorites(favorite ? [productId, ...guestIds] : guestIds.filter(id => id !== productId));
+    }
+  };
+
+  return { favoriteIds, isFavorite, toggleFavorite };
+}
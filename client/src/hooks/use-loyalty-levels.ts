@@ -0,0 +1,12 @@
+import { useQuery } from "@tanstack/react-query";
+import type { LoyaltyLevel } from "@shared/loyalty";
+
+/**
+ * Loyalty levels as configured in the admin, ordered by threshold; the same list
+ * the server prices orders with
+ */
+export function useLoyaltyLevels() {
+  return useQuery<LoyaltyLevel[]>({
+    queryKey: ["/api/loyalty-levels"],
+  });
+}
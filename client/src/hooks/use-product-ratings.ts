@@ -0,0 +1,9 @@
+import { useQuery } from "@tanstack/react-query";
+import type { ProductRatingSummary } from "@shared/schema";
+
+export function useProductRatings() {
+  return useQuery<Record<number, ProductRatingSummary>>({
+    queryKey: ["/api/reviews/summary"],
+    staleTime: 5 * 60 * 1000, // Ratings only change after a review is moderated
+  });
+}
@@ -0,0 +1,25 @@
+import { useCallback } from "react";
+import { useQuery } from "@tanstack/react-query";
+import type { Category, SiteSettings } from "@shared/schema";
+import { resolveVolumeDiscountTiers, type VolumeDiscountTier } from "@shared/volumeDiscounts";
+
+type TieredProduct = Parameters<typeof resolveVolumeDiscountTiers>[0];
+
+/**
+ * Resolves a product's custom-weight discount tiers the same way the server prices them:
+ * product, then category branch, then the shop-wide tiers from site settings
+ */
+export function useVolumeDiscounts() {
+  const { data: siteSettings } = useQuery<SiteSettings>({
+    queryKey: ["/api/site-settings"],
+  });
+  const { data: categories = [] } = useQuery<Category[]>({
+    queryKey: ["/api/categories"],
+  });
+
+  return useCallback(
+    (product: TieredProduct): VolumeDiscountTier[] =>
+      resolveVolumeDiscountTiers(product, categories, siteSettings?.volumeDiscountTiers),
+    [categories, siteSettings]
+  );
+}
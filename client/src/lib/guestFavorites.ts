@@ -0,0 +1,45 @@
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+const GUEST_FAVORITES_KEY = 'guestFavorites';
+// Lets every heart on the page follow changes made by another one
+export const GUEST_FAVORITES_EVENT = 'guest-favorites-change';
+
+export function readGuestFavorites(): number[] {
+  try {
+    const ids = JSON.parse(localStorage.getItem(GUEST_FAVORITES_KEY) || '[]');
+    return Array.isArray(ids) ? ids.filter((id): id is number => Number.isInteger(id) && id > 0) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function writeGuestFavorites(ids: number[]): void {
+  if (ids.length > 0) {
+    localStorage.setItem(GUEST_FAVORITES_KEY, JSON.stringify(ids));
+  } else {
+    localStorage.removeItem(GUEST_FAVORITES_KEY);
+  }
+  window.dispatchEvent(new Event(GUEST_FAVORITES_EVENT));
+}
+
+/**
+ * Move guest favourites from localStorage to the account, like migrateGuestCart.
+ * Should be called after successful login or registration
+ */
+export async function migrateGuestFavorites(): Promise<void> {
+  try {
+    const productIds = readGuestFavorites();
+    if (productIds.length > 0) {
+      const res = await apiRequest("POST", "/api/favorites/merge", { productIds });
+      queryClient.setQueryData(['/api/favorites'], await res.json());
+      writeGuestFavorites([]);
+    } else {
+      // Another account may have been logged in before
+      await queryClient.invalidateQueries({ queryKey: ['/api/favorites'] });
+    }
+    await queryClient.invalidateQueries({ queryKey: ['/api/favorites/products'] });
+  } catch (error) {
+    console.error('Failed to migrate guest favorites:', error);
+    // Don't throw - we don't want to block login if migration fails; the list stays in localStorage
+  }
+}
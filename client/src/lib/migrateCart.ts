@@ -18,8 +18,9 @@ export async function migrateGuestCart(): Promise<void> {
       return; // Empty cart
     }
 
-    // Track which items were successfully migrated
-    const successfulIds = new Set<number>();
+    // Track which lines were successfully migrated (product + variant)
+    const lineKey = (item: any) => `${item.id}:${item.variantId ?? ''}`;
+    const successfulIds = new Set<string>();
 
     // Migrate each item to user's cart
     await Promise.all(
@@ -40,9 +41,10 @@ export async function migrateGuestCart(): Promise<void> {
           await apiRequest("POST", "/api/cart", {
             productId: item.id,
             quantity: item.quantity,
+            variantId: item.variantId ?? null,
           });
           // Track successful migration
-          successfulIds.add(item.id);
+          successfulIds.add(lineKey(item));
         } catch (error) {
           console.error(`Failed to migrate cart item ${item.id}:`, error);
           // Don't track - failed items will remain in cart
@@ -71,17 +73,17 @@ export async function migrateGuestCart(): Promise<void> {
             // - New items added during migration
             // - Updated quantities for existing items
             cartToSave = currentCart.filter(item => 
-              item && typeof item.id === 'number' && !successfulIds.has(item.id)
+              item && typeof item.id === 'number' && !successfulIds.has(lineKey(item))
             );
           }
         } catch (error) {
           console.error('Failed to parse current guest cart:', error);
           // On parse error, keep failed items from original snapshot
-          cartToSave = guestCart.filter(item => !successfulIds.has(item.id));
+          cartToSave = guestCart.filter(item => !successfulIds.has(lineKey(item)));
         }
       } else {
         // Current cart was cleared, keep failed items from original snapshot
-        cartToSave = guestCart.filter(item => !successfulIds.has(item.id));
+        cartToSave = guestCart.filter(item => !successfulIds.has(lineKey(item)));
       }
       
       if (cartToSave.length > 0) {
@@ -0,0 +1,87 @@
+import { format } from "date-fns";
+import { ru } from "date-fns/locale";
+import type { DbOrder, OrderItem, Product } from "@shared/schema";
+import { getBrewingLines } from "@shared/brewing";
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function formatQuantity(item: OrderItem, product: Product | undefined): string {
+  const isPiece = product ? product.pricingUnit === "piece" || product.category === "teaware" : false;
+  const quantity = `${item.quantity} ${isPiece ? "шт" : "г"}`;
+  return item.variantName ? `${item.variantName} · ${quantity}` : quantity;
+}
+
+function renderItem(item: OrderItem, product: Product | undefined): string {
+  const brewingLines = product ? getBrewingLines(product) : [];
+  const brewing = brewingLines.length > 0
+    ? `<div class="brewing">${brewingLines
+        .map(line => `<span>${escapeHtml(line.label)}: <b>${escapeHtml(line.value)}</b></span>`)
+        .join("")}</div>`
+    : "";
+  return `
+    <tr>
+      <td class="check">☐</td>
+      <td>
+        <div class="name">${escapeHtml(item.name)}</div>
+        ${brewing}
+      </td>
+      <td class="qty">${escapeHtml(formatQuantity(item, product))}</td>
+    </tr>`;
+}
+
+/**
+ * Opens a printable packing slip for the order: items to pick plus a brewing card for each tea
+ */
+export function printPackingSlip(order: DbOrder, products: Product[]): void {
+  const items: OrderItem[] = JSON.parse(order.items);
+  const productsById = new Map(products.map(product => [product.id, product]));
+  const orderDate = format(new Date(order.createdAt), "d MMMM yyyy", { locale: ru });
+
+  const html = `<!DOCTYPE html>
+<html lang="ru">
+<head>
+  <meta charset="UTF-8">
+  <title>Заказ #${order.id} — упаковочный лист</title>
+  <style>
+    body { font-family: -apple-system, "Segoe UI", Roboto, sans-serif; font-size: 13px; color: #111; margin: 24px; }
+    h1 { font-size: 20px; margin: 0 0 4px; }
+    .meta { color: #555; margin-bottom: 16px; }
+    .customer { margin-bottom: 16px; line-height: 1.5; }
+    table { width: 100%; border-collapse: collapse; }
+    td { border-top: 1px solid #ddd; padding: 8px 6px; vertical-align: top; }
+    .check { width: 20px; font-size: 16px; }
+    .name { font-weight: 600; }
+    .qty { white-space: nowrap; text-align: right; }
+    .brewing { margin-top: 4px; color: #444; font-size: 12px; }
+    .brewing span { display: inline-block; margin-right: 12px; }
+    .footer { margin-top: 24px; color: #555; }
+  </style>
+</head>
+<body>
+  <h1>Заказ #${order.id}</h1>
+  <div class="meta">${escapeHtml(orderDate)}</div>
+  <div class="customer">
+    <div><b>${escapeHtml(order.name)}</b>, ${escapeHtml(order.phone)}</div>
+    <div>${escapeHtml(order.address)}</div>
+    ${order.comment ? `<div>Комментарий: ${escapeHtml(order.comment)}</div>` : ""}
+  </div>
+  <table>
+    ${items.map(item => renderItem(item, productsById.get(item.id))).join("")}
+  </table>
+  <div class="footer">Спасибо за заказ! Пуэр Паб</div>
+</body>
+</html>`;
+
+  const slipWindow = window.open("", "_blank");
+  if (!slipWindow) return;
+  slipWindow.document.write(html);
+  slipWindow.document.close();
+  slipWindow.focus();
+  slipWindow.print();
+}
@@ -4,6 +4,11 @@ import Header from "@/components/Header";
 import AdminProductForm from "@/components/AdminProductForm";
 import QuizConfigEditor from "@/components/QuizConfigEditor";
 import TeaTypeManager from "@/components/TeaTypeManager";
+import AdminCategoryManager from "@/components/AdminCategoryManager";
+import AdminPromoCodes from "@/components/AdminPromoCodes";
+import AdminSaleCampaigns from "@/components/AdminSaleCampaigns";
+import AdminGiftCertificates from "@/components/AdminGiftCertificates";
+import AdminReferrals from "@/components/AdminReferrals";
 import AdminUserManagement from "@/components/AdminUserManagement";
 import AdminOrderManagement from "@/components/AdminOrderManagement";
 import AdminSiteSettings from "@/components/AdminSiteSettings";
@@ -12,6 +17,9 @@ import AdminBannerManagement from "@/components/AdminBannerManagement";
 import AdminTVDisplay from "@/components/AdminTVDisplay";
 import AdminExperiments from "@/components/AdminExperiments";
 import AdminMedia from "@/components/AdminMedia";
+import AdminInventory from "@/components/AdminInventory";
+import AdminReviews from "@/components/AdminReviews";
+import AdminProductImport from "@/components/AdminProductImport";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
@@ -26,11 +34,16 @@ import {
 } from "@/components/ui/dialog";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { Plus, Pencil, Trash2, LogOut, Palette, Download, Link as LinkIcon, Copy, Check, FileSpreadsheet } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, Pencil, Archive, ArchiveRestore, Bell, LogOut, Palette, Download, Link as LinkIcon, Copy, Check, FileSpreadsheet } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { getTeaTypeBadgeStyleDynamic } from "@/lib/tea-colors";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import type { QuizConfig, Product, InsertProduct, Settings, UpdateSettings } from "@shared/schema";
+import type { QuizConfig, Product, ProductWithVariants, InsertProduct, ProductVariantInput, Settings, UpdateSettings, ProductStatus } from "@shared/schema";
+import { sortVariants, isLowStock } from "@shared/variants";
+import type { BrewVessel } from "@shared/brewing";
+import type { PressingForm } from "@shared/provenance";
+import { isProductPublished, isProductScheduled, PRODUCT_STATUS_LABELS } from "@shared/publishing";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -44,7 +57,8 @@ export default function Admin() {
   );
   const [passwordInput, setPasswordInput] = useState("");
   const [isFormOpen, setIsFormOpen] = useState(false);
-  const [editingProduct, setEditingProduct] = useState<Product | null>(null);
+  const [editingProduct, setEditingProduct] = useState<ProductWithVariants | null>(null);
+  const [productFilter, setProductFilter] = useState<"active" | ProductStatus | "all">("active");
   const [isYMLLinkDialogOpen, setIsYMLLinkDialogOpen] = useState(false);
   const [ymlLinkCopied, setYmlLinkCopied] = useState(false);
   const { toast } = useToast();
@@ -119,12 +133,30 @@ export default function Admin() {
     return response.json();
   };
 
-  // Products
-  const { data: products = [], isLoading: productsLoading } = useQuery<Product[]>({
-    queryKey: ["/api/products"],
-    queryFn: () => adminFetch("/api/products"),
+  // Products (admin list includes drafts and archived ones)
+  const { data: products = [], isLoading: productsLoading } = useQuery<ProductWithVariants[]>({
+    queryKey: ["/api/admin/products"],
+    queryFn: () => adminFetch("/api/admin/products"),
     enabled: !!adminPassword,
   });
+  const visibleProducts = products.filter(product =>
+    productFilter === "all" ? true
+      : productFilter === "active" ? product.status !== "archived"
+      : product.status === productFilter
+  );
+
+  // Customers waiting for out-of-stock products ("Сообщить о поступлении")
+  const { data: restockSubscribers = {} } = useQuery<Record<number, number>>({
+    queryKey: ["/api/admin/stock-subscriptions/counts"],
+    queryFn: () => adminFetch("/api/admin/stock-subscriptions/counts"),
+    enabled: !!adminPassword,
+  });
+
+  const invalidateProducts = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/products"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/tags"] });
+  };
 
   // Quiz config
   const { data: quizConfig } = useQuery<QuizConfig>({
@@ -147,16 +179,15 @@ export default function Admin() {
   });
 
   const createProductMutation = useMutation({
-    mutationFn: async (product: InsertProduct) => {
+    mutationFn: async (product: InsertProduct & { variants?: ProductVariantInput[] }) => {
       return await adminFetch("/api/products", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify(product),
       });
     },
-    onSuccess: (createdProduct: Product) => {
-      queryClient.invalidateQueries({ queryKey: ["/api/products"] });
-      queryClient.invalidateQueries({ queryKey: ["/api/tags"] });
+    onSuccess: (createdProduct: ProductWithVariants) => {
+      invalidateProducts();
       
       // If media card type was selected, keep form open for media upload
       if (createdProduct.cardType === "media") {
@@ -183,7 +214,7 @@ export default function Admin() {
   });
 
   const updateProductMutation = useMutation({
-    mutationFn: async ({ id, product }: { id: number; product: InsertProduct }) => {
+    mutationFn: async ({ id, product }: { id: number; product: InsertProduct & { variants?: ProductVariantInput[] } }) => {
       return await adminFetch(`/api/products/${id}`, {
         method: "PUT",
         headers: { "Content-Type": "application/json" },
@@ -191,8 +222,7 @@ export default function Admin() {
       });
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/products"] });
-      queryClient.invalidateQueries({ queryKey: ["/api/tags"] });
+      invalidateProducts();
       toast({
         title: "Товар обновлен",
         description: "Изменения сохранены",
@@ -215,11 +245,32 @@ export default function Admin() {
       });
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/products"] });
-      queryClient.invalidateQueries({ queryKey: ["/api/tags"] });
+      invalidateProducts();
       toast({
-        title: "Товар удален",
-        description: "Товар успешно удален из каталога",
+        title: "Товар в архиве",
+        description: "Покупатели его больше не видят. Вернуть можно из архива",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Ошибка",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const restoreProductMutation = useMutation({
+    mutationFn: async (id: number) => {
+      return await adminFetch(`/api/admin/products/${id}/restore`, {
+        method: "POST",
+      });
+    },
+    onSuccess: () => {
+      invalidateProducts();
+      toast({
+        title: "Товар восстановлен",
+        description: "Товар снова опубликован в каталоге",
       });
     },
     onError: (error: Error) => {
@@ -284,13 +335,13 @@ export default function Admin() {
     setIsFormOpen(true);
   };
 
-  const handleEditProduct = (product: Product) => {
+  const handleEditProduct = (product: ProductWithVariants) => {
     setEditingProduct(product);
     setIsFormOpen(true);
   };
 
   const handleDeleteProduct = (id: number) => {
-    if (confirm("Вы уверены, что хотите удалить этот товар?")) {
+    if (confirm("Убрать товар в архив? Покупатели перестанут его видеть, восстановить можно в любой момент.")) {
       deleteProductMutation.mutate(id);
     }
   };
@@ -400,7 +451,13 @@ export default function Admin() {
         <Tabs defaultValue="products">
           <TabsList className="w-full max-w-5xl mb-8 flex flex-wrap gap-1 h-auto justify-start">
             <TabsTrigger value="products" data-testid="tab-products" className="min-w-max">Товары</TabsTrigger>
+            <TabsTrigger value="inventory" data-testid="tab-inventory" className="min-w-max">Склад</TabsTrigger>
             <TabsTrigger value="orders" data-testid="tab-orders" className="min-w-max">Заказы</TabsTrigger>
+            <TabsTrigger value="reviews" data-testid="tab-reviews" className="min-w-max">Отзывы</TabsTrigger>
+            <TabsTrigger value="promo-codes" data-testid="tab-promo-codes" className="min-w-max">Промокоды</TabsTrigger>
+            <TabsTrigger value="sales" data-testid="tab-sales" className="min-w-max">Акции</TabsTrigger>
+            <TabsTrigger value="gift-certificates" data-testid="tab-gift-certificates" className="min-w-max">Сертификаты</TabsTrigger>
+            <TabsTrigger value="referrals" data-testid="tab-referrals" className="min-w-max">Рефералы</TabsTrigger>
             <TabsTrigger value="users" data-testid="tab-users" className="min-w-max">Пользователи</TabsTrigger>
             <TabsTrigger value="stats" data-testid="tab-stats" className="min-w-max">Статистика</TabsTrigger>
             <TabsTrigger value="banners" data-testid="tab-banners" className="min-w-max">Баннеры</TabsTrigger>
@@ -409,6 +466,7 @@ export default function Admin() {
             <TabsTrigger value="media" data-testid="tab-media" className="min-w-max">Истории</TabsTrigger>
             <TabsTrigger value="settings" data-testid="tab-settings" className="min-w-max">Настройки</TabsTrigger>
             <TabsTrigger value="tea-types" data-testid="tab-tea-types" className="min-w-max">Типы чая</TabsTrigger>
+            <TabsTrigger value="categories" data-testid="tab-categories" className="min-w-max">Категории</TabsTrigger>
             <TabsTrigger value="quiz" data-testid="tab-quiz" className="min-w-max">Квиз подбора</TabsTrigger>
             <TabsTrigger value="waitlist" data-testid="tab-waitlist" className="min-w-max">Лист ожидания</TabsTrigger>
           </TabsList>
@@ -417,6 +475,18 @@ export default function Admin() {
             <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-3 sm:gap-4 mb-6">
               <h2 className="font-serif text-xl sm:text-2xl font-semibold">Управление товарами</h2>
               <div className="flex gap-2 sm:gap-3">
+                <Select value={productFilter} onValueChange={(value) => setProductFilter(value as typeof productFilter)}>
+                  <SelectTrigger className="w-36" data-testid="select-product-filter">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="active">Активные</SelectItem>
+                    <SelectItem value="published">Опубликованные</SelectItem>
+                    <SelectItem value="draft">Черновики</SelectItem>
+                    <SelectItem value="archived">Архив</SelectItem>
+                    <SelectItem value="all">Все</SelectItem>
+                  </SelectContent>
+                </Select>
                 <DropdownMenu>
                   <DropdownMenuTrigger asChild>
                     <Button
@@ -439,6 +509,7 @@ export default function Admin() {
                     </DropdownMenuItem>
                   </DropdownMenuContent>
                 </DropdownMenu>
+                <AdminProductImport adminFetch={adminFetch} adminPassword={adminPassword} />
                 <Button
                   onClick={handleAddProduct}
                   className="bg-primary text-primary-foreground border border-primary-border hover-elevate active-elevate-2"
@@ -455,16 +526,20 @@ export default function Admin() {
               <Card className="p-8 text-center">
                 <p className="text-muted-foreground">Загрузка товаров...</p>
               </Card>
-            ) : products.length === 0 ? (
+            ) : visibleProducts.length === 0 ? (
               <Card className="p-8 text-center">
                 <p className="text-muted-foreground" data-testid="text-no-products">
-                  Нет товаров. Добавьте первый товар.
+                  {products.length === 0 ? "Нет товаров. Добавьте первый товар." : "Нет товаров с таким статусом."}
                 </p>
               </Card>
             ) : (
               <div className="space-y-4">
-                {products.map((product) => (
-                  <Card key={product.id} className="p-6" data-testid={`admin-product-${product.id}`}>
+                {visibleProducts.map((product) => (
+                  <Card
+                    key={product.id}
+                    className={`p-6 ${product.status === "archived" ? "opacity-60" : ""}`}
+                    data-testid={`admin-product-${product.id}`}
+                  >
                     <div className="flex gap-6">
                       <img
                         src={product.images[0]}
@@ -478,6 +553,16 @@ export default function Admin() {
                             {product.name}
                           </h3>
                           <div className="flex flex-wrap gap-2 mb-2">
+                            {!isProductPublished(product) && (
+                              <Badge
+                                variant={product.status === "archived" ? "destructive" : "secondary"}
+                                data-testid={`badge-admin-status-${product.id}`}
+                              >
+                                {isProductScheduled(product)
+                                  ? `Публикация ${new Date(product.publishAt!).toLocaleString("ru-RU", { day: "2-digit", month: "2-digit", hour: "2-digit", minute: "2-digit" })}`
+                                  : PRODUCT_STATUS_LABELS[product.status as ProductStatus]}
+                              </Badge>
+                            )}
                             <Badge 
                               style={getTeaTypeBadgeStyleDynamic(product.teaType, teaTypesData)}
                               data-testid={`badge-admin-tea-type-${product.id}`}
@@ -493,6 +578,20 @@ export default function Admin() {
                                 {effect}
                               </Badge>
                             ))}
+                            {product.stock !== null && (
+                              <Badge
+                                variant={isLowStock(product, product.variants) ? "destructive" : "outline"}
+                                data-testid={`badge-admin-stock-${product.id}`}
+                              >
+                                Остаток: {product.stock} {product.pricingUnit === "piece" || product.category === "teaware" ? "шт" : "г"}
+                              </Badge>
+                            )}
+                            {restockSubscribers[product.id] > 0 && (
+                              <Badge variant="secondary" className="gap-1" data-testid={`badge-admin-restock-${product.id}`}>
+                                <Bell className="w-3 h-3" />
+                                Ждут поступления: {restockSubscribers[product.id]}
+                              </Badge>
+                            )}
                           </div>
                         </div>
                         <p className="text-muted-foreground" data-testid={`text-admin-product-description-${product.id}`}>
@@ -501,6 +600,15 @@ export default function Admin() {
                         <p className="text-xl font-semibold text-primary" data-testid={`text-admin-product-price-${product.id}`}>
                           {product.pricePerGram} ₽/г
                         </p>
+                        {product.variants?.length > 0 && (
+                          <div className="flex flex-wrap gap-2" data-testid={`text-admin-product-variants-${product.id}`}>
+                            {sortVariants(product.variants).map(v => (
+                              <Badge key={v.id} variant="secondary">
+                                {v.name} — {v.price} ₽{v.stock !== null ? ` · ${v.stock} упак.` : ""}
+                              </Badge>
+                            ))}
+                          </div>
+                        )}
                       </div>
                       <div className="flex flex-col gap-2">
                         <Button
@@ -511,15 +619,29 @@ export default function Admin() {
                         >
                           <Pencil className="w-4 h-4" />
                         </Button>
-                        <Button
-                          variant="outline"
-                          size="icon"
-                          onClick={() => handleDeleteProduct(product.id)}
-                          data-testid={`button-delete-product-${product.id}`}
-                          disabled={deleteProductMutation.isPending}
-                        >
-                          <Trash2 className="w-4 h-4" />
-                        </Button>
+                        {product.status === "archived" ? (
+                          <Button
+                            variant="outline"
+                            size="icon"
+                            onClick={() => restoreProductMutation.mutate(product.id)}
+                            data-testid={`button-restore-product-${product.id}`}
+                            disabled={restoreProductMutation.isPending}
+                            aria-label="Восстановить из архива"
+                          >
+                            <ArchiveRestore className="w-4 h-4" />
+                          </Button>
+                        ) : (
+                          <Button
+                            variant="outline"
+                            size="icon"
+                            onClick={() => handleDeleteProduct(product.id)}
+                            data-testid={`button-delete-product-${product.id}`}
+                            disabled={deleteProductMutation.isPending}
+                            aria-label="В архив"
+                          >
+                            <Archive className="w-4 h-4" />
+                          </Button>
+                        )}
                       </div>
                     </div>
                   </Card>
@@ -528,6 +650,10 @@ export default function Admin() {
             )}
           </TabsContent>
 
+          <TabsContent value="inventory">
+            <AdminInventory adminFetch={adminFetch} />
+          </TabsContent>
+
           <TabsContent value="orders">
             <div className="mb-6">
               <h2 className="font-serif text-2xl font-semibold">Управление заказами</h2>
@@ -538,6 +664,50 @@ export default function Admin() {
             {adminPassword && <AdminOrderManagement adminPassword={adminPassword} />}
           </TabsContent>
 
+          <TabsContent value="reviews">
+            <AdminReviews adminFetch={adminFetch} />
+          </TabsContent>
+
+          <TabsContent value="promo-codes">
+            <div className="mb-6">
+              <h2 className="font-serif text-2xl font-semibold">Промокоды</h2>
+              <p className="text-muted-foreground mt-2">
+                Скидки по кодам на сайте и в Telegram-боте, с отчётом по заказам и выручке
+              </p>
+            </div>
+            <AdminPromoCodes adminFetch={adminFetch} />
+          </TabsContent>
+
+          <TabsContent value="sales">
+            <div className="mb-6">
+              <h2 className="font-serif text-2xl font-semibold">Акции</h2>
+              <p className="text-muted-foreground mt-2">
+                Скидки на время: цены снижаются в каталоге, боте и YML-фиде с начала акции и возвращаются после её окончания
+              </p>
+            </div>
+            <AdminSaleCampaigns adminFetch={adminFetch} />
+          </TabsContent>
+
+          <TabsContent value="gift-certificates">
+            <div className="mb-6">
+              <h2 className="font-serif text-2xl font-semibold">Подарочные сертификаты</h2>
+              <p className="text-muted-foreground mt-2">
+                Купленные на сайте и выпущенные вручную сертификаты. Получатель активирует код в профиле, сумма зачисляется на баланс
+              </p>
+            </div>
+            <AdminGiftCertificates adminFetch={adminFetch} />
+          </TabsContent>
+
+          <TabsContent value="referrals">
+            <div className="mb-6">
+              <h2 className="font-serif text-2xl font-semibold">Реферальная программа</h2>
+              <p className="text-muted-foreground mt-2">
+                Кто пришёл по приглашениям и сколько бонусов начислено. Размер бонуса задаётся в настройках программы лояльности
+              </p>
+            </div>
+            <AdminReferrals adminFetch={adminFetch} />
+          </TabsContent>
+
           <TabsContent value="users">
             <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-3 sm:gap-4 mb-6">
               <div>
@@ -623,6 +793,16 @@ export default function Admin() {
             {adminPassword && <TeaTypeManager adminPassword={adminPassword} />}
           </TabsContent>
 
+          <TabsContent value="categories">
+            <div className="mb-6">
+              <h2 className="font-serif text-2xl font-semibold">Категории каталога</h2>
+              <p className="text-muted-foreground mt-2">
+                Вложенные разделы для витрины, Telegram-бота и выгрузки в Яндекс.Маркет
+              </p>
+            </div>
+            <AdminCategoryManager adminFetch={adminFetch} />
+          </TabsContent>
+
           <TabsContent value="quiz">
             {quizConfig ? (
               <QuizConfigEditor
@@ -701,19 +881,46 @@ export default function Admin() {
             }}
             defaultValues={editingProduct ? {
               name: editingProduct.name,
+              slug: editingProduct.slug || "",
               category: editingProduct.category as "tea" | "teaware",
+              categoryId: editingProduct.categoryId,
               pricingUnit: editingProduct.pricingUnit as "gram" | "piece",
               pricePerGram: editingProduct.pricePerGram,
               description: editingProduct.description,
               images: editingProduct.images,
               teaType: editingProduct.teaType,
               effects: editingProduct.effects,
-              availableQuantities: editingProduct.availableQuantities,
-              defaultQuantity: editingProduct.defaultQuantity,
-              fixedQuantityOnly: editingProduct.fixedQuantityOnly,
-              fixedQuantity: editingProduct.fixedQuantity,
+              variants: sortVariants(editingProduct.variants || []).map(v => ({
+                id: v.id,
+                name: v.name,
+                sku: v.sku,
+                weight: v.weight,
+                price: v.price,
+                stock: v.stock,
+                isDefault: v.isDefault,
+              })),
+              stock: editingProduct.stock,
+              lowStockThreshold: editingProduct.lowStockThreshold,
               outOfStock: editingProduct.outOfStock,
               cardType: editingProduct.cardType as "classic" | "media",
+              status: editingProduct.status as ProductStatus,
+              publishAt: editingProduct.publishAt,
+              brewTemperature: editingProduct.brewTemperature,
+              brewGramsPer100ml: editingProduct.brewGramsPer100ml,
+              brewSteeps: editingProduct.brewSteeps,
+              brewSteepTimes: editingProduct.brewSteepTimes || "",
+              brewVessel: editingProduct.brewVessel as BrewVessel | null,
+              harvestYear: editingProduct.harvestYear,
+              region: editingProduct.region || "",
+              factory: editingProduct.factory || "",
+              pressingForm: editingProduct.pressingForm as PressingForm | null,
+              volumeDiscountTiers: editingProduct.volumeDiscountTiers,
+              isBundle: editingProduct.isBundle,
+              bundleItems: (editingProduct.bundleItems || []).map(component => ({
+                productId: component.productId,
+                variantId: component.variantId,
+                quantity: component.quantity,
+              })),
             } : undefined}
             isSubmitting={createProductMutation.isPending || updateProductMutation.isPending}
             productId={editingProduct?.id}
@@ -8,11 +8,17 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Loader2, Home, ArrowLeft, Gift, ShoppingBag, Award } from "lucide-react";
 import { SiTelegram, SiVk } from "react-icons/si";
-import { useMutation } from "@tanstack/react-query";
+import { useMutation, useQuery } from "@tanstack/react-query";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { migrateGuestCart } from "@/lib/migrateCart";
+import { migrateGuestFavorites } from "@/lib/guestFavorites";
 import { useAbTesting, useAbEvent } from "@/hooks/use-ab-testing";
+import { formatReferralReward } from "@shared/referrals";
+import type { ReferralInvitation } from "@shared/schema";
+
+// Kept until registration, so the invitation survives browsing the shop first
+const REFERRAL_CODE_KEY = "referralCode";
 
 type VerificationStep = "register" | "verify-phone";
 type ForgotStep = "phone" | "verify-code" | "new-password";
@@ -40,6 +46,17 @@ export default function Auth() {
     email: "" 
   });
   const [verificationCode, setVerificationCode] = useState("");
+  const [referralCode] = useState(() => {
+    const fromLink = new URLSearchParams(window.location.search).get("ref");
+    if (fromLink) localStorage.setItem(REFERRAL_CODE_KEY, fromLink);
+    return fromLink || localStorage.getItem(REFERRAL_CODE_KEY);
+  });
+
+  const { data: invitation } = useQuery<ReferralInvitation>({
+    queryKey: ["/api/referrals", referralCode],
+    enabled: !!referralCode,
+    retry: false,
+  });
   
   // Forgot password state
   const [showForgotPassword, setShowForgotPassword] = useState(false);
@@ -110,8 +127,11 @@ export default function Auth() {
         // Goal form submission happens automatically via form action/target
         // No need to manually submit - the form with action="/goal/registration" already submitted
         
-        // Migrate guest cart to user's cart
+        localStorage.removeItem(REFERRAL_CODE_KEY);
+        
+        // Migrate guest cart and favourites to the account
         await migrateGuestCart();
+        await migrateGuestFavorites();
       } else if (data.verified) {
         // Password reset verification
         toast({
@@ -217,6 +237,10 @@ export default function Auth() {
       registrationData.email = registerData.email;
     }
     
+    if (invitation && referralCode) {
+      registrationData.referralCode = referralCode;
+    }
+    
     const result: any = await registerMutation.mutateAsync(registrationData);
     
     // If registration successful, send SMS code
@@ -499,7 +523,7 @@ export default function Auth() {
               </Button>
             </div>
           </div>
-          <Tabs defaultValue="login" className="w-full">
+          <Tabs defaultValue={referralCode ? "register" : "login"} className="w-full">
             <TabsList className="grid w-full grid-cols-2 mb-8">
               <TabsTrigger value="login" data-testid="tab-login">Вход</TabsTrigger>
               <TabsTrigger value="register" data-testid="tab-register">Регистрация</TabsTrigger>
@@ -570,6 +594,15 @@ export default function Auth() {
 
             {/* Register Tab */}
             <TabsContent value="register">
+              {invitation && registerStep === "register" && (
+                <div className="mb-4 flex items-start gap-3 rounded-md border border-primary/40 bg-primary/5 p-4 text-sm" data-testid="text-referral-invitation">
+                  <Gift className="w-5 h-5 text-primary shrink-0" />
+                  <p>
+                    {invitation.referrerName ? `${invitation.referrerName} приглашает вас в Пуэр Паб.` : "Вас пригласили в Пуэр Паб."}{" "}
+                    После первого выполненного заказа вы получите {formatReferralReward(invitation.rewardType, invitation.refereeReward)}.
+                  </p>
+                </div>
+              )}
               {/* Visible form wrapping Card for Yandex Metrica goal tracking */}
               <form
                 ref={registrationFormRef}
@@ -0,0 +1,101 @@
+import { useParams, Link } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Gift, Home, Printer } from "lucide-react";
+import type { PublicGiftCertificate } from "@shared/schema";
+
+const STATE_LABELS: Record<Exclude<PublicGiftCertificate["state"], "active">, string> = {
+  redeemed: "Сертификат уже активирован",
+  expired: "Срок действия сертификата истёк",
+  cancelled: "Сертификат аннулирован",
+};
+
+// Printable certificate; "Save as PDF" in the browser print dialog gives the PDF version
+export default function GiftCertificatePrint() {
+  const { code } = useParams<{ code: string }>();
+
+  const { data: certificate, isLoading, error } = useQuery<PublicGiftCertificate>({
+    queryKey: ['/api/gift-certificates', code],
+  });
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <p className="text-muted-foreground">Загрузка...</p>
+      </div>
+    );
+  }
+
+  if (error || !certificate) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center gap-4 px-4 text-center">
+        <p className="text-muted-foreground">Сертификат не найден</p>
+        <Link href="/">
+          <Button variant="outline">
+            <Home className="w-4 h-4 mr-2" />
+            Пуэр Паб
+          </Button>
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background flex flex-col items-center px-4 py-8 print:p-0">
+      <div className="w-full max-w-2xl flex justify-between gap-2 mb-6 print:hidden">
+        <Link href="/">
+          <Button variant="outline" data-testid="button-home">
+            <Home className="w-4 h-4 mr-2" />
+            Пуэр Паб
+          </Button>
+        </Link>
+        <Button onClick={() => window.print()} data-testid="button-print-gift-certificate">
+          <Printer className="w-4 h-4 mr-2" />
+          Скачать PDF / Печать
+        </Button>
+      </div>
+
+      {certificate.state !== "active" && (
+        <p className="w-full max-w-2xl mb-4 rounded-md border border-destructive p-3 text-center text-destructive print:hidden" data-testid="text-gift-certificate-state">
+          {STATE_LABELS[certificate.state]}
+        </p>
+      )}
+
+      <div
+        className="w-full max-w-2xl aspect-[297/210] rounded-xl border-[6px] border-double border-amber-700 bg-gradient-to-br from-amber-50 to-yellow-100 p-8 sm:p-12 flex flex-col justify-between text-amber-950 print:rounded-none"
+        data-testid="gift-certificate"
+      >
+        <div className="flex items-center justify-between gap-4">
+          <span className="font-serif text-xl sm:text-2xl font-bold tracking-wide">Пуэр Паб</span>
+          <Gift className="w-8 h-8 sm:w-10 sm:h-10 text-amber-700" />
+        </div>
+
+        <div className="text-center">
+          <p className="uppercase tracking-[0.3em] text-xs sm:text-sm text-amber-800">Подарочный сертификат</p>
+          <p className="font-serif text-5xl sm:text-7xl font-bold my-3" data-testid="text-gift-certificate-amount">
+            {(certificate.amount / 100).toLocaleString("ru-RU")} ₽
+          </p>
+          {certificate.recipientName && (
+            <p className="text-lg sm:text-xl">для {certificate.recipientName}</p>
+          )}
+          {certificate.message && (
+            <p className="mt-2 italic text-amber-900 whitespace-pre-line">«{certificate.message}»</p>
+          )}
+        </div>
+
+        <div className="flex flex-col sm:flex-row sm:items-end justify-between gap-2 text-sm">
+          <div>
+            <p className="text-amber-800">Код</p>
+            <p className="font-mono text-xl sm:text-2xl font-bold tracking-widest" data-testid="text-gift-certificate-code">
+              {certificate.code}
+            </p>
+          </div>
+          <div className="sm:text-right text-amber-900">
+            <p>Действует до {new Date(certificate.expiresAt).toLocaleDateString("ru-RU")}</p>
+            <p>Активируйте в личном кабинете на puerpub.replit.app</p>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,185 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { WalletCard } from "@/components/WalletCard";
+import { CheckCircle, Gift, Home, Loader2, XCircle } from "lucide-react";
+import { GIFT_CERTIFICATE_AMOUNTS, GIFT_CERTIFICATE_VALIDITY_DAYS } from "@shared/giftCertificates";
+
+export default function GiftCertificates() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const searchParams = new URLSearchParams(window.location.search);
+  const paid = searchParams.get("paid") === "1";
+  const failed = searchParams.get("failed") === "1";
+
+  const [amount, setAmount] = useState(String(GIFT_CERTIFICATE_AMOUNTS[1]));
+  const [buyerName, setBuyerName] = useState(user?.name || "");
+  const [buyerPhone, setBuyerPhone] = useState(user?.phone || "");
+  const [buyerEmail, setBuyerEmail] = useState(user?.email || "");
+  const [recipientName, setRecipientName] = useState("");
+  const [recipientPhone, setRecipientPhone] = useState("");
+  const [recipientEmail, setRecipientEmail] = useState("");
+  const [message, setMessage] = useState("");
+
+  const purchaseMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/gift-certificates/purchase", {
+        amount: parseInt(amount),
+        buyerName,
+        buyerPhone,
+        buyerEmail,
+        recipientName: recipientName || null,
+        recipientPhone,
+        recipientEmail,
+        message: message || null,
+      });
+      return await res.json() as { paymentUrl: string };
+    },
+    onSuccess: (data) => {
+      window.location.href = data.paymentUrl;
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Ошибка",
+        description: error.message || "Не удалось создать платёж",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    purchaseMutation.mutate();
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="max-w-2xl mx-auto px-6 md:px-8 py-8">
+        <div className="mb-8">
+          <Link href="/">
+            <Button variant="outline" size="default" data-testid="button-home">
+              <Home className="w-4 h-4 mr-2" />
+              Пуэр Паб
+            </Button>
+          </Link>
+        </div>
+
+        <div className="flex items-center gap-3 mb-2">
+          <Gift className="w-8 h-8 text-primary" />
+          <h1 className="font-serif text-3xl font-bold">Подарочный сертификат</h1>
+        </div>
+        <p className="text-muted-foreground mb-6">
+          Код придёт по SMS и на почту. Получатель активирует его в личном кабинете, и сумма
+          зачислится на баланс. Сертификат действует {GIFT_CERTIFICATE_VALIDITY_DAYS} дней.
+        </p>
+
+        {paid && (
+          <Card className="mb-6 border-green-500" data-testid="card-gift-certificate-paid">
+            <CardContent className="flex items-center gap-3 pt-6">
+              <CheckCircle className="w-6 h-6 text-green-500 shrink-0" />
+              <p>Спасибо! Сертификат оплачен, код отправлен по SMS и на почту.</p>
+            </CardContent>
+          </Card>
+        )}
+        {failed && (
+          <Card className="mb-6 border-destructive" data-testid="card-gift-certificate-failed">
+            <CardContent className="flex items-center gap-3 pt-6">
+              <XCircle className="w-6 h-6 text-destructive shrink-0" />
+              <p>Оплата не прошла. Попробуйте ещё раз.</p>
+            </CardContent>
+          </Card>
+        )}
+
+        <Card className="mb-8">
+          <CardContent className="pt-6">
+            <form onSubmit={handleSubmit} className="flex flex-col gap-4">
+              <div className="space-y-2">
+                <Label>Номинал</Label>
+                <div className="flex flex-wrap gap-2">
+                  {GIFT_CERTIFICATE_AMOUNTS.map(preset => (
+                    <Button
+                      key={preset}
+                      type="button"
+                      variant={amount === String(preset) ? "default" : "outline"}
+                      onClick={() => setAmount(String(preset))}
+                      data-testid={`button-amount-${preset}`}
+                    >
+                      {preset.toLocaleString("ru-RU")} ₽
+                    </Button>
+                  ))}
+                  <Input
+                    type="number"
+                    min={500}
+                    step={100}
+                    value={amount}
+                    onChange={(e) => setAmount(e.target.value)}
+                    className="w-32"
+                    data-testid="input-amount"
+                  />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="buyerName">Ваше имя *</Label>
+                  <Input id="buyerName" value={buyerName} onChange={(e) => setBuyerName(e.target.value)} data-testid="input-buyer-name" />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="buyerPhone">Ваш телефон *</Label>
+                  <Input id="buyerPhone" type="tel" placeholder="+7 999 000 00 00" value={buyerPhone} onChange={(e) => setBuyerPhone(e.target.value)} data-testid="input-buyer-phone" />
+                </div>
+                <div className="space-y-2 sm:col-span-2">
+                  <Label htmlFor="buyerEmail">Ваш email</Label>
+                  <Input id="buyerEmail" type="email" value={buyerEmail} onChange={(e) => setBuyerEmail(e.target.value)} data-testid="input-buyer-email" />
+                </div>
+              </div>
+
+              <p className="text-sm text-muted-foreground">
+                Укажите контакты получателя, чтобы код пришёл сразу ему. Иначе он придёт вам.
+              </p>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div className="space-y-2 sm:col-span-2">
+                  <Label htmlFor="recipientName">Имя получателя</Label>
+                  <Input id="recipientName" value={recipientName} onChange={(e) => setRecipientName(e.target.value)} data-testid="input-recipient-name" />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="recipientPhone">Телефон получателя</Label>
+                  <Input id="recipientPhone" type="tel" value={recipientPhone} onChange={(e) => setRecipientPhone(e.target.value)} data-testid="input-recipient-phone" />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="recipientEmail">Email получателя</Label>
+                  <Input id="recipientEmail" type="email" value={recipientEmail} onChange={(e) => setRecipientEmail(e.target.value)} data-testid="input-recipient-email" />
+                </div>
+                <div className="space-y-2 sm:col-span-2">
+                  <Label htmlFor="message">Пожелание</Label>
+                  <Textarea id="message" maxLength={300} value={message} onChange={(e) => setMessage(e.target.value)} data-testid="input-message" />
+                </div>
+              </div>
+
+              <Button type="submit" size="lg" disabled={purchaseMutation.isPending} data-testid="button-buy-gift-certificate">
+                {purchaseMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Оплатить {(parseInt(amount) || 0).toLocaleString("ru-RU")} ₽
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+
+        {user ? (
+          <WalletCard />
+        ) : (
+          <p className="text-center text-muted-foreground">
+            Получили сертификат? <Link href="/auth" className="underline">Войдите</Link>, чтобы активировать его.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
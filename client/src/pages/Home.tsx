@@ -1,6 +1,6 @@
 import { useState, useMemo, useRef, useEffect } from "react";
 import Header from "@/components/Header";
-import ProductCard from "@/components/ProductCard";
+import ProductCard, { type CartLineInfo } from "@/components/ProductCard";
 import ProductDetail from "@/components/ProductDetail";
 import ProductFilters from "@/components/ProductFilters";
 import CategoryNavigation from "@/components/CategoryNavigation";
@@ -12,8 +12,7 @@ import VideoCard from "@/components/VideoCard";
 import MediaViewer from "@/components/MediaViewer";
 import MediaProductCard from "@/components/MediaProductCard";
 import { BannerSlot } from "@/components/InfoBanner";
-import type { InfoBanner, Media } from "@shared/schema";
-import { getLoyaltyDiscount } from "@shared/loyalty";
+import type { Category, PublicInfoBanner, Media } from "@shared/schema";
 import {
   Dialog,
   DialogContent,
@@ -29,7 +28,12 @@ import { useAuth } from "@/hooks/use-auth";
 import { useMutation, useQuery } from "@tanstack/react-query";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { Link } from "wouter";
-import type { Product } from "@shared/schema";
+import type { Product, ProductVariant, ProductWithVariants, ProductSearchResult, ProductSearchHighlight } from "@shared/schema";
+import { getVariantUnitPrice, getLegacyUnitPrice } from "@shared/variants";
+import { useVolumeDiscounts } from "@/hooks/use-volume-discounts";
+import { getProductPath } from "@shared/slug";
+import { getCategoryDescendantIds, getCategoryPath, resolveProductCategoryId } from "@shared/categories";
+import { EMPTY_PROVENANCE_FILTERS, matchesProvenanceFilters, type ProvenanceFilters } from "@shared/provenance";
 import { useAbEvent, useAbTesting } from "@/hooks/use-ab-testing";
 
 // Fallback image for products without images
@@ -44,6 +48,9 @@ interface CartItem {
   originalPrice: number; // Base price without discount
   quantity: number;
   image: string;
+  variantId?: number | null; // Selected pack, null for custom weight
+  variantName?: string | null;
+  step?: number; // Quantity change per +/- click
 }
 
 // Type for cart data from API
@@ -51,17 +58,24 @@ interface ApiCartItem {
   id: number;
   userId: string;
   productId: number;
+  variantId: number | null;
   quantity: number;
   pricePerUnit: number | null;
   addedAt: string;
   product: Product;
+  variant: ProductVariant | null;
 }
 
+// Cart lines are unique per product + variant
+const isSameCartLine = (item: CartItem, productId: number, variantId?: number | null) =>
+  item.id === productId && (item.variantId ?? null) === (variantId ?? null);
+
 // Helper component to render product grid with between-rows banners
 interface CartItemInfo {
   quantity: number; // Total grams/pieces in cart
   pricePerUnit: number; // Effective price per unit (may include discount)
   originalPrice: number; // Original price per unit (without discount)
+  lines: CartLineInfo[]; // Per-variant quantities
 }
 
 interface FeaturedMedia extends Media {
@@ -69,12 +83,12 @@ interface FeaturedMedia extends Media {
 }
 
 interface ProductGridWithBannersProps {
-  products: Product[];
-  banners: InfoBanner[];
+  products: ProductWithVariants[];
+  banners: PublicInfoBanner[];
   cartItems: Map<number, CartItemInfo>;
   mediaByProduct: Map<number, FeaturedMedia>;
-  onAddToCart: (productId: number, quantity: number) => void;
-  onUpdateQuantity: (productId: number, quantity: number) => void;
+  onAddToCart: (productId: number, quantity: number, pricePerUnit?: number, variantId?: number | null) => void;
+  onUpdateQuantity: (productId: number, quantity: number, variantId?: number | null) => void;
   onProductClick: (productId: number) => void;
   onMediaProductClick: (productId: number) => void;
   onFilterByType: (type: string) => void;
@@ -85,7 +99,7 @@ function ProductGridWithBanners({ products, banners, cartItems, mediaByProduct,
   const DESKTOP_COLS = 4;
   const MOBILE_COLS = 2;
   
-  const renderProductCard = (product: Product, cartInfo: CartItemInfo | undefined) => {
+  const renderProductCard = (product: ProductWithVariants, cartInfo: CartItemInfo | undefined) => {
     const productMedia = mediaByProduct.get(product.id);
     
     if (product.cardType === "media") {
@@ -109,10 +123,7 @@ function ProductGridWithBanners({ products, banners, cartItems, mediaByProduct,
     return (
       <ProductCard
         {...product}
-        isInCart={!!cartInfo}
-        cartQuantity={cartInfo?.quantity || 0}
-        cartPricePerUnit={cartInfo?.pricePerUnit}
-        cartOriginalPrice={cartInfo?.originalPrice}
+        cartLines={cartInfo?.lines}
         onAddToCart={onAddToCart}
         onUpdateQuantity={onUpdateQuantity}
         onClick={onProductClick}
@@ -122,8 +133,8 @@ function ProductGridWithBanners({ products, banners, cartItems, mediaByProduct,
     );
   };
 
-  const desktopRows: Product[][] = [];
-  const mobileRows: Product[][] = [];
+  const desktopRows: ProductWithVariants[][] = [];
+  const mobileRows: ProductWithVariants[][] = [];
 
   for (let i = 0; i < products.length; i += DESKTOP_COLS) {
     desktopRows.push(products.slice(i, i + DESKTOP_COLS));
@@ -202,12 +213,15 @@ export default function Home() {
   const [isCartOpen, setIsCartOpen] = useState(false);
   const [isCheckoutOpen, setIsCheckoutOpen] = useState(false);
   const [selectedProductId, setSelectedProductId] = useState<number | null>(null);
+  const [linkedVariantId, setLinkedVariantId] = useState<number | null>(null);
+  const [linkedProduct, setLinkedProduct] = useState<string | null>(null); // Slug or legacy id from the URL
   const [isQuizOpen, setIsQuizOpen] = useState(false);
   const [isSuccessDialogOpen, setIsSuccessDialogOpen] = useState(false);
   const [searchTerm, setSearchTerm] = useState("");
   const [selectedTypes, setSelectedTypes] = useState<string[]>([]);
   const [selectedEffects, setSelectedEffects] = useState<string[]>([]);
-  const [activeCategory, setActiveCategory] = useState("all");
+  const [provenanceFilters, setProvenanceFilters] = useState<ProvenanceFilters>(EMPTY_PROVENANCE_FILTERS);
+  const [activeCategoryId, setActiveCategoryId] = useState<number | null>(null);
   const [recommendedProductIds, setRecommendedProductIds] = useState<number[]>([]);
   const { toast } = useToast();
   const { user } = useAuth();
@@ -240,6 +254,7 @@ export default function Home() {
     const params = new URLSearchParams(window.location.search);
     const type = params.get('type');
     const effect = params.get('effect');
+    const productSlug = window.location.pathname.match(/^\/product\/([^/]+)/)?.[1];
     const productId = params.get('product');
     
     if (type) {
@@ -249,10 +264,11 @@ export default function Home() {
       setSelectedEffects(effect.split(',').filter(Boolean));
       setSelectedTypes([]);
     }
-    if (productId) {
-      const pid = parseInt(productId, 10);
-      if (!isNaN(pid)) {
-        setSelectedProductId(pid);
+    if (productSlug || productId) {
+      setLinkedProduct(productSlug ? decodeURIComponent(productSlug) : productId);
+      const vid = parseInt(params.get('variant') || '', 10);
+      if (!isNaN(vid)) {
+        setLinkedVariantId(vid);
       }
     }
   }, []);
@@ -284,9 +300,12 @@ export default function Home() {
         name: item.product.name,
         category: item.product.category,
         price: item.pricePerUnit ?? item.product.pricePerGram, // Use stored price or fallback to product price
-        originalPrice: item.product.pricePerGram, // Base price without discount
+        originalPrice: item.variant ? getVariantUnitPrice(item.variant) : item.product.pricePerGram, // Base price without discount
         quantity: item.quantity,
         image: item.product.images[0] || fallbackImage,
+        variantId: item.variantId,
+        variantName: item.variant?.name ?? null,
+        step: item.variant ? (item.variant.weight || 1) : undefined,
       }))
     : guestCartItems;
 
@@ -297,21 +316,50 @@ export default function Home() {
     }
   }, [guestCartItems, user]);
 
-  // Clear recommended product IDs when user logs out (recommendations are user-specific)
-  useEffect(() => {
-    if (!user) {
-      setRecommendedProductIds([]);
+  const { data: products = [], isLoading } = useQuery<ProductWithVariants[]>({
+    queryKey: ['/api/products'],
+  });
+
+  const { data: categories = [] } = useQuery<Category[]>({
+    queryKey: ['/api/categories'],
+  });
+  const getVolumeDiscountTiers = useVolumeDiscounts();
+
+  // Categories holding at least one product, directly or through a subcategory
+  const populatedCategoryIds = useMemo(() => {
+    const ids = new Set<number>();
+    for (const product of products) {
+      for (const category of getCategoryPath(categories, resolveProductCategoryId(product, categories))) {
+        ids.add(category.id);
+      }
     }
-  }, [user]);
+    return ids;
+  }, [products, categories]);
 
-  const teawareSectionRef = useRef<HTMLDivElement>(null);
+  const activeCategoryIds = useMemo(
+    () => activeCategoryId === null ? null : getCategoryDescendantIds(categories, activeCategoryId),
+    [categories, activeCategoryId]
+  );
 
-  const { data: products = [], isLoading } = useQuery<Product[]>({
-    queryKey: ['/api/products'],
+  const { data: banners = [] } = useQuery<PublicInfoBanner[]>({
+    queryKey: ['/api/banners'],
   });
 
-  const { data: banners = [] } = useQuery<InfoBanner[]>({
-    queryKey: ['/api/banners'],
+  // Search runs on the server (Russian morphology, typo tolerance), keystrokes are debounced
+  const [debouncedSearchTerm, setDebouncedSearchTerm] = useState("");
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedSearchTerm(searchTerm.trim()), 300);
+    return () => clearTimeout(timer);
+  }, [searchTerm]);
+  const isServerSearch = debouncedSearchTerm.length >= 2;
+
+  const { data: searchResults } = useQuery<ProductSearchResult[]>({
+    queryKey: ['/api/products/search', debouncedSearchTerm],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/products/search?q=${encodeURIComponent(debouncedSearchTerm)}`);
+      return res.json();
+    },
+    enabled: isServerSearch,
   });
 
   interface FeaturedMediaResponse extends Media {
@@ -348,8 +396,19 @@ export default function Home() {
   };
 
   const filteredProducts = useMemo(() => {
-    const filtered = products.filter((product) => {
-      const matchesSearch = product.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
+    // Until the server answers (or if it fails) fall back to a plain substring match
+    const searchHits = isServerSearch && searchTerm.trim().length >= 2 && searchResults
+      ? new Map(searchResults.map(result => [result.id, result]))
+      : null;
+    const candidates: Array<ProductWithVariants & { highlight?: ProductSearchHighlight }> = searchHits
+      ? products
+          .filter(product => searchHits.has(product.id))
+          .map(product => ({ ...product, highlight: searchHits.get(product.id)!.highlight }))
+      : products;
+
+    const filtered = candidates.filter((product) => {
+      const matchesSearch = !!searchHits ||
+        product.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
         (product.description?.toLowerCase() ?? "").includes(searchTerm.toLowerCase());
       const matchesType = selectedTypes.length === 0 || selectedTypes.some(selType => {
         const selLower = selType.toLowerCase().replace(' чай', '').replace(' tea', '');
@@ -362,14 +421,17 @@ export default function Home() {
             productEffect.toLowerCase() === effect.toLowerCase()
           )
         );
-      return matchesSearch && matchesType && matchesEffects;
+      const categoryId = resolveProductCategoryId(product, categories);
+      const matchesCategory = !activeCategoryIds || (categoryId !== null && activeCategoryIds.has(categoryId));
+      return matchesSearch && matchesType && matchesEffects && matchesCategory && matchesProvenanceFilters(product, provenanceFilters);
     });
-    // Sort: out of stock items go to the end
+    // Sort: out of stock items go to the end, search hits by relevance
     return filtered.sort((a, b) => {
-      if (a.outOfStock === b.outOfStock) return 0;
-      return a.outOfStock ? 1 : -1;
+      if (a.outOfStock !== b.outOfStock) return a.outOfStock ? 1 : -1;
+      if (searchHits) return searchHits.get(b.id)!.rank - searchHits.get(a.id)!.rank;
+      return 0;
     });
-  }, [products, searchTerm, selectedTypes, selectedEffects]);
+  }, [products, searchTerm, selectedTypes, selectedEffects, provenanceFilters, activeCategoryIds, categories, isServerSearch, searchResults]);
 
   // Split products by category (exclude recommended products from main list)
   const teaProducts = useMemo(() => {
@@ -382,15 +444,38 @@ export default function Home() {
     return filteredProducts.filter(p => p.category === "teaware");
   }, [filteredProducts]);
 
-  const hasTeaware = teawareProducts.length > 0;
+  // Open the product from a /product/:slug link (or an old ?product=<id> one) once the catalog is loaded
+  useEffect(() => {
+    if (!linkedProduct || products.length === 0) return;
+    const product = products.find(p => p.slug === linkedProduct || String(p.id) === linkedProduct);
+    setLinkedProduct(null);
+    if (product) {
+      setSelectedProductId(product.id);
+    } else {
+      setLinkedVariantId(null);
+    }
+    const url = new URL(window.location.href);
+    url.pathname = product ? getProductPath(product) : '/';
+    url.searchParams.delete('product');
+    if (!product) url.searchParams.delete('variant');
+    window.history.replaceState({}, '', url.toString());
+  }, [linkedProduct, products]);
 
+  // The open product lives in the path (/product/:slug), closing it goes back to the catalog
   const handleSelectProduct = (productId: number | null) => {
     setSelectedProductId(productId);
-    if (productId) {
-      updateUrlParams({ product: String(productId), type: null, effect: null });
+    const product = productId ? products.find(p => p.id === productId) : undefined;
+    const url = new URL(window.location.href);
+    url.pathname = product ? getProductPath(product) : '/';
+    url.searchParams.delete('product');
+    url.searchParams.delete('variant');
+    if (product) {
+      url.searchParams.delete('type');
+      url.searchParams.delete('effect');
     } else {
-      updateUrlParams({ product: null });
+      setLinkedVariantId(null);
     }
+    window.history.replaceState({}, '', url.toString());
   };
 
   const handleFilterByType = (type: string) => {
@@ -407,48 +492,18 @@ export default function Home() {
 
   const selectedProduct = products.find(p => p.id === selectedProductId);
 
-  // Handle category change (scroll to section)
-  const handleCategoryChange = (category: string) => {
-    setActiveCategory(category);
-    if (category === "teaware" && teawareSectionRef.current) {
-      teawareSectionRef.current.scrollIntoView({ behavior: "smooth", block: "start" });
-    } else {
-      window.scrollTo({ top: 0, behavior: "smooth" });
-    }
+  const handleCategoryChange = (categoryId: number | null) => {
+    setActiveCategoryId(categoryId);
   };
 
-  // Scroll observer to update active category
-  useEffect(() => {
-    if (!hasTeaware) return;
-
-    const observer = new IntersectionObserver(
-      (entries) => {
-        entries.forEach((entry) => {
-          if (entry.isIntersecting && entry.target === teawareSectionRef.current) {
-            setActiveCategory("teaware");
-          } else if (!entry.isIntersecting && entry.target === teawareSectionRef.current) {
-            setActiveCategory("all");
-          }
-        });
-      },
-      { threshold: 0.3 }
-    );
-
-    if (teawareSectionRef.current) {
-      observer.observe(teawareSectionRef.current);
-    }
-
-    return () => observer.disconnect();
-  }, [hasTeaware]);
-
   const cartTotal = useMemo(() => {
     return cartItems.reduce((sum, item) => sum + item.price * item.quantity, 0);
   }, [cartItems]);
 
   // Mutation for adding items to cart
   const addToCartMutation = useMutation({
-    mutationFn: async ({ productId, quantity, pricePerUnit }: { productId: number; quantity: number; pricePerUnit?: number }) => {
-      return await apiRequest("POST", "/api/cart", { productId, quantity, pricePerUnit });
+    mutationFn: async ({ productId, quantity, pricePerUnit, variantId }: { productId: number; quantity: number; pricePerUnit?: number; variantId?: number | null }) => {
+      return await apiRequest("POST", "/api/cart", { productId, quantity, pricePerUnit, variantId });
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/cart'] });
@@ -482,17 +537,22 @@ export default function Home() {
     },
   });
 
-  const addToCart = (productId: number, quantityInGrams: number, pricePerUnit?: number) => {
+  const addToCart = (productId: number, quantityInGrams: number, pricePerUnit?: number, variantId?: number | null) => {
     const product = products.find(p => p.id === productId);
     if (!product) return;
 
-    const isTeaware = product.category === "teaware";
+    const variant = variantId ? product.variants?.find(v => v.id === variantId) : undefined;
+    const isTeaware = variant ? !variant.weight : product.category === "teaware";
     const effectivePrice = pricePerUnit ?? product.pricePerGram;
+    const itemLabel = variant
+      ? `${product.name} (${variant.name}${quantityInGrams > (variant.weight || 1) ? `, ${isTeaware ? quantityInGrams + ' шт' : quantityInGrams + 'г'}` : ''})`
+      : `${product.name} (${isTeaware ? quantityInGrams + ' шт' : quantityInGrams + 'г'})`;
     
     // Log add_to_cart event for A/B testing
     const priceMultiplier = getPriceMultiplier();
     logEvent("add_to_cart", {
       productId,
+      variantId: variant?.id ?? null,
       productName: product.name,
       basePrice: product.pricePerGram,
       priceMultiplier,
@@ -503,12 +563,12 @@ export default function Home() {
     if (user) {
       // Authenticated: save to DB with effective price
       addToCartMutation.mutate(
-        { productId, quantity: quantityInGrams, pricePerUnit: effectivePrice },
+        { productId, quantity: quantityInGrams, pricePerUnit: effectivePrice, variantId: variant?.id ?? null },
         {
           onSuccess: () => {
             toast({
               title: "Добавлено в корзину",
-              description: `${product.name} (${isTeaware ? quantityInGrams + ' шт' : quantityInGrams + 'г'})`,
+              description: itemLabel,
             });
           },
         }
@@ -516,19 +576,16 @@ export default function Home() {
     } else {
       // Guest: save to localStorage with effective price
       setGuestCartItems(prev => {
-        const existing = prev.find(item => item.id === productId);
+        const existing = prev.find(item => isSameCartLine(item, productId, variant?.id));
         if (existing) {
-          // Update both quantity and price when adding more
+          // Update both quantity and price when adding more (variant packs have a fixed price)
           const newQuantity = existing.quantity + quantityInGrams;
-          const BULK_DISCOUNT = 0.10;
-          const isTea = product.category === "tea";
-          const adjustedBasePrice = Math.round(product.pricePerGram * getPriceMultiplier());
-          const newPrice = (isTea && newQuantity >= 100)
-            ? adjustedBasePrice * (1 - BULK_DISCOUNT)
-            : adjustedBasePrice;
+          const newPrice = variant
+            ? existing.price
+            : getLegacyUnitPrice({ ...product, pricePerGram: Math.round(product.pricePerGram * getPriceMultiplier()) }, newQuantity, getVolumeDiscountTiers(product));
           
           return prev.map(item =>
-            item.id === productId
+            item === existing
               ? { ...item, quantity: newQuantity, price: newPrice }
               : item
           );
@@ -538,36 +595,39 @@ export default function Home() {
           name: product.name,
           category: product.category,
           price: effectivePrice,
-          originalPrice: product.pricePerGram,
+          originalPrice: variant ? getVariantUnitPrice(variant) : product.pricePerGram,
           quantity: quantityInGrams,
-          image: product.images[0] || fallbackImage
+          image: product.images[0] || fallbackImage,
+          variantId: variant?.id ?? null,
+          variantName: variant?.name ?? null,
+          step: variant ? (variant.weight || 1) : undefined,
         }];
       });
 
       toast({
         title: "Добавлено в корзину",
-        description: `${product.name} (${isTeaware ? quantityInGrams + ' шт' : quantityInGrams + 'г'})`,
+        description: itemLabel,
       });
     }
   };
 
-  const updateQuantity = (productId: number, quantity: number) => {
-    const BULK_DISCOUNT = 0.10; // 10% discount for quantities >= 100g
+  const updateQuantity = (productId: number, quantity: number, variantId?: number | null) => {
     const product = products.find(p => p.id === productId);
-    const isTea = product?.category === "tea";
+    const variant = variantId ? product?.variants?.find(v => v.id === variantId) : undefined;
     
     // Apply A/B testing price multiplier
     const priceMultiplier = getPriceMultiplier();
-    const adjustedBasePrice = product ? Math.round(product.pricePerGram * priceMultiplier) : 0;
     
-    // Calculate new price per unit based on quantity threshold
-    const newPricePerUnit = (isTea && quantity >= 100) 
-      ? adjustedBasePrice * (1 - BULK_DISCOUNT)
-      : adjustedBasePrice;
+    // Variant packs keep their price, custom weights get their volume discount tier
+    const newPricePerUnit = variant
+      ? getVariantUnitPrice(variant) * priceMultiplier
+      : product
+        ? getLegacyUnitPrice({ ...product, pricePerGram: Math.round(product.pricePerGram * priceMultiplier) }, quantity, getVolumeDiscountTiers(product))
+        : 0;
     
     if (user) {
       // Authenticated: update in DB with pricePerUnit (includes A/B test multiplier)
-      const cartItem = cartItems.find(item => item.id === productId);
+      const cartItem = cartItems.find(item => isSameCartLine(item, productId, variantId));
       if (!cartItem || !cartItem.cartItemId) return;
 
       if (quantity === 0) {
@@ -582,24 +642,24 @@ export default function Home() {
     } else {
       // Guest: update localStorage with client-side price calculation
       if (quantity === 0) {
-        setGuestCartItems(prev => prev.filter(item => item.id !== productId));
+        setGuestCartItems(prev => prev.filter(item => !isSameCartLine(item, productId, variantId)));
       } else {
         setGuestCartItems(prev =>
-          prev.map(item => (item.id === productId ? { ...item, quantity, price: newPricePerUnit } : item))
+          prev.map(item => (isSameCartLine(item, productId, variantId) ? { ...item, quantity, price: newPricePerUnit } : item))
         );
       }
     }
   };
 
-  const removeItem = (productId: number) => {
+  const removeItem = (productId: number, variantId?: number | null) => {
     if (user) {
       // Authenticated: remove from DB
-      const cartItem = cartItems.find(item => item.id === productId);
+      const cartItem = cartItems.find(item => isSameCartLine(item, productId, variantId));
       if (!cartItem || !cartItem.cartItemId) return;
       removeFromCartMutation.mutate(cartItem.cartItemId);
     } else {
       // Guest: remove from localStorage
-      setGuestCartItems(prev => prev.filter(item => item.id !== productId));
+      setGuestCartItems(prev => prev.filter(item => !isSameCartLine(item, productId, variantId)));
     }
   };
 
@@ -607,6 +667,8 @@ export default function Home() {
     setSearchTerm("");
     setSelectedTypes([]);
     setSelectedEffects([]);
+    setProvenanceFilters(EMPTY_PROVENANCE_FILTERS);
+    setActiveCategoryId(null);
     updateUrlParams({ type: null, effect: null, product: null });
   };
 
@@ -653,6 +715,15 @@ export default function Home() {
       
       setIsCheckoutOpen(false);
       
+      if (data.walletAmount > 0) {
+        queryClient.invalidateQueries({ queryKey: ['/api/wallet'] });
+      }
+      // The wallet covered everything, there's nothing to pay by card
+      if (data.paidFromWallet) {
+        window.location.href = `/payment/success?orderId=${data.orderId}`;
+        return;
+      }
+      
       // Initialize payment and redirect to Tinkoff payment page
       try {
         const paymentResponse = await apiRequest("POST", "/api/payments/init", {
@@ -691,20 +762,18 @@ export default function Home() {
       return {
         id: item.id,
         name: item.name,
-        pricePerGram: product?.pricePerGram || 0,
+        pricePerGram: item.variantId ? item.originalPrice : (product?.pricePerGram || 0),
         quantity: item.quantity, // Already in grams
+        variantId: item.variantId ?? null,
+        variantName: item.variantName ?? null,
       };
     });
 
-    // Apply loyalty discount only if user is authenticated AND phone is verified
-    const discount = (user && user.phoneVerified) ? getLoyaltyDiscount(user.xp) : 0;
-    const discountAmount = (cartTotal * discount) / 100;
-    const finalTotal = cartTotal - discountAmount;
-
+    // The server prices the order itself (shared/pricing.ts); the goods total only gates the minimum order
     orderMutation.mutate({
       ...data,
       items: orderItems,
-      total: finalTotal,
+      total: cartTotal,
     });
   };
 
@@ -724,14 +793,17 @@ export default function Home() {
   const cartItemsMap = useMemo(() => {
     const map = new Map<number, CartItemInfo>();
     cartItems.forEach(item => {
+      const line = { variantId: item.variantId ?? null, quantity: item.quantity };
       const existing = map.get(item.id);
       if (existing) {
         existing.quantity += item.quantity;
+        existing.lines.push(line);
       } else {
         map.set(item.id, { 
           quantity: item.quantity,
           pricePerUnit: item.price,
-          originalPrice: item.originalPrice
+          originalPrice: item.originalPrice,
+          lines: [line]
         });
       }
     });
@@ -755,6 +827,8 @@ export default function Home() {
             onTypesChange={(types: string[]) => { setSelectedTypes(types); updateUrlParams({ type: types.length > 0 ? types.join(',') : null, effect: null, product: null }); }}
             selectedEffects={selectedEffects}
             onEffectsChange={(effects: string[]) => { setSelectedEffects(effects); updateUrlParams({ effect: effects.length > 0 ? effects.join(',') : null, type: null, product: null }); }}
+            provenanceFilters={provenanceFilters}
+            onProvenanceChange={setProvenanceFilters}
             onQuizClick={() => setIsQuizOpen(true)}
           />
         </div>
@@ -763,11 +837,12 @@ export default function Home() {
         <BannerSlot slotId="after_filters" banners={banners} className="mb-6" />
 
         {/* Category Navigation */}
-        {hasTeaware && (
+        {populatedCategoryIds.size > 1 && (
           <CategoryNavigation
-            activeCategory={activeCategory}
+            categories={categories}
+            populatedCategoryIds={populatedCategoryIds}
+            activeCategoryId={activeCategoryId}
             onCategoryChange={handleCategoryChange}
-            hasTeaware={hasTeaware}
           />
         )}
 
@@ -801,16 +876,14 @@ export default function Home() {
           </div>
         ) : (
           <>
-            {/* Recommendations based on purchase history */}
-            {user && (
-              <RecommendedProducts
-                onAddToCart={addToCart}
-                onUpdateQuantity={updateQuantity}
-                onProductClick={handleSelectProduct}
-                cartItems={cartItemsMap}
-                onRecommendationsLoaded={setRecommendedProductIds}
-              />
-            )}
+            {/* Bought-together recommendations, bestsellers for guests */}
+            <RecommendedProducts
+              onAddToCart={addToCart}
+              onUpdateQuantity={updateQuantity}
+              onProductClick={handleSelectProduct}
+              cartItems={cartItemsMap}
+              onRecommendationsLoaded={setRecommendedProductIds}
+            />
 
             {/* Tea Products with between-rows banners */}
             {teaProducts.length > 0 && (
@@ -838,7 +911,7 @@ export default function Home() {
 
             {/* Teaware Products */}
             {teawareProducts.length > 0 && (
-              <div ref={teawareSectionRef} className="scroll-mt-20">
+              <div className="scroll-mt-20">
                 <h2 className="font-serif text-2xl font-semibold mb-4" data-testid="heading-teaware-section">
                   Чайная посуда
                 </h2>
@@ -849,10 +922,7 @@ export default function Home() {
                       <div key={product.id} className="h-full">
                         <ProductCard
                           {...product}
-                          isInCart={!!cartInfo}
-                          cartQuantity={cartInfo?.quantity || 0}
-                          cartPricePerUnit={cartInfo?.pricePerUnit}
-                          cartOriginalPrice={cartInfo?.originalPrice}
+                          cartLines={cartInfo?.lines}
                           onAddToCart={addToCart}
                           onUpdateQuantity={updateQuantity}
                           onClick={handleSelectProduct}
@@ -876,6 +946,10 @@ export default function Home() {
         onUpdateQuantity={updateQuantity}
         onRemoveItem={removeItem}
         onCheckout={handleCheckout}
+        onProductClick={(productId) => {
+          setIsCartOpen(false);
+          handleSelectProduct(productId);
+        }}
         user={user ? {
           xp: user.xp,
           phoneVerified: user.phoneVerified,
@@ -897,6 +971,7 @@ export default function Home() {
             onCancel={() => setIsCheckoutOpen(false)}
             isSubmitting={orderMutation.isPending}
             total={cartTotal}
+            items={cartItems.map(item => ({ id: item.id, variantId: item.variantId ?? null, quantity: item.quantity }))}
             user={user}
           />
         </DialogContent>
@@ -913,8 +988,11 @@ export default function Home() {
           {selectedProduct && (
             <ProductDetail
               {...selectedProduct}
+              key={selectedProduct.id}
+              initialVariantId={linkedVariantId}
               onAddToCart={addToCart}
               onClose={() => handleSelectProduct(null)}
+              onProductClick={handleSelectProduct}
             />
           )}
         </DialogContent>
@@ -8,8 +8,11 @@ import { Button } from "@/components/ui/button";
 import { Form, FormControl, FormField, FormItem, FormMessage } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
-import { User, Package, Mail, Phone, Home, Edit, Save, X, FileText, CheckCircle, AlertCircle, Gift, ShoppingBag, Sparkles, MapPin, Trophy } from "lucide-react";
-import type { Product } from "@shared/schema";
+import { User, Package, Mail, Phone, Home, Edit, Save, X, FileText, CheckCircle, AlertCircle, Gift, ShoppingBag, Sparkles, MapPin, Trophy, Heart, Hourglass } from "lucide-react";
+import type { Product, ProductWithVariants, XpPolicyForecast } from "@shared/schema";
+import { getProductPath } from "@shared/slug";
+import { getLevelXp } from "@shared/loyalty";
+import FavoriteButton from "@/components/FavoriteButton";
 import { useState } from "react";
 import { SavedAddresses } from "@/components/SavedAddresses";
 import { apiRequest, queryClient } from "@/lib/queryClient";
@@ -20,6 +23,8 @@ import { updateUserSchema, type UpdateUser } from "@shared/schema";
 import { LoyaltyProgressBar } from "@/components/LoyaltyProgressBar";
 import { LoyaltyLevelsModal } from "@/components/LoyaltyLevelsModal";
 import { TelegramLink } from "@/components/TelegramLink";
+import { WalletCard } from "@/components/WalletCard";
+import { ReferralCard } from "@/components/ReferralCard";
 
 interface DbOrder {
   id: number;
@@ -46,6 +51,10 @@ interface OrderItem {
   quantity: number;
 }
 
+function formatForecastDate(iso: string): string {
+  return new Date(iso).toLocaleDateString('ru-RU', { day: 'numeric', month: 'long', year: 'numeric' });
+}
+
 export default function Profile() {
   const { user, isLoading: isAuthLoading } = useAuth();
   const { toast } = useToast();
@@ -73,6 +82,16 @@ export default function Profile() {
     enabled: !!user,
   });
 
+  const { data: favorites = [] } = useQuery<ProductWithVariants[]>({
+    queryKey: ['/api/favorites/products'],
+    enabled: !!user,
+  });
+
+  const { data: xpForecast } = useQuery<XpPolicyForecast>({
+    queryKey: ['/api/loyalty/forecast'],
+    enabled: !!user,
+  });
+
   const updateProfileMutation = useMutation({
     mutationFn: async (data: UpdateUser) => {
       return await apiRequest('PUT', '/api/user', data);
@@ -148,9 +167,21 @@ export default function Profile() {
           {user && (
             <div className="mb-6">
               <LoyaltyProgressBar 
-                xp={user.xp} 
+                xp={getLevelXp(user)} 
                 onClick={() => setShowLoyaltyModal(true)}
               />
+              {xpForecast?.expiration && (
+                <p className="mt-2 text-sm text-muted-foreground flex items-center gap-1.5" data-testid="text-xp-expiration">
+                  <Hourglass className="w-4 h-4 flex-shrink-0" />
+                  Истекает: {xpForecast.expiration.amount.toLocaleString('ru-RU')} XP — {formatForecastDate(xpForecast.expiration.expiresAt)}
+                </p>
+              )}
+              {xpForecast?.levelDrop && (
+                <p className="mt-2 text-sm text-muted-foreground flex items-center gap-1.5" data-testid="text-level-expiration">
+                  <Hourglass className="w-4 h-4 flex-shrink-0" />
+                  Уровень «{xpForecast.levelDrop.currentLevel}» истекает {formatForecastDate(xpForecast.levelDrop.at)} — без новых заказов он снизится до «{xpForecast.levelDrop.nextLevel}»
+                </p>
+              )}
             </div>
           )}
 
@@ -224,6 +255,57 @@ export default function Profile() {
             </Button>
           </div>
 
+          {/* Wallet & gift certificates */}
+          <div className="mt-8">
+            <WalletCard />
+          </div>
+
+          {/* Referral program */}
+          <div className="mt-8">
+            <ReferralCard />
+          </div>
+
+          {/* Favourites */}
+          <div className="mt-8">
+            <Card data-testid="card-favorites">
+              <CardContent className="pt-6">
+                <div className="flex items-center gap-3 mb-4">
+                  <Heart className="w-6 h-6 text-red-500" />
+                  <h3 className="font-serif text-xl font-semibold">
+                    Избранное
+                  </h3>
+                  {favorites.length > 0 && (
+                    <Badge variant="secondary">{favorites.length}</Badge>
+                  )}
+                </div>
+                {favorites.length === 0 ? (
+                  <p className="text-muted-foreground" data-testid="text-favorites-empty">
+                    Отмечайте сердечком чаи, которые хотите попробовать, — они появятся здесь и в Telegram-боте
+                  </p>
+                ) : (
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                    {favorites.map(product => (
+                      <div key={product.id} className="flex items-center gap-3 rounded-md border p-2" data-testid={`favorite-${product.id}`}>
+                        <Link href={getProductPath(product)} className="flex items-center gap-3 min-w-0 flex-1">
+                          {product.images[0] && (
+                            <img src={product.images[0]} alt={product.name} className="h-12 w-12 shrink-0 rounded object-cover" />
+                          )}
+                          <div className="min-w-0">
+                            <p className="font-medium truncate">{product.name}</p>
+                            <p className="text-xs text-muted-foreground">
+                              {product.outOfStock ? "Нет в наличии" : product.teaType}
+                            </p>
+                          </div>
+                        </Link>
+                        <FavoriteButton productId={product.id} />
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+
           {/* Personalized Recommendations */}
           {recommendations && recommendations.length > 0 && (
             <div className="mt-8">
@@ -611,7 +693,7 @@ export default function Profile() {
         <LoyaltyLevelsModal
           open={showLoyaltyModal}
           onOpenChange={setShowLoyaltyModal}
-          currentXP={user.xp}
+          currentXP={getLevelXp(user)}
         />
       )}
     </div>
@@ -10,6 +10,7 @@ import { z } from "zod";
 import { generateVerificationCode, sendSmsCode } from "./sms-ru";
 import { normalizePhone } from "./utils";
 import { sendVerificationCodeToTelegram } from "./services/telegramBot";
+import { attributeReferral } from "./services/referrals";
 
 declare global {
   namespace Express {
@@ -82,6 +83,7 @@ export function setupAuth(app: Express) {
   app.post("/api/register", async (req, res, next) => {
     try {
       const data = insertUserSchema.parse(req.body);
+      const referralCode = z.string().trim().max(32).optional().catch(undefined).parse(req.body.referralCode);
       
       // Normalize phone number to consistent format
       const normalizedPhone = normalizePhone(data.phone);
@@ -107,6 +109,11 @@ export function setupAuth(app: Express) {
         password: await hashPassword(data.password),
       });
 
+      // The friend who invited them gets the bonus after the first completed order
+      if (referralCode) {
+        await attributeReferral(user.id, referralCode);
+      }
+
       // Don't log in yet - user needs to verify phone first
       res.status(201).json({
         message: "Пользователь создан. Подтвердите номер телефона.",
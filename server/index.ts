@@ -4,6 +4,10 @@ import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 import { storage } from "./storage";
 import { pool } from "./db";
+import { startPriceScheduler } from "./services/priceScheduler";
+import { startRestockNotifier } from "./services/restockNotifier";
+import { startXpPolicyScheduler } from "./services/xpPolicy";
+import { startRecommendationBuilder } from "./services/recommendationBuilder";
 
 const app = express();
 
@@ -168,10 +172,429 @@ app.use((req, res, next) => {
       )
     `);
     log('Database migration: media table ensured');
+    
+    // Product variants (replace available_quantities strings)
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS product_variants (
+        id SERIAL PRIMARY KEY,
+        product_id INTEGER NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+        name TEXT NOT NULL,
+        sku TEXT,
+        weight INTEGER,
+        price REAL NOT NULL,
+        stock INTEGER,
+        is_default BOOLEAN NOT NULL DEFAULT false,
+        sort_order INTEGER NOT NULL DEFAULT 0,
+        created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+    await pool.query(`CREATE INDEX IF NOT EXISTS product_variants_product_id_idx ON product_variants (product_id)`);
+    log('Database migration: product_variants table ensured');
+    
+    // Cart lines are now per variant
+    await pool.query(`ALTER TABLE cart_items ADD COLUMN IF NOT EXISTS variant_id INTEGER REFERENCES product_variants(id) ON DELETE CASCADE`);
+    await pool.query(`ALTER TABLE cart_items DROP CONSTRAINT IF EXISTS cart_items_user_product_unique`);
+    await pool.query(`CREATE UNIQUE INDEX IF NOT EXISTS cart_items_user_product_variant_unique ON cart_items (user_id, product_id, COALESCE(variant_id, 0))`);
+    await pool.query(`ALTER TABLE telegram_cart ADD COLUMN IF NOT EXISTS variant_id INTEGER REFERENCES product_variants(id) ON DELETE CASCADE`);
+    log('Database migration: cart variant_id columns ensured');
+    
+    // Inventory tracking
+    await pool.query(`ALTER TABLE products ADD COLUMN IF NOT EXISTS stock INTEGER`);
+    await pool.query(`ALTER TABLE products ADD COLUMN IF NOT EXISTS low_stock_threshold INTEGER`);
+    // Orders placed before tracking are treated as already written off, new orders start with false
+    await pool.query(`ALTER TABLE orders ADD COLUMN IF NOT EXISTS stock_deducted BOOLEAN NOT NULL DEFAULT true`);
+    await pool.query(`ALTER TABLE orders ALTER COLUMN stock_deducted SET DEFAULT false`);
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS stock_movements (
+        id SERIAL PRIMARY KEY,
+        product_id INTEGER NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+        variant_id INTEGER,
+        delta INTEGER NOT NULL,
+        balance_after INTEGER NOT NULL,
+        reason TEXT NOT NULL,
+        order_id INTEGER,
+        comment TEXT,
+        created_by TEXT,
+        created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+    await pool.query(`CREATE INDEX IF NOT EXISTS stock_movements_product_id_idx ON stock_movements (product_id)`);
+    await pool.query(`CREATE INDEX IF NOT EXISTS stock_movements_order_id_idx ON stock_movements (order_id)`);
+    log('Database migration: inventory columns and stock_movements table ensured');
+    
+    // Product page URLs; existing products get slugs from seedProductSlugs below
+    await pool.query(`ALTER TABLE products ADD COLUMN IF NOT EXISTS slug TEXT`);
+    await pool.query(`CREATE UNIQUE INDEX IF NOT EXISTS products_slug_unique ON products (slug)`);
+    log('Database migration: products.slug column ensured');
+
+    // Structured brewing parameters shown on the product page, in the bot and on packing slips
+    await pool.query(`ALTER TABLE products ADD COLUMN IF NOT EXISTS brew_temperature INTEGER`);
+    await pool.query(`ALTER TABLE products ADD COLUMN IF NOT EXISTS brew_grams_per_100ml REAL`);
+    await pool.query(`ALTER TABLE products ADD COLUMN IF NOT EXISTS brew_steeps INTEGER`);
+    await pool.query(`ALTER TABLE products ADD COLUMN IF NOT EXISTS brew_steep_times TEXT`);
+    await pool.query(`ALTER TABLE products ADD COLUMN IF NOT EXISTS brew_vessel TEXT`);
+    log('Database migration: products brewing columns ensured');
+
+    // Bundles (tasting sets) made of other products
+    await pool.query(`ALTER TABLE products ADD COLUMN IF NOT EXISTS is_bundle BOOLEAN NOT NULL DEFAULT false`);
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS bundle_items (
+        id SERIAL PRIMARY KEY,
+        bundle_id INTEGER NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+        product_id INTEGER NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+        variant_id INTEGER REFERENCES product_variants(id) ON DELETE SET NULL,
+        quantity INTEGER NOT NULL CHECK (quantity > 0),
+        sort_order INTEGER NOT NULL DEFAULT 0
+      )
+    `);
+    await pool.query(`CREATE INDEX IF NOT EXISTS bundle_items_bundle_id_idx ON bundle_items (bundle_id)`);
+    await pool.query(`CREATE INDEX IF NOT EXISTS bundle_items_product_id_idx ON bundle_items (product_id)`);
+    log('Database migration: bundle_items table ensured');
+
+    // Product lifecycle: drafts, scheduled publishing and archive instead of hard delete
+    await pool.query(`ALTER TABLE products ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'published'`);
+    await pool.query(`ALTER TABLE products ADD COLUMN IF NOT EXISTS publish_at TEXT`);
+    await pool.query(`CREATE INDEX IF NOT EXISTS products_status_idx ON products (status)`);
+    log('Database migration: products status columns ensured');
+
+    // Provenance attributes used as catalog facets (harvest year, region, factory, pressing form)
+    await pool.query(`ALTER TABLE products ADD COLUMN IF NOT EXISTS harvest_year INTEGER`);
+    await pool.query(`ALTER TABLE products ADD COLUMN IF NOT EXISTS region TEXT`);
+    await pool.query(`ALTER TABLE products ADD COLUMN IF NOT EXISTS factory TEXT`);
+    await pool.query(`ALTER TABLE products ADD COLUMN IF NOT EXISTS pressing_form TEXT`);
+    log('Database migration: products provenance columns ensured');
+
+    // Catalog category tree; the two original kinds become its first top-level categories
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS categories (
+        id SERIAL PRIMARY KEY,
+        name TEXT NOT NULL,
+        slug TEXT NOT NULL UNIQUE,
+        parent_id INTEGER REFERENCES categories(id) ON DELETE RESTRICT,
+        sort_order INTEGER NOT NULL DEFAULT 0
+      )
+    `);
+    await pool.query(`
+      INSERT INTO categories (name, slug, sort_order)
+      SELECT * FROM (VALUES ('Чай', 'tea', 0), ('Посуда', 'teaware', 1)) AS seed(name, slug, sort_order)
+      WHERE NOT EXISTS (SELECT 1 FROM categories)
+    `);
+    // Backfill only when the column first appears, so products later moved out of the tree stay uncategorized
+    const categoryColumn = await pool.query(`SELECT 1 FROM information_schema.columns WHERE table_name = 'products' AND column_name = 'category_id'`);
+    if (categoryColumn.rowCount === 0) {
+      await pool.query(`ALTER TABLE products ADD COLUMN category_id INTEGER REFERENCES categories(id) ON DELETE SET NULL`);
+      await pool.query(`
+        UPDATE products SET category_id = categories.id
+        FROM categories
+        WHERE categories.slug = products.category AND categories.parent_id IS NULL
+      `);
+    }
+    await pool.query(`CREATE INDEX IF NOT EXISTS products_category_id_idx ON products (category_id)`);
+    log('Database migration: categories table ensured');
+
+    // Price history and scheduled price changes (applied by services/priceScheduler)
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS price_history (
+        id SERIAL PRIMARY KEY,
+        product_id INTEGER NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+        variant_id INTEGER,
+        variant_name TEXT,
+        old_price REAL,
+        new_price REAL NOT NULL,
+        source TEXT NOT NULL,
+        created_by TEXT,
+        created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+    await pool.query(`CREATE INDEX IF NOT EXISTS price_history_product_id_idx ON price_history (product_id)`);
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS scheduled_price_changes (
+        id SERIAL PRIMARY KEY,
+        product_id INTEGER NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+        variant_id INTEGER REFERENCES product_variants(id) ON DELETE CASCADE,
+        price REAL NOT NULL,
+        effective_at TEXT NOT NULL,
+        status TEXT NOT NULL DEFAULT 'pending',
+        created_by TEXT,
+        created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        applied_at TEXT
+      )
+    `);
+    await pool.query(`CREATE INDEX IF NOT EXISTS scheduled_price_changes_status_effective_idx ON scheduled_price_changes (status, effective_at)`);
+    log('Database migration: price_history and scheduled_price_changes tables ensured');
+
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS product_reviews (
+        id SERIAL PRIMARY KEY,
+        product_id INTEGER NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+        user_id VARCHAR NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        order_id INTEGER NOT NULL,
+        rating INTEGER NOT NULL CHECK (rating BETWEEN 1 AND 5),
+        text TEXT NOT NULL,
+        photo TEXT,
+        status TEXT NOT NULL DEFAULT 'pending',
+        created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        moderated_at TEXT,
+        CONSTRAINT product_reviews_product_user_unique UNIQUE (product_id, user_id)
+      )
+    `);
+    await pool.query(`CREATE INDEX IF NOT EXISTS product_reviews_status_idx ON product_reviews (status)`);
+    log('Database migration: product_reviews table ensured');
+
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS stock_subscriptions (
+        id SERIAL PRIMARY KEY,
+        product_id INTEGER NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+        channel TEXT NOT NULL,
+        contact TEXT NOT NULL,
+        user_id VARCHAR REFERENCES users(id) ON DELETE SET NULL,
+        attempts INTEGER NOT NULL DEFAULT 0,
+        created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        notified_at TEXT
+      )
+    `);
+    // One waiting subscription per product and contact
+    await pool.query(`CREATE UNIQUE INDEX IF NOT EXISTS stock_subscriptions_waiting_unique ON stock_subscriptions (product_id, channel, contact) WHERE notified_at IS NULL`);
+    log('Database migration: stock_subscriptions table ensured');
+
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS product_associations (
+        id SERIAL PRIMARY KEY,
+        product_id INTEGER NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+        related_product_id INTEGER NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+        score REAL NOT NULL,
+        order_count INTEGER NOT NULL DEFAULT 0,
+        cart_count INTEGER NOT NULL DEFAULT 0,
+        updated_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+    await pool.query(`CREATE UNIQUE INDEX IF NOT EXISTS product_associations_pair_unique ON product_associations (product_id, related_product_id)`);
+    log('Database migration: product_associations table ensured');
+
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS favorites (
+        id SERIAL PRIMARY KEY,
+        user_id VARCHAR NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        product_id INTEGER NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+        created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+    await pool.query(`CREATE UNIQUE INDEX IF NOT EXISTS favorites_user_product_unique ON favorites (user_id, product_id)`);
+    log('Database migration: favorites table ensured');
+
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS promo_codes (
+        id SERIAL PRIMARY KEY,
+        code TEXT NOT NULL UNIQUE,
+        description TEXT,
+        discount_type TEXT NOT NULL,
+        discount_value REAL NOT NULL,
+        min_order_total REAL NOT NULL DEFAULT 0,
+        max_uses INTEGER,
+        max_uses_per_customer INTEGER DEFAULT 1,
+        starts_at TEXT,
+        ends_at TEXT,
+        product_ids INTEGER[] NOT NULL DEFAULT ARRAY[]::integer[],
+        category_ids INTEGER[] NOT NULL DEFAULT ARRAY[]::integer[],
+        stack_with_loyalty BOOLEAN NOT NULL DEFAULT false,
+        is_active BOOLEAN NOT NULL DEFAULT true,
+        created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+    await pool.query(`ALTER TABLE orders ADD COLUMN IF NOT EXISTS promo_code_id INTEGER`);
+    await pool.query(`ALTER TABLE orders ADD COLUMN IF NOT EXISTS promo_code TEXT`);
+    await pool.query(`ALTER TABLE orders ADD COLUMN IF NOT EXISTS promo_discount REAL NOT NULL DEFAULT 0`);
+    await pool.query(`CREATE INDEX IF NOT EXISTS orders_promo_code_idx ON orders (promo_code_id) WHERE promo_code_id IS NOT NULL`);
+    await pool.query(`ALTER TABLE IF EXISTS pending_telegram_orders ADD COLUMN IF NOT EXISTS promo_code_id INTEGER`);
+    await pool.query(`ALTER TABLE IF EXISTS pending_telegram_orders ADD COLUMN IF NOT EXISTS promo_code TEXT`);
+    await pool.query(`ALTER TABLE IF EXISTS pending_telegram_orders ADD COLUMN IF NOT EXISTS promo_discount INTEGER NOT NULL DEFAULT 0`);
+    log('Database migration: promo_codes table ensured');
+
+    // Volume discount tiers: shop-wide in site settings, overridable per category and product
+    await pool.query(`ALTER TABLE site_settings ADD COLUMN IF NOT EXISTS volume_discount_tiers JSONB NOT NULL DEFAULT '[{"minQuantity":100,"percent":10}]'::jsonb`);
+    await pool.query(`ALTER TABLE categories ADD COLUMN IF NOT EXISTS volume_discount_tiers JSONB`);
+    await pool.query(`ALTER TABLE products ADD COLUMN IF NOT EXISTS volume_discount_tiers JSONB`);
+    log('Database migration: volume discount tiers ensured');
+
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS sale_campaigns (
+        id SERIAL PRIMARY KEY,
+        name TEXT NOT NULL,
+        description TEXT,
+        discount_percent REAL NOT NULL,
+        starts_at TEXT NOT NULL,
+        ends_at TEXT NOT NULL,
+        product_ids INTEGER[] NOT NULL DEFAULT ARRAY[]::integer[],
+        tea_types TEXT[] NOT NULL DEFAULT ARRAY[]::text[],
+        show_banner BOOLEAN NOT NULL DEFAULT true,
+        is_active BOOLEAN NOT NULL DEFAULT true,
+        created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+    log('Database migration: sale_campaigns table ensured');
+
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS gift_certificates (
+        id SERIAL PRIMARY KEY,
+        code TEXT NOT NULL UNIQUE,
+        amount INTEGER NOT NULL,
+        status TEXT NOT NULL DEFAULT 'pending',
+        source TEXT NOT NULL DEFAULT 'purchase',
+        buyer_name TEXT,
+        buyer_phone TEXT,
+        buyer_email TEXT,
+        recipient_name TEXT,
+        recipient_phone TEXT,
+        recipient_email TEXT,
+        message TEXT,
+        payment_id TEXT,
+        issued_by TEXT,
+        expires_at TEXT NOT NULL,
+        paid_at TEXT,
+        redeemed_by VARCHAR REFERENCES users(id) ON DELETE SET NULL,
+        redeemed_at TEXT,
+        created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+    log('Database migration: gift_certificates table ensured');
+
+    // Checkout paid fully or partly from the wallet balance
+    await pool.query(`ALTER TABLE orders ADD COLUMN IF NOT EXISTS wallet_amount INTEGER NOT NULL DEFAULT 0`);
+    // orders.wallet_amount used to be rubles; it's kopecks now, like the balance and pending bot orders
+    await pool.query(`
+      DO $$ BEGIN
+        IF EXISTS (
+          SELECT 1 FROM information_schema.columns
+          WHERE table_name = 'orders' AND column_name = 'wallet_amount' AND data_type = 'real'
+        ) THEN
+          ALTER TABLE orders ALTER COLUMN wallet_amount TYPE INTEGER USING ROUND(wallet_amount * 100)::integer;
+        END IF;
+      END $$
+    `);
+    await pool.query(`ALTER TABLE IF EXISTS pending_telegram_orders ADD COLUMN IF NOT EXISTS wallet_amount INTEGER NOT NULL DEFAULT 0`);
+    await pool.query(`ALTER TABLE IF EXISTS pending_telegram_orders ADD COLUMN IF NOT EXISTS wallet_transaction_id INTEGER`);
+    await pool.query(`CREATE INDEX IF NOT EXISTS wallet_transactions_order_idx ON wallet_transactions (order_id) WHERE order_id IS NOT NULL`);
+    log('Database migration: wallet checkout columns ensured');
+
+    // Loyalty XP spent as points at checkout
+    await pool.query(`ALTER TABLE site_settings ADD COLUMN IF NOT EXISTS xp_redemption_enabled BOOLEAN NOT NULL DEFAULT false`);
+    await pool.query(`ALTER TABLE site_settings ADD COLUMN IF NOT EXISTS xp_per_ruble INTEGER NOT NULL DEFAULT 10`);
+    await pool.query(`ALTER TABLE site_settings ADD COLUMN IF NOT EXISTS xp_redemption_max_percent INTEGER NOT NULL DEFAULT 30`);
+    await pool.query(`ALTER TABLE orders ADD COLUMN IF NOT EXISTS xp_points_spent INTEGER NOT NULL DEFAULT 0`);
+    await pool.query(`ALTER TABLE IF EXISTS pending_telegram_orders ADD COLUMN IF NOT EXISTS xp_points INTEGER NOT NULL DEFAULT 0`);
+    await pool.query(`ALTER TABLE IF EXISTS pending_telegram_orders ADD COLUMN IF NOT EXISTS xp_transaction_id INTEGER`);
+    // Spent points keep counting towards the level; backfilled from the XP history when the column appears
+    await pool.query(`
+      DO $$ BEGIN
+        IF NOT EXISTS (
+          SELECT 1 FROM information_schema.columns WHERE table_name = 'users' AND column_name = 'xp_points_spent'
+        ) THEN
+          ALTER TABLE users ADD COLUMN xp_points_spent INTEGER NOT NULL DEFAULT 0;
+          IF to_regclass('xp_transactions') IS NOT NULL THEN
+            UPDATE users u SET xp_points_spent = s.spent
+            FROM (
+              SELECT user_id, -SUM(amount)::integer AS spent FROM xp_transactions
+              WHERE reason IN ('points_redemption', 'points_refund')
+              GROUP BY user_id
+            ) s
+            WHERE s.user_id = u.id AND s.spent > 0;
+          END IF;
+        END IF;
+      END $$
+    `);
+    log('Database migration: XP points columns ensured');
+
+    // Abandoned bot payments are cancelled in Tinkoff before the reserved balance and points go back
+    await pool.query(`ALTER TABLE IF EXISTS pending_telegram_orders ADD COLUMN IF NOT EXISTS payment_id TEXT`);
+    log('Database migration: pending_telegram_orders.payment_id ensured');
+
+    // Bot orders spend the individual discount only once paid
+    await pool.query(`ALTER TABLE IF EXISTS pending_telegram_orders ADD COLUMN IF NOT EXISTS used_custom_discount BOOLEAN NOT NULL DEFAULT false`);
+    log('Database migration: pending_telegram_orders.used_custom_discount ensured');
+
+    // Referral program
+    await pool.query(`ALTER TABLE users ADD COLUMN IF NOT EXISTS referral_code TEXT UNIQUE`);
+    await pool.query(`ALTER TABLE site_settings ADD COLUMN IF NOT EXISTS referral_reward_type TEXT NOT NULL DEFAULT 'xp'`);
+    await pool.query(`ALTER TABLE site_settings ADD COLUMN IF NOT EXISTS referral_referrer_reward INTEGER NOT NULL DEFAULT 500`);
+    await pool.query(`ALTER TABLE site_settings ADD COLUMN IF NOT EXISTS referral_referee_reward INTEGER NOT NULL DEFAULT 300`);
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS referrals (
+        id SERIAL PRIMARY KEY,
+        referrer_id VARCHAR NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        referee_id VARCHAR NOT NULL UNIQUE REFERENCES users(id) ON DELETE CASCADE,
+        status TEXT NOT NULL DEFAULT 'registered',
+        order_id INTEGER,
+        reward_type TEXT,
+        referrer_reward INTEGER NOT NULL DEFAULT 0,
+        referee_reward INTEGER NOT NULL DEFAULT 0,
+        rewarded_at TEXT,
+        created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+    await pool.query(`CREATE INDEX IF NOT EXISTS referrals_referrer_idx ON referrals (referrer_id)`);
+    log('Database migration: referrals table ensured');
+
+    // Loyalty levels move out of site_settings into their own table
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS loyalty_levels (
+        id SERIAL PRIMARY KEY,
+        name TEXT NOT NULL,
+        min_xp INTEGER NOT NULL UNIQUE,
+        discount INTEGER NOT NULL DEFAULT 0,
+        color TEXT NOT NULL DEFAULT '#6B7280',
+        icon TEXT NOT NULL DEFAULT '🏆',
+        perks TEXT[] NOT NULL DEFAULT ARRAY[]::text[],
+        created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+    // Seed once, carrying over thresholds, discounts and perks the admin set in the old columns
+    const loyaltyColumns = await pool.query(`SELECT 1 FROM information_schema.columns WHERE table_name = 'site_settings' AND column_name = 'loyalty_level4_perks'`);
+    if (loyaltyColumns.rowCount !== 0) {
+      await pool.query(`
+        INSERT INTO loyalty_levels (name, min_xp, discount, color, icon, perks)
+        SELECT seed.* FROM (SELECT * FROM site_settings ORDER BY id LIMIT 1) s
+        CROSS JOIN LATERAL (VALUES
+          ('Новичок', 0, 0, '#6B7280', '🥉', s.loyalty_level1_perks),
+          ('Ценитель', s.loyalty_level2_min_xp, s.loyalty_level2_discount, '#059669', '🥈', s.loyalty_level2_perks),
+          ('Чайный мастер', s.loyalty_level3_min_xp, s.loyalty_level3_discount, '#7C3AED', '🥇', s.loyalty_level3_perks),
+          ('Чайный Гуру', s.loyalty_level4_min_xp, s.loyalty_level4_discount, '#DC2626', '👑', s.loyalty_level4_perks)
+        ) AS seed(name, min_xp, discount, color, icon, perks)
+        WHERE NOT EXISTS (SELECT 1 FROM loyalty_levels)
+        ON CONFLICT (min_xp) DO NOTHING
+      `);
+    }
+    await pool.query(`
+      INSERT INTO loyalty_levels (name, min_xp, discount, color, icon, perks)
+      SELECT * FROM (VALUES
+        ('Новичок', 0, 0, '#6B7280', '🥉', ARRAY['Доступ к базовому каталогу']),
+        ('Ценитель', 3000, 5, '#059669', '🥈', ARRAY['Доступ к базовому каталогу']),
+        ('Чайный мастер', 7000, 10, '#7C3AED', '🥇', ARRAY['Персональный чат с консультациями', 'Приглашения на закрытые чайные вечеринки', 'Возможность запросить любой чай']),
+        ('Чайный Гуру', 15000, 15, '#DC2626', '👑', ARRAY['Все привилегии уровня 3', 'Приоритетное обслуживание', 'Эксклюзивные предложения'])
+      ) AS seed(name, min_xp, discount, color, icon, perks)
+      WHERE NOT EXISTS (SELECT 1 FROM loyalty_levels)
+    `);
+    log('Database migration: loyalty_levels table ensured');
+
+    // XP expiration and level retention policy
+    await pool.query(`ALTER TABLE site_settings ADD COLUMN IF NOT EXISTS xp_policy TEXT NOT NULL DEFAULT 'none'`);
+    await pool.query(`ALTER TABLE site_settings ADD COLUMN IF NOT EXISTS xp_policy_months INTEGER NOT NULL DEFAULT 12`);
+    await pool.query(`ALTER TABLE site_settings ADD COLUMN IF NOT EXISTS xp_policy_warning_days INTEGER NOT NULL DEFAULT 14`);
+    await pool.query(`ALTER TABLE site_settings ADD COLUMN IF NOT EXISTS xp_policy_started_at TEXT`);
+    await pool.query(`ALTER TABLE users ADD COLUMN IF NOT EXISTS level_xp INTEGER`);
+    await pool.query(`ALTER TABLE users ADD COLUMN IF NOT EXISTS xp_expiry_warned_at TEXT`);
+    log('Database migration: XP policy columns ensured');
   } catch (err) {
     log(`Database migration warning: ${err}`);
   }
 
+  // Fuzzy product search needs pg_trgm; kept separate so a missing extension doesn't stop other migrations
+  try {
+    await pool.query(`CREATE EXTENSION IF NOT EXISTS pg_trgm`);
+    log('Database migration: pg_trgm extension ensured');
+  } catch (err) {
+    log(`Database migration warning (pg_trgm): ${err}`);
+  }
+
   // Initialize settings and seed initial products if database is empty
   if ('seedInitialSettings' in storage) {
     await storage.seedInitialSettings();
@@ -182,6 +605,12 @@ app.use((req, res, next) => {
   if ('seedInitialTeaTypes' in storage) {
     await storage.seedInitialTeaTypes();
   }
+  if ('seedProductVariants' in storage) {
+    await storage.seedProductVariants();
+  }
+  if ('seedProductSlugs' in storage) {
+    await storage.seedProductSlugs();
+  }
   
   const server = await registerRoutes(app);
 
@@ -213,5 +642,9 @@ app.use((req, res, next) => {
     reusePort: true,
   }, () => {
     log(`serving on port ${port}`);
+    startPriceScheduler();
+    startRestockNotifier();
+    startRecommendationBuilder();
+    startXpPolicyScheduler();
   });
 })();
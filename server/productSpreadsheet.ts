@@ -0,0 +1,351 @@
+import {
+  insertProductSchema,
+  productVariantsInputSchema,
+  type ProductWithVariants,
+  type ProductVariantInput,
+  type ProductImportRow,
+  type ProductImportEntry,
+  type ProductImportResult,
+  type ProductStatus,
+} from "@shared/schema";
+import { legacyFieldsFromVariants, sortVariants } from "@shared/variants";
+import { BREW_VESSELS, type BrewVessel } from "@shared/brewing";
+import { PRESSING_FORMS, type PressingForm } from "@shared/provenance";
+import { PRODUCT_STATUS_LABELS } from "@shared/publishing";
+
+// Bulk product export/import for the admin panel. One row per product; lists live in a single cell
+// separated by ";", variants are written as "Название | вес | цена" (empty weight for piece goods).
+// Stock is not part of the sheet: it is managed through stock movements.
+
+export type SpreadsheetFormat = "xlsx" | "csv";
+
+type ParsedCell = { value: unknown } | { error: string };
+
+interface ProductColumn {
+  key: string;
+  header: string;
+  width: number;
+  format: (product: ProductWithVariants) => string | number;
+  parse: (text: string) => ParsedCell;
+}
+
+const LIST_SEPARATOR = ";";
+const VARIANT_FIELD_SEPARATOR = "|";
+
+const CATEGORY_LABELS: Record<string, string> = { tea: "чай", teaware: "посуда" };
+const PRICING_UNIT_LABELS: Record<string, string> = { gram: "г", piece: "шт" };
+const YES = ["да", "yes", "true", "1", "+"];
+const NO = ["нет", "no", "false", "0", "-", ""];
+
+function parseText(text: string): ParsedCell {
+  return { value: text.trim() };
+}
+
+function parseList(text: string): ParsedCell {
+  return { value: text.split(LIST_SEPARATOR).map(item => item.trim()).filter(Boolean) };
+}
+
+function parseNumber(text: string): ParsedCell {
+  const normalized = text.replace(/\s/g, "").replace(",", ".");
+  if (!normalized) return { value: null };
+  const value = Number(normalized);
+  return isNaN(value) ? { error: `«${text}» — не число` } : { value };
+}
+
+function parseBoolean(text: string): ParsedCell {
+  const normalized = text.trim().toLowerCase();
+  if (YES.includes(normalized)) return { value: true };
+  if (NO.includes(normalized)) return { value: false };
+  return { error: `«${text}» — ожидается «да» или «нет»` };
+}
+
+// Accepts both stored values ("tea") and their labels from the export ("чай")
+function parseOption(labels: Record<string, string>) {
+  return (text: string): ParsedCell => {
+    const normalized = text.trim().toLowerCase();
+    const key = Object.keys(labels).find(k => k === normalized || labels[k].toLowerCase() === normalized);
+    return { value: key ?? text.trim() };
+  };
+}
+
+function parseVessel(text: string): ParsedCell {
+  if (!text.trim()) return { value: null };
+  return parseOption(BREW_VESSELS)(text);
+}
+
+function parsePressingForm(text: string): ParsedCell {
+  if (!text.trim()) return { value: null };
+  return parseOption(PRESSING_FORMS)(text);
+}
+
+function formatVariants(product: ProductWithVariants): string {
+  return sortVariants(product.variants)
+    .map(v => [v.name, v.weight ?? "", v.price].join(` ${VARIANT_FIELD_SEPARATOR} `))
+    .join(`${LIST_SEPARATOR} `);
+}
+
+interface VariantCell {
+  name: string;
+  weight: number | null;
+  price: number;
+}
+
+function parseVariants(text: string): ParsedCell {
+  const variants: VariantCell[] = [];
+  for (const entry of text.split(LIST_SEPARATOR).map(item => item.trim()).filter(Boolean)) {
+    const [name = "", weightText = "", priceText = ""] = entry.split(VARIANT_FIELD_SEPARATOR).map(part => part.trim());
+    const weight = parseNumber(weightText);
+    const price = parseNumber(priceText);
+    if (!name || "error" in weight || "error" in price || price.value === null) {
+      return { error: `«${entry}» — ожидается «Название ${VARIANT_FIELD_SEPARATOR} вес ${VARIANT_FIELD_SEPARATOR} цена»` };
+    }
+    variants.push({ name, weight: weight.value as number | null, price: price.value as number });
+  }
+  return { value: variants };
+}
+
+export const PRODUCT_COLUMNS: ProductColumn[] = [
+  { key: "id", header: "ID", width: 8, format: p => p.id, parse: parseText },
+  { key: "slug", header: "Адрес страницы", width: 24, format: p => p.slug || "", parse: parseText },
+  { key: "name", header: "Название", width: 32, format: p => p.name, parse: parseText },
+  { key: "category", header: "Категория", width: 10, format: p => CATEGORY_LABELS[p.category] || p.category, parse: parseOption(CATEGORY_LABELS) },
+  { key: "pricingUnit", header: "Единица", width: 8, format: p => PRICING_UNIT_LABELS[p.pricingUnit] || p.pricingUnit, parse: parseOption(PRICING_UNIT_LABELS) },
+  { key: "pricePerGram", header: "Цена за г/шт", width: 12, format: p => p.pricePerGram, parse: parseNumber },
+  { key: "variants", header: "Фасовки", width: 40, format: formatVariants, parse: parseVariants },
+  { key: "teaType", header: "Тип", width: 16, format: p => p.teaType, parse: parseText },
+  { key: "effects", header: "Эффекты", width: 24, format: p => p.effects.join(`${LIST_SEPARATOR} `), parse: parseList },
+  { key: "description", header: "Описание", width: 60, format: p => p.description, parse: parseText },
+  { key: "images", header: "Изображения", width: 60, format: p => p.images.join(`${LIST_SEPARATOR} `), parse: parseList },
+  { key: "status", header: "Статус", width: 12, format: p => PRODUCT_STATUS_LABELS[p.status as ProductStatus] || p.status, parse: parseOption(PRODUCT_STATUS_LABELS) },
+  { key: "outOfStock", header: "Нет в наличии", width: 12, format: p => p.outOfStock ? "да" : "нет", parse: parseBoolean },
+  { key: "brewTemperature", header: "Температура, °C", width: 14, format: p => p.brewTemperature ?? "", parse: parseNumber },
+  { key: "brewGramsPer100ml", header: "Грамм на 100 мл", width: 14, format: p => p.brewGramsPer100ml ?? "", parse: parseNumber },
+  { key: "brewSteeps", header: "Проливов", width: 10, format: p => p.brewSteeps ?? "", parse: parseNumber },
+  { key: "brewSteepTimes", header: "Время проливов", width: 20, format: p => p.brewSteepTimes || "", parse: parseText },
+  { key: "brewVessel", header: "Посуда", width: 16, format: p => p.brewVessel ? BREW_VESSELS[p.brewVessel as BrewVessel] || p.brewVessel : "", parse: parseVessel },
+  { key: "harvestYear", header: "Год сбора", width: 10, format: p => p.harvestYear ?? "", parse: parseNumber },
+  { key: "region", header: "Регион", width: 16, format: p => p.region || "", parse: parseText },
+  { key: "factory", header: "Фабрика", width: 20, format: p => p.factory || "", parse: parseText },
+  { key: "pressingForm", header: "Прессовка", width: 14, format: p => p.pressingForm ? PRESSING_FORMS[p.pressingForm as PressingForm] || p.pressingForm : "", parse: parsePressingForm },
+];
+
+const COLUMNS_BY_KEY = new Map(PRODUCT_COLUMNS.map(column => [column.key, column]));
+
+export async function buildProductSpreadsheet(products: ProductWithVariants[], format: SpreadsheetFormat): Promise<Buffer> {
+  const XLSX = await import("xlsx");
+  const rows = products
+    .filter(product => !product.isBundle)
+    .map(product => Object.fromEntries(PRODUCT_COLUMNS.map(column => [column.header, column.format(product)])));
+
+  const ws = XLSX.utils.json_to_sheet(rows, { header: PRODUCT_COLUMNS.map(column => column.header) });
+  ws["!cols"] = PRODUCT_COLUMNS.map(column => ({ wch: column.width }));
+
+  if (format === "csv") {
+    // BOM so Excel opens the Cyrillic text as UTF-8
+    return Buffer.from("\ufeff" + XLSX.utils.sheet_to_csv(ws), "utf8");
+  }
+  const wb = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(wb, ws, "Товары");
+  return XLSX.write(wb, { type: "buffer", bookType: "xlsx" });
+}
+
+export interface SpreadsheetRow {
+  row: number;
+  cells: Record<string, string>;
+}
+
+/**
+ * Reads the first sheet; columns are matched by header (or field key), unknown columns are ignored
+ */
+export async function readProductSpreadsheet(buffer: Buffer): Promise<{ columns: string[]; rows: SpreadsheetRow[] }> {
+  const XLSX = await import("xlsx");
+  const wb = XLSX.read(buffer, { type: "buffer" });
+  const ws = wb.Sheets[wb.SheetNames[0]];
+  if (!ws) throw new Error("Файл пустой");
+
+  const [headerRow = [], ...dataRows] = XLSX.utils.sheet_to_json<string[]>(ws, { header: 1, defval: "", raw: false, blankrows: true });
+  const columnKeys = headerRow.map(header => {
+    const normalized = String(header).trim().toLowerCase();
+    return PRODUCT_COLUMNS.find(column => column.header.toLowerCase() === normalized || column.key.toLowerCase() === normalized)?.key;
+  });
+  const columns = columnKeys.filter((key): key is string => !!key);
+  if (!columns.includes("id") && !columns.includes("name")) {
+    throw new Error("В файле нет колонок «ID» и «Название». Скачайте шаблон через экспорт товаров");
+  }
+
+  const rows: SpreadsheetRow[] = [];
+  dataRows.forEach((cells, index) => {
+    const row: SpreadsheetRow = { row: index + 2, cells: {} };
+    columnKeys.forEach((key, cellIndex) => {
+      if (key) row.cells[key] = String(cells[cellIndex] ?? "");
+    });
+    if (Object.values(row.cells).some(value => value.trim())) rows.push(row);
+  });
+  return { columns, rows };
+}
+
+// Existing variants are matched by name, so their ids, SKUs and stock survive the import
+function mergeVariants(cells: VariantCell[], existing: ProductWithVariants | undefined): ProductVariantInput[] {
+  const variants: ProductVariantInput[] = cells.map((cell, index) => {
+    const current = existing?.variants.find(v => v.name.trim().toLowerCase() === cell.name.toLowerCase());
+    return {
+      id: current?.id,
+      name: cell.name,
+      sku: current?.sku ?? null,
+      weight: cell.weight,
+      price: cell.price,
+      stock: current?.stock ?? null,
+      isDefault: current?.isDefault ?? false,
+      sortOrder: index,
+    };
+  });
+  if (variants.length > 0 && !variants.some(v => v.isDefault)) {
+    variants[0].isDefault = true;
+  }
+  return variants;
+}
+
+function issueMessage(path: (string | number)[], message: string): string {
+  const column = COLUMNS_BY_KEY.get(String(path[0]));
+  return column ? `${column.header}: ${message}` : message;
+}
+
+/**
+ * Validates every row against insertProductSchema and works out what the import would do.
+ * Rows are matched to products by ID, then by page address; rows with errors are skipped.
+ */
+export function planProductImport(
+  sheet: { columns: string[]; rows: SpreadsheetRow[] },
+  products: ProductWithVariants[]
+): Omit<ProductImportResult, "applied"> & { entries: ProductImportEntry[] } {
+  const byId = new Map(products.map(product => [product.id, product]));
+  const bySlug = new Map(products.filter(product => product.slug).map(product => [product.slug!, product]));
+  const seenRows = new Map<number, number>();
+  const rows: ProductImportRow[] = [];
+  const entries: ProductImportEntry[] = [];
+
+  for (const { row, cells } of sheet.rows) {
+    const errors: string[] = [];
+    const failedColumns = new Set<string>();
+    const values: Record<string, unknown> = {};
+    for (const key of sheet.columns) {
+      if (key === "id") continue;
+      const column = COLUMNS_BY_KEY.get(key)!;
+      const parsed = column.parse(cells[key] ?? "");
+      if ("error" in parsed) {
+        errors.push(`${column.header}: ${parsed.error}`);
+        failedColumns.add(key);
+      } else {
+        values[key] = parsed.value;
+      }
+    }
+
+    const idText = (cells.id ?? "").trim();
+    let existing: ProductWithVariants | undefined;
+    if (idText) {
+      existing = byId.get(Number(idText));
+      if (!existing) errors.push(`Товар с ID ${idText} не найден`);
+    } else if (values.slug) {
+      existing = bySlug.get(values.slug as string);
+    }
+    if (existing?.isBundle) {
+      errors.push("Наборы редактируются только в карточке товара");
+    }
+    if (existing && seenRows.has(existing.id)) {
+      errors.push(`Товар уже есть в строке ${seenRows.get(existing.id)}`);
+    }
+    if (existing) seenRows.set(existing.id, row);
+
+    const variantCells = values.variants as VariantCell[] | undefined;
+    delete values.variants;
+    let variants: ProductVariantInput[] | null = null;
+    if (variantCells && variantCells.length > 0) {
+      variants = mergeVariants(variantCells, existing);
+      const parsedVariants = productVariantsInputSchema.safeParse(variants);
+      if (!parsedVariants.success) {
+        errors.push(...parsedVariants.error.issues.map(issue => `Фасовки: ${issue.message}`));
+        failedColumns.add("variants");
+      }
+    } else if (!existing) {
+      errors.push("Фасовки: добавьте хотя бы одну фасовку");
+      failedColumns.add("variants");
+    }
+
+    // An empty address keeps the current one (or is generated from the name)
+    if (values.slug === "") delete values.slug;
+
+    const base = existing ?? {
+      category: "tea",
+      pricingUnit: "gram",
+      effects: [],
+      images: [],
+      outOfStock: false,
+      cardType: "classic",
+    };
+    const candidate = { ...base, ...values, ...(variants ? legacyFieldsFromVariants(variants) : {}) };
+    const parsed = insertProductSchema.safeParse(candidate);
+    if (!parsed.success) {
+      // Columns that failed to parse are already reported; legacy quantity fields follow from the variants
+      const hasErrors = errors.length > 0;
+      errors.push(...parsed.error.issues
+        .filter(issue => !failedColumns.has(String(issue.path[0])))
+        .filter(issue => !hasErrors || COLUMNS_BY_KEY.has(String(issue.path[0])))
+        .map(issue => issueMessage(issue.path, issue.message)));
+    }
+
+    const name = (values.name as string) || existing?.name || "";
+    if (errors.length > 0 || !parsed.success) {
+      rows.push({ row, action: "skip", productId: existing?.id ?? null, name, changes: [], errors });
+      continue;
+    }
+
+    // Stock is never imported, even though the existing product carries it
+    const { stock: _stock, lowStockThreshold: _lowStockThreshold, ...product } = parsed.data;
+    if (!existing) {
+      rows.push({ row, action: "create", productId: null, name, changes: [], errors: [] });
+      entries.push({ productId: null, product, variants });
+      continue;
+    }
+
+    const current = existing;
+    const updated: ProductWithVariants = {
+      ...current,
+      ...product,
+      slug: product.slug || current.slug,
+      variants: variants
+        ? variants.map((v, index) => ({
+            id: v.id ?? 0,
+            productId: current.id,
+            name: v.name,
+            sku: v.sku ?? null,
+            weight: v.weight ?? null,
+            price: v.price,
+            stock: v.stock ?? null,
+            isDefault: v.isDefault,
+            sortOrder: index,
+            createdAt: "",
+          }))
+        : current.variants,
+    };
+    const changes = sheet.columns
+      .filter(key => key !== "id")
+      .map(key => COLUMNS_BY_KEY.get(key)!)
+      .filter(column => String(column.format(current)) !== String(column.format(updated)))
+      .map(column => column.header);
+
+    if (changes.length === 0) {
+      rows.push({ row, action: "skip", productId: existing.id, name, changes: [], errors: [] });
+      continue;
+    }
+    rows.push({ row, action: "update", productId: existing.id, name, changes, errors: [] });
+    entries.push({ productId: existing.id, product, variants });
+  }
+
+  const summary = {
+    create: rows.filter(r => r.action === "create").length,
+    update: rows.filter(r => r.action === "update").length,
+    skip: rows.filter(r => r.action === "skip").length,
+    errors: rows.filter(r => r.errors.length > 0).length,
+  };
+  return { rows, summary, entries };
+}
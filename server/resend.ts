@@ -81,6 +81,7 @@ interface OrderItem {
   name: string;
   pricePerGram: number;
   quantity: number;
+  variantName?: string | null;
 }
 
 interface OrderData {
@@ -102,7 +103,7 @@ export async function sendOrderNotification(orderData: OrderData) {
   
   // Format items list
   const itemsList = orderData.items.map(item => 
-    `• ${item.name} - ${item.quantity}г × ${item.pricePerGram}₽/г = ${item.quantity * item.pricePerGram}₽`
+    `• ${item.name}${item.variantName ? ` (${item.variantName})` : ''} - ${item.quantity}г × ${item.pricePerGram}₽/г = ${Math.round(item.quantity * item.pricePerGram)}₽`
   ).join('\n');
   
   const emailHtml = `
@@ -142,3 +143,59 @@ export async function sendOrderNotification(orderData: OrderData) {
   console.log('[Resend] Email sent successfully. ID:', result.data?.id);
   return result;
 }
+
+export async function sendBackInStockEmail(email: string, productName: string, productUrl: string) {
+  const { client, fromEmail } = await getUncachableResendClient();
+
+  const emailHtml = `
+    <h2>«${productName}» снова в наличии</h2>
+    <p>Вы просили сообщить, когда этот чай вернётся в продажу. Он уже ждёт вас:</p>
+    <p><a href="${productUrl}">${productUrl}</a></p>
+    <p>Puer Pub</p>
+  `;
+
+  console.log('[Resend] Sending back-in-stock email to:', email);
+  const result = await client.emails.send({
+    from: fromEmail,
+    to: email,
+    subject: `«${productName}» снова в наличии`,
+    html: emailHtml,
+  });
+
+  if ('error' in result && result.error) {
+    console.error('[Resend] Back-in-stock email failed with error:', result.error);
+    throw new Error(`Resend error: ${JSON.stringify(result.error)}`);
+  }
+  return result;
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+export async function sendGiftCertificateEmail(email: string, code: string, amountRub: number, certificateUrl: string, message: string | null) {
+  const { client, fromEmail } = await getUncachableResendClient();
+
+  const emailHtml = `
+    <h2>Подарочный сертификат на ${amountRub} ₽</h2>
+    ${message ? `<p><i>${escapeHtml(message)}</i></p>` : ''}
+    <p>Код сертификата: <b>${code}</b></p>
+    <p>Активируйте его в личном кабинете — сумма поступит в кошелёк и ей можно оплатить заказ.</p>
+    <p>Сертификат для печати: <a href="${certificateUrl}">${certificateUrl}</a></p>
+    <p>Puer Pub</p>
+  `;
+
+  console.log('[Resend] Sending gift certificate email to:', email);
+  const result = await client.emails.send({
+    from: fromEmail,
+    to: email,
+    subject: `Подарочный сертификат Пуэр Паба на ${amountRub} ₽`,
+    html: emailHtml,
+  });
+
+  if ('error' in result && result.error) {
+    console.error('[Resend] Gift certificate email failed with error:', result.error);
+    throw new Error(`Resend error: ${JSON.stringify(result.error)}`);
+  }
+  return result;
+}
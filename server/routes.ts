@@ -1,21 +1,41 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { quizConfigSchema, insertProductSchema, orderSchema, updateSettingsSchema, insertTeaTypeSchema, updateOrderStatusSchema, insertCartItemSchema, updateCartItemSchema, updateSiteSettingsSchema, insertSavedAddressSchema } from "@shared/schema";
+import { quizConfigSchema, insertProductSchema, orderSchema, updateSettingsSchema, insertTeaTypeSchema, updateOrderStatusSchema, insertCartItemSchema, updateCartItemSchema, updateSiteSettingsSchema, insertSavedAddressSchema, productVariantsInputSchema, stockAdjustmentSchema, insertProductReviewSchema, moderateReviewSchema, REVIEW_STATUSES, bundleItemsInputSchema, scheduledPriceChangeInputSchema, stockSubscriptionInputSchema, insertCategorySchema, favoriteInputSchema, mergeFavoritesSchema, promoCodeInputSchema, cartQuoteRequestSchema, saleCampaignInputSchema, giftCertificatePurchaseSchema, giftCertificateIssueSchema, redeemGiftCertificateSchema, loyaltyLevelsInputSchema, type ProductWithVariants, type ReviewStatus, type BundleItemInput, type OrderItem, type ReferralInvitation } from "@shared/schema";
+import { buildVariantsFromLegacy, legacyFieldsFromVariants, getVariantUnitPrice, getLegacyUnitPrice, sortVariants, isVariantInStock, hasEnoughStock, getPriceEdits } from "@shared/variants";
+import { getBundleOrderItems, splitBundleAmount } from "@shared/bundles";
 import multer from "multer";
 import { randomUUID } from "crypto";
 import { ObjectStorageService } from "./objectStorage";
 import { sendOrderNotification } from "./resend";
 import { setupAuth, hashPassword } from "./auth";
 import { normalizePhone } from "./utils";
-import { getTelegramUpdates, sendOrderNotification as sendTelegramOrderNotification, sendFailedReceiptSmsNotification } from "./telegram";
+import { getTelegramUpdates, sendOrderNotification as sendTelegramOrderNotification, sendFailedReceiptSmsNotification, sendReviewModerationNotification } from "./telegram";
 import { handleWebhookUpdate, setWebhook, getWebhookInfo } from "./services/telegramBot";
 import { createMagicLink, getUserTelegramProfile, unlinkTelegram } from "./services/magicLink";
 import { db } from "./db";
 import { users as usersTable, orders as ordersTable, walletTransactions, pendingTelegramOrders as pendingTelegramOrdersTable, telegramCart as telegramCartTable, appWaitlist, insertAppWaitlistSchema } from "@shared/schema";
 import { eq, sql, desc, and } from "drizzle-orm";
-import { getTinkoffClient } from "./tinkoff";
+import { ZodError } from "zod";
+import { getTinkoffClient, isPaymentFailed } from "./tinkoff";
+import { buildProductPageMeta } from "./seo";
+import { buildProductSpreadsheet, readProductSpreadsheet, planProductImport } from "./productSpreadsheet";
+import { isLegacyProductId, getProductPath } from "@shared/slug";
+import { isProductPublished } from "@shared/publishing";
+import { buildProductFacets, getProvenanceLines } from "@shared/provenance";
+import { resolveProductCategoryId, wouldCreateCategoryCycle } from "@shared/categories";
 import { sendReceiptSms } from "./sms-ru";
+import { getCartQuote, getProductVolumeDiscountTiers } from "./services/pricing";
+import { getAdjustment } from "@shared/pricing";
+import { withSalePrices, withSalePrice, getSaleBanners } from "./services/sales";
+import { createGiftCertificate, deliverGiftCertificate, allowGiftCertificateLookup, GIFT_CERTIFICATE_LOOKUP_LIMIT_ERROR } from "./services/giftCertificates";
+import { getReferralStats, findReferrer, grantReferralRewards } from "./services/referrals";
+import { getLoyaltyLevels } from "./services/loyalty";
+import { allowPromoLookup, PROMO_LOOKUP_LIMIT_ERROR } from "./services/promoLookups";
+import { applyXpPolicy, getXpPolicyForecast } from "./services/xpPolicy";
+import { syncOrderStock, syncOrderRefunds, awardOrderXp, completeTelegramOrder } from "./services/orders";
+import { getGiftCertificateExpiry, getGiftCertificateRedeemError, normalizeGiftCertificateCode, toPublicGiftCertificate } from "@shared/giftCertificates";
+import { getReferralRewards } from "@shared/referrals";
 
 // Configure multer for memory storage
 const upload = multer({ 
@@ -190,6 +210,90 @@ function scheduleReceiptFallback(orderId: number, paymentId: string, customerPho
   activeFallbackTimers.set(orderId, timers);
 }
 
+// Record stock values changed through the product form as manual movements
+async function recordStockEdits(before: ProductWithVariants | null, after: ProductWithVariants): Promise<void> {
+  const comment = before ? "Изменено в карточке товара" : "Начальный остаток";
+  const edits: Array<{ variantId: number | null; from: number | null; to: number | null }> = [
+    { variantId: null, from: before?.stock ?? null, to: after.stock },
+    ...after.variants.map(v => ({
+      variantId: v.id,
+      from: before?.variants.find(old => old.id === v.id)?.stock ?? null,
+      to: v.stock,
+    })),
+  ];
+
+  for (const edit of edits) {
+    if (edit.to === null || edit.to === edit.from) continue;
+    await storage.createStockMovement({
+      productId: after.id,
+      variantId: edit.variantId,
+      delta: edit.to - (edit.from ?? 0),
+      balanceAfter: edit.to,
+      reason: "manual",
+      comment,
+      createdBy: "admin",
+    });
+  }
+}
+
+// Record prices changed through the product form; a new product gets its starting prices
+async function recordPriceEdits(before: ProductWithVariants | null, after: ProductWithVariants): Promise<void> {
+  await storage.createPriceHistory(
+    getPriceEdits(before, after).map(edit => ({
+      ...edit,
+      productId: after.id,
+      source: "manual" as const,
+      createdBy: "admin",
+    }))
+  );
+}
+
+// Bundle contents must be existing products (not other bundles) and their own packs
+async function validateBundleItems(items: BundleItemInput[], bundleId: number | null): Promise<string | null> {
+  for (const item of items) {
+    const product = await storage.getProductWithVariants(item.productId);
+    if (!product) return "Товар из набора не найден";
+    if (product.isBundle || product.id === bundleId) return `«${product.name}» — набор, его нельзя добавить в другой набор`;
+    if (item.variantId && !product.variants.some(v => v.id === item.variantId)) {
+      return `Фасовка товара «${product.name}» не найдена`;
+    }
+  }
+  return null;
+}
+
+// Bundles are sold by the piece and never hold stock of their own
+function asBundleProduct(body: any) {
+  return {
+    ...body,
+    pricingUnit: "piece",
+    stock: null,
+    variants: Array.isArray(body.variants)
+      ? body.variants.map((variant: any) => ({ ...variant, weight: null, stock: null }))
+      : body.variants,
+  };
+}
+
+// Published, in-stock products ranked by "bought together" score with the seed products,
+// then bestsellers for the remaining slots
+async function rankRecommendations(seedIds: number[], excludeIds: Set<number>, limit: number): Promise<ProductWithVariants[]> {
+  const catalog = await withSalePrices(await storage.getProductsWithVariants({ publishedOnly: true }));
+  const available = new Map(catalog.filter(p => !p.outOfStock && !excludeIds.has(p.id)).map(p => [p.id, p]));
+
+  const scores = new Map<number, number>();
+  for (const association of await storage.getProductAssociations(seedIds)) {
+    if (!available.has(association.relatedProductId)) continue;
+    scores.set(association.relatedProductId, (scores.get(association.relatedProductId) || 0) + association.score);
+  }
+  const ranked = Array.from(scores).sort((a, b) => b[1] - a[1]).map(([id]) => id);
+
+  if (ranked.length < limit) {
+    for (const id of await storage.getBestsellerProductIds(limit + excludeIds.size)) {
+      if (available.has(id) && !ranked.includes(id)) ranked.push(id);
+    }
+  }
+  return ranked.slice(0, limit).map(id => available.get(id)!);
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
   // Setup user authentication (email/password)
   setupAuth(app);
@@ -313,9 +417,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Product routes
   app.get("/api/products", async (_req, res) => {
     try {
-      const products = await storage.getProducts();
+      const products = await storage.getProductsWithVariants({ publishedOnly: true });
+      res.json(await withSalePrices(products));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to get products" });
+    }
+  });
+
+  // Admin catalog: drafts, scheduled and archived products included
+  app.get("/api/admin/products", requireAdminAuth, async (_req, res) => {
+    try {
+      const products = await storage.getProductsWithVariants();
       res.json(products);
     } catch (error) {
+      console.error("[Products] Get admin products error:", error);
       res.status(500).json({ error: "Failed to get products" });
     }
   });
@@ -323,7 +438,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Get all unique tags (types and effects) from products
   app.get("/api/tags", async (_req, res) => {
     try {
-      const products = await storage.getProducts();
+      const products = await storage.getProducts({ publishedOnly: true });
       
       // Extract unique types
       const types = Array.from(new Set(products.map(p => p.teaType).filter(Boolean)));
@@ -343,15 +458,43 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Provenance facets (harvest year, region, factory, pressing form) with product counts for catalog filters
+  app.get("/api/facets", async (_req, res) => {
+    try {
+      const products = await storage.getProducts({ publishedOnly: true });
+      res.json(buildProductFacets(products));
+    } catch (error) {
+      console.error("[Facets] Failed to build facets:", error);
+      res.status(500).json({ error: "Failed to get facets" });
+    }
+  });
+
+  // Full-text search over name, description, tea type and effects (must stay above /api/products/:id)
+  app.get("/api/products/search", async (req, res) => {
+    try {
+      const query = typeof req.query.q === "string" ? req.query.q.trim().slice(0, 100) : "";
+      if (query.length < 2) {
+        res.json([]);
+        return;
+      }
+      const limit = Math.min(parseInt(req.query.limit as string) || 20, 50);
+      const results = await storage.searchProducts(query, limit);
+      res.json(await withSalePrices(results));
+    } catch (error) {
+      console.error("[Search] Product search error:", error);
+      res.status(500).json({ error: "Failed to search products" });
+    }
+  });
+
   app.get("/api/products/:id", async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const product = await storage.getProduct(id);
-      if (!product) {
+      const product = await storage.getProductWithVariants(id);
+      if (!product || !isProductPublished(product)) {
         res.status(404).json({ error: "Product not found" });
         return;
       }
-      res.json(product);
+      res.json(await withSalePrice(product));
     } catch (error) {
       res.status(500).json({ error: "Failed to get product" });
     }
@@ -360,11 +503,36 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/products", requireAdminAuth, async (req, res) => {
     try {
       console.log("[Products] Creating product with data:", req.body);
-      const product = insertProductSchema.parse(req.body);
+      const bundleInput = req.body.isBundle ? bundleItemsInputSchema.parse(req.body.bundleItems ?? []) : null;
+      if (bundleInput) {
+        const bundleError = await validateBundleItems(bundleInput, null);
+        if (bundleError) {
+          res.status(400).json({ error: bundleError });
+          return;
+        }
+      }
+      const body = bundleInput ? asBundleProduct(req.body) : req.body;
+      const variantsInput = body.variants !== undefined
+        ? productVariantsInputSchema.parse(body.variants)
+        : null;
+      const product = insertProductSchema.parse(
+        variantsInput ? { ...body, ...legacyFieldsFromVariants(variantsInput) } : body
+      );
       console.log("[Products] Validation passed, creating product");
       const created = await storage.createProduct(product);
-      console.log("[Products] Product created:", created);
-      res.status(201).json(created);
+      const variants = await storage.replaceProductVariants(
+        created.id,
+        variantsInput || buildVariantsFromLegacy(created)
+      );
+      if (bundleInput) {
+        await storage.replaceBundleItems(created.id, bundleInput);
+      }
+      await recordStockEdits(null, { ...created, variants });
+      await recordPriceEdits(null, { ...created, variants });
+      await storage.syncProductAvailability(created.id);
+      console.log("[Products] Product created:", created.id, "variants:", variants.length);
+      const result = await storage.getProductWithVariants(created.id);
+      res.status(201).json(result);
     } catch (error) {
       console.error("[Products] Validation error:", error);
       if (error instanceof Error) {
@@ -378,35 +546,470 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.put("/api/products/:id", requireAdminAuth, async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const product = insertProductSchema.parse(req.body);
+      const bundleInput = req.body.isBundle ? bundleItemsInputSchema.parse(req.body.bundleItems ?? []) : null;
+      if (bundleInput) {
+        const bundleError = await validateBundleItems(bundleInput, id);
+        if (bundleError) {
+          res.status(400).json({ error: bundleError });
+          return;
+        }
+      }
+      const body = bundleInput ? asBundleProduct(req.body) : req.body;
+      const variantsInput = body.variants !== undefined
+        ? productVariantsInputSchema.parse(body.variants)
+        : null;
+      const product = insertProductSchema.parse(
+        variantsInput ? { ...body, ...legacyFieldsFromVariants(variantsInput) } : body
+      );
+      const before = await storage.getProductWithVariants(id);
       const updated = await storage.updateProduct(id, product);
       if (!updated) {
         res.status(404).json({ error: "Product not found" });
         return;
       }
-      res.json(updated);
+      const variants = variantsInput
+        ? await storage.replaceProductVariants(id, variantsInput)
+        : await storage.getProductVariants(id);
+      if (bundleInput || req.body.isBundle === false) {
+        await storage.replaceBundleItems(id, bundleInput || []);
+      }
+      await recordStockEdits(before || null, { ...updated, variants });
+      await recordPriceEdits(before || null, { ...updated, variants });
+      await storage.syncProductAvailability(id);
+      const result = await storage.getProductWithVariants(id);
+      res.json(result);
     } catch (error) {
-      res.status(400).json({ error: "Invalid product data" });
+      console.error("[Products] Update error:", error);
+      if (error instanceof ZodError) {
+        res.status(400).json({ error: "Invalid product data" });
+      } else {
+        res.status(500).json({ error: "Failed to update product" });
+      }
     }
   });
 
+  // Deleting archives the product: carts, media and order history keep pointing at it
   app.delete("/api/products/:id", requireAdminAuth, async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const deleted = await storage.deleteProduct(id);
-      if (!deleted) {
+      const archived = await storage.updateProductStatus(id, "archived");
+      if (!archived) {
         res.status(404).json({ error: "Product not found" });
         return;
       }
-      res.status(204).send();
+      console.log(`[Products] Product ${id} archived`);
+      res.json(archived);
     } catch (error) {
       res.status(500).json({ error: "Failed to delete product" });
     }
   });
 
+  app.post("/api/admin/products/:id/restore", requireAdminAuth, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const restored = await storage.updateProductStatus(id, "published");
+      if (!restored) {
+        res.status(404).json({ error: "Product not found" });
+        return;
+      }
+      console.log(`[Products] Product ${id} restored from archive`);
+      const result = await storage.getProductWithVariants(id);
+      res.json(result);
+    } catch (error) {
+      console.error("[Products] Restore error:", error);
+      res.status(500).json({ error: "Failed to restore product" });
+    }
+  });
+
+  // Bulk product export/import (XLSX or CSV); import runs as a dry run first
+  app.get("/api/admin/products/export", requireAdminAuth, async (req, res) => {
+    try {
+      const format = req.query.format === "csv" ? "csv" : "xlsx";
+      const products = await storage.getProductsWithVariants();
+      const buffer = await buildProductSpreadsheet(products, format);
+      const filename = `products_${new Date().toISOString().split('T')[0]}.${format}`;
+
+      res.setHeader("Content-Type", format === "csv"
+        ? "text/csv; charset=utf-8"
+        : "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet");
+      res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+      res.send(buffer);
+    } catch (error) {
+      console.error("[Products] Export error:", error);
+      res.status(500).json({ error: "Failed to export products" });
+    }
+  });
+
+  app.post("/api/admin/products/import", requireAdminAuth, upload.single("file"), async (req, res) => {
+    try {
+      if (!req.file) {
+        res.status(400).json({ error: "Файл не загружен" });
+        return;
+      }
+      const dryRun = req.body.dryRun !== "false";
+
+      let sheet;
+      try {
+        sheet = await readProductSpreadsheet(req.file.buffer);
+      } catch (error) {
+        res.status(400).json({ error: error instanceof Error ? error.message : "Не удалось прочитать файл" });
+        return;
+      }
+
+      const products = await storage.getProductsWithVariants();
+      const { rows, summary, entries } = planProductImport(sheet, products);
+      if (!dryRun && entries.length > 0) {
+        await storage.importProducts(entries);
+        console.log(`[Products] Import applied: ${summary.create} created, ${summary.update} updated, ${summary.skip} skipped`);
+      }
+      res.json({ applied: !dryRun, rows, summary });
+    } catch (error) {
+      console.error("[Products] Import error:", error);
+      res.status(500).json({ error: "Failed to import products" });
+    }
+  });
+
+  // Inventory: manual stock corrections and movement history
+  app.post("/api/admin/products/:id/stock", requireAdminAuth, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const adjustment = stockAdjustmentSchema.parse(req.body);
+      const product = await storage.getProduct(id);
+      if (!product) {
+        res.status(404).json({ error: "Product not found" });
+        return;
+      }
+      const movement = await storage.adjustStock(id, adjustment, "admin");
+      if (!movement) {
+        res.status(400).json({ error: "Остаток этого товара не отслеживается" });
+        return;
+      }
+      console.log(`[Inventory] Stock of product ${id} adjusted by ${adjustment.delta}, balance: ${movement.balanceAfter}`);
+      const result = await storage.getProductWithVariants(id);
+      res.json(result);
+    } catch (error) {
+      console.error("[Inventory] Stock adjustment error:", error);
+      if (error instanceof ZodError) {
+        res.status(400).json({ error: "Invalid stock adjustment" });
+      } else {
+        res.status(500).json({ error: "Failed to adjust stock" });
+      }
+    }
+  });
+
+  app.get("/api/admin/stock-movements", requireAdminAuth, async (req, res) => {
+    try {
+      const productId = req.query.productId ? parseInt(req.query.productId as string) : undefined;
+      const limit = parseInt(req.query.limit as string) || 200;
+      const movements = await storage.getStockMovements(productId, limit);
+      res.json(movements);
+    } catch (error) {
+      console.error("[Inventory] Get stock movements error:", error);
+      res.status(500).json({ error: "Failed to get stock movements" });
+    }
+  });
+
+  // Prices: change history and scheduled changes (applied by services/priceScheduler)
+  app.get("/api/admin/products/:id/price-history", requireAdminAuth, async (req, res) => {
+    try {
+      const productId = parseInt(req.params.id);
+      const history = await storage.getPriceHistory(productId);
+      res.json(history);
+    } catch (error) {
+      console.error("[Prices] Get price history error:", error);
+      res.status(500).json({ error: "Failed to get price history" });
+    }
+  });
+
+  app.get("/api/admin/products/:id/scheduled-prices", requireAdminAuth, async (req, res) => {
+    try {
+      const productId = parseInt(req.params.id);
+      const changes = await storage.getScheduledPriceChanges(productId);
+      res.json(changes);
+    } catch (error) {
+      console.error("[Prices] Get scheduled prices error:", error);
+      res.status(500).json({ error: "Failed to get scheduled prices" });
+    }
+  });
+
+  app.post("/api/admin/products/:id/scheduled-prices", requireAdminAuth, async (req, res) => {
+    try {
+      const productId = parseInt(req.params.id);
+      const input = scheduledPriceChangeInputSchema.parse(req.body);
+      const product = await storage.getProductWithVariants(productId);
+      if (!product) {
+        res.status(404).json({ error: "Product not found" });
+        return;
+      }
+      if (input.variantId && !product.variants.some(v => v.id === input.variantId)) {
+        res.status(400).json({ error: "Фасовка не найдена" });
+        return;
+      }
+      const change = await storage.createScheduledPriceChange(productId, input, "admin");
+      console.log(`[Prices] Scheduled price ${change.price} for product ${productId} at ${change.effectiveAt}`);
+      res.status(201).json(change);
+    } catch (error) {
+      console.error("[Prices] Schedule price error:", error);
+      if (error instanceof ZodError) {
+        res.status(400).json({ error: "Invalid scheduled price" });
+      } else {
+        res.status(500).json({ error: "Failed to schedule price" });
+      }
+    }
+  });
+
+  app.delete("/api/admin/scheduled-prices/:id", requireAdminAuth, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const cancelled = await storage.cancelScheduledPriceChange(id);
+      if (!cancelled) {
+        res.status(404).json({ error: "Запланированное изменение не найдено или уже применено" });
+        return;
+      }
+      console.log(`[Prices] Scheduled price change ${id} cancelled`);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("[Prices] Cancel scheduled price error:", error);
+      res.status(500).json({ error: "Failed to cancel scheduled price" });
+    }
+  });
+
+  // Reviews: public list and ratings, verified-purchase submission, admin moderation
+  app.get("/api/reviews/summary", async (_req, res) => {
+    try {
+      const summaries = await storage.getProductRatingSummaries();
+      res.json(summaries);
+    } catch (error) {
+      console.error("[Reviews] Get rating summaries error:", error);
+      res.status(500).json({ error: "Failed to get ratings" });
+    }
+  });
+
+  app.get("/api/products/:id/reviews", async (req, res) => {
+    try {
+      const productId = parseInt(req.params.id);
+      const reviews = await storage.getProductReviews(productId);
+      res.json(reviews);
+    } catch (error) {
+      console.error("[Reviews] Get product reviews error:", error);
+      res.status(500).json({ error: "Failed to get reviews" });
+    }
+  });
+
+  app.get("/api/products/:id/reviews/eligibility", requireAuth, async (req: any, res) => {
+    try {
+      const productId = parseInt(req.params.id);
+      const eligibility = await storage.getReviewEligibility(req.user.id, productId);
+      res.json(eligibility);
+    } catch (error) {
+      console.error("[Reviews] Eligibility check error:", error);
+      res.status(500).json({ error: "Failed to check review eligibility" });
+    }
+  });
+
+  app.post("/api/products/:id/reviews", requireAuth, upload.single("photo"), async (req: any, res) => {
+    try {
+      const productId = parseInt(req.params.id);
+      const product = await storage.getProduct(productId);
+      if (!product) {
+        res.status(404).json({ error: "Product not found" });
+        return;
+      }
+
+      const data = insertProductReviewSchema.parse(req.body);
+      const eligibility = await storage.getReviewEligibility(req.user.id, productId);
+      if (!eligibility.canReview) {
+        res.status(403).json({
+          error: eligibility.reason === "already_reviewed"
+            ? "Вы уже оставили отзыв на этот товар"
+            : "Отзыв можно оставить после получения заказа с этим товаром",
+        });
+        return;
+      }
+
+      let photo: string | null = null;
+      if (req.file) {
+        if (!req.file.mimetype.startsWith("image/")) {
+          res.status(400).json({ error: "Можно прикрепить только изображение" });
+          return;
+        }
+        const sharp = (await import('sharp')).default;
+        const webpBuffer = await sharp(req.file.buffer)
+          .rotate()
+          .resize(1280, 1280, { fit: 'inside', withoutEnlargement: true })
+          .webp({ quality: 80 })
+          .toBuffer();
+        photo = await new ObjectStorageService().uploadPublicObject(webpBuffer, `review-${randomUUID()}.webp`);
+      }
+
+      const review = await storage.createProductReview({
+        productId,
+        userId: req.user.id,
+        orderId: eligibility.orderId,
+        rating: data.rating,
+        text: data.text,
+        photo,
+      });
+      console.log(`[Reviews] Review ${review.id} for product ${productId} submitted by user ${req.user.id}`);
+
+      sendReviewModerationNotification(product.name, review.rating, review.text, req.user.name || req.user.phone)
+        .catch(err => console.error("[Reviews] Moderation notification error:", err));
+
+      res.status(201).json(review);
+    } catch (error) {
+      console.error("[Reviews] Create review error:", error);
+      if (error instanceof ZodError) {
+        res.status(400).json({ error: error.errors[0]?.message || "Invalid review data" });
+      } else if (error instanceof Error && "code" in error && error.code === "23505") {
+        // A parallel submission for the same product got in first
+        res.status(403).json({ error: "Вы уже оставили отзыв на этот товар" });
+      } else {
+        res.status(500).json({ error: "Failed to create review" });
+      }
+    }
+  });
+
+  // "Сообщить о поступлении": guests leave a phone or email, logged-in users can also pick their linked Telegram
+  app.post("/api/products/:id/stock-subscriptions", async (req: any, res) => {
+    try {
+      const productId = parseInt(req.params.id);
+      const product = await storage.getProduct(productId);
+      if (!product || !isProductPublished(product)) {
+        res.status(404).json({ error: "Product not found" });
+        return;
+      }
+      if (!product.outOfStock) {
+        res.status(400).json({ error: "Товар уже в наличии" });
+        return;
+      }
+
+      const data = stockSubscriptionInputSchema.parse(req.body);
+      const userId: string | null = req.isAuthenticated() ? req.user.id : null;
+      let contact: string;
+      if (data.channel === "telegram") {
+        const profile = userId ? await getUserTelegramProfile(userId) : null;
+        if (!profile) {
+          res.status(400).json({ error: "Привяжите Telegram в личном кабинете, чтобы получать уведомления в боте" });
+          return;
+        }
+        contact = profile.chatId;
+      } else {
+        contact = data.channel === "sms" ? normalizePhone(data.contact) : data.contact;
+      }
+
+      const subscription = await storage.createStockSubscription({ productId, channel: data.channel, contact, userId });
+      console.log(`[Restock] Subscription ${subscription.id} for product ${productId} via ${data.channel}`);
+      res.status(201).json({ success: true, channel: subscription.channel });
+    } catch (error) {
+      console.error("[Restock] Create subscription error:", error);
+      if (error instanceof ZodError) {
+        res.status(400).json({ error: error.errors[0]?.message || "Invalid subscription data" });
+      } else {
+        res.status(500).json({ error: "Failed to create subscription" });
+      }
+    }
+  });
+
+  // Waiting subscribers per product for the admin catalog
+  app.get("/api/admin/stock-subscriptions/counts", requireAdminAuth, async (_req, res) => {
+    try {
+      res.json(await storage.getStockSubscriptionCounts());
+    } catch (error) {
+      console.error("[Restock] Get subscription counts error:", error);
+      res.status(500).json({ error: "Failed to get subscription counts" });
+    }
+  });
+
+  app.get("/api/admin/reviews", requireAdminAuth, async (req, res) => {
+    try {
+      const status = REVIEW_STATUSES.includes(req.query.status as ReviewStatus)
+        ? req.query.status as ReviewStatus
+        : undefined;
+      const reviews = await storage.getReviewsForModeration(status);
+      res.json(reviews);
+    } catch (error) {
+      console.error("[Reviews] Get reviews for moderation error:", error);
+      res.status(500).json({ error: "Failed to get reviews" });
+    }
+  });
+
+  app.patch("/api/admin/reviews/:id", requireAdminAuth, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const { status } = moderateReviewSchema.parse(req.body);
+      const review = await storage.moderateReview(id, status);
+      if (!review) {
+        res.status(404).json({ error: "Review not found" });
+        return;
+      }
+      console.log(`[Reviews] Review ${id} moderated: ${status}`);
+      res.json(review);
+    } catch (error) {
+      console.error("[Reviews] Moderate review error:", error);
+      if (error instanceof ZodError) {
+        res.status(400).json({ error: "Invalid review status" });
+      } else {
+        res.status(500).json({ error: "Failed to moderate review" });
+      }
+    }
+  });
+
+  app.delete("/api/admin/reviews/:id", requireAdminAuth, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const deleted = await storage.deleteReview(id);
+      if (!deleted) {
+        res.status(404).json({ error: "Review not found" });
+        return;
+      }
+      console.log(`[Reviews] Review ${id} deleted`);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("[Reviews] Delete review error:", error);
+      res.status(500).json({ error: "Failed to delete review" });
+    }
+  });
+
+  // Product pages are rendered by the SPA; here we only resolve the product so the
+  // HTML gets its meta tags, and send old numeric /product/:id links to the slug URL
+  app.get("/product/:slug", async (req, res, next) => {
+    try {
+      const { slug } = req.params;
+      const query = req.originalUrl.includes("?") ? req.originalUrl.slice(req.originalUrl.indexOf("?")) : "";
+
+      if (isLegacyProductId(slug)) {
+        const product = await storage.getProduct(parseInt(slug));
+        if (product?.slug) {
+          res.redirect(301, `/product/${product.slug}${query}`);
+          return;
+        }
+      }
+
+      const product = await storage.getProductBySlug(slug);
+      const found = product && isProductPublished(product) ? await storage.getProductWithVariants(product.id) : undefined;
+      const productWithVariants = found && await withSalePrice(found);
+      if (!productWithVariants) {
+        res.status(404);
+        next();
+        return;
+      }
+
+      const baseUrl = `${req.protocol}://${req.get('host')}`;
+      const ratings = await storage.getProductRatingSummaries();
+      res.locals.pageMeta = buildProductPageMeta(productWithVariants, baseUrl, ratings[productWithVariants.id]);
+      next();
+    } catch (error) {
+      console.error("[SEO] Product page error:", error);
+      next();
+    }
+  });
+
   // Helper function to generate YML feed
   async function generateYMLFeed(baseUrl: string): Promise<string> {
-    const products = await storage.getProducts();
+    const products = await withSalePrices(await storage.getProductsWithVariants({ publishedOnly: true }));
+    const ratings = await storage.getProductRatingSummaries();
+    const categories = await storage.getCategories();
+    const categoriesById = new Map(categories.map(c => [c.id, c]));
     
     // Get current date in ISO format
     const currentDate = new Date().toISOString().split('T')[0] + ' ' + 
@@ -423,73 +1026,93 @@ export async function registerRoutes(app: Express): Promise<Server> {
     yml += '      <currency id="RUB" rate="1"/>\n';
     yml += '    </currencies>\n';
     yml += '    <categories>\n';
-    yml += '      <category id="1">Чай</category>\n';
-    yml += '      <category id="2">Чайная посуда</category>\n';
+    for (const category of categories) {
+      const parentAttr = category.parentId ? ` parentId="${category.parentId}"` : '';
+      yml += `      <category id="${category.id}"${parentAttr}>${escapeXml(category.name)}</category>\n`;
+    }
     yml += '    </categories>\n';
     yml += '    <offers>\n';
     
-    // Add each product as an offer
+    // Each variant is its own offer; variants of one product share group_id
     products.forEach(product => {
-      const categoryId = product.category === 'tea' ? '1' : '2';
-      
-      // Calculate price based on category
-      let price: string;
-      let weightParam: string | null = null;
-      
-      if (product.category === 'teaware') {
-        // For teaware: pricePerGram is actually price per piece
-        price = product.pricePerGram.toFixed(2);
-      } else {
-        // For tea: use minimum available quantity or 100g as base
-        const minQuantity = product.availableQuantities && product.availableQuantities.length > 0
-          ? Math.min(...product.availableQuantities.map(q => parseInt(q)))
-          : 100;
-        price = (product.pricePerGram * minQuantity).toFixed(2);
-        weightParam = `${minQuantity}`;
-      }
-      
-      yml += `      <offer id="${product.id}" available="true">\n`;
-      yml += `        <url>${baseUrl}/product/${product.id}</url>\n`;
-      yml += `        <name>${escapeXml(product.name)}</name>\n`;
-      yml += `        <vendor>Пуэр Паб</vendor>\n`;
-      yml += `        <price>${price}</price>\n`;
-      yml += `        <currencyId>RUB</currencyId>\n`;
-      yml += `        <categoryId>${categoryId}</categoryId>\n`;
-      
-      // Add images
-      if (product.images && product.images.length > 0) {
-        product.images.forEach(image => {
-          const imageUrl = image.startsWith('http') ? image : `${baseUrl}${image}`;
-          yml += `        <picture>${escapeXml(imageUrl)}</picture>\n`;
-        });
-      }
-      
-      // Add description
-      yml += `        <description>${escapeXml(product.description)}</description>\n`;
-      
-      // Add tea type as param
-      yml += `        <param name="Тип">${escapeXml(product.teaType)}</param>\n`;
-      
-      // Add category as param
-      const categoryName = product.category === 'tea' ? 'Чай' : 'Чайная посуда';
-      yml += `        <param name="Категория">${escapeXml(categoryName)}</param>\n`;
-      
-      // Add weight param for tea (indicates the weight for the listed price)
-      if (weightParam) {
-        yml += `        <param name="Вес">${weightParam}г</param>\n`;
-      }
-      
-      // Add effects if present
-      if (product.effects && product.effects.length > 0) {
-        yml += `        <param name="Эффекты">${escapeXml(product.effects.join(', '))}</param>\n`;
-      }
-      
-      // Add available quantities for tea
-      if (product.category === 'tea' && product.availableQuantities && product.availableQuantities.length > 0) {
-        yml += `        <param name="Доступные количества">${escapeXml(product.availableQuantities.join('г, '))}г</param>\n`;
-      }
-      
-      yml += '      </offer>\n';
+      const resolvedCategoryId = resolveProductCategoryId(product, categories);
+      const category = resolvedCategoryId ? categoriesById.get(resolvedCategoryId) : undefined;
+      const categoryName = category?.name || (product.category === 'tea' ? 'Чай' : 'Чайная посуда');
+      const variants = sortVariants(product.variants);
+      const isGrouped = variants.length > 1;
+
+      // Products without variants (not yet migrated) are listed by their base price
+      const offers = variants.length > 0
+        ? variants
+        : [{ id: 0, name: '', sku: null, weight: null, price: product.pricePerGram, stock: null }];
+
+      offers.forEach(variant => {
+        const offerId = isGrouped ? `${product.id}v${variant.id}` : `${product.id}`;
+        const available = !product.outOfStock && isVariantInStock(variant, product.stock);
+        const groupAttr = isGrouped ? ` group_id="${product.id}"` : '';
+        const offerName = isGrouped ? `${product.name}, ${variant.name}` : product.name;
+
+        yml += `      <offer id="${offerId}"${groupAttr} available="${available}">\n`;
+        yml += `        <url>${baseUrl}${getProductPath(product)}${isGrouped ? `?variant=${variant.id}` : ''}</url>\n`;
+        yml += `        <name>${escapeXml(offerName)}</name>\n`;
+        yml += `        <vendor>Пуэр Паб</vendor>\n`;
+        if (variant.sku) {
+          yml += `        <vendorCode>${escapeXml(variant.sku)}</vendorCode>\n`;
+        }
+        yml += `        <price>${variant.price.toFixed(2)}</price>\n`;
+        const oldPrice = product.sale && (variant.id ? product.sale.oldVariantPrices[variant.id] : product.sale.oldPricePerGram);
+        if (oldPrice) {
+          yml += `        <oldprice>${oldPrice.toFixed(2)}</oldprice>\n`;
+        }
+        yml += `        <currencyId>RUB</currencyId>\n`;
+        if (category) {
+          yml += `        <categoryId>${category.id}</categoryId>\n`;
+        }
+        
+        // Add images
+        if (product.images && product.images.length > 0) {
+          product.images.forEach(image => {
+            const imageUrl = image.startsWith('http') ? image : `${baseUrl}${image}`;
+            yml += `        <picture>${escapeXml(imageUrl)}</picture>\n`;
+          });
+        }
+        
+        // Add description
+        yml += `        <description>${escapeXml(product.description)}</description>\n`;
+        
+        // Weight in kilograms as required by the YML spec
+        if (variant.weight) {
+          yml += `        <weight>${(variant.weight / 1000).toFixed(3)}</weight>\n`;
+        }
+        
+        yml += `        <param name="Тип">${escapeXml(product.teaType)}</param>\n`;
+        yml += `        <param name="Категория">${escapeXml(categoryName)}</param>\n`;
+        
+        if (variant.weight) {
+          yml += `        <param name="Вес" unit="г">${variant.weight}</param>\n`;
+        }
+        if (isGrouped && !variant.weight) {
+          yml += `        <param name="Вариант">${escapeXml(variant.name)}</param>\n`;
+        }
+        
+        // Add effects if present
+        if (product.effects && product.effects.length > 0) {
+          yml += `        <param name="Эффекты">${escapeXml(product.effects.join(', '))}</param>\n`;
+        }
+
+        for (const line of getProvenanceLines(product)) {
+          yml += `        <param name="${escapeXml(line.label)}">${escapeXml(line.value)}</param>\n`;
+        }
+
+        // Aggregate rating from approved reviews
+        const rating = ratings[product.id];
+        if (rating) {
+          yml += `        <param name="Рейтинг">${rating.average.toFixed(1)}</param>\n`;
+          yml += `        <param name="Количество отзывов">${rating.count}</param>\n`;
+        }
+        
+        yml += '      </offer>\n';
+      });
     });
     
     yml += '    </offers>\n';
@@ -666,6 +1289,228 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Catalog categories: flat list, the client nests it with buildCategoryTree
+  app.get("/api/categories", async (_req, res) => {
+    try {
+      res.json(await storage.getCategories());
+    } catch (error) {
+      console.error("[Categories] Get categories error:", error);
+      res.status(500).json({ error: "Failed to get categories" });
+    }
+  });
+
+  app.post("/api/admin/categories", requireAdminAuth, async (req, res) => {
+    try {
+      const data = insertCategorySchema.parse(req.body);
+      const categories = await storage.getCategories();
+      if (data.parentId && !categories.some(c => c.id === data.parentId)) {
+        res.status(400).json({ error: "Родительская категория не найдена" });
+        return;
+      }
+      const category = await storage.createCategory(data);
+      console.log(`[Categories] Category ${category.id} "${category.name}" created`);
+      res.status(201).json(category);
+    } catch (error) {
+      console.error("[Categories] Create category error:", error);
+      if (error instanceof ZodError) {
+        res.status(400).json({ error: error.errors[0]?.message || "Invalid category data" });
+      } else {
+        res.status(500).json({ error: "Failed to create category" });
+      }
+    }
+  });
+
+  app.put("/api/admin/categories/:id", requireAdminAuth, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const data = insertCategorySchema.parse(req.body);
+      const categories = await storage.getCategories();
+      if (data.parentId && !categories.some(c => c.id === data.parentId)) {
+        res.status(400).json({ error: "Родительская категория не найдена" });
+        return;
+      }
+      if (wouldCreateCategoryCycle(categories, id, data.parentId ?? null)) {
+        res.status(400).json({ error: "Нельзя вложить категорию саму в себя" });
+        return;
+      }
+      const category = await storage.updateCategory(id, data);
+      if (!category) {
+        res.status(404).json({ error: "Category not found" });
+        return;
+      }
+      res.json(category);
+    } catch (error) {
+      console.error("[Categories] Update category error:", error);
+      if (error instanceof ZodError) {
+        res.status(400).json({ error: error.errors[0]?.message || "Invalid category data" });
+      } else {
+        res.status(500).json({ error: "Failed to update category" });
+      }
+    }
+  });
+
+  app.delete("/api/admin/categories/:id", requireAdminAuth, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const categories = await storage.getCategories();
+      if (categories.some(c => c.parentId === id)) {
+        res.status(400).json({ error: "Сначала удалите или перенесите подкатегории" });
+        return;
+      }
+      const deleted = await storage.deleteCategory(id);
+      if (!deleted) {
+        res.status(404).json({ error: "Category not found" });
+        return;
+      }
+      console.log(`[Categories] Category ${id} deleted`);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("[Categories] Delete category error:", error);
+      res.status(500).json({ error: "Failed to delete category" });
+    }
+  });
+
+  // Codes with their usage and revenue from paid orders
+  app.get("/api/admin/promo-codes", requireAdminAuth, async (_req, res) => {
+    try {
+      const [promoCodes, stats] = await Promise.all([storage.getPromoCodes(), storage.getPromoCodeStats()]);
+      const statsById = new Map(stats.map(row => [row.promoCodeId, row]));
+      res.json(promoCodes.map(promo => ({
+        ...promo,
+        orderCount: statsById.get(promo.id)?.orderCount ?? 0,
+        discountTotal: statsById.get(promo.id)?.discountTotal ?? 0,
+        revenue: statsById.get(promo.id)?.revenue ?? 0,
+      })));
+    } catch (error) {
+      console.error("[Promo] Get promo codes error:", error);
+      res.status(500).json({ error: "Failed to get promo codes" });
+    }
+  });
+
+  app.post("/api/admin/promo-codes", requireAdminAuth, async (req, res) => {
+    try {
+      const data = promoCodeInputSchema.parse(req.body);
+      const promo = await storage.createPromoCode(data);
+      console.log(`[Promo] Promo code ${promo.id} "${promo.code}" created`);
+      res.status(201).json(promo);
+    } catch (error: any) {
+      if (error?.code === "23505") { // Unique violation
+        res.status(400).json({ error: "Такой промокод уже существует" });
+        return;
+      }
+      console.error("[Promo] Create promo code error:", error);
+      if (error instanceof ZodError) {
+        res.status(400).json({ error: error.errors[0]?.message || "Invalid promo code data" });
+      } else {
+        res.status(500).json({ error: "Failed to create promo code" });
+      }
+    }
+  });
+
+  app.put("/api/admin/promo-codes/:id", requireAdminAuth, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const data = promoCodeInputSchema.parse(req.body);
+      const promo = await storage.updatePromoCode(id, data);
+      if (!promo) {
+        res.status(404).json({ error: "Promo code not found" });
+        return;
+      }
+      res.json(promo);
+    } catch (error: any) {
+      if (error?.code === "23505") { // Unique violation
+        res.status(400).json({ error: "Такой промокод уже существует" });
+        return;
+      }
+      console.error("[Promo] Update promo code error:", error);
+      if (error instanceof ZodError) {
+        res.status(400).json({ error: error.errors[0]?.message || "Invalid promo code data" });
+      } else {
+        res.status(500).json({ error: "Failed to update promo code" });
+      }
+    }
+  });
+
+  // Orders keep the code text, so the history survives deletion
+  app.delete("/api/admin/promo-codes/:id", requireAdminAuth, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const deleted = await storage.deletePromoCode(id);
+      if (!deleted) {
+        res.status(404).json({ error: "Promo code not found" });
+        return;
+      }
+      console.log(`[Promo] Promo code ${id} deleted`);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("[Promo] Delete promo code error:", error);
+      res.status(500).json({ error: "Failed to delete promo code" });
+    }
+  });
+
+  // Sale campaigns: prices drop and come back by the clock, see services/sales.ts
+  app.get("/api/admin/sale-campaigns", requireAdminAuth, async (_req, res) => {
+    try {
+      res.json(await storage.getSaleCampaigns());
+    } catch (error) {
+      console.error("[Sales] Get sale campaigns error:", error);
+      res.status(500).json({ error: "Failed to get sale campaigns" });
+    }
+  });
+
+  app.post("/api/admin/sale-campaigns", requireAdminAuth, async (req, res) => {
+    try {
+      const data = saleCampaignInputSchema.parse(req.body);
+      const campaign = await storage.createSaleCampaign(data);
+      console.log(`[Sales] Sale campaign ${campaign.id} "${campaign.name}" created: −${campaign.discountPercent}% ${campaign.startsAt} – ${campaign.endsAt}`);
+      res.status(201).json(campaign);
+    } catch (error) {
+      console.error("[Sales] Create sale campaign error:", error);
+      if (error instanceof ZodError) {
+        res.status(400).json({ error: error.errors[0]?.message || "Invalid sale campaign data" });
+      } else {
+        res.status(500).json({ error: "Failed to create sale campaign" });
+      }
+    }
+  });
+
+  app.put("/api/admin/sale-campaigns/:id", requireAdminAuth, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const data = saleCampaignInputSchema.parse(req.body);
+      const campaign = await storage.updateSaleCampaign(id, data);
+      if (!campaign) {
+        res.status(404).json({ error: "Sale campaign not found" });
+        return;
+      }
+      res.json(campaign);
+    } catch (error) {
+      console.error("[Sales] Update sale campaign error:", error);
+      if (error instanceof ZodError) {
+        res.status(400).json({ error: error.errors[0]?.message || "Invalid sale campaign data" });
+      } else {
+        res.status(500).json({ error: "Failed to update sale campaign" });
+      }
+    }
+  });
+
+  // Orders keep the prices they were placed at, so past sales need no history
+  app.delete("/api/admin/sale-campaigns/:id", requireAdminAuth, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const deleted = await storage.deleteSaleCampaign(id);
+      if (!deleted) {
+        res.status(404).json({ error: "Sale campaign not found" });
+        return;
+      }
+      console.log(`[Sales] Sale campaign ${id} deleted`);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("[Sales] Delete sale campaign error:", error);
+      res.status(500).json({ error: "Failed to delete sale campaign" });
+    }
+  });
+
   // Get user orders (requires auth)
   app.get("/api/orders", async (req, res) => {
     if (!req.isAuthenticated()) {
@@ -682,120 +1527,53 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Get personalized product recommendations based on purchase history (requires auth)
+  // Personal recommendations: products bought together with the customer's purchases and cart,
+  // topped up with bestsellers. Guests and new customers get bestsellers only.
   app.get("/api/recommendations", async (req, res) => {
-    if (!req.isAuthenticated()) {
-      return res.status(401).json({ error: "Необходима авторизация" });
-    }
-    
     try {
-      const userId = (req.user as any).id;
-      
-      // Get user's completed/paid orders
-      const userOrders = await storage.getUserOrders(userId);
-      const completedOrders = userOrders.filter((order: any) => 
-        order.status === 'paid' || order.status === 'completed'
-      );
-      
-      // If no purchases yet, return empty recommendations
-      if (completedOrders.length === 0) {
-        return res.json([]);
-      }
-      
-      // Extract product IDs from order items
-      const purchasedProductIds = new Set<number>();
-      completedOrders.forEach((order: any) => {
-        try {
-          const items = JSON.parse(order.items);
-          items.forEach((item: any) => {
-            if (item.id) {
-              purchasedProductIds.add(item.id);
-            }
-          });
-        } catch (e) {
-          console.error("[Recommendations] Failed to parse order items:", e);
-        }
-      });
-      
-      // Get all products
-      const allProducts = await storage.getProducts();
-      
-      // Get details of purchased products
-      const purchasedProducts = allProducts.filter((p: any) => 
-        purchasedProductIds.has(p.id)
-      );
-      
-      // Analyze user preferences
-      const teaTypePreferences = new Map<string, number>();
-      const effectPreferences = new Map<string, number>();
-      let categoryPreference = 'tea';
-      
-      purchasedProducts.forEach((product: any) => {
-        // Count tea types
-        if (product.teaType) {
-          teaTypePreferences.set(
-            product.teaType, 
-            (teaTypePreferences.get(product.teaType) || 0) + 1
-          );
-        }
-        
-        // Count effects
-        if (product.effects && Array.isArray(product.effects)) {
-          product.effects.forEach((effect: string) => {
-            effectPreferences.set(effect, (effectPreferences.get(effect) || 0) + 1);
-          });
-        }
-        
-        // Track category
-        if (product.category) {
-          categoryPreference = product.category;
-        }
-      });
-      
-      // Score and rank products
-      const scoredProducts = allProducts
-        .filter((p: any) => 
-          !purchasedProductIds.has(p.id) && // Exclude already purchased
-          !p.outOfStock // Exclude out of stock
-        )
-        .map((product: any) => {
-          let score = 0;
-          
-          // Same tea type gets high score
-          if (product.teaType && teaTypePreferences.has(product.teaType)) {
-            score += (teaTypePreferences.get(product.teaType) || 0) * 10;
-          }
-          
-          // Matching effects get points
-          if (product.effects && Array.isArray(product.effects)) {
-            product.effects.forEach((effect: string) => {
-              if (effectPreferences.has(effect)) {
-                score += (effectPreferences.get(effect) || 0) * 5;
-              }
-            });
-          }
-          
-          // Same category gets bonus
-          if (product.category === categoryPreference) {
-            score += 3;
+      const seedIds = new Set<number>();
+      if (req.isAuthenticated()) {
+        const userId = (req.user as any).id;
+        const userOrders = await storage.getUserOrders(userId);
+        for (const order of userOrders) {
+          if (order.status !== 'paid' && order.status !== 'completed') continue;
+          try {
+            (JSON.parse(order.items) as OrderItem[]).forEach(item => seedIds.add(item.id));
+          } catch (e) {
+            console.error("[Recommendations] Failed to parse order items:", e);
           }
-          
-          return { ...product, score };
-        })
-        .filter((p: any) => p.score > 0) // Only include products with some relevance
-        .sort((a: any, b: any) => b.score - a.score) // Sort by score descending
-        .slice(0, 6); // Top 6 recommendations
-      
-      // Remove score from response
-      const recommendations = scoredProducts.map(({ score, ...product }) => product);
-      
-      res.json(recommendations);
+        }
+        const cart = await storage.getCartItems(userId);
+        cart.forEach(item => seedIds.add(item.productId));
+      }
+
+      const seeds = Array.from(seedIds);
+      res.json(await rankRecommendations(seeds, new Set(seeds), 6));
     } catch (error) {
       console.error("[Recommendations] Failed to get recommendations:", error);
       res.status(500).json({ error: "Ошибка получения рекомендаций" });
     }
   });
 
+  // "С этим чаем покупают" on the product page and cart upsells; works for guest carts too
+  app.get("/api/recommendations/bought-together", async (req, res) => {
+    try {
+      const productIds = String(req.query.productIds || "")
+        .split(",")
+        .map(id => parseInt(id, 10))
+        .filter(id => Number.isInteger(id) && id > 0)
+        .slice(0, 50);
+      if (productIds.length === 0) {
+        return res.status(400).json({ error: "productIds is required" });
+      }
+      const limit = Math.min(Math.max(parseInt(String(req.query.limit || "4"), 10) || 4, 1), 12);
+      res.json(await rankRecommendations(productIds, new Set(productIds), limit));
+    } catch (error) {
+      console.error("[Recommendations] Failed to get bought-together products:", error);
+      res.status(500).json({ error: "Ошибка получения рекомендаций" });
+    }
+  });
+
   // Order placement route
   app.post("/api/orders", async (req, res) => {
     try {
@@ -817,79 +1595,70 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       }
       
-      // Backend security check: Recalculate total with proper discount
-      // This prevents manipulation of discounts
-      const BULK_DISCOUNT = 0.10; // 10% discount for 100g or more per item
-      let calculatedTotal = 0;
-      const products = await storage.getProducts();
+      // Backend security check: the order is priced from the catalog, never from client prices
+      const products = await withSalePrices(await storage.getProductsWithVariants());
+      const pricedItems: typeof orderData.items = [];
       
       for (const item of orderData.items) {
-        const product = products.find((p: any) => p.id === item.id);
-        if (product) {
-          let itemPrice = (product.pricePerGram || 0) * item.quantity;
-          // Apply bulk discount for tea products with quantity >= 100g
-          if (product.category === "tea" && item.quantity >= 100) {
-            itemPrice = itemPrice * (1 - BULK_DISCOUNT);
-          }
-          calculatedTotal += itemPrice;
+        const product = products.find(p => p.id === item.id);
+        if (!product) {
+          res.status(400).json({ error: `«${item.name}» больше не продаётся. Обновите корзину.` });
+          return;
+        }
+        if (!isProductPublished(product)) {
+          res.status(400).json({ error: `«${product.name}» больше не продаётся. Обновите корзину.` });
+          return;
         }
-      }
-      
-      // Get site settings for discount values
-      const siteSettings = await storage.getSiteSettings();
-      const firstOrderDiscountPercent = siteSettings?.firstOrderDiscount ?? 20;
-      
-      // Apply first order discount first (configurable % from base total)
-      let usedFirstOrderDiscount = false;
-      let firstOrderDiscountAmount = 0;
-      if (user && !user.firstOrderDiscountUsed) {
-        firstOrderDiscountAmount = calculatedTotal * (firstOrderDiscountPercent / 100);
-        calculatedTotal = calculatedTotal - firstOrderDiscountAmount;
-        usedFirstOrderDiscount = true;
-        console.log("[Order] First order discount applied:", firstOrderDiscountAmount, `(${firstOrderDiscountPercent}%)`);
-      }
-      
-      // Apply loyalty discount to the reduced total (only if user is verified)
-      // Use configurable loyalty levels from site settings
-      let loyaltyDiscount = 0;
-      if (user && user.phoneVerified) {
-        const xp = user.xp;
-        const level4MinXP = siteSettings?.loyaltyLevel4MinXP ?? 15000;
-        const level3MinXP = siteSettings?.loyaltyLevel3MinXP ?? 7000;
-        const level2MinXP = siteSettings?.loyaltyLevel2MinXP ?? 3000;
         
-        if (xp >= level4MinXP) {
-          loyaltyDiscount = siteSettings?.loyaltyLevel4Discount ?? 15;
-        } else if (xp >= level3MinXP) {
-          loyaltyDiscount = siteSettings?.loyaltyLevel3Discount ?? 10;
-        } else if (xp >= level2MinXP) {
-          loyaltyDiscount = siteSettings?.loyaltyLevel2Discount ?? 5;
+        const variant = item.variantId ? product.variants.find(v => v.id === item.variantId) : undefined;
+        if (item.variantId && !variant) {
+          res.status(400).json({ error: `Вариант товара «${product.name}» больше недоступен. Обновите корзину.` });
+          return;
         }
+        
+        if (!hasEnoughStock(product, variant, item.quantity)) {
+          const label = variant ? `${product.name}, ${variant.name}` : product.name;
+          res.status(400).json({ error: `«${label}» нет в нужном количестве. Обновите корзину.` });
+          return;
+        }
+        
+        // Custom weights get their volume-discount price from the quote below
+        pricedItems.push(variant
+          ? { ...item, name: product.name, pricePerGram: getVariantUnitPrice(variant), variantName: variant.name, bundleItems: getBundleOrderItems(product) }
+          : { ...item, name: product.name, pricePerGram: product.pricePerGram, variantId: null, variantName: null, bundleItems: getBundleOrderItems(product) });
       }
-      const loyaltyDiscountAmount = (calculatedTotal * loyaltyDiscount) / 100;
-      calculatedTotal = calculatedTotal - loyaltyDiscountAmount;
       
-      // Apply custom discount (individual discount from admin) to the reduced total
-      const customDiscount = user?.customDiscount || 0;
-      const customDiscountAmount = (calculatedTotal * customDiscount) / 100;
-      calculatedTotal = calculatedTotal - customDiscountAmount;
-      
-      // Clamp total to zero (prevent negative totals from stacked discounts)
-      calculatedTotal = Math.max(calculatedTotal, 0);
+      if (orderData.promoCode && !allowPromoLookup(req, orderData.promoCode)) {
+        res.status(429).json({ error: PROMO_LOOKUP_LIMIT_ERROR });
+        return;
+      }
+      const quote = await getCartQuote(
+        orderData.items.map(item => ({ productId: item.id, variantId: item.variantId, quantity: item.quantity })),
+        { customer: user ?? null, userId, phone: orderData.phone, promoCode: orderData.promoCode, xpPoints: orderData.xpPoints, products }
+      );
+      if (quote.promoError) {
+        res.status(400).json({ error: quote.promoError });
+        return;
+      }
+      for (const line of quote.lines) {
+        // Stored per line, so the receipt charges each custom weight at its tier price
+        pricedItems[line.index].pricePerGram = line.unitPrice;
+        if (line.promoDiscount > 0) {
+          pricedItems[line.index].promoDiscount = line.promoDiscount;
+        }
+      }
+      const usedFirstOrderDiscount = !!getAdjustment(quote, "first_order");
+      const usedCustomDiscount = !!getAdjustment(quote, "custom");
+      const promoDiscount = getAdjustment(quote, "promo")?.amount ?? 0;
+      console.log("[Order] Priced:", quote.subtotal, "->", quote.total, quote.adjustments);
       
       // Log if there's a discrepancy
-      if (Math.abs(calculatedTotal - orderData.total) > 1) {
-        console.warn("[Order] Total mismatch - calculated:", calculatedTotal, "received:", orderData.total);
+      if (Math.abs(quote.total - orderData.total) > 1) {
+        console.warn("[Order] Total mismatch - calculated:", quote.total, "received:", orderData.total);
       }
       
       // Use calculated total (prevents price manipulation)
-      const finalTotal = calculatedTotal;
-      
-      // Validate total is not negative
-      if (finalTotal < 0) {
-        res.status(400).json({ error: "Итоговая сумма заказа не может быть отрицательной" });
-        return;
-      }
+      const finalTotal = quote.total;
       
       // Save order to database with calculated total
       const savedOrder = await storage.createOrder({
@@ -899,12 +1668,60 @@ export async function registerRoutes(app: Express): Promise<Server> {
         phone: orderData.phone,
         address: orderData.address,
         comment: orderData.comment,
-        items: JSON.stringify(orderData.items),
+        items: JSON.stringify(pricedItems),
         total: finalTotal,
         usedFirstOrderDiscount,
+        promoCodeId: quote.promo?.id ?? null,
+        promoCode: quote.promo?.code ?? null,
+        promoDiscount,
       });
+      if (!savedOrder) {
+        // Other orders used up the code between the quote and now
+        res.status(409).json({ error: "Промокод больше не действует: исчерпан лимит использований" });
+        return;
+      }
       console.log("[Order] Order saved to database, ID:", savedOrder.id);
       
+      // Points were priced into the total, so the order can't stand without them
+      const xpPointsSpent = getAdjustment(quote, "xp_points")?.xp ?? 0;
+      if (xpPointsSpent > 0 && userId) {
+        const spent = await storage.spendOrderXpPoints(savedOrder.id, userId, xpPointsSpent);
+        if (!spent) {
+          await db.update(ordersTable).set({ status: "cancelled" }).where(eq(ordersTable.id, savedOrder.id));
+          console.warn("[Order] Not enough XP for points, order cancelled:", savedOrder.id);
+          res.status(409).json({ error: "Недостаточно баллов. Обновите страницу и попробуйте снова." });
+          return;
+        }
+        console.log("[Order] Spent XP points:", xpPointsSpent);
+      }
+      
+      // The wallet covers what it can; the rest goes through Tinkoff in /api/payments/init
+      let order = savedOrder;
+      let paidFromWallet = false;
+      if (orderData.useWallet && userId) {
+        const totalKopecks = Math.round(finalTotal * 100);
+        const walletAmount = await storage.payOrderFromWallet(savedOrder.id, userId, totalKopecks);
+        if (walletAmount > 0) {
+          paidFromWallet = walletAmount >= totalKopecks;
+          console.log("[Order] Paid from wallet:", walletAmount / 100, "of", finalTotal, paidFromWallet ? "(fully)" : "(partly)");
+          
+          if (paidFromWallet) {
+            // Nothing left for Tinkoff: the order is paid right away
+            const [paidOrder] = await db.update(ordersTable)
+              .set({ status: "paid", paymentStatus: "WALLET" })
+              .where(eq(ordersTable.id, savedOrder.id))
+              .returning();
+            order = paidOrder;
+            await syncOrderStock(order.id, "paid");
+            await awardOrderXp(order);
+          } else {
+            order = (await storage.getOrder(savedOrder.id)) ?? savedOrder;
+          }
+        }
+      } else if (xpPointsSpent > 0) {
+        order = (await storage.getOrder(savedOrder.id)) ?? savedOrder;
+      }
+      
       // Mark first order discount as used if applicable
       if (usedFirstOrderDiscount && userId) {
         await storage.markFirstOrderDiscountUsed(userId);
@@ -912,7 +1729,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       // Clear custom discount if it was used
-      if (customDiscount > 0 && userId) {
+      if (usedCustomDiscount && userId) {
         await db.update(usersTable).set({ customDiscount: null }).where(eq(usersTable.id, userId));
         console.log("[Order] Custom discount cleared for user:", userId);
       }
@@ -944,7 +1761,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       // Send email notification
       try {
-        await sendOrderNotification(orderData);
+        await sendOrderNotification({ ...orderData, items: pricedItems, total: finalTotal });
         console.log("[Order] Email notification sent successfully");
       } catch (emailError) {
         console.error("[Order] Email sending failed:", emailError);
@@ -955,7 +1772,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       // Send Telegram notification (non-blocking)
       try {
-        await sendTelegramOrderNotification(savedOrder);
+        await sendTelegramOrderNotification(order);
         console.log("[Order] Telegram notification sent successfully");
       } catch (telegramError) {
         console.error("[Order] Telegram notification failed:", telegramError);
@@ -966,10 +1783,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         success: true, 
         message: "Заказ успешно оформлен",
         orderId: savedOrder.id,
+        walletAmount: order.walletAmount,
+        paidFromWallet,
       });
     } catch (error) {
       console.error("[Order] Order processing error:", error);
-      if (error instanceof Error && error.name === "ZodError") {
+      if (error instanceof ZodError) {
         res.status(400).json({ error: "Неверные данные заказа" });
       } else {
         res.status(500).json({ error: "Ошибка обработки заказа" });
@@ -1298,7 +2117,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         "Причина": t.reason === "online_order" ? "Онлайн-заказ" :
                    t.reason === "offline_purchase" ? "Офлайн-покупка" :
                    t.reason === "manual_adjustment" ? "Ручная корректировка" :
-                   t.reason === "bonus" ? "Бонус" : t.reason,
+                   t.reason === "bonus" ? "Бонус" :
+                   t.reason === "points_redemption" ? "Списание баллов" :
+                   t.reason === "points_refund" ? "Возврат баллов" :
+                   t.reason === "expiration" ? "Сгорание XP" :
+                   t.reason === "referral" ? "Реферальный бонус" : t.reason,
         "Описание": t.description,
         "Телефон": t.user?.phone || "",
         "Имя": t.user?.name || "",
@@ -1423,6 +2246,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           createdBy: "system",
         });
         console.log(`[Admin] Order #${orderId} completed: Awarded ${xpToAward} XP to user ${orderBeforeUpdate.userId}`);
+        await grantReferralRewards(updatedOrder);
       }
       
       // Restore first order discount if order is cancelled and it was used
@@ -1435,10 +2259,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
         console.log(`[Admin] Order #${orderId} cancelled: Restored first order discount for user ${orderBeforeUpdate.userId}`);
       }
       
+      await syncOrderStock(orderId, statusData.status);
+      await syncOrderRefunds(orderId, statusData.status);
+      
       res.json(updatedOrder);
     } catch (error) {
       console.error("[Admin] Update order status error:", error);
-      if (error instanceof Error && error.name === "ZodError") {
+      if (error instanceof ZodError) {
         res.status(400).json({ error: "Invalid status value" });
       } else {
         res.status(500).json({ error: "Failed to update order status" });
@@ -1485,6 +2312,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Extract payment status
       const tinkoffStatus = paymentState.Status;
       
+      // A failed payment only cancels a pending order it is the current payment of
+      if (isPaymentFailed(tinkoffStatus) && (order.status !== "pending" || String(paymentIdToUse) !== order.paymentId)) {
+        console.log(`[Admin] Ignoring ${tinkoffStatus} of payment ${paymentIdToUse} for order ${orderId} in status ${order.status}`);
+        res.status(409).json({
+          error: `Payment ${paymentIdToUse} is ${tinkoffStatus}, but it is not the current payment of a pending order`,
+        });
+        return;
+      }
+      
       // Extract receipt URL from response
       let receiptUrl: string | null = null;
       
@@ -1518,7 +2354,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       let orderStatus: string = order.status;
       if (tinkoffStatus === "CONFIRMED") {
         orderStatus = "paid";
-      } else if (tinkoffStatus === "REJECTED") {
+      } else if (isPaymentFailed(tinkoffStatus)) {
         orderStatus = "cancelled";
       }
       
@@ -1577,6 +2413,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       console.log(`[Admin] Order ${orderId} updated in database`);
       
+      if (orderStatus !== order.status) {
+        await syncOrderStock(orderId, orderStatus);
+        await syncOrderRefunds(orderId, orderStatus);
+      }
+      
       // Award XP if payment is confirmed and user is authenticated
       let xpAwarded = false;
       if (tinkoffStatus === "CONFIRMED" && order.userId && orderStatus !== order.status) {
@@ -1588,6 +2429,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
             xp: sql`${usersTable.xp} + ${xpToAdd}`,
           })
           .where(eq(usersTable.id, order.userId));
+        await storage.createXpTransaction({
+          userId: order.userId,
+          amount: xpToAdd,
+          reason: "online_order",
+          description: `Заказ #${orderId}: +${xpToAdd} XP`,
+          orderId,
+          createdBy: "system",
+        });
         xpAwarded = true;
         console.log(`[Admin] Added ${xpToAdd} XP to user ${order.userId} (x${xpMultiplier})`);
       }
@@ -1626,26 +2475,32 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/cart", requireAuth, async (req: any, res) => {
     try {
       const userId = req.user.id;
-      const { productId, quantity } = req.body;
+      const { productId, quantity, variantId } = req.body;
       
       // Server-side calculation of pricePerUnit based on product data
-      const products = await storage.getProducts();
-      const product = products.find(p => p.id === productId);
-      if (!product) {
+      const found = await storage.getProductWithVariants(productId);
+      if (!found || !isProductPublished(found)) {
         res.status(404).json({ error: "Product not found" });
         return;
       }
+      const product = await withSalePrice(found);
+      
+      const variant = variantId ? product.variants.find(v => v.id === variantId) : undefined;
+      if (variantId && !variant) {
+        res.status(404).json({ error: "Вариант товара не найден" });
+        return;
+      }
       
-      // Check if item already exists in cart to calculate total quantity
+      // Check if the same variant is already in cart to calculate total quantity
       const existingCartItems = await storage.getCartItems(userId);
-      const existingItem = existingCartItems.find(item => item.productId === productId);
+      const existingItem = existingCartItems.find(item => 
+        item.productId === productId && (item.variantId ?? null) === (variant?.id ?? null)
+      );
       const totalQuantity = (existingItem?.quantity || 0) + quantity;
       
-      const BULK_DISCOUNT = 0.10; // 10% discount for quantities >= 100g
-      const isTea = product.category === "tea";
-      const calculatedPricePerUnit = (isTea && totalQuantity >= 100)
-        ? product.pricePerGram * (1 - BULK_DISCOUNT)
-        : product.pricePerGram;
+      const calculatedPricePerUnit = variant
+        ? getVariantUnitPrice(variant)
+        : getLegacyUnitPrice(product, totalQuantity, await getProductVolumeDiscountTiers(product));
       
       if (existingItem) {
         // Update existing item with new total quantity and recalculated price
@@ -1655,6 +2510,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         // Add new item
         const cartItemData = insertCartItemSchema.parse({
           productId,
+          variantId: variant?.id ?? null,
           quantity,
           pricePerUnit: calculatedPricePerUnit,
           userId,
@@ -1664,7 +2520,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
     } catch (error) {
       console.error("[Cart] Add to cart error:", error);
-      if (error instanceof Error && error.name === "ZodError") {
+      if (error instanceof ZodError) {
         res.status(400).json({ error: "Invalid cart item data" });
       } else {
         res.status(500).json({ error: "Failed to add item to cart" });
@@ -1692,12 +2548,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (pricePerUnit !== undefined) {
         finalPricePerUnit = pricePerUnit;
       } else {
-        const BULK_DISCOUNT = 0.10; // 10% discount for quantities >= 100g
-        const product = currentItem.product;
-        const isTea = product.category === "tea";
-        finalPricePerUnit = (isTea && quantity >= 100)
-          ? product.pricePerGram * (1 - BULK_DISCOUNT)
-          : product.pricePerGram;
+        const product = await withSalePrice({ ...currentItem.product, variants: currentItem.variant ? [currentItem.variant] : [] });
+        finalPricePerUnit = product.variants.length > 0
+          ? getVariantUnitPrice(product.variants[0])
+          : getLegacyUnitPrice(product, quantity, await getProductVolumeDiscountTiers(product));
       }
       
       const updatedItem = await storage.updateCartItem(id, quantity, userId, finalPricePerUnit);
@@ -1709,7 +2563,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       res.json(updatedItem);
     } catch (error) {
       console.error("[Cart] Update cart item error:", error);
-      if (error instanceof Error && error.name === "ZodError") {
+      if (error instanceof ZodError) {
         res.status(400).json({ error: "Invalid quantity" });
       } else {
         res.status(500).json({ error: "Failed to update cart item" });
@@ -1746,6 +2600,95 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Itemised totals for the cart drawer and checkout, priced exactly as POST /api/orders will
+  app.post("/api/cart/quote", async (req, res) => {
+    try {
+      const data = cartQuoteRequestSchema.parse(req.body);
+      const user = req.isAuthenticated() ? await storage.getUser((req.user as any).id) : undefined;
+      // Over the limit the cart is still priced, just without looking the code up
+      const promoAllowed = !data.promoCode || allowPromoLookup(req, data.promoCode);
+      const quote = await getCartQuote(
+        data.items.map(item => ({ productId: item.id, variantId: item.variantId, quantity: item.quantity })),
+        {
+          customer: user ?? null,
+          userId: user?.id ?? null,
+          phone: data.phone || user?.phone || null,
+          promoCode: promoAllowed ? data.promoCode : null,
+          xpPoints: data.xpPoints,
+          products: await storage.getProductsWithVariants({ publishedOnly: true }),
+        }
+      );
+      res.json(promoAllowed ? quote : { ...quote, promoError: PROMO_LOOKUP_LIMIT_ERROR });
+    } catch (error) {
+      console.error("[Cart] Quote error:", error);
+      if (error instanceof ZodError) {
+        res.status(400).json({ error: error.errors[0]?.message || "Invalid cart data" });
+      } else {
+        res.status(500).json({ error: "Failed to price cart" });
+      }
+    }
+  });
+
+  // Favourites routes (the bot reads the same table)
+  app.get("/api/favorites", requireAuth, async (req: any, res) => {
+    try {
+      res.json(await storage.getFavoriteProductIds(req.user.id));
+    } catch (error) {
+      console.error("[Favorites] Get favorites error:", error);
+      res.status(500).json({ error: "Failed to get favorites" });
+    }
+  });
+
+  app.get("/api/favorites/products", requireAuth, async (req: any, res) => {
+    try {
+      res.json(await withSalePrices(await storage.getFavoriteProducts(req.user.id)));
+    } catch (error) {
+      console.error("[Favorites] Get favorite products error:", error);
+      res.status(500).json({ error: "Failed to get favorites" });
+    }
+  });
+
+  app.post("/api/favorites", requireAuth, async (req: any, res) => {
+    try {
+      const { productId } = favoriteInputSchema.parse(req.body);
+      await storage.addFavorites(req.user.id, [productId]);
+      res.json(await storage.getFavoriteProductIds(req.user.id));
+    } catch (error) {
+      console.error("[Favorites] Add favorite error:", error);
+      if (error instanceof ZodError) {
+        res.status(400).json({ error: "Invalid product" });
+      } else {
+        res.status(500).json({ error: "Failed to add favorite" });
+      }
+    }
+  });
+
+  // Guest favourites from localStorage, sent once after login
+  app.post("/api/favorites/merge", requireAuth, async (req: any, res) => {
+    try {
+      const { productIds } = mergeFavoritesSchema.parse(req.body);
+      await storage.addFavorites(req.user.id, Array.from(new Set(productIds)));
+      res.json(await storage.getFavoriteProductIds(req.user.id));
+    } catch (error) {
+      console.error("[Favorites] Merge favorites error:", error);
+      if (error instanceof ZodError) {
+        res.status(400).json({ error: "Invalid favorites" });
+      } else {
+        res.status(500).json({ error: "Failed to merge favorites" });
+      }
+    }
+  });
+
+  app.delete("/api/favorites/:productId", requireAuth, async (req: any, res) => {
+    try {
+      await storage.removeFavorite(req.user.id, parseInt(req.params.productId));
+      res.json(await storage.getFavoriteProductIds(req.user.id));
+    } catch (error) {
+      console.error("[Favorites] Remove favorite error:", error);
+      res.status(500).json({ error: "Failed to remove favorite" });
+    }
+  });
+
   // Saved Addresses routes
   app.get("/api/addresses", requireAuth, async (req: any, res) => {
     try {
@@ -1776,7 +2719,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       res.status(201).json(newAddress);
     } catch (error) {
       console.error("[Addresses] Create address error:", error);
-      if (error instanceof Error && error.name === "ZodError") {
+      if (error instanceof ZodError) {
         res.status(400).json({ error: "Некорректные данные адреса" });
       } else {
         res.status(500).json({ error: "Ошибка сохранения адреса" });
@@ -1833,10 +2776,59 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.put("/api/site-settings", requireAdminAuth, async (req, res) => {
     try {
       const settingsData = updateSiteSettingsSchema.parse(req.body);
-      const updated = await storage.updateSiteSettings(settingsData);
+      const current = await storage.getSiteSettings();
+      // A new XP policy counts from now, see shared/xpPolicy.ts
+      const policyChanged = settingsData.xpPolicy !== undefined && settingsData.xpPolicy !== (current?.xpPolicy ?? "none");
+      const updated = await storage.updateSiteSettings(policyChanged
+        ? { ...settingsData, xpPolicyStartedAt: settingsData.xpPolicy === "none" ? null : new Date().toISOString() }
+        : settingsData);
+      if (policyChanged) {
+        void applyXpPolicy();
+      }
       res.json(updated);
     } catch (error) {
-      res.status(400).json({ error: "Invalid site settings data" });
+      // Tier validation messages are meant for the admin
+      res.status(400).json({ error: error instanceof ZodError ? error.errors[0]?.message || "Invalid site settings data" : "Invalid site settings data" });
+    }
+  });
+
+  // Loyalty levels: public for the profile, cart and levels modal, replaced as a whole from the admin
+  app.get("/api/loyalty-levels", async (_req, res) => {
+    try {
+      res.json(await getLoyaltyLevels());
+    } catch (error) {
+      console.error("[Loyalty] Get levels error:", error);
+      res.status(500).json({ error: "Не удалось загрузить уровни лояльности" });
+    }
+  });
+
+  app.get("/api/loyalty/forecast", requireAuth, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.id);
+      if (!user) {
+        res.status(404).json({ error: "Пользователь не найден" });
+        return;
+      }
+      res.json(await getXpPolicyForecast(user));
+    } catch (error) {
+      console.error("[XpPolicy] Get forecast error:", error);
+      res.status(500).json({ error: "Failed to get XP forecast" });
+    }
+  });
+
+  app.put("/api/admin/loyalty-levels", requireAdminAuth, async (req, res) => {
+    try {
+      const levels = loyaltyLevelsInputSchema.parse(req.body);
+      await storage.replaceLoyaltyLevels(levels);
+      console.log(`[Loyalty] Levels replaced: ${levels.map(level => `${level.name} (${level.minXP} XP, ${level.discount}%)`).join(", ")}`);
+      res.json(await getLoyaltyLevels());
+    } catch (error) {
+      if (error instanceof ZodError) {
+        res.status(400).json({ error: error.errors[0]?.message || "Некорректные уровни" });
+        return;
+      }
+      console.error("[Loyalty] Replace levels error:", error);
+      res.status(500).json({ error: "Не удалось сохранить уровни лояльности" });
     }
   });
 
@@ -2026,19 +3018,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
         LIMIT 5
       `);
 
-      // 7. Loyalty levels distribution
+      // 7. Loyalty levels distribution: each user counts towards the highest level their level XP reaches
       const loyaltyDistResult = await db.execute(sql`
         SELECT 
-          CASE
-            WHEN xp < 3000 THEN 'Новичок'
-            WHEN xp < 7000 THEN 'Ценитель'
-            WHEN xp < 15000 THEN 'Чайный мастер'
-            ELSE 'Чайный Гуру'
-          END as level,
+          l.name as level,
           COUNT(*) as count
-        FROM users
-        GROUP BY level
-        ORDER BY MIN(xp) ASC
+        FROM users u
+        JOIN LATERAL (
+          SELECT name, min_xp FROM loyalty_levels
+          WHERE min_xp <= COALESCE(u.level_xp, u.xp + u.xp_points_spent)
+          ORDER BY min_xp DESC
+          LIMIT 1
+        ) l ON true
+        GROUP BY l.name, l.min_xp
+        ORDER BY l.min_xp ASC
       `);
 
       // 8. Order status distribution
@@ -2139,7 +3132,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/banners", async (_req, res) => {
     try {
       const banners = await storage.getInfoBanners(true); // Active only
-      res.json(banners);
+      res.json([...(await getSaleBanners()), ...banners]);
     } catch (error) {
       console.error("[Banners] Error fetching banners:", error);
       res.status(500).json({ error: "Failed to fetch banners" });
@@ -2760,18 +3753,33 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Prepare receipt items for Tinkoff (54-ФЗ compliance)
       // For weight-based items (tea sold by gram), we use Quantity=1 and full line total as Price/Amount
       // This ensures Tinkoff displays the actual product name and correct price on the fiscal receipt
-      const receiptItems: ReceiptItem[] = orderItems.map((item: any) => {
-        // Calculate full line total in kopecks (before any discounts)
-        const amountInKopecks = Math.round(item.pricePerGram * item.quantity * 100);
+      const receiptItems: ReceiptItem[] = (orderItems as OrderItem[]).flatMap((item): ReceiptItem[] => {
+        // Calculate full line total in kopecks. The promo code discount belongs to specific lines
+        // (it may cover only some products), so it's taken off here; other discounts are spread below
+        const amountInKopecks = Math.max(Math.round((item.pricePerGram * item.quantity - (item.promoDiscount ?? 0)) * 100), 1);
+
+        // Bundles are itemised: each component gets its share of the bundle price
+        if (item.bundleItems?.length) {
+          const parts = splitBundleAmount(amountInKopecks, item.bundleItems);
+          return item.bundleItems.map((component, index) => ({
+            Name: `${component.name} (набор «${item.name}»${item.quantity > 1 ? ` × ${item.quantity}` : ""})`.substring(0, 128),
+            Price: parts[index],
+            Quantity: 1,
+            Amount: parts[index],
+            Tax: "vat0",
+            PaymentMethod: "full_payment",
+            PaymentObject: "commodity",
+          }));
+        }
         
         // For fiscal receipts: display full item description with quantity info in the name
-        let itemName = item.name;
+        let itemName = item.variantName ? `${item.name} (${item.variantName})` : item.name;
         if (item.quantity !== 1) {
           // Add weight/quantity info to product name for clarity on receipt
-          itemName = `${item.name} - ${item.quantity}g`;
+          itemName = `${itemName} - ${item.quantity}g`;
         }
         
-        return {
+        return [{
           Name: itemName, // Product name with quantity (e.g., "Лунный свет - 25g")
           Price: amountInKopecks, // Full line price in KOPECKS (equals Amount)
           Quantity: 1, // Always 1 for simplified fiscal receipt display
@@ -2779,15 +3787,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
           Tax: "vat0", // VAT 0% (no VAT, 54-ФЗ compliance)
           PaymentMethod: "full_payment", // Full payment (54-ФЗ compliance)
           PaymentObject: "commodity", // Goods/commodity (54-ФЗ compliance)
-        };
+        }];
       });
 
-      // Calculate payment amount in kopecks
-      const amountInKopecks = Math.round(order.total * 100);
+      // Calculate payment amount in kopecks. The receipt covers the whole order; the part paid
+      // from the wallet was fiscalized as an advance at top-up and is offset below (54-ФЗ)
+      const totalInKopecks = Math.round(order.total * 100);
+      const walletInKopecks = order.walletAmount;
+      const amountInKopecks = totalInKopecks - walletInKopecks;
       
       // Calculate sum of receipt items (before discount adjustment)
       const totalItemsAmount = receiptItems.reduce((sum: number, item: ReceiptItem) => sum + item.Amount, 0);
-      const discountAmount = totalItemsAmount - amountInKopecks;
+      const discountAmount = totalItemsAmount - totalInKopecks;
 
       // Distribute any discount proportionally across all items
       // This handles loyalty discounts, first-order discounts, etc.
@@ -2830,16 +3841,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       }
 
-      // Verify that receipt items total equals payment amount (in KOPECKS)
+      // Verify that receipt items total equals order total (in KOPECKS)
       const receiptTotal = receiptItems.reduce((sum: number, item: ReceiptItem) => sum + item.Amount, 0);
-      if (receiptTotal !== amountInKopecks) {
+      if (receiptTotal !== totalInKopecks) {
         console.error("[Payment] Receipt total mismatch:", {
           receiptTotal,
-          amountInKopecks,
-          diff: receiptTotal - amountInKopecks,
+          totalInKopecks,
+          diff: receiptTotal - totalInKopecks,
           items: receiptItems.map(i => ({ name: i.Name, amount: i.Amount, price: i.Price }))
         });
-        throw new Error(`Receipt total mismatch: ${receiptTotal} !== ${amountInKopecks}`);
+        throw new Error(`Receipt total mismatch: ${receiptTotal} !== ${totalInKopecks}`);
       }
 
       // Use REPLIT_DOMAINS if available (development), otherwise production domain
@@ -2858,6 +3869,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
           Phone: phoneForReceipt, // Customer will receive receipt via SMS (format: 79XXXXXXXXX without +)
           Taxation: "usn_income", // Simplified tax system
           Items: receiptItems,
+          // Card part and wallet part (offset of the prepayment) must add up to the items total
+          ...(walletInKopecks > 0 && {
+            Payments: { Electronic: amountInKopecks, AdvancePayment: walletInKopecks },
+          }),
         },
         NotificationURL: `${baseUrl}/api/payments/notification`,
         SuccessURL: `${baseUrl}/payment/success?orderId=${orderId}`,
@@ -2962,6 +3977,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return;
       }
 
+      // Gift certificate purchase (OrderId is "G_<certificate id>")
+      if (typeof orderIdRaw === 'string' && orderIdRaw.startsWith("G_")) {
+        console.log("[GiftCertificates] Received payment notification:", orderIdRaw, "Status:", paymentStatus);
+
+        if (paymentStatus === "CONFIRMED") {
+          const certificateId = parseInt(orderIdRaw.slice(2));
+          const certificate = await storage.activateGiftCertificate(certificateId, String(notification.PaymentId));
+          if (certificate) {
+            console.log("[GiftCertificates] ✅ Certificate", certificate.id, "paid:", certificate.amount / 100, "RUB");
+            await deliverGiftCertificate(certificate);
+          } else {
+            console.log("[GiftCertificates] Payment already processed or certificate missing:", orderIdRaw);
+          }
+        }
+
+        res.send(tinkoffClient.getNotificationSuccessResponse());
+        return;
+      }
+
       // Check if this is a Telegram order (OrderId starts with "T_")
       if (typeof orderIdRaw === 'string' && orderIdRaw.startsWith("T_")) {
         console.log("[Telegram Order] Received payment notification:", orderIdRaw, "Status:", paymentStatus);
@@ -2978,98 +4012,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
             if (pendingOrder.status === "paid") {
               console.log("[Telegram Order] Order already processed:", orderIdRaw);
             } else {
-              // Parse items
-              const items = JSON.parse(pendingOrder.items as string);
-              
-              // Get user's email (or use placeholder for Telegram orders)
-              const user = await db.query.users.findFirst({
-                where: eq(usersTable.id, pendingOrder.userId),
-              });
-              const userEmail = user?.email || `telegram-${pendingOrder.chatId}@bot.puerpub.ru`;
-              
-              // Create real order (total is in kopecks, convert to rubles for orders table)
-              const totalRubles = pendingOrder.total / 100;
-              const usedFirstOrderDiscount = pendingOrder.discountType === "first_order";
-              
-              const [newOrder] = await db.insert(ordersTable).values({
-                userId: pendingOrder.userId,
-                name: pendingOrder.name,
-                email: userEmail,
-                phone: pendingOrder.phone,
-                address: pendingOrder.address,
-                items: JSON.stringify(items.map((i: any) => ({
-                  id: i.id,
-                  name: i.name,
-                  pricePerGram: i.pricePerGram,
-                  quantity: i.quantity,
-                }))),
-                total: totalRubles,
-                status: "paid",
-                usedFirstOrderDiscount,
-                paymentStatus: "CONFIRMED",
-                paymentId: String(notification.PaymentId),
-                telegramChatId: pendingOrder.chatId, // Save chat ID for receipt delivery
-              }).returning();
-              
-              console.log("[Telegram Order] Created order:", newOrder.id, "for Telegram order:", orderIdRaw);
-              
-              // Update pending order status
-              await db.update(pendingTelegramOrdersTable)
-                .set({ status: "paid" })
-                .where(eq(pendingTelegramOrdersTable.id, pendingOrder.id));
-              
-              // Clear cart
-              await db.delete(telegramCartTable)
-                .where(eq(telegramCartTable.userId, pendingOrder.userId));
-              
-              // Award XP if user exists (user was already queried above for email)
-              if (user) {
-                const telegramSiteSettings = await storage.getSiteSettings();
-                const telegramXpMultiplier = telegramSiteSettings?.xpMultiplier ?? 1;
-                const xpToAdd = Math.floor((pendingOrder.total / 100) * telegramXpMultiplier); // XP per ruble with multiplier
-                
-                if (!user.firstOrderDiscountUsed && pendingOrder.discountType === "first_order") {
-                  await db.update(usersTable)
-                    .set({ 
-                      xp: sql`${usersTable.xp} + ${xpToAdd}`,
-                      firstOrderDiscountUsed: true,
-                    })
-                    .where(eq(usersTable.id, user.id));
-                } else {
-                  await db.update(usersTable)
-                    .set({ xp: sql`${usersTable.xp} + ${xpToAdd}` })
-                    .where(eq(usersTable.id, user.id));
-                }
-                
-                console.log("[Telegram Order] Awarded", xpToAdd, "XP to user:", user.id, `(x${telegramXpMultiplier})`);
-              }
-              
-              // Send confirmation to customer's Telegram chat
-              try {
-                const { sendMessage } = await import("./services/telegramBot");
-                await sendMessage(pendingOrder.chatId, `✅ <b>Заказ #${newOrder.id} оплачен!</b>
-
-Спасибо за покупку! Мы свяжемся с вами для уточнения деталей доставки.
-
-💰 Сумма: ${(pendingOrder.total / 100).toLocaleString("ru-RU")} ₽`, {
-                  inline_keyboard: [[{ text: "🏠 Главное меню", callback_data: "main_menu" }]],
-                });
-              } catch (telegramError) {
-                console.error("[Telegram Order] Failed to send confirmation:", telegramError);
-              }
-              
-              // Send order notification to admin group chat
-              try {
-                await sendTelegramOrderNotification(newOrder);
-              } catch (adminNotifyError) {
-                console.error("[Telegram Order] Failed to send admin notification:", adminNotifyError);
-              }
-              
-              console.log("[Telegram Order] ✅ Order completed:", orderIdRaw);
+              await completeTelegramOrder(pendingOrder, String(notification.PaymentId));
             }
           } else {
             console.error("[Telegram Order] Pending order not found:", orderIdRaw);
           }
+        } else if (isPaymentFailed(paymentStatus)) {
+          // Rejected, cancelled or expired: the balance and points reserved for this order go back to the customer
+          const pendingOrder = await db.query.pendingTelegramOrders.findFirst({
+            where: eq(pendingTelegramOrdersTable.orderId, orderIdRaw),
+          });
+          const cancelled = pendingOrder && await storage.cancelPendingTelegramOrder(pendingOrder.id);
+          if (cancelled && cancelled.walletAmount > 0) {
+            console.log("[Telegram Order] Payment", paymentStatus, "- refunded", cancelled.walletAmount / 100, "RUB to the balance:", orderIdRaw);
+          }
         }
         
         res.send(tinkoffClient.getNotificationSuccessResponse());
@@ -3241,16 +4197,34 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return;
       }
 
+      // An unpaid order whose current payment was rejected, cancelled or expired is cancelled, which
+      // returns its wallet part and points. The failure of an older payment attempt changes nothing.
+      if (isPaymentFailed(paymentStatus)) {
+        const currentOrder = await db.query.orders.findFirst({
+          where: eq(ordersTable.id, orderId),
+        });
+        if (!currentOrder || currentOrder.status !== "pending" || currentOrder.paymentId !== String(notification.PaymentId)) {
+          console.log("[Payment] Ignoring stale", paymentStatus, "for order", orderId, "payment", notification.PaymentId);
+          res.send(tinkoffClient.getNotificationSuccessResponse());
+          return;
+        }
+      }
+
       // Update order payment status
       await db.update(ordersTable)
         .set({
           paymentStatus: paymentStatus,
           status: paymentStatus === "CONFIRMED" ? "paid" : 
-                  paymentStatus === "REJECTED" ? "cancelled" : "pending",
+                  isPaymentFailed(paymentStatus) ? "cancelled" : "pending",
         })
         .where(eq(ordersTable.id, orderId));
 
       console.log("[Payment] Order", orderId, "payment status updated to:", paymentStatus);
+      
+      if (paymentStatus === "CONFIRMED" || isPaymentFailed(paymentStatus)) {
+        await syncOrderStock(orderId, paymentStatus === "CONFIRMED" ? "paid" : "cancelled");
+        await syncOrderRefunds(orderId, paymentStatus === "CONFIRMED" ? "paid" : "cancelled");
+      }
 
       // If payment confirmed, process receipt and award XP
       if (paymentStatus === "CONFIRMED") {
@@ -3321,18 +4295,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           }
 
           // Award XP to user if authenticated
-          if (order.userId) {
-            const siteSettings = await storage.getSiteSettings();
-            const xpMultiplier = siteSettings?.xpMultiplier ?? 1;
-            const xpToAdd = Math.floor(order.total * xpMultiplier);
-            await db.update(usersTable)
-              .set({
-                xp: sql`${usersTable.xp} + ${xpToAdd}`,
-              })
-              .where(eq(usersTable.id, order.userId));
-
-            console.log("[Payment] Added", xpToAdd, "XP to user:", order.userId, `(x${xpMultiplier})`);
-          }
+          await awardOrderXp(order);
         }
       }
 
@@ -3393,17 +4356,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const tinkoffClient = getTinkoffClient();
       const paymentState = await tinkoffClient.getState(order.paymentId);
 
-      // Update our database if status changed
-      if (paymentState.Status !== order.paymentStatus) {
+      // Update our database if status changed; only a pending order is cancelled by a failed payment
+      const staleFailure = isPaymentFailed(paymentState.Status) && order.status !== "pending";
+      if (staleFailure) {
+        console.log("[Payment] Ignoring", paymentState.Status, "for order", orderId, "in status", order.status);
+      } else if (paymentState.Status !== order.paymentStatus) {
         await db.update(ordersTable)
           .set({
             paymentStatus: paymentState.Status,
             status: paymentState.Status === "CONFIRMED" ? "paid" : 
-                    paymentState.Status === "REJECTED" ? "cancelled" : "pending",
+                    isPaymentFailed(paymentState.Status) ? "cancelled" : "pending",
           })
           .where(eq(ordersTable.id, orderId));
 
         console.log("[Payment] Order", orderId, "status synchronized:", paymentState.Status);
+        
+        if (paymentState.Status === "CONFIRMED" || isPaymentFailed(paymentState.Status)) {
+          await syncOrderStock(orderId, paymentState.Status === "CONFIRMED" ? "paid" : "cancelled");
+          await syncOrderRefunds(orderId, paymentState.Status === "CONFIRMED" ? "paid" : "cancelled");
+        }
       }
 
       res.json({
@@ -3475,8 +4446,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
             Quantity: 1,
             Amount: amountKopecks,
             Tax: "none",
-            PaymentMethod: "full_prepayment",
-            PaymentObject: "service",
+            PaymentMethod: "advance", // Spent on goods later, offset as AdvancePayment at checkout
+            PaymentObject: "payment",
           }],
         },
         NotificationURL: `${baseUrl}/api/payments/notification`,
@@ -3534,6 +4505,239 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // ========== GIFT CERTIFICATE ROUTES ==========
+
+  // Buy a certificate: created pending, activated and sent out by the payment notification
+  app.post("/api/gift-certificates/purchase", async (req, res) => {
+    try {
+      const data = giftCertificatePurchaseSchema.parse(req.body);
+      const amountKopecks = data.amount * 100;
+
+      const certificate = await createGiftCertificate({
+        amount: amountKopecks,
+        source: "purchase",
+        buyerName: data.buyerName,
+        buyerPhone: normalizePhone(data.buyerPhone),
+        buyerEmail: data.buyerEmail ?? null,
+        recipientName: data.recipientName || null,
+        recipientPhone: data.recipientPhone ? normalizePhone(data.recipientPhone) : null,
+        recipientEmail: data.recipientEmail ?? null,
+        message: data.message || null,
+        expiresAt: getGiftCertificateExpiry(),
+      });
+
+      const tinkoffClient = getTinkoffClient();
+      const normalizedPhone = normalizePhone(data.buyerPhone);
+      const phoneForReceipt = normalizedPhone.startsWith('+')
+        ? normalizedPhone.substring(1)
+        : normalizedPhone;
+
+      const baseUrl = process.env.NODE_ENV === 'production'
+        ? 'https://puerpub.replit.app'
+        : `https://${process.env.REPL_SLUG}.${process.env.REPL_OWNER}.repl.co`;
+
+      const paymentRequest = {
+        Amount: amountKopecks,
+        OrderId: `G_${certificate.id}`,
+        Description: `Подарочный сертификат на ${data.amount}₽`,
+        DATA: {
+          Phone: phoneForReceipt,
+        },
+        Receipt: {
+          Phone: phoneForReceipt,
+          Taxation: "usn_income",
+          Items: [{
+            Name: `Подарочный сертификат на ${data.amount}₽`,
+            Price: amountKopecks,
+            Quantity: 1,
+            Amount: amountKopecks,
+            Tax: "none",
+            PaymentMethod: "advance", // Spent on goods later, offset as AdvancePayment at checkout
+            PaymentObject: "payment",
+          }],
+        },
+        NotificationURL: `${baseUrl}/api/payments/notification`,
+        SuccessURL: `${baseUrl}/gift-certificates?paid=1`,
+        FailURL: `${baseUrl}/gift-certificates?failed=1`,
+      };
+
+      console.log("[GiftCertificates] Creating payment for certificate:", certificate.id, "Amount:", data.amount);
+      const paymentResponse = await tinkoffClient.init(paymentRequest);
+
+      res.json({
+        success: true,
+        paymentUrl: paymentResponse.PaymentURL,
+        paymentId: paymentResponse.PaymentId,
+      });
+    } catch (error: any) {
+      console.error("[GiftCertificates] Purchase failed:", error);
+      if (error instanceof ZodError) {
+        res.status(400).json({ error: error.errors[0]?.message || "Некорректные данные сертификата" });
+      } else {
+        res.status(500).json({ error: error.message || "Ошибка при создании платежа" });
+      }
+    }
+  });
+
+  // Printable certificate; the code itself is the secret, so no auth
+  app.get("/api/gift-certificates/:code", async (req, res) => {
+    try {
+      if (!allowGiftCertificateLookup(req, req.params.code)) {
+        res.status(429).json({ error: GIFT_CERTIFICATE_LOOKUP_LIMIT_ERROR });
+        return;
+      }
+      const certificate = await storage.getGiftCertificateByCode(normalizeGiftCertificateCode(req.params.code));
+      if (!certificate || certificate.status === "pending") {
+        res.status(404).json({ error: "Сертификат не найден" });
+        return;
+      }
+      res.json(toPublicGiftCertificate(certificate));
+    } catch (error) {
+      console.error("[GiftCertificates] Get certificate error:", error);
+      res.status(500).json({ error: "Failed to get gift certificate" });
+    }
+  });
+
+  // Redeem into the signed-in customer's wallet
+  app.post("/api/gift-certificates/redeem", requireAuth, async (req: any, res) => {
+    try {
+      const code = normalizeGiftCertificateCode(redeemGiftCertificateSchema.parse(req.body).code);
+      if (!allowGiftCertificateLookup(req, code)) {
+        res.status(429).json({ error: GIFT_CERTIFICATE_LOOKUP_LIMIT_ERROR });
+        return;
+      }
+      const certificate = await storage.redeemGiftCertificate(code, req.user.id);
+      if (!certificate) {
+        const error = getGiftCertificateRedeemError(await storage.getGiftCertificateByCode(code));
+        res.status(400).json({ error: error || "Не удалось активировать сертификат" });
+        return;
+      }
+      console.log(`[GiftCertificates] Certificate ${certificate.id} redeemed by user ${req.user.id}: ${certificate.amount / 100} RUB`);
+      res.json({ success: true, amount: certificate.amount });
+    } catch (error) {
+      console.error("[GiftCertificates] Redeem error:", error);
+      if (error instanceof ZodError) {
+        res.status(400).json({ error: error.errors[0]?.message || "Введите код сертификата" });
+      } else {
+        res.status(500).json({ error: "Не удалось активировать сертификат" });
+      }
+    }
+  });
+
+  app.get("/api/admin/gift-certificates", requireAdminAuth, async (_req, res) => {
+    try {
+      res.json(await storage.getGiftCertificates());
+    } catch (error) {
+      console.error("[GiftCertificates] Get certificates error:", error);
+      res.status(500).json({ error: "Failed to get gift certificates" });
+    }
+  });
+
+  // Manual issue, e.g. for a raffle or an apology; active right away
+  app.post("/api/admin/gift-certificates", requireAdminAuth, async (req, res) => {
+    try {
+      const data = giftCertificateIssueSchema.parse(req.body);
+      const certificate = await createGiftCertificate({
+        amount: data.amount * 100,
+        status: "active",
+        source: "manual",
+        issuedBy: "admin",
+        recipientName: data.recipientName || null,
+        recipientPhone: data.recipientPhone ? normalizePhone(data.recipientPhone) : null,
+        recipientEmail: data.recipientEmail ?? null,
+        message: data.message || null,
+        expiresAt: data.expiresAt ?? getGiftCertificateExpiry(),
+      });
+      console.log(`[GiftCertificates] Certificate ${certificate.id} issued manually: ${data.amount} RUB`);
+      await deliverGiftCertificate(certificate);
+      res.status(201).json(certificate);
+    } catch (error) {
+      console.error("[GiftCertificates] Issue certificate error:", error);
+      if (error instanceof ZodError) {
+        res.status(400).json({ error: error.errors[0]?.message || "Invalid gift certificate data" });
+      } else {
+        res.status(500).json({ error: "Failed to issue gift certificate" });
+      }
+    }
+  });
+
+  app.post("/api/admin/gift-certificates/:id/cancel", requireAdminAuth, async (req, res) => {
+    try {
+      const certificate = await storage.cancelGiftCertificate(parseInt(req.params.id));
+      if (!certificate) {
+        res.status(400).json({ error: "Сертификат уже активирован или аннулирован" });
+        return;
+      }
+      console.log(`[GiftCertificates] Certificate ${certificate.id} cancelled`);
+      res.json(certificate);
+    } catch (error) {
+      console.error("[GiftCertificates] Cancel certificate error:", error);
+      res.status(500).json({ error: "Failed to cancel gift certificate" });
+    }
+  });
+
+  app.post("/api/admin/gift-certificates/:id/resend", requireAdminAuth, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const certificate = (await storage.getGiftCertificates()).find(c => c.id === id);
+      if (!certificate || certificate.status !== "active") {
+        res.status(400).json({ error: "Отправить можно только действующий сертификат" });
+        return;
+      }
+      await deliverGiftCertificate(certificate);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("[GiftCertificates] Resend certificate error:", error);
+      res.status(500).json({ error: "Failed to resend gift certificate" });
+    }
+  });
+
+  // ========== REFERRAL ROUTES ==========
+
+  app.get("/api/referrals", requireAuth, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.id);
+      if (!user) {
+        res.status(404).json({ error: "Пользователь не найден" });
+        return;
+      }
+      res.json(await getReferralStats(user));
+    } catch (error) {
+      console.error("[Referral] Get stats error:", error);
+      res.status(500).json({ error: "Failed to get referral stats" });
+    }
+  });
+
+  // Who's inviting, for the registration page; only the first name is shown
+  app.get("/api/referrals/:code", async (req, res) => {
+    try {
+      const referrer = await findReferrer(req.params.code);
+      if (!referrer) {
+        res.status(404).json({ error: "Приглашение не найдено" });
+        return;
+      }
+      const rewards = getReferralRewards(await storage.getSiteSettings());
+      const invitation: ReferralInvitation = {
+        referrerName: referrer.name?.split(" ")[0] || null,
+        rewardType: rewards.type,
+        refereeReward: rewards.referee,
+      };
+      res.json(invitation);
+    } catch (error) {
+      console.error("[Referral] Get invitation error:", error);
+      res.status(500).json({ error: "Failed to get invitation" });
+    }
+  });
+
+  app.get("/api/admin/referrals", requireAdminAuth, async (_req, res) => {
+    try {
+      res.json(await storage.getReferrals());
+    } catch (error) {
+      console.error("[Referral] Get referrals error:", error);
+      res.status(500).json({ error: "Failed to get referrals" });
+    }
+  });
+
   // ========== TELEGRAM ROUTES ==========
 
   // Telegram Magic Link - Create link for account binding
@@ -3908,7 +5112,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       res.json(result);
     } catch (error) {
       console.error("Error logging analytics event:", error);
-      if (error instanceof Error && error.name === "ZodError") {
+      if (error instanceof ZodError) {
         res.status(400).json({ error: "Invalid event data", details: error });
       } else {
         res.status(500).json({ error: "Failed to log event" });
@@ -3933,7 +5137,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       res.json(result);
     } catch (error) {
       console.error("Error logging analytics events batch:", error);
-      if (error instanceof Error && error.name === "ZodError") {
+      if (error instanceof ZodError) {
         res.status(400).json({ error: "Invalid events data", details: error });
       } else {
         res.status(500).json({ error: "Failed to log events" });
@@ -0,0 +1,131 @@
+import type { ProductWithVariants, ProductRatingSummary } from "@shared/schema";
+import { sortVariants, isVariantInStock } from "@shared/variants";
+import { getProductPath } from "@shared/slug";
+
+const SITE_NAME = "Пуэр паб";
+const META_DESCRIPTION_LENGTH = 160;
+
+// Page-specific tags injected into index.html before it's sent (see server/vite.ts)
+export interface PageMeta {
+  title: string;
+  description: string;
+  url: string;
+  image: string;
+  type: "website" | "product";
+  jsonLd?: Record<string, unknown>;
+}
+
+function escapeAttribute(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/"/g, "&quot;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+}
+
+function truncate(text: string, maxLength: number): string {
+  const plain = text.replace(/\s+/g, " ").trim();
+  if (plain.length <= maxLength) return plain;
+  return plain.slice(0, maxLength - 1).replace(/\s+\S*$/, "") + "…";
+}
+
+function absoluteUrl(baseUrl: string, path: string): string {
+  return path.startsWith("http") ? path : `${baseUrl}${path.startsWith("/") ? "" : "/"}${path}`;
+}
+
+export function buildProductPageMeta(product: ProductWithVariants, baseUrl: string, rating?: ProductRatingSummary): PageMeta {
+  const url = `${baseUrl}${getProductPath(product)}`;
+  const description = truncate(product.description, META_DESCRIPTION_LENGTH);
+  const images = product.images.map(image => absoluteUrl(baseUrl, image));
+  const image = images[0] || `${baseUrl}/icon-512.png`;
+
+  // One offer per pack; legacy products without variants are priced per gram/piece
+  const variants = sortVariants(product.variants);
+  const availability = (inStock: boolean) =>
+    inStock ? "https://schema.org/InStock" : "https://schema.org/OutOfStock";
+  const offers = variants.length > 0
+    ? variants.map(variant => ({
+        "@type": "Offer",
+        name: variant.name,
+        sku: variant.sku || undefined,
+        price: variant.price,
+        priceCurrency: "RUB",
+        availability: availability(!product.outOfStock && isVariantInStock(variant, product.stock)),
+        url: variants.length > 1 ? `${url}?variant=${variant.id}` : url,
+      }))
+    : [{
+        "@type": "Offer",
+        price: product.pricePerGram,
+        priceCurrency: "RUB",
+        availability: availability(!product.outOfStock),
+        url,
+      }];
+  const prices = offers.map(offer => offer.price);
+
+  return {
+    title: `${product.name} — ${product.teaType} | ${SITE_NAME}`,
+    description,
+    url,
+    image,
+    type: "product",
+    jsonLd: {
+      "@context": "https://schema.org",
+      "@type": "Product",
+      name: product.name,
+      description: truncate(product.description, 5000),
+      image: images.length > 0 ? images : [image],
+      sku: variants[0]?.sku || `P${product.id}`,
+      category: product.teaType,
+      brand: { "@type": "Brand", name: SITE_NAME },
+      offers: offers.length === 1
+        ? offers[0]
+        : {
+            "@type": "AggregateOffer",
+            priceCurrency: "RUB",
+            lowPrice: Math.min(...prices),
+            highPrice: Math.max(...prices),
+            offerCount: offers.length,
+            offers,
+          },
+      aggregateRating: rating && rating.count > 0
+        ? {
+            "@type": "AggregateRating",
+            ratingValue: rating.average,
+            reviewCount: rating.count,
+            bestRating: 5,
+            worstRating: 1,
+          }
+        : undefined,
+    },
+  };
+}
+
+function setTagAttribute(html: string, tagPattern: string, attribute: "content" | "href", value: string): string {
+  const pattern = new RegExp(`(<${tagPattern}[^>]*\\s${attribute}=")[^"]*(")`);
+  return html.replace(pattern, (_match, start: string, end: string) => `${start}${escapeAttribute(value)}${end}`);
+}
+
+export function injectPageMeta(html: string, meta: PageMeta | undefined): string {
+  if (!meta) return html;
+
+  let page = html.replace(/<title>[^<]*<\/title>/, () => `<title>${escapeAttribute(meta.title)}</title>`);
+  page = setTagAttribute(page, `meta name="description"`, "content", meta.description);
+  page = setTagAttribute(page, `link rel="canonical"`, "href", meta.url);
+  page = setTagAttribute(page, `meta property="og:type"`, "content", meta.type);
+  page = setTagAttribute(page, `meta property="og:url"`, "content", meta.url);
+  page = setTagAttribute(page, `meta property="og:title"`, "content", meta.title);
+  page = setTagAttribute(page, `meta property="og:description"`, "content", meta.description);
+  page = setTagAttribute(page, `meta property="og:image"`, "content", meta.image);
+  page = setTagAttribute(page, `meta name="twitter:url"`, "content", meta.url);
+  page = setTagAttribute(page, `meta name="twitter:title"`, "content", meta.title);
+  page = setTagAttribute(page, `meta name="twitter:description"`, "content", meta.description);
+  page = setTagAttribute(page, `meta name="twitter:image"`, "content", meta.image);
+
+  if (meta.jsonLd) {
+    // "<" is escaped so product text can't close the script tag
+    const jsonLd = JSON.stringify(meta.jsonLd).replace(/</g, "\\u003c");
+    page = page.replace("</head>", () => `  <script type="application/ld+json">${jsonLd}</script>\n  </head>`);
+  }
+
+  return page;
+}
@@ -0,0 +1,48 @@
+import type { Request } from "express";
+
+/*
+ * Promo codes and gift certificate codes can be checked without an account (guest checkout,
+ * printable certificates), so a client may only try a limited number of different codes per
+ * window. Checking a code it already tried costs nothing, so applying a code and then editing
+ * the cart, or reopening a certificate, never runs into the limit.
+ */
+const WINDOW_MS = 10 * 60 * 1000;
+const MAX_CODES_PER_WINDOW = 10;
+const SWEEP_THRESHOLD = 5000;
+
+function getClientKey(req: Request): string {
+  return req.isAuthenticated() ? `user:${(req.user as any).id}` : `ip:${req.ip}`;
+}
+
+/**
+ * A per-client limit on different codes of one kind; the returned check is false when the
+ * client has tried too many different codes lately
+ */
+export function createCodeLookupLimiter(label: string, normalize: (code: string) => string): (req: Request, code: string) => boolean {
+  const lookups = new Map<string, { codes: Set<string>; resetAt: number }>();
+
+  return (req, rawCode) => {
+    const now = Date.now();
+    if (lookups.size > SWEEP_THRESHOLD) {
+      lookups.forEach((entry, key) => {
+        if (entry.resetAt <= now) lookups.delete(key);
+      });
+    }
+
+    const key = getClientKey(req);
+    let entry = lookups.get(key);
+    if (!entry || entry.resetAt <= now) {
+      entry = { codes: new Set(), resetAt: now + WINDOW_MS };
+      lookups.set(key, entry);
+    }
+
+    const code = normalize(rawCode);
+    if (entry.codes.has(code)) return true;
+    if (entry.codes.size >= MAX_CODES_PER_WINDOW) {
+      console.warn(`[${label}] Too many codes tried by ${key}`);
+      return false;
+    }
+    entry.codes.add(code);
+    return true;
+  };
+}
@@ -0,0 +1,70 @@
+import { randomInt } from "crypto";
+import { storage } from "../storage";
+import { sendGiftCertificateSms } from "../sms-ru";
+import { sendGiftCertificateEmail } from "../resend";
+import { GIFT_CERTIFICATE_CODE_ALPHABET, normalizeGiftCertificateCode } from "@shared/giftCertificates";
+import type { GiftCertificate, InsertGiftCertificate } from "@shared/schema";
+import { createCodeLookupLimiter } from "./codeLookups";
+
+const SITE_URL = "https://puerpub.replit.app";
+const CODE_LENGTH = 12;
+
+function generateGiftCertificateCode(): string {
+  let code = "";
+  for (let i = 0; i < CODE_LENGTH; i++) {
+    code += GIFT_CERTIFICATE_CODE_ALPHABET[randomInt(GIFT_CERTIFICATE_CODE_ALPHABET.length)];
+  }
+  return normalizeGiftCertificateCode(code);
+}
+
+/**
+ * Creates the certificate under a fresh random code, retrying on the rare collision
+ */
+export async function createGiftCertificate(data: Omit<InsertGiftCertificate, "code">): Promise<GiftCertificate> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await storage.createGiftCertificate({ ...data, code: generateGiftCertificateCode() });
+    } catch (error) {
+      const uniqueViolation = error instanceof Error && "code" in error && error.code === "23505";
+      if (!uniqueViolation || attempt >= 3) throw error;
+    }
+  }
+}
+
+// A certificate code is worth money, so guessing is throttled like promo codes; false when over the limit
+export const allowGiftCertificateLookup = createCodeLookupLimiter("GiftCertificates", normalizeGiftCertificateCode);
+
+export const GIFT_CERTIFICATE_LOOKUP_LIMIT_ERROR = "Слишком много попыток ввода кода сертификата. Попробуйте через 10 минут.";
+
+export function getGiftCertificateUrl(certificate: Pick<GiftCertificate, "code">): string {
+  return `${SITE_URL}/gift-certificate/${certificate.code}`;
+}
+
+/**
+ * Sends the code to the recipient's contacts, falling back to the buyer's. Failures are
+ * logged, not thrown: the certificate is paid either way and the admin can resend it.
+ */
+export async function deliverGiftCertificate(certificate: GiftCertificate): Promise<void> {
+  const amountRub = certificate.amount / 100;
+  const url = getGiftCertificateUrl(certificate);
+  const phone = certificate.recipientPhone || certificate.buyerPhone;
+  const email = certificate.recipientEmail || certificate.buyerEmail;
+
+  if (phone) {
+    try {
+      await sendGiftCertificateSms(phone, certificate.code, amountRub, url);
+    } catch (error) {
+      console.error(`[GiftCertificates] SMS for certificate ${certificate.id} failed:`, error);
+    }
+  }
+  if (email) {
+    try {
+      await sendGiftCertificateEmail(email, certificate.code, amountRub, url, certificate.message);
+    } catch (error) {
+      console.error(`[GiftCertificates] Email for certificate ${certificate.id} failed:`, error);
+    }
+  }
+  if (!phone && !email) {
+    console.log(`[GiftCertificates] Certificate ${certificate.id} has no contacts, handed over by the admin`);
+  }
+}
@@ -0,0 +1,10 @@
+import { storage } from "../storage";
+import { toLoyaltyLevels, type LoyaltyLevel } from "@shared/loyalty";
+
+/**
+ * Loyalty levels as configured in the admin, ordered by threshold. Shared by
+ * /api/loyalty-levels, order pricing and the Telegram bot.
+ */
+export async function getLoyaltyLevels(): Promise<LoyaltyLevel[]> {
+  return toLoyaltyLevels(await storage.getLoyaltyLevels());
+}
@@ -0,0 +1,201 @@
+import { eq, sql } from "drizzle-orm";
+import { db } from "../db";
+import { storage } from "../storage";
+import { sendOrderNotification as sendTelegramOrderNotification } from "../telegram";
+import { users as usersTable, orders as ordersTable, pendingTelegramOrders as pendingTelegramOrdersTable, telegramCart as telegramCartTable, type DbOrder, type PendingTelegramOrder } from "@shared/schema";
+
+// Write off stock when an order becomes paid and return it when the order is cancelled.
+// Both directions are idempotent (guarded by orders.stock_deducted), so repeated webhooks are safe.
+export async function syncOrderStock(orderId: number, status: string): Promise<void> {
+  try {
+    if (status === "paid" || status === "completed") {
+      const movements = await storage.deductOrderStock(orderId);
+      if (movements.length > 0) {
+        console.log(`[Inventory] Order ${orderId}: wrote off ${movements.length} stock positions`);
+      }
+    } else if (status === "cancelled") {
+      const movements = await storage.restoreOrderStock(orderId);
+      if (movements.length > 0) {
+        console.log(`[Inventory] Order ${orderId}: returned ${movements.length} stock positions`);
+      }
+    }
+  } catch (error) {
+    // Stock problems must never break payment processing
+    console.error(`[Inventory] Failed to sync stock for order ${orderId}:`, error);
+  }
+}
+
+// Return the wallet part and the spent XP points of a cancelled order. Idempotent like syncOrderStock;
+// the card part is refunded through Tinkoff as before.
+export async function syncOrderRefunds(orderId: number, status: string): Promise<void> {
+  if (status !== "cancelled") return;
+  try {
+    const refunded = await storage.refundOrderWallet(orderId);
+    if (refunded > 0) {
+      console.log(`[Wallet] Order ${orderId}: refunded ${refunded / 100} RUB to the balance`);
+    }
+  } catch (error) {
+    console.error(`[Wallet] Failed to refund wallet for order ${orderId}:`, error);
+  }
+  try {
+    const points = await storage.refundOrderXpPoints(orderId);
+    if (points > 0) {
+      console.log(`[Loyalty] Order ${orderId}: returned ${points} XP points`);
+    }
+  } catch (error) {
+    console.error(`[Loyalty] Failed to return XP points for order ${orderId}:`, error);
+  }
+}
+
+// XP for a paid site order: one per ruble of the total, wallet part included, times the site multiplier
+export async function awardOrderXp(order: DbOrder): Promise<void> {
+  if (!order.userId) return;
+  const siteSettings = await storage.getSiteSettings();
+  const xpMultiplier = siteSettings?.xpMultiplier ?? 1;
+  const xpToAdd = Math.floor(order.total * xpMultiplier);
+  await db.update(usersTable)
+    .set({
+      xp: sql`${usersTable.xp} + ${xpToAdd}`,
+    })
+    .where(eq(usersTable.id, order.userId));
+  // Logged so the XP policy knows when it was earned
+  await storage.createXpTransaction({
+    userId: order.userId,
+    amount: xpToAdd,
+    reason: "online_order",
+    description: `Заказ #${order.id}: +${xpToAdd} XP`,
+    orderId: order.id,
+    createdBy: "system",
+  });
+
+  console.log("[Payment] Added", xpToAdd, "XP to user:", order.userId, `(x${xpMultiplier})`);
+}
+
+/**
+ * Turns a paid bot order into a real order: stock, XP, cart, customer and admin messages.
+ * paymentId is null when the wallet covered the whole order and Tinkoff was never involved.
+ */
+export async function completeTelegramOrder(pendingOrder: PendingTelegramOrder, paymentId: string | null): Promise<DbOrder> {
+  // Parse items
+  const items = JSON.parse(pendingOrder.items as string);
+
+  // Get user's email (or use placeholder for Telegram orders)
+  const user = await db.query.users.findFirst({
+    where: eq(usersTable.id, pendingOrder.userId),
+  });
+  const userEmail = user?.email || `telegram-${pendingOrder.chatId}@bot.puerpub.ru`;
+
+  // Create real order (total is in kopecks, convert to rubles for orders table)
+  const totalRubles = pendingOrder.total / 100;
+  const usedFirstOrderDiscount = pendingOrder.discountType === "first_order";
+
+  const [newOrder] = await db.insert(ordersTable).values({
+    userId: pendingOrder.userId,
+    name: pendingOrder.name,
+    email: userEmail,
+    phone: pendingOrder.phone,
+    address: pendingOrder.address,
+    items: JSON.stringify(items.map((i: any) => ({
+      id: i.id,
+      name: i.name,
+      pricePerGram: i.pricePerGram,
+      quantity: i.quantity,
+      variantId: i.variantId ?? null,
+      variantName: i.variantName ?? null,
+      promoDiscount: i.promoDiscount || undefined,
+    }))),
+    total: totalRubles,
+    status: "paid",
+    usedFirstOrderDiscount,
+    promoCodeId: pendingOrder.promoCodeId,
+    promoCode: pendingOrder.promoCode,
+    promoDiscount: pendingOrder.promoDiscount / 100,
+    walletAmount: pendingOrder.walletAmount,
+    xpPointsSpent: pendingOrder.xpPoints,
+    paymentStatus: paymentId ? "CONFIRMED" : "WALLET",
+    paymentId,
+    telegramChatId: pendingOrder.chatId, // Save chat ID for receipt delivery
+  }).returning();
+
+  console.log("[Telegram Order] Created order:", newOrder.id, "for Telegram order:", pendingOrder.orderId);
+
+  await syncOrderStock(newOrder.id, "paid");
+
+  // The wallet debit and spent points now belong to the order, so cancelling it returns them
+  if (pendingOrder.walletTransactionId) {
+    await storage.linkWalletTransactionToOrder(pendingOrder.walletTransactionId, newOrder.id);
+  }
+  if (pendingOrder.xpTransactionId) {
+    await storage.linkXpTransactionToOrder(pendingOrder.xpTransactionId, newOrder.id);
+  }
+
+  // Update pending order status
+  await db.update(pendingTelegramOrdersTable)
+    .set({ status: "paid" })
+    .where(eq(pendingTelegramOrdersTable.id, pendingOrder.id));
+
+  // Clear cart
+  await db.delete(telegramCartTable)
+    .where(eq(telegramCartTable.userId, pendingOrder.userId));
+
+  // Award XP if user exists (user was already queried above for email)
+  if (user) {
+    const telegramSiteSettings = await storage.getSiteSettings();
+    const telegramXpMultiplier = telegramSiteSettings?.xpMultiplier ?? 1;
+    const xpToAdd = Math.floor((pendingOrder.total / 100) * telegramXpMultiplier); // XP per ruble with multiplier
+
+    if (!user.firstOrderDiscountUsed && pendingOrder.discountType === "first_order") {
+      await db.update(usersTable)
+        .set({
+          xp: sql`${usersTable.xp} + ${xpToAdd}`,
+          firstOrderDiscountUsed: true,
+        })
+        .where(eq(usersTable.id, user.id));
+    } else {
+      await db.update(usersTable)
+        .set({ xp: sql`${usersTable.xp} + ${xpToAdd}` })
+        .where(eq(usersTable.id, user.id));
+    }
+    // The one-shot individual discount is only spent once the payment went through
+    if (pendingOrder.usedCustomDiscount) {
+      await db.update(usersTable).set({ customDiscount: null }).where(eq(usersTable.id, user.id));
+    }
+    await storage.createXpTransaction({
+      userId: user.id,
+      amount: xpToAdd,
+      reason: "online_order",
+      description: `Заказ #${newOrder.id} (Telegram): +${xpToAdd} XP`,
+      orderId: newOrder.id,
+      createdBy: "system",
+    });
+
+    console.log("[Telegram Order] Awarded", xpToAdd, "XP to user:", user.id, `(x${telegramXpMultiplier})`);
+  }
+
+  // Send confirmation to customer's Telegram chat
+  try {
+    const { sendMessage } = await import("./telegramBot");
+    const walletLine = pendingOrder.walletAmount > 0
+      ? `\n👛 С баланса: ${(pendingOrder.walletAmount / 100).toLocaleString("ru-RU")} ₽`
+      : "";
+    await sendMessage(pendingOrder.chatId, `✅ <b>Заказ #${newOrder.id} оплачен!</b>
+
+Спасибо за покупку! Мы свяжемся с вами для уточнения деталей доставки.
+
+💰 Сумма: ${(pendingOrder.total / 100).toLocaleString("ru-RU")} ₽${walletLine}`, {
+      inline_keyboard: [[{ text: "🏠 Главное меню", callback_data: "main_menu" }]],
+    });
+  } catch (telegramError) {
+    console.error("[Telegram Order] Failed to send confirmation:", telegramError);
+  }
+
+  // Send order notification to admin group chat
+  try {
+    await sendTelegramOrderNotification(newOrder);
+  } catch (adminNotifyError) {
+    console.error("[Telegram Order] Failed to send admin notification:", adminNotifyError);
+  }
+
+  console.log("[Telegram Order] ✅ Order completed:", pendingOrder.orderId);
+  return newOrder;
+}
@@ -0,0 +1,34 @@
+import { storage } from "../storage";
+
+const CHECK_INTERVAL_MS = 60 * 1000;
+
+let timer: NodeJS.Timeout | null = null;
+let running = false;
+
+async function applyDuePriceChanges(): Promise<void> {
+  // A slow run must not overlap with the next tick
+  if (running) return;
+  running = true;
+  try {
+    const applied = await storage.applyDueScheduledPriceChanges();
+    for (const change of applied) {
+      const target = change.variantId ? `variant ${change.variantId}` : "base price";
+      console.log(`[PriceScheduler] Product ${change.productId}: ${target} set to ${change.price} (change ${change.id})`);
+    }
+  } catch (error) {
+    console.error("[PriceScheduler] Failed to apply scheduled price changes:", error);
+  } finally {
+    running = false;
+  }
+}
+
+/**
+ * Applies scheduled price changes once their time has come. Checks every minute,
+ * plus once on startup to catch up on changes that came due while the server was down.
+ */
+export function startPriceScheduler(): void {
+  if (timer) return;
+  void applyDuePriceChanges();
+  timer = setInterval(applyDuePriceChanges, CHECK_INTERVAL_MS);
+  console.log("[PriceScheduler] Started");
+}
@@ -0,0 +1,66 @@
+import { storage } from "../storage";
+import { quoteCart, getPricingSettings, type PricingCustomer, type PricingLine, type PriceQuote } from "@shared/pricing";
+import { normalizePromoCode } from "@shared/promo";
+import { resolveVolumeDiscountTiers, type VolumeDiscountTier } from "@shared/volumeDiscounts";
+import type { Product, ProductWithVariants } from "@shared/schema";
+import { withSalePrices } from "./sales";
+import { getLoyaltyLevels } from "./loyalty";
+
+/**
+ * Loads what quoteCart needs (prices, discount settings, loyalty levels, the promo code and its usage so far)
+ * and quotes the cart. Shared by /api/cart/quote, POST /api/orders and the Telegram bot.
+ */
+export async function getCartQuote(
+  lines: PricingLine[],
+  {
+    customer,
+    userId,
+    phone,
+    promoCode,
+    xpPoints,
+    products,
+  }: {
+    customer: PricingCustomer | null;
+    userId: string | null;
+    phone: string | null;
+    promoCode?: string | null;
+    xpPoints?: number; // XP to spend as points, see quoteCart
+    products?: ProductWithVariants[]; // Pass when already loaded
+  }
+): Promise<PriceQuote> {
+  const [loaded, siteSettings, categories, loyaltyLevels] = await Promise.all([
+    products ? Promise.resolve(products) : storage.getProductsWithVariants(),
+    storage.getSiteSettings(),
+    storage.getCategories(),
+    getLoyaltyLevels(),
+  ]);
+  // Sale prices are the list prices; products passed in already priced are left as they are
+  const catalog = await withSalePrices(loaded);
+  const settings = getPricingSettings(siteSettings, loyaltyLevels);
+
+  const code = promoCode ? normalizePromoCode(promoCode) : "";
+  const promo = code ? await storage.getPromoCodeByCode(code) : undefined;
+  const quote = quoteCart({
+    lines,
+    products: catalog,
+    categories,
+    customer,
+    settings,
+    promo: promo
+      ? {
+          promo,
+          usage: await storage.getPromoCodeUsage(promo.id, { userId, phone }),
+        }
+      : null,
+    xpPoints,
+  });
+  return code && !promo ? { ...quote, promoError: "Промокод не найден" } : quote;
+}
+
+/**
+ * Volume discount tiers that apply to the product's custom weights (cart lines without a variant)
+ */
+export async function getProductVolumeDiscountTiers(product: Product): Promise<VolumeDiscountTier[]> {
+  const [siteSettings, categories] = await Promise.all([storage.getSiteSettings(), storage.getCategories()]);
+  return resolveVolumeDiscountTiers(product, categories, siteSettings?.volumeDiscountTiers);
+}
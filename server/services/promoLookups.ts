@@ -0,0 +1,7 @@
+import { normalizePromoCode } from "@shared/promo";
+import { createCodeLookupLimiter } from "./codeLookups";
+
+// false when the client has tried too many different promo codes lately
+export const allowPromoLookup = createCodeLookupLimiter("Promo", normalizePromoCode);
+
+export const PROMO_LOOKUP_LIMIT_ERROR = "Слишком много попыток ввода промокода. Попробуйте через 10 минут.";
@@ -0,0 +1,89 @@
+import { storage } from "../storage";
+import type { InsertProductAssociation } from "@shared/schema";
+
+const REBUILD_INTERVAL_MS = 60 * 60 * 1000;
+// A paid order says more about taste than a cart that may never be checked out
+const ORDER_WEIGHT = 1;
+const CART_WEIGHT = 0.5;
+// Huge baskets (wholesale orders) would link everything with everything
+const MAX_BASKET_SIZE = 30;
+const MAX_RELATED_PER_PRODUCT = 12;
+
+let timer: NodeJS.Timeout | null = null;
+let running = false;
+
+interface PairStats {
+  weight: number;
+  orderCount: number;
+  cartCount: number;
+}
+
+/**
+ * Item-to-item cosine similarity over weighted basket co-occurrence:
+ * score(a, b) = together(a, b) / sqrt(total(a) * total(b)), so bestsellers don't pair with everything.
+ */
+export function buildProductAssociations(purchaseBaskets: number[][], cartBaskets: number[][]): InsertProductAssociation[] {
+  const totals = new Map<number, number>();
+  const pairs = new Map<string, PairStats>();
+
+  const addBaskets = (baskets: number[][], weight: number, source: "orderCount" | "cartCount") => {
+    for (const basket of baskets) {
+      const ids = Array.from(new Set(basket));
+      if (ids.length < 2 || ids.length > MAX_BASKET_SIZE) continue;
+      for (const id of ids) totals.set(id, (totals.get(id) || 0) + weight);
+      for (const a of ids) {
+        for (const b of ids) {
+          if (a === b) continue;
+          const key = `${a}:${b}`;
+          const stats = pairs.get(key) || { weight: 0, orderCount: 0, cartCount: 0 };
+          stats.weight += weight;
+          stats[source] += 1;
+          pairs.set(key, stats);
+        }
+      }
+    }
+  };
+  addBaskets(purchaseBaskets, ORDER_WEIGHT, "orderCount");
+  addBaskets(cartBaskets, CART_WEIGHT, "cartCount");
+
+  const byProduct = new Map<number, InsertProductAssociation[]>();
+  pairs.forEach((stats, key) => {
+    const [productId, relatedProductId] = key.split(":").map(Number);
+    const score = stats.weight / Math.sqrt(totals.get(productId)! * totals.get(relatedProductId)!);
+    const list = byProduct.get(productId) || [];
+    list.push({ productId, relatedProductId, score, orderCount: stats.orderCount, cartCount: stats.cartCount });
+    byProduct.set(productId, list);
+  });
+
+  return Array.from(byProduct.values()).flatMap(list =>
+    list.sort((a, b) => b.score - a.score).slice(0, MAX_RELATED_PER_PRODUCT)
+  );
+}
+
+async function rebuildAssociations(): Promise<void> {
+  // A slow run must not overlap with the next tick
+  if (running) return;
+  running = true;
+  try {
+    const purchaseBaskets = await storage.getPurchaseBaskets();
+    const cartBaskets = await storage.getCartBaskets();
+    const associations = buildProductAssociations(purchaseBaskets, cartBaskets);
+    await storage.replaceProductAssociations(associations);
+    console.log(`[Recommendations] Rebuilt ${associations.length} associations from ${purchaseBaskets.length} orders and ${cartBaskets.length} carts`);
+  } catch (error) {
+    console.error("[Recommendations] Failed to rebuild associations:", error);
+  } finally {
+    running = false;
+  }
+}
+
+/**
+ * Keeps the "bought together" table fresh. Rebuilt from scratch every hour and on startup;
+ * the whole order history fits in memory for a shop this size.
+ */
+export function startRecommendationBuilder(): void {
+  if (timer) return;
+  void rebuildAssociations();
+  timer = setInterval(rebuildAssociations, REBUILD_INTERVAL_MS);
+  console.log("[Recommendations] Started");
+}
@@ -0,0 +1,115 @@
+import { randomInt } from "crypto";
+import { storage } from "../storage";
+import {
+  REFERRAL_CODE_ALPHABET,
+  REFERRAL_CODE_LENGTH,
+  REFERRAL_BOT_PAYLOAD_PREFIX,
+  normalizeReferralCode,
+  getReferralRewards,
+} from "@shared/referrals";
+import type { DbOrder, ReferralStats, User } from "@shared/schema";
+
+const SITE_URL = "https://puerpub.replit.app";
+const BOT_URL = "https://t.me/PuerPabbot";
+
+function generateReferralCode(): string {
+  let code = "";
+  for (let i = 0; i < REFERRAL_CODE_LENGTH; i++) {
+    code += REFERRAL_CODE_ALPHABET[randomInt(REFERRAL_CODE_ALPHABET.length)];
+  }
+  return code;
+}
+
+export function getReferralLink(code: string): string {
+  return `${SITE_URL}/auth?ref=${code}`;
+}
+
+export function getReferralBotLink(code: string): string {
+  return `${BOT_URL}?start=${REFERRAL_BOT_PAYLOAD_PREFIX}${code}`;
+}
+
+/**
+ * The user's code, issued on first request once the phone is verified; null before that
+ */
+export async function ensureReferralCode(user: User): Promise<string | null> {
+  if (user.referralCode) return user.referralCode;
+  if (!user.phoneVerified) return null;
+  for (let attempt = 1; ; attempt++) {
+    try {
+      const updated = await storage.setUserReferralCode(user.id, generateReferralCode());
+      // undefined when a parallel request issued the code first
+      return updated?.referralCode ?? (await storage.getUser(user.id))?.referralCode ?? null;
+    } catch (error) {
+      const uniqueViolation = error instanceof Error && "code" in error && error.code === "23505";
+      if (!uniqueViolation || attempt >= 3) throw error;
+    }
+  }
+}
+
+export async function getReferralStats(user: User): Promise<ReferralStats> {
+  const [code, referrals, siteSettings] = await Promise.all([
+    ensureReferralCode(user),
+    storage.getReferralsByReferrer(user.id),
+    storage.getSiteSettings(),
+  ]);
+  const rewards = getReferralRewards(siteSettings);
+  const rewarded = referrals.filter(referral => referral.status === "rewarded");
+  const earned = (type: string) => rewarded
+    .filter(referral => referral.rewardType === type)
+    .reduce((sum, referral) => sum + referral.referrerReward, 0);
+  return {
+    code,
+    link: code ? getReferralLink(code) : null,
+    botLink: code ? getReferralBotLink(code) : null,
+    invited: referrals.length,
+    rewarded: rewarded.length,
+    earnedXp: earned("xp"),
+    earnedWallet: earned("wallet"),
+    rewardType: rewards.type,
+    referrerReward: rewards.referrer,
+    refereeReward: rewards.referee,
+  };
+}
+
+/**
+ * Referrer behind the code, if it may invite: codes only go to verified users, and an
+ * admin could have reset verification since
+ */
+export async function findReferrer(code: string): Promise<User | undefined> {
+  const normalized = normalizeReferralCode(code);
+  if (!normalized) return undefined;
+  const referrer = await storage.getUserByReferralCode(normalized);
+  return referrer?.phoneVerified ? referrer : undefined;
+}
+
+// Registration must go through even when the code is wrong, so nothing here throws
+export async function attributeReferral(refereeId: string, code: string): Promise<void> {
+  try {
+    const referrer = await findReferrer(code);
+    if (!referrer || referrer.id === refereeId) {
+      console.log(`[Referral] Code ${code} not accepted for user ${refereeId}`);
+      return;
+    }
+    await storage.createReferral(referrer.id, refereeId);
+    console.log(`[Referral] User ${refereeId} invited by ${referrer.id}`);
+  } catch (error) {
+    console.error(`[Referral] Failed to attribute user ${refereeId}:`, error);
+  }
+}
+
+/**
+ * Bonus for both sides when the referee's first order is completed. Only the first
+ * completed order counts; later ones find the referral already rewarded.
+ */
+export async function grantReferralRewards(order: DbOrder): Promise<void> {
+  if (!order.userId) return;
+  try {
+    const rewards = getReferralRewards(await storage.getSiteSettings());
+    const referral = await storage.rewardReferral(order.userId, order.id, rewards);
+    if (referral) {
+      console.log(`[Referral] Order ${order.id}: rewarded ${referral.referrerId} and ${referral.refereeId} (${rewards.type})`);
+    }
+  } catch (error) {
+    console.error(`[Referral] Failed to reward referral for order ${order.id}:`, error);
+  }
+}
@@ -0,0 +1,72 @@
+import { storage } from "../storage";
+import { sendBackInStockSms } from "../sms-ru";
+import { sendBackInStockEmail } from "../resend";
+import { sendMessage } from "./telegramBot";
+import { getProductPath } from "@shared/slug";
+import type { Product, StockSubscription } from "@shared/schema";
+
+const CHECK_INTERVAL_MS = 60 * 1000;
+const MAX_ATTEMPTS = 3;
+const SITE_URL = "https://puerpub.replit.app";
+
+let timer: NodeJS.Timeout | null = null;
+let running = false;
+
+async function deliver(subscription: StockSubscription, product: Product): Promise<void> {
+  const productUrl = `${SITE_URL}${getProductPath(product)}`;
+  switch (subscription.channel) {
+    case "sms":
+      await sendBackInStockSms(subscription.contact, product.name, productUrl);
+      return;
+    case "email":
+      await sendBackInStockEmail(subscription.contact, product.name, productUrl);
+      return;
+    case "telegram": {
+      const sent = await sendMessage(
+        subscription.contact,
+        `🔔 <b>${product.name}</b> снова в наличии!`,
+        { inline_keyboard: [[{ text: "🍵 Посмотреть", callback_data: `product_${product.id}` }], [{ text: "🌐 Открыть на сайте", url: productUrl }]] },
+        "restock"
+      );
+      if (!sent) throw new Error("Telegram message was not delivered");
+      return;
+    }
+    default:
+      throw new Error(`Unknown channel ${subscription.channel}`);
+  }
+}
+
+async function notifySubscribers(): Promise<void> {
+  // A slow run must not overlap with the next tick
+  if (running) return;
+  running = true;
+  try {
+    const due = await storage.getDueStockSubscriptions(MAX_ATTEMPTS);
+    for (const { subscription, product } of due) {
+      try {
+        await deliver(subscription, product);
+        await storage.markStockSubscriptionNotified(subscription.id);
+        console.log(`[Restock] Product ${product.id}: notified subscription ${subscription.id} via ${subscription.channel}`);
+      } catch (error) {
+        await storage.recordStockSubscriptionFailure(subscription.id);
+        console.error(`[Restock] Failed to notify subscription ${subscription.id} via ${subscription.channel} (attempt ${subscription.attempts + 1}/${MAX_ATTEMPTS}):`, error);
+      }
+    }
+  } catch (error) {
+    console.error("[Restock] Failed to process back-in-stock subscriptions:", error);
+  } finally {
+    running = false;
+  }
+}
+
+/**
+ * Tells waiting customers that a product is back in stock, through the channel they chose.
+ * Polls instead of hooking every place that can flip outOfStock (manual edits, imports,
+ * stock movements, bundle components); failed deliveries are retried a few times.
+ */
+export function startRestockNotifier(): void {
+  if (timer) return;
+  void notifySubscribers();
+  timer = setInterval(notifySubscribers, CHECK_INTERVAL_MS);
+  console.log("[Restock] Started");
+}
@@ -0,0 +1,57 @@
+import { storage } from "../storage";
+import { applySaleCampaigns, isSaleCampaignRunning } from "@shared/sales";
+import type { Product, ProductSale, ProductVariant, PublicInfoBanner, SaleCampaign } from "@shared/schema";
+
+/**
+ * Products priced with the running sale campaigns. Sales start and end by the clock,
+ * so nothing is stored: every read of public prices goes through here.
+ */
+export async function withSalePrices<T extends Product & { variants?: ProductVariant[]; sale?: ProductSale }>(
+  products: T[],
+  now: Date = new Date()
+): Promise<Array<T & { sale?: ProductSale }>> {
+  const campaigns = (await storage.getSaleCampaigns()).filter(campaign => isSaleCampaignRunning(campaign, now));
+  if (campaigns.length === 0) return products;
+  return products.map(product => applySaleCampaigns(product, campaigns, now));
+}
+
+export async function withSalePrice<T extends Product & { variants?: ProductVariant[]; sale?: ProductSale }>(
+  product: T,
+  now: Date = new Date()
+): Promise<T & { sale?: ProductSale }> {
+  const [priced] = await withSalePrices([product], now);
+  return priced;
+}
+
+// Negative ids keep generated banners apart from the admin's info_banners rows
+function buildSaleBanner(campaign: SaleCampaign): PublicInfoBanner {
+  const percent = Math.round(campaign.discountPercent * 10) / 10;
+  return {
+    id: -campaign.id,
+    title: `${campaign.name}: −${percent}%`,
+    description: campaign.description || "Скидка на товары акции уже в ценах каталога",
+    icon: "Percent",
+    theme: "dark",
+    buttons: null,
+    desktopSlot: "after_filters",
+    mobileSlot: "after_filters",
+    desktopOrder: -1,
+    mobileOrder: -1,
+    hideOnDesktop: false,
+    hideOnMobile: false,
+    isActive: true,
+    createdAt: campaign.createdAt,
+    betweenRowIndexDesktop: null,
+    betweenRowIndexMobile: null,
+    widthVariant: "full",
+    heightVariant: "compact",
+    countdownTo: campaign.endsAt,
+  };
+}
+
+export async function getSaleBanners(now: Date = new Date()): Promise<PublicInfoBanner[]> {
+  const campaigns = await storage.getSaleCampaigns();
+  return campaigns
+    .filter(campaign => campaign.showBanner && isSaleCampaignRunning(campaign, now))
+    .map(buildSaleBanner);
+}
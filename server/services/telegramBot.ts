@@ -1,8 +1,23 @@
 import { db } from "../db";
-import { telegramProfiles, users, siteSettings, products, magicLinks, telegramCart, pendingTelegramOrders, orders, savedAddresses, telegramQuestions, type TelegramProfile, type Product } from "@shared/schema";
-import { eq, desc, and, sql } from "drizzle-orm";
-import { getLoyaltyProgress, LOYALTY_LEVELS } from "@shared/loyalty";
+import { telegramProfiles, users, siteSettings, products, magicLinks, telegramCart, pendingTelegramOrders, orders, savedAddresses, telegramQuestions, productVariants, type TelegramProfile, type User, type Product, type ProductVariant, type ProductSale, type OrderItem } from "@shared/schema";
+import { eq, desc, and, sql, isNull } from "drizzle-orm";
+import { getLoyaltyProgress, getLevelXp } from "@shared/loyalty";
+import { getVariantUnitPrice, getVariantStep, isVariantInStock, hasEnoughStock, sortVariants } from "@shared/variants";
+import { getBrewingLines } from "@shared/brewing";
+import { getBundleOrderItems, splitBundleAmount } from "@shared/bundles";
+import { isProductPublished } from "@shared/publishing";
+import { buildCategoryTree, getCategoryDescendantIds, getCategoryPath, resolveProductCategoryId } from "@shared/categories";
 import { validateAndConsumeMagicLink } from "./magicLink";
+import { getCartQuote, getProductVolumeDiscountTiers } from "./pricing";
+import { withSalePrices, withSalePrice } from "./sales";
+import { completeTelegramOrder } from "./orders";
+import { findReferrer, getReferralLink } from "./referrals";
+import { getLoyaltyLevels } from "./loyalty";
+import { formatSaleCountdown } from "@shared/sales";
+import { getAdjustment, type PriceQuote, type PriceAdjustment } from "@shared/pricing";
+import { formatVolumeDiscountHint } from "@shared/volumeDiscounts";
+import { REFERRAL_BOT_PAYLOAD_PREFIX, formatReferralReward, getReferralRewards } from "@shared/referrals";
+import { storage } from "../storage";
 import { createHash } from "crypto";
 
 const TELEGRAM_BOT_TOKEN = process.env.TELEGRAM_BOT_TOKEN;
@@ -21,12 +36,13 @@ function isAdmin(chatId: string): boolean {
 
 // User state tracking for multi-step interactions
 type UserState = {
-  action: "awaiting_address" | "awaiting_cart_quantity" | "awaiting_broadcast_message" | "awaiting_broadcast_confirm" | "awaiting_question" | "awaiting_admin_reply" | "awaiting_phone_for_code";
+  action: "awaiting_address" | "awaiting_cart_quantity" | "awaiting_broadcast_message" | "awaiting_broadcast_confirm" | "awaiting_question" | "awaiting_admin_reply" | "awaiting_phone_for_code" | "awaiting_search" | "awaiting_promo_code" | "awaiting_wallet_choice";
   expiresAt: number;
   productId?: number; // For cart quantity input
   broadcastAudience?: "all" | "linked" | "unlinked"; // For broadcast targeting
   broadcastMessage?: string; // Message to broadcast
   questionId?: number; // For admin reply
+  address?: string; // Delivery address while the customer decides on the wallet
 };
 const userStates = new Map<string, UserState>();
 
@@ -47,6 +63,13 @@ function clearUserState(chatId: string) {
   userStates.delete(chatId);
 }
 
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
+
 function getTeaTypeHash(teaType: string): string {
   return createHash('sha256').update(teaType).digest('base64url').slice(0, 8);
 }
@@ -348,6 +371,7 @@ function getMainMenuKeyboard(isLinked: boolean): InlineKeyboardMarkup {
   if (isLinked) {
     keyboard.push([{ text: "⭐ Мой профиль", callback_data: "profile" }]);
     keyboard.push([{ text: "🛒 Корзина", callback_data: "cart" }]);
+    keyboard.push([{ text: "⭐ Избранное", callback_data: "favorites" }]);
   } else {
     keyboard.push([{ text: "🔗 Привязать аккаунт", callback_data: "link_account" }]);
   }
@@ -379,6 +403,12 @@ async function handleStartCommand(chatId: string, username?: string, firstName?:
     return;
   }
 
+  // Invitation from a friend: accounts are only created on the site, so send them there with the code
+  if (payload && payload.startsWith(REFERRAL_BOT_PAYLOAD_PREFIX)) {
+    await handleReferralStart(chatId, payload.substring(REFERRAL_BOT_PAYLOAD_PREFIX.length), username, firstName);
+    return;
+  }
+
   const profile = await getOrCreateProfile(chatId, username, firstName);
   if (!profile) {
     await sendMessage(chatId, "Произошла ошибка. Попробуйте позже.");
@@ -391,8 +421,8 @@ async function handleStartCommand(chatId: string, username?: string, firstName?:
   let greeting = firstName ? `Привет, ${firstName}!` : "Привет!";
   
   if (isLinked) {
-    const progress = getLoyaltyProgress(user.xp);
-    greeting += `\n\n✅ Ваш аккаунт привязан\n⭐ Уровень: ${progress.currentLevel.name}\n💎 XP: ${user.xp}`;
+    const progress = getLoyaltyProgress(getLevelXp(user), await getLoyaltyLevels());
+    greeting += `\n\n✅ Ваш аккаунт привязан\n${progress.currentLevel.icon} Уровень: ${escapeHtml(progress.currentLevel.name)}\n💎 XP: ${user.xp}`;
   } else {
     greeting += "\n\nДобро пожаловать в Puer Pub!\n🍵 Премиальный китайский Пуэр";
   }
@@ -402,6 +432,36 @@ async function handleStartCommand(chatId: string, username?: string, firstName?:
   await sendMessage(chatId, greeting, getMainMenuKeyboard(isLinked));
 }
 
+async function handleReferralStart(chatId: string, code: string, username?: string, firstName?: string) {
+  const profile = await getOrCreateProfile(chatId, username, firstName);
+  const [referrer, linkedUser, settings] = await Promise.all([
+    findReferrer(code),
+    profile ? getLinkedUser(profile) : Promise.resolve(null),
+    storage.getSiteSettings(),
+  ]);
+
+  if (linkedUser || !referrer) {
+    // Invitations are for new customers only
+    await sendMessage(chatId, linkedUser
+      ? "✅ У вас уже есть аккаунт — приглашение действует только для новых покупателей."
+      : "❌ Приглашение не найдено.", getMainMenuKeyboard(!!linkedUser));
+    return;
+  }
+
+  const rewards = getReferralRewards(settings);
+  const inviter = referrer.name?.split(" ")[0];
+  await sendMessage(chatId, `🎁 <b>${inviter ? escapeHtml(inviter) : "Друг"} приглашает вас в Puer Pub!</b>
+
+Зарегистрируйтесь на сайте по ссылке ниже. После первого выполненного заказа вы получите ${formatReferralReward(rewards.type, rewards.referee)}.
+
+Потом привяжите аккаунт к боту, чтобы заказывать прямо здесь.`, {
+    inline_keyboard: [
+      [{ text: "📝 Зарегистрироваться", url: getReferralLink(referrer.referralCode!) }],
+      [{ text: "↩️ Главное меню", callback_data: "main_menu" }],
+    ],
+  });
+}
+
 async function handleMagicLinkConfirmation(
   chatId: string,
   token: string,
@@ -428,11 +488,11 @@ async function handleMagicLinkConfirmation(
   let successMessage = `✅ <b>Аккаунт успешно привязан!</b>\n\n`;
   
   if (user) {
-    const progress = getLoyaltyProgress(user.xp);
+    const progress = getLoyaltyProgress(getLevelXp(user), await getLoyaltyLevels());
     successMessage += `👤 ${user.name || "Пользователь"}\n`;
     successMessage += `📱 ${user.phone}\n\n`;
     successMessage += `<b>Программа лояльности:</b>\n`;
-    successMessage += `🏆 Уровень: ${progress.currentLevel.name}\n`;
+    successMessage += `${progress.currentLevel.icon} Уровень: ${escapeHtml(progress.currentLevel.name)}\n`;
     successMessage += `💎 XP: ${user.xp}\n`;
     successMessage += `🎁 Скидка: ${progress.currentLevel.discount}%`;
   }
@@ -452,11 +512,14 @@ async function handleHelpCommand(chatId: string) {
 /code - Получить код подтверждения
 /contacts - Контактная информация
 /menu - Каталог чая
+/search - Поиск по каталогу
 /profile - Ваш профиль и лояльность
 /cart - Корзина
+/favorites - Избранное
 
 <b>Возможности:</b>
 • Просмотр каталога чая
+• Поиск по названию, типу и эффекту — просто напишите запрос
 • Контактная информация  
 • Программа лояльности
 • Заказ с доставкой
@@ -1016,6 +1079,21 @@ async function handleContactsCommand(chatId: string) {
   await sendMessage(chatId, contactsText, keyboard);
 }
 
+// Published products grouped by the category they resolve to
+async function getCatalogByCategory() {
+  const categories = await storage.getCategories();
+  const productList = await withSalePrices(await storage.getProducts({ publishedOnly: true }));
+  const productsByCategory = new Map<number, Product[]>();
+  for (const product of productList) {
+    const categoryId = resolveProductCategoryId(product, categories);
+    if (!categoryId) continue;
+    productsByCategory.set(categoryId, [...(productsByCategory.get(categoryId) || []), product]);
+  }
+  const hasProducts = (categoryId: number) =>
+    Array.from(getCategoryDescendantIds(categories, categoryId)).some(id => productsByCategory.has(id));
+  return { categories, productsByCategory, hasProducts };
+}
+
 async function handleMenuCommand(chatId: string) {
   const menuText = `<b>🍵 Наш ассортимент</b>
 
@@ -1023,23 +1101,82 @@ async function handleMenuCommand(chatId: string) {
 
 Выберите категорию:`;
 
-  const keyboard: InlineKeyboardMarkup = {
-    inline_keyboard: [
-      [{ text: "🍵 Чай", callback_data: "menu_tea" }],
-      [{ text: "🫖 Посуда", callback_data: "menu_teaware" }],
-      [{ text: "↩️ Главное меню", callback_data: "main_menu" }],
-    ],
-  };
+  const buttons: InlineKeyboardButton[][] = [];
+  try {
+    const { categories, hasProducts } = await getCatalogByCategory();
+    for (const category of buildCategoryTree(categories)) {
+      if (hasProducts(category.id)) {
+        buttons.push([{ text: `📂 ${category.name}`, callback_data: `cat_${category.id}` }]);
+      }
+    }
+  } catch (error) {
+    console.error("[TelegramBot] Menu categories error:", error);
+  }
+  // Without a category tree fall back to the fixed tea / teaware split
+  if (buttons.length === 0) {
+    buttons.push([{ text: "🍵 Чай", callback_data: "menu_tea" }]);
+    buttons.push([{ text: "🫖 Посуда", callback_data: "menu_teaware" }]);
+  }
+  buttons.push([{ text: "🔍 Поиск", callback_data: "search" }]);
+  buttons.push([{ text: "↩️ Главное меню", callback_data: "main_menu" }]);
 
-  await sendMessage(chatId, menuText, keyboard);
+  await sendMessage(chatId, menuText, { inline_keyboard: buttons });
+}
+
+async function handleCatalogCategory(chatId: string, categoryId: number) {
+  try {
+    const { categories, productsByCategory, hasProducts } = await getCatalogByCategory();
+    const category = categories.find(c => c.id === categoryId);
+
+    if (!category) {
+      await sendMessage(chatId, "Категория не найдена.", {
+        inline_keyboard: [[{ text: "↩️ Назад к категориям", callback_data: "menu" }]],
+      });
+      return;
+    }
+
+    const buttons: InlineKeyboardButton[][] = [];
+    const children = buildCategoryTree(categories.filter(c => c.parentId === category.id));
+    for (const child of children) {
+      if (hasProducts(child.id)) {
+        buttons.push([{ text: `📂 ${child.name}`, callback_data: `cat_${child.id}` }]);
+      }
+    }
+
+    for (const product of productsByCategory.get(category.id) || []) {
+      const isPiece = product.pricingUnit === "piece" || product.category === "teaware";
+      const stockStatus = product.outOfStock ? " (нет в наличии)" : "";
+      buttons.push([{
+        text: `${product.name} - ${product.pricePerGram} ₽${isPiece ? "" : "/г"}${getSaleMark(product)}${stockStatus}`,
+        callback_data: `product_${product.id}`,
+      }]);
+    }
+
+    const backButton = category.parentId
+      ? { text: "↩️ Назад", callback_data: `cat_${category.parentId}` }
+      : { text: "↩️ Назад к категориям", callback_data: "menu" };
+
+    if (buttons.length === 0) {
+      await sendMessage(chatId, "В этой категории пока нет товаров.", { inline_keyboard: [[backButton]] });
+      return;
+    }
+
+    buttons.push([backButton]);
+    const path = getCategoryPath(categories, category.id).map(c => escapeHtml(c.name)).join(" / ");
+    await sendMessage(chatId, `<b>📂 ${path}</b>\n\nВыберите раздел или товар:`, { inline_keyboard: buttons });
+  } catch (error) {
+    console.error("[TelegramBot] Catalog category error:", error);
+    await sendMessage(chatId, "Произошла ошибка. Попробуйте позже.");
+  }
 }
 
 async function handleMenuCategory(chatId: string, category: "tea" | "teaware") {
   try {
-    const productList = await db
+    const productList = await withSalePrices((await db
       .select()
       .from(products)
-      .where(eq(products.category, category));
+      .where(eq(products.category, category)))
+      .filter(product => isProductPublished(product)));
 
     if (productList.length === 0) {
       const emptyText = category === "tea" 
@@ -1104,7 +1241,7 @@ async function handleMenuCategory(chatId: string, category: "tea" | "teaware") {
         const stockStatus = product.outOfStock ? " (нет в наличии)" : "";
         
         buttons.push([{
-          text: `${product.name} - ${priceText}${stockStatus}`,
+          text: `${product.name} - ${priceText}${getSaleMark(product)}${stockStatus}`,
           callback_data: `product_${product.id}`
         }]);
       }
@@ -1121,12 +1258,76 @@ async function handleMenuCategory(chatId: string, category: "tea" | "teaware") {
   }
 }
 
+// ============ SEARCH ============
+
+async function handleSearchStart(chatId: string) {
+  setUserState(chatId, {
+    action: "awaiting_search",
+    expiresAt: Date.now() + 10 * 60 * 1000, // 10 minutes
+  });
+
+  await sendMessage(chatId, `<b>🔍 Поиск по каталогу</b>
+
+Напишите название, тип или эффект — например, «шэн пуэр» или «бодрит».`, {
+    inline_keyboard: [[{ text: "❌ Отмена", callback_data: "menu" }]],
+  });
+}
+
+async function handleSearchQuery(chatId: string, query: string) {
+  clearUserState(chatId);
+
+  if (query.length < 2) {
+    await sendMessage(chatId, "Запрос слишком короткий. Напишите хотя бы два символа.", {
+      inline_keyboard: [[{ text: "🔍 Искать снова", callback_data: "search" }]],
+    });
+    return;
+  }
+
+  try {
+    const results = await withSalePrices(await storage.searchProducts(query.slice(0, 100), 10));
+
+    if (results.length === 0) {
+      await sendMessage(chatId, `По запросу «${escapeHtml(query)}» ничего не нашлось.\n\nПопробуйте другой запрос или задайте вопрос — поможем с выбором.`, {
+        inline_keyboard: [
+          [{ text: "🔍 Искать снова", callback_data: "search" }],
+          [{ text: "✉️ Задать вопрос", callback_data: "ask_question" }],
+          [{ text: "🍵 Каталог", callback_data: "menu" }],
+        ],
+      });
+      return;
+    }
+
+    const buttons: InlineKeyboardButton[][] = results.map(product => {
+      const isPiece = product.pricingUnit === "piece" || product.category === "teaware";
+      const minPrice = product.variants.length > 0 ? Math.min(...product.variants.map(v => v.price)) : null;
+      const priceText = minPrice !== null
+        ? `от ${minPrice.toLocaleString("ru-RU")} ₽`
+        : `${product.pricePerGram} ₽${isPiece ? "" : "/г"}`;
+      const stockStatus = product.outOfStock ? " (нет в наличии)" : "";
+      return [{
+        text: `${product.name} - ${priceText}${getSaleMark(product)}${stockStatus}`,
+        callback_data: `product_${product.id}`,
+      }];
+    });
+    buttons.push([{ text: "🔍 Искать ещё", callback_data: "search" }]);
+    buttons.push([{ text: "↩️ Назад к категориям", callback_data: "menu" }]);
+
+    await sendMessage(chatId, `<b>🔍 Найдено по запросу «${escapeHtml(query)}»:</b> ${results.length}\n\nВыберите товар для подробной информации:`, {
+      inline_keyboard: buttons,
+    });
+  } catch (error) {
+    console.error("[TelegramBot] Search error:", error);
+    await sendMessage(chatId, "Произошла ошибка. Попробуйте позже.");
+  }
+}
+
 async function handleTeaTypeProductsByHash(chatId: string, hash: string) {
   try {
-    const productList = await db
+    const productList = await withSalePrices((await db
       .select()
       .from(products)
-      .where(eq(products.category, "tea"));
+      .where(eq(products.category, "tea")))
+      .filter(product => isProductPublished(product)));
 
     const normalizeTeaType = (teaType: string): string => {
       const normalized = teaType.toLowerCase().trim();
@@ -1168,7 +1369,7 @@ async function handleTeaTypeProductsByHash(chatId: string, hash: string) {
       const stockStatus = product.outOfStock ? " (нет)" : "";
       
       buttons.push([{
-        text: `${product.name} - ${priceText}${stockStatus}`,
+        text: `${product.name} - ${priceText}${getSaleMark(product)}${stockStatus}`,
         callback_data: `product_${product.id}`
       }]);
     }
@@ -1193,23 +1394,77 @@ async function getCartItems(userId: string) {
       productId: telegramCart.productId,
       quantity: telegramCart.quantity,
       product: products,
+      variant: productVariants,
     })
     .from(telegramCart)
     .innerJoin(products, eq(telegramCart.productId, products.id))
+    .leftJoin(productVariants, eq(telegramCart.variantId, productVariants.id))
     .where(eq(telegramCart.userId, userId))
     .orderBy(desc(telegramCart.createdAt));
   
-  return items;
+  // Drafts and archived products stay in the cart table but aren't offered until restored
+  return items.filter(item => isProductPublished(item.product));
+}
+
+// Price per gram/piece of a cart line: variant price if chosen, otherwise the product base price
+function getCartItemUnitPrice(item: { product: Product; variant: ProductVariant | null }): number {
+  return item.variant ? getVariantUnitPrice(item.variant) : item.product.pricePerGram;
+}
+
+// " 🔥−15%" after the price in product buttons while a sale is on
+function getSaleMark(product: Product & { sale?: ProductSale }): string {
+  return product.sale ? ` 🔥−${product.sale.percent}%` : "";
 }
 
-async function addToCart(userId: string, productId: number, quantity: number) {
-  // Check if item already in cart
+function getCartItemLabel(item: { product: Product; variant: ProductVariant | null }): string {
+  return item.variant ? `${item.product.name} (${item.variant.name})` : item.product.name;
+}
+
+// Promo code entered in the cart, applied at checkout. In memory like the user states above
+const cartPromoCodes = new Map<string, string>();
+// Chats that chose to spend XP as points; the whole allowed amount is spent
+const cartXpPoints = new Set<string>();
+
+// Priced by the same engine as the site checkout. Requoted on every use: the cart,
+// prices and the promo code's limits may change in between
+async function quoteBotCart(
+  chatId: string,
+  user: User,
+  items: Array<{ product: Product; variant: ProductVariant | null; quantity: number }>
+): Promise<PriceQuote> {
+  return await getCartQuote(
+    items.map(item => ({ productId: item.product.id, variantId: item.variant?.id ?? null, quantity: item.quantity })),
+    {
+      customer: user,
+      userId: user.id,
+      phone: user.phone,
+      promoCode: cartPromoCodes.get(chatId),
+      xpPoints: cartXpPoints.has(chatId) ? user.xp : 0,
+    }
+  );
+}
+
+function formatAdjustment(adjustment: PriceAdjustment, quote: PriceQuote): string {
+  const percent = adjustment.percent !== null ? ` ${adjustment.percent}%` : "";
+  const labels: Record<PriceAdjustment["kind"], string> = {
+    promo: `🎟 Промокод ${escapeHtml(quote.promo?.code || "")}`,
+    first_order: "🎁 Скидка первого заказа",
+    loyalty: "⭐ Скидка лояльности",
+    custom: "👑 Персональная скидка",
+    xp_points: `💫 Баллы (${(adjustment.xp ?? 0).toLocaleString("ru-RU")} XP)`,
+  };
+  return `${labels[adjustment.kind]}${percent}: -${Math.round(adjustment.amount).toLocaleString("ru-RU")} ₽`;
+}
+
+async function addToCart(userId: string, productId: number, quantity: number, variantId?: number) {
+  // Check if the same product variant is already in cart
   const existing = await db
     .select()
     .from(telegramCart)
     .where(and(
       eq(telegramCart.userId, userId),
-      eq(telegramCart.productId, productId)
+      eq(telegramCart.productId, productId),
+      variantId ? eq(telegramCart.variantId, variantId) : isNull(telegramCart.variantId)
     ));
 
   if (existing.length > 0) {
@@ -1226,6 +1481,7 @@ async function addToCart(userId: string, productId: number, quantity: number) {
     await db.insert(telegramCart).values({
       userId,
       productId,
+      variantId: variantId ?? null,
       quantity,
     });
   }
@@ -1245,12 +1501,12 @@ async function getCartTotal(userId: string): Promise<{ subtotal: number; itemCou
   let itemCount = 0;
   
   for (const item of items) {
-    const price = item.product.pricePerGram * item.quantity;
+    const price = getCartItemUnitPrice(item) * item.quantity;
     subtotal += price;
     itemCount += item.product.category === "tea" ? 1 : item.quantity;
   }
   
-  return { subtotal: subtotal * 100, itemCount }; // Return in kopecks
+  return { subtotal: Math.round(subtotal * 100), itemCount }; // Return in kopecks
 }
 
 async function handleAddToCart(chatId: string, productId: number, quantity: number, username?: string, firstName?: string) {
@@ -1273,7 +1529,7 @@ async function handleAddToCart(chatId: string, productId: number, quantity: numb
   // Get product info
   const [product] = await db.select().from(products).where(eq(products.id, productId));
   console.log("[TelegramBot] AddToCart - product found:", product?.name);
-  if (!product) {
+  if (!product || !isProductPublished(product)) {
     await sendMessage(chatId, "Товар не найден.");
     return;
   }
@@ -1296,6 +1552,74 @@ async function handleAddToCart(chatId: string, productId: number, quantity: numb
   });
 }
 
+// Back-in-stock notification to this chat; works without a linked site account
+async function handleStockSubscription(chatId: string, productId: number, username?: string, firstName?: string) {
+  const profile = await getOrCreateProfile(chatId, username, firstName);
+  if (!profile) {
+    await sendMessage(chatId, "Произошла ошибка. Попробуйте позже.");
+    return;
+  }
+
+  const [product] = await db.select().from(products).where(eq(products.id, productId));
+  if (!product || !isProductPublished(product)) {
+    await sendMessage(chatId, "Товар не найден.");
+    return;
+  }
+
+  if (!product.outOfStock) {
+    await sendMessage(chatId, "✅ Этот товар уже в наличии!", {
+      inline_keyboard: [[{ text: "🍵 Посмотреть", callback_data: `product_${product.id}` }]],
+    });
+    return;
+  }
+
+  await storage.createStockSubscription({ productId, channel: "telegram", contact: chatId, userId: profile.userId });
+  console.log(`[TelegramBot] Chat ${chatId} subscribed to restock of product ${productId}`);
+  await sendMessage(chatId, `🔔 Готово! Напишем сюда, как только <b>${escapeHtml(product.name)}</b> снова появится в наличии.`);
+}
+
+async function handleAddVariantToCart(chatId: string, variantId: number, username?: string, firstName?: string) {
+  const [variant] = await db.select().from(productVariants).where(eq(productVariants.id, variantId));
+  if (!variant) {
+    await sendMessage(chatId, "Вариант товара не найден.");
+    return;
+  }
+
+  const profile = await getOrCreateProfile(chatId, username, firstName);
+  if (!profile) {
+    await sendMessage(chatId, "Произошла ошибка. Попробуйте позже.");
+    return;
+  }
+
+  const user = await getLinkedUser(profile);
+  if (!user) {
+    await sendMessage(chatId, "❌ Для использования корзины привяжите аккаунт с сайта.");
+    return;
+  }
+
+  const product = await storage.getProductWithVariants(variant.productId);
+  if (!product || !isProductPublished(product)) {
+    await sendMessage(chatId, "Товар не найден.");
+    return;
+  }
+
+  if (product.outOfStock || !isVariantInStock(variant, product.stock)) {
+    await sendMessage(chatId, "❌ Этот вариант сейчас не в наличии.");
+    return;
+  }
+
+  await addToCart(user.id, product.id, getVariantStep(variant), variant.id);
+
+  const { itemCount } = await getCartTotal(user.id);
+
+  await sendMessage(chatId, `✅ <b>${product.name}</b> (${variant.name}) добавлен в корзину!\n\nВ корзине товаров: ${itemCount}`, {
+    inline_keyboard: [
+      [{ text: "🛒 Перейти в корзину", callback_data: "cart" }],
+      [{ text: "📦 Продолжить покупки", callback_data: "menu" }],
+    ],
+  });
+}
+
 async function handleRemoveFromCart(chatId: string, cartId: number, username?: string, firstName?: string) {
   const profile = await getOrCreateProfile(chatId, username, firstName);
   if (!profile) {
@@ -1355,44 +1679,58 @@ async function handleCartCommand(chatId: string, username?: string, firstName?:
     return;
   }
 
+  const quote = await quoteBotCart(chatId, user, items);
   let cartText = `<b>🛒 Ваша корзина</b>\n\n`;
-  let total = 0;
 
   const buttons: InlineKeyboardButton[][] = [];
 
-  for (const item of items) {
+  items.forEach((item, index) => {
     const isTea = item.product.category === "tea";
     const unitText = isTea ? "г" : "шт.";
-    const price = item.product.pricePerGram * item.quantity;
-    total += price;
+    const line = quote.lines.find(l => l.index === index);
+    const price = Math.round(line?.amount ?? 0);
 
-    cartText += `• <b>${item.product.name}</b>\n`;
-    cartText += `  ${item.quantity} ${unitText} × ${item.product.pricePerGram} ₽ = ${price.toLocaleString("ru-RU")} ₽\n\n`;
+    cartText += `• <b>${getCartItemLabel(item)}</b>\n`;
+    if (item.variant) {
+      const packs = item.quantity / getVariantStep(item.variant);
+      cartText += `  ${packs} × ${item.variant.price.toLocaleString("ru-RU")} ₽ = ${price.toLocaleString("ru-RU")} ₽\n\n`;
+    } else {
+      cartText += `  ${item.quantity} ${unitText} × ${Number((line?.unitPrice ?? item.product.pricePerGram).toFixed(2))} ₽ = ${price.toLocaleString("ru-RU")} ₽\n`;
+      if (line?.nextVolumeDiscount) {
+        cartText += `  💡 ${formatVolumeDiscountHint(line.nextVolumeDiscount)}\n`;
+      }
+      cartText += `\n`;
+    }
 
     // Add remove button for each item
     buttons.push([
       { text: `❌ Удалить ${item.product.name.substring(0, 20)}`, callback_data: `removecart_${item.cartId}` },
     ]);
-  }
+  });
 
   cartText += `━━━━━━━━━━━━━━━━━━━━\n`;
-  cartText += `💰 <b>Итого: ${total.toLocaleString("ru-RU")} ₽</b>`;
+  cartText += `💰 <b>Итого: ${Math.round(quote.subtotal).toLocaleString("ru-RU")} ₽</b>`;
 
-  // Check for discounts
-  const hasFirstOrderDiscount = !user.firstOrderDiscountUsed;
-  const loyaltyProgress = getLoyaltyProgress(user.xp);
-  const loyaltyDiscount = loyaltyProgress.currentLevel.discount;
-  
-  if (hasFirstOrderDiscount) {
-    const discountAmount = Math.round(total * 0.2);
-    cartText += `\n🎁 <i>Скидка первого заказа -20%: -${discountAmount.toLocaleString("ru-RU")} ₽</i>`;
-    cartText += `\n<b>К оплате: ${(total - discountAmount).toLocaleString("ru-RU")} ₽</b>`;
-  } else if (loyaltyDiscount > 0) {
-    const discountAmount = Math.round(total * loyaltyDiscount / 100);
-    cartText += `\n⭐ <i>Скидка лояльности ${loyaltyDiscount}%: -${discountAmount.toLocaleString("ru-RU")} ₽</i>`;
-    cartText += `\n<b>К оплате: ${(total - discountAmount).toLocaleString("ru-RU")} ₽</b>`;
+  if (quote.promoError) {
+    cartText += `\n🎟 <i>Промокод ${escapeHtml(cartPromoCodes.get(chatId) || "")} не применён: ${quote.promoError}</i>`;
+  }
+  for (const adjustment of quote.adjustments) {
+    cartText += `\n<i>${formatAdjustment(adjustment, quote)}</i>`;
+  }
+  if (quote.adjustments.length > 0) {
+    cartText += `\n<b>К оплате: ${Math.round(quote.total).toLocaleString("ru-RU")} ₽</b>`;
   }
 
+  const hasPromoCode = cartPromoCodes.has(chatId);
+  buttons.push(hasPromoCode
+    ? [{ text: "❌ Убрать промокод", callback_data: "promo_remove" }]
+    : [{ text: "🎟 Промокод", callback_data: "promo_code" }]);
+  if (quote.xpPoints) {
+    const { maxPoints, xpPerRuble } = quote.xpPoints;
+    buttons.push(cartXpPoints.has(chatId)
+      ? [{ text: "❌ Не списывать баллы", callback_data: "xp_points_off" }]
+      : [{ text: `💫 Списать ${maxPoints.toLocaleString("ru-RU")} XP (−${(maxPoints / xpPerRuble).toLocaleString("ru-RU")} ₽)`, callback_data: "xp_points_on" }]);
+  }
   buttons.push([{ text: "🗑 Очистить корзину", callback_data: "clear_cart" }]);
   buttons.push([{ text: "✅ Оформить заказ", callback_data: "checkout" }]);
   buttons.push([{ text: "📦 Продолжить покупки", callback_data: "menu" }]);
@@ -1424,6 +1762,44 @@ async function handleClearCart(chatId: string, username?: string, firstName?: st
   });
 }
 
+async function handlePromoCodeStart(chatId: string) {
+  setUserState(chatId, {
+    action: "awaiting_promo_code",
+    expiresAt: Date.now() + 10 * 60 * 1000, // 10 minutes
+  });
+
+  await sendMessage(chatId, "🎟 Напишите промокод:", {
+    inline_keyboard: [[{ text: "❌ Отмена", callback_data: "cart" }]],
+  });
+}
+
+async function handlePromoCodeInput(chatId: string, code: string, username?: string, firstName?: string) {
+  clearUserState(chatId);
+
+  const profile = await getOrCreateProfile(chatId, username, firstName);
+  const user = profile ? await getLinkedUser(profile) : null;
+  if (!user) {
+    await sendMessage(chatId, "❌ Для использования корзины привяжите аккаунт с сайта.");
+    return;
+  }
+
+  cartPromoCodes.set(chatId, code);
+  const quote = await quoteBotCart(chatId, user, await getCartItems(user.id));
+  if (!quote.promo) {
+    cartPromoCodes.delete(chatId);
+    await sendMessage(chatId, `❌ ${quote.promoError || "Промокод не найден"}`, {
+      inline_keyboard: [
+        [{ text: "🎟 Ввести другой", callback_data: "promo_code" }],
+        [{ text: "↩️ Корзина", callback_data: "cart" }],
+      ],
+    });
+    return;
+  }
+
+  cartPromoCodes.set(chatId, quote.promo.code);
+  await handleCartCommand(chatId, username, firstName);
+}
+
 async function handleCheckoutStart(chatId: string, username?: string, firstName?: string) {
   const profile = await getOrCreateProfile(chatId, username, firstName);
   if (!profile) {
@@ -1536,7 +1912,8 @@ async function handleUseAddress(chatId: string, addressId: number, username?: st
   await processCheckout(chatId, addr.address, username, firstName);
 }
 
-async function processCheckout(chatId: string, address: string, username?: string, firstName?: string) {
+// useWallet is undefined until the customer answers the wallet question (asked only when there's a balance)
+async function processCheckout(chatId: string, address: string, username?: string, firstName?: string, useWallet?: boolean) {
   const profile = await getOrCreateProfile(chatId, username, firstName);
   if (!profile) {
     await sendMessage(chatId, "Произошла ошибка. Попробуйте позже.");
@@ -1555,40 +1932,44 @@ async function processCheckout(chatId: string, address: string, username?: strin
     return;
   }
 
-  // Calculate totals
-  let subtotal = 0;
-  const orderItems: Array<{ id: number; name: string; pricePerGram: number; quantity: number }> = [];
+  const quote = await quoteBotCart(chatId, user, items);
+  if (quote.promoError) {
+    cartPromoCodes.delete(chatId);
+    await sendMessage(chatId, `❌ Промокод не применён: ${quote.promoError}`, {
+      inline_keyboard: [[{ text: "↩️ Корзина", callback_data: "cart" }]],
+    });
+    return;
+  }
 
-  for (const item of items) {
-    const price = item.product.pricePerGram * item.quantity;
-    subtotal += price;
+  const orderItems: OrderItem[] = [];
+  for (let index = 0; index < items.length; index++) {
+    const item = items[index];
+    // Bundle stock and contents come from its components
+    const bundle = item.product.isBundle ? await storage.getProductWithVariants(item.product.id) : undefined;
+    if (!hasEnoughStock(bundle || item.product, item.variant, item.quantity)) {
+      await sendMessage(chatId, `❌ «${getCartItemLabel(item)}» нет в нужном количестве. Измените корзину.`, {
+        inline_keyboard: [[{ text: "↩️ Корзина", callback_data: "cart" }]],
+      });
+      return;
+    }
+    const line = quote.lines.find(l => l.index === index);
     orderItems.push({
       id: item.product.id,
       name: item.product.name,
-      pricePerGram: item.product.pricePerGram,
+      pricePerGram: line?.unitPrice ?? getCartItemUnitPrice(item),
       quantity: item.quantity,
+      variantId: item.variant?.id ?? null,
+      variantName: item.variant?.name ?? null,
+      bundleItems: bundle ? getBundleOrderItems(bundle) : undefined,
+      promoDiscount: line?.promoDiscount || undefined,
     });
   }
 
-  // Calculate discount
-  const hasFirstOrderDiscount = !user.firstOrderDiscountUsed;
-  const loyaltyProgress = getLoyaltyProgress(user.xp);
-  const loyaltyDiscount = loyaltyProgress.currentLevel.discount;
-
-  let discountPercent = 0;
-  let discountType: string | null = null;
-
-  if (hasFirstOrderDiscount) {
-    discountPercent = 20;
-    discountType = "first_order";
-  } else if (loyaltyDiscount > 0) {
-    discountPercent = loyaltyDiscount;
-    discountType = "loyalty";
-  }
-
-  const discountAmount = Math.round(subtotal * discountPercent / 100);
-  const total = Math.max(subtotal - discountAmount, 0); // Prevent negative total
-  const totalKopecks = total * 100;
+  const subtotal = quote.subtotal;
+  const total = quote.total;
+  const totalKopecks = Math.round(total * 100);
+  const promoDiscount = getAdjustment(quote, "promo")?.amount ?? 0;
+  const discountType = getAdjustment(quote, "first_order") ? "first_order" : getAdjustment(quote, "loyalty") ? "loyalty" : null;
 
   // Validate minimum order amount (at least 100 rubles)
   if (total < 100) {
@@ -1601,10 +1982,30 @@ async function processCheckout(chatId: string, address: string, username?: strin
     return;
   }
 
+  if (useWallet === undefined && user.walletBalance > 0) {
+    setUserState(chatId, {
+      action: "awaiting_wallet_choice",
+      address,
+      expiresAt: Date.now() + 15 * 60 * 1000,
+    });
+    const covered = Math.min(user.walletBalance, totalKopecks) / 100;
+    const rest = totalKopecks / 100 - covered;
+    await sendMessage(chatId, `<b>👛 На балансе ${(user.walletBalance / 100).toLocaleString("ru-RU")} ₽</b>
+
+Списать ${covered.toLocaleString("ru-RU")} ₽ в счёт заказа на ${Math.round(total).toLocaleString("ru-RU")} ₽?${rest > 0 ? `\nОстаток ${rest.toLocaleString("ru-RU")} ₽ оплатите через СБП.` : ""}`, {
+      inline_keyboard: [
+        [{ text: `👛 Списать ${covered.toLocaleString("ru-RU")} ₽`, callback_data: "checkout_wallet" }],
+        [{ text: "💳 Оплатить без баланса", callback_data: "checkout_no_wallet" }],
+        [{ text: "↩️ Корзина", callback_data: "cart" }],
+      ],
+    });
+    return;
+  }
+
   // Create pending order
   const orderId = `T_${user.id.substring(0, 8)}_${Date.now()}`;
 
-  await db.insert(pendingTelegramOrders).values({
+  const pendingOrder = await storage.createPendingTelegramOrder({
     orderId,
     userId: user.id,
     chatId,
@@ -1612,11 +2013,50 @@ async function processCheckout(chatId: string, address: string, username?: strin
     phone: user.phone,
     address,
     items: JSON.stringify(orderItems),
-    subtotal: subtotal * 100,
-    discount: discountAmount * 100,
+    subtotal: Math.round(subtotal * 100),
+    discount: Math.round(subtotal * 100) - totalKopecks,
     total: totalKopecks,
     discountType,
+    usedCustomDiscount: !!getAdjustment(quote, "custom"),
+    promoCodeId: quote.promo?.id ?? null,
+    promoCode: quote.promo?.code ?? null,
+    promoDiscount: Math.round(promoDiscount * 100),
   });
+  if (!pendingOrder) {
+    // Other orders used up the code between the cart and now
+    await sendMessage(chatId, "❌ Промокод больше не действует: исчерпан лимит использований.", {
+      inline_keyboard: [[{ text: "↩️ Корзина", callback_data: "cart" }]],
+    });
+    return;
+  }
+
+  // Points were priced into the total, so they're taken before anything else happens
+  const xpPoints = getAdjustment(quote, "xp_points")?.xp ?? 0;
+  if (xpPoints > 0) {
+    const withPoints = await storage.reserveXpPointsForTelegramOrder(pendingOrder.id, user.id, xpPoints);
+    if (!withPoints) {
+      await storage.cancelPendingTelegramOrder(pendingOrder.id);
+      cartXpPoints.delete(chatId);
+      await sendMessage(chatId, "❌ Недостаточно баллов. Проверьте корзину и попробуйте снова.", {
+        inline_keyboard: [[{ text: "↩️ Корзина", callback_data: "cart" }]],
+      });
+      return;
+    }
+  }
+
+  // The balance is taken now, so it can't be spent twice while the customer pays the rest
+  const reserved = useWallet ? await storage.reserveWalletForTelegramOrder(pendingOrder.id, user.id, totalKopecks) : undefined;
+  const walletAmount = reserved?.walletAmount ?? 0;
+  const amountToPay = totalKopecks - walletAmount;
+
+  if (reserved && amountToPay <= 0) {
+    // Paid in full from the wallet: no Tinkoff payment, the order is placed right away
+    console.log("[Telegram Checkout] Paid from wallet:", orderId, "Total:", total);
+    cartPromoCodes.delete(chatId);
+    cartXpPoints.delete(chatId);
+    await completeTelegramOrder(reserved, null);
+    return;
+  }
 
   // Create Tinkoff payment
   try {
@@ -1633,19 +2073,30 @@ async function processCheckout(chatId: string, address: string, username?: strin
 
     const baseUrl = 'https://puerpub.replit.app';
 
-    // Build receipt items
-    const receiptItems = orderItems.map(item => ({
-      Name: item.name.substring(0, 64),
-      Price: Math.round(item.pricePerGram * item.quantity * 100 * (100 - discountPercent) / 100),
-      Quantity: 1,
-      Amount: Math.round(item.pricePerGram * item.quantity * 100 * (100 - discountPercent) / 100),
-      Tax: "none",
-      PaymentMethod: "full_prepayment",
-      PaymentObject: "commodity",
-    }));
+    // Build receipt items; bundles are itemised by their components
+    // Line totals from the quote already carry their share of every discount
+    const receiptItems = orderItems.flatMap((item, index) => {
+      const amount = Math.round((quote.lines.find(l => l.index === index)?.total ?? 0) * 100);
+      const lines = item.bundleItems?.length
+        ? splitBundleAmount(amount, item.bundleItems).map((part, index) => ({
+            name: `${item.bundleItems![index].name} (набор «${item.name}»)`,
+            amount: part,
+          }))
+        : [{ name: item.variantName ? `${item.name} (${item.variantName})` : item.name, amount }];
+      return lines.map(line => ({
+        Name: line.name.substring(0, 64),
+        Price: line.amount,
+        Quantity: 1,
+        Amount: line.amount,
+        Tax: "none",
+        // With a wallet part the goods are settled now, offsetting the prepayment
+        PaymentMethod: walletAmount > 0 ? "full_payment" : "full_prepayment",
+        PaymentObject: "commodity",
+      }));
+    });
 
     const paymentRequest = {
-      Amount: totalKopecks,
+      Amount: amountToPay,
       OrderId: orderId,
       Description: `Заказ чая через Telegram`,
       DATA: {
@@ -1655,6 +2106,9 @@ async function processCheckout(chatId: string, address: string, username?: strin
         Phone: phoneForReceipt,
         Taxation: "usn_income",
         Items: receiptItems,
+        ...(walletAmount > 0 && {
+          Payments: { Electronic: amountToPay, AdvancePayment: walletAmount },
+        }),
       },
       NotificationURL: `${baseUrl}/api/payments/notification`,
       SuccessURL: `${baseUrl}/order/success`,
@@ -1666,62 +2120,111 @@ async function processCheckout(chatId: string, address: string, username?: strin
     const paymentResponse = await tinkoffClient.init(paymentRequest);
 
     console.log("[Telegram Checkout] Payment created, URL:", paymentResponse.PaymentURL);
+    await db.update(pendingTelegramOrders)
+      .set({ paymentId: String(paymentResponse.PaymentId) })
+      .where(eq(pendingTelegramOrders.id, pendingOrder.id));
 
     let summaryText = `<b>📦 Подтверждение заказа</b>\n\n`;
     summaryText += `📍 Адрес: ${address}\n\n`;
     
     for (const item of orderItems) {
-      const isTea = items.find(i => i.product.id === item.id)?.product.category === "tea";
-      const unitText = isTea ? "г" : "шт.";
-      const price = item.pricePerGram * item.quantity;
-      summaryText += `• ${item.name}: ${item.quantity} ${unitText} — ${price.toLocaleString("ru-RU")} ₽\n`;
+      const product = items.find(i => i.product.id === item.id)?.product;
+      const unitText = product?.category === "tea" && product.pricingUnit !== "piece" ? "г" : "шт.";
+      const price = Math.round(item.pricePerGram * item.quantity);
+      const label = item.variantName ? `${item.name} (${item.variantName})` : item.name;
+      summaryText += `• ${label}: ${item.quantity} ${unitText} — ${price.toLocaleString("ru-RU")} ₽\n`;
     }
 
     summaryText += `\n━━━━━━━━━━━━━━━━━━━━\n`;
-    summaryText += `Сумма: ${subtotal.toLocaleString("ru-RU")} ₽\n`;
-    
-    if (discountAmount > 0) {
-      const discountLabel = discountType === "first_order" ? "Скидка первого заказа" : "Скидка лояльности";
-      summaryText += `${discountLabel} (${discountPercent}%): -${discountAmount.toLocaleString("ru-RU")} ₽\n`;
+    summaryText += `Сумма: ${Math.round(subtotal).toLocaleString("ru-RU")} ₽\n`;
+    for (const adjustment of quote.adjustments) {
+      summaryText += `${formatAdjustment(adjustment, quote)}\n`;
+    }
+    if (walletAmount > 0) {
+      summaryText += `👛 С баланса: −${(walletAmount / 100).toLocaleString("ru-RU")} ₽\n`;
     }
     
-    summaryText += `\n<b>💰 Итого к оплате: ${total.toLocaleString("ru-RU")} ₽</b>\n\n`;
+    summaryText += `\n<b>💰 Итого к оплате: ${(amountToPay / 100).toLocaleString("ru-RU")} ₽</b>\n\n`;
     summaryText += `Нажмите кнопку ниже для оплаты через СБП.`;
 
     await sendMessage(chatId, summaryText, {
       inline_keyboard: [
         [{ text: "💳 Оплатить через СБП", url: paymentResponse.PaymentURL }],
-        [{ text: "↩️ Отмена", callback_data: "cart" }],
+        [{ text: "↩️ Отмена", callback_data: `checkout_cancel_${pendingOrder.id}` }],
       ],
     });
+    // The code and the points now travel with the pending order
+    cartPromoCodes.delete(chatId);
+    cartXpPoints.delete(chatId);
   } catch (error) {
     console.error("[Telegram Checkout] Payment error:", error);
+    // Nothing will be paid for this pending order: close it and return the reserved balance and points
+    await storage.cancelPendingTelegramOrder(pendingOrder.id);
     await sendMessage(chatId, "❌ Ошибка при создании платежа. Попробуйте позже.", {
       inline_keyboard: [[{ text: "↩️ Назад к корзине", callback_data: "cart" }]],
     });
   }
 }
 
+// "Отмена" under the payment link: the link is cancelled in Tinkoff, then the balance and points
+// reserved for the order go back and the customer returns to the cart with the same code and points
+async function handleCheckoutCancel(chatId: string, pendingOrderId: number, username?: string, firstName?: string) {
+  const pendingOrder = await db.query.pendingTelegramOrders.findFirst({
+    where: eq(pendingTelegramOrders.id, pendingOrderId),
+  });
+
+  if (pendingOrder && pendingOrder.chatId === chatId && pendingOrder.status === "pending") {
+    if (pendingOrder.paymentId) {
+      try {
+        const { getTinkoffClient } = await import("../tinkoff");
+        await getTinkoffClient().cancel(pendingOrder.paymentId);
+      } catch (error) {
+        // Most likely already paid: the payment notification completes the order
+        console.error("[Telegram Checkout] Failed to cancel payment:", pendingOrder.orderId, error);
+        await sendMessage(chatId, "⏳ Платёж уже обрабатывается, отменить заказ нельзя. Мы пришлём подтверждение, как только он пройдёт.", {
+          inline_keyboard: [[{ text: "🏠 Главное меню", callback_data: "main_menu" }]],
+        });
+        return;
+      }
+    }
+
+    const cancelled = await storage.cancelPendingTelegramOrder(pendingOrder.id);
+    if (cancelled) {
+      console.log("[Telegram Checkout] Cancelled by customer:", cancelled.orderId);
+      if (cancelled.promoCode) {
+        cartPromoCodes.set(chatId, cancelled.promoCode);
+      }
+      if (cancelled.xpPoints > 0) {
+        cartXpPoints.add(chatId);
+      }
+    }
+  }
+
+  await handleCartCommand(chatId, username, firstName);
+}
+
 async function handleProductDetail(chatId: string, productId: number, username?: string, firstName?: string) {
   try {
-    const [product] = await db
-      .select()
-      .from(products)
-      .where(eq(products.id, productId));
+    // Includes bundle contents and the stock derived from them
+    const found = await storage.getProductWithVariants(productId);
 
-    if (!product) {
+    if (!found || !isProductPublished(found)) {
       await sendMessage(chatId, "Товар не найден.");
       return;
     }
+    const product = await withSalePrice(found);
+    const sale = product.sale;
 
     // Check if user is linked for cart functionality
     const profile = await getOrCreateProfile(chatId, username, firstName);
     const linkedUser = profile ? await getLinkedUser(profile) : null;
 
     const isTea = product.category === "tea";
+    const oldPriceText = sale ? `<s>${sale.oldPricePerGram}</s> ` : "";
     const priceText = isTea 
-      ? `${product.pricePerGram} ₽/г`
-      : `${product.pricePerGram} ₽`;
+      ? `${oldPriceText}${product.pricePerGram} ₽/г`
+      : `${oldPriceText}${product.pricePerGram} ₽`;
+    const variants = sortVariants(product.variants);
 
     let caption = `<b>${product.name}</b>\n\n`;
     
@@ -1729,7 +2232,35 @@ async function handleProductDetail(chatId: string, productId: number, username?:
       caption += `${product.description}\n\n`;
     }
 
-    caption += `💰 Цена: ${priceText}\n`;
+    if (sale) {
+      const countdown = formatSaleCountdown(sale.endsAt);
+      caption += `🔥 <b>${escapeHtml(sale.name)}: −${sale.percent}%</b>${countdown ? ` — до конца ${countdown}` : ""}\n\n`;
+    }
+
+    if (variants.length > 0) {
+      caption += `💰 Цены:\n`;
+      for (const variant of variants) {
+        const stockMark = isVariantInStock(variant, product.stock) ? "" : " — нет в наличии";
+        const oldPrice = sale?.oldVariantPrices[variant.id];
+        const oldPriceMark = oldPrice ? `<s>${oldPrice.toLocaleString("ru-RU")}</s> ` : "";
+        caption += `  • ${variant.name} — ${oldPriceMark}${variant.price.toLocaleString("ru-RU")} ₽${stockMark}\n`;
+      }
+    } else {
+      caption += `💰 Цена: ${priceText}\n`;
+      const tiers = await getProductVolumeDiscountTiers(product);
+      if (tiers.length > 0) {
+        caption += `📦 Скидка за объём: ${tiers.map(tier => `от ${tier.minQuantity} г −${tier.percent}%`).join(", ")}\n`;
+      }
+    }
+
+    if (product.bundleItems?.length) {
+      caption += `🎁 В наборе:\n`;
+      for (const component of product.bundleItems) {
+        const isPiece = component.product.pricingUnit === "piece" || component.product.category === "teaware";
+        const label = component.variant ? `${component.product.name} (${component.variant.name})` : component.product.name;
+        caption += `  • ${escapeHtml(label)} — ${component.quantity} ${isPiece ? "шт." : "г"}\n`;
+      }
+    }
 
     if (isTea && product.teaType) {
       caption += `🍃 Тип: ${product.teaType}\n`;
@@ -1739,16 +2270,33 @@ async function handleProductDetail(chatId: string, productId: number, username?:
       caption += `✨ Эффекты: ${product.effects.join(", ")}\n`;
     }
 
+    const brewingLines = getBrewingLines(product);
+    if (isTea && brewingLines.length > 0) {
+      caption += `\n🫖 <b>Заваривание</b>\n`;
+      for (const line of brewingLines) {
+        caption += `  • ${line.label}: ${escapeHtml(line.value)}\n`;
+      }
+    }
+
     if (product.outOfStock) {
       caption += `\n⚠️ <b>Нет в наличии</b>`;
     }
 
-    const categoryCallback = isTea ? "menu_tea" : "menu_teaware";
+    const categoryId = resolveProductCategoryId(product, await storage.getCategories());
+    const categoryCallback = categoryId ? `cat_${categoryId}` : isTea ? "menu_tea" : "menu_teaware";
     
     const buttons: InlineKeyboardButton[][] = [];
 
     // Show cart button for linked users if item is in stock
-    if (linkedUser && !product.outOfStock) {
+    if (linkedUser && !product.outOfStock && variants.length > 0) {
+      // One button per variant in stock, two per row
+      const variantButtons = variants
+        .filter(variant => isVariantInStock(variant, product.stock))
+        .map(variant => ({ text: `🛒 ${variant.name} · ${variant.price.toLocaleString("ru-RU")} ₽`, callback_data: `addvar_${variant.id}` }));
+      for (let i = 0; i < variantButtons.length; i += 2) {
+        buttons.push(variantButtons.slice(i, i + 2));
+      }
+    } else if (linkedUser && !product.outOfStock) {
       if (isTea) {
         // Tea: show preset gram amounts
         buttons.push([
@@ -1764,7 +2312,18 @@ async function handleProductDetail(chatId: string, productId: number, username?:
       }
     }
 
-    buttons.push([{ text: "🛒 Заказать на сайте", url: `https://puerpub.replit.app/product/${product.id}` }]);
+    if (product.outOfStock) {
+      buttons.push([{ text: "🔔 Сообщить о поступлении", callback_data: `notify_${product.id}` }]);
+    }
+
+    if (linkedUser) {
+      const favoriteIds = await storage.getFavoriteProductIds(linkedUser.id);
+      buttons.push([favoriteIds.includes(product.id)
+        ? { text: "✖️ Убрать из избранного", callback_data: `unfav_${product.id}` }
+        : { text: "⭐ В избранное", callback_data: `fav_${product.id}` }]);
+    }
+
+    buttons.push([{ text: "🛒 Заказать на сайте", url: `https://puerpub.replit.app/product/${product.slug || product.id}` }]);
     buttons.push([{ text: "↩️ Назад к списку", callback_data: categoryCallback }]);
     buttons.push([{ text: "🏠 Главное меню", callback_data: "main_menu" }]);
 
@@ -1792,6 +2351,92 @@ async function handleProductDetail(chatId: string, productId: number, username?:
   }
 }
 
+// ============ FAVORITES ============
+
+async function sendFavoritesLinkPrompt(chatId: string) {
+  await sendMessage(chatId, `<b>Аккаунт не привязан</b>
+
+Избранное хранится в аккаунте на сайте. Привяжите аккаунт, чтобы отмечать чаи здесь и видеть отмеченные на сайте.`, {
+    inline_keyboard: [
+      [{ text: "🔗 Привязать аккаунт", callback_data: "link_account" }],
+      [{ text: "↩️ Главное меню", callback_data: "main_menu" }],
+    ],
+  });
+}
+
+async function handleFavoritesCommand(chatId: string, username?: string, firstName?: string) {
+  try {
+    const profile = await getOrCreateProfile(chatId, username, firstName);
+    const linkedUser = profile ? await getLinkedUser(profile) : null;
+    if (!linkedUser) {
+      await sendFavoritesLinkPrompt(chatId);
+      return;
+    }
+
+    const favorites = await withSalePrices(await storage.getFavoriteProducts(linkedUser.id));
+    if (favorites.length === 0) {
+      await sendMessage(chatId, `<b>⭐ Избранное</b>\n\nПока пусто. Откройте товар в каталоге и нажмите «⭐ В избранное» — или отметьте его сердечком на сайте.`, {
+        inline_keyboard: [
+          [{ text: "🍵 Каталог", callback_data: "menu" }],
+          [{ text: "↩️ Главное меню", callback_data: "main_menu" }],
+        ],
+      });
+      return;
+    }
+
+    const buttons: InlineKeyboardButton[][] = favorites.map(product => {
+      const isPiece = product.pricingUnit === "piece" || product.category === "teaware";
+      const stockStatus = product.outOfStock ? " (нет в наличии)" : "";
+      return [{
+        text: `${product.name} - ${product.pricePerGram} ₽${isPiece ? "" : "/г"}${getSaleMark(product)}${stockStatus}`,
+        callback_data: `product_${product.id}`,
+      }];
+    });
+    buttons.push([{ text: "↩️ Главное меню", callback_data: "main_menu" }]);
+
+    await sendMessage(chatId, `<b>⭐ Избранное</b>\n\nВыберите товар для подробной информации:`, { inline_keyboard: buttons });
+  } catch (error) {
+    console.error("[TelegramBot] Favorites error:", error);
+    await sendMessage(chatId, "Произошла ошибка. Попробуйте позже.");
+  }
+}
+
+async function handleFavoriteToggle(chatId: string, productId: number, favorite: boolean, username?: string, firstName?: string) {
+  try {
+    const profile = await getOrCreateProfile(chatId, username, firstName);
+    const linkedUser = profile ? await getLinkedUser(profile) : null;
+    if (!linkedUser) {
+      await sendFavoritesLinkPrompt(chatId);
+      return;
+    }
+
+    const product = await storage.getProduct(productId);
+    if (!product || !isProductPublished(product)) {
+      await sendMessage(chatId, "Товар не найден.");
+      return;
+    }
+
+    if (favorite) {
+      await storage.addFavorites(linkedUser.id, [productId]);
+    } else {
+      await storage.removeFavorite(linkedUser.id, productId);
+    }
+
+    const text = favorite
+      ? `⭐ <b>${escapeHtml(product.name)}</b> добавлен в избранное`
+      : `<b>${escapeHtml(product.name)}</b> убран из избранного`;
+    await sendMessage(chatId, text, {
+      inline_keyboard: [
+        [{ text: "⭐ Избранное", callback_data: "favorites" }],
+        [{ text: "🍵 К товару", callback_data: `product_${productId}` }],
+      ],
+    });
+  } catch (error) {
+    console.error("[TelegramBot] Favorite toggle error:", error);
+    await sendMessage(chatId, "Произошла ошибка. Попробуйте позже.");
+  }
+}
+
 async function handleProfileCommand(chatId: string, username?: string, firstName?: string) {
   const profile = await getOrCreateProfile(chatId, username, firstName);
   if (!profile) {
@@ -1819,14 +2464,14 @@ async function handleProfileCommand(chatId: string, username?: string, firstName
     return;
   }
 
-  const progress = getLoyaltyProgress(user.xp);
+  const progress = getLoyaltyProgress(getLevelXp(user), await getLoyaltyLevels());
 
   let profileText = `<b>⭐ Ваш профиль</b>\n\n`;
   profileText += `👤 ${user.name || "Пользователь"}\n`;
   profileText += `📱 ${user.phone}\n\n`;
   
   profileText += `<b>🏆 Программа лояльности</b>\n`;
-  profileText += `Уровень: <b>${progress.currentLevel.name}</b>\n`;
+  profileText += `Уровень: ${progress.currentLevel.icon} <b>${escapeHtml(progress.currentLevel.name)}</b>\n`;
   profileText += `💎 XP: <code>${user.xp.toLocaleString("ru-RU")}</code>\n`;
   profileText += `🎁 Ваша скидка: ${progress.currentLevel.discount}%\n`;
 
@@ -1836,7 +2481,7 @@ async function handleProfileCommand(chatId: string, username?: string, firstName
     const emptyBars = 10 - filledBars;
     const progressBar = "▓".repeat(filledBars) + "░".repeat(emptyBars);
     
-    profileText += `\n📈 Прогресс до "<b>${progress.nextLevel.name}</b>"\n`;
+    profileText += `\n📈 Прогресс до "<b>${escapeHtml(progress.nextLevel.name)}</b>"\n`;
     profileText += `${progressBar} ${progressPercent}%\n`;
     profileText += `Осталось: <code>${progress.xpToNextLevel.toLocaleString("ru-RU")}</code> XP\n`;
     profileText += `Скидка на следующем уровне: ${progress.nextLevel.discount}%`;
@@ -1857,33 +2502,27 @@ async function handleProfileCommand(chatId: string, username?: string, firstName
 
 async function handleLoyaltyLevelsCommand(chatId: string, username?: string, firstName?: string) {
   const profile = await getOrCreateProfile(chatId, username, firstName);
-  const user = profile ? await getLinkedUser(profile) : null;
-  const progress = user ? getLoyaltyProgress(user.xp) : null;
+  const [user, levels] = await Promise.all([
+    profile ? getLinkedUser(profile) : Promise.resolve(null),
+    getLoyaltyLevels(),
+  ]);
+  const progress = user ? getLoyaltyProgress(getLevelXp(user), levels) : null;
 
   let text = `<b>📊 Уровни программы лояльности</b>\n\n`;
   text += `За каждый рубль покупки вы получаете 1 XP.\nНакапливайте XP и получайте скидки!\n\n`;
-  
-  const levelIcons = ["🥉", "🥈", "🥇", "👑"];
-  const levelBenefits: Record<string, string[]> = {
-    "Новичок": ["Добро пожаловать в чайную семью"],
-    "Ценитель": ["Скидка 5% на все заказы", "Ранний доступ к новинкам"],
-    "Чайный мастер": ["Скидка 10% на все заказы", "Бесплатная доставка от 2000₽", "Эксклюзивные предложения"],
-    "Чайный Гуру": ["Скидка 15% на все заказы", "Бесплатная доставка", "VIP-поддержка", "Подарки к заказам"],
-  };
 
-  LOYALTY_LEVELS.forEach((level, index) => {
+  levels.forEach((level) => {
     const isCurrentLevel = progress && level.level === progress.currentLevel.level;
     const marker = isCurrentLevel ? "➤ " : "";
     const xpRange = level.maxXP 
       ? `${level.minXP.toLocaleString("ru-RU")} – ${level.maxXP.toLocaleString("ru-RU")}`
       : `от ${level.minXP.toLocaleString("ru-RU")}`;
     
-    text += `${marker}${levelIcons[index]} <b>${level.name}</b>\n`;
+    text += `${marker}${level.icon} <b>${escapeHtml(level.name)}</b>\n`;
     text += `   <code>${xpRange}</code> XP • Скидка ${level.discount}%\n`;
     
-    const benefits = levelBenefits[level.name] || [];
-    benefits.forEach(benefit => {
-      text += `   ✓ ${benefit}\n`;
+    level.perks.forEach(perk => {
+      text += `   ✓ ${escapeHtml(perk)}\n`;
     });
     text += `\n`;
   });
@@ -1949,11 +2588,11 @@ async function handleLinkCodeMessage(chatId: string, code: string, username?: st
   let successMessage = `✅ <b>Аккаунт успешно привязан!</b>\n\n`;
   
   if (user) {
-    const progress = getLoyaltyProgress(user.xp);
+    const progress = getLoyaltyProgress(getLevelXp(user), await getLoyaltyLevels());
     successMessage += `👤 ${user.name || "Пользователь"}\n`;
     successMessage += `📱 ${user.phone}\n\n`;
     successMessage += `<b>Программа лояльности:</b>\n`;
-    successMessage += `🏆 Уровень: ${progress.currentLevel.name}\n`;
+    successMessage += `${progress.currentLevel.icon} Уровень: ${escapeHtml(progress.currentLevel.name)}\n`;
     successMessage += `💎 XP: ${user.xp}\n`;
     successMessage += `🎁 Скидка: ${progress.currentLevel.discount}%`;
   }
@@ -2012,6 +2651,24 @@ async function handleCallbackQuery(callbackQuery: TelegramCallbackQuery) {
     }
   }
 
+  // Handle add variant to cart callbacks (addvar_variantId)
+  if (data.startsWith("addvar_")) {
+    const variantId = parseInt(data.substring(7), 10);
+    if (!isNaN(variantId)) {
+      await handleAddVariantToCart(chatId, variantId, username, firstName);
+      return;
+    }
+  }
+
+  // Handle back-in-stock subscription callbacks (notify_productId)
+  if (data.startsWith("notify_")) {
+    const productId = parseInt(data.substring(7), 10);
+    if (!isNaN(productId)) {
+      await handleStockSubscription(chatId, productId, username, firstName);
+      return;
+    }
+  }
+
   // Handle remove from cart callbacks (removecart_cartId)
   if (data.startsWith("removecart_")) {
     const cartId = parseInt(data.substring(11), 10);
@@ -2021,6 +2678,25 @@ async function handleCallbackQuery(callbackQuery: TelegramCallbackQuery) {
     }
   }
 
+  // Handle favourite callbacks (fav_productId / unfav_productId)
+  if (data.startsWith("fav_") || data.startsWith("unfav_")) {
+    const favorite = data.startsWith("fav_");
+    const productId = parseInt(data.substring(favorite ? 4 : 6), 10);
+    if (!isNaN(productId)) {
+      await handleFavoriteToggle(chatId, productId, favorite, username, firstName);
+      return;
+    }
+  }
+
+  // Handle catalog category callbacks (cat_categoryId)
+  if (data.startsWith("cat_")) {
+    const categoryId = parseInt(data.substring(4), 10);
+    if (!isNaN(categoryId)) {
+      await handleCatalogCategory(chatId, categoryId);
+      return;
+    }
+  }
+
   // Handle tea type callbacks (format: tth_hash - uses SHA256 hash of tea type)
   if (data.startsWith("tth_")) {
     const hash = data.substring(4);
@@ -2048,6 +2724,9 @@ async function handleCallbackQuery(callbackQuery: TelegramCallbackQuery) {
     case "profile":
       await handleProfileCommand(chatId, username, firstName);
       break;
+    case "favorites":
+      await handleFavoritesCommand(chatId, username, firstName);
+      break;
     case "link_account":
       await handleLinkAccountCallback(chatId);
       break;
@@ -2065,15 +2744,47 @@ async function handleCallbackQuery(callbackQuery: TelegramCallbackQuery) {
     case "ask_question":
       await handleAskQuestionStart(chatId, username, firstName);
       break;
+    case "search":
+      await handleSearchStart(chatId);
+      break;
     case "cart":
       await handleCartCommand(chatId, username, firstName);
       break;
     case "clear_cart":
       await handleClearCart(chatId, username, firstName);
       break;
+    case "promo_code":
+      await handlePromoCodeStart(chatId);
+      break;
+    case "promo_remove":
+      cartPromoCodes.delete(chatId);
+      await handleCartCommand(chatId, username, firstName);
+      break;
+    case "xp_points_on":
+    case "xp_points_off":
+      if (data === "xp_points_on") {
+        cartXpPoints.add(chatId);
+      } else {
+        cartXpPoints.delete(chatId);
+      }
+      await handleCartCommand(chatId, username, firstName);
+      break;
     case "checkout":
       await handleCheckoutStart(chatId, username, firstName);
       break;
+    case "checkout_wallet":
+    case "checkout_no_wallet": {
+      const state = getUserState(chatId);
+      if (state?.action !== "awaiting_wallet_choice" || !state.address) {
+        await sendMessage(chatId, "⏱ Время оформления истекло. Начните заново.", {
+          inline_keyboard: [[{ text: "↩️ Корзина", callback_data: "cart" }]],
+        });
+        break;
+      }
+      clearUserState(chatId);
+      await processCheckout(chatId, state.address, username, firstName, data === "checkout_wallet");
+      break;
+    }
     case "enter_address":
       setUserState(chatId, {
         action: "awaiting_address",
@@ -2123,6 +2834,14 @@ async function handleCallbackQuery(callbackQuery: TelegramCallbackQuery) {
       await executeBroadcast(chatId);
       break;
     default:
+      if (data.startsWith("checkout_cancel_")) {
+        const pendingOrderId = parseInt(data.substring(16), 10);
+        if (!isNaN(pendingOrderId)) {
+          await handleCheckoutCancel(chatId, pendingOrderId, username, firstName);
+          return;
+        }
+      }
+
       // Handle use_address_ID callbacks
       if (data.startsWith("use_address_")) {
         const addressId = parseInt(data.substring(12), 10);
@@ -2208,6 +2927,18 @@ export async function handleWebhookUpdate(update: TelegramUpdate): Promise<void>
       await handlePhoneForCodeInput(chatId, text);
       return;
     }
+    
+    if (userState.action === "awaiting_search" && !text.startsWith("/")) {
+      // User entering a catalog search query
+      await handleSearchQuery(chatId, text);
+      return;
+    }
+    
+    if (userState.action === "awaiting_promo_code" && !text.startsWith("/")) {
+      // User entering a promo code for the cart
+      await handlePromoCodeInput(chatId, text, username, firstName);
+      return;
+    }
   }
 
   switch (command) {
@@ -2226,12 +2957,22 @@ export async function handleWebhookUpdate(update: TelegramUpdate): Promise<void>
     case "/menu":
       await handleMenuCommand(chatId);
       break;
+    case "/search":
+      if (payload) {
+        await handleSearchQuery(chatId, payload);
+      } else {
+        await handleSearchStart(chatId);
+      }
+      break;
     case "/profile":
       await handleProfileCommand(chatId, username, firstName);
       break;
     case "/cart":
       await handleCartCommand(chatId, username, firstName);
       break;
+    case "/favorites":
+      await handleFavoritesCommand(chatId, username, firstName);
+      break;
     case "/link":
       // Just /link without token - show instructions
       if (!payload) {
@@ -2249,6 +2990,9 @@ export async function handleWebhookUpdate(update: TelegramUpdate): Promise<void>
           chatId,
           "Неизвестная команда. Используйте /help для списка команд."
         );
+      } else {
+        // Any other plain text is treated as a catalog search
+        await handleSearchQuery(chatId, text);
       }
   }
 }
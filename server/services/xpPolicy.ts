@@ -0,0 +1,177 @@
+import { storage } from "../storage";
+import { sendXpExpirationSms, sendLevelDropSms } from "../sms-ru";
+import { sendMessage, escapeHtml } from "./telegramBot";
+import { getUserTelegramProfile } from "./magicLink";
+import { getLoyaltyLevels } from "./loyalty";
+import { getLevelXp, type LoyaltyLevel } from "@shared/loyalty";
+import {
+  getXpPolicySettings,
+  getXpWindowStart,
+  getExpiredXp,
+  getExpiredPointsSpent,
+  getNextXpExpiration,
+  isXpPolicyInEffect,
+  getNextLevelDrop,
+  type XpAccrual,
+  type XpPolicySettings,
+} from "@shared/xpPolicy";
+import type { User, XpPolicyForecast } from "@shared/schema";
+
+const CHECK_INTERVAL_MS = 60 * 60 * 1000;
+const SITE_URL = "https://puerpub.replit.app";
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+let timer: NodeJS.Timeout | null = null;
+let running = false;
+
+function formatDate(date: Date): string {
+  return date.toLocaleDateString("ru-RU", { day: "numeric", month: "long", year: "numeric" });
+}
+
+function toAccruals(rows: Array<{ amount: number; createdAt: string }>): XpAccrual[] {
+  return rows.map(row => ({ amount: row.amount, createdAt: new Date(row.createdAt) }));
+}
+
+/**
+ * Telegram when the account is linked to the bot, SMS otherwise. Throws when neither worked,
+ * so the warning is retried on the next run.
+ */
+async function deliverWarning(user: User, telegramText: string, sendSms: () => Promise<void>): Promise<void> {
+  const profile = await getUserTelegramProfile(user.id);
+  if (profile && await sendMessage(profile.chatId, telegramText, {
+    inline_keyboard: [[{ text: "⭐ Мой профиль", callback_data: "profile" }]],
+  }, "xp-policy")) {
+    return;
+  }
+  await sendSms();
+}
+
+async function warnIfDue(user: User, accruals: XpAccrual[], levels: LoyaltyLevel[], settings: XpPolicySettings, now: Date): Promise<void> {
+  if (!user.phoneVerified) return;
+  // One warning per warning period, not one per run
+  if (user.xpExpiryWarnedAt && now.getTime() - new Date(user.xpExpiryWarnedAt).getTime() < settings.warningDays * DAY_MS) return;
+  const horizon = new Date(now.getTime() + settings.warningDays * DAY_MS);
+  const profileUrl = `${SITE_URL}/profile`;
+
+  const expiration = getNextXpExpiration(user.xp, accruals, settings, now);
+  if (expiration && expiration.expiresAt <= horizon) {
+    const date = formatDate(expiration.expiresAt);
+    await deliverWarning(
+      user,
+      `⏳ <b>${expiration.amount.toLocaleString("ru-RU")} XP сгорят ${date}</b>\n\nXP действуют ${settings.months} мес. с момента начисления.`,
+      () => sendXpExpirationSms(user.phone, expiration.amount, date, profileUrl)
+    );
+    await storage.markXpExpiryWarned(user.id);
+    console.log(`[XpPolicy] User ${user.id}: warned about ${expiration.amount} XP expiring ${expiration.expiresAt.toISOString()}`);
+    return;
+  }
+
+  const drop = getNextLevelDrop(getLevelXp(user), accruals, levels, settings, now);
+  if (drop && drop.at <= horizon) {
+    const date = formatDate(drop.at);
+    await deliverWarning(
+      user,
+      `⏳ <b>Уровень «${escapeHtml(drop.currentLevel.name)}» истекает ${date}</b>\n\nУровень считается по XP за последние ${settings.months} мес. Без новых заказов он снизится до «${escapeHtml(drop.nextLevel.name)}».`,
+      () => sendLevelDropSms(user.phone, drop.currentLevel.name, date, profileUrl)
+    );
+    await storage.markXpExpiryWarned(user.id);
+    console.log(`[XpPolicy] User ${user.id}: warned about dropping to ${drop.nextLevel.name} on ${drop.at.toISOString()}`);
+  }
+}
+
+/**
+ * One pass of the policy: writes off expired XP, recalculates rolling levels and sends
+ * advance warnings. Safe to run at any time; what's already done is not done twice.
+ */
+export async function applyXpPolicy(): Promise<void> {
+  // A slow run must not overlap with the next tick
+  if (running) return;
+  running = true;
+  try {
+    const settings = getXpPolicySettings(await storage.getSiteSettings());
+    const now = new Date();
+    if (!settings) {
+      await storage.refreshLevelXp(null);
+      return;
+    }
+
+    const windowStart = getXpWindowStart(settings, now);
+    const rolling = settings.policy === "rolling" && isXpPolicyInEffect(settings, now);
+    await storage.refreshLevelXp(rolling ? windowStart.toISOString() : null);
+
+    const [users, rows, levels] = await Promise.all([
+      storage.getUsersWithXp(),
+      storage.getXpAccruals(windowStart.toISOString()),
+      getLoyaltyLevels(),
+    ]);
+    const accrualsByUser = new Map<string, XpAccrual[]>();
+    for (const row of rows) {
+      const list = accrualsByUser.get(row.userId) || [];
+      list.push({ amount: row.amount, createdAt: new Date(row.createdAt) });
+      accrualsByUser.set(row.userId, list);
+    }
+
+    for (const user of users) {
+      const accruals = accrualsByUser.get(user.id) || [];
+      try {
+        const expired = getExpiredXp(user.xp, accruals, settings, now);
+        if (expired > 0) {
+          const transaction = await storage.expireUserXp(user.id, expired, `Сгорание XP, начисленных более ${settings.months} мес. назад`);
+          if (transaction) {
+            user.xp += transaction.amount;
+            console.log(`[XpPolicy] User ${user.id}: ${-transaction.amount} XP expired`);
+          }
+        }
+        const expiredPointsSpent = getExpiredPointsSpent(user.xp, user.xpPointsSpent, accruals, settings, now);
+        if (expiredPointsSpent > 0) {
+          await storage.expireUserPointsSpent(user.id, expiredPointsSpent);
+          user.xpPointsSpent -= expiredPointsSpent;
+          console.log(`[XpPolicy] User ${user.id}: ${expiredPointsSpent} spent points no longer count towards the level`);
+        }
+        await warnIfDue(user, accruals, levels, settings, now);
+      } catch (error) {
+        console.error(`[XpPolicy] Failed to apply the XP policy to user ${user.id}:`, error);
+      }
+    }
+  } catch (error) {
+    console.error("[XpPolicy] Failed to apply the XP policy:", error);
+  } finally {
+    running = false;
+  }
+}
+
+/**
+ * What the customer stands to lose, for the "истекает" line in the profile
+ */
+export async function getXpPolicyForecast(user: User): Promise<XpPolicyForecast> {
+  const siteSettings = await storage.getSiteSettings();
+  const settings = getXpPolicySettings(siteSettings);
+  if (!settings) {
+    return { policy: "none", months: siteSettings?.xpPolicyMonths ?? 12, expiration: null, levelDrop: null };
+  }
+
+  const now = new Date();
+  const [rows, levels] = await Promise.all([
+    storage.getXpAccruals(getXpWindowStart(settings, now).toISOString(), user.id),
+    getLoyaltyLevels(),
+  ]);
+  const accruals = toAccruals(rows);
+  const expiration = getNextXpExpiration(user.xp, accruals, settings, now);
+  const drop = getNextLevelDrop(getLevelXp(user), accruals, levels, settings, now);
+  return {
+    policy: settings.policy,
+    months: settings.months,
+    expiration: expiration ? { amount: expiration.amount, expiresAt: expiration.expiresAt.toISOString() } : null,
+    levelDrop: drop ? { currentLevel: drop.currentLevel.name, nextLevel: drop.nextLevel.name, at: drop.at.toISOString() } : null,
+  };
+}
+
+/**
+ * Runs the XP expiration / level retention policy set in the admin site settings every hour
+ */
+export function startXpPolicyScheduler(): void {
+  if (timer) return;
+  void applyXpPolicy();
+  timer = setInterval(applyXpPolicy, CHECK_INTERVAL_MS);
+  console.log("[XpPolicy] Started");
+}
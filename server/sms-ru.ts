@@ -197,3 +197,28 @@ export async function sendReceiptSms(phone: string, receiptUrl: string, orderNum
     // But log prominently so support can manually retry
   }
 }
+
+export async function sendBackInStockSms(phone: string, productName: string, productUrl: string): Promise<void> {
+  const message = `«${productName}» снова в наличии! ${productUrl}`;
+  console.log(`[SMS.ru] Sending back-in-stock SMS to ${phone}`);
+  // Throws so the restock notifier can retry later
+  await sendSms(phone, message);
+}
+
+export async function sendGiftCertificateSms(phone: string, code: string, amountRub: number, certificateUrl: string): Promise<void> {
+  const message = `Вам подарочный сертификат Пуэр Паба на ${amountRub} ₽! Код: ${code}. ${certificateUrl}`;
+  console.log(`[SMS.ru] Sending gift certificate SMS to ${phone}`);
+  await sendSms(phone, message);
+}
+
+export async function sendXpExpirationSms(phone: string, amount: number, date: string, profileUrl: string): Promise<void> {
+  const message = `Пуэр Паб: ${amount} XP сгорят ${date}. ${profileUrl}`;
+  console.log(`[SMS.ru] Sending XP expiration warning to ${phone}`);
+  await sendSms(phone, message);
+}
+
+export async function sendLevelDropSms(phone: string, levelName: string, date: string, profileUrl: string): Promise<void> {
+  const message = `Пуэр Паб: уровень «${levelName}» истекает ${date}. Сделайте заказ, чтобы его сохранить: ${profileUrl}`;
+  console.log(`[SMS.ru] Sending loyalty level warning to ${phone}`);
+  await sendSms(phone, message);
+}
@@ -1,6 +1,8 @@
-import { type User, type InsertUser, type QuizConfig, type Product, type InsertProduct, type Settings, type UpdateSettings, type DbOrder, type TeaType, type InsertTeaType, type CartItem as DbCartItem, type InsertCartItem, type SmsVerification, type SavedAddress, type InsertSavedAddress, type XpTransaction, type InsertXpTransaction, type TvSlide, type InsertTvSlide, type UpdateTvSlide, type Experiment, type InsertExperiment, type UpdateExperiment, type AbEvent, type InsertAbEvent, type DeviceUserMapping, type InsertDeviceUserMapping, type Media, type InsertMedia, type UpdateMedia } from "@shared/schema";
+import { type User, type InsertUser, type QuizConfig, type Product, type InsertProduct, type Settings, type UpdateSettings, type DbOrder, type TeaType, type InsertTeaType, type CartItem as DbCartItem, type InsertCartItem, type SmsVerification, type SavedAddress, type InsertSavedAddress, type XpTransaction, type InsertXpTransaction, type TvSlide, type InsertTvSlide, type UpdateTvSlide, type Experiment, type InsertExperiment, type UpdateExperiment, type AbEvent, type InsertAbEvent, type DeviceUserMapping, type InsertDeviceUserMapping, type Media, type InsertMedia, type UpdateMedia, type ProductVariant, type ProductVariantInput, type ProductWithVariants, type ProductSearchResult, type OrderItem, type StockMovement, type InsertStockMovement, type StockAdjustment, type ProductReview, type PublicProductReview, type AdminProductReview, type ProductRatingSummary, type ReviewEligibility, type ReviewStatus, type BundleItem, type BundleItemInput, type BundleComponent, type PriceHistoryEntry, type InsertPriceHistoryEntry, type ScheduledPriceChange, type ScheduledPriceChangeInput, type ProductImportEntry, type ProductStatus, type StockSubscription, type InsertStockSubscription, type Category, type InsertCategory, type ProductAssociation, type InsertProductAssociation, type PromoCode, type PromoCodeInput, type PromoCodeStats, type SaleCampaign, type SaleCampaignInput, type GiftCertificate, type InsertGiftCertificate, type PendingTelegramOrder, type InsertPendingTelegramOrder, type WalletTransaction, type Referral, type AdminReferral, type DbLoyaltyLevel, type LoyaltyLevelInput } from "@shared/schema";
 import { randomUUID } from "crypto";
 import { normalizePhone } from "./utils";
+import type { ReferralRewards } from "@shared/referrals";
+import { getPromoUsageError, type PromoUsage } from "@shared/promo";
 
 // modify the interface with any CRUD methods
 // you might need
@@ -22,11 +24,122 @@ export interface IStorage {
   updateQuizConfig(config: QuizConfig): Promise<QuizConfig>;
   
   // Products
-  getProducts(): Promise<Product[]>;
+  getProducts(options?: { publishedOnly?: boolean }): Promise<Product[]>;
   getProduct(id: number): Promise<Product | undefined>;
+  getProductBySlug(slug: string): Promise<Product | undefined>;
   createProduct(product: InsertProduct): Promise<Product>;
   updateProduct(id: number, product: InsertProduct): Promise<Product | undefined>;
   deleteProduct(id: number): Promise<boolean>;
+  updateProductStatus(id: number, status: ProductStatus): Promise<Product | undefined>;
+  
+  // Product Variants
+  getProductVariants(productId: number): Promise<ProductVariant[]>;
+  getAllProductVariants(): Promise<ProductVariant[]>;
+  getProductVariant(id: number): Promise<ProductVariant | undefined>;
+  getProductsWithVariants(options?: { publishedOnly?: boolean }): Promise<ProductWithVariants[]>;
+  getProductWithVariants(id: number): Promise<ProductWithVariants | undefined>;
+  replaceProductVariants(productId: number, variants: ProductVariantInput[]): Promise<ProductVariant[]>;
+  importProducts(entries: ProductImportEntry[]): Promise<Product[]>;
+  getBundleItems(bundleId: number): Promise<BundleComponent[]>;
+  replaceBundleItems(bundleId: number, items: BundleItemInput[]): Promise<BundleItem[]>;
+  searchProducts(query: string, limit?: number): Promise<ProductSearchResult[]>;
+  
+  // Inventory
+  deductOrderStock(orderId: number): Promise<StockMovement[]>;
+  restoreOrderStock(orderId: number): Promise<StockMovement[]>;
+  adjustStock(productId: number, adjustment: StockAdjustment, createdBy: string): Promise<StockMovement | undefined>;
+  createStockMovement(movement: InsertStockMovement): Promise<StockMovement>;
+  getStockMovements(productId?: number, limit?: number): Promise<Array<StockMovement & { productName: string; variantName: string | null }>>;
+  syncProductAvailability(productId: number): Promise<void>;
+  
+  // Prices
+  createPriceHistory(entries: InsertPriceHistoryEntry[]): Promise<PriceHistoryEntry[]>;
+  getPriceHistory(productId: number): Promise<PriceHistoryEntry[]>;
+  getScheduledPriceChanges(productId: number): Promise<ScheduledPriceChange[]>;
+  createScheduledPriceChange(productId: number, change: ScheduledPriceChangeInput, createdBy: string): Promise<ScheduledPriceChange>;
+  cancelScheduledPriceChange(id: number): Promise<ScheduledPriceChange | undefined>;
+  applyDueScheduledPriceChanges(): Promise<ScheduledPriceChange[]>;
+  
+  // Back-in-stock subscriptions
+  createStockSubscription(subscription: InsertStockSubscription): Promise<StockSubscription>;
+  getDueStockSubscriptions(maxAttempts: number): Promise<Array<{ subscription: StockSubscription; product: Product }>>;
+  markStockSubscriptionNotified(id: number): Promise<void>;
+  recordStockSubscriptionFailure(id: number): Promise<void>;
+  getStockSubscriptionCounts(): Promise<Record<number, number>>;
+  
+  // "Bought together" recommendations
+  getPurchaseBaskets(): Promise<number[][]>;
+  getCartBaskets(): Promise<number[][]>;
+  replaceProductAssociations(associations: InsertProductAssociation[]): Promise<void>;
+  getProductAssociations(productIds: number[]): Promise<ProductAssociation[]>;
+  getBestsellerProductIds(limit: number): Promise<number[]>;
+  
+  // Favourites
+  getFavoriteProductIds(userId: string): Promise<number[]>;
+  getFavoriteProducts(userId: string): Promise<ProductWithVariants[]>;
+  addFavorites(userId: string, productIds: number[]): Promise<void>;
+  removeFavorite(userId: string, productId: number): Promise<boolean>;
+  
+  // Promo codes
+  getPromoCodes(): Promise<PromoCode[]>;
+  getPromoCodeByCode(code: string): Promise<PromoCode | undefined>;
+  createPromoCode(data: PromoCodeInput): Promise<PromoCode>;
+  updatePromoCode(id: number, data: PromoCodeInput): Promise<PromoCode | undefined>;
+  deletePromoCode(id: number): Promise<boolean>;
+  getPromoCodeUsage(promoCodeId: number, customer: { userId: string | null; phone: string | null }): Promise<PromoUsage>;
+  getPromoCodeStats(): Promise<PromoCodeStats[]>;
+
+  // Sale campaigns
+  getSaleCampaigns(): Promise<SaleCampaign[]>;
+  createSaleCampaign(data: SaleCampaignInput): Promise<SaleCampaign>;
+  updateSaleCampaign(id: number, data: SaleCampaignInput): Promise<SaleCampaign | undefined>;
+  deleteSaleCampaign(id: number): Promise<boolean>;
+
+  // Gift certificates
+  getGiftCertificates(): Promise<GiftCertificate[]>;
+  getGiftCertificateByCode(code: string): Promise<GiftCertificate | undefined>;
+  createGiftCertificate(data: InsertGiftCertificate): Promise<GiftCertificate>;
+  activateGiftCertificate(id: number, paymentId: string): Promise<GiftCertificate | undefined>;
+  cancelGiftCertificate(id: number): Promise<GiftCertificate | undefined>;
+  redeemGiftCertificate(code: string, userId: string): Promise<GiftCertificate | undefined>;
+
+  // Wallet checkout methods (amounts in kopecks)
+  payOrderFromWallet(orderId: number, userId: string, maxAmount: number): Promise<number>;
+  reserveWalletForTelegramOrder(pendingOrderId: number, userId: string, maxAmount: number): Promise<PendingTelegramOrder | undefined>;
+  linkWalletTransactionToOrder(transactionId: number, orderId: number): Promise<void>;
+  refundOrderWallet(orderId: number): Promise<number>;
+  cancelPendingTelegramOrder(pendingOrderId: number): Promise<PendingTelegramOrder | undefined>;
+
+  // XP points redemption (see shared/pricing.ts)
+  spendOrderXpPoints(orderId: number, userId: string, points: number): Promise<boolean>;
+  reserveXpPointsForTelegramOrder(pendingOrderId: number, userId: string, points: number): Promise<PendingTelegramOrder | undefined>;
+  linkXpTransactionToOrder(transactionId: number, orderId: number): Promise<void>;
+  refundOrderXpPoints(orderId: number): Promise<number>;
+
+  // Referral program (see shared/referrals.ts)
+  getUserByReferralCode(code: string): Promise<User | undefined>;
+  setUserReferralCode(userId: string, code: string): Promise<User | undefined>;
+  createReferral(referrerId: string, refereeId: string): Promise<Referral>;
+  getReferralsByReferrer(referrerId: string): Promise<Referral[]>;
+  getReferrals(): Promise<AdminReferral[]>;
+  rewardReferral(refereeId: string, orderId: number, rewards: ReferralRewards): Promise<Referral | undefined>;
+
+  // XP expiration and level retention (see shared/xpPolicy.ts)
+  getXpAccruals(since: string, userId?: string): Promise<Array<{ userId: string; amount: number; createdAt: string }>>;
+  getUsersWithXp(): Promise<User[]>;
+  expireUserXp(userId: string, amount: number, description: string): Promise<XpTransaction | undefined>;
+  expireUserPointsSpent(userId: string, amount: number): Promise<void>;
+  refreshLevelXp(since: string | null): Promise<void>;
+  markXpExpiryWarned(userId: string): Promise<void>;
+  
+  // Reviews
+  getProductReviews(productId: number): Promise<PublicProductReview[]>;
+  getProductRatingSummaries(): Promise<Record<number, ProductRatingSummary>>;
+  getReviewEligibility(userId: string, productId: number): Promise<ReviewEligibility>;
+  createProductReview(review: { productId: number; userId: string; orderId: number; rating: number; text: string; photo: string | null }): Promise<ProductReview>;
+  getReviewsForModeration(status?: ReviewStatus): Promise<AdminProductReview[]>;
+  moderateReview(id: number, status: ReviewStatus): Promise<ProductReview | undefined>;
+  deleteReview(id: number): Promise<boolean>;
   
   // Settings
   getSettings(): Promise<Settings>;
@@ -39,6 +152,12 @@ export interface IStorage {
   updateTeaType(id: number, teaType: InsertTeaType): Promise<TeaType | undefined>;
   deleteTeaType(id: number): Promise<boolean>;
   
+  // Categories
+  getCategories(): Promise<Category[]>;
+  createCategory(category: InsertCategory): Promise<Category>;
+  updateCategory(id: number, category: InsertCategory): Promise<Category | undefined>;
+  deleteCategory(id: number): Promise<boolean>;
+  
   // Orders
   getOrder(orderId: number): Promise<DbOrder | undefined>;
   getOrders(statusFilter?: string, offset?: number, limit?: number): Promise<DbOrder[]>;
@@ -54,11 +173,15 @@ export interface IStorage {
     total: number;
     usedFirstOrderDiscount?: boolean;
     receiptEmail?: string;
-  }): Promise<DbOrder>;
+    promoCodeId?: number | null;
+    promoCode?: string | null;
+    promoDiscount?: number;
+  }): Promise<DbOrder | undefined>; // undefined when the promo code ran out of uses meanwhile
+  createPendingTelegramOrder(data: InsertPendingTelegramOrder): Promise<PendingTelegramOrder | undefined>; // Same
   updateOrderStatus(orderId: number, status: string, expectedOldStatus?: string): Promise<DbOrder | undefined>;
   
   // Cart
-  getCartItems(userId: string): Promise<Array<DbCartItem & { product: Product }>>;
+  getCartItems(userId: string): Promise<Array<DbCartItem & { product: Product; variant: ProductVariant | null }>>;
   addToCart(cartItem: InsertCartItem): Promise<DbCartItem>;
   updateCartItem(id: number, quantity: number, userId: string, pricePerUnit?: number): Promise<DbCartItem | undefined>;
   removeFromCart(id: number, userId: string): Promise<boolean>;
@@ -75,7 +198,11 @@ export interface IStorage {
   
   // Site Settings
   getSiteSettings(): Promise<import("@shared/schema").SiteSettings | undefined>;
-  updateSiteSettings(settings: import("@shared/schema").UpdateSiteSettings): Promise<import("@shared/schema").SiteSettings | undefined>;
+  updateSiteSettings(settings: import("@shared/schema").UpdateSiteSettings & { xpPolicyStartedAt?: string | null }): Promise<import("@shared/schema").SiteSettings | undefined>;
+
+  // Loyalty levels, ordered by XP threshold
+  getLoyaltyLevels(): Promise<DbLoyaltyLevel[]>;
+  replaceLoyaltyLevels(levels: LoyaltyLevelInput[]): Promise<DbLoyaltyLevel[]>;
   
   // Saved Addresses
   getSavedAddresses(userId: string): Promise<SavedAddress[]>;
@@ -240,6 +367,9 @@ export class MemStorage implements IStorage {
       phone: normalizePhone(insertUser.phone),
       phoneVerified: false,
       xp: 0,
+      xpPointsSpent: 0,
+      levelXp: null,
+      xpExpiryWarnedAt: null,
       firstOrderDiscountUsed: false,
     };
     this.users.set(id, user);
@@ -384,6 +514,9 @@ export class MemStorage implements IStorage {
     total: number;
     usedFirstOrderDiscount?: boolean;
     receiptEmail?: string;
+    promoCodeId?: number | null;
+    promoCode?: string | null;
+    promoDiscount?: number;
   }): Promise<DbOrder> {
     // MemStorage doesn't persist orders, return mock order
     return {
@@ -402,6 +535,11 @@ export class MemStorage implements IStorage {
       paymentStatus: null,
       paymentUrl: null,
       receiptEmail: orderData.receiptEmail ?? null,
+      promoCodeId: orderData.promoCodeId ?? null,
+      promoCode: orderData.promoCode ?? null,
+      promoDiscount: orderData.promoDiscount ?? 0,
+      walletAmount: 0,
+      xpPointsSpent: 0,
       createdAt: new Date().toISOString(),
     };
   }
@@ -433,7 +571,7 @@ export class MemStorage implements IStorage {
   }
 
   // Cart methods (not implemented in MemStorage)
-  async getCartItems(userId: string): Promise<Array<DbCartItem & { product: Product }>> {
+  async getCartItems(userId: string): Promise<Array<DbCartItem & { product: Product; variant: ProductVariant | null }>> {
     return [];
   }
 
@@ -631,12 +769,181 @@ export class MemStorage implements IStorage {
 }
 
 import { db } from "./db";
-import { users as usersTable, products as productsTable, settings as settingsTable, orders as ordersTable, teaTypes as teaTypesTable, cartItems as cartItemsTable, smsVerifications as smsVerificationsTable, siteSettings as siteSettingsTable, savedAddresses as savedAddressesTable, tvSlides as tvSlidesTable, experiments as experimentsTable, abEvents as abEventsTable, deviceUserMappings as deviceUserMappingsTable, media as mediaTable } from "@shared/schema";
-import { eq, desc, and, sql, asc } from "drizzle-orm";
+import { users as usersTable, products as productsTable, settings as settingsTable, orders as ordersTable, teaTypes as teaTypesTable, cartItems as cartItemsTable, smsVerifications as smsVerificationsTable, siteSettings as siteSettingsTable, savedAddresses as savedAddressesTable, tvSlides as tvSlidesTable, experiments as experimentsTable, abEvents as abEventsTable, deviceUserMappings as deviceUserMappingsTable, media as mediaTable, productVariants as productVariantsTable, stockMovements as stockMovementsTable, productReviews as productReviewsTable, bundleItems as bundleItemsTable, priceHistory as priceHistoryTable, scheduledPriceChanges as scheduledPriceChangesTable, stockSubscriptions as stockSubscriptionsTable, categories as categoriesTable, productAssociations as productAssociationsTable, favorites as favoritesTable, promoCodes as promoCodesTable, saleCampaigns as saleCampaignsTable, giftCertificates as giftCertificatesTable, walletTransactions as walletTransactionsTable, pendingTelegramOrders as pendingTelegramOrdersTable, xpTransactions as xpTransactionsTable, referrals as referralsTable, loyaltyLevels as loyaltyLevelsTable } from "@shared/schema";
+import { eq, ne, desc, and, or, sql, asc, lte, gt, gte, isNull, isNotNull, inArray, notInArray, type SQL, type AnyColumn } from "drizzle-orm";
+import { alias } from "drizzle-orm/pg-core";
+import { buildVariantsFromLegacy, getVariantPackCount, getStockAvailability, getPriceEdits } from "@shared/variants";
+import { slugify } from "@shared/slug";
+import { getBundleStock, isBundleAvailable } from "@shared/bundles";
 import connectPg from "connect-pg-simple";
 
+// Minimal word_similarity for a fuzzy-only match (0..1)
+const SEARCH_SIMILARITY_THRESHOLD = 0.4;
+
+// Search is case-insensitive and treats ё/э as е, so "шэн пуэр" finds "Шен Пуэр" and vice versa
+function normalizeSearchText(text: string): string {
+  return text.toLowerCase().replace(/[ёэ]/g, "е").trim();
+}
+
+function searchable(column: AnyColumn | SQL): SQL {
+  return sql`translate(lower(coalesce(${column}, '')), 'ёэ', 'ее')`;
+}
+
+// ts_headline's default FragmentDelimiter
+const HEADLINE_FRAGMENT_DELIMITER = " ... ";
+
+/**
+ * Headlines are built on the searchable() text, so "шэн" highlights "Шен" too. That text has the
+ * same length as the original, so the marks are carried over onto the original letters here.
+ */
+function restoreHighlight(highlight: string, original: string | null): string {
+  if (!original) return highlight;
+  const normalized = original.toLowerCase().replace(/[ёэ]/g, "е");
+  if (normalized.length !== original.length) return highlight;
+
+  return highlight.split(HEADLINE_FRAGMENT_DELIMITER).map(fragment => {
+    const start = normalized.indexOf(fragment.replace(/<\/?mark>/g, ""));
+    if (start < 0) return fragment;
+    let restored = "";
+    let position = start;
+    for (let i = 0; i < fragment.length;) {
+      const tag = fragment.startsWith("<mark>", i) ? "<mark>" : fragment.startsWith("</mark>", i) ? "</mark>" : null;
+      if (tag) {
+        restored += tag;
+        i += tag.length;
+      } else {
+        restored += original[position++];
+        i++;
+      }
+    }
+    return restored;
+  }).join(HEADLINE_FRAGMENT_DELIMITER);
+}
+
 const PostgresSessionStore = connectPg(session);
 
+type DbTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Customers only see published products whose publish time has come (publishAt is an ISO string in UTC)
+function isPublished(): SQL {
+  return and(
+    eq(productsTable.status, "published"),
+    or(isNull(productsTable.publishAt), lte(productsTable.publishAt, new Date().toISOString()))
+  )!;
+}
+
+// Bundles are never stocked themselves: stock and availability are worked out from the components
+function withBundleStock(product: ProductWithVariants, components: BundleComponent[]): ProductWithVariants {
+  if (!product.isBundle) return product;
+  return {
+    ...product,
+    bundleItems: components,
+    stock: getBundleStock(components),
+    outOfStock: !isBundleAvailable(components),
+  };
+}
+
+// How long an unpaid order holds its use: the lifetime of a Tinkoff payment link. An order abandoned
+// before paying gives the use back then, even if its payment never reports back as expired.
+const UNPAID_PROMO_HOLD = "24 hours";
+
+// Paid and completed orders count, and so do orders still awaiting payment, site and bot alike,
+// within UNPAID_PROMO_HOLD. Guests are matched by the last 10 digits of the phone, however it was typed.
+async function countPromoCodeUses(
+  executor: typeof db | DbTransaction,
+  promoCodeId: number,
+  customer: { userId: string | null; phone: string | null }
+): Promise<PromoUsage> {
+  const phoneDigits = customer.phone ? customer.phone.replace(/\D/g, "").slice(-10) : null;
+  const byUser = customer.userId ? sql`user_id = ${customer.userId}` : sql`FALSE`;
+  const byPhone = phoneDigits && phoneDigits.length === 10
+    ? sql`RIGHT(regexp_replace(phone, '\\D', '', 'g'), 10) = ${phoneDigits}`
+    : sql`FALSE`;
+  const holdStart = sql`NOW() - ${UNPAID_PROMO_HOLD}::interval`;
+  const rows = await executor.execute<{ total: number; by_customer: number }>(sql`
+    SELECT COUNT(*)::int AS total, COUNT(*) FILTER (WHERE ${byUser} OR ${byPhone})::int AS by_customer
+    FROM (
+      SELECT user_id, phone FROM orders
+      WHERE promo_code_id = ${promoCodeId}
+        AND (status IN ('paid', 'completed') OR (status = 'pending' AND created_at::timestamptz >= ${holdStart}))
+      UNION ALL
+      SELECT user_id, phone FROM pending_telegram_orders
+      WHERE promo_code_id = ${promoCodeId} AND status = 'pending' AND created_at::timestamptz >= ${holdStart}
+    ) uses
+  `);
+  const row = rows.rows[0];
+  return { total: row?.total ?? 0, byCustomer: row?.by_customer ?? 0 };
+}
+
+// Locks the code and re-checks its limits, so the check and the order holding the use are one step
+// and concurrent orders can't go over the limit; false when the code ran out of uses meanwhile
+async function claimPromoCodeUse(
+  tx: DbTransaction,
+  promoCodeId: number,
+  customer: { userId: string | null; phone: string | null }
+): Promise<boolean> {
+  const [promo] = await tx
+    .select()
+    .from(promoCodesTable)
+    .where(eq(promoCodesTable.id, promoCodeId))
+    .for("update");
+  if (!promo) return false;
+  return getPromoUsageError(promo, await countPromoCodeUses(tx, promoCodeId, customer)) === null;
+}
+
+// Takes up to maxAmount kopecks, never more than the balance; undefined when there's nothing to take
+async function debitWallet(
+  tx: DbTransaction,
+  userId: string,
+  maxAmount: number,
+  description: string,
+  orderId: number | null
+): Promise<WalletTransaction | undefined> {
+  const [user] = await tx
+    .select({ walletBalance: usersTable.walletBalance })
+    .from(usersTable)
+    .where(eq(usersTable.id, userId))
+    .for("update");
+  const amount = Math.min(user?.walletBalance ?? 0, maxAmount);
+  if (amount <= 0) return undefined;
+
+  await tx
+    .update(usersTable)
+    .set({ walletBalance: sql`${usersTable.walletBalance} - ${amount}` })
+    .where(eq(usersTable.id, userId));
+  const [transaction] = await tx
+    .insert(walletTransactionsTable)
+    .values({ userId, type: "purchase", amount: -amount, description, orderId })
+    .returning();
+  return transaction;
+}
+
+// Takes exactly `points` XP, which the quote was priced with; undefined when the user no longer has them
+async function spendXpPoints(
+  tx: DbTransaction,
+  userId: string,
+  points: number,
+  description: string,
+  orderId: number | null
+): Promise<XpTransaction | undefined> {
+  if (points <= 0) return undefined;
+  const [user] = await tx
+    .update(usersTable)
+    .set({
+      xp: sql`${usersTable.xp} - ${points}`,
+      xpPointsSpent: sql`${usersTable.xpPointsSpent} + ${points}`,
+    })
+    .where(and(eq(usersTable.id, userId), gte(usersTable.xp, points)))
+    .returning({ id: usersTable.id });
+  if (!user) return undefined;
+
+  const [transaction] = await tx
+    .insert(xpTransactionsTable)
+    .values({ userId, amount: -points, reason: "points_redemption", description, orderId, createdBy: "system" })
+    .returning();
+  return transaction;
+}
+
 export class DbStorage implements IStorage {
   sessionStore: any;
 
@@ -832,8 +1139,8 @@ export class DbStorage implements IStorage {
     return config;
   }
 
-  async getProducts(): Promise<Product[]> {
-    return await db.select().from(productsTable);
+  async getProducts(options: { publishedOnly?: boolean } = {}): Promise<Product[]> {
+    return await db.select().from(productsTable).where(options.publishedOnly ? isPublished() : undefined);
   }
 
   async getProduct(id: number): Promise<Product | undefined> {
@@ -841,25 +1148,1327 @@ export class DbStorage implements IStorage {
     return product;
   }
 
+  async getProductBySlug(slug: string): Promise<Product | undefined> {
+    const [product] = await db.select().from(productsTable).where(eq(productsTable.slug, slug));
+    return product;
+  }
+
   async createProduct(insertProduct: InsertProduct): Promise<Product> {
-    const [product] = await db.insert(productsTable).values(insertProduct).returning();
+    const slug = await this.getUniqueProductSlug(insertProduct.slug || slugify(insertProduct.name));
+    const [product] = await db.insert(productsTable).values({ ...insertProduct, slug }).returning();
     return product;
   }
 
   async updateProduct(id: number, insertProduct: InsertProduct): Promise<Product | undefined> {
+    // An empty slug keeps the current one, so renaming a product doesn't break shared links
+    const slug = insertProduct.slug ? await this.getUniqueProductSlug(insertProduct.slug, id) : undefined;
     const [product] = await db
       .update(productsTable)
-      .set(insertProduct)
+      .set({ ...insertProduct, slug })
       .where(eq(productsTable.id, id))
       .returning();
     return product;
   }
 
+  // Appends -2, -3... when another product already uses the slug
+  private async getUniqueProductSlug(baseSlug: string, excludeProductId?: number, executor: typeof db | DbTransaction = db): Promise<string> {
+    const taken = await executor
+      .select({ slug: productsTable.slug })
+      .from(productsTable)
+      .where(sql`${productsTable.slug} = ${baseSlug} OR ${productsTable.slug} LIKE ${`${baseSlug}-%`}`);
+    const takenSlugs = new Set(
+      taken
+        .filter(row => row.slug !== null)
+        .map(row => row.slug!)
+    );
+    if (excludeProductId !== undefined) {
+      const [current] = await executor.select().from(productsTable).where(eq(productsTable.id, excludeProductId));
+      if (current?.slug) takenSlugs.delete(current.slug);
+    }
+
+    let slug = baseSlug;
+    for (let suffix = 2; takenSlugs.has(slug); suffix++) {
+      slug = `${baseSlug}-${suffix}`;
+    }
+    return slug;
+  }
+
   async deleteProduct(id: number): Promise<boolean> {
     const result = await db.delete(productsTable).where(eq(productsTable.id, id));
     return result.rowCount ? result.rowCount > 0 : false;
   }
 
+  async updateProductStatus(id: number, status: ProductStatus): Promise<Product | undefined> {
+    const [product] = await db
+      .update(productsTable)
+      .set({ status })
+      .where(eq(productsTable.id, id))
+      .returning();
+    return product;
+  }
+
+  // Product variant methods
+  async getProductVariants(productId: number): Promise<ProductVariant[]> {
+    return await db
+      .select()
+      .from(productVariantsTable)
+      .where(eq(productVariantsTable.productId, productId))
+      .orderBy(asc(productVariantsTable.sortOrder), asc(productVariantsTable.id));
+  }
+
+  async getAllProductVariants(): Promise<ProductVariant[]> {
+    return await db
+      .select()
+      .from(productVariantsTable)
+      .orderBy(asc(productVariantsTable.productId), asc(productVariantsTable.sortOrder), asc(productVariantsTable.id));
+  }
+
+  async getProductVariant(id: number): Promise<ProductVariant | undefined> {
+    const [variant] = await db.select().from(productVariantsTable).where(eq(productVariantsTable.id, id));
+    return variant;
+  }
+
+  async getProductsWithVariants(options: { publishedOnly?: boolean } = {}): Promise<ProductWithVariants[]> {
+    const [allProducts, allVariants, componentsByBundle] = await Promise.all([
+      this.getProducts(options),
+      this.getAllProductVariants(),
+      this.getBundleComponents(db),
+    ]);
+    const variantsByProduct = new Map<number, ProductVariant[]>();
+    for (const variant of allVariants) {
+      const list = variantsByProduct.get(variant.productId) || [];
+      list.push(variant);
+      variantsByProduct.set(variant.productId, list);
+    }
+    return allProducts.map(product => withBundleStock(
+      { ...product, variants: variantsByProduct.get(product.id) || [] },
+      componentsByBundle.get(product.id) || []
+    ));
+  }
+
+  async getProductWithVariants(id: number): Promise<ProductWithVariants | undefined> {
+    const product = await this.getProduct(id);
+    if (!product) return undefined;
+    const components = product.isBundle ? await this.getBundleItems(id) : [];
+    return withBundleStock({ ...product, variants: await this.getProductVariants(id) }, components);
+  }
+
+  async getBundleItems(bundleId: number): Promise<BundleComponent[]> {
+    const componentsByBundle = await this.getBundleComponents(db, bundleId);
+    return componentsByBundle.get(bundleId) || [];
+  }
+
+  async replaceBundleItems(bundleId: number, items: BundleItemInput[]): Promise<BundleItem[]> {
+    return await db.transaction(async (tx) => {
+      await tx.delete(bundleItemsTable).where(eq(bundleItemsTable.bundleId, bundleId));
+      if (items.length === 0) return [];
+      return await tx.insert(bundleItemsTable).values(items.map((item, index) => ({
+        bundleId,
+        productId: item.productId,
+        variantId: item.variantId ?? null,
+        quantity: item.quantity,
+        sortOrder: index,
+      }))).returning();
+    });
+  }
+
+  // Bundle contents with their products and packs, grouped by bundle id
+  private async getBundleComponents(executor: typeof db | DbTransaction, bundleId?: number): Promise<Map<number, BundleComponent[]>> {
+    const rows = await executor
+      .select({ item: bundleItemsTable, product: productsTable, variant: productVariantsTable })
+      .from(bundleItemsTable)
+      .innerJoin(productsTable, eq(bundleItemsTable.productId, productsTable.id))
+      .leftJoin(productVariantsTable, eq(bundleItemsTable.variantId, productVariantsTable.id))
+      .where(bundleId ? eq(bundleItemsTable.bundleId, bundleId) : undefined)
+      .orderBy(asc(bundleItemsTable.sortOrder), asc(bundleItemsTable.id));
+
+    const componentsByBundle = new Map<number, BundleComponent[]>();
+    for (const row of rows) {
+      const list = componentsByBundle.get(row.item.bundleId) || [];
+      list.push({ ...row.item, product: row.product, variant: row.variant });
+      componentsByBundle.set(row.item.bundleId, list);
+    }
+    return componentsByBundle;
+  }
+
+  async searchProducts(query: string, limit: number = 20): Promise<ProductSearchResult[]> {
+    const normalizedQuery = normalizeSearchText(query);
+    const words = normalizedQuery.split(/[^a-zа-я0-9]+/).filter(Boolean);
+    if (words.length === 0) return [];
+
+    // Prefix match on every word so results show up while the customer is still typing
+    const tsQuery = sql`to_tsquery('russian', ${words.map(word => `${word}:*`).join(" & ")})`;
+    const document = sql`
+      setweight(to_tsvector('russian', ${searchable(productsTable.name)}), 'A') ||
+      setweight(to_tsvector('russian', ${searchable(productsTable.teaType)} || ' ' || ${searchable(sql`array_to_string(${productsTable.effects}, ' ')`)}), 'B') ||
+      setweight(to_tsvector('russian', ${searchable(productsTable.description)}), 'C')
+    `;
+    // Trigram similarity catches typos and spellings the stemmer doesn't know ("шен" / "шэн")
+    const similarity = sql`word_similarity(${words.join(" ")}, ${searchable(productsTable.name)} || ' ' || ${searchable(productsTable.teaType)})`;
+    const rank = sql<number>`(ts_rank(${document}, ${tsQuery}) * 2 + ${similarity})::float`;
+    const headlineOptions = "StartSel=<mark>, StopSel=</mark>";
+
+    const rows = await db
+      .select({
+        product: productsTable,
+        rank,
+        nameHighlight: sql<string>`ts_headline('russian', ${searchable(productsTable.name)}, ${tsQuery}, ${`${headlineOptions}, HighlightAll=true`})`,
+        descriptionHighlight: sql<string>`ts_headline('russian', ${searchable(productsTable.description)}, ${tsQuery}, ${`${headlineOptions}, MaxWords=30, MinWords=15, MaxFragments=2`})`,
+      })
+      .from(productsTable)
+      .where(and(isPublished(), or(sql`${document} @@ ${tsQuery}`, sql`${similarity} >= ${SEARCH_SIMILARITY_THRESHOLD}`)))
+      .orderBy(asc(productsTable.outOfStock), desc(rank), asc(productsTable.id))
+      .limit(limit);
+
+    if (rows.length === 0) return [];
+
+    const variants = await db
+      .select()
+      .from(productVariantsTable)
+      .where(inArray(productVariantsTable.productId, rows.map(row => row.product.id)))
+      .orderBy(asc(productVariantsTable.sortOrder), asc(productVariantsTable.id));
+
+    return rows.map(row => ({
+      ...row.product,
+      variants: variants.filter(v => v.productId === row.product.id),
+      rank: Number(row.rank),
+      highlight: {
+        name: restoreHighlight(row.nameHighlight, row.product.name),
+        description: restoreHighlight(row.descriptionHighlight, row.product.description),
+      },
+    }));
+  }
+
+  async replaceProductVariants(productId: number, variants: ProductVariantInput[]): Promise<ProductVariant[]> {
+    return await db.transaction(async (tx) => this.saveProductVariants(tx, productId, variants));
+  }
+
+  // Existing variants keep their ids so cart lines pointing at them survive the edit
+  private async saveProductVariants(tx: DbTransaction, productId: number, variants: ProductVariantInput[]): Promise<ProductVariant[]> {
+    const keepIds = variants.filter(v => v.id).map(v => v.id!);
+
+    if (keepIds.length > 0) {
+      await tx.delete(productVariantsTable).where(and(
+        eq(productVariantsTable.productId, productId),
+        notInArray(productVariantsTable.id, keepIds)
+      ));
+    } else {
+      await tx.delete(productVariantsTable).where(eq(productVariantsTable.productId, productId));
+    }
+
+    const saved: ProductVariant[] = [];
+    for (let index = 0; index < variants.length; index++) {
+      const { id, ...data } = variants[index];
+      const values = { ...data, sku: data.sku || null, productId, sortOrder: data.sortOrder ?? index };
+      if (id) {
+        const [updated] = await tx
+          .update(productVariantsTable)
+          .set(values)
+          .where(and(eq(productVariantsTable.id, id), eq(productVariantsTable.productId, productId)))
+          .returning();
+        if (updated) {
+          saved.push(updated);
+          continue;
+        }
+      }
+      const [created] = await tx.insert(productVariantsTable).values(values).returning();
+      saved.push(created);
+    }
+    return saved;
+  }
+
+  async importProducts(entries: ProductImportEntry[]): Promise<Product[]> {
+    return await db.transaction(async (tx) => {
+      const saved: Product[] = [];
+      for (const entry of entries) {
+        const [before] = entry.productId
+          ? await tx.select().from(productsTable).where(eq(productsTable.id, entry.productId))
+          : [];
+        const variantsBefore = before
+          ? await tx.select().from(productVariantsTable).where(eq(productVariantsTable.productId, before.id))
+          : [];
+
+        let product: Product;
+        if (before) {
+          const slug = entry.product.slug ? await this.getUniqueProductSlug(entry.product.slug, before.id, tx) : undefined;
+          [product] = await tx.update(productsTable)
+            .set({ ...entry.product, slug })
+            .where(eq(productsTable.id, before.id))
+            .returning();
+        } else {
+          const slug = await this.getUniqueProductSlug(entry.product.slug || slugify(entry.product.name), undefined, tx);
+          [product] = await tx.insert(productsTable).values({ ...entry.product, slug }).returning();
+        }
+
+        const variants = entry.variants
+          ? await this.saveProductVariants(tx, product.id, entry.variants)
+          : variantsBefore;
+        const priceEdits = getPriceEdits(before ? { ...before, variants: variantsBefore } : null, { ...product, variants });
+        if (priceEdits.length > 0) {
+          await tx.insert(priceHistoryTable).values(priceEdits.map(edit => ({
+            ...edit,
+            productId: product.id,
+            source: "import",
+            createdBy: "admin",
+          })));
+        }
+        saved.push(product);
+      }
+
+      await this.syncStockAvailability(tx, saved.map(p => p.id));
+      return saved;
+    });
+  }
+
+  async seedProductVariants(): Promise<void> {
+    const allProducts = await this.getProducts();
+    const allVariants = await this.getAllProductVariants();
+    const productsWithVariants = new Set(allVariants.map(v => v.productId));
+    const productsToMigrate = allProducts.filter(p => !productsWithVariants.has(p.id));
+
+    if (productsToMigrate.length === 0) return;
+
+    console.log(`Migrating ${productsToMigrate.length} products to variants...`);
+    for (const product of productsToMigrate) {
+      await db.insert(productVariantsTable).values(
+        buildVariantsFromLegacy(product).map(v => ({ ...v, productId: product.id }))
+      );
+    }
+    console.log('✓ Product variants created from available quantities');
+  }
+
+  async seedProductSlugs(): Promise<void> {
+    const productsWithoutSlug = await db
+      .select()
+      .from(productsTable)
+      .where(isNull(productsTable.slug))
+      .orderBy(asc(productsTable.id));
+
+    if (productsWithoutSlug.length === 0) return;
+
+    console.log(`Generating slugs for ${productsWithoutSlug.length} products...`);
+    for (const product of productsWithoutSlug) {
+      const slug = await this.getUniqueProductSlug(slugify(product.name));
+      await db.update(productsTable).set({ slug }).where(eq(productsTable.id, product.id));
+    }
+    console.log('✓ Product slugs generated');
+  }
+
+  // Inventory methods
+  async deductOrderStock(orderId: number): Promise<StockMovement[]> {
+    return await db.transaction(async (tx) => {
+      // Claim the order first so a repeated webhook can't write off the same order twice
+      const [order] = await tx.update(ordersTable)
+        .set({ stockDeducted: true })
+        .where(and(eq(ordersTable.id, orderId), eq(ordersTable.stockDeducted, false)))
+        .returning();
+      if (!order) return [];
+
+      const items = JSON.parse(order.items) as OrderItem[];
+      const movements: StockMovement[] = [];
+      for (const item of items) {
+        // Bundles are written off from the components recorded in the order line
+        const lines: OrderItem[] = item.bundleItems?.length
+          ? item.bundleItems.map(component => ({
+              id: component.productId,
+              name: component.name,
+              pricePerGram: 0,
+              quantity: component.quantity * item.quantity,
+              variantId: component.variantId,
+            }))
+          : [item];
+        for (const line of lines) {
+          const movement = await this.writeOffOrderItem(tx, line, orderId);
+          if (movement) movements.push(movement);
+        }
+      }
+
+      await this.syncStockAvailability(tx, movements.map(m => m.productId));
+      return movements;
+    });
+  }
+
+  async restoreOrderStock(orderId: number): Promise<StockMovement[]> {
+    return await db.transaction(async (tx) => {
+      const [order] = await tx.update(ordersTable)
+        .set({ stockDeducted: false })
+        .where(and(eq(ordersTable.id, orderId), eq(ordersTable.stockDeducted, true)))
+        .returning();
+      if (!order) return [];
+
+      // Return exactly what was written off for this order, even if its variants changed since
+      const orderMovements = await tx
+        .select()
+        .from(stockMovementsTable)
+        .where(eq(stockMovementsTable.orderId, orderId));
+
+      const netByStock = new Map<string, { productId: number; variantId: number | null; delta: number }>();
+      for (const movement of orderMovements) {
+        const key = `${movement.productId}:${movement.variantId ?? ""}`;
+        const entry = netByStock.get(key) || { productId: movement.productId, variantId: movement.variantId, delta: 0 };
+        entry.delta += movement.delta;
+        netByStock.set(key, entry);
+      }
+
+      const movements: StockMovement[] = [];
+      for (const entry of Array.from(netByStock.values())) {
+        if (entry.delta >= 0) continue;
+        const movement = await this.applyStockDelta(tx, entry.productId, entry.variantId, -entry.delta, "order_cancelled", orderId);
+        if (movement) movements.push(movement);
+      }
+
+      await this.syncStockAvailability(tx, movements.map(m => m.productId));
+      return movements;
+    });
+  }
+
+  async adjustStock(productId: number, adjustment: StockAdjustment, createdBy: string): Promise<StockMovement | undefined> {
+    return await db.transaction(async (tx) => {
+      const movement = await this.applyStockDelta(
+        tx,
+        productId,
+        adjustment.variantId ?? null,
+        adjustment.delta,
+        adjustment.reason,
+        null,
+        adjustment.comment ?? null,
+        createdBy
+      );
+      if (movement) {
+        await this.syncStockAvailability(tx, [productId]);
+      }
+      return movement;
+    });
+  }
+
+  async createStockMovement(movement: InsertStockMovement): Promise<StockMovement> {
+    const [created] = await db.insert(stockMovementsTable).values(movement).returning();
+    return created;
+  }
+
+  async getStockMovements(productId?: number, limit: number = 200): Promise<Array<StockMovement & { productName: string; variantName: string | null }>> {
+    const rows = await db
+      .select({
+        movement: stockMovementsTable,
+        productName: productsTable.name,
+        variantName: productVariantsTable.name,
+      })
+      .from(stockMovementsTable)
+      .innerJoin(productsTable, eq(stockMovementsTable.productId, productsTable.id))
+      .leftJoin(productVariantsTable, eq(stockMovementsTable.variantId, productVariantsTable.id))
+      .where(productId ? eq(stockMovementsTable.productId, productId) : undefined)
+      .orderBy(desc(stockMovementsTable.id))
+      .limit(limit);
+
+    return rows.map(row => ({ ...row.movement, productName: row.productName, variantName: row.variantName }));
+  }
+
+  async syncProductAvailability(productId: number): Promise<void> {
+    await db.transaction(async (tx) => {
+      await this.syncStockAvailability(tx, [productId]);
+    });
+  }
+
+  // Price methods
+  async createPriceHistory(entries: InsertPriceHistoryEntry[]): Promise<PriceHistoryEntry[]> {
+    if (entries.length === 0) return [];
+    return await db.insert(priceHistoryTable).values(entries).returning();
+  }
+
+  async getPriceHistory(productId: number): Promise<PriceHistoryEntry[]> {
+    return await db
+      .select()
+      .from(priceHistoryTable)
+      .where(eq(priceHistoryTable.productId, productId))
+      .orderBy(asc(priceHistoryTable.id));
+  }
+
+  async getScheduledPriceChanges(productId: number): Promise<ScheduledPriceChange[]> {
+    return await db
+      .select()
+      .from(scheduledPriceChangesTable)
+      .where(and(eq(scheduledPriceChangesTable.productId, productId), eq(scheduledPriceChangesTable.status, "pending")))
+      .orderBy(asc(scheduledPriceChangesTable.effectiveAt));
+  }
+
+  async createScheduledPriceChange(productId: number, change: ScheduledPriceChangeInput, createdBy: string): Promise<ScheduledPriceChange> {
+    const [created] = await db.insert(scheduledPriceChangesTable).values({
+      productId,
+      variantId: change.variantId ?? null,
+      price: change.price,
+      effectiveAt: change.effectiveAt,
+      createdBy,
+    }).returning();
+    return created;
+  }
+
+  async cancelScheduledPriceChange(id: number): Promise<ScheduledPriceChange | undefined> {
+    const [cancelled] = await db.update(scheduledPriceChangesTable)
+      .set({ status: "cancelled" })
+      .where(and(eq(scheduledPriceChangesTable.id, id), eq(scheduledPriceChangesTable.status, "pending")))
+      .returning();
+    return cancelled;
+  }
+
+  async applyDueScheduledPriceChanges(): Promise<ScheduledPriceChange[]> {
+    return await db.transaction(async (tx) => {
+      // Claim due changes first so two app instances can't apply the same change twice.
+      // effectiveAt is always stored as an ISO string in UTC, so string comparison follows time order.
+      const now = new Date().toISOString();
+      const due = await tx.update(scheduledPriceChangesTable)
+        .set({ status: "applied", appliedAt: now })
+        .where(and(eq(scheduledPriceChangesTable.status, "pending"), lte(scheduledPriceChangesTable.effectiveAt, now)))
+        .returning();
+
+      const applied: ScheduledPriceChange[] = [];
+      for (const change of due.sort((a, b) => a.effectiveAt.localeCompare(b.effectiveAt) || a.id - b.id)) {
+        let oldPrice: number;
+        let variantName: string | null = null;
+        if (change.variantId) {
+          const [variant] = await tx.select().from(productVariantsTable)
+            .where(and(eq(productVariantsTable.id, change.variantId), eq(productVariantsTable.productId, change.productId)));
+          if (!variant) continue;
+          oldPrice = variant.price;
+          variantName = variant.name;
+          await tx.update(productVariantsTable).set({ price: change.price }).where(eq(productVariantsTable.id, variant.id));
+        } else {
+          const [product] = await tx.select().from(productsTable).where(eq(productsTable.id, change.productId));
+          if (!product) continue;
+          oldPrice = product.pricePerGram;
+          await tx.update(productsTable).set({ pricePerGram: change.price }).where(eq(productsTable.id, product.id));
+        }
+
+        if (oldPrice !== change.price) {
+          await tx.insert(priceHistoryTable).values({
+            productId: change.productId,
+            variantId: change.variantId,
+            variantName,
+            oldPrice,
+            newPrice: change.price,
+            source: "scheduled",
+            createdBy: "system",
+          });
+        }
+        applied.push(change);
+      }
+      return applied;
+    });
+  }
+
+  // Back-in-stock subscription methods
+  async createStockSubscription(subscription: InsertStockSubscription): Promise<StockSubscription> {
+    // Subscribing twice to the same product keeps the original subscription
+    const [created] = await db.insert(stockSubscriptionsTable).values(subscription).onConflictDoNothing().returning();
+    if (created) return created;
+    const [existing] = await db.select().from(stockSubscriptionsTable).where(and(
+      eq(stockSubscriptionsTable.productId, subscription.productId),
+      eq(stockSubscriptionsTable.channel, subscription.channel),
+      eq(stockSubscriptionsTable.contact, subscription.contact),
+      isNull(stockSubscriptionsTable.notifiedAt)
+    ));
+    return existing;
+  }
+
+  // Waiting subscriptions whose product is visible and back in stock
+  async getDueStockSubscriptions(maxAttempts: number): Promise<Array<{ subscription: StockSubscription; product: Product }>> {
+    return await db
+      .select({ subscription: stockSubscriptionsTable, product: productsTable })
+      .from(stockSubscriptionsTable)
+      .innerJoin(productsTable, eq(stockSubscriptionsTable.productId, productsTable.id))
+      .where(and(
+        isNull(stockSubscriptionsTable.notifiedAt),
+        sql`${stockSubscriptionsTable.attempts} < ${maxAttempts}`,
+        eq(productsTable.outOfStock, false),
+        isPublished()
+      ))
+      .orderBy(asc(stockSubscriptionsTable.id));
+  }
+
+  async markStockSubscriptionNotified(id: number): Promise<void> {
+    await db.update(stockSubscriptionsTable)
+      .set({ notifiedAt: new Date().toISOString() })
+      .where(eq(stockSubscriptionsTable.id, id));
+  }
+
+  async recordStockSubscriptionFailure(id: number): Promise<void> {
+    await db.update(stockSubscriptionsTable)
+      .set({ attempts: sql`${stockSubscriptionsTable.attempts} + 1` })
+      .where(eq(stockSubscriptionsTable.id, id));
+  }
+
+  async getStockSubscriptionCounts(): Promise<Record<number, number>> {
+    const rows = await db
+      .select({ productId: stockSubscriptionsTable.productId, count: sql<number>`COUNT(*)::int` })
+      .from(stockSubscriptionsTable)
+      .where(isNull(stockSubscriptionsTable.notifiedAt))
+      .groupBy(stockSubscriptionsTable.productId);
+    return Object.fromEntries(rows.map(row => [row.productId, row.count]));
+  }
+
+  // "Bought together" methods
+  // Distinct products of every paid order
+  async getPurchaseBaskets(): Promise<number[][]> {
+    const rows = await db
+      .select({ items: ordersTable.items })
+      .from(ordersTable)
+      .where(inArray(ordersTable.status, ["paid", "completed"]));
+    const baskets: number[][] = [];
+    for (const row of rows) {
+      try {
+        const items = JSON.parse(row.items) as OrderItem[];
+        baskets.push(Array.from(new Set(items.map(item => item.id))));
+      } catch (error) {
+        console.error("[Recommendations] Failed to parse order items:", error);
+      }
+    }
+    return baskets;
+  }
+
+  // Distinct products each customer currently holds in the site and Telegram carts
+  async getCartBaskets(): Promise<number[][]> {
+    const rows = await db.execute<{ user_id: string; product_ids: number[] }>(sql`
+      SELECT user_id, ARRAY_AGG(DISTINCT product_id) AS product_ids
+      FROM (
+        SELECT user_id, product_id FROM cart_items
+        UNION ALL
+        SELECT user_id, product_id FROM telegram_cart
+      ) carts
+      GROUP BY user_id
+    `);
+    return rows.rows.map(row => row.product_ids);
+  }
+
+  async replaceProductAssociations(associations: InsertProductAssociation[]): Promise<void> {
+    const updatedAt = new Date().toISOString();
+    await db.transaction(async (tx) => {
+      await tx.delete(productAssociationsTable);
+      // Chunked to stay well under the bind parameter limit
+      for (let i = 0; i < associations.length; i += 500) {
+        await tx.insert(productAssociationsTable).values(
+          associations.slice(i, i + 500).map(association => ({ ...association, updatedAt }))
+        );
+      }
+    });
+  }
+
+  async getProductAssociations(productIds: number[]): Promise<ProductAssociation[]> {
+    if (productIds.length === 0) return [];
+    return await db
+      .select()
+      .from(productAssociationsTable)
+      .where(inArray(productAssociationsTable.productId, productIds))
+      .orderBy(desc(productAssociationsTable.score));
+  }
+
+  // Products in the most paid orders over the last 90 days
+  async getBestsellerProductIds(limit: number): Promise<number[]> {
+    const since = new Date(Date.now() - 90 * 24 * 60 * 60 * 1000).toISOString();
+    const rows = await db.execute<{ product_id: number; order_count: number }>(sql`
+      SELECT CAST(oi->>'id' AS INTEGER) AS product_id, COUNT(DISTINCT o.id)::int AS order_count
+      FROM orders o,
+      LATERAL json_array_elements(o.items::json) AS oi
+      WHERE o.status IN ('paid', 'completed') AND o.created_at >= ${since}
+      GROUP BY product_id
+      ORDER BY order_count DESC, product_id ASC
+      LIMIT ${limit}
+    `);
+    return rows.rows.map(row => row.product_id);
+  }
+
+  // Favourite methods
+  // Newest first
+  async getFavoriteProductIds(userId: string): Promise<number[]> {
+    const rows = await db
+      .select({ productId: favoritesTable.productId })
+      .from(favoritesTable)
+      .where(eq(favoritesTable.userId, userId))
+      .orderBy(desc(favoritesTable.id));
+    return rows.map(row => row.productId);
+  }
+
+  // Archived and unpublished products stay in the list but aren't shown
+  async getFavoriteProducts(userId: string): Promise<ProductWithVariants[]> {
+    const ids = await this.getFavoriteProductIds(userId);
+    if (ids.length === 0) return [];
+    const products = await this.getProductsWithVariants({ publishedOnly: true });
+    const byId = new Map(products.map(product => [product.id, product]));
+    return ids.flatMap(id => byId.get(id) ?? []);
+  }
+
+  async addFavorites(userId: string, productIds: number[]): Promise<void> {
+    if (productIds.length === 0) return;
+    const existing = await db
+      .select({ id: productsTable.id })
+      .from(productsTable)
+      .where(inArray(productsTable.id, productIds));
+    if (existing.length === 0) return;
+    await db.insert(favoritesTable)
+      .values(existing.map(product => ({ userId, productId: product.id })))
+      .onConflictDoNothing();
+  }
+
+  async removeFavorite(userId: string, productId: number): Promise<boolean> {
+    const deleted = await db.delete(favoritesTable)
+      .where(and(eq(favoritesTable.userId, userId), eq(favoritesTable.productId, productId)))
+      .returning();
+    return deleted.length > 0;
+  }
+
+  // Promo code methods
+  async getPromoCodes(): Promise<PromoCode[]> {
+    return await db.select().from(promoCodesTable).orderBy(desc(promoCodesTable.id));
+  }
+
+  // Codes are stored uppercase, callers pass the normalized code
+  async getPromoCodeByCode(code: string): Promise<PromoCode | undefined> {
+    const [promo] = await db.select().from(promoCodesTable).where(eq(promoCodesTable.code, code));
+    return promo;
+  }
+
+  async createPromoCode(data: PromoCodeInput): Promise<PromoCode> {
+    const [promo] = await db.insert(promoCodesTable).values(data).returning();
+    return promo;
+  }
+
+  async updatePromoCode(id: number, data: PromoCodeInput): Promise<PromoCode | undefined> {
+    const [promo] = await db.update(promoCodesTable).set(data).where(eq(promoCodesTable.id, id)).returning();
+    return promo;
+  }
+
+  async deletePromoCode(id: number): Promise<boolean> {
+    const deleted = await db.delete(promoCodesTable).where(eq(promoCodesTable.id, id)).returning();
+    return deleted.length > 0;
+  }
+
+  async getPromoCodeUsage(promoCodeId: number, customer: { userId: string | null; phone: string | null }): Promise<PromoUsage> {
+    return await countPromoCodeUses(db, promoCodeId, customer);
+  }
+
+  // Paid and completed orders only: the report is about money actually received
+  async getPromoCodeStats(): Promise<PromoCodeStats[]> {
+    const rows = await db
+      .select({
+        promoCodeId: ordersTable.promoCodeId,
+        orderCount: sql<number>`COUNT(*)::int`,
+        discountTotal: sql<number>`COALESCE(SUM(${ordersTable.promoDiscount}), 0)::float`,
+        revenue: sql<number>`COALESCE(SUM(${ordersTable.total}), 0)::float`,
+      })
+      .from(ordersTable)
+      .where(and(isNotNull(ordersTable.promoCodeId), inArray(ordersTable.status, ["paid", "completed"])))
+      .groupBy(ordersTable.promoCodeId);
+    return rows.map(row => ({
+      promoCodeId: row.promoCodeId!,
+      orderCount: Number(row.orderCount),
+      discountTotal: Number(row.discountTotal),
+      revenue: Number(row.revenue),
+    }));
+  }
+
+  // Sale campaign methods
+  async getSaleCampaigns(): Promise<SaleCampaign[]> {
+    return await db.select().from(saleCampaignsTable).orderBy(desc(saleCampaignsTable.startsAt));
+  }
+
+  async createSaleCampaign(data: SaleCampaignInput): Promise<SaleCampaign> {
+    const [campaign] = await db.insert(saleCampaignsTable).values(data).returning();
+    return campaign;
+  }
+
+  async updateSaleCampaign(id: number, data: SaleCampaignInput): Promise<SaleCampaign | undefined> {
+    const [campaign] = await db.update(saleCampaignsTable).set(data).where(eq(saleCampaignsTable.id, id)).returning();
+    return campaign;
+  }
+
+  async deleteSaleCampaign(id: number): Promise<boolean> {
+    const deleted = await db.delete(saleCampaignsTable).where(eq(saleCampaignsTable.id, id)).returning();
+    return deleted.length > 0;
+  }
+
+  // Gift certificate methods
+  async getGiftCertificates(): Promise<GiftCertificate[]> {
+    return await db.select().from(giftCertificatesTable).orderBy(desc(giftCertificatesTable.id));
+  }
+
+  async getGiftCertificateByCode(code: string): Promise<GiftCertificate | undefined> {
+    const [certificate] = await db.select().from(giftCertificatesTable).where(eq(giftCertificatesTable.code, code));
+    return certificate;
+  }
+
+  async createGiftCertificate(data: InsertGiftCertificate): Promise<GiftCertificate> {
+    const [certificate] = await db.insert(giftCertificatesTable).values(data).returning();
+    return certificate;
+  }
+
+  // Pending -> active once paid; undefined for repeated payment notifications
+  async activateGiftCertificate(id: number, paymentId: string): Promise<GiftCertificate | undefined> {
+    const [certificate] = await db
+      .update(giftCertificatesTable)
+      .set({ status: "active", paymentId, paidAt: new Date().toISOString() })
+      .where(and(eq(giftCertificatesTable.id, id), eq(giftCertificatesTable.status, "pending")))
+      .returning();
+    return certificate;
+  }
+
+  async cancelGiftCertificate(id: number): Promise<GiftCertificate | undefined> {
+    const [certificate] = await db
+      .update(giftCertificatesTable)
+      .set({ status: "cancelled" })
+      .where(and(eq(giftCertificatesTable.id, id), inArray(giftCertificatesTable.status, ["pending", "active"])))
+      .returning();
+    return certificate;
+  }
+
+  // Marks the certificate redeemed and credits the wallet in one transaction; the status
+  // condition makes a second redemption of the same code a no-op
+  async redeemGiftCertificate(code: string, userId: string): Promise<GiftCertificate | undefined> {
+    return await db.transaction(async (tx) => {
+      const now = new Date().toISOString();
+      const [certificate] = await tx
+        .update(giftCertificatesTable)
+        .set({ status: "redeemed", redeemedBy: userId, redeemedAt: now })
+        .where(and(
+          eq(giftCertificatesTable.code, code),
+          eq(giftCertificatesTable.status, "active"),
+          gt(giftCertificatesTable.expiresAt, now),
+        ))
+        .returning();
+      if (!certificate) return undefined;
+
+      await tx
+        .update(usersTable)
+        .set({ walletBalance: sql`${usersTable.walletBalance} + ${certificate.amount}` })
+        .where(eq(usersTable.id, userId));
+      await tx.insert(walletTransactionsTable).values({
+        userId,
+        type: "gift_certificate",
+        amount: certificate.amount,
+        description: `Подарочный сертификат ${certificate.code}`,
+      });
+      return certificate;
+    });
+  }
+
+  // Wallet checkout methods
+  async payOrderFromWallet(orderId: number, userId: string, maxAmount: number): Promise<number> {
+    return await db.transaction(async (tx) => {
+      const transaction = await debitWallet(tx, userId, maxAmount, `Оплата заказа #${orderId}`, orderId);
+      if (!transaction) return 0;
+      await tx.update(ordersTable).set({ walletAmount: -transaction.amount }).where(eq(ordersTable.id, orderId));
+      return -transaction.amount;
+    });
+  }
+
+  // Bot orders only become real orders once paid, so the debit is linked to the pending order for now
+  async reserveWalletForTelegramOrder(pendingOrderId: number, userId: string, maxAmount: number): Promise<PendingTelegramOrder | undefined> {
+    return await db.transaction(async (tx) => {
+      const transaction = await debitWallet(tx, userId, maxAmount, "Оплата заказа в Telegram", null);
+      if (!transaction) return undefined;
+      const [pendingOrder] = await tx
+        .update(pendingTelegramOrdersTable)
+        .set({ walletAmount: -transaction.amount, walletTransactionId: transaction.id })
+        .where(eq(pendingTelegramOrdersTable.id, pendingOrderId))
+        .returning();
+      return pendingOrder;
+    });
+  }
+
+  async linkWalletTransactionToOrder(transactionId: number, orderId: number): Promise<void> {
+    await db
+      .update(walletTransactionsTable)
+      .set({ orderId, description: `Оплата заказа #${orderId}` })
+      .where(eq(walletTransactionsTable.id, transactionId));
+  }
+
+  // Returns whatever the order still holds from the wallet; safe to call on every cancellation
+  async refundOrderWallet(orderId: number): Promise<number> {
+    return await db.transaction(async (tx) => {
+      const [first] = await tx
+        .select({ userId: walletTransactionsTable.userId })
+        .from(walletTransactionsTable)
+        .where(eq(walletTransactionsTable.orderId, orderId))
+        .limit(1);
+      if (!first) return 0;
+
+      // Lock the balance first, so two cancellations can't both see the debit unrefunded
+      await tx.select({ id: usersTable.id }).from(usersTable).where(eq(usersTable.id, first.userId)).for("update");
+      const [{ net }] = await tx
+        .select({ net: sql<number>`COALESCE(SUM(${walletTransactionsTable.amount}), 0)::int` })
+        .from(walletTransactionsTable)
+        .where(and(
+          eq(walletTransactionsTable.orderId, orderId),
+          inArray(walletTransactionsTable.type, ["purchase", "refund"]),
+        ));
+      if (net >= 0) return 0;
+
+      await tx
+        .update(usersTable)
+        .set({ walletBalance: sql`${usersTable.walletBalance} + ${-net}` })
+        .where(eq(usersTable.id, first.userId));
+      await tx.insert(walletTransactionsTable).values({
+        userId: first.userId,
+        type: "refund",
+        amount: -net,
+        description: `Возврат по заказу #${orderId}`,
+        orderId,
+      });
+      return -net;
+    });
+  }
+
+  // Abandoned bot payment: the pending order is closed and its wallet part and points returned, once
+  async cancelPendingTelegramOrder(pendingOrderId: number): Promise<PendingTelegramOrder | undefined> {
+    return await db.transaction(async (tx) => {
+      const [pendingOrder] = await tx
+        .update(pendingTelegramOrdersTable)
+        .set({ status: "cancelled" })
+        .where(and(eq(pendingTelegramOrdersTable.id, pendingOrderId), eq(pendingTelegramOrdersTable.status, "pending")))
+        .returning();
+      if (!pendingOrder) return undefined;
+
+      if (pendingOrder.walletAmount > 0) {
+        await tx
+          .update(usersTable)
+          .set({ walletBalance: sql`${usersTable.walletBalance} + ${pendingOrder.walletAmount}` })
+          .where(eq(usersTable.id, pendingOrder.userId));
+        await tx.insert(walletTransactionsTable).values({
+          userId: pendingOrder.userId,
+          type: "refund",
+          amount: pendingOrder.walletAmount,
+          description: "Возврат: заказ в Telegram не оплачен",
+        });
+      }
+      if (pendingOrder.xpPoints > 0) {
+        await tx
+          .update(usersTable)
+          .set({
+            xp: sql`${usersTable.xp} + ${pendingOrder.xpPoints}`,
+            xpPointsSpent: sql`GREATEST(${usersTable.xpPointsSpent} - ${pendingOrder.xpPoints}, 0)`,
+          })
+          .where(eq(usersTable.id, pendingOrder.userId));
+        await tx.insert(xpTransactionsTable).values({
+          userId: pendingOrder.userId,
+          amount: pendingOrder.xpPoints,
+          reason: "points_refund",
+          description: "Возврат баллов: заказ в Telegram не оплачен",
+          createdBy: "system",
+        });
+      }
+      return pendingOrder;
+    });
+  }
+
+  // XP points redemption
+  async spendOrderXpPoints(orderId: number, userId: string, points: number): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      const transaction = await spendXpPoints(tx, userId, points, `Баллы за заказ #${orderId}`, orderId);
+      if (!transaction) return false;
+      await tx.update(ordersTable).set({ xpPointsSpent: points }).where(eq(ordersTable.id, orderId));
+      return true;
+    });
+  }
+
+  async reserveXpPointsForTelegramOrder(pendingOrderId: number, userId: string, points: number): Promise<PendingTelegramOrder | undefined> {
+    return await db.transaction(async (tx) => {
+      const transaction = await spendXpPoints(tx, userId, points, "Баллы за заказ в Telegram", null);
+      if (!transaction) return undefined;
+      const [pendingOrder] = await tx
+        .update(pendingTelegramOrdersTable)
+        .set({ xpPoints: points, xpTransactionId: transaction.id })
+        .where(eq(pendingTelegramOrdersTable.id, pendingOrderId))
+        .returning();
+      return pendingOrder;
+    });
+  }
+
+  async linkXpTransactionToOrder(transactionId: number, orderId: number): Promise<void> {
+    await db
+      .update(xpTransactionsTable)
+      .set({ orderId, description: `Баллы за заказ #${orderId}` })
+      .where(eq(xpTransactionsTable.id, transactionId));
+  }
+
+  // Returns the points the order still holds; safe to call on every cancellation like refundOrderWallet
+  async refundOrderXpPoints(orderId: number): Promise<number> {
+    return await db.transaction(async (tx) => {
+      const [first] = await tx
+        .select({ userId: xpTransactionsTable.userId })
+        .from(xpTransactionsTable)
+        .where(and(eq(xpTransactionsTable.orderId, orderId), eq(xpTransactionsTable.reason, "points_redemption")))
+        .limit(1);
+      if (!first) return 0;
+
+      await tx.select({ id: usersTable.id }).from(usersTable).where(eq(usersTable.id, first.userId)).for("update");
+      const [{ net }] = await tx
+        .select({ net: sql<number>`COALESCE(SUM(${xpTransactionsTable.amount}), 0)::int` })
+        .from(xpTransactionsTable)
+        .where(and(
+          eq(xpTransactionsTable.orderId, orderId),
+          inArray(xpTransactionsTable.reason, ["points_redemption", "points_refund"]),
+        ));
+      if (net >= 0) return 0;
+
+      await tx
+        .update(usersTable)
+        .set({
+          xp: sql`${usersTable.xp} + ${-net}`,
+          xpPointsSpent: sql`GREATEST(${usersTable.xpPointsSpent} - ${-net}, 0)`,
+        })
+        .where(eq(usersTable.id, first.userId));
+      await tx.insert(xpTransactionsTable).values({
+        userId: first.userId,
+        amount: -net,
+        reason: "points_refund",
+        description: `Возврат баллов по заказу #${orderId}`,
+        orderId,
+        createdBy: "system",
+      });
+      return -net;
+    });
+  }
+
+  // Referral methods
+  async getUserByReferralCode(code: string): Promise<User | undefined> {
+    const [user] = await db.select().from(usersTable).where(eq(usersTable.referralCode, code));
+    return user;
+  }
+
+  // A code, once issued, never changes: links already shared keep working
+  async setUserReferralCode(userId: string, code: string): Promise<User | undefined> {
+    const [user] = await db
+      .update(usersTable)
+      .set({ referralCode: code })
+      .where(and(eq(usersTable.id, userId), isNull(usersTable.referralCode)))
+      .returning();
+    return user;
+  }
+
+  async createReferral(referrerId: string, refereeId: string): Promise<Referral> {
+    const [referral] = await db.insert(referralsTable).values({ referrerId, refereeId }).returning();
+    return referral;
+  }
+
+  async getReferralsByReferrer(referrerId: string): Promise<Referral[]> {
+    return await db
+      .select()
+      .from(referralsTable)
+      .where(eq(referralsTable.referrerId, referrerId))
+      .orderBy(desc(referralsTable.id));
+  }
+
+  async getReferrals(): Promise<AdminReferral[]> {
+    const referee = alias(usersTable, "referee");
+    const rows = await db
+      .select({
+        referral: referralsTable,
+        referrerName: usersTable.name,
+        referrerPhone: usersTable.phone,
+        refereeName: referee.name,
+        refereePhone: referee.phone,
+      })
+      .from(referralsTable)
+      .innerJoin(usersTable, eq(referralsTable.referrerId, usersTable.id))
+      .innerJoin(referee, eq(referralsTable.refereeId, referee.id))
+      .orderBy(desc(referralsTable.id));
+    return rows.map(({ referral, ...names }) => ({ ...referral, ...names }));
+  }
+
+  // Pays both sides in one transaction; the status condition makes it happen once per referee
+  async rewardReferral(refereeId: string, orderId: number, rewards: ReferralRewards): Promise<Referral | undefined> {
+    return await db.transaction(async (tx) => {
+      // Wallet bonuses are configured in rubles and kept in kopecks like the balance
+      const scale = rewards.type === "wallet" ? 100 : 1;
+      const [referral] = await tx
+        .update(referralsTable)
+        .set({
+          status: "rewarded",
+          orderId,
+          rewardType: rewards.type,
+          referrerReward: rewards.referrer * scale,
+          refereeReward: rewards.referee * scale,
+          rewardedAt: new Date().toISOString(),
+        })
+        .where(and(eq(referralsTable.refereeId, refereeId), eq(referralsTable.status, "registered")))
+        .returning();
+      if (!referral) return undefined;
+
+      const payouts = [
+        { userId: referral.referrerId, amount: referral.referrerReward, description: `Бонус за приглашённого друга (заказ #${orderId})` },
+        { userId: referral.refereeId, amount: referral.refereeReward, description: `Бонус за первый заказ по приглашению (заказ #${orderId})` },
+      ];
+      for (const payout of payouts) {
+        if (payout.amount <= 0) continue;
+        if (rewards.type === "wallet") {
+          await tx
+            .update(usersTable)
+            .set({ walletBalance: sql`${usersTable.walletBalance} + ${payout.amount}` })
+            .where(eq(usersTable.id, payout.userId));
+          await tx.insert(walletTransactionsTable).values({ ...payout, type: "referral", orderId });
+        } else {
+          await tx
+            .update(usersTable)
+            .set({ xp: sql`${usersTable.xp} + ${payout.amount}` })
+            .where(eq(usersTable.id, payout.userId));
+          await tx.insert(xpTransactionsTable).values({ ...payout, reason: "referral", orderId, createdBy: "system" });
+        }
+      }
+      return referral;
+    });
+  }
+
+  // XP policy methods
+  // Earnings that count towards expiration and rolling levels; returned points are old XP coming back
+  async getXpAccruals(since: string, userId?: string): Promise<Array<{ userId: string; amount: number; createdAt: string }>> {
+    return await db
+      .select({ userId: xpTransactionsTable.userId, amount: xpTransactionsTable.amount, createdAt: xpTransactionsTable.createdAt })
+      .from(xpTransactionsTable)
+      .where(and(
+        gt(xpTransactionsTable.amount, 0),
+        ne(xpTransactionsTable.reason, "points_refund"),
+        sql`${xpTransactionsTable.createdAt}::timestamptz >= ${since}::timestamptz`,
+        userId ? eq(xpTransactionsTable.userId, userId) : undefined
+      ))
+      .orderBy(asc(xpTransactionsTable.createdAt));
+  }
+
+  async getUsersWithXp(): Promise<User[]> {
+    return await db.select().from(usersTable).where(or(gt(usersTable.xp, 0), gt(usersTable.xpPointsSpent, 0), gt(usersTable.levelXp, 0)));
+  }
+
+  // Never takes the balance below zero: points spent since the amount was worked out are not taken twice
+  async expireUserXp(userId: string, amount: number, description: string): Promise<XpTransaction | undefined> {
+    if (amount <= 0) return undefined;
+    return await db.transaction(async (tx) => {
+      const [user] = await tx.select().from(usersTable).where(eq(usersTable.id, userId)).for("update");
+      const expired = Math.min(amount, user?.xp ?? 0);
+      if (expired <= 0) return undefined;
+      await tx
+        .update(usersTable)
+        .set({ xp: sql`${usersTable.xp} - ${expired}` })
+        .where(eq(usersTable.id, userId));
+      const [transaction] = await tx
+        .insert(xpTransactionsTable)
+        .values({ userId, amount: -expired, reason: "expiration", description, createdBy: "system" })
+        .returning();
+      return transaction;
+    });
+  }
+
+  // Spent points stop counting towards the level like the balance expires; no transaction, the balance is not touched
+  async expireUserPointsSpent(userId: string, amount: number): Promise<void> {
+    if (amount <= 0) return;
+    await db
+      .update(usersTable)
+      .set({ xpPointsSpent: sql`GREATEST(${usersTable.xpPointsSpent} - ${amount}, 0)` })
+      .where(eq(usersTable.id, userId));
+  }
+
+  // XP earned since `since` becomes every user's level XP; null goes back to levels by balance
+  async refreshLevelXp(since: string | null): Promise<void> {
+    if (since === null) {
+      await db.update(usersTable).set({ levelXp: null }).where(isNotNull(usersTable.levelXp));
+      return;
+    }
+    await db.update(usersTable).set({
+      levelXp: sql`COALESCE((
+        SELECT SUM(${xpTransactionsTable.amount}) FROM ${xpTransactionsTable}
+        WHERE ${xpTransactionsTable.userId} = ${usersTable.id}
+          AND ${xpTransactionsTable.amount} > 0
+          AND ${xpTransactionsTable.reason} <> 'points_refund'
+          AND ${xpTransactionsTable.createdAt}::timestamptz >= ${since}::timestamptz
+      ), 0)`,
+    });
+  }
+
+  async markXpExpiryWarned(userId: string): Promise<void> {
+    await db.update(usersTable).set({ xpExpiryWarnedAt: new Date().toISOString() }).where(eq(usersTable.id, userId));
+  }
+
+  // Review methods
+  async getProductReviews(productId: number): Promise<PublicProductReview[]> {
+    const rows = await db
+      .select({
+        review: productReviewsTable,
+        authorName: usersTable.name,
+      })
+      .from(productReviewsTable)
+      .innerJoin(usersTable, eq(productReviewsTable.userId, usersTable.id))
+      .where(and(eq(productReviewsTable.productId, productId), eq(productReviewsTable.status, "approved")))
+      .orderBy(desc(productReviewsTable.createdAt));
+
+    // Only the first name is public
+    return rows.map(({ review, authorName }) => ({
+      id: review.id,
+      productId: review.productId,
+      rating: review.rating,
+      text: review.text,
+      photo: review.photo,
+      createdAt: review.createdAt,
+      authorName: authorName?.trim().split(/\s+/)[0] || "Покупатель",
+    }));
+  }
+
+  async getProductRatingSummaries(): Promise<Record<number, ProductRatingSummary>> {
+    const rows = await db
+      .select({
+        productId: productReviewsTable.productId,
+        average: sql<number>`AVG(${productReviewsTable.rating})::float`,
+        count: sql<number>`COUNT(*)::int`,
+      })
+      .from(productReviewsTable)
+      .where(eq(productReviewsTable.status, "approved"))
+      .groupBy(productReviewsTable.productId);
+
+    const summaries: Record<number, ProductRatingSummary> = {};
+    for (const row of rows) {
+      summaries[row.productId] = { average: Math.round(Number(row.average) * 10) / 10, count: Number(row.count) };
+    }
+    return summaries;
+  }
+
+  async getReviewEligibility(userId: string, productId: number): Promise<ReviewEligibility> {
+    const [existing] = await db
+      .select()
+      .from(productReviewsTable)
+      .where(and(eq(productReviewsTable.userId, userId), eq(productReviewsTable.productId, productId)));
+    if (existing) {
+      return { canReview: false, reason: "already_reviewed", review: existing };
+    }
+
+    const completedOrders = await db
+      .select()
+      .from(ordersTable)
+      .where(and(eq(ordersTable.userId, userId), eq(ordersTable.status, "completed")))
+      .orderBy(desc(ordersTable.id));
+
+    for (const order of completedOrders) {
+      const items = JSON.parse(order.items) as OrderItem[];
+      if (items.some(item => item.id === productId)) {
+        return { canReview: true, orderId: order.id };
+      }
+    }
+    return { canReview: false, reason: "not_purchased" };
+  }
+
+  async createProductReview(review: { productId: number; userId: string; orderId: number; rating: number; text: string; photo: string | null }): Promise<ProductReview> {
+    const [created] = await db.insert(productReviewsTable).values(review).returning();
+    return created;
+  }
+
+  async getReviewsForModeration(status?: ReviewStatus): Promise<AdminProductReview[]> {
+    const rows = await db
+      .select({
+        review: productReviewsTable,
+        authorName: usersTable.name,
+        authorPhone: usersTable.phone,
+        productName: productsTable.name,
+      })
+      .from(productReviewsTable)
+      .innerJoin(usersTable, eq(productReviewsTable.userId, usersTable.id))
+      .innerJoin(productsTable, eq(productReviewsTable.productId, productsTable.id))
+      .where(status ? eq(productReviewsTable.status, status) : undefined)
+      .orderBy(desc(productReviewsTable.id));
+
+    return rows.map(row => ({ ...row.review, authorName: row.authorName, authorPhone: row.authorPhone, productName: row.productName }));
+  }
+
+  async moderateReview(id: number, status: ReviewStatus): Promise<ProductReview | undefined> {
+    const [review] = await db
+      .update(productReviewsTable)
+      .set({ status, moderatedAt: new Date().toISOString() })
+      .where(eq(productReviewsTable.id, id))
+      .returning();
+    return review;
+  }
+
+  async deleteReview(id: number): Promise<boolean> {
+    const result = await db.delete(productReviewsTable).where(eq(productReviewsTable.id, id));
+    return result.rowCount ? result.rowCount > 0 : false;
+  }
+
+  // Variant lines with tracked packs are written off from the variant, everything else from the product stock
+  private async writeOffOrderItem(tx: DbTransaction, item: OrderItem, orderId: number): Promise<StockMovement | undefined> {
+    if (item.variantId) {
+      const [variant] = await tx.select().from(productVariantsTable).where(eq(productVariantsTable.id, item.variantId));
+      if (variant && variant.stock !== null) {
+        return await this.applyStockDelta(tx, item.id, variant.id, -getVariantPackCount(variant, item.quantity), "order_paid", orderId);
+      }
+    }
+    return await this.applyStockDelta(tx, item.id, null, -item.quantity, "order_paid", orderId);
+  }
+
+  // Changes tracked stock and records the movement; untracked stock (null) is left alone
+  private async applyStockDelta(
+    tx: DbTransaction,
+    productId: number,
+    variantId: number | null,
+    delta: number,
+    reason: InsertStockMovement["reason"],
+    orderId: number | null = null,
+    comment: string | null = null,
+    createdBy: string = "system"
+  ): Promise<StockMovement | undefined> {
+    let balanceAfter: number | null | undefined;
+    if (variantId) {
+      const [updated] = await tx.update(productVariantsTable)
+        .set({ stock: sql`${productVariantsTable.stock} + ${delta}` })
+        .where(and(eq(productVariantsTable.id, variantId), eq(productVariantsTable.productId, productId), isNotNull(productVariantsTable.stock)))
+        .returning();
+      balanceAfter = updated?.stock;
+    } else {
+      const [updated] = await tx.update(productsTable)
+        .set({ stock: sql`${productsTable.stock} + ${delta}` })
+        .where(and(eq(productsTable.id, productId), isNotNull(productsTable.stock)))
+        .returning();
+      balanceAfter = updated?.stock;
+    }
+
+    if (balanceAfter === null || balanceAfter === undefined) return undefined;
+
+    const [movement] = await tx.insert(stockMovementsTable).values({
+      productId,
+      variantId,
+      delta,
+      balanceAfter,
+      reason,
+      orderId,
+      comment,
+      createdBy,
+    }).returning();
+    return movement;
+  }
+
+  // Flip outOfStock for products whose availability is driven by tracked stock, then for bundles containing them
+  private async syncStockAvailability(tx: DbTransaction, productIds: number[]): Promise<void> {
+    const ids = Array.from(new Set(productIds));
+    for (const productId of ids) {
+      const [product] = await tx.select().from(productsTable).where(eq(productsTable.id, productId));
+      if (!product) continue;
+
+      let available: boolean | null;
+      if (product.isBundle) {
+        const componentsByBundle = await this.getBundleComponents(tx, productId);
+        available = isBundleAvailable(componentsByBundle.get(productId) || []);
+      } else {
+        const variants = await tx.select().from(productVariantsTable).where(eq(productVariantsTable.productId, productId));
+        available = getStockAvailability(product, variants);
+      }
+      if (available === null || available === !product.outOfStock) continue;
+
+      await tx.update(productsTable).set({ outOfStock: !available }).where(eq(productsTable.id, productId));
+      console.log(`[Inventory] Product ${productId} is now ${available ? "back in stock" : "out of stock"}`);
+    }
+
+    if (ids.length === 0) return;
+    const bundles = await tx
+      .selectDistinct({ bundleId: bundleItemsTable.bundleId })
+      .from(bundleItemsTable)
+      .where(inArray(bundleItemsTable.productId, ids));
+    const bundleIds = bundles.map(b => b.bundleId).filter(id => !ids.includes(id));
+    if (bundleIds.length > 0) {
+      await this.syncStockAvailability(tx, bundleIds);
+    }
+  }
+
   async getSettings(): Promise<Settings> {
     const allSettings = await db.select().from(settingsTable);
     
@@ -926,21 +2535,41 @@ export class DbStorage implements IStorage {
     total: number;
     usedFirstOrderDiscount?: boolean;
     receiptEmail?: string;
-  }): Promise<DbOrder> {
-    const [order] = await db.insert(ordersTable).values({
-      userId: orderData.userId ?? null,
-      name: orderData.name,
-      email: orderData.email,
-      phone: normalizePhone(orderData.phone),
-      address: orderData.address,
-      comment: orderData.comment ?? null,
-      items: orderData.items,
-      total: orderData.total,
-      usedFirstOrderDiscount: orderData.usedFirstOrderDiscount ?? false,
-      receiptEmail: orderData.receiptEmail ?? null,
-    }).returning();
-    
-    return order;
+    promoCodeId?: number | null;
+    promoCode?: string | null;
+    promoDiscount?: number;
+  }): Promise<DbOrder | undefined> {
+    return await db.transaction(async (tx) => {
+      if (orderData.promoCodeId && !await claimPromoCodeUse(tx, orderData.promoCodeId, { userId: orderData.userId ?? null, phone: orderData.phone })) {
+        return undefined;
+      }
+      const [order] = await tx.insert(ordersTable).values({
+        userId: orderData.userId ?? null,
+        name: orderData.name,
+        email: orderData.email,
+        phone: normalizePhone(orderData.phone),
+        address: orderData.address,
+        comment: orderData.comment ?? null,
+        items: orderData.items,
+        total: orderData.total,
+        usedFirstOrderDiscount: orderData.usedFirstOrderDiscount ?? false,
+        receiptEmail: orderData.receiptEmail ?? null,
+        promoCodeId: orderData.promoCodeId ?? null,
+        promoCode: orderData.promoCode ?? null,
+        promoDiscount: orderData.promoDiscount ?? 0,
+      }).returning();
+      return order;
+    });
+  }
+
+  async createPendingTelegramOrder(data: InsertPendingTelegramOrder): Promise<PendingTelegramOrder | undefined> {
+    return await db.transaction(async (tx) => {
+      if (data.promoCodeId && !await claimPromoCodeUse(tx, data.promoCodeId, { userId: data.userId, phone: data.phone })) {
+        return undefined;
+      }
+      const [pendingOrder] = await tx.insert(pendingTelegramOrdersTable).values(data).returning();
+      return pendingOrder;
+    });
   }
 
   async updateOrderStatus(orderId: number, status: string, expectedOldStatus?: string): Promise<DbOrder | undefined> {
@@ -997,36 +2626,101 @@ export class DbStorage implements IStorage {
     return result.rowCount ? result.rowCount > 0 : false;
   }
 
+  // Category methods
+  async getCategories(): Promise<Category[]> {
+    return await db.select().from(categoriesTable).orderBy(asc(categoriesTable.sortOrder), asc(categoriesTable.name));
+  }
+
+  async createCategory(category: InsertCategory): Promise<Category> {
+    const slug = await this.getUniqueCategorySlug(category.slug || slugify(category.name));
+    const [created] = await db.insert(categoriesTable).values({ ...category, slug }).returning();
+    return created;
+  }
+
+  async updateCategory(id: number, category: InsertCategory): Promise<Category | undefined> {
+    // An empty slug keeps the current one
+    const slug = category.slug ? await this.getUniqueCategorySlug(category.slug, id) : undefined;
+    const [updated] = await db
+      .update(categoriesTable)
+      .set({ ...category, slug })
+      .where(eq(categoriesTable.id, id))
+      .returning();
+    return updated;
+  }
+
+  // Products in the category fall out of the tree (category_id is set to null); subcategories block deletion
+  async deleteCategory(id: number): Promise<boolean> {
+    const result = await db.delete(categoriesTable).where(eq(categoriesTable.id, id));
+    return result.rowCount ? result.rowCount > 0 : false;
+  }
+
+  private async getUniqueCategorySlug(baseSlug: string, excludeCategoryId?: number): Promise<string> {
+    const taken = await db
+      .select({ id: categoriesTable.id, slug: categoriesTable.slug })
+      .from(categoriesTable)
+      .where(sql`${categoriesTable.slug} = ${baseSlug} OR ${categoriesTable.slug} LIKE ${`${baseSlug}-%`}`);
+    const takenSlugs = new Set(taken.filter(row => row.id !== excludeCategoryId).map(row => row.slug));
+
+    let slug = baseSlug;
+    for (let suffix = 2; takenSlugs.has(slug); suffix++) {
+      slug = `${baseSlug}-${suffix}`;
+    }
+    return slug;
+  }
+
   // Cart methods
-  async getCartItems(userId: string): Promise<Array<DbCartItem & { product: Product }>> {
+  async getCartItems(userId: string): Promise<Array<DbCartItem & { product: Product; variant: ProductVariant | null }>> {
     const items = await db
       .select({
         id: cartItemsTable.id,
         userId: cartItemsTable.userId,
         productId: cartItemsTable.productId,
+        variantId: cartItemsTable.variantId,
         quantity: cartItemsTable.quantity,
         pricePerUnit: cartItemsTable.pricePerUnit,
         addedAt: cartItemsTable.addedAt,
         product: productsTable,
+        variant: productVariantsTable,
       })
       .from(cartItemsTable)
       .innerJoin(productsTable, eq(cartItemsTable.productId, productsTable.id))
-      .where(eq(cartItemsTable.userId, userId));
+      .leftJoin(productVariantsTable, eq(cartItemsTable.variantId, productVariantsTable.id))
+      // Lines of drafts and archived products stay in the table and come back once the product is restored
+      .where(and(eq(cartItemsTable.userId, userId), isPublished()));
 
     return items;
   }
 
   async addToCart(cartItem: InsertCartItem): Promise<DbCartItem> {
-    // Use INSERT ... ON CONFLICT to handle race conditions atomically
+    // One cart line per product variant; variantless (custom weight) lines are matched by IS NULL
+    const variantCondition = cartItem.variantId
+      ? eq(cartItemsTable.variantId, cartItem.variantId)
+      : isNull(cartItemsTable.variantId);
+
+    const [existing] = await db
+      .select()
+      .from(cartItemsTable)
+      .where(and(
+        eq(cartItemsTable.userId, cartItem.userId),
+        eq(cartItemsTable.productId, cartItem.productId),
+        variantCondition
+      ));
+
+    if (existing) {
+      const [updated] = await db
+        .update(cartItemsTable)
+        .set({
+          quantity: sql`${cartItemsTable.quantity} + ${cartItem.quantity}`,
+          pricePerUnit: cartItem.pricePerUnit ?? existing.pricePerUnit,
+        })
+        .where(eq(cartItemsTable.id, existing.id))
+        .returning();
+      return updated;
+    }
+
     const [item] = await db
       .insert(cartItemsTable)
       .values(cartItem)
-      .onConflictDoUpdate({
-        target: [cartItemsTable.userId, cartItemsTable.productId],
-        set: {
-          quantity: sql`${cartItemsTable.quantity} + ${cartItem.quantity}`,
-        },
-      })
       .returning();
     
     return item;
@@ -1186,7 +2880,7 @@ export class DbStorage implements IStorage {
     return settings;
   }
 
-  async updateSiteSettings(settings: import("@shared/schema").UpdateSiteSettings): Promise<import("@shared/schema").SiteSettings | undefined> {
+  async updateSiteSettings(settings: import("@shared/schema").UpdateSiteSettings & { xpPolicyStartedAt?: string | null }): Promise<import("@shared/schema").SiteSettings | undefined> {
     // Get first settings record
     const [existing] = await db.select().from(siteSettingsTable).limit(1);
     
@@ -1210,6 +2904,18 @@ export class DbStorage implements IStorage {
     return updated;
   }
 
+  async getLoyaltyLevels(): Promise<DbLoyaltyLevel[]> {
+    return await db.select().from(loyaltyLevelsTable).orderBy(asc(loyaltyLevelsTable.minXP));
+  }
+
+  async replaceLoyaltyLevels(levels: LoyaltyLevelInput[]): Promise<DbLoyaltyLevel[]> {
+    return await db.transaction(async (tx) => {
+      await tx.delete(loyaltyLevelsTable);
+      const rows = await tx.insert(loyaltyLevelsTable).values(levels).returning();
+      return rows.sort((a, b) => a.minXP - b.minXP);
+    });
+  }
+
   async getSavedAddresses(userId: string): Promise<SavedAddress[]> {
     const addresses = await db
       .select()
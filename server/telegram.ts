@@ -99,10 +99,21 @@ export function formatOrderNotification(order: DbOrder): string {
   message += `\n<b>Состав заказа:</b>\n`;
   items.forEach((item: any) => {
     const itemTotal = (item.pricePerGram * item.quantity).toFixed(2);
-    message += `  - ${item.name} × ${item.quantity}г - ${itemTotal}₽\n`;
+    const variantLabel = item.variantName ? ` (${item.variantName})` : "";
+    message += `  - ${item.name}${variantLabel} × ${item.quantity}г - ${itemTotal}₽\n`;
   });
   
   message += `\n<b>Итого:</b> ${order.total.toFixed(2)}₽\n`;
+  if (order.xpPointsSpent > 0) {
+    message += `<b>Списано баллов:</b> ${order.xpPointsSpent} XP (уже учтены в итоге)\n`;
+  }
+  if (order.walletAmount > 0) {
+    message += `<b>С баланса:</b> ${(order.walletAmount / 100).toFixed(2)}₽\n`;
+    if (order.walletAmount >= Math.round(order.total * 100)) {
+      // No Tinkoff payment, so no online receipt either
+      message += `<i>Оплачен балансом целиком: пробейте чек зачёта предоплаты вручную</i>\n`;
+    }
+  }
   message += `<b>Адрес доставки:</b>\n${order.address}`;
   
   if (order.comment) {
@@ -153,3 +164,23 @@ export async function sendFailedReceiptSmsNotification(
     console.error(`[Telegram] ⚠️ Failed to send notification for order #${orderNumber}`);
   }
 }
+
+export async function sendReviewModerationNotification(
+  productName: string,
+  rating: number,
+  text: string,
+  authorName: string
+): Promise<void> {
+  let message = `<b>💬 НОВЫЙ ОТЗЫВ НА МОДЕРАЦИИ</b>\n\n`;
+  message += `<b>Товар:</b> ${escapeHtml(productName)}\n`;
+  message += `<b>Оценка:</b> ${"★".repeat(rating)}${"☆".repeat(5 - rating)}\n`;
+  message += `<b>Автор:</b> ${escapeHtml(authorName)}\n\n`;
+  message += `${escapeHtml(text.length > 500 ? `${text.slice(0, 500)}…` : text)}\n\n`;
+  message += `<i>Опубликуйте или отклоните отзыв в админке, вкладка «Отзывы»</i>`;
+
+  const success = await sendTelegramMessage(message);
+
+  if (!success) {
+    console.error(`[Telegram] ⚠️ Failed to send review notification for "${productName}"`);
+  }
+}
@@ -26,6 +26,10 @@ export interface TinkoffInitRequest {
     Phone?: string;
     Taxation: string;
     Items: ReceiptItem[];
+    Payments?: {
+      Electronic: number; // Paid now, kopecks
+      AdvancePayment?: number; // Offset of an earlier prepayment (wallet balance), kopecks
+    };
   };
   NotificationURL?: string;
   SuccessURL?: string;
@@ -78,6 +82,13 @@ interface TinkoffFiscalizationNotification {
 
 export type { TinkoffInitResponse, TinkoffNotification, TinkoffFiscalizationNotification };
 
+// Final statuses of a payment that will never be paid: whatever was reserved for it goes back
+const FAILED_PAYMENT_STATUSES = ["REJECTED", "CANCELED", "DEADLINE_EXPIRED"];
+
+export function isPaymentFailed(status: string): boolean {
+  return FAILED_PAYMENT_STATUSES.includes(status);
+}
+
 class TinkoffAPI {
   private terminalKey: string;
   private password: string;
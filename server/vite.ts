@@ -5,6 +5,7 @@ import { createServer as createViteServer, createLogger } from "vite";
 import { type Server } from "http";
 import viteConfig from "../vite.config";
 import { nanoid } from "nanoid";
+import { injectPageMeta } from "./seo";
 
 const viteLogger = createLogger();
 
@@ -58,8 +59,8 @@ export async function setupVite(app: Express, server: Server) {
         `src="/src/main.tsx"`,
         `src="/src/main.tsx?v=${nanoid()}"`,
       );
-      const page = await vite.transformIndexHtml(url, template);
-      res.status(200).set({ "Content-Type": "text/html" }).end(page);
+      const page = injectPageMeta(await vite.transformIndexHtml(url, template), res.locals.pageMeta);
+      res.status(res.statusCode).set({ "Content-Type": "text/html" }).end(page);
     } catch (e) {
       vite.ssrFixStacktrace(e as Error);
       next(e);
@@ -79,7 +80,19 @@ export function serveStatic(app: Express) {
   app.use(express.static(distPath));
 
   // fall through to index.html if the file doesn't exist
-  app.use("*", (_req, res) => {
-    res.sendFile(path.resolve(distPath, "index.html"));
+  app.use("*", async (_req, res, next) => {
+    const indexPath = path.resolve(distPath, "index.html");
+    if (!res.locals.pageMeta) {
+      res.sendFile(indexPath);
+      return;
+    }
+
+    // Product pages get their own title, OpenGraph tags and JSON-LD
+    try {
+      const template = await fs.promises.readFile(indexPath, "utf-8");
+      res.set({ "Content-Type": "text/html" }).end(injectPageMeta(template, res.locals.pageMeta));
+    } catch (e) {
+      next(e);
+    }
   });
 }
@@ -0,0 +1,49 @@
+import type { Product } from "./schema";
+
+// Vessel the tea is brewed in (products.brew_vessel)
+export const BREW_VESSELS = {
+  gaiwan: "Гайвань",
+  teapot: "Чайник",
+  clay_teapot: "Глиняный чайник",
+  thermos: "Термос",
+  cup: "Кружка",
+} as const;
+
+export type BrewVessel = keyof typeof BREW_VESSELS;
+
+export const BREW_VESSEL_VALUES = Object.keys(BREW_VESSELS) as [BrewVessel, ...BrewVessel[]];
+
+export type BrewingParams = Pick<Product, "brewTemperature" | "brewGramsPer100ml" | "brewSteeps" | "brewSteepTimes" | "brewVessel">;
+
+export interface BrewingLine {
+  label: string;
+  value: string;
+}
+
+/**
+ * Brewing card rows in display order; empty fields are skipped.
+ * Shared by the product page, the Telegram bot and the packing slip.
+ */
+export function getBrewingLines(params: Partial<BrewingParams>): BrewingLine[] {
+  const lines: BrewingLine[] = [];
+  if (params.brewVessel) {
+    lines.push({ label: "Посуда", value: BREW_VESSELS[params.brewVessel as BrewVessel] || params.brewVessel });
+  }
+  if (params.brewTemperature) {
+    lines.push({ label: "Температура воды", value: `${params.brewTemperature} °C` });
+  }
+  if (params.brewGramsPer100ml) {
+    lines.push({ label: "Пропорция", value: `${formatGrams(params.brewGramsPer100ml)} г на 100 мл` });
+  }
+  if (params.brewSteeps) {
+    lines.push({ label: "Проливов", value: String(params.brewSteeps) });
+  }
+  if (params.brewSteepTimes) {
+    lines.push({ label: "Время проливов", value: params.brewSteepTimes });
+  }
+  return lines;
+}
+
+function formatGrams(grams: number): string {
+  return Number.isInteger(grams) ? String(grams) : grams.toFixed(1).replace(".", ",");
+}
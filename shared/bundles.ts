@@ -0,0 +1,69 @@
+import type { BundleComponent, BundleOrderItem, ProductWithVariants } from "./schema";
+import { getVariantStep, getVariantUnitPrice } from "./variants";
+
+/**
+ * Grams/pieces of the component left in stock, or null when it isn't tracked
+ */
+function getComponentStock(component: BundleComponent): number | null {
+  if (component.variant && component.variant.stock !== null) {
+    return component.variant.stock * getVariantStep(component.variant);
+  }
+  return component.product.stock;
+}
+
+/**
+ * How many bundles can be assembled from the components in stock (null = no component is tracked).
+ * A component marked as out of stock makes the whole bundle unavailable.
+ */
+export function getBundleStock(components: BundleComponent[]): number | null {
+  let bundles: number | null = null;
+  for (const component of components) {
+    if (component.product.outOfStock) return 0;
+    const stock = getComponentStock(component);
+    if (stock === null) continue;
+    const fromComponent = Math.max(Math.floor(stock / component.quantity), 0);
+    bundles = bundles === null ? fromComponent : Math.min(bundles, fromComponent);
+  }
+  return bundles;
+}
+
+export function isBundleAvailable(components: BundleComponent[]): boolean {
+  if (components.length === 0) return false;
+  const stock = getBundleStock(components);
+  return stock === null || stock > 0;
+}
+
+/**
+ * Order line copy of the bundle contents, priced at the components' regular prices
+ */
+export function getBundleOrderItems(bundle: ProductWithVariants): BundleOrderItem[] | undefined {
+  if (!bundle.isBundle || !bundle.bundleItems?.length) return undefined;
+  return bundle.bundleItems.map(component => ({
+    productId: component.productId,
+    variantId: component.variantId,
+    name: component.variant ? `${component.product.name} (${component.variant.name})` : component.product.name,
+    quantity: component.quantity,
+    value: (component.variant ? getVariantUnitPrice(component.variant) : component.product.pricePerGram) * component.quantity,
+  }));
+}
+
+/**
+ * Splits a bundle line amount (kopecks) between its components in proportion to their regular
+ * prices, so fiscal receipts list what was actually shipped. Parts always add up to the amount.
+ */
+export function splitBundleAmount(amount: number, components: BundleOrderItem[]): number[] {
+  const totalValue = components.reduce((sum, component) => sum + component.value, 0);
+  const parts: number[] = [];
+  let allocated = 0;
+  components.forEach((component, index) => {
+    if (index === components.length - 1) {
+      parts.push(amount - allocated);
+      return;
+    }
+    const share = totalValue > 0 ? component.value / totalValue : 1 / components.length;
+    const part = Math.round(amount * share);
+    parts.push(part);
+    allocated += part;
+  });
+  return parts;
+}
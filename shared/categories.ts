@@ -0,0 +1,80 @@
+import type { Category } from "./schema";
+
+export interface CategoryNode extends Category {
+  children: CategoryNode[];
+}
+
+function compareCategories(a: Category, b: Category): number {
+  return a.sortOrder - b.sortOrder || a.name.localeCompare(b.name, "ru");
+}
+
+/**
+ * Nests the flat category list; categories whose parent is missing become top-level
+ */
+export function buildCategoryTree(categories: Category[]): CategoryNode[] {
+  const nodes = new Map<number, CategoryNode>(categories.map(c => [c.id, { ...c, children: [] }]));
+  const roots: CategoryNode[] = [];
+  for (const node of Array.from(nodes.values()).sort(compareCategories)) {
+    const parent = node.parentId ? nodes.get(node.parentId) : undefined;
+    (parent ? parent.children : roots).push(node);
+  }
+  return roots;
+}
+
+/**
+ * Depth-first list for selects and admin tables: Чай, — Пуэр, — — Шу, Посуда...
+ */
+export function flattenCategoryTree(tree: CategoryNode[], depth = 0): Array<{ category: CategoryNode; depth: number }> {
+  return tree.flatMap(category => [{ category, depth }, ...flattenCategoryTree(category.children, depth + 1)]);
+}
+
+/**
+ * The category itself and everything nested under it, so "Чай" also shows products filed under "Шу"
+ */
+export function getCategoryDescendantIds(categories: Category[], categoryId: number): Set<number> {
+  const ids = new Set<number>([categoryId]);
+  let added = true;
+  while (added) {
+    added = false;
+    for (const category of categories) {
+      if (category.parentId && ids.has(category.parentId) && !ids.has(category.id)) {
+        ids.add(category.id);
+        added = true;
+      }
+    }
+  }
+  return ids;
+}
+
+/**
+ * Root-to-leaf chain for breadcrumbs ("Чай / Пуэр / Шу")
+ */
+export function getCategoryPath(categories: Category[], categoryId: number | null): Category[] {
+  const byId = new Map(categories.map(c => [c.id, c]));
+  const path: Category[] = [];
+  let current = categoryId ? byId.get(categoryId) : undefined;
+  while (current && !path.includes(current)) {
+    path.unshift(current);
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+  return path;
+}
+
+/**
+ * Moving a category under itself or one of its descendants would detach the branch from the tree
+ */
+export function wouldCreateCategoryCycle(categories: Category[], categoryId: number, parentId: number | null): boolean {
+  return parentId !== null && getCategoryDescendantIds(categories, categoryId).has(parentId);
+}
+
+/**
+ * Where the product sits in the tree. Products not filed anywhere fall back to the
+ * top-level category matching their kind ("tea" / "teaware"), so they stay reachable.
+ */
+export function resolveProductCategoryId(
+  product: { categoryId?: number | null; category: string },
+  categories: Category[]
+): number | null {
+  if (product.categoryId && categories.some(c => c.id === product.categoryId)) return product.categoryId;
+  return categories.find(c => !c.parentId && c.slug === product.category)?.id ?? null;
+}
@@ -0,0 +1,53 @@
+import type { GiftCertificate, PublicGiftCertificate } from "./schema";
+
+export const GIFT_CERTIFICATE_AMOUNTS = [1000, 2000, 3000, 5000]; // Rubles, offered as presets
+export const GIFT_CERTIFICATE_VALIDITY_DAYS = 365;
+
+// Without 0/O, 1/I/L: codes get typed in from paper
+export const GIFT_CERTIFICATE_CODE_ALPHABET = "23456789ABCDEFGHJKMNPQRSTUVWXYZ";
+
+export function normalizeGiftCertificateCode(code: string): string {
+  const compact = code.toUpperCase().replace(/[^0-9A-Z]/g, "");
+  return compact.match(/.{1,4}/g)?.join("-") ?? "";
+}
+
+export function getGiftCertificateExpiry(from: Date = new Date()): string {
+  return new Date(from.getTime() + GIFT_CERTIFICATE_VALIDITY_DAYS * 24 * 60 * 60 * 1000).toISOString();
+}
+
+/**
+ * Status as the customer sees it: an active certificate past its date is expired
+ */
+export function getGiftCertificateState(
+  certificate: Pick<GiftCertificate, "status" | "expiresAt">,
+  now: Date = new Date()
+): GiftCertificate["status"] | "expired" {
+  if (certificate.status === "active" && new Date(certificate.expiresAt) <= now) return "expired";
+  return certificate.status;
+}
+
+// Customer-facing reason the code can't be redeemed, null when it can
+export function getGiftCertificateRedeemError(certificate: GiftCertificate | undefined, now: Date = new Date()): string | null {
+  if (!certificate || certificate.status === "pending") return "Сертификат не найден";
+  switch (getGiftCertificateState(certificate, now)) {
+    case "redeemed":
+      return "Сертификат уже активирован";
+    case "cancelled":
+      return "Сертификат аннулирован";
+    case "expired":
+      return "Срок действия сертификата истёк";
+    default:
+      return null;
+  }
+}
+
+export function toPublicGiftCertificate(certificate: GiftCertificate, now: Date = new Date()): PublicGiftCertificate {
+  return {
+    code: certificate.code,
+    amount: certificate.amount,
+    recipientName: certificate.recipientName,
+    message: certificate.message,
+    expiresAt: certificate.expiresAt,
+    state: getGiftCertificateState(certificate, now) as PublicGiftCertificate["state"],
+  };
+}
@@ -1,75 +1,76 @@
+import type { DbLoyaltyLevel } from "./schema";
+
+/*
+ * Loyalty levels live in the loyalty_levels table and are edited in the admin site settings.
+ * The site gets them from /api/loyalty-levels, the server from services/loyalty; everything
+ * below works on that list, so the site, the bot and order pricing always agree.
+ */
+
 export interface LoyaltyLevel {
-  level: number;
+  id: number;
+  level: number; // 1-based position by threshold
   name: string;
   minXP: number;
-  maxXP: number | null;
+  maxXP: number | null; // null for the top level
   discount: number;
   color: string;
-  benefits: string[];
+  icon: string;
+  perks: string[];
+}
+
+// Only seen if no levels are configured: everyone is a beginner without a discount
+const FALLBACK_LEVEL: LoyaltyLevel = {
+  id: 0,
+  level: 1,
+  name: "Новичок",
+  minXP: 0,
+  maxXP: null,
+  discount: 0,
+  color: "#6B7280",
+  icon: "🍃",
+  perks: [],
+};
+
+/**
+ * Table rows ordered by threshold, with positions and XP ranges filled in
+ */
+export function toLoyaltyLevels(rows: DbLoyaltyLevel[]): LoyaltyLevel[] {
+  const sorted = [...rows].sort((a, b) => a.minXP - b.minXP);
+  return sorted.map((row, index) => ({
+    id: row.id,
+    level: index + 1,
+    name: row.name,
+    minXP: row.minXP,
+    maxXP: index < sorted.length - 1 ? sorted[index + 1].minXP - 1 : null,
+    discount: row.discount,
+    color: row.color,
+    icon: row.icon,
+    perks: row.perks,
+  }));
 }
 
-export const LOYALTY_LEVELS: LoyaltyLevel[] = [
-  {
-    level: 1,
-    name: "Новичок",
-    minXP: 0,
-    maxXP: 2999,
-    discount: 0,
-    color: "#6B7280", // gray
-    benefits: ["Доступ к базовому каталогу"],
-  },
-  {
-    level: 2,
-    name: "Ценитель",
-    minXP: 3000,
-    maxXP: 6999,
-    discount: 5,
-    color: "#059669", // green
-    benefits: ["Скидка 5% на все покупки", "Доступ к базовому каталогу"],
-  },
-  {
-    level: 3,
-    name: "Чайный мастер",
-    minXP: 7000,
-    maxXP: 14999,
-    discount: 10,
-    color: "#7C3AED", // purple
-    benefits: [
-      "Скидка 10% на все покупки",
-      "Персональный чат с консультациями",
-      "Приглашения на закрытые чайные вечеринки",
-      "Возможность запросить любой чай",
-    ],
-  },
-  {
-    level: 4,
-    name: "Чайный Гуру",
-    minXP: 15000,
-    maxXP: null,
-    discount: 15,
-    color: "#DC2626", // red
-    benefits: [
-      "Скидка 15% на все покупки",
-      "Все привилегии уровня 3",
-      "Приоритетное обслуживание",
-      "Эксклюзивные предложения",
-    ],
-  },
-];
+// The XP a customer's level is judged by: recent XP under the rolling policy (shared/xpPolicy.ts), otherwise
+// the balance plus the points spent at checkout, so paying with points never costs a level. Under the
+// expiration policy spent points stop counting when the XP they were paid with would have expired.
+export function getLevelXp(user: { xp: number; xpPointsSpent?: number; levelXp?: number | null }): number {
+  return user.levelXp ?? user.xp + (user.xpPointsSpent ?? 0);
+}
 
-export function getLoyaltyLevel(xp: number): LoyaltyLevel {
-  for (let i = LOYALTY_LEVELS.length - 1; i >= 0; i--) {
-    const level = LOYALTY_LEVELS[i];
+export function getLoyaltyLevel(xp: number, levels: LoyaltyLevel[]): LoyaltyLevel {
+  for (let i = levels.length - 1; i >= 0; i--) {
+    const level = levels[i];
     if (xp >= level.minXP) {
       return level;
     }
   }
-  return LOYALTY_LEVELS[0];
+  return levels[0] ?? FALLBACK_LEVEL;
 }
 
-export function getLoyaltyDiscount(xp: number): number {
-  const level = getLoyaltyLevel(xp);
-  return level.discount;
+// Discount first, then the perks configured for the level
+export function getLoyaltyBenefits(level: LoyaltyLevel): string[] {
+  return level.discount > 0
+    ? [`Скидка ${level.discount}% на все покупки`, ...level.perks]
+    : level.perks;
 }
 
 export interface LoyaltyProgress {
@@ -80,15 +81,9 @@ export interface LoyaltyProgress {
   progressPercentage: number;
 }
 
-export function getLoyaltyProgress(xp: number): LoyaltyProgress {
-  const currentLevel = getLoyaltyLevel(xp);
-  const currentLevelIndex = LOYALTY_LEVELS.findIndex(
-    (level) => level.level === currentLevel.level
-  );
-  const nextLevel =
-    currentLevelIndex < LOYALTY_LEVELS.length - 1
-      ? LOYALTY_LEVELS[currentLevelIndex + 1]
-      : null;
+export function getLoyaltyProgress(xp: number, levels: LoyaltyLevel[]): LoyaltyProgress {
+  const currentLevel = getLoyaltyLevel(xp, levels);
+  const nextLevel = levels.find((level) => level.minXP > currentLevel.minXP) ?? null;
 
   let xpToNextLevel = 0;
   let progressPercentage = 100;
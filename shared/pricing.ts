@@ -0,0 +1,284 @@
+import type { Category, ProductSale, ProductVariant, PromoCode, SiteSettings } from "./schema";
+import { getVariantUnitPrice, getLegacyUnitPrice } from "./variants";
+import { getLevelXp } from "./loyalty";
+import { applyPromoCode, type PromoUsage } from "./promo";
+import { resolveProductCategoryId } from "./categories";
+import { getSaleUnitPrice } from "./sales";
+import {
+  DEFAULT_VOLUME_DISCOUNT_TIERS,
+  resolveVolumeDiscountTiers,
+  getVolumeDiscountPercent,
+  getNextVolumeDiscountTier,
+  type VolumeDiscountTier,
+} from "./volumeDiscounts";
+
+/*
+ * The one place order totals are worked out. The site checkout, the Telegram bot and the
+ * cart preview (through /api/cart/quote) all go through quoteCart, so the amount shown
+ * is always the amount charged. Discounts apply in this order, each to what's left:
+ * volume discount → promo code → first order → loyalty level → individual discount → XP points.
+ */
+
+export interface PricingSettings {
+  firstOrderDiscountPercent: number;
+  loyaltyLevels: Array<{ minXP: number; discount: number }>; // Highest threshold first
+  volumeDiscountTiers: VolumeDiscountTier[]; // Shop-wide; categories and products may override
+  xpRedemption: { xpPerRuble: number; maxPercent: number } | null; // null when points mode is off
+}
+
+export interface PricingCustomer {
+  xp: number;
+  xpPointsSpent?: number; // See getLevelXp
+  levelXp?: number | null;
+  phoneVerified: boolean;
+  firstOrderDiscountUsed: boolean;
+  customDiscount?: number | null;
+}
+
+export interface PricingProduct {
+  id: number;
+  name: string;
+  category: string;
+  categoryId?: number | null;
+  pricePerGram: number;
+  volumeDiscountTiers?: VolumeDiscountTier[] | null;
+  variants: ProductVariant[];
+  sale?: ProductSale; // Set by applySaleCampaigns
+}
+
+export interface PricingLine {
+  productId: number;
+  variantId?: number | null;
+  quantity: number; // Grams or pieces
+}
+
+export interface PricingPromo {
+  promo: PromoCode;
+  usage: PromoUsage;
+}
+
+export interface QuotedLine {
+  index: number; // Position in the input lines; lines of unknown products are left out
+  productId: number;
+  variantId: number | null;
+  name: string;
+  variantName: string | null;
+  quantity: number;
+  listUnitPrice: number; // Per gram/piece before the volume discount
+  unitPrice: number; // Per gram/piece actually charged
+  volumeDiscountPercent: number; // Custom weights only
+  nextVolumeDiscount: { tier: VolumeDiscountTier; missing: number } | null; // For "ещё 50 г до скидки" hints
+  amount: number; // unitPrice × quantity
+  promoDiscount: number; // Share of the promo code discount
+  total: number; // After all discounts; lines add up to the quote total to the kopeck
+}
+
+export type PriceAdjustmentKind = "promo" | "first_order" | "loyalty" | "custom" | "xp_points";
+
+export interface PriceAdjustment {
+  kind: PriceAdjustmentKind;
+  percent: number | null; // null for a fixed-amount promo code
+  amount: number; // Rubles
+  xp?: number; // XP spent, for "xp_points"
+}
+
+export interface PriceQuote {
+  lines: QuotedLine[];
+  listTotal: number; // Before any discount
+  bulkDiscount: number; // Volume discounts of all lines
+  subtotal: number; // After the volume discount
+  adjustments: PriceAdjustment[];
+  total: number;
+  promo: { id: number; code: string; description: string | null; stackWithLoyalty: boolean } | null;
+  promoError: string | null; // The code was given but doesn't apply
+  xpPoints: { xpPerRuble: number; maxPoints: number; points: number } | null; // Slider bounds; null when points can't be spent
+}
+
+const DEFAULT_FIRST_ORDER_DISCOUNT = 20;
+
+function roundRubles(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Discount settings from the admin site settings and loyalty levels, with the built-in
+ * defaults when missing
+ */
+export function getPricingSettings(
+  siteSettings: Partial<SiteSettings> | null | undefined,
+  loyaltyLevels: Array<{ minXP: number; discount: number }>
+): PricingSettings {
+  return {
+    firstOrderDiscountPercent: siteSettings?.firstOrderDiscount ?? DEFAULT_FIRST_ORDER_DISCOUNT,
+    loyaltyLevels: loyaltyLevels
+      .map(level => ({ minXP: level.minXP, discount: level.discount }))
+      .sort((a, b) => b.minXP - a.minXP),
+    volumeDiscountTiers: siteSettings?.volumeDiscountTiers ?? DEFAULT_VOLUME_DISCOUNT_TIERS,
+    xpRedemption: siteSettings?.xpRedemptionEnabled
+      ? { xpPerRuble: siteSettings.xpPerRuble ?? 10, maxPercent: siteSettings.xpRedemptionMaxPercent ?? 30 }
+      : null,
+  };
+}
+
+export function getLoyaltyDiscountPercent(xp: number, settings: PricingSettings): number {
+  return settings.loyaltyLevels.find(level => xp >= level.minXP)?.discount ?? 0;
+}
+
+/**
+ * Prices the cart and spreads every discount over its lines. Lines whose product isn't in
+ * `products` are skipped; callers validate availability and stock before quoting.
+ */
+export function quoteCart({
+  lines,
+  products,
+  categories,
+  customer,
+  settings,
+  promo,
+  xpPoints = 0,
+  now = new Date(),
+}: {
+  lines: PricingLine[];
+  products: PricingProduct[];
+  categories: Category[];
+  customer: PricingCustomer | null;
+  settings: PricingSettings;
+  promo?: PricingPromo | null;
+  xpPoints?: number; // XP the customer asks to spend, capped by balance and the max share
+  now?: Date;
+}): PriceQuote {
+  const productsById = new Map(products.map(product => [product.id, product]));
+  const quotedLines: QuotedLine[] = [];
+  lines.forEach((line, index) => {
+    const product = productsById.get(line.productId);
+    if (!product) return;
+    const variant = line.variantId ? product.variants.find(v => v.id === line.variantId) : undefined;
+    // Variant price already includes any pack discount; custom weights get the volume discount
+    const tiers = variant ? [] : resolveVolumeDiscountTiers(product, categories, settings.volumeDiscountTiers);
+    const listUnitPrice = variant ? getVariantUnitPrice(variant) : getSaleUnitPrice(product);
+    const unitPrice = variant ? listUnitPrice : getLegacyUnitPrice({ ...product, pricePerGram: listUnitPrice }, line.quantity, tiers);
+    quotedLines.push({
+      index,
+      productId: product.id,
+      variantId: variant?.id ?? null,
+      name: product.name,
+      variantName: variant?.name ?? null,
+      quantity: line.quantity,
+      listUnitPrice,
+      unitPrice,
+      volumeDiscountPercent: getVolumeDiscountPercent(tiers, line.quantity),
+      nextVolumeDiscount: getNextVolumeDiscountTier(tiers, line.quantity),
+      amount: roundRubles(unitPrice * line.quantity),
+      promoDiscount: 0,
+      total: 0,
+    });
+  });
+
+  const listTotal = roundRubles(quotedLines.reduce((sum, line) => sum + line.listUnitPrice * line.quantity, 0));
+  const subtotal = roundRubles(quotedLines.reduce((sum, line) => sum + line.amount, 0));
+  const adjustments: PriceAdjustment[] = [];
+  let running = subtotal;
+
+  let appliedPromo: PriceQuote["promo"] = null;
+  let promoError: string | null = null;
+  if (promo) {
+    const result = applyPromoCode(
+      promo.promo,
+      quotedLines.map(line => ({
+        productId: line.productId,
+        categoryId: resolveProductCategoryId(productsById.get(line.productId)!, categories),
+        amount: line.amount,
+      })),
+      { categories, usage: promo.usage, now }
+    );
+    if (result.ok) {
+      result.lineDiscounts.forEach((discount, i) => {
+        quotedLines[i].promoDiscount = discount;
+      });
+      adjustments.push({
+        kind: "promo",
+        percent: promo.promo.discountType === "percent" ? promo.promo.discountValue : null,
+        amount: result.discount,
+      });
+      running = roundRubles(running - result.discount);
+      const { id, code, description, stackWithLoyalty } = promo.promo;
+      appliedPromo = { id, code, description, stackWithLoyalty };
+    } else {
+      promoError = result.error;
+    }
+  }
+  const afterPromo = running;
+
+  const addPercentAdjustment = (kind: PriceAdjustmentKind, percent: number) => {
+    if (percent <= 0) return;
+    const amount = roundRubles(running * percent / 100);
+    adjustments.push({ kind, percent, amount });
+    running = roundRubles(running - amount);
+  };
+
+  if (customer) {
+    if (!customer.firstOrderDiscountUsed) {
+      addPercentAdjustment("first_order", settings.firstOrderDiscountPercent);
+    }
+    // A promo code that doesn't stack replaces the loyalty and individual discounts
+    if (!appliedPromo || appliedPromo.stackWithLoyalty) {
+      if (customer.phoneVerified) {
+        addPercentAdjustment("loyalty", getLoyaltyDiscountPercent(getLevelXp(customer), settings));
+      }
+      addPercentAdjustment("custom", customer.customDiscount || 0);
+    }
+  }
+
+  // Points are spent in whole rubles, so the XP taken is always a multiple of the rate
+  let quotedPoints: PriceQuote["xpPoints"] = null;
+  if (customer?.phoneVerified && settings.xpRedemption) {
+    const { xpPerRuble, maxPercent } = settings.xpRedemption;
+    const maxRubles = Math.min(Math.floor(customer.xp / xpPerRuble), Math.floor(running * maxPercent / 100));
+    if (maxRubles > 0) {
+      const rubles = Math.min(Math.floor(Math.max(xpPoints, 0) / xpPerRuble), maxRubles);
+      if (rubles > 0) {
+        adjustments.push({ kind: "xp_points", percent: null, amount: rubles, xp: rubles * xpPerRuble });
+        running = roundRubles(running - rubles);
+      }
+      quotedPoints = { xpPerRuble, maxPoints: maxRubles * xpPerRuble, points: rubles * xpPerRuble };
+    }
+  }
+
+  const total = Math.max(running, 0);
+  distributeOrderDiscount(quotedLines, afterPromo, total);
+
+  return {
+    lines: quotedLines,
+    listTotal,
+    bulkDiscount: roundRubles(listTotal - subtotal),
+    subtotal,
+    adjustments,
+    total,
+    promo: appliedPromo,
+    promoError,
+    xpPoints: quotedPoints,
+  };
+}
+
+/**
+ * Whole-order percentages are spread over the lines in proportion to what's left of each,
+ * in kopecks; the last line takes the remainder so the lines add up to the total exactly.
+ */
+function distributeOrderDiscount(lines: QuotedLine[], afterPromo: number, total: number): void {
+  const bases = lines.map(line => Math.round((line.amount - line.promoDiscount) * 100));
+  const baseTotal = bases.reduce((sum, base) => sum + base, 0);
+  const discount = Math.round(afterPromo * 100) - Math.round(total * 100);
+  let remaining = discount;
+  lines.forEach((line, i) => {
+    const share = i === lines.length - 1 || baseTotal === 0
+      ? remaining
+      : Math.round(discount * bases[i] / baseTotal);
+    const applied = Math.min(share, bases[i]);
+    line.total = (bases[i] - applied) / 100;
+    remaining -= applied;
+  });
+}
+
+export function getAdjustment(quote: PriceQuote, kind: PriceAdjustmentKind): PriceAdjustment | undefined {
+  return quote.adjustments.find(adjustment => adjustment.kind === kind);
+}
@@ -0,0 +1,127 @@
+import type { Category, PromoCode } from "./schema";
+import { getCategoryDescendantIds } from "./categories";
+
+// Each receipt line has to stay payable: the fiscal receipt rejects zero-priced items
+const MIN_LINE_AMOUNT = 0.01;
+
+export interface PromoCartLine {
+  productId: number;
+  categoryId: number | null; // Resolved with resolveProductCategoryId
+  amount: number; // Rubles charged for the line before discounts
+}
+
+export interface PromoUsage {
+  total: number; // Paid orders that used the code, plus site and bot orders awaiting payment for up to a day
+  byCustomer: number; // The same, for this customer only
+}
+
+export type PromoCodeResult =
+  | { ok: true; discount: number; lineDiscounts: number[]; eligibleTotal: number }
+  | { ok: false; error: string };
+
+export function normalizePromoCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+function roundRubles(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * The use limits on their own: checked with the rest of the code here, and once more under a lock
+ * on the code when the order holding the use is saved (see DbStorage.createOrder)
+ */
+export function getPromoUsageError(promo: PromoCode, usage: PromoUsage): string | null {
+  if (promo.maxUses !== null && usage.total >= promo.maxUses) {
+    return "Промокод больше не действует: исчерпан лимит использований";
+  }
+  if (promo.maxUsesPerCustomer !== null && usage.byCustomer >= promo.maxUsesPerCustomer) {
+    return "Вы уже использовали этот промокод";
+  }
+  return null;
+}
+
+/**
+ * Checks the code against the cart and works out the discount. The same rules run in the
+ * checkout preview, POST /api/orders and the bot checkout, so the customer never sees one
+ * amount and pays another. Limits the code can't satisfy come back as a customer-facing error.
+ */
+export function applyPromoCode(
+  promo: PromoCode,
+  lines: PromoCartLine[],
+  { categories, usage, now = new Date() }: { categories: Category[]; usage: PromoUsage; now?: Date }
+): PromoCodeResult {
+  if (!promo.isActive) {
+    return { ok: false, error: "Промокод не действует" };
+  }
+  if (promo.startsAt && now < new Date(promo.startsAt)) {
+    return { ok: false, error: "Промокод ещё не начал действовать" };
+  }
+  if (promo.endsAt && now > new Date(promo.endsAt)) {
+    return { ok: false, error: "Срок действия промокода истёк" };
+  }
+  const usageError = getPromoUsageError(promo, usage);
+  if (usageError) {
+    return { ok: false, error: usageError };
+  }
+
+  const subtotal = lines.reduce((sum, line) => sum + line.amount, 0);
+  if (subtotal < promo.minOrderTotal) {
+    return { ok: false, error: `Промокод действует при заказе от ${Math.round(promo.minOrderTotal)} ₽` };
+  }
+
+  // No restrictions = the whole cart; otherwise a line qualifies by product or by category branch
+  const restricted = promo.productIds.length > 0 || promo.categoryIds.length > 0;
+  const eligibleCategoryIds = new Set<number>();
+  for (const id of promo.categoryIds) {
+    getCategoryDescendantIds(categories, id).forEach(descendantId => eligibleCategoryIds.add(descendantId));
+  }
+  const isEligible = (line: PromoCartLine) =>
+    !restricted ||
+    promo.productIds.includes(line.productId) ||
+    (line.categoryId !== null && eligibleCategoryIds.has(line.categoryId));
+
+  const eligibleTotal = lines.reduce((sum, line) => sum + (isEligible(line) ? line.amount : 0), 0);
+  if (eligibleTotal <= 0) {
+    return { ok: false, error: "Промокод не распространяется на товары в корзине" };
+  }
+
+  const rawDiscount = promo.discountType === "percent"
+    ? eligibleTotal * promo.discountValue / 100
+    : promo.discountValue;
+  const discountable = lines.reduce((sum, line) => sum + (isEligible(line) ? Math.max(line.amount - MIN_LINE_AMOUNT, 0) : 0), 0);
+  const discount = roundRubles(Math.min(rawDiscount, discountable));
+
+  return { ok: true, discount, lineDiscounts: distributePromoDiscount(lines, isEligible, discount), eligibleTotal };
+}
+
+/**
+ * Splits the discount across eligible lines in proportion to their amounts, so each receipt
+ * item carries its own share. The last eligible line takes the rounding remainder.
+ */
+function distributePromoDiscount(lines: PromoCartLine[], isEligible: (line: PromoCartLine) => boolean, discount: number): number[] {
+  const lineDiscounts = lines.map(() => 0);
+  const eligibleIndexes = lines.map((line, index) => (isEligible(line) ? index : -1)).filter(index => index >= 0);
+  const eligibleTotal = eligibleIndexes.reduce((sum, index) => sum + lines[index].amount, 0);
+
+  let remaining = discount;
+  eligibleIndexes.forEach((index, position) => {
+    const cap = Math.max(lines[index].amount - MIN_LINE_AMOUNT, 0);
+    const share = position === eligibleIndexes.length - 1
+      ? remaining
+      : roundRubles(discount * lines[index].amount / eligibleTotal);
+    lineDiscounts[index] = roundRubles(Math.min(share, cap, remaining));
+    remaining = roundRubles(remaining - lineDiscounts[index]);
+  });
+
+  // A capped last line leaves a remainder: spread it over lines that still have room
+  for (const index of eligibleIndexes) {
+    if (remaining <= 0) break;
+    const room = roundRubles(Math.max(lines[index].amount - MIN_LINE_AMOUNT, 0) - lineDiscounts[index]);
+    const extra = Math.min(room, remaining);
+    lineDiscounts[index] = roundRubles(lineDiscounts[index] + extra);
+    remaining = roundRubles(remaining - extra);
+  }
+
+  return lineDiscounts;
+}
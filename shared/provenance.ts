@@ -0,0 +1,106 @@
+import type { Product } from "./schema";
+
+// Pressing form of the tea (products.pressing_form)
+export const PRESSING_FORMS = {
+  cake: "Блин",
+  brick: "Кирпич",
+  tuocha: "Точа",
+  mini_tuocha: "Мини-точа",
+  bamboo: "В бамбуке",
+  loose: "Рассыпной",
+} as const;
+
+export type PressingForm = keyof typeof PRESSING_FORMS;
+
+export const PRESSING_FORM_VALUES = Object.keys(PRESSING_FORMS) as [PressingForm, ...PressingForm[]];
+
+export type ProvenanceParams = Pick<Product, "harvestYear" | "region" | "factory" | "pressingForm">;
+
+export type ProvenanceFacet = keyof ProvenanceParams;
+
+// Facets in display order, shared by the catalog filters, the product page and the YML feed
+export const PROVENANCE_FACETS: Array<{ key: ProvenanceFacet; label: string }> = [
+  { key: "harvestYear", label: "Год сбора" },
+  { key: "region", label: "Регион" },
+  { key: "factory", label: "Фабрика" },
+  { key: "pressingForm", label: "Прессовка" },
+];
+
+export interface FacetValue {
+  value: string;
+  label: string;
+  count: number;
+}
+
+export type ProductFacets = Record<ProvenanceFacet, FacetValue[]>;
+
+export type ProvenanceFilters = Record<ProvenanceFacet, string[]>;
+
+export const EMPTY_PROVENANCE_FILTERS: ProvenanceFilters = {
+  harvestYear: [],
+  region: [],
+  factory: [],
+  pressingForm: [],
+};
+
+/**
+ * Filter value of a product for the facet; null when the attribute is not filled in
+ */
+export function getProvenanceValue(product: Partial<ProvenanceParams>, facet: ProvenanceFacet): string | null {
+  const value = product[facet];
+  if (value === null || value === undefined || value === "") return null;
+  return String(value);
+}
+
+export function getProvenanceLabel(facet: ProvenanceFacet, value: string): string {
+  if (facet === "pressingForm") return PRESSING_FORMS[value as PressingForm] || value;
+  return value;
+}
+
+/**
+ * Counts products per attribute value. Years go newest first, everything else by popularity.
+ */
+export function buildProductFacets(products: Array<Partial<ProvenanceParams>>): ProductFacets {
+  const facets = {} as ProductFacets;
+  for (const { key } of PROVENANCE_FACETS) {
+    const counts = new Map<string, number>();
+    for (const product of products) {
+      const value = getProvenanceValue(product, key);
+      if (value) counts.set(value, (counts.get(value) || 0) + 1);
+    }
+    facets[key] = Array.from(counts, ([value, count]) => ({ value, label: getProvenanceLabel(key, value), count }))
+      .sort((a, b) => key === "harvestYear"
+        ? Number(b.value) - Number(a.value)
+        : b.count - a.count || a.label.localeCompare(b.label, "ru"));
+  }
+  return facets;
+}
+
+/**
+ * Values within one facet are alternatives, different facets must all match
+ */
+export function matchesProvenanceFilters(product: Partial<ProvenanceParams>, filters: ProvenanceFilters): boolean {
+  return PROVENANCE_FACETS.every(({ key }) => {
+    const selected = filters[key];
+    if (selected.length === 0) return true;
+    const value = getProvenanceValue(product, key);
+    return !!value && selected.includes(value);
+  });
+}
+
+export interface ProvenanceLine {
+  label: string;
+  value: string;
+}
+
+/**
+ * Filled-in attributes as label/value rows for the product page and YML <param> entries
+ */
+export function getProvenanceLines(params: Partial<ProvenanceParams>): ProvenanceLine[] {
+  const lines: ProvenanceLine[] = [];
+  for (const { key, label } of PROVENANCE_FACETS) {
+    const value = getProvenanceValue(params, key);
+    if (value) lines.push({ label, value: getProvenanceLabel(key, value) });
+  }
+  return lines;
+}
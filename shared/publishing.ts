@@ -0,0 +1,22 @@
+import type { Product, ProductStatus } from "./schema";
+
+export const PRODUCT_STATUS_LABELS: Record<ProductStatus, string> = {
+  draft: "Черновик",
+  published: "Опубликован",
+  archived: "В архиве",
+};
+
+/**
+ * Customers see a product once it is published and its publish time (if any) has come
+ */
+export function isProductPublished(product: Pick<Product, "status" | "publishAt">, now: Date = new Date()): boolean {
+  if (product.status !== "published") return false;
+  return !product.publishAt || new Date(product.publishAt).getTime() <= now.getTime();
+}
+
+/**
+ * Published, but waiting for its publish time
+ */
+export function isProductScheduled(product: Pick<Product, "status" | "publishAt">, now: Date = new Date()): boolean {
+  return product.status === "published" && !!product.publishAt && new Date(product.publishAt).getTime() > now.getTime();
+}
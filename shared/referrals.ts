@@ -0,0 +1,34 @@
+import type { ReferralRewardType, SiteSettings } from "./schema";
+import { GIFT_CERTIFICATE_CODE_ALPHABET } from "./giftCertificates";
+
+// Codes get dictated and typed by hand, so the alphabet without look-alikes is reused
+export const REFERRAL_CODE_ALPHABET = GIFT_CERTIFICATE_CODE_ALPHABET;
+export const REFERRAL_CODE_LENGTH = 8;
+export const REFERRAL_BOT_PAYLOAD_PREFIX = "ref_"; // t.me/PuerPabbot?start=ref_CODE
+
+export interface ReferralRewards {
+  type: ReferralRewardType;
+  referrer: number; // XP, or rubles for the wallet
+  referee: number;
+}
+
+export function normalizeReferralCode(code: string): string {
+  return code.toUpperCase().replace(/[^0-9A-Z]/g, "");
+}
+
+/**
+ * Bonus settings from the admin site settings, with the built-in defaults when missing
+ */
+export function getReferralRewards(siteSettings?: Partial<SiteSettings> | null): ReferralRewards {
+  return {
+    type: siteSettings?.referralRewardType === "wallet" ? "wallet" : "xp",
+    referrer: siteSettings?.referralReferrerReward ?? 500,
+    referee: siteSettings?.referralRefereeReward ?? 300,
+  };
+}
+
+export function formatReferralReward(type: ReferralRewardType, amount: number): string {
+  return type === "wallet"
+    ? `${amount.toLocaleString("ru-RU")} ₽ на баланс`
+    : `${amount.toLocaleString("ru-RU")} XP`;
+}
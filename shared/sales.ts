@@ -0,0 +1,90 @@
+import type { Product, ProductSale, ProductVariant, SaleCampaign } from "./schema";
+
+/*
+ * Sale campaigns reduce the listed price itself, unlike promo codes and loyalty discounts,
+ * which are taken off the cart at checkout. The server prices public products through
+ * applySaleCampaigns, so the catalog, the cart, the bot and the YML feed all agree.
+ */
+
+export function isSaleCampaignRunning(campaign: SaleCampaign, now: Date = new Date()): boolean {
+  return campaign.isActive && new Date(campaign.startsAt) <= now && now < new Date(campaign.endsAt);
+}
+
+/**
+ * The running campaign with the biggest discount for the product. A campaign without
+ * products and tea types covers the whole catalog.
+ */
+export function findProductSaleCampaign(
+  product: Pick<Product, "id" | "teaType">,
+  campaigns: SaleCampaign[],
+  now: Date = new Date()
+): SaleCampaign | null {
+  let best: SaleCampaign | null = null;
+  for (const campaign of campaigns) {
+    if (!isSaleCampaignRunning(campaign, now)) continue;
+    const restricted = campaign.productIds.length > 0 || campaign.teaTypes.length > 0;
+    const matches = !restricted || campaign.productIds.includes(product.id) || campaign.teaTypes.includes(product.teaType);
+    if (matches && (!best || campaign.discountPercent > best.discountPercent)) {
+      best = campaign;
+    }
+  }
+  return best;
+}
+
+// Prices are stored in rubles; the sale price is rounded to whole kopecks, the way it's shown.
+// Custom weights are charged at the unrounded rate instead, see getSaleUnitPrice.
+export function applySalePercent(price: number, percent: number): number {
+  return Math.round(price * (1 - percent / 100) * 100) / 100;
+}
+
+/**
+ * Per-gram price a custom weight is charged at: the exact sale rate rather than the rounded
+ * one, so the kopeck rounding isn't multiplied by hundreds of grams
+ */
+export function getSaleUnitPrice(product: { pricePerGram: number; sale?: Pick<ProductSale, "percent" | "oldPricePerGram"> }): number {
+  return product.sale ? product.sale.oldPricePerGram * (1 - product.sale.percent / 100) : product.pricePerGram;
+}
+
+/**
+ * The product with its base and variant prices reduced by the best running campaign and
+ * the old prices kept in `sale`. Products already priced (sale set) come back unchanged.
+ */
+export function applySaleCampaigns<T extends Product & { variants?: ProductVariant[]; sale?: ProductSale }>(
+  product: T,
+  campaigns: SaleCampaign[],
+  now: Date = new Date()
+): T & { sale?: ProductSale } {
+  if (product.sale) return product;
+  const campaign = findProductSaleCampaign(product, campaigns, now);
+  if (!campaign) return product;
+
+  const oldVariantPrices: Record<number, number> = {};
+  for (const variant of product.variants ?? []) {
+    oldVariantPrices[variant.id] = variant.price;
+  }
+  return {
+    ...product,
+    pricePerGram: applySalePercent(product.pricePerGram, campaign.discountPercent),
+    ...(product.variants && {
+      variants: product.variants.map(variant => ({ ...variant, price: applySalePercent(variant.price, campaign.discountPercent) })),
+    }),
+    sale: {
+      campaignId: campaign.id,
+      name: campaign.name,
+      percent: campaign.discountPercent,
+      endsAt: campaign.endsAt,
+      oldPricePerGram: product.pricePerGram,
+      oldVariantPrices,
+    },
+  };
+}
+
+// "2 д 05:13:09" until the sale ends; empty once it's over
+export function formatSaleCountdown(endsAt: string, now: Date = new Date()): string {
+  const left = Math.max(0, Math.floor((new Date(endsAt).getTime() - now.getTime()) / 1000));
+  if (left === 0) return "";
+  const days = Math.floor(left / 86400);
+  const pad = (value: number) => String(value).padStart(2, "0");
+  const time = `${pad(Math.floor(left / 3600) % 24)}:${pad(Math.floor(left / 60) % 60)}:${pad(left % 60)}`;
+  return days > 0 ? `${days} д ${time}` : time;
+}
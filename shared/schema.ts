@@ -1,7 +1,11 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, serial, real, boolean, integer } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, serial, real, boolean, integer, jsonb, uniqueIndex, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { SLUG_MAX_LENGTH, SLUG_PATTERN, isLegacyProductId } from "./slug";
+import { BREW_VESSEL_VALUES } from "./brewing";
+import { PRESSING_FORM_VALUES } from "./provenance";
+import type { VolumeDiscountTier } from "./volumeDiscounts";
 
 // Users table for authentication
 export const users = pgTable("users", {
@@ -15,6 +19,10 @@ export const users = pgTable("users", {
   firstOrderDiscountUsed: boolean("first_order_discount_used").notNull().default(false),
   customDiscount: integer("custom_discount"), // Индивидуальная скидка в процентах (nullable)
   walletBalance: integer("wallet_balance").notNull().default(0), // Баланс кошелька в копейках
+  referralCode: text("referral_code").unique(), // Issued once the phone is verified, see shared/referrals.ts
+  xpPointsSpent: integer("xp_points_spent").notNull().default(0), // XP spent as points at checkout, net of refunds; still counts towards the level
+  levelXp: integer("level_xp"), // XP the level is judged by under the rolling policy; null means the balance plus spent points (shared/xpPolicy.ts)
+  xpExpiryWarnedAt: text("xp_expiry_warned_at"), // Last warning about expiring XP or a level drop
   analytics: text("analytics"), // JSON: A/B test assignments {testId: variantId}
 });
 
@@ -43,7 +51,7 @@ export type User = typeof users.$inferSelect;
 export const walletTransactions = pgTable("wallet_transactions", {
   id: serial("id").primaryKey(),
   userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
-  type: text("type").notNull(), // "topup" | "purchase" | "refund"
+  type: text("type").notNull(), // "topup" | "purchase" | "refund" | "gift_certificate" | "referral"
   amount: integer("amount").notNull(), // Сумма в копейках (положительная для пополнения, отрицательная для списания)
   description: text("description").notNull(),
   paymentId: text("payment_id"), // ID платежа в Tinkoff (для пополнений)
@@ -53,7 +61,7 @@ export const walletTransactions = pgTable("wallet_transactions", {
 
 export const insertWalletTransactionSchema = createInsertSchema(walletTransactions, {
   userId: z.string(),
-  type: z.enum(["topup", "purchase", "refund"]),
+  type: z.enum(["topup", "purchase", "refund", "gift_certificate", "referral"]),
   amount: z.number().int(),
   description: z.string().min(1),
   paymentId: z.string().optional(),
@@ -68,7 +76,7 @@ export const xpTransactions = pgTable("xp_transactions", {
   id: serial("id").primaryKey(),
   userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
   amount: integer("amount").notNull(), // Positive for accrual, negative for deduction
-  reason: text("reason").notNull(), // "online_order" | "offline_purchase" | "manual_adjustment" | "bonus"
+  reason: text("reason").notNull(), // "online_order" | "offline_purchase" | "manual_adjustment" | "bonus" | "points_redemption" | "points_refund" | "referral" | "expiration"
   description: text("description").notNull(), // Human-readable description
   orderId: integer("order_id"), // Related order ID (for online orders)
   createdBy: text("created_by"), // "system" | admin user ID
@@ -78,7 +86,7 @@ export const xpTransactions = pgTable("xp_transactions", {
 export const insertXpTransactionSchema = createInsertSchema(xpTransactions, {
   userId: z.string(),
   amount: z.number().int(),
-  reason: z.enum(["online_order", "offline_purchase", "manual_adjustment", "bonus"]),
+  reason: z.enum(["online_order", "offline_purchase", "manual_adjustment", "bonus", "points_redemption", "points_refund", "referral", "expiration"]),
   description: z.string().min(1),
   orderId: z.number().int().optional().nullable(),
   createdBy: z.string().optional().nullable(),
@@ -107,11 +115,44 @@ export const insertSmsVerificationSchema = createInsertSchema(smsVerifications,
 export type InsertSmsVerification = z.infer<typeof insertSmsVerificationSchema>;
 export type SmsVerification = typeof smsVerifications.$inferSelect;
 
+// Catalog categories (admin-managed tree, e.g. Чай → Пуэр → Шу); see shared/categories for tree helpers
+// Volume discount tiers (see shared/volumeDiscounts.ts); on a category or product null inherits, [] switches the discount off
+export const volumeDiscountTiersSchema = z.array(z.object({
+  minQuantity: z.number().int().positive("Порог скидки должен быть больше 0 г"),
+  percent: z.number().gt(0, "Скидка должна быть больше 0%").max(100, "Скидка не больше 100%"),
+}))
+  .max(10, "Не больше 10 ступеней скидки")
+  .refine(tiers => new Set(tiers.map(tier => tier.minQuantity)).size === tiers.length, "Пороги скидки не должны повторяться");
+
+export const categories = pgTable("categories", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  slug: text("slug").notNull().unique(),
+  parentId: integer("parent_id").references((): AnyPgColumn => categories.id, { onDelete: "restrict" }), // null = top level
+  sortOrder: integer("sort_order").notNull().default(0),
+  volumeDiscountTiers: jsonb("volume_discount_tiers").$type<VolumeDiscountTier[]>(), // null = inherit from the parent / shop-wide tiers
+});
+
+export const insertCategorySchema = createInsertSchema(categories, {
+  name: z.string().trim().min(2, "Название должно содержать минимум 2 символа").max(60, "Название не длиннее 60 символов"),
+  slug: z.string()
+    .max(SLUG_MAX_LENGTH, `Адрес не длиннее ${SLUG_MAX_LENGTH} символов`)
+    .regex(SLUG_PATTERN, "Адрес: латиница, цифры и дефисы")
+    .or(z.literal("")),
+  parentId: z.number().int().positive().optional().nullable(),
+  sortOrder: z.number().int().optional(),
+  volumeDiscountTiers: volumeDiscountTiersSchema.optional().nullable(),
+}).omit({ id: true });
+
+export type Category = typeof categories.$inferSelect;
+export type InsertCategory = z.infer<typeof insertCategorySchema>;
+
 // Products
 export const products = pgTable("products", {
   id: serial("id").primaryKey(),
   name: text("name").notNull(),
-  category: text("category").notNull().default("tea"), // "tea" or "teaware"
+  category: text("category").notNull().default("tea"), // Product kind, "tea" or "teaware": drives units, brewing and provenance fields
+  categoryId: integer("category_id").references(() => categories.id, { onDelete: "set null" }), // Place in the catalog tree
   pricingUnit: text("pricing_unit").notNull().default("gram"), // "gram" or "piece" - how the product is sold
   pricePerGram: real("price_per_gram").notNull(), // For piece pricing, this is price per piece
   description: text("description").notNull(),
@@ -124,8 +165,29 @@ export const products = pgTable("products", {
   fixedQuantity: integer("fixed_quantity"), // Fixed quantity in grams (e.g., 357g for tea cake) or pieces
   outOfStock: boolean("out_of_stock").notNull().default(false), // If true, product is out of stock and cannot be ordered
   cardType: text("card_type").notNull().default("classic"), // "classic" or "media" - card display type on homepage
+  stock: integer("stock"), // Stock in grams or pieces (null = not tracked); untracked variants are taken from it
+  lowStockThreshold: integer("low_stock_threshold"), // Highlight in admin when product/variant stock drops to this level
+  slug: text("slug").unique(), // URL of the product page (/product/:slug), generated from the name when empty
+  // Brewing card (all optional): water °C, grams of leaf per 100 ml, steeps count, free-form steep times, vessel key from shared/brewing
+  brewTemperature: integer("brew_temperature"),
+  brewGramsPer100ml: real("brew_grams_per_100ml"),
+  brewSteeps: integer("brew_steeps"),
+  brewSteepTimes: text("brew_steep_times"), // e.g. "10, 15, 20, +5 с"
+  brewVessel: text("brew_vessel"),
+  // Provenance (mostly for puer, all optional): used as catalog facets and YML params; pressing form key from shared/provenance
+  harvestYear: integer("harvest_year"),
+  region: text("region"), // e.g. "Мэнхай", "Линцан"
+  factory: text("factory"), // e.g. "Мэнхай Чаань", "Ся Гуань"
+  pressingForm: text("pressing_form"),
+  isBundle: boolean("is_bundle").notNull().default(false), // Set of other products (bundle_items); stock and availability follow the components
+  status: text("status").notNull().default("published"), // "draft" | "published" | "archived"; only published products are shown to customers
+  publishAt: text("publish_at"), // ISO timestamp; a published product stays hidden until then
+  volumeDiscountTiers: jsonb("volume_discount_tiers").$type<VolumeDiscountTier[]>(), // Custom-weight discount; null = category / shop-wide tiers
 });
 
+export const PRODUCT_STATUSES = ["draft", "published", "archived"] as const;
+export type ProductStatus = typeof PRODUCT_STATUSES[number];
+
 export const insertProductSchema = createInsertSchema(products, {
   name: z.string().min(2, "Название должно содержать минимум 2 символа"),
   category: z.enum(["tea", "teaware"], {
@@ -134,6 +196,7 @@ export const insertProductSchema = createInsertSchema(products, {
   pricingUnit: z.enum(["gram", "piece"], {
     errorMap: () => ({ message: "Выберите единицу измерения: граммы или штуки" })
   }),
+  categoryId: z.number().int().positive().optional().nullable(),
   pricePerGram: z.number().min(0, "Цена должна быть положительной"),
   description: z.string().min(10, "Описание должно содержать минимум 10 символов"),
   images: z.array(z.string().min(1)).min(1, "Добавьте хотя бы одно изображение"),
@@ -147,6 +210,31 @@ export const insertProductSchema = createInsertSchema(products, {
   cardType: z.enum(["classic", "media"], {
     errorMap: () => ({ message: "Выберите тип карточки" })
   }),
+  stock: z.number().int().min(0, "Остаток не может быть отрицательным").optional().nullable(),
+  lowStockThreshold: z.number().int().min(0, "Порог не может быть отрицательным").optional().nullable(),
+  slug: z.string()
+    .max(SLUG_MAX_LENGTH, `Адрес страницы не длиннее ${SLUG_MAX_LENGTH} символов`)
+    .regex(SLUG_PATTERN, "Адрес страницы: латиница, цифры и дефисы")
+    .refine(slug => !isLegacyProductId(slug), "Адрес страницы не может состоять только из цифр")
+    .optional()
+    .nullable()
+    .or(z.literal("")),
+  brewTemperature: z.number().int().min(50, "Температура от 50 до 100 °C").max(100, "Температура от 50 до 100 °C").optional().nullable(),
+  brewGramsPer100ml: z.number().positive("Пропорция должна быть больше 0").max(30, "Слишком большая пропорция").optional().nullable(),
+  brewSteeps: z.number().int().min(1, "Минимум 1 пролив").max(50, "Не больше 50 проливов").optional().nullable(),
+  brewSteepTimes: z.string().trim().max(200, "Время проливов не длиннее 200 символов").transform(value => value || null).optional().nullable(),
+  brewVessel: z.enum(BREW_VESSEL_VALUES).optional().nullable(),
+  harvestYear: z.number().int().min(1950, "Год сбора не раньше 1950").max(new Date().getFullYear(), "Год сбора не может быть в будущем").optional().nullable(),
+  region: z.string().trim().max(100, "Регион не длиннее 100 символов").transform(value => value || null).optional().nullable(),
+  factory: z.string().trim().max(100, "Фабрика не длиннее 100 символов").transform(value => value || null).optional().nullable(),
+  pressingForm: z.enum(PRESSING_FORM_VALUES).optional().nullable(),
+  status: z.enum(PRODUCT_STATUSES).optional(),
+  volumeDiscountTiers: volumeDiscountTiersSchema.optional().nullable(),
+  publishAt: z.string()
+    .refine(v => v === "" || !isNaN(Date.parse(v)), "Некорректная дата публикации")
+    .transform(v => v ? new Date(v).toISOString() : null)
+    .optional()
+    .nullable(),
 }).omit({ id: true }).refine((data) => {
   if (data.fixedQuantityOnly && !data.fixedQuantity) {
     return false;
@@ -160,6 +248,276 @@ export const insertProductSchema = createInsertSchema(products, {
 export type InsertProduct = z.infer<typeof insertProductSchema>;
 export type Product = typeof products.$inferSelect;
 
+// Product variants - sellable options of a product (25г / 100г / блин 357г, or a gaiwan colour)
+export const productVariants = pgTable("product_variants", {
+  id: serial("id").primaryKey(),
+  productId: integer("product_id").notNull().references(() => products.id, { onDelete: "cascade" }),
+  name: text("name").notNull(), // Display label, e.g. "100 г", "Блин 357 г", "Синий"
+  sku: text("sku"), // Optional article number
+  weight: integer("weight"), // Pack weight in grams (null for piece goods)
+  price: real("price").notNull(), // Price of the whole variant in rubles
+  stock: integer("stock"), // Packs in stock (null = not tracked, product stock is used)
+  isDefault: boolean("is_default").notNull().default(false), // Preselected in product card
+  sortOrder: integer("sort_order").notNull().default(0),
+  createdAt: text("created_at").notNull().default(sql`CURRENT_TIMESTAMP`),
+});
+
+export const productVariantInputSchema = z.object({
+  id: z.number().int().positive().optional(), // Present when editing an existing variant
+  name: z.string().min(1, "Укажите название варианта"),
+  sku: z.string().optional().nullable(),
+  weight: z.number().int().positive("Вес должен быть больше 0").optional().nullable(),
+  price: z.number().positive("Цена варианта должна быть больше 0"),
+  stock: z.number().int().min(0, "Остаток не может быть отрицательным").optional().nullable(),
+  isDefault: z.boolean().default(false),
+  sortOrder: z.number().int().optional(), // Defaults to the position in the list
+});
+
+export const productVariantsInputSchema = z.array(productVariantInputSchema)
+  .min(1, "Добавьте хотя бы один вариант")
+  .max(20, "Не более 20 вариантов");
+
+export type ProductVariantInput = z.infer<typeof productVariantInputSchema>;
+export type ProductVariant = typeof productVariants.$inferSelect;
+
+// Contents of a bundle product: quantity is in grams/pieces of the component, like order quantities
+export const bundleItems = pgTable("bundle_items", {
+  id: serial("id").primaryKey(),
+  bundleId: integer("bundle_id").notNull().references(() => products.id, { onDelete: "cascade" }),
+  productId: integer("product_id").notNull().references(() => products.id, { onDelete: "cascade" }),
+  variantId: integer("variant_id").references(() => productVariants.id, { onDelete: "set null" }), // Pack the component is taken from
+  quantity: integer("quantity").notNull(),
+  sortOrder: integer("sort_order").notNull().default(0),
+});
+
+export const bundleItemInputSchema = z.object({
+  productId: z.number().int().positive("Выберите товар"),
+  variantId: z.number().int().positive().optional().nullable(),
+  quantity: z.number().int().positive("Количество должно быть больше 0"),
+});
+
+export const bundleItemsInputSchema = z.array(bundleItemInputSchema)
+  .min(1, "Добавьте хотя бы один товар в набор")
+  .max(20, "Не более 20 товаров в наборе");
+
+export type BundleItem = typeof bundleItems.$inferSelect;
+export type BundleItemInput = z.infer<typeof bundleItemInputSchema>;
+export type BundleComponent = BundleItem & { product: Product; variant: ProductVariant | null };
+// Bundles carry their components; their stock is derived from them (see shared/bundles.ts)
+// The running sale a public product is priced with; prices in the product are already reduced
+export interface ProductSale {
+  campaignId: number;
+  name: string;
+  percent: number;
+  endsAt: string; // ISO timestamp
+  oldPricePerGram: number;
+  oldVariantPrices: Record<number, number>; // Variant id -> price before the sale
+}
+
+export type ProductWithVariants = Product & { variants: ProductVariant[]; bundleItems?: BundleComponent[]; sale?: ProductSale };
+
+// Full-text search result; highlight fields wrap matched words in <mark></mark>
+export type ProductSearchHighlight = { name: string; description: string };
+export type ProductSearchResult = ProductWithVariants & { rank: number; highlight: ProductSearchHighlight };
+
+// Stock movements - history of every stock change (paid/cancelled orders, manual corrections)
+export const stockMovements = pgTable("stock_movements", {
+  id: serial("id").primaryKey(),
+  productId: integer("product_id").notNull().references(() => products.id, { onDelete: "cascade" }),
+  variantId: integer("variant_id"), // null = product-level stock; kept after the variant is deleted
+  delta: integer("delta").notNull(), // Packs for variant stock, grams/pieces for product stock
+  balanceAfter: integer("balance_after").notNull(),
+  reason: text("reason").notNull(), // "order_paid" | "order_cancelled" | "manual" | "restock"
+  orderId: integer("order_id"), // Related order ID
+  comment: text("comment"),
+  createdBy: text("created_by"), // "system" | "admin"
+  createdAt: text("created_at").notNull().default(sql`CURRENT_TIMESTAMP`),
+});
+
+export const insertStockMovementSchema = createInsertSchema(stockMovements, {
+  productId: z.number().int().positive(),
+  variantId: z.number().int().positive().optional().nullable(),
+  delta: z.number().int(),
+  balanceAfter: z.number().int(),
+  reason: z.enum(["order_paid", "order_cancelled", "manual", "restock"]),
+  orderId: z.number().int().optional().nullable(),
+  comment: z.string().optional().nullable(),
+  createdBy: z.string().optional().nullable(),
+}).omit({ id: true, createdAt: true });
+
+// Manual stock correction from the admin panel
+export const stockAdjustmentSchema = z.object({
+  variantId: z.number().int().positive().optional().nullable(),
+  delta: z.number().int().refine(v => v !== 0, "Изменение не может быть нулевым"),
+  reason: z.enum(["manual", "restock"]).default("manual"),
+  comment: z.string().max(500).optional().nullable(),
+});
+
+export type StockMovement = typeof stockMovements.$inferSelect;
+export type InsertStockMovement = z.infer<typeof insertStockMovementSchema>;
+export type StockAdjustment = z.infer<typeof stockAdjustmentSchema>;
+
+// Price history - every change of the base price or a variant price (manual edits and scheduled changes)
+export const priceHistory = pgTable("price_history", {
+  id: serial("id").primaryKey(),
+  productId: integer("product_id").notNull().references(() => products.id, { onDelete: "cascade" }),
+  variantId: integer("variant_id"), // null = base price (pricePerGram); kept after the variant is deleted
+  variantName: text("variant_name"), // Snapshot, so the chart stays readable after the variant is renamed or deleted
+  oldPrice: real("old_price"), // null for the first recorded price
+  newPrice: real("new_price").notNull(),
+  source: text("source").notNull(), // "manual" | "scheduled" | "import"
+  createdBy: text("created_by"), // "system" | "admin"
+  createdAt: text("created_at").notNull().default(sql`CURRENT_TIMESTAMP`),
+});
+
+export const insertPriceHistorySchema = createInsertSchema(priceHistory, {
+  productId: z.number().int().positive(),
+  variantId: z.number().int().positive().optional().nullable(),
+  variantName: z.string().optional().nullable(),
+  oldPrice: z.number().optional().nullable(),
+  newPrice: z.number(),
+  source: z.enum(["manual", "scheduled", "import"]),
+  createdBy: z.string().optional().nullable(),
+}).omit({ id: true, createdAt: true });
+
+export type PriceHistoryEntry = typeof priceHistory.$inferSelect;
+export type InsertPriceHistoryEntry = z.infer<typeof insertPriceHistorySchema>;
+
+// Future price changes, applied by the price scheduler once effectiveAt has passed
+export const scheduledPriceChanges = pgTable("scheduled_price_changes", {
+  id: serial("id").primaryKey(),
+  productId: integer("product_id").notNull().references(() => products.id, { onDelete: "cascade" }),
+  variantId: integer("variant_id").references(() => productVariants.id, { onDelete: "cascade" }), // null = base price
+  price: real("price").notNull(),
+  effectiveAt: text("effective_at").notNull(), // ISO timestamp
+  status: text("status").notNull().default("pending"), // "pending" | "applied" | "cancelled"
+  createdBy: text("created_by"),
+  createdAt: text("created_at").notNull().default(sql`CURRENT_TIMESTAMP`),
+  appliedAt: text("applied_at"),
+});
+
+export const scheduledPriceChangeInputSchema = z.object({
+  variantId: z.number().int().positive().optional().nullable(),
+  price: z.number().positive("Цена должна быть больше 0"),
+  effectiveAt: z.string()
+    .refine(v => !isNaN(Date.parse(v)), "Некорректная дата")
+    .refine(v => Date.parse(v) > Date.now(), "Дата должна быть в будущем")
+    .transform(v => new Date(v).toISOString()),
+});
+
+export type ScheduledPriceChange = typeof scheduledPriceChanges.$inferSelect;
+export type ScheduledPriceChangeInput = z.infer<typeof scheduledPriceChangeInputSchema>;
+
+// "Сообщить о поступлении": customers waiting for an out-of-stock product, notified by the restock notifier
+export const STOCK_SUBSCRIPTION_CHANNELS = ["sms", "telegram", "email"] as const;
+export type StockSubscriptionChannel = typeof STOCK_SUBSCRIPTION_CHANNELS[number];
+
+export const stockSubscriptions = pgTable("stock_subscriptions", {
+  id: serial("id").primaryKey(),
+  productId: integer("product_id").notNull().references(() => products.id, { onDelete: "cascade" }),
+  channel: text("channel").notNull(), // "sms" | "telegram" | "email"
+  contact: text("contact").notNull(), // Normalized phone, lowercased email or Telegram chat id
+  userId: varchar("user_id").references(() => users.id, { onDelete: "set null" }),
+  attempts: integer("attempts").notNull().default(0), // Failed delivery attempts, the notifier gives up after a few
+  createdAt: text("created_at").notNull().default(sql`CURRENT_TIMESTAMP`),
+  notifiedAt: text("notified_at"), // null = still waiting
+});
+
+export const insertStockSubscriptionSchema = createInsertSchema(stockSubscriptions, {
+  channel: z.enum(STOCK_SUBSCRIPTION_CHANNELS),
+}).omit({ id: true, attempts: true, createdAt: true, notifiedAt: true });
+
+export const stockSubscriptionInputSchema = z.discriminatedUnion("channel", [
+  z.object({ channel: z.literal("sms"), contact: z.string().trim().min(10, "Введите корректный номер телефона") }),
+  z.object({ channel: z.literal("email"), contact: z.string().trim().toLowerCase().email("Введите корректный email") }),
+  // The chat comes from the customer's linked Telegram profile
+  z.object({ channel: z.literal("telegram") }),
+]);
+
+export type StockSubscription = typeof stockSubscriptions.$inferSelect;
+export type InsertStockSubscription = z.infer<typeof insertStockSubscriptionSchema>;
+export type StockSubscriptionInput = z.infer<typeof stockSubscriptionInputSchema>;
+
+// "Bought together" model: item-to-item similarity rebuilt periodically from paid orders
+// and carts (see server/services/recommendationBuilder.ts). One row per direction.
+export const productAssociations = pgTable("product_associations", {
+  id: serial("id").primaryKey(),
+  productId: integer("product_id").notNull().references(() => products.id, { onDelete: "cascade" }),
+  relatedProductId: integer("related_product_id").notNull().references(() => products.id, { onDelete: "cascade" }),
+  score: real("score").notNull(), // Cosine similarity of the weighted co-occurrence, 0..1
+  orderCount: integer("order_count").notNull().default(0), // Paid orders containing both products
+  cartCount: integer("cart_count").notNull().default(0), // Current carts containing both products
+  updatedAt: text("updated_at").notNull().default(sql`CURRENT_TIMESTAMP`),
+});
+
+export type ProductAssociation = typeof productAssociations.$inferSelect;
+export type InsertProductAssociation = Omit<ProductAssociation, "id" | "updatedAt">;
+
+// Bulk product import from a spreadsheet (see server/productSpreadsheet.ts)
+export type ProductImportAction = "create" | "update" | "skip";
+
+export interface ProductImportRow {
+  row: number; // Row number in the spreadsheet, the header is row 1
+  action: ProductImportAction;
+  productId: number | null;
+  name: string;
+  changes: string[]; // Column headers that change on update
+  errors: string[]; // Rows with errors are skipped
+}
+
+export interface ProductImportResult {
+  applied: boolean;
+  rows: ProductImportRow[];
+  summary: Record<ProductImportAction, number> & { errors: number };
+}
+
+// Validated row ready to be saved; variants === null keeps the current variants
+export interface ProductImportEntry {
+  productId: number | null;
+  product: InsertProduct;
+  variants: ProductVariantInput[] | null;
+}
+
+// Product reviews - only customers with a completed order containing the product can leave one
+export const productReviews = pgTable("product_reviews", {
+  id: serial("id").primaryKey(),
+  productId: integer("product_id").notNull().references(() => products.id, { onDelete: "cascade" }),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  orderId: integer("order_id").notNull(), // Completed order that proves the purchase
+  rating: integer("rating").notNull(), // 1-5
+  text: text("text").notNull(),
+  photo: text("photo"), // Object storage URL
+  status: text("status").notNull().default("pending"), // "pending" | "approved" | "rejected"
+  createdAt: text("created_at").notNull().default(sql`CURRENT_TIMESTAMP`),
+  moderatedAt: text("moderated_at"),
+}, (table) => ({
+  productUserUnique: sql`CONSTRAINT ${sql.identifier("product_reviews_product_user_unique")} UNIQUE (${table.productId}, ${table.userId})`
+}));
+
+export const REVIEW_STATUSES = ["pending", "approved", "rejected"] as const;
+
+// What the customer submits; product, user and order are set on the server
+export const insertProductReviewSchema = z.object({
+  rating: z.coerce.number().int().min(1, "Поставьте оценку от 1 до 5").max(5, "Поставьте оценку от 1 до 5"),
+  text: z.string().trim().min(10, "Отзыв должен содержать минимум 10 символов").max(2000, "Отзыв не длиннее 2000 символов"),
+});
+
+export const moderateReviewSchema = z.object({
+  status: z.enum(REVIEW_STATUSES),
+});
+
+export type ProductReview = typeof productReviews.$inferSelect;
+export type InsertProductReview = z.infer<typeof insertProductReviewSchema>;
+export type ReviewStatus = typeof REVIEW_STATUSES[number];
+// Public review with the author's first name only
+export type PublicProductReview = Pick<ProductReview, "id" | "productId" | "rating" | "text" | "photo" | "createdAt"> & { authorName: string };
+export type AdminProductReview = ProductReview & { authorName: string | null; authorPhone: string; productName: string };
+export type ProductRatingSummary = { average: number; count: number };
+// Why the current user can or can't review a product
+export type ReviewEligibility =
+  | { canReview: true; orderId: number }
+  | { canReview: false; reason: "not_purchased" | "already_reviewed"; review?: ProductReview };
+
 // Quiz types
 export interface QuizOption {
   label: string;
@@ -257,15 +615,34 @@ export const orders = pgTable("orders", {
   receiptEmail: text("receipt_email"), // Email for sending receipt
   receiptSmsSent: boolean("receipt_sms_sent").notNull().default(false), // Flag to prevent duplicate SMS
   telegramChatId: text("telegram_chat_id"), // Telegram chat ID for orders placed via bot
+  stockDeducted: boolean("stock_deducted").notNull().default(false), // Stock written off for this order (guards against double decrement)
+  promoCodeId: integer("promo_code_id"), // No FK: the code may be deleted, the report still needs the order
+  promoCode: text("promo_code"), // Code as entered, kept for history
+  promoDiscount: real("promo_discount").notNull().default(0), // Rubles taken off by the promo code
+  walletAmount: integer("wallet_amount").notNull().default(0), // Kopecks of the total paid from the wallet balance, like users.walletBalance; the rest goes through Tinkoff
+  xpPointsSpent: integer("xp_points_spent").notNull().default(0), // XP redeemed as points, already taken off the total
   createdAt: text("created_at").notNull().default(sql`CURRENT_TIMESTAMP`),
 });
 
 // Order validation schemas
+// Bundle contents copied into the order line when it's placed: stock write-off and the receipt use this copy
+export const bundleOrderItemSchema = z.object({
+  productId: z.number(),
+  variantId: z.number().int().positive().optional().nullable(),
+  name: z.string(),
+  quantity: z.number(), // Per one bundle, grams/pieces
+  value: z.number().min(0), // Regular price of the component per bundle, used to split the bundle price in receipts
+});
+
 export const orderItemSchema = z.object({
   id: z.number(),
   name: z.string(),
   pricePerGram: z.number().min(0),
   quantity: z.number().min(1, "Количество должно быть больше 0"), // quantity in grams
+  variantId: z.number().int().positive().optional().nullable(),
+  variantName: z.string().optional().nullable(),
+  bundleItems: z.array(bundleOrderItemSchema).optional(),
+  promoDiscount: z.number().min(0).optional(), // Rubles of the promo discount on this line, set by the server
 });
 
 export const orderSchema = z.object({
@@ -277,6 +654,21 @@ export const orderSchema = z.object({
   items: z.array(orderItemSchema).min(1, "Корзина не может быть пустой"),
   total: z.number().min(500, "Минимальная сумма заказа 500₽"),
   saveAddress: z.boolean().optional(),
+  promoCode: z.string().trim().max(32).optional(),
+  useWallet: z.boolean().optional(), // Pay what the wallet balance covers, the rest by card
+  xpPoints: z.number().int().min(0).optional(), // XP the customer wants to spend; capped by the server
+});
+
+// Cart preview priced by the server (see shared/pricing.ts); guests send their localStorage cart
+export const cartQuoteRequestSchema = z.object({
+  items: z.array(z.object({
+    id: z.number(),
+    variantId: z.number().int().positive().optional().nullable(),
+    quantity: z.number().min(1),
+  })).max(100),
+  promoCode: z.string().trim().max(32).optional(),
+  phone: z.string().optional(), // Lets a guest see the per-customer promo limit before ordering
+  xpPoints: z.number().int().min(0).optional(),
 });
 
 export const insertOrderSchema = createInsertSchema(orders, {
@@ -298,26 +690,261 @@ export const updateOrderStatusSchema = z.object({
 });
 
 export type OrderItem = z.infer<typeof orderItemSchema>;
+export type BundleOrderItem = z.infer<typeof bundleOrderItemSchema>;
 export type Order = z.infer<typeof orderSchema>;
 export type InsertOrder = z.infer<typeof insertOrderSchema>;
 export type DbOrder = typeof orders.$inferSelect;
 export type UpdateOrderStatus = z.infer<typeof updateOrderStatusSchema>;
+export type CartQuoteRequest = z.infer<typeof cartQuoteRequestSchema>;
+
+// Promo codes entered at checkout on the site and in the Telegram bot (see shared/promo.ts)
+export const PROMO_DISCOUNT_TYPES = ["percent", "fixed"] as const;
+export type PromoDiscountType = typeof PROMO_DISCOUNT_TYPES[number];
+
+export const promoCodes = pgTable("promo_codes", {
+  id: serial("id").primaryKey(),
+  code: text("code").notNull().unique(), // Stored uppercase
+  description: text("description"),
+  discountType: text("discount_type").notNull(), // "percent" | "fixed"
+  discountValue: real("discount_value").notNull(), // Percent or rubles
+  minOrderTotal: real("min_order_total").notNull().default(0), // Rubles, before any discounts
+  maxUses: integer("max_uses"), // null = unlimited
+  maxUsesPerCustomer: integer("max_uses_per_customer").default(1), // null = unlimited
+  startsAt: text("starts_at"), // ISO timestamp, null = right away
+  endsAt: text("ends_at"), // ISO timestamp, null = no end
+  productIds: integer("product_ids").array().notNull().default(sql`ARRAY[]::integer[]`), // Empty together with categoryIds = whole cart
+  categoryIds: integer("category_ids").array().notNull().default(sql`ARRAY[]::integer[]`), // Subcategories included
+  stackWithLoyalty: boolean("stack_with_loyalty").notNull().default(false), // Loyalty and individual discounts on top of the code
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: text("created_at").notNull().default(sql`CURRENT_TIMESTAMP`),
+});
+
+const optionalDateSchema = z.string().nullable().optional()
+  .refine(v => !v || !isNaN(Date.parse(v)), "Некорректная дата")
+  .transform(v => (v ? new Date(v).toISOString() : null));
+
+export const promoCodeInputSchema = z.object({
+  code: z.string().trim().min(3, "Код должен содержать минимум 3 символа").max(32)
+    .regex(/^[A-Za-z0-9А-Яа-яЁё_-]+$/, "Только буквы, цифры, дефис и подчёркивание")
+    .transform(v => v.toUpperCase()),
+  description: z.string().trim().max(200).nullable().optional(),
+  discountType: z.enum(PROMO_DISCOUNT_TYPES),
+  discountValue: z.number().positive("Скидка должна быть больше 0"),
+  minOrderTotal: z.number().min(0).default(0),
+  maxUses: z.number().int().positive().nullable().optional(),
+  maxUsesPerCustomer: z.number().int().positive().nullable().optional(),
+  startsAt: optionalDateSchema,
+  endsAt: optionalDateSchema,
+  productIds: z.array(z.number().int().positive()).default([]),
+  categoryIds: z.array(z.number().int().positive()).default([]),
+  stackWithLoyalty: z.boolean().default(false),
+  isActive: z.boolean().default(true),
+}).refine(v => v.discountType !== "percent" || v.discountValue <= 100, {
+  message: "Процент скидки не может быть больше 100",
+  path: ["discountValue"],
+}).refine(v => !v.startsAt || !v.endsAt || v.startsAt < v.endsAt, {
+  message: "Дата окончания должна быть позже даты начала",
+  path: ["endsAt"],
+});
+
+export type PromoCode = typeof promoCodes.$inferSelect;
+export type PromoCodeInput = z.infer<typeof promoCodeInputSchema>;
+
+// Usage and revenue per code for the admin report
+export interface PromoCodeStats {
+  promoCodeId: number;
+  orderCount: number;
+  discountTotal: number; // Rubles
+  revenue: number; // Rubles actually charged for those orders
+}
+
+// Time-limited sales: while running, matching products are listed and sold at the reduced
+// price everywhere (site, bot, YML feed). See shared/sales.ts
+export const saleCampaigns = pgTable("sale_campaigns", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(), // Shown to customers, e.g. "Неделя шу пуэра"
+  description: text("description"),
+  discountPercent: real("discount_percent").notNull(),
+  startsAt: text("starts_at").notNull(), // ISO timestamp
+  endsAt: text("ends_at").notNull(), // ISO timestamp
+  productIds: integer("product_ids").array().notNull().default(sql`ARRAY[]::integer[]`), // Empty together with teaTypes = whole catalog
+  teaTypes: text("tea_types").array().notNull().default(sql`ARRAY[]::text[]`),
+  showBanner: boolean("show_banner").notNull().default(true), // Countdown banner on the home page while running
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: text("created_at").notNull().default(sql`CURRENT_TIMESTAMP`),
+});
+
+const requiredDateSchema = z.string({ required_error: "Укажите дату" })
+  .refine(v => !isNaN(Date.parse(v)), "Некорректная дата")
+  .transform(v => new Date(v).toISOString());
+
+export const saleCampaignInputSchema = z.object({
+  name: z.string().trim().min(2, "Название должно содержать минимум 2 символа").max(100),
+  description: z.string().trim().max(300).nullable().optional(),
+  discountPercent: z.number().positive("Скидка должна быть больше 0").max(90, "Скидка не может быть больше 90%"),
+  startsAt: requiredDateSchema,
+  endsAt: requiredDateSchema,
+  productIds: z.array(z.number().int().positive()).default([]),
+  teaTypes: z.array(z.string().trim().min(1)).default([]),
+  showBanner: z.boolean().default(true),
+  isActive: z.boolean().default(true),
+}).refine(v => v.startsAt < v.endsAt, {
+  message: "Дата окончания должна быть позже даты начала",
+  path: ["endsAt"],
+});
+
+export type SaleCampaign = typeof saleCampaigns.$inferSelect;
+export type SaleCampaignInput = z.infer<typeof saleCampaignInputSchema>;
+
+// Gift certificates: bought through Tinkoff like wallet top-ups (or issued by an admin),
+// the recipient redeems the code into their wallet. See shared/giftCertificates.ts
+export const GIFT_CERTIFICATE_STATUSES = ["pending", "active", "redeemed", "cancelled"] as const;
+export type GiftCertificateStatus = typeof GIFT_CERTIFICATE_STATUSES[number];
+
+export const giftCertificates = pgTable("gift_certificates", {
+  id: serial("id").primaryKey(),
+  code: text("code").notNull().unique(), // XXXX-XXXX-XXXX, secret until paid
+  amount: integer("amount").notNull(), // Kopecks, like the wallet balance
+  status: text("status").notNull().default("pending"), // "pending" (awaiting payment) | "active" | "redeemed" | "cancelled"
+  source: text("source").notNull().default("purchase"), // "purchase" | "manual"
+  buyerName: text("buyer_name"),
+  buyerPhone: text("buyer_phone"),
+  buyerEmail: text("buyer_email"),
+  recipientName: text("recipient_name"),
+  recipientPhone: text("recipient_phone"), // Code goes here by SMS, else to the buyer
+  recipientEmail: text("recipient_email"),
+  message: text("message"), // Printed on the certificate
+  paymentId: text("payment_id"), // Tinkoff payment for purchased certificates
+  issuedBy: text("issued_by"), // Admin who issued a manual certificate
+  expiresAt: text("expires_at").notNull(), // ISO timestamp
+  paidAt: text("paid_at"),
+  redeemedBy: varchar("redeemed_by").references(() => users.id, { onDelete: "set null" }),
+  redeemedAt: text("redeemed_at"),
+  createdAt: text("created_at").notNull().default(sql`CURRENT_TIMESTAMP`),
+});
+
+const optionalContactSchema = {
+  phone: z.string().trim().min(10, "Введите корректный номер телефона").nullable().optional()
+    .or(z.literal("").transform(() => null)),
+  email: z.string().trim().email("Введите корректный email").nullable().optional()
+    .or(z.literal("").transform(() => null)),
+};
+
+export const giftCertificatePurchaseSchema = z.object({
+  amount: z.number().int("Сумма в целых рублях").min(500, "Сертификат от 500 ₽").max(50000, "Сертификат до 50 000 ₽"), // Rubles
+  buyerName: z.string().trim().min(2, "Имя должно содержать минимум 2 символа").max(100),
+  buyerPhone: z.string().trim().min(10, "Введите корректный номер телефона"),
+  buyerEmail: optionalContactSchema.email,
+  recipientName: z.string().trim().max(100).nullable().optional(),
+  recipientPhone: optionalContactSchema.phone,
+  recipientEmail: optionalContactSchema.email,
+  message: z.string().trim().max(300, "Пожелание до 300 символов").nullable().optional(),
+});
+
+export const giftCertificateIssueSchema = z.object({
+  amount: z.number().int("Сумма в целых рублях").min(100, "Сертификат от 100 ₽").max(100000), // Rubles
+  recipientName: z.string().trim().max(100).nullable().optional(),
+  recipientPhone: optionalContactSchema.phone,
+  recipientEmail: optionalContactSchema.email,
+  message: z.string().trim().max(300, "Пожелание до 300 символов").nullable().optional(),
+  expiresAt: z.string()
+    .refine(v => !isNaN(Date.parse(v)), "Некорректная дата")
+    .refine(v => Date.parse(v) > Date.now(), "Дата должна быть в будущем")
+    .transform(v => new Date(v).toISOString())
+    .nullable()
+    .optional(),
+});
+
+export const redeemGiftCertificateSchema = z.object({
+  code: z.string().trim().min(1, "Введите код сертификата").max(32),
+});
+
+export type GiftCertificate = typeof giftCertificates.$inferSelect;
+export type InsertGiftCertificate = typeof giftCertificates.$inferInsert;
+export type GiftCertificatePurchase = z.infer<typeof giftCertificatePurchaseSchema>;
+export type GiftCertificateIssue = z.infer<typeof giftCertificateIssueSchema>;
+// What the printable certificate page may show: no buyer contacts
+export type PublicGiftCertificate = Pick<GiftCertificate, "code" | "amount" | "recipientName" | "message" | "expiresAt"> & {
+  state: "active" | "redeemed" | "expired" | "cancelled";
+};
+
+// Referral program: a friend who registers with a customer's code is attributed here, and
+// both get the bonus once the friend's first order is completed. See shared/referrals.ts
+export const REFERRAL_REWARD_TYPES = ["xp", "wallet"] as const;
+export type ReferralRewardType = typeof REFERRAL_REWARD_TYPES[number];
+
+// What happens to XP over time: kept forever, expires after N months, or the level follows the last N months
+export const XP_POLICIES = ["none", "expiration", "rolling"] as const;
+export type XpPolicy = typeof XP_POLICIES[number];
+
+// What the customer is about to lose if they don't buy anything; dates are ISO strings
+export interface XpPolicyForecast {
+  policy: XpPolicy;
+  months: number;
+  expiration: { amount: number; expiresAt: string } | null; // "expiration": the next XP to expire
+  levelDrop: { currentLevel: string; nextLevel: string; at: string } | null; // "rolling": the next level downgrade
+}
+
+export const referrals = pgTable("referrals", {
+  id: serial("id").primaryKey(),
+  referrerId: varchar("referrer_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  refereeId: varchar("referee_id").notNull().unique().references(() => users.id, { onDelete: "cascade" }), // One referrer per customer
+  status: text("status").notNull().default("registered"), // "registered" | "rewarded"
+  orderId: integer("order_id"), // The completed order that earned the bonus
+  rewardType: text("reward_type"), // "xp" | "wallet", as configured at the time of the reward
+  referrerReward: integer("referrer_reward").notNull().default(0), // XP, or kopecks for the wallet
+  refereeReward: integer("referee_reward").notNull().default(0),
+  rewardedAt: text("rewarded_at"),
+  createdAt: text("created_at").notNull().default(sql`CURRENT_TIMESTAMP`),
+});
+
+export type Referral = typeof referrals.$inferSelect;
+
+export interface ReferralStats {
+  code: string | null; // null until the phone is verified
+  link: string | null;
+  botLink: string | null;
+  invited: number;
+  rewarded: number;
+  earnedXp: number;
+  earnedWallet: number; // Kopecks
+  rewardType: ReferralRewardType;
+  referrerReward: number; // Current settings: XP, or rubles for the wallet
+  refereeReward: number;
+}
+
+// Shown on the registration page opened from a referral link
+export interface ReferralInvitation {
+  referrerName: string | null; // First name only
+  rewardType: ReferralRewardType;
+  refereeReward: number;
+}
+
+export type AdminReferral = Referral & {
+  referrerName: string | null;
+  referrerPhone: string;
+  refereeName: string | null;
+  refereePhone: string;
+};
 
 // Cart Items table
 export const cartItems = pgTable("cart_items", {
   id: serial("id").primaryKey(),
   userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
   productId: integer("product_id").notNull().references(() => products.id, { onDelete: "cascade" }),
+  variantId: integer("variant_id").references(() => productVariants.id, { onDelete: "cascade" }), // null = legacy line priced per gram
   quantity: integer("quantity").notNull(), // quantity in grams or pieces
   pricePerUnit: real("price_per_unit"), // price per gram/piece at time of adding (null = use product price)
   addedAt: text("added_at").notNull().default(sql`CURRENT_TIMESTAMP`),
 }, (table) => ({
-  userProductUnique: sql`CONSTRAINT ${sql.identifier("cart_items_user_product_unique")} UNIQUE (${table.userId}, ${table.productId})`
+  // Same expression as the startup migration: legacy lines without a variant are unique per product too
+  userProductVariantUnique: uniqueIndex("cart_items_user_product_variant_unique").on(table.userId, table.productId, sql`COALESCE(${table.variantId}, 0)`),
 }));
 
 export const insertCartItemSchema = createInsertSchema(cartItems, {
   userId: z.string(),
   productId: z.number().int().positive(),
+  variantId: z.number().int().positive().optional().nullable(),
   quantity: z.number().int().positive("Количество должно быть больше 0"),
   pricePerUnit: z.number().positive().optional().nullable(),
 }).omit({ id: true, addedAt: true });
@@ -331,6 +958,25 @@ export type InsertCartItem = z.infer<typeof insertCartItemSchema>;
 export type UpdateCartItem = z.infer<typeof updateCartItemSchema>;
 export type CartItem = typeof cartItems.$inferSelect;
 
+// Favourites of logged-in customers, shared by the site and the Telegram bot.
+// Guests keep theirs in localStorage until they log in.
+export const favorites = pgTable("favorites", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  productId: integer("product_id").notNull().references(() => products.id, { onDelete: "cascade" }),
+  createdAt: text("created_at").notNull().default(sql`CURRENT_TIMESTAMP`),
+});
+
+export const favoriteInputSchema = z.object({
+  productId: z.number().int().positive(),
+});
+
+export const mergeFavoritesSchema = z.object({
+  productIds: z.array(z.number().int().positive()).max(200),
+});
+
+export type Favorite = typeof favorites.$inferSelect;
+
 // Site Settings table
 export const siteSettings = pgTable("site_settings", {
   id: serial("id").primaryKey(),
@@ -340,16 +986,31 @@ export const siteSettings = pgTable("site_settings", {
   deliveryInfo: text("delivery_info").notNull(),
   // First order discount (percentage)
   firstOrderDiscount: integer("first_order_discount").notNull().default(20),
-  // Loyalty program settings
+  // XP multiplier (XP per 1 ruble spent)
+  xpMultiplier: integer("xp_multiplier").notNull().default(1),
+  // Points mode: customers spend XP as rubles off an order
+  xpRedemptionEnabled: boolean("xp_redemption_enabled").notNull().default(false),
+  xpPerRuble: integer("xp_per_ruble").notNull().default(10), // XP spent for 1 ruble off
+  xpRedemptionMaxPercent: integer("xp_redemption_max_percent").notNull().default(30), // Max share of the order paid with points
+  // Referral bonus for both sides after the friend's first completed order
+  referralRewardType: text("referral_reward_type").notNull().default("xp"), // "xp" | "wallet"
+  referralReferrerReward: integer("referral_referrer_reward").notNull().default(500), // XP, or rubles for the wallet
+  referralRefereeReward: integer("referral_referee_reward").notNull().default(300),
+  // XP expiration or level retention, see shared/xpPolicy.ts
+  xpPolicy: text("xp_policy").notNull().default("none"), // "none" | "expiration" | "rolling"
+  xpPolicyMonths: integer("xp_policy_months").notNull().default(12), // XP lifetime, or the rolling window
+  xpPolicyWarningDays: integer("xp_policy_warning_days").notNull().default(14), // Customers are warned this long in advance
+  xpPolicyStartedAt: text("xp_policy_started_at"), // When the policy was switched on; XP earned before counts as earned then
+  // Shop-wide volume discount for tea bought by custom weight; categories and products can override
+  volumeDiscountTiers: jsonb("volume_discount_tiers").$type<VolumeDiscountTier[]>().notNull().default(sql`'[{"minQuantity":100,"percent":10}]'::jsonb`),
+  // Deprecated: loyalty levels live in loyalty_levels. Kept so db:push doesn't drop them before
+  // the startup migration has copied them there; remove once every database has been migrated.
   loyaltyLevel2MinXP: integer("loyalty_level2_min_xp").notNull().default(3000),
   loyaltyLevel2Discount: integer("loyalty_level2_discount").notNull().default(5),
   loyaltyLevel3MinXP: integer("loyalty_level3_min_xp").notNull().default(7000),
   loyaltyLevel3Discount: integer("loyalty_level3_discount").notNull().default(10),
   loyaltyLevel4MinXP: integer("loyalty_level4_min_xp").notNull().default(15000),
   loyaltyLevel4Discount: integer("loyalty_level4_discount").notNull().default(15),
-  // XP multiplier (XP per 1 ruble spent)
-  xpMultiplier: integer("xp_multiplier").notNull().default(1),
-  // Loyalty level perks (additional benefits descriptions)
   loyaltyLevel1Perks: text("loyalty_level1_perks").array().notNull().default(sql`ARRAY['Доступ к базовому каталогу']::text[]`),
   loyaltyLevel2Perks: text("loyalty_level2_perks").array().notNull().default(sql`ARRAY['Доступ к базовому каталогу']::text[]`),
   loyaltyLevel3Perks: text("loyalty_level3_perks").array().notNull().default(sql`ARRAY['Персональный чат с консультациями', 'Приглашения на закрытые чайные вечеринки', 'Возможность запросить любой чай']::text[]`),
@@ -362,17 +1023,17 @@ export const insertSiteSettingsSchema = createInsertSchema(siteSettings, {
   contactTelegram: z.string().min(1, "Введите Telegram"),
   deliveryInfo: z.string().min(10, "Введите информацию о доставке"),
   firstOrderDiscount: z.number().int().min(0).max(100).default(20),
-  loyaltyLevel2MinXP: z.number().int().min(0).default(3000),
-  loyaltyLevel2Discount: z.number().int().min(0).max(100).default(5),
-  loyaltyLevel3MinXP: z.number().int().min(0).default(7000),
-  loyaltyLevel3Discount: z.number().int().min(0).max(100).default(10),
-  loyaltyLevel4MinXP: z.number().int().min(0).default(15000),
-  loyaltyLevel4Discount: z.number().int().min(0).max(100).default(15),
   xpMultiplier: z.number().int().min(1).max(10).default(1),
-  loyaltyLevel1Perks: z.array(z.string()).default(["Доступ к базовому каталогу"]),
-  loyaltyLevel2Perks: z.array(z.string()).default(["Доступ к базовому каталогу"]),
-  loyaltyLevel3Perks: z.array(z.string()).default(["Персональный чат с консультациями", "Приглашения на закрытые чайные вечеринки", "Возможность запросить любой чай"]),
-  loyaltyLevel4Perks: z.array(z.string()).default(["Все привилегии уровня 3", "Приоритетное обслуживание", "Эксклюзивные предложения"]),
+  xpRedemptionEnabled: z.boolean().default(false),
+  xpPerRuble: z.number().int().min(1).default(10),
+  xpRedemptionMaxPercent: z.number().int().min(1).max(100).default(30),
+  referralRewardType: z.enum(REFERRAL_REWARD_TYPES).default("xp"),
+  referralReferrerReward: z.number().int().min(0).default(500),
+  referralRefereeReward: z.number().int().min(0).default(300),
+  xpPolicy: z.enum(XP_POLICIES).default("none"),
+  xpPolicyMonths: z.number().int().min(1).max(60).default(12),
+  xpPolicyWarningDays: z.number().int().min(1).max(90).default(14),
+  volumeDiscountTiers: volumeDiscountTiersSchema.optional(),
 }).omit({ id: true });
 
 export const updateSiteSettingsSchema = z.object({
@@ -381,23 +1042,53 @@ export const updateSiteSettingsSchema = z.object({
   contactTelegram: z.string().min(1, "Введите Telegram").optional(),
   deliveryInfo: z.string().min(10, "Введите информацию о доставке").optional(),
   firstOrderDiscount: z.number().int().min(0).max(100).optional(),
-  loyaltyLevel2MinXP: z.number().int().min(0).optional(),
-  loyaltyLevel2Discount: z.number().int().min(0).max(100).optional(),
-  loyaltyLevel3MinXP: z.number().int().min(0).optional(),
-  loyaltyLevel3Discount: z.number().int().min(0).max(100).optional(),
-  loyaltyLevel4MinXP: z.number().int().min(0).optional(),
-  loyaltyLevel4Discount: z.number().int().min(0).max(100).optional(),
   xpMultiplier: z.number().int().min(1).max(10).optional(),
-  loyaltyLevel1Perks: z.array(z.string()).optional(),
-  loyaltyLevel2Perks: z.array(z.string()).optional(),
-  loyaltyLevel3Perks: z.array(z.string()).optional(),
-  loyaltyLevel4Perks: z.array(z.string()).optional(),
+  xpRedemptionEnabled: z.boolean().optional(),
+  xpPerRuble: z.number().int().min(1).optional(),
+  xpRedemptionMaxPercent: z.number().int().min(1).max(100).optional(),
+  referralRewardType: z.enum(REFERRAL_REWARD_TYPES).optional(),
+  referralReferrerReward: z.number().int().min(0).optional(),
+  referralRefereeReward: z.number().int().min(0).optional(),
+  xpPolicy: z.enum(XP_POLICIES).optional(),
+  xpPolicyMonths: z.number().int().min(1, "Срок — минимум 1 месяц").max(60).optional(),
+  xpPolicyWarningDays: z.number().int().min(1).max(90).optional(),
+  volumeDiscountTiers: volumeDiscountTiersSchema.optional(),
 });
 
 export type InsertSiteSettings = z.infer<typeof insertSiteSettingsSchema>;
 export type UpdateSiteSettings = z.infer<typeof updateSiteSettingsSchema>;
 export type SiteSettings = typeof siteSettings.$inferSelect;
 
+// Loyalty program levels; a customer is on the highest level their XP reaches (see shared/loyalty.ts)
+export const loyaltyLevels = pgTable("loyalty_levels", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  minXP: integer("min_xp").notNull().unique(),
+  discount: integer("discount").notNull().default(0), // Percent off every order
+  color: text("color").notNull().default("#6B7280"), // Badge colour on the site
+  icon: text("icon").notNull().default("🏆"), // Emoji, shown on the site and in the bot
+  perks: text("perks").array().notNull().default(sql`ARRAY[]::text[]`), // Benefits besides the discount
+  createdAt: text("created_at").notNull().default(sql`CURRENT_TIMESTAMP`),
+});
+
+export const loyaltyLevelInputSchema = z.object({
+  name: z.string().trim().min(1, "Укажите название уровня"),
+  minXP: z.number().int().min(0, "Порог XP не может быть отрицательным"),
+  discount: z.number().int().min(0).max(100, "Скидка не может быть больше 100%"),
+  color: z.string().regex(/^#[0-9a-fA-F]{6}$/, "Цвет указывается в формате #RRGGBB"),
+  icon: z.string().trim().min(1, "Укажите значок уровня").max(16),
+  perks: z.array(z.string().trim().min(1)).max(10, "Не более 10 бонусов на уровне").default([]),
+});
+
+export const loyaltyLevelsInputSchema = z.array(loyaltyLevelInputSchema)
+  .min(1, "Добавьте хотя бы один уровень")
+  .max(10, "Не более 10 уровней")
+  .refine(levels => levels.some(level => level.minXP === 0), "Нужен начальный уровень с порогом 0 XP")
+  .refine(levels => new Set(levels.map(level => level.minXP)).size === levels.length, "У двух уровней одинаковый порог XP");
+
+export type LoyaltyLevelInput = z.infer<typeof loyaltyLevelInputSchema>;
+export type DbLoyaltyLevel = typeof loyaltyLevels.$inferSelect;
+
 // Saved Addresses table
 export const savedAddresses = pgTable("saved_addresses", {
   id: serial("id").primaryKey(),
@@ -469,6 +1160,7 @@ export const telegramCart = pgTable("telegram_cart", {
   id: serial("id").primaryKey(),
   userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
   productId: integer("product_id").notNull().references(() => products.id, { onDelete: "cascade" }),
+  variantId: integer("variant_id").references(() => productVariants.id, { onDelete: "cascade" }),
   quantity: integer("quantity").notNull().default(1), // For tea: grams, for teaware: pieces
   createdAt: text("created_at").notNull().default(sql`CURRENT_TIMESTAMP`),
   updatedAt: text("updated_at").notNull().default(sql`CURRENT_TIMESTAMP`),
@@ -477,6 +1169,7 @@ export const telegramCart = pgTable("telegram_cart", {
 export const insertTelegramCartSchema = createInsertSchema(telegramCart, {
   userId: z.string().min(1),
   productId: z.number().int().positive(),
+  variantId: z.number().int().positive().optional().nullable(),
   quantity: z.number().int().positive(),
 }).omit({ id: true, createdAt: true, updatedAt: true });
 
@@ -497,11 +1190,21 @@ export const pendingTelegramOrders = pgTable("pending_telegram_orders", {
   discount: integer("discount").notNull().default(0), // Discount in kopecks
   total: integer("total").notNull(), // Final amount in kopecks
   discountType: text("discount_type"), // "first_order" | "loyalty" | null
+  usedCustomDiscount: boolean("used_custom_discount").notNull().default(false), // The one-shot individual discount is cleared once the order is paid
+  promoCodeId: integer("promo_code_id"),
+  promoCode: text("promo_code"),
+  promoDiscount: integer("promo_discount").notNull().default(0), // In kopecks, included in discount
+  walletAmount: integer("wallet_amount").notNull().default(0), // In kopecks, part of total already taken from the wallet
+  walletTransactionId: integer("wallet_transaction_id"), // The "purchase" entry, linked to the real order once it's created
+  xpPoints: integer("xp_points").notNull().default(0), // XP already taken for the points discount
+  xpTransactionId: integer("xp_transaction_id"), // The "points_redemption" entry, linked like walletTransactionId
+  paymentId: text("payment_id"), // Tinkoff PaymentId once the payment is created, so an abandoned payment can be cancelled
   status: text("status").notNull().default("pending"), // "pending" | "paid" | "cancelled"
   createdAt: text("created_at").notNull().default(sql`CURRENT_TIMESTAMP`),
 });
 
 export type PendingTelegramOrder = typeof pendingTelegramOrders.$inferSelect;
+export type InsertPendingTelegramOrder = typeof pendingTelegramOrders.$inferInsert;
 
 // Telegram Questions - for "Ask a Question" feature in bot
 export const telegramQuestions = pgTable("telegram_questions", {
@@ -626,6 +1329,8 @@ export const updateInfoBannerSchema = z.object({
 export type InsertInfoBanner = z.infer<typeof insertInfoBannerSchema>;
 export type UpdateInfoBanner = z.infer<typeof updateInfoBannerSchema>;
 export type InfoBanner = typeof infoBanners.$inferSelect;
+// Served by /api/banners: sale campaigns add generated banners that count down to countdownTo
+export type PublicInfoBanner = InfoBanner & { countdownTo?: string | null };
 export type BannerButton = z.infer<typeof bannerButtonSchema>;
 
 // Leaderboard types
@@ -0,0 +1,34 @@
+// Russian → Latin transliteration for product URLs (/product/shen-puer-2019)
+const TRANSLIT: Record<string, string> = {
+  а: "a", б: "b", в: "v", г: "g", д: "d", е: "e", ё: "e", ж: "zh", з: "z", и: "i", й: "y",
+  к: "k", л: "l", м: "m", н: "n", о: "o", п: "p", р: "r", с: "s", т: "t", у: "u", ф: "f",
+  х: "kh", ц: "ts", ч: "ch", ш: "sh", щ: "shch", ъ: "", ы: "y", ь: "", э: "e", ю: "yu", я: "ya",
+};
+
+export const SLUG_MAX_LENGTH = 80;
+export const SLUG_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
+export function slugify(text: string): string {
+  const slug = text
+    .toLowerCase()
+    .split("")
+    .map(char => TRANSLIT[char] ?? char)
+    .join("")
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, SLUG_MAX_LENGTH)
+    .replace(/-+$/, "");
+  if (!slug) return "product";
+  return isLegacyProductId(slug) ? `product-${slug}` : slug;
+}
+
+/**
+ * Numeric ids are reserved for the old /product/:id links, so a slug always contains a letter
+ */
+export function isLegacyProductId(value: string): boolean {
+  return /^\d+$/.test(value);
+}
+
+export function getProductPath(product: { id: number; slug: string | null }): string {
+  return `/product/${product.slug || product.id}`;
+}
@@ -0,0 +1,186 @@
+import type { Product, ProductVariant, ProductVariantInput } from "./schema";
+import { DEFAULT_VOLUME_DISCOUNT_TIERS, applyVolumeDiscount, type VolumeDiscountTier } from "./volumeDiscounts";
+
+type VariantLike = Pick<ProductVariant, "price" | "weight">;
+
+/**
+ * Price of one cart unit for a variant: per gram for weighted variants,
+ * per piece otherwise. Cart and order quantities stay in grams/pieces.
+ */
+export function getVariantUnitPrice(variant: VariantLike): number {
+  return variant.weight ? variant.price / variant.weight : variant.price;
+}
+
+/**
+ * How much one "pack" of the variant adds to the cart quantity
+ */
+export function getVariantStep(variant: Pick<ProductVariant, "weight">): number {
+  return variant.weight || 1;
+}
+
+/**
+ * A variant is available while it has packs left, or - when its own stock isn't tracked -
+ * while the product stock (grams/pieces) still covers one pack
+ */
+export function isVariantInStock(variant: Pick<ProductVariant, "stock" | "weight">, productStock: number | null = null): boolean {
+  if (variant.stock !== null) return variant.stock > 0;
+  if (productStock !== null) return productStock >= getVariantStep(variant);
+  return true;
+}
+
+/**
+ * Whether the requested quantity (grams/pieces) can be taken from stock
+ */
+export function hasEnoughStock(
+  product: Pick<Product, "stock" | "outOfStock">,
+  variant: Pick<ProductVariant, "stock" | "weight"> | null | undefined,
+  quantity: number
+): boolean {
+  if (product.outOfStock) return false;
+  if (variant && variant.stock !== null) return variant.stock >= getVariantPackCount(variant, quantity);
+  if (product.stock !== null) return product.stock >= quantity;
+  return true;
+}
+
+/**
+ * Number of packs in a cart/order quantity (grams or pieces)
+ */
+export function getVariantPackCount(variant: Pick<ProductVariant, "weight">, quantity: number): number {
+  return Math.max(1, Math.round(quantity / getVariantStep(variant)));
+}
+
+/**
+ * Availability derived from stock: null when nothing is tracked and outOfStock stays manual
+ */
+export function getStockAvailability(product: Pick<Product, "stock">, variants: Pick<ProductVariant, "stock" | "weight">[]): boolean | null {
+  const isTracked = product.stock !== null || variants.some(v => v.stock !== null);
+  if (!isTracked) return null;
+  if (variants.length === 0) return (product.stock ?? 0) > 0;
+  return variants.some(v => isVariantInStock(v, product.stock));
+}
+
+export function isLowStock(product: Pick<Product, "stock" | "lowStockThreshold">, variants: Pick<ProductVariant, "stock">[]): boolean {
+  const threshold = product.lowStockThreshold;
+  if (threshold === null) return false;
+  return (product.stock !== null && product.stock <= threshold)
+    || variants.some(v => v.stock !== null && v.stock <= threshold);
+}
+
+export function sortVariants<T extends Pick<ProductVariant, "sortOrder" | "id">>(variants: T[]): T[] {
+  return [...variants].sort((a, b) => a.sortOrder - b.sortOrder || a.id - b.id);
+}
+
+export function getDefaultVariant<T extends Pick<ProductVariant, "isDefault" | "sortOrder" | "id" | "stock" | "weight">>(variants: T[], productStock: number | null = null): T | undefined {
+  const sorted = sortVariants(variants);
+  return sorted.find(v => v.isDefault && isVariantInStock(v, productStock))
+    || sorted.find(v => isVariantInStock(v, productStock))
+    || sorted[0];
+}
+
+/**
+ * Per-gram price of a custom weight after its volume discount (resolveVolumeDiscountTiers).
+ * Without tiers tea gets the original 10% from 100g, which the variant migration below relies on.
+ */
+export function getLegacyUnitPrice(product: Pick<Product, "pricePerGram" | "category">, quantity: number, tiers?: VolumeDiscountTier[]): number {
+  const effectiveTiers = tiers ?? (product.category === "tea" ? DEFAULT_VOLUME_DISCOUNT_TIERS : []);
+  return applyVolumeDiscount(product.pricePerGram, effectiveTiers, quantity);
+}
+
+/**
+ * Build variants from the legacy availableQuantities / fixedQuantity fields.
+ * Prices keep the old 10% bulk discount baked in, so the migration does not change what customers pay.
+ */
+export function buildVariantsFromLegacy(
+  product: Pick<Product, "id" | "category" | "pricingUnit" | "pricePerGram" | "availableQuantities" | "defaultQuantity" | "fixedQuantityOnly" | "fixedQuantity">
+): ProductVariantInput[] {
+  const isSoldByPiece = product.pricingUnit === "piece" || product.category === "teaware";
+
+  if (product.fixedQuantityOnly && product.fixedQuantity) {
+    const weight = product.fixedQuantity;
+    return [{
+      name: isSoldByPiece ? `${weight} шт` : `${weight} г`,
+      sku: `P${product.id}-${weight}`,
+      weight: isSoldByPiece ? null : weight,
+      price: isSoldByPiece
+        ? Math.round(product.pricePerGram * weight)
+        : Math.round(getLegacyUnitPrice(product, weight) * weight),
+      stock: null,
+      isDefault: true,
+      sortOrder: 0,
+    }];
+  }
+
+  if (isSoldByPiece) {
+    return [{
+      name: "1 шт",
+      sku: `P${product.id}`,
+      weight: null,
+      price: product.pricePerGram,
+      stock: null,
+      isDefault: true,
+      sortOrder: 0,
+    }];
+  }
+
+  const weights = Array.from(new Set(
+    product.availableQuantities
+      .map(q => parseInt(q, 10))
+      .filter(q => !isNaN(q) && q > 0)
+  )).sort((a, b) => a - b);
+
+  if (weights.length === 0) {
+    weights.push(100);
+  }
+
+  const defaultWeight = product.defaultQuantity ? parseInt(product.defaultQuantity, 10) : weights[0];
+
+  return weights.map((weight, index) => ({
+    name: `${weight} г`,
+    sku: `P${product.id}-${weight}`,
+    weight,
+    price: Math.round(getLegacyUnitPrice(product, weight) * weight),
+    stock: null,
+    isDefault: weight === defaultWeight,
+    sortOrder: index,
+  }));
+}
+
+/**
+ * Keep the legacy quantity columns in sync with variants for older clients (mobile app, cached bundles)
+ */
+export function legacyFieldsFromVariants(variants: Pick<ProductVariantInput, "weight" | "isDefault">[]) {
+  const weights = variants.map(v => v.weight || 1);
+  const defaultVariant = variants.find(v => v.isDefault) || variants[0];
+  return {
+    availableQuantities: Array.from(new Set(weights)).sort((a, b) => a - b).map(String),
+    defaultQuantity: defaultVariant ? String(defaultVariant.weight || 1) : null,
+    fixedQuantityOnly: variants.length === 1 && !!variants[0].weight,
+    fixedQuantity: variants.length === 1 && variants[0].weight ? variants[0].weight : null,
+  };
+}
+
+export interface PriceEdit {
+  variantId: number | null; // null = base price (pricePerGram)
+  variantName: string | null;
+  oldPrice: number | null; // null when the product or variant is new
+  newPrice: number;
+}
+
+/**
+ * Prices that differ between two versions of a product: the base price and every variant by id
+ */
+export function getPriceEdits(
+  before: { pricePerGram: number; variants: Pick<ProductVariant, "id" | "name" | "price">[] } | null,
+  after: { pricePerGram: number; variants: Pick<ProductVariant, "id" | "name" | "price">[] }
+): PriceEdit[] {
+  const edits: PriceEdit[] = [
+    { variantId: null, variantName: null, oldPrice: before?.pricePerGram ?? null, newPrice: after.pricePerGram },
+    ...after.variants.map(v => ({
+      variantId: v.id,
+      variantName: v.name,
+      oldPrice: before?.variants.find(old => old.id === v.id)?.price ?? null,
+      newPrice: v.price,
+    })),
+  ];
+  return edits.filter(edit => edit.newPrice !== edit.oldPrice);
+}
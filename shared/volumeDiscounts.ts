@@ -0,0 +1,61 @@
+import type { Category } from "./schema";
+import { getCategoryPath } from "./categories";
+
+/*
+ * Volume discounts for tea bought by custom weight: "от 100 г −10%, от 357 г −15%".
+ * The shop-wide tiers live in site settings; a category or a product can replace them
+ * with its own list (an empty list switches the discount off, null inherits).
+ * Variant packs are priced by the admin and never get a volume discount on top.
+ */
+
+export interface VolumeDiscountTier {
+  minQuantity: number; // Grams in the cart line
+  percent: number;
+}
+
+// What the shop used before tiers were configurable
+export const DEFAULT_VOLUME_DISCOUNT_TIERS: VolumeDiscountTier[] = [{ minQuantity: 100, percent: 10 }];
+
+export function sortVolumeDiscountTiers(tiers: VolumeDiscountTier[]): VolumeDiscountTier[] {
+  return [...tiers].sort((a, b) => a.minQuantity - b.minQuantity);
+}
+
+/**
+ * Tiers for the product: its own list, else the nearest category up the tree that has one,
+ * else the shop-wide list. Teaware is sold by the piece and has no volume discount.
+ */
+export function resolveVolumeDiscountTiers(
+  product: { category: string; categoryId?: number | null; volumeDiscountTiers?: VolumeDiscountTier[] | null },
+  categories: Category[],
+  defaults: VolumeDiscountTier[] = DEFAULT_VOLUME_DISCOUNT_TIERS
+): VolumeDiscountTier[] {
+  if (product.category !== "tea") return [];
+  if (product.volumeDiscountTiers) return sortVolumeDiscountTiers(product.volumeDiscountTiers);
+  const path = getCategoryPath(categories, product.categoryId ?? null);
+  const inherited = [...path].reverse().find(category => category.volumeDiscountTiers);
+  return sortVolumeDiscountTiers(inherited?.volumeDiscountTiers ?? defaults);
+}
+
+export function getVolumeDiscountPercent(tiers: VolumeDiscountTier[], quantity: number): number {
+  return tiers.reduce((percent, tier) => (quantity >= tier.minQuantity ? Math.max(percent, tier.percent) : percent), 0);
+}
+
+/**
+ * The next tier worth reaching from this quantity, for "ещё 50 г до скидки 10%" hints
+ */
+export function getNextVolumeDiscountTier(
+  tiers: VolumeDiscountTier[],
+  quantity: number
+): { tier: VolumeDiscountTier; missing: number } | null {
+  const current = getVolumeDiscountPercent(tiers, quantity);
+  const tier = sortVolumeDiscountTiers(tiers).find(t => t.minQuantity > quantity && t.percent > current);
+  return tier ? { tier, missing: tier.minQuantity - quantity } : null;
+}
+
+export function applyVolumeDiscount(pricePerGram: number, tiers: VolumeDiscountTier[], quantity: number): number {
+  return pricePerGram * (1 - getVolumeDiscountPercent(tiers, quantity) / 100);
+}
+
+export function formatVolumeDiscountHint(next: { tier: VolumeDiscountTier; missing: number }): string {
+  return `Ещё ${next.missing} г до скидки ${next.tier.percent}%`;
+}
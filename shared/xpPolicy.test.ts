@@ -0,0 +1,55 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { getLevelXp } from "./loyalty";
+import { getExpiredXp, getExpiredPointsSpent, type XpAccrual, type XpPolicySettings } from "./xpPolicy";
+
+const settings: XpPolicySettings = {
+  policy: "expiration",
+  months: 12,
+  warningDays: 14,
+  startedAt: new Date("2024-01-01T00:00:00Z"),
+};
+const now = new Date("2025-03-01T00:00:00Z");
+
+// One pass of the policy for a single customer, the way applyXpPolicy runs it
+function expire(user: { xp: number; xpPointsSpent: number }, accruals: XpAccrual[]) {
+  const xp = user.xp - getExpiredXp(user.xp, accruals, settings, now);
+  const xpPointsSpent = user.xpPointsSpent - getExpiredPointsSpent(xp, user.xpPointsSpent, accruals, settings, now);
+  return { xp, xpPointsSpent };
+}
+
+test("points spent from XP that has since expired stop counting towards the level", () => {
+  const accruals = [{ amount: 1000, createdAt: new Date("2024-02-01T00:00:00Z") }];
+  const held = expire({ xp: 1000, xpPointsSpent: 0 }, accruals);
+  const spent = expire({ xp: 0, xpPointsSpent: 1000 }, accruals);
+
+  assert.equal(getLevelXp(held), 0);
+  assert.equal(getLevelXp(spent), 0);
+});
+
+test("points spent from XP earned within the window keep counting", () => {
+  const accruals = [{ amount: 1000, createdAt: new Date("2024-06-01T00:00:00Z") }];
+  const spent = expire({ xp: 400, xpPointsSpent: 600 }, accruals);
+
+  assert.deepEqual(spent, { xp: 400, xpPointsSpent: 600 });
+  assert.equal(getLevelXp(spent), 1000);
+});
+
+test("spending the oldest XP leaves the same level as holding it", () => {
+  const accruals = [
+    { amount: 1000, createdAt: new Date("2024-02-01T00:00:00Z") },
+    { amount: 500, createdAt: new Date("2024-06-01T00:00:00Z") },
+  ];
+  const held = expire({ xp: 1500, xpPointsSpent: 0 }, accruals);
+  const spent = expire({ xp: 500, xpPointsSpent: 1000 }, accruals);
+
+  assert.equal(getLevelXp(held), 500);
+  assert.equal(getLevelXp(spent), 500);
+});
+
+test("nothing stops counting before a full window has passed since the policy started", () => {
+  const accruals = [{ amount: 1000, createdAt: new Date("2024-02-01T00:00:00Z") }];
+  const early = new Date("2024-11-01T00:00:00Z");
+
+  assert.equal(getExpiredPointsSpent(0, 1000, accruals, settings, early), 0);
+});
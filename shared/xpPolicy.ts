@@ -0,0 +1,149 @@
+import type { SiteSettings, XpPolicy } from "./schema";
+import { getLoyaltyLevel, type LoyaltyLevel } from "./loyalty";
+
+/*
+ * XP expiration and level retention. With "expiration", XP earned more than N months ago
+ * expires; the oldest XP is spent first, so only the balance beyond what was earned in the
+ * last N months goes, and points spent at checkout stop counting towards the level the same way. With "rolling", the balance stays (points can still be spent) but the
+ * level follows the XP earned in the last N months. Either policy counts from the moment it
+ * was switched on: XP earned before then is treated as earned at that moment, so nothing is
+ * lost during the first N months.
+ */
+
+export interface XpPolicySettings {
+  policy: Exclude<XpPolicy, "none">;
+  months: number;
+  warningDays: number;
+  startedAt: Date;
+}
+
+// XP earned at a moment: orders, offline purchases, bonuses. Spending and expiration are not accruals.
+export interface XpAccrual {
+  amount: number;
+  createdAt: Date;
+}
+
+export interface XpExpiration {
+  amount: number;
+  expiresAt: Date;
+}
+
+export interface LevelDrop {
+  currentLevel: LoyaltyLevel;
+  nextLevel: LoyaltyLevel;
+  at: Date;
+}
+
+/**
+ * Policy from the admin site settings; null while XP is kept forever
+ */
+export function getXpPolicySettings(siteSettings?: Partial<SiteSettings> | null): XpPolicySettings | null {
+  const policy = siteSettings?.xpPolicy;
+  if ((policy !== "expiration" && policy !== "rolling") || !siteSettings?.xpPolicyStartedAt) return null;
+  return {
+    policy,
+    months: siteSettings.xpPolicyMonths ?? 12,
+    warningDays: siteSettings.xpPolicyWarningDays ?? 14,
+    startedAt: new Date(siteSettings.xpPolicyStartedAt),
+  };
+}
+
+export function addMonths(date: Date, months: number): Date {
+  const result = new Date(date);
+  result.setMonth(result.getMonth() + months);
+  return result;
+}
+
+// Accruals from this moment on still count: N months back, but not before the policy started
+export function getXpWindowStart(settings: XpPolicySettings, now: Date): Date {
+  const cutoff = addMonths(now, -settings.months);
+  return cutoff > settings.startedAt ? cutoff : settings.startedAt;
+}
+
+// Until a full window has passed since the policy started, nothing expires and levels are judged as without a policy
+export function isXpPolicyInEffect(settings: XpPolicySettings, now: Date): boolean {
+  return addMonths(now, -settings.months) >= settings.startedAt;
+}
+
+function sumAccruals(accruals: XpAccrual[], since: Date): number {
+  return accruals.filter(accrual => accrual.createdAt >= since).reduce((sum, accrual) => sum + accrual.amount, 0);
+}
+
+/**
+ * XP of the balance that has expired by `now` and should be written off
+ */
+export function getExpiredXp(balance: number, accruals: XpAccrual[], settings: XpPolicySettings, now: Date): number {
+  if (settings.policy !== "expiration" || !isXpPolicyInEffect(settings, now)) return 0;
+  return Math.max(0, balance - sumAccruals(accruals, getXpWindowStart(settings, now)));
+}
+
+/**
+ * Points spent at checkout that stop counting towards the level: they age like the balance, so
+ * only spending covered by XP earned within the window still counts. Call with the balance after
+ * expiration; balance plus the points that still count never exceeds what was earned in the window.
+ */
+export function getExpiredPointsSpent(balance: number, pointsSpent: number, accruals: XpAccrual[], settings: XpPolicySettings, now: Date): number {
+  if (settings.policy !== "expiration" || !isXpPolicyInEffect(settings, now)) return 0;
+  const stillCounting = Math.max(0, sumAccruals(accruals, getXpWindowStart(settings, now)) - balance);
+  return Math.max(0, pointsSpent - stillCounting);
+}
+
+/**
+ * The next part of the balance to expire if the customer neither buys nor spends anything
+ */
+export function getNextXpExpiration(balance: number, accruals: XpAccrual[], settings: XpPolicySettings, now: Date): XpExpiration | null {
+  if (settings.policy !== "expiration") return null;
+  const lots = accruals
+    .filter(accrual => accrual.createdAt >= getXpWindowStart(settings, now))
+    .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+
+  // XP beyond everything earned after a moment expires N months after that moment
+  let later = lots.reduce((sum, lot) => sum + lot.amount, 0);
+  if (balance > later) {
+    const expiresAt = addMonths(settings.startedAt, settings.months);
+    return { amount: balance - later, expiresAt: expiresAt > now ? expiresAt : now };
+  }
+  for (const lot of lots) {
+    later -= lot.amount;
+    if (balance > later) {
+      return { amount: balance - later, expiresAt: addMonths(lot.createdAt, settings.months) };
+    }
+  }
+  return null;
+}
+
+/**
+ * When the customer drops to a lower level under the rolling policy if they stop buying
+ */
+export function getNextLevelDrop(
+  levelXp: number,
+  accruals: XpAccrual[],
+  levels: LoyaltyLevel[],
+  settings: XpPolicySettings,
+  now: Date
+): LevelDrop | null {
+  if (settings.policy !== "rolling") return null;
+  const currentLevel = getLoyaltyLevel(levelXp, levels);
+  const lots = accruals
+    .filter(accrual => accrual.createdAt >= getXpWindowStart(settings, now))
+    .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+
+  let remaining = lots.reduce((sum, lot) => sum + lot.amount, 0);
+  const moments: Array<{ at: Date; xp: number }> = [];
+  if (!isXpPolicyInEffect(settings, now)) {
+    // The balance stops counting once the first full window has passed
+    moments.push({ at: addMonths(settings.startedAt, settings.months), xp: remaining });
+  }
+  for (const lot of lots) {
+    remaining -= lot.amount;
+    moments.push({ at: addMonths(lot.createdAt, settings.months), xp: remaining });
+  }
+
+  for (const moment of moments) {
+    const nextLevel = getLoyaltyLevel(moment.xp, levels);
+    if (nextLevel.minXP < currentLevel.minXP) {
+      return { currentLevel, nextLevel, at: moment.at };
+    }
+  }
+  return null;
+}